@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { options as authOptions } from "@/lib/auth";
+import { activityChecklistService } from "@/backend/services/activity-checklist-service";
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/activity-checklists/resolve?maintenance_type_id=...&equipment_id=...
+ * Obtener las actividades con las que se precarga un nuevo registro de
+ * mantenimiento: la lista de la etapa del plan del equipo o, si no tiene, la
+ * del tipo de mantenimiento
+ */
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const maintenanceTypeId = searchParams.get("maintenance_type_id");
+    const equipmentId = searchParams.get("equipment_id") || undefined;
+
+    if (!maintenanceTypeId) {
+      return NextResponse.json(
+        { success: false, message: "ID del tipo de mantenimiento requerido" },
+        { status: 400 }
+      );
+    }
+
+    const result = await activityChecklistService.resolve(
+      equipmentId,
+      maintenanceTypeId,
+      session.user.id
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    console.error("Error en GET /api/activity-checklists/resolve:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Error interno del servidor",
+      },
+      { status: 400 }
+    );
+  }
+}
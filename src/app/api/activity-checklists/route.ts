@@ -0,0 +1,170 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { options as authOptions } from "@/lib/auth";
+import { activityChecklistService } from "@/backend/services/activity-checklist-service";
+import { ActivityChecklistSave } from "@/types/activity-checklist";
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/activity-checklists?maintenance_type_id=...|maintenance_stage_id=...
+ * Obtener la lista de actividades por defecto de un tipo de mantenimiento o
+ * de una etapa
+ */
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const maintenanceTypeId =
+      searchParams.get("maintenance_type_id") || undefined;
+    const maintenanceStageId =
+      searchParams.get("maintenance_stage_id") || undefined;
+
+    if (!maintenanceTypeId && !maintenanceStageId) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "ID del tipo de mantenimiento o de la etapa requerido",
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await activityChecklistService.get(
+      {
+        maintenance_type_id: maintenanceTypeId,
+        maintenance_stage_id: maintenanceStageId,
+      },
+      session.user.id
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    console.error("Error en GET /api/activity-checklists:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Error interno del servidor",
+      },
+      { status: 400 }
+    );
+  }
+}
+
+/**
+ * PUT /api/activity-checklists
+ * Guardar (crear o reemplazar) la lista de actividades por defecto de un tipo
+ * de mantenimiento o de una etapa
+ */
+export async function PUT(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { maintenance_type_id, maintenance_stage_id, items } = body;
+
+    if (!Array.isArray(items)) {
+      return NextResponse.json(
+        { success: false, message: "Las actividades son requeridas" },
+        { status: 400 }
+      );
+    }
+
+    const checklist: ActivityChecklistSave = {
+      maintenance_type_id: maintenance_type_id || undefined,
+      maintenance_stage_id: maintenance_stage_id || undefined,
+      items: (items as ActivityChecklistSave["items"]).map((item) => ({
+        activity_id: item.activity_id,
+        priority: item.priority || "no",
+      })),
+      user_id: session.user.id,
+    };
+
+    const result = await activityChecklistService.save(checklist);
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: "Lista de actividades guardada exitosamente",
+    });
+  } catch (error) {
+    console.error("Error en PUT /api/activity-checklists:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Error interno del servidor",
+      },
+      { status: 400 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/activity-checklists
+ * Eliminar una lista de actividades por defecto
+ */
+export async function DELETE(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { id } = body;
+
+    if (!id || typeof id !== "string" || id.trim() === "") {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "ID de la lista no proporcionado o inválido",
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await activityChecklistService.delete(
+      id.trim(),
+      session.user.id
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: "Lista de actividades eliminada exitosamente",
+    });
+  } catch (error) {
+    console.error("Error en DELETE /api/activity-checklists:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Error interno del servidor",
+      },
+      { status: 400 }
+    );
+  }
+}
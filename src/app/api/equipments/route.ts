@@ -108,6 +108,7 @@ export async function POST(request: NextRequest) {
       code: body.code,
       user_id: session.user.id,
       maintenance_plan_id: body.maintenance_plan_id,
+      meter_types: body.meter_types,
     });
 
     /* const { type, license_plate, code } = body;
@@ -206,6 +207,7 @@ export async function PUT(request: NextRequest) {
       license_plate: body.license_plate || null,
       code: body.code || null,
       maintenance_plan_id: body.maintenance_plan_id || null,
+      meter_types: body.meter_types || undefined,
     });
 
     return NextResponse.json({
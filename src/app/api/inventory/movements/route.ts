@@ -0,0 +1,149 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { options as authOptions } from "@/lib/auth";
+import { inventoryService } from "@/backend/services/inventory-service";
+import { InventoryError } from "@/backend/repositories/inventory-repository";
+import { InventoryErrorCodes } from "@/lib/errors";
+import { StockMovementType } from "@/types/inventory";
+export const dynamic = "force-dynamic";
+
+// Los consumos se registran desde los registros de mantenimiento
+const MANUAL_MOVEMENT_TYPES: StockMovementType[] = [
+  "receipt",
+  "adjustment",
+  "return",
+];
+
+/**
+ * GET /api/inventory/movements?spare_part_id=...&warehouse_id=...
+ * Obtener los movimientos del libro de stock
+ */
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limit = parseInt(searchParams.get("limit") || "100");
+    const offset = parseInt(searchParams.get("offset") || "0");
+
+    const result = await inventoryService.getMovements(
+      session.user.id,
+      {
+        spare_part_id: searchParams.get("spare_part_id") || undefined,
+        warehouse_id: searchParams.get("warehouse_id") || undefined,
+        maintenance_record_id:
+          searchParams.get("maintenance_record_id") || undefined,
+      },
+      limit,
+      offset
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    console.error("Error en GET /api/inventory/movements:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Error interno del servidor",
+      },
+      { status: 400 }
+    );
+  }
+}
+
+/**
+ * POST /api/inventory/movements
+ * Registrar un ingreso, ajuste o devolución de stock en una ubicación
+ * (la predeterminada si no se indica)
+ */
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const {
+      spare_part_id,
+      warehouse_id,
+      movement_type,
+      quantity,
+      unit_cost,
+      notes,
+    } = body;
+
+    if (!spare_part_id || typeof spare_part_id !== "string") {
+      return NextResponse.json(
+        { success: false, message: "ID del repuesto requerido" },
+        { status: 400 }
+      );
+    }
+
+    if (!MANUAL_MOVEMENT_TYPES.includes(movement_type)) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: `Tipo de movimiento inválido. Valores permitidos: ${MANUAL_MOVEMENT_TYPES.join(
+            ", "
+          )}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await inventoryService.recordMovement({
+      spare_part_id,
+      warehouse_id: warehouse_id || undefined,
+      movement_type,
+      quantity: Number(quantity),
+      unit_cost:
+        unit_cost !== undefined && unit_cost !== null && unit_cost !== ""
+          ? Number(unit_cost)
+          : undefined,
+      notes: notes || undefined,
+      user_id: session.user.id,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: "Movimiento de stock registrado exitosamente",
+    });
+  } catch (error) {
+    console.error("Error en POST /api/inventory/movements:", error);
+
+    if (
+      error instanceof InventoryError &&
+      error.code === InventoryErrorCodes.INSUFFICIENT_STOCK
+    ) {
+      return NextResponse.json(
+        { success: false, message: error.message, details: error.details },
+        { status: 409 }
+      );
+    }
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Error interno del servidor",
+      },
+      { status: 400 }
+    );
+  }
+}
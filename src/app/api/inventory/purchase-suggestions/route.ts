@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { options as authOptions } from "@/lib/auth";
+import { DEFAULT_HORIZON_DAYS } from "@/backend/services/spare-part-kit-service";
+import { purchaseSuggestionService } from "@/backend/services/purchase-suggestion-service";
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/inventory/purchase-suggestions?horizon_days=...
+ * Sugerir los repuestos a comprar según su stock, su punto de reorden y la
+ * demanda de los próximos mantenimientos
+ */
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const horizonDays = Number(
+      searchParams.get("horizon_days") || DEFAULT_HORIZON_DAYS
+    );
+
+    const result = await purchaseSuggestionService.getSuggestions(
+      session.user.id,
+      horizonDays
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    console.error("Error en GET /api/inventory/purchase-suggestions:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Error interno del servidor",
+      },
+      { status: 400 }
+    );
+  }
+}
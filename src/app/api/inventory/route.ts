@@ -0,0 +1,133 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { options as authOptions } from "@/lib/auth";
+import { inventoryService } from "@/backend/services/inventory-service";
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/inventory?spare_part_id=...
+ * Obtener el stock de los repuestos o de un repuesto
+ */
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const sparePartId = searchParams.get("spare_part_id");
+    const limit = parseInt(searchParams.get("limit") || "100");
+    const offset = parseInt(searchParams.get("offset") || "0");
+
+    const result = sparePartId
+      ? await inventoryService.getStock(sparePartId, session.user.id)
+      : await inventoryService.getStockLevels(session.user.id, limit, offset);
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    console.error("Error en GET /api/inventory:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Error interno del servidor",
+      },
+      { status: 400 }
+    );
+  }
+}
+
+/**
+ * PUT /api/inventory
+ * Permitir o no que el stock de un repuesto quede negativo, o configurar su
+ * punto de reorden (min_stock y reorder_quantity)
+ */
+export async function PUT(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { spare_part_id, allow_negative, min_stock, reorder_quantity } =
+      body;
+
+    if (!spare_part_id || typeof spare_part_id !== "string") {
+      return NextResponse.json(
+        { success: false, message: "ID del repuesto requerido" },
+        { status: 400 }
+      );
+    }
+
+    if (min_stock !== undefined || reorder_quantity !== undefined) {
+      if (
+        typeof min_stock !== "number" ||
+        typeof reorder_quantity !== "number"
+      ) {
+        return NextResponse.json(
+          {
+            success: false,
+            message: "min_stock y reorder_quantity deben ser numéricos",
+          },
+          { status: 400 }
+        );
+      }
+
+      const result = await inventoryService.setReorderPolicy(
+        spare_part_id,
+        { min_stock, reorder_quantity },
+        session.user.id
+      );
+
+      return NextResponse.json({
+        success: true,
+        data: result,
+        message: "Punto de reorden actualizado",
+      });
+    }
+
+    if (typeof allow_negative !== "boolean") {
+      return NextResponse.json(
+        { success: false, message: "allow_negative debe ser booleano" },
+        { status: 400 }
+      );
+    }
+
+    const result = await inventoryService.setAllowNegative(
+      spare_part_id,
+      allow_negative,
+      session.user.id
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: allow_negative
+        ? "Stock negativo permitido para el repuesto"
+        : "Stock negativo deshabilitado para el repuesto",
+    });
+  } catch (error) {
+    console.error("Error en PUT /api/inventory:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Error interno del servidor",
+      },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { options as authOptions } from "@/lib/auth";
+import { maintenanceAttachmentService } from "@/backend/services/maintenance-attachment-service";
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/maintenance-attachments/file?id=...&thumbnail=1
+ * Descargar el contenido de un adjunto o de su miniatura
+ * Con `download=1` el navegador guarda el archivo en lugar de mostrarlo
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = request.nextUrl;
+    const id = searchParams.get("id");
+    if (!id) {
+      return NextResponse.json(
+        { success: false, message: "ID del adjunto requerido" },
+        { status: 400 }
+      );
+    }
+
+    const thumbnail = searchParams.get("thumbnail") === "1";
+    const { attachment, data, content_type } =
+      await maintenanceAttachmentService.download(
+        id,
+        session.user.id,
+        thumbnail
+      );
+    const disposition =
+      searchParams.get("download") === "1" ? "attachment" : "inline";
+    const fileName = encodeURIComponent(attachment.file_name);
+
+    return new NextResponse(new Uint8Array(data), {
+      headers: {
+        "Content-Type": content_type,
+        "Content-Length": String(data.length),
+        "Content-Disposition": `${disposition}; filename*=UTF-8''${fileName}`,
+        "Cache-Control": "private, max-age=3600",
+        "X-Content-Type-Options": "nosniff",
+      },
+    });
+  } catch (error) {
+    console.error("Error en GET /api/maintenance-attachments/file:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Error interno del servidor",
+      },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,199 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { options as authOptions } from "@/lib/auth";
+import { maintenanceAttachmentService } from "@/backend/services/maintenance-attachment-service";
+import { MaintenanceAttachmentError } from "@/backend/repositories/maintenance-attachment-repository";
+import { MaintenanceAttachmentErrorCodes } from "@/lib/errors";
+import { MaintenanceAttachmentKind } from "@/types/maintenance-attachment";
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/maintenance-attachments?maintenance_record_id=...
+ * Obtener los adjuntos de un registro de mantenimiento
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const maintenanceRecordId = request.nextUrl.searchParams.get(
+      "maintenance_record_id"
+    );
+    if (!maintenanceRecordId) {
+      return NextResponse.json(
+        { success: false, message: "ID de registro no proporcionado" },
+        { status: 400 }
+      );
+    }
+
+    const attachments =
+      await maintenanceAttachmentService.getByMaintenanceRecord(
+        maintenanceRecordId,
+        session.user.id
+      );
+
+    return NextResponse.json({
+      success: true,
+      data: attachments,
+    });
+  } catch (error) {
+    console.error("Error en GET /api/maintenance-attachments:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Error interno del servidor",
+      },
+      { status: 400 }
+    );
+  }
+}
+
+/**
+ * POST /api/maintenance-attachments
+ * Adjuntar un archivo a un registro de mantenimiento (multipart)
+ * Campos: `file`, `maintenance_record_id`, `kind`, `description` y
+ * `thumbnail` (miniatura JPEG opcional para imágenes)
+ */
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const formData = await request.formData();
+    const file = formData.get("file");
+    const thumbnail = formData.get("thumbnail");
+    const maintenanceRecordId = formData.get("maintenance_record_id");
+    const kind = formData.get("kind") || "other";
+    const description = formData.get("description");
+
+    if (!(file instanceof File) || typeof maintenanceRecordId !== "string") {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Archivo y registro de mantenimiento son requeridos",
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await maintenanceAttachmentService.upload({
+      maintenance_record_id: maintenanceRecordId,
+      kind: kind as MaintenanceAttachmentKind,
+      description:
+        typeof description === "string" && description.trim()
+          ? description.trim()
+          : undefined,
+      file_name: file.name,
+      content_type: file.type || "application/octet-stream",
+      data: Buffer.from(await file.arrayBuffer()),
+      thumbnail:
+        thumbnail instanceof File
+          ? Buffer.from(await thumbnail.arrayBuffer())
+          : undefined,
+      thumbnail_content_type:
+        thumbnail instanceof File
+          ? thumbnail.type || "application/octet-stream"
+          : undefined,
+      user_id: session.user.id,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: "Archivo adjuntado exitosamente",
+    });
+  } catch (error) {
+    console.error("Error en POST /api/maintenance-attachments:", error);
+
+    if (
+      error instanceof MaintenanceAttachmentError &&
+      error.code === MaintenanceAttachmentErrorCodes.RECORD_LOCKED
+    ) {
+      return NextResponse.json(
+        { success: false, message: error.message, details: error.details },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Error interno del servidor",
+      },
+      { status: 400 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/maintenance-attachments
+ * Eliminar un adjunto y sus archivos
+ */
+export async function DELETE(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { id } = body;
+
+    if (!id || typeof id !== "string") {
+      return NextResponse.json(
+        { success: false, message: "ID del adjunto requerido" },
+        { status: 400 }
+      );
+    }
+
+    const result = await maintenanceAttachmentService.delete(
+      id,
+      session.user.id
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: "Adjunto eliminado exitosamente",
+    });
+  } catch (error) {
+    console.error("Error en DELETE /api/maintenance-attachments:", error);
+
+    if (
+      error instanceof MaintenanceAttachmentError &&
+      error.code === MaintenanceAttachmentErrorCodes.RECORD_LOCKED
+    ) {
+      return NextResponse.json(
+        { success: false, message: error.message, details: error.details },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Error interno del servidor",
+      },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { options as authOptions } from "@/lib/auth";
+import {
+  DEFAULT_TOLERANCE_PCT,
+  maintenanceComplianceService,
+} from "@/backend/services/maintenance-compliance-service";
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/maintenance-compliance?tolerance=...&equipment_id=...
+ * Obtener el reporte de cumplimiento del plan de mantenimiento de la flota
+ * o de un equipo
+ */
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const tolerance = searchParams.get("tolerance");
+    const equipmentId = searchParams.get("equipment_id") || undefined;
+
+    const tolerancePct =
+      tolerance !== null && tolerance !== ""
+        ? Number(tolerance)
+        : DEFAULT_TOLERANCE_PCT;
+    if (!Number.isFinite(tolerancePct)) {
+      return NextResponse.json(
+        { success: false, message: "Tolerancia inválida" },
+        { status: 400 }
+      );
+    }
+
+    const result = await maintenanceComplianceService.getReport(
+      session.user.id,
+      tolerancePct,
+      equipmentId
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    console.error("Error en GET /api/maintenance-compliance:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Error interno del servidor",
+      },
+      { status: 400 }
+    );
+  }
+}
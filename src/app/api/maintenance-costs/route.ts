@@ -0,0 +1,71 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { options as authOptions } from "@/lib/auth";
+import { maintenanceCostService } from "@/backend/services/maintenance-cost-service";
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/maintenance-costs?from=YYYY-MM-DD&to=YYYY-MM-DD&equipment_id=...
+ * Obtener el reporte de costos de mantenimiento del periodo
+ * Con `maintenance_record_id` devuelve solo el costo de ese registro
+ */
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const maintenanceRecordId = searchParams.get("maintenance_record_id");
+
+    if (maintenanceRecordId) {
+      const result = await maintenanceCostService.getRecordCostById(
+        maintenanceRecordId,
+        session.user.id
+      );
+
+      return NextResponse.json({
+        success: true,
+        data: result,
+      });
+    }
+
+    const fromParam = searchParams.get("from");
+    const toParam = searchParams.get("to");
+    // El periodo incluye completo el día final
+    const from = fromParam ? new Date(`${fromParam}T00:00:00`) : undefined;
+    const to = toParam ? new Date(`${toParam}T23:59:59.999`) : undefined;
+    if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+      return NextResponse.json(
+        { success: false, message: "Periodo inválido" },
+        { status: 400 }
+      );
+    }
+
+    const result = await maintenanceCostService.getReport(session.user.id, {
+      from,
+      to,
+      equipment_id: searchParams.get("equipment_id") || undefined,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    console.error("Error en GET /api/maintenance-costs:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Error interno del servidor",
+      },
+      { status: 400 }
+    );
+  }
+}
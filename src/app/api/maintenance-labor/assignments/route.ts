@@ -0,0 +1,122 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { options as authOptions } from "@/lib/auth";
+import { maintenanceLaborService } from "@/backend/services/maintenance-labor-service";
+import { MaintenanceLaborError } from "@/backend/repositories/maintenance-labor-repository";
+import { MaintenanceLaborErrorCodes } from "@/lib/errors";
+
+const CONFLICT_CODES = [
+  MaintenanceLaborErrorCodes.ALREADY_ASSIGNED,
+  MaintenanceLaborErrorCodes.RECORD_LOCKED,
+];
+
+/**
+ * Respuesta de error de las asignaciones; los conflictos con el estado actual
+ * responden 409
+ */
+function errorResponse(error: unknown) {
+  if (
+    error instanceof MaintenanceLaborError &&
+    CONFLICT_CODES.includes(error.code)
+  ) {
+    return NextResponse.json(
+      { success: false, message: error.message, details: error.details },
+      { status: 409 }
+    );
+  }
+
+  return NextResponse.json(
+    {
+      success: false,
+      message:
+        error instanceof Error ? error.message : "Error interno del servidor",
+    },
+    { status: 400 }
+  );
+}
+
+/**
+ * POST /api/maintenance-labor/assignments
+ * Asignar un técnico a un registro de mantenimiento o a una de sus
+ * actividades
+ */
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { maintenance_record_id, maintenance_activity_id, technician_id } =
+      body;
+
+    if (!maintenance_record_id || !technician_id) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Registro de mantenimiento y técnico son requeridos",
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await maintenanceLaborService.assign({
+      maintenance_record_id,
+      maintenance_activity_id: maintenance_activity_id || undefined,
+      technician_id,
+      user_id: session.user.id,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: "Técnico asignado exitosamente",
+    });
+  } catch (error) {
+    console.error("Error en POST /api/maintenance-labor/assignments:", error);
+    return errorResponse(error);
+  }
+}
+
+/**
+ * DELETE /api/maintenance-labor/assignments
+ * Quitar la asignación de un técnico
+ */
+export async function DELETE(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { id } = body;
+
+    if (!id || typeof id !== "string") {
+      return NextResponse.json(
+        { success: false, message: "ID de la asignación requerido" },
+        { status: 400 }
+      );
+    }
+
+    const result = await maintenanceLaborService.unassign(id, session.user.id);
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: "Asignación eliminada exitosamente",
+    });
+  } catch (error) {
+    console.error("Error en DELETE /api/maintenance-labor/assignments:", error);
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { options as authOptions } from "@/lib/auth";
+import { maintenanceLaborService } from "@/backend/services/maintenance-labor-service";
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/maintenance-labor?maintenance_record_id=...
+ * Obtener los técnicos asignados, los registros de tiempo y la mano de obra
+ * de un registro de mantenimiento
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const maintenanceRecordId = request.nextUrl.searchParams.get(
+      "maintenance_record_id"
+    );
+    if (!maintenanceRecordId) {
+      return NextResponse.json(
+        { success: false, message: "ID de registro no proporcionado" },
+        { status: 400 }
+      );
+    }
+
+    const [assignments, timeEntries, labor] = await Promise.all([
+      maintenanceLaborService.getAssignments(
+        maintenanceRecordId,
+        session.user.id
+      ),
+      maintenanceLaborService.getTimeEntries(
+        maintenanceRecordId,
+        session.user.id
+      ),
+      maintenanceLaborService.getRecordLabor(
+        maintenanceRecordId,
+        session.user.id
+      ),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: { assignments, time_entries: timeEntries, labor },
+    });
+  } catch (error) {
+    console.error("Error en GET /api/maintenance-labor:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Error interno del servidor",
+      },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,182 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { options as authOptions } from "@/lib/auth";
+import { maintenanceLaborService } from "@/backend/services/maintenance-labor-service";
+import { MaintenanceLaborError } from "@/backend/repositories/maintenance-labor-repository";
+import { MaintenanceLaborErrorCodes } from "@/lib/errors";
+
+const CONFLICT_CODES = [
+  MaintenanceLaborErrorCodes.ALREADY_CLOCKED_IN,
+  MaintenanceLaborErrorCodes.ALREADY_CLOCKED_OUT,
+  MaintenanceLaborErrorCodes.NOT_ASSIGNED,
+  MaintenanceLaborErrorCodes.RECORD_LOCKED,
+];
+
+/**
+ * Respuesta de error de los registros de tiempo; los conflictos con el estado
+ * actual responden 409
+ */
+function errorResponse(error: unknown) {
+  if (
+    error instanceof MaintenanceLaborError &&
+    CONFLICT_CODES.includes(error.code)
+  ) {
+    return NextResponse.json(
+      { success: false, message: error.message, details: error.details },
+      { status: 409 }
+    );
+  }
+
+  return NextResponse.json(
+    {
+      success: false,
+      message:
+        error instanceof Error ? error.message : "Error interno del servidor",
+    },
+    { status: 400 }
+  );
+}
+
+/**
+ * POST /api/maintenance-labor/time-entries
+ * Marcar la entrada de un técnico; con `clock_out` registra un tiempo ya
+ * trabajado
+ */
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const {
+      maintenance_record_id,
+      maintenance_activity_id,
+      technician_id,
+      clock_in,
+      clock_out,
+      notes,
+    } = body;
+
+    if (!maintenance_record_id || !technician_id) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Registro de mantenimiento y técnico son requeridos",
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await maintenanceLaborService.clockIn({
+      maintenance_record_id,
+      maintenance_activity_id: maintenance_activity_id || undefined,
+      technician_id,
+      clock_in: clock_in ? new Date(clock_in) : undefined,
+      clock_out: clock_out ? new Date(clock_out) : undefined,
+      notes,
+      user_id: session.user.id,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: clock_out ? "Tiempo registrado" : "Entrada registrada",
+    });
+  } catch (error) {
+    console.error("Error en POST /api/maintenance-labor/time-entries:", error);
+    return errorResponse(error);
+  }
+}
+
+/**
+ * PUT /api/maintenance-labor/time-entries
+ * Marcar la salida de un registro de tiempo
+ */
+export async function PUT(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { id, clock_out, notes } = body;
+
+    if (!id || typeof id !== "string") {
+      return NextResponse.json(
+        { success: false, message: "ID del registro de tiempo requerido" },
+        { status: 400 }
+      );
+    }
+
+    const result = await maintenanceLaborService.clockOut({
+      id,
+      clock_out: clock_out ? new Date(clock_out) : undefined,
+      notes,
+      user_id: session.user.id,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: "Salida registrada",
+    });
+  } catch (error) {
+    console.error("Error en PUT /api/maintenance-labor/time-entries:", error);
+    return errorResponse(error);
+  }
+}
+
+/**
+ * DELETE /api/maintenance-labor/time-entries
+ * Eliminar un registro de tiempo
+ */
+export async function DELETE(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { id } = body;
+
+    if (!id || typeof id !== "string") {
+      return NextResponse.json(
+        { success: false, message: "ID del registro de tiempo requerido" },
+        { status: 400 }
+      );
+    }
+
+    const result = await maintenanceLaborService.deleteTimeEntry(
+      id,
+      session.user.id
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: "Registro de tiempo eliminado",
+    });
+  } catch (error) {
+    console.error(
+      "Error en DELETE /api/maintenance-labor/time-entries:",
+      error
+    );
+    return errorResponse(error);
+  }
+}
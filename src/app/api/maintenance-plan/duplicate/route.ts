@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { options as authOptions } from "@/lib/auth";
+import { maintenancePlanService } from "@/backend/services/maintenance-plan-service";
+
+/**
+ * POST /api/maintenance-plan/duplicate
+ * Duplicar un plan de mantenimiento con todas sus etapas
+ */
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { id, name } = body;
+
+    if (!id || typeof id !== "string" || id.trim() === "") {
+      return NextResponse.json(
+        { success: false, message: "ID del plan no proporcionado o inválido" },
+        { status: 400 }
+      );
+    }
+
+    if (
+      name !== undefined &&
+      (typeof name !== "string" || name.trim() === "")
+    ) {
+      return NextResponse.json(
+        { success: false, message: "Nombre del plan inválido" },
+        { status: 400 }
+      );
+    }
+
+    const plan = await maintenancePlanService.duplicate(
+      id.trim(),
+      session.user.id,
+      name
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: plan,
+      message: `Plan duplicado como "${plan.name}"`,
+    });
+  } catch (error) {
+    console.error("Error en POST /api/maintenance-plan/duplicate:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Error interno del servidor",
+      },
+      { status: 400 }
+    );
+  }
+}
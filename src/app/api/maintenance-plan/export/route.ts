@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { options as authOptions } from "@/lib/auth";
+import { maintenancePlanTransferService } from "@/backend/services/maintenance-plan-transfer-service";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/maintenance-plan/export
+ * Exportar un plan de mantenimiento como JSON portable
+ */
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const planId = searchParams.get("plan_id");
+
+    if (!planId) {
+      return NextResponse.json(
+        { success: false, message: "ID del plan requerido" },
+        { status: 400 }
+      );
+    }
+
+    const data = await maintenancePlanTransferService.export(
+      planId,
+      session.user.id
+    );
+    const fileName = data.plan.name
+      .normalize("NFD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .replace(/[^a-zA-Z0-9-_]+/g, "_");
+
+    return new NextResponse(JSON.stringify(data, null, 2), {
+      headers: {
+        "Content-Type": "application/json",
+        "Content-Disposition": `attachment; filename="plan_${fileName}.json"`,
+      },
+    });
+  } catch (error) {
+    console.error("Error en GET /api/maintenance-plan/export:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Error interno del servidor",
+      },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,85 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { options as authOptions } from "@/lib/auth";
+import { maintenancePlanTransferService } from "@/backend/services/maintenance-plan-transfer-service";
+import { MaintenancePlanImportNameStrategy } from "@/types/maintenance-plan-transfer";
+
+const NAME_STRATEGIES: MaintenancePlanImportNameStrategy[] = ["fail", "rename"];
+
+/**
+ * POST /api/maintenance-plan/import
+ * Importar un plan de mantenimiento exportado desde otra cuenta
+ * Con dry_run solo se reportan los conflictos y los tipos a crear
+ */
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { data, name, on_name_conflict = "fail", dry_run = false } = body;
+
+    if (!data || typeof data !== "object") {
+      return NextResponse.json(
+        { success: false, message: "El plan a importar es requerido" },
+        { status: 400 }
+      );
+    }
+
+    if (name !== undefined && typeof name !== "string") {
+      return NextResponse.json(
+        { success: false, message: "Nombre del plan inválido" },
+        { status: 400 }
+      );
+    }
+
+    if (!NAME_STRATEGIES.includes(on_name_conflict)) {
+      return NextResponse.json(
+        { success: false, message: "Estrategia de nombre inválida" },
+        { status: 400 }
+      );
+    }
+
+    const result = await maintenancePlanTransferService.import(data, {
+      name: name?.trim() || undefined,
+      on_name_conflict,
+      dry_run: dry_run === true,
+      user_id: session.user.id,
+    });
+
+    if (result.conflicts.length > 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          data: result,
+          message: "El plan tiene conflictos y no se importó",
+        },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: result.imported
+        ? `Plan "${result.name}" importado exitosamente`
+        : "El plan puede importarse sin conflictos",
+    });
+  } catch (error) {
+    console.error("Error en POST /api/maintenance-plan/import:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Error interno del servidor",
+      },
+      { status: 400 }
+    );
+  }
+}
@@ -4,9 +4,16 @@ import { getServerSession } from "next-auth/next";
 import { options as authOptions } from "@/lib/auth";
 import {
   MaintenancePlanCreate,
+  MaintenancePlanCycleMode,
   MaintenancePlanUpdate,
 } from "@/types/maintenance-plan";
 
+const CYCLE_MODES: MaintenancePlanCycleMode[] = [
+  "repeat",
+  "repeat_from",
+  "terminate",
+];
+
 /**
  * GET /api/maintenance-plan
  * Obtener planes de mantenimiento con sus etapas
@@ -74,7 +81,7 @@ export async function POST(request: Request) {
     }
 
     const body = await request.json();
-    const { name, description } = body;
+    const { name, description, cycle_mode, cycle_restart_index } = body;
 
     // Validación del nombre
     if (!name || typeof name !== "string" || name.trim() === "") {
@@ -127,13 +134,24 @@ export async function POST(request: Request) {
       }
     }
 
+    // Validación del comportamiento cíclico
+    if (cycle_mode !== undefined && !CYCLE_MODES.includes(cycle_mode)) {
+      return NextResponse.json(
+        { success: false, message: "Comportamiento de ciclo inválido" },
+        { status: 400 }
+      );
+    }
+
     const planData: MaintenancePlanCreate = {
       name: name.trim(),
       description: description ? description.trim() : undefined,
+      cycle_mode,
+      cycle_restart_index:
+        cycle_mode === "repeat_from" ? cycle_restart_index : undefined,
       user_id: session.user.id,
     };
 
-    const result = await maintenancePlanService.create(planData);
+    const result = await maintenancePlanService.createWithVersion(planData);
 
     return NextResponse.json({
       success: true,
@@ -169,7 +187,7 @@ export async function PUT(request: Request) {
     }
 
     const body = await request.json();
-    const { id, name, description } = body;
+    const { id, name, description, cycle_mode, cycle_restart_index } = body;
 
     // Validación del ID
     if (!id || typeof id !== "string" || id.trim() === "") {
@@ -232,13 +250,23 @@ export async function PUT(request: Request) {
       }
     }
 
+    // Validación del comportamiento cíclico
+    if (cycle_mode !== undefined && !CYCLE_MODES.includes(cycle_mode)) {
+      return NextResponse.json(
+        { success: false, message: "Comportamiento de ciclo inválido" },
+        { status: 400 }
+      );
+    }
+
     const updateData: MaintenancePlanUpdate = {
       id: id.trim(),
       ...(name !== undefined && { name: name.trim() }),
       ...(description !== undefined && { description: description.trim() }),
+      ...(cycle_mode !== undefined && { cycle_mode }),
+      ...(cycle_mode === "repeat_from" && { cycle_restart_index }),
     };
 
-    const result = await maintenancePlanService.update(
+    const result = await maintenancePlanService.updateWithVersion(
       updateData,
       session.user.id
     );
@@ -0,0 +1,85 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { options as authOptions } from "@/lib/auth";
+import { maintenancePlanTemplateService } from "@/backend/services/maintenance-plan-template-service";
+
+/**
+ * POST /api/maintenance-plan/templates/instantiate
+ * Crear un plan de mantenimiento a partir de una plantilla
+ */
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const {
+      template_id,
+      name,
+      description,
+      kilometer_factor = 1,
+      day_factor = 1,
+    } = body;
+
+    if (!template_id || typeof template_id !== "string") {
+      return NextResponse.json(
+        { success: false, message: "ID de la plantilla requerido" },
+        { status: 400 }
+      );
+    }
+
+    if (name !== undefined && typeof name !== "string") {
+      return NextResponse.json(
+        { success: false, message: "Nombre del plan inválido" },
+        { status: 400 }
+      );
+    }
+
+    if (
+      typeof kilometer_factor !== "number" ||
+      typeof day_factor !== "number"
+    ) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Los factores de escala deben ser números",
+        },
+        { status: 400 }
+      );
+    }
+
+    const plan = await maintenancePlanTemplateService.instantiate({
+      template_id,
+      name,
+      description,
+      kilometer_factor,
+      day_factor,
+      user_id: session.user.id,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: plan,
+      message: `Plan "${plan.name}" creado desde la plantilla`,
+    });
+  } catch (error) {
+    console.error(
+      "Error en POST /api/maintenance-plan/templates/instantiate:",
+      error
+    );
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Error interno del servidor",
+      },
+      { status: 400 }
+    );
+  }
+}
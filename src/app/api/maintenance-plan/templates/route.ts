@@ -0,0 +1,162 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { options as authOptions } from "@/lib/auth";
+import { maintenancePlanTemplateService } from "@/backend/services/maintenance-plan-template-service";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/maintenance-plan/templates
+ * Obtener las plantillas de planes de mantenimiento
+ */
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limit = parseInt(searchParams.get("limit") || "100");
+    const offset = parseInt(searchParams.get("offset") || "0");
+
+    const result = await maintenancePlanTemplateService.getAll(
+      limit,
+      offset,
+      session.user.id
+    );
+
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    console.error("Error en GET /api/maintenance-plan/templates:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Error interno del servidor",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/maintenance-plan/templates
+ * Guardar un plan de mantenimiento como plantilla
+ */
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { plan_id, name, description } = body;
+
+    if (!plan_id || typeof plan_id !== "string") {
+      return NextResponse.json(
+        { success: false, message: "ID del plan requerido" },
+        { status: 400 }
+      );
+    }
+
+    if (!name || typeof name !== "string" || name.trim() === "") {
+      return NextResponse.json(
+        { success: false, message: "Nombre de la plantilla es requerido" },
+        { status: 400 }
+      );
+    }
+
+    if (description !== undefined && typeof description !== "string") {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "La descripción debe ser un texto válido",
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await maintenancePlanTemplateService.createFromPlan(
+      plan_id,
+      { name, description },
+      session.user.id
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: "Plantilla creada exitosamente",
+    });
+  } catch (error) {
+    console.error("Error en POST /api/maintenance-plan/templates:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Error interno del servidor",
+      },
+      { status: 400 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/maintenance-plan/templates
+ * Eliminar una plantilla
+ */
+export async function DELETE(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { id } = body;
+
+    if (!id || typeof id !== "string" || id.trim() === "") {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "ID de la plantilla no proporcionado o inválido",
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await maintenancePlanTemplateService.delete(
+      id.trim(),
+      session.user.id
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: "Plantilla eliminada exitosamente",
+    });
+  } catch (error) {
+    console.error("Error en DELETE /api/maintenance-plan/templates:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Error interno del servidor",
+      },
+      { status: 400 }
+    );
+  }
+}
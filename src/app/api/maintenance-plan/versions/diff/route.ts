@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { options as authOptions } from "@/lib/auth";
+import { maintenancePlanVersionService } from "@/backend/services/maintenance-plan-version-service";
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/maintenance-plan/versions/diff?plan_id=...&from=...&to=...
+ * Comparar las etapas de dos versiones de un plan
+ */
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const planId = searchParams.get("plan_id");
+    const from = parseInt(searchParams.get("from") || "");
+    const to = parseInt(searchParams.get("to") || "");
+
+    if (!planId) {
+      return NextResponse.json(
+        { success: false, message: "ID del plan requerido" },
+        { status: 400 }
+      );
+    }
+
+    if (isNaN(from) || isNaN(to)) {
+      return NextResponse.json(
+        { success: false, message: "Versiones a comparar inválidas" },
+        { status: 400 }
+      );
+    }
+
+    const result = await maintenancePlanVersionService.diff(
+      planId,
+      from,
+      to,
+      session.user.id
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    console.error("Error en GET /api/maintenance-plan/versions/diff:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Error interno del servidor",
+      },
+      { status: 400 }
+    );
+  }
+}
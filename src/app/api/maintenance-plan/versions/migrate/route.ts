@@ -0,0 +1,75 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { options as authOptions } from "@/lib/auth";
+import { maintenancePlanVersionService } from "@/backend/services/maintenance-plan-version-service";
+
+/**
+ * POST /api/maintenance-plan/versions/migrate
+ * Migrar equipos a una versión del plan
+ */
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { plan_id, version_number, equipment_ids } = body;
+
+    if (!plan_id || typeof plan_id !== "string") {
+      return NextResponse.json(
+        { success: false, message: "ID del plan requerido" },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(version_number) || version_number < 1) {
+      return NextResponse.json(
+        { success: false, message: "Versión de destino inválida" },
+        { status: 400 }
+      );
+    }
+
+    if (
+      !Array.isArray(equipment_ids) ||
+      equipment_ids.length === 0 ||
+      equipment_ids.some((id) => typeof id !== "string")
+    ) {
+      return NextResponse.json(
+        { success: false, message: "Selecciona al menos un equipo" },
+        { status: 400 }
+      );
+    }
+
+    const result = await maintenancePlanVersionService.migrate({
+      maintenance_plan_id: plan_id,
+      version_number,
+      equipment_ids,
+      user_id: session.user.id,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: `${result.migrated} equipos migrados a la versión ${version_number}`,
+    });
+  } catch (error) {
+    console.error(
+      "Error en POST /api/maintenance-plan/versions/migrate:",
+      error
+    );
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Error interno del servidor",
+      },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { options as authOptions } from "@/lib/auth";
+import { maintenancePlanVersionService } from "@/backend/services/maintenance-plan-version-service";
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/maintenance-plan/versions?plan_id=...
+ * Obtener las versiones de un plan y los equipos con la versión que siguen
+ */
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const planId = searchParams.get("plan_id");
+
+    if (!planId) {
+      return NextResponse.json(
+        { success: false, message: "ID del plan requerido" },
+        { status: 400 }
+      );
+    }
+
+    const [versions, equipment] = await Promise.all([
+      maintenancePlanVersionService.getByPlan(planId, session.user.id),
+      maintenancePlanVersionService.getEquipment(planId, session.user.id),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: { ...versions, equipment },
+    });
+  } catch (error) {
+    console.error("Error en GET /api/maintenance-plan/versions:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Error interno del servidor",
+      },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,167 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { options as authOptions } from "@/lib/auth";
+import { maintenanceWorkOrderService } from "@/backend/services/maintenance-work-order-service";
+import { workOrderNumber } from "@/backend/pdf/work-order-pdf";
+import { MaintenanceRecordError } from "@/backend/repositories/maintenance-record-repository";
+import { MaintenanceRecordErrorCodes } from "@/lib/errors";
+import {
+  MaintenanceWorkOrder,
+  MaintenanceWorkOrderDocument,
+} from "@/types/maintenance-work-order";
+export const dynamic = "force-dynamic";
+
+const DOCUMENTS: MaintenanceWorkOrderDocument[] = [
+  "work_order",
+  "service_report",
+];
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Interpretar el periodo `from`-`to` (YYYY-MM-DD) en días locales; el día
+ * final se incluye completo. Devuelve null si alguna fecha no tiene el
+ * formato o no existe (p. ej. 2024-02-30)
+ */
+function parsePeriod(
+  from: string | null,
+  to: string | null
+): { from: Date; to: Date } | null {
+  const parse = (value: string | null, endOfDay: boolean) => {
+    const match = value ? DATE_PATTERN.exec(value) : null;
+    if (!match) return null;
+
+    const [year, month, day] = match.slice(1).map(Number);
+    const date = endOfDay
+      ? new Date(year, month - 1, day, 23, 59, 59, 999)
+      : new Date(year, month - 1, day);
+    return date.getFullYear() === year &&
+      date.getMonth() === month - 1 &&
+      date.getDate() === day
+      ? date
+      : null;
+  };
+
+  const start = parse(from, false);
+  const end = parse(to, true);
+  return start && end ? { from: start, to: end } : null;
+}
+
+/**
+ * Fecha YYYY-MM-DD de un día local
+ */
+function dayKey(date: Date): string {
+  return [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, "0"),
+    String(date.getDate()).padStart(2, "0"),
+  ].join("-");
+}
+
+/**
+ * GET /api/maintenance-records/pdf
+ * Descargar en PDF la orden de trabajo o el informe de servicio
+ * - `id`: un registro de mantenimiento
+ * - `from` y `to` (YYYY-MM-DD) y `equipment_id` opcional: todos los registros
+ *   iniciados en el periodo, uno por página
+ * - `document`: work_order (por defecto) o service_report
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = request.nextUrl;
+    const id = searchParams.get("id");
+    const from = searchParams.get("from");
+    const to = searchParams.get("to");
+    const document = (searchParams.get("document") ||
+      "work_order") as MaintenanceWorkOrderDocument;
+
+    if (!DOCUMENTS.includes(document)) {
+      return NextResponse.json(
+        { success: false, message: `Documento no soportado: ${document}` },
+        { status: 400 }
+      );
+    }
+
+    if (!id && (!from || !to)) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "ID del registro o rango de fechas requerido",
+        },
+        { status: 400 }
+      );
+    }
+
+    const prefix =
+      document === "service_report" ? "informe_servicio" : "orden_trabajo";
+    let orders: MaintenanceWorkOrder[];
+    let fileName: string;
+
+    if (id) {
+      orders = [
+        await maintenanceWorkOrderService.getWorkOrder(id, session.user.id),
+      ];
+      fileName = `${prefix}_${workOrderNumber(id)}.pdf`;
+    } else {
+      const period = parsePeriod(from, to);
+      if (!period) {
+        return NextResponse.json(
+          {
+            success: false,
+            message: "Las fechas del periodo deben tener el formato YYYY-MM-DD",
+          },
+          { status: 400 }
+        );
+      }
+
+      orders = await maintenanceWorkOrderService.getWorkOrders(
+        session.user.id,
+        {
+          ...period,
+          equipment_id: searchParams.get("equipment_id") || undefined,
+        }
+      );
+      fileName = `${prefix}_${dayKey(period.from)}_${dayKey(period.to)}.pdf`;
+    }
+
+    if (orders.length === 0) {
+      return NextResponse.json(
+        { success: false, message: "No hay registros en el periodo" },
+        { status: 400 }
+      );
+    }
+
+    const pdf = maintenanceWorkOrderService.renderPdf(orders, document);
+
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Length": String(pdf.length),
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+      },
+    });
+  } catch (error) {
+    console.error("Error en GET /api/maintenance-records/pdf:", error);
+    if (error instanceof MaintenanceRecordError) {
+      const notFound =
+        error.code === MaintenanceRecordErrorCodes.NOT_FOUND ||
+        error.code === MaintenanceRecordErrorCodes.EQUIPMENT_NOT_FOUND;
+      return NextResponse.json(
+        { success: false, message: error.message, details: error.details },
+        { status: notFound ? 404 : 400 }
+      );
+    }
+    return NextResponse.json(
+      { success: false, message: "Error interno del servidor" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { options as authOptions } from "@/lib/auth";
+import { maintenanceRecordService } from "@/backend/services/maintenance-record-service";
+import { MaintenanceRecordError } from "@/backend/repositories/maintenance-record-repository";
+import { MaintenanceRecordErrorCodes } from "@/lib/errors";
+import { recordStatusOptions } from "@/lib/utils";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/maintenance-records/status?id=...
+ * Obtener el historial de estados de un registro de mantenimiento
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const id = request.nextUrl.searchParams.get("id");
+    if (!id) {
+      return NextResponse.json(
+        { success: false, message: "ID de registro no proporcionado" },
+        { status: 400 }
+      );
+    }
+
+    const changes = await maintenanceRecordService.getStatusChanges(
+      id,
+      session.user.id
+    );
+
+    return NextResponse.json({ success: true, data: changes });
+  } catch (error) {
+    console.error("Error en GET /api/maintenance-records/status:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Error interno del servidor",
+      },
+      { status: 400 }
+    );
+  }
+}
+
+/**
+ * PUT /api/maintenance-records/status
+ * Cambiar el estado de la orden de trabajo de un registro de mantenimiento
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { id, status, reason } = body;
+
+    if (!id || typeof id !== "string") {
+      return NextResponse.json(
+        { success: false, message: "ID de registro no proporcionado" },
+        { status: 400 }
+      );
+    }
+
+    if (!recordStatusOptions.some((option) => option.value === status)) {
+      return NextResponse.json(
+        { success: false, message: "Estado no válido" },
+        { status: 400 }
+      );
+    }
+
+    const result = await maintenanceRecordService.changeStatus(
+      id,
+      status,
+      session.user.id,
+      typeof reason === "string" ? reason : undefined
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: "Estado del registro actualizado",
+    });
+  } catch (error) {
+    console.error("Error en PUT /api/maintenance-records/status:", error);
+
+    if (
+      error instanceof MaintenanceRecordError &&
+      (error.code === MaintenanceRecordErrorCodes.INVALID_STATUS_TRANSITION ||
+        error.code === MaintenanceRecordErrorCodes.PENDING_MANDATORY_ACTIVITIES)
+    ) {
+      return NextResponse.json(
+        { success: false, message: error.message, details: error.details },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Error interno del servidor",
+      },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,91 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { options as authOptions } from "@/lib/auth";
+import { maintenanceStageService } from "@/backend/services/maintenance-stage-service";
+import { MaintenanceStageError } from "@/backend/repositories/maintenance-stage-repository";
+import { MaintenanceStageErrorCodes } from "@/lib/errors";
+
+/**
+ * POST /api/maintenance-stage/reorder
+ * Reordenar las etapas de un plan de forma atómica
+ * @param request - Request object
+ * @returns - Etapas con su nuevo índice y la versión publicada del plan
+ * */
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { plan_id, stage_ids, expected_version } = body;
+
+    if (!plan_id || typeof plan_id !== "string") {
+      return NextResponse.json(
+        { success: false, message: "ID del plan requerido" },
+        { status: 400 }
+      );
+    }
+
+    if (
+      !Array.isArray(stage_ids) ||
+      stage_ids.length === 0 ||
+      stage_ids.some((id) => typeof id !== "string")
+    ) {
+      return NextResponse.json(
+        { success: false, message: "Lista de etapas inválida" },
+        { status: 400 }
+      );
+    }
+
+    if (
+      expected_version !== undefined &&
+      expected_version !== null &&
+      !Number.isInteger(expected_version)
+    ) {
+      return NextResponse.json(
+        { success: false, message: "Versión del plan inválida" },
+        { status: 400 }
+      );
+    }
+
+    const result = await maintenanceStageService.reorder(
+      plan_id,
+      stage_ids,
+      session.user.id,
+      expected_version ?? undefined
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: "Etapas reordenadas exitosamente",
+    });
+  } catch (error) {
+    console.error("Error en POST /api/maintenance-stage/reorder:", error);
+
+    if (
+      error instanceof MaintenanceStageError &&
+      error.code === MaintenanceStageErrorCodes.CONCURRENT_MODIFICATION
+    ) {
+      return NextResponse.json(
+        { success: false, message: error.message, details: error.details },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Error interno del servidor",
+      },
+      { status: 400 }
+    );
+  }
+}
@@ -2,12 +2,47 @@ import { NextResponse } from "next/server";
 import { getServerSession } from "next-auth/next";
 import { options as authOptions } from "@/lib/auth";
 import { maintenanceStageService } from "@/backend/services/maintenance-stage-service";
+import { MaintenanceStageError } from "@/backend/repositories/maintenance-stage-repository";
+import { MaintenanceStageErrorCodes } from "@/lib/errors";
 import {
-  MaintenanceStageBase,
   MaintenanceStageCreate,
   MaintenanceStageUpdate,
   MultiMaintenanceStage,
 } from "@/types/maintenance-stage";
+
+/**
+ * Versión del plan enviada por el cliente: undefined si no se envió, null si
+ * no es un entero
+ */
+function parseExpectedVersion(value: unknown): number | undefined | null {
+  if (value === undefined || value === null) return undefined;
+  return Number.isInteger(value) ? (value as number) : null;
+}
+
+/**
+ * Respuesta de error de las etapas; un plan modificado por otro usuario
+ * responde 409
+ */
+function errorResponse(error: unknown) {
+  if (
+    error instanceof MaintenanceStageError &&
+    error.code === MaintenanceStageErrorCodes.CONCURRENT_MODIFICATION
+  ) {
+    return NextResponse.json(
+      { success: false, message: error.message, details: error.details },
+      { status: 409 }
+    );
+  }
+
+  return NextResponse.json(
+    {
+      success: false,
+      message:
+        error instanceof Error ? error.message : "Error interno del servidor",
+    },
+    { status: 400 }
+  );
+}
 /**
  * GET /api/maintenance-stage
  * Obtener etapas de mantenimiento paginadas
@@ -69,17 +104,16 @@ export async function POST(request: Request) {
       );
     }
 
-    const data: MaintenanceStageCreate & { stages: MaintenanceStageBase[] } =
-      await request.json();
+    const { expected_version, ...data }: MaintenanceStageCreate & {
+      expected_version?: number;
+    } = await request.json();
 
     if (
       !data.maintenance_type_id ||
       data.stage_index === undefined ||
       data.kilometers === undefined ||
       data.days === undefined ||
-      !data.maintenance_plan_id ||
-      !data.stages ||
-      !Array.isArray(data.stages)
+      !data.maintenance_plan_id
     ) {
       return NextResponse.json(
         { success: false, message: "Datos incompletos" },
@@ -87,68 +121,27 @@ export async function POST(request: Request) {
       );
     }
 
-    data.user_id = session.user.id;
-    const result = await maintenanceStageService.create(data);
-
-    if (!result) {
+    const expectedVersion = parseExpectedVersion(expected_version);
+    if (expectedVersion === null) {
       return NextResponse.json(
-        { success: false, message: "Error al crear la etapa" },
-        { status: 500 }
+        { success: false, message: "Versión del plan inválida" },
+        { status: 400 }
       );
     }
 
-    const stgs = data.stages.map((stage) => ({
-      ...stage,
-    }));
-
-    stgs.push({
-      id: result.id,
-      maintenance_type_id: data.maintenance_type_id,
-      maintenance_plan_id: data.maintenance_plan_id,
-      stage_index: data.stage_index,
-      kilometers: data.kilometers,
-      days: data.days,
-      created_at: new Date(),
-      user_id: session.user.id,
-    });
-
-    const sortedStages = stgs.sort((a, b) =>
-      a.kilometers - b.kilometers === 0
-        ? a.days - b.days
-        : a.kilometers - b.kilometers
+    data.user_id = session.user.id;
+    const result = await maintenanceStageService.createInPlan(
+      data,
+      expectedVersion
     );
 
-    let reorderNeeded = false;
-    for (let i = 0; i < sortedStages.length - 1; i++) {
-      if (data.stages[i].stage_index !== sortedStages[i].stage_index) {
-        reorderNeeded = true;
-        break;
-      }
-    }
-
-    if (reorderNeeded) {
-      const sortedIds = sortedStages.map((stage) => stage.id);
-      await maintenanceStageService.reorderStages(session.user.id, sortedIds);
-    }
-
     return NextResponse.json({
       success: true,
-      data: {
-        ...result,
-        stage_index: sortedStages.find((s) => s.id === result.id)?.stage_index,
-        sorted_stages: sortedStages,
-      },
+      data: result,
     });
   } catch (error) {
     console.error("Error en POST /api/maintenance-stage:", error);
-    return NextResponse.json(
-      {
-        success: false,
-        message:
-          error instanceof Error ? error.message : "Error interno del servidor",
-      },
-      { status: 400 }
-    );
+    return errorResponse(error);
   }
 }
 /**
@@ -168,16 +161,15 @@ export async function PUT(request: Request) {
       );
     }
 
-    const data: MaintenanceStageUpdate & { stages: MaintenanceStageBase[] } =
-      await request.json();
+    const { expected_version, ...data }: MaintenanceStageUpdate & {
+      expected_version?: number;
+    } = await request.json();
     console.log("Datos recibidos en PUT:", data);
     if (
       !data.maintenance_type_id ||
       data.stage_index === undefined ||
       data.kilometers === undefined ||
-      data.days === undefined ||
-      !data.stages ||
-      !Array.isArray(data.stages)
+      data.days === undefined
     ) {
       return NextResponse.json(
         { success: false, message: "Datos incompletos" },
@@ -185,49 +177,27 @@ export async function PUT(request: Request) {
       );
     }
 
-    const result = await maintenanceStageService.update(data, session.user.id);
-
-    const stgs = data.stages.map((stage) => ({
-      ...stage,
-    }));
-
-    const sortedStages = stgs.sort((a, b) =>
-      a.kilometers - b.kilometers === 0
-        ? a.days - b.days
-        : a.kilometers - b.kilometers
-    );
-
-    let reorderNeeded = false;
-    for (let i = 0; i < sortedStages.length - 1; i++) {
-      if (data.stages[i].stage_index !== sortedStages[i].stage_index) {
-        reorderNeeded = true;
-        break;
-      }
+    const expectedVersion = parseExpectedVersion(expected_version);
+    if (expectedVersion === null) {
+      return NextResponse.json(
+        { success: false, message: "Versión del plan inválida" },
+        { status: 400 }
+      );
     }
 
-    if (reorderNeeded) {
-      const sortedIds = sortedStages.map((stage) => stage.id);
-      await maintenanceStageService.reorderStages(session.user.id, sortedIds);
-    }
+    const result = await maintenanceStageService.updateInPlan(
+      data,
+      session.user.id,
+      expectedVersion
+    );
 
     return NextResponse.json({
       success: true,
-      data: {
-        ...result,
-        stage_index: sortedStages.find((s) => s.id === data.id)?.stage_index,
-        sorted_stages: sortedStages,
-      },
+      data: result,
     });
   } catch (error) {
     console.error("Error en PUT /api/maintenance-stage:", error);
-    return NextResponse.json(
-      {
-        success: false,
-        message:
-          error instanceof Error ? error.message : "Error interno del servidor",
-      },
-      { status: 400 }
-    );
+    return errorResponse(error);
   }
 }
 
@@ -257,7 +227,7 @@ export async function DELETE(request: Request) {
       );
     }
 
-    const result = await maintenanceStageService.delete(
+    const result = await maintenanceStageService.deleteFromPlan(
       data.id,
       session.user.id
     );
@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { options as authOptions } from "@/lib/auth";
+import { odometerEventService } from "@/backend/services/odometer-event-service";
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/mileage-record/consistency?equipment_id=...
+ * Obtener el reporte de consistencia del odómetro de un equipo:
+ * kilómetros de vida útil y lecturas que retroceden respecto a la anterior
+ */
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const equipmentId = searchParams.get("equipment_id");
+
+    if (!equipmentId) {
+      return NextResponse.json(
+        { success: false, message: "ID de equipo requerido" },
+        { status: 400 }
+      );
+    }
+
+    const result = await odometerEventService.getConsistencyReport(
+      equipmentId,
+      session.user.id
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    console.error("Error en GET /api/mileage-record/consistency:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Error interno del servidor",
+      },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,88 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { options as authOptions } from "@/lib/auth";
+import { mileageImportService } from "@/backend/services/mileage-import-service";
+import { TransactionError } from "@/backend/repositories/unit-of-work";
+
+const MAX_FILE_SIZE = 5 * 1024 * 1024;
+const ALLOWED_EXTENSIONS = [".csv", ".xlsx", ".xls"];
+
+/**
+ * POST /api/mileage-record/import
+ * Importar registros de kilometraje desde un archivo CSV o XLSX (multipart)
+ * Campos: `file` y `dry_run` ("true" por defecto: solo devuelve la vista previa)
+ */
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const formData = await request.formData();
+    const file = formData.get("file");
+    const dryRun = formData.get("dry_run") !== "false";
+
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { success: false, message: "Archivo es requerido" },
+        { status: 400 }
+      );
+    }
+
+    if (
+      !ALLOWED_EXTENSIONS.some((extension) =>
+        file.name.toLowerCase().endsWith(extension)
+      )
+    ) {
+      return NextResponse.json(
+        { success: false, message: "El archivo debe ser CSV o XLSX" },
+        { status: 400 }
+      );
+    }
+
+    if (file.size > MAX_FILE_SIZE) {
+      return NextResponse.json(
+        { success: false, message: "El archivo no debe superar 5 MB" },
+        { status: 400 }
+      );
+    }
+
+    const buffer = Buffer.from(await file.arrayBuffer());
+
+    const result = dryRun
+      ? await mileageImportService.preview(buffer, file.name, session.user.id)
+      : await mileageImportService.commit(buffer, file.name, session.user.id);
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    console.error("Error en POST /api/mileage-record/import:", error);
+
+    if (error instanceof TransactionError) {
+      return NextResponse.json(
+        {
+          success: false,
+          code: error.code,
+          message: `Error al importar los registros: ${error.message}. No se guardó ningún cambio.`,
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Error interno del servidor",
+      },
+      { status: 400 }
+    );
+  }
+}
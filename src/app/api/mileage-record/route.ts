@@ -78,13 +78,33 @@ export async function POST(request: Request) {
       );
     }
 
-    if (typeof data.kilometers !== "number" || data.kilometers < 0) {
+    if (data.kilometers === undefined && data.hours === undefined) {
+      return NextResponse.json(
+        { success: false, message: "Kilómetros u horas son requeridos" },
+        { status: 400 }
+      );
+    }
+
+    if (
+      data.kilometers !== undefined &&
+      (typeof data.kilometers !== "number" || data.kilometers < 0)
+    ) {
       return NextResponse.json(
         { success: false, message: "Kilómetros debe ser un número positivo" },
         { status: 400 }
       );
     }
 
+    if (
+      data.hours !== undefined &&
+      (typeof data.hours !== "number" || data.hours < 0)
+    ) {
+      return NextResponse.json(
+        { success: false, message: "Horas debe ser un número positivo" },
+        { status: 400 }
+      );
+    }
+
     data.user_id = session.user.id;
     data.record_date = data.record_date;
     const result = await mileageRecordService.create(data);
@@ -144,13 +164,33 @@ export async function PUT(request: Request) {
       );
     }
 
-    if (typeof data.kilometers !== "number" || data.kilometers < 0) {
+    if (data.kilometers === undefined && data.hours === undefined) {
+      return NextResponse.json(
+        { success: false, message: "Kilómetros u horas son requeridos" },
+        { status: 400 }
+      );
+    }
+
+    if (
+      data.kilometers !== undefined &&
+      (typeof data.kilometers !== "number" || data.kilometers < 0)
+    ) {
       return NextResponse.json(
         { success: false, message: "Kilómetros debe ser un número positivo" },
         { status: 400 }
       );
     }
 
+    if (
+      data.hours !== undefined &&
+      (typeof data.hours !== "number" || data.hours < 0)
+    ) {
+      return NextResponse.json(
+        { success: false, message: "Horas debe ser un número positivo" },
+        { status: 400 }
+      );
+    }
+
     data.user_id = session.user.id;
 
     const result = await mileageRecordService.update(data);
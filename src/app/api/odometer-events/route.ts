@@ -0,0 +1,162 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { options as authOptions } from "@/lib/auth";
+import { odometerEventService } from "@/backend/services/odometer-event-service";
+import { OdometerEventCreate } from "@/types/odometer-event";
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/odometer-events?equipment_id=...
+ * Obtener los eventos del odómetro (reemplazos y reinicios) de un equipo
+ */
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const equipmentId = searchParams.get("equipment_id");
+
+    if (!equipmentId) {
+      return NextResponse.json(
+        { success: false, message: "ID de equipo requerido" },
+        { status: 400 }
+      );
+    }
+
+    const result = await odometerEventService.getByEquipment(
+      equipmentId,
+      session.user.id
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    console.error("Error en GET /api/odometer-events:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Error interno del servidor",
+      },
+      { status: 400 }
+    );
+  }
+}
+
+/**
+ * POST /api/odometer-events
+ * Registrar un reemplazo o reinicio del odómetro de un equipo
+ */
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const data: OdometerEventCreate = await request.json();
+
+    if (!data.equipment_id) {
+      return NextResponse.json(
+        { success: false, message: "ID de equipo es requerido" },
+        { status: 400 }
+      );
+    }
+
+    if (!data.event_date) {
+      return NextResponse.json(
+        { success: false, message: "Fecha del evento es requerida" },
+        { status: 400 }
+      );
+    }
+
+    if (
+      typeof data.final_reading !== "number" ||
+      typeof data.initial_reading !== "number"
+    ) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Las lecturas final e inicial deben ser números",
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await odometerEventService.create({
+      ...data,
+      user_id: session.user.id,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    console.error("Error en POST /api/odometer-events:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Error interno del servidor",
+      },
+      { status: 400 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/odometer-events
+ * Eliminar un evento del odómetro
+ */
+export async function DELETE(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const data = await request.json();
+
+    if (!data || !data.id) {
+      return NextResponse.json(
+        { success: false, message: "ID de evento no proporcionado" },
+        { status: 400 }
+      );
+    }
+
+    const result = await odometerEventService.delete(data.id, session.user.id);
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    console.error("Error en DELETE /api/odometer-events:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Error interno del servidor",
+      },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,84 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { options as authOptions } from "@/lib/auth";
+import { purchaseOrderService } from "@/backend/services/purchase-order-service";
+import { PurchaseOrderError } from "@/backend/repositories/purchase-order-repository";
+import { PurchaseOrderErrorCodes } from "@/lib/errors";
+import { PurchaseOrderReceipt } from "@/types/purchase-order";
+
+/**
+ * POST /api/purchase-orders/receive
+ * Registrar la recepción total o parcial de una orden de compra; ingresa los
+ * repuestos al stock
+ */
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { id, warehouse_id, notes, lines } = body;
+
+    if (!id || typeof id !== "string") {
+      return NextResponse.json(
+        { success: false, message: "ID de la orden de compra requerido" },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(lines)) {
+      return NextResponse.json(
+        { success: false, message: "Las líneas recibidas son requeridas" },
+        { status: 400 }
+      );
+    }
+
+    const result = await purchaseOrderService.receive({
+      purchase_order_id: id,
+      warehouse_id: warehouse_id || undefined,
+      notes: notes || undefined,
+      lines: (lines as PurchaseOrderReceipt["lines"]).map((line) => ({
+        line_id: line.line_id,
+        quantity: Number(line.quantity),
+      })),
+      user_id: session.user.id,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message:
+        result.status === "received"
+          ? "Orden de compra recibida completamente"
+          : "Recepción parcial registrada",
+    });
+  } catch (error) {
+    console.error("Error en POST /api/purchase-orders/receive:", error);
+
+    if (
+      error instanceof PurchaseOrderError &&
+      (error.code === PurchaseOrderErrorCodes.OVER_RECEIPT ||
+        error.code === PurchaseOrderErrorCodes.INVALID_STATUS_TRANSITION)
+    ) {
+      return NextResponse.json(
+        { success: false, message: error.message, details: error.details },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Error interno del servidor",
+      },
+      { status: 400 }
+    );
+  }
+}
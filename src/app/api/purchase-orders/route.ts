@@ -0,0 +1,196 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { options as authOptions } from "@/lib/auth";
+import { purchaseOrderService } from "@/backend/services/purchase-order-service";
+import { PurchaseOrderError } from "@/backend/repositories/purchase-order-repository";
+import { PurchaseOrderErrorCodes } from "@/lib/errors";
+import {
+  PurchaseOrderLineInput,
+  PurchaseOrderStatus,
+} from "@/types/purchase-order";
+export const dynamic = "force-dynamic";
+
+/**
+ * Normalizar las líneas recibidas en el cuerpo de la petición
+ */
+const parseLines = (lines: PurchaseOrderLineInput[]) =>
+  lines.map((line) => ({
+    spare_part_id: line.spare_part_id,
+    quantity: Number(line.quantity),
+    unit_price:
+      line.unit_price === undefined || line.unit_price === null
+        ? undefined
+        : Number(line.unit_price),
+  }));
+
+/**
+ * GET /api/purchase-orders?id=...&supplier_id=...&status=...
+ * Obtener una orden de compra o las órdenes del usuario
+ */
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get("id");
+    const limit = parseInt(searchParams.get("limit") || "100");
+    const offset = parseInt(searchParams.get("offset") || "0");
+
+    const result = id
+      ? await purchaseOrderService.getById(id, session.user.id)
+      : await purchaseOrderService.getAll(
+          session.user.id,
+          {
+            supplier_id: searchParams.get("supplier_id") || undefined,
+            status:
+              (searchParams.get("status") as PurchaseOrderStatus) || undefined,
+          },
+          limit,
+          offset
+        );
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    console.error("Error en GET /api/purchase-orders:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Error interno del servidor",
+      },
+      { status: 400 }
+    );
+  }
+}
+
+/**
+ * POST /api/purchase-orders
+ * Crear una orden de compra en borrador
+ */
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { supplier_id, warehouse_id, expected_date, notes, lines } = body;
+
+    if (!supplier_id || typeof supplier_id !== "string") {
+      return NextResponse.json(
+        { success: false, message: "El proveedor es requerido" },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(lines)) {
+      return NextResponse.json(
+        { success: false, message: "Los repuestos de la orden son requeridos" },
+        { status: 400 }
+      );
+    }
+
+    const result = await purchaseOrderService.create({
+      supplier_id,
+      warehouse_id: warehouse_id || undefined,
+      expected_date: expected_date ? new Date(expected_date) : undefined,
+      notes: notes || undefined,
+      lines: parseLines(lines),
+      user_id: session.user.id,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: `Orden de compra N° ${result.number} creada exitosamente`,
+    });
+  } catch (error) {
+    console.error("Error en POST /api/purchase-orders:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Error interno del servidor",
+      },
+      { status: 400 }
+    );
+  }
+}
+
+/**
+ * PUT /api/purchase-orders
+ * Actualizar una orden de compra en borrador
+ */
+export async function PUT(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { id, warehouse_id, expected_date, notes, lines } = body;
+
+    if (!id || typeof id !== "string") {
+      return NextResponse.json(
+        { success: false, message: "ID de la orden de compra requerido" },
+        { status: 400 }
+      );
+    }
+
+    const result = await purchaseOrderService.update({
+      id,
+      warehouse_id: warehouse_id || undefined,
+      expected_date: expected_date ? new Date(expected_date) : undefined,
+      notes,
+      lines: Array.isArray(lines) ? parseLines(lines) : undefined,
+      user_id: session.user.id,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: "Orden de compra actualizada exitosamente",
+    });
+  } catch (error) {
+    console.error("Error en PUT /api/purchase-orders:", error);
+
+    if (
+      error instanceof PurchaseOrderError &&
+      error.code === PurchaseOrderErrorCodes.NOT_EDITABLE
+    ) {
+      return NextResponse.json(
+        { success: false, message: error.message, details: error.details },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Error interno del servidor",
+      },
+      { status: 400 }
+    );
+  }
+}
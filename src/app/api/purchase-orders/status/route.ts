@@ -0,0 +1,79 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { options as authOptions } from "@/lib/auth";
+import { purchaseOrderService } from "@/backend/services/purchase-order-service";
+import { PurchaseOrderError } from "@/backend/repositories/purchase-order-repository";
+import { PurchaseOrderErrorCodes } from "@/lib/errors";
+
+/**
+ * PUT /api/purchase-orders/status
+ * Enviar o anular una orden de compra
+ */
+export async function PUT(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { id, status } = body;
+
+    if (!id || typeof id !== "string") {
+      return NextResponse.json(
+        { success: false, message: "ID de la orden de compra requerido" },
+        { status: 400 }
+      );
+    }
+
+    if (status !== "sent" && status !== "cancelled") {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Solo se puede enviar o anular una orden de compra",
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await purchaseOrderService.changeStatus(
+      id,
+      status,
+      session.user.id
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message:
+        status === "sent"
+          ? "Orden de compra enviada"
+          : "Orden de compra anulada",
+    });
+  } catch (error) {
+    console.error("Error en PUT /api/purchase-orders/status:", error);
+
+    if (
+      error instanceof PurchaseOrderError &&
+      error.code === PurchaseOrderErrorCodes.INVALID_STATUS_TRANSITION
+    ) {
+      return NextResponse.json(
+        { success: false, message: error.message, details: error.details },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Error interno del servidor",
+      },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { options as authOptions } from "@/lib/auth";
+import {
+  DEFAULT_HORIZON_DAYS,
+  sparePartKitService,
+} from "@/backend/services/spare-part-kit-service";
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/spare-part-kits/demand?horizon_days=...
+ * Pronosticar los repuestos que requieren los próximos mantenimientos de la
+ * flota según los kits definidos
+ */
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const horizonDays = Number(
+      searchParams.get("horizon_days") || DEFAULT_HORIZON_DAYS
+    );
+
+    const result = await sparePartKitService.forecastDemand(
+      session.user.id,
+      horizonDays
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    console.error("Error en GET /api/spare-part-kits/demand:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Error interno del servidor",
+      },
+      { status: 400 }
+    );
+  }
+}
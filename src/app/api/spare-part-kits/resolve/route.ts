@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { options as authOptions } from "@/lib/auth";
+import { sparePartKitService } from "@/backend/services/spare-part-kit-service";
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/spare-part-kits/resolve?maintenance_type_id=...&equipment_id=...
+ * Obtener el kit que se aplica a un nuevo registro de mantenimiento: el de la
+ * etapa del plan del equipo o, si no tiene, el del tipo de mantenimiento
+ */
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const maintenanceTypeId = searchParams.get("maintenance_type_id");
+    const equipmentId = searchParams.get("equipment_id") || undefined;
+
+    if (!maintenanceTypeId) {
+      return NextResponse.json(
+        { success: false, message: "ID del tipo de mantenimiento requerido" },
+        { status: 400 }
+      );
+    }
+
+    const result = await sparePartKitService.resolve(
+      equipmentId,
+      maintenanceTypeId,
+      session.user.id
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    console.error("Error en GET /api/spare-part-kits/resolve:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Error interno del servidor",
+      },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,238 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { options as authOptions } from "@/lib/auth";
+import { sparePartKitService } from "@/backend/services/spare-part-kit-service";
+import { SparePartKitCreate, SparePartKitUpdate } from "@/types/spare-part-kit";
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/spare-part-kits?maintenance_type_id=...&maintenance_stage_id=...
+ * Obtener los kits de repuestos del usuario
+ */
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limit = parseInt(searchParams.get("limit") || "100");
+    const offset = parseInt(searchParams.get("offset") || "0");
+
+    const result = await sparePartKitService.getAll(
+      session.user.id,
+      {
+        maintenance_type_id:
+          searchParams.get("maintenance_type_id") || undefined,
+        maintenance_stage_id:
+          searchParams.get("maintenance_stage_id") || undefined,
+      },
+      limit,
+      offset
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    console.error("Error en GET /api/spare-part-kits:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Error interno del servidor",
+      },
+      { status: 400 }
+    );
+  }
+}
+
+/**
+ * POST /api/spare-part-kits
+ * Crear un kit de repuestos para un tipo de mantenimiento o una etapa
+ */
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const {
+      name,
+      description,
+      maintenance_type_id,
+      maintenance_stage_id,
+      items,
+    } = body;
+
+    if (!name || typeof name !== "string" || name.trim() === "") {
+      return NextResponse.json(
+        { success: false, message: "Nombre del kit es requerido" },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(items)) {
+      return NextResponse.json(
+        { success: false, message: "Los repuestos del kit son requeridos" },
+        { status: 400 }
+      );
+    }
+
+    const kit: SparePartKitCreate = {
+      name,
+      description: description || undefined,
+      maintenance_type_id: maintenance_type_id || undefined,
+      maintenance_stage_id: maintenance_stage_id || undefined,
+      items: (items as SparePartKitCreate["items"]).map((item) => ({
+        spare_part_id: item.spare_part_id,
+        quantity: Number(item.quantity),
+      })),
+      user_id: session.user.id,
+    };
+
+    const result = await sparePartKitService.create(kit);
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: "Kit de repuestos creado exitosamente",
+    });
+  } catch (error) {
+    console.error("Error en POST /api/spare-part-kits:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Error interno del servidor",
+      },
+      { status: 400 }
+    );
+  }
+}
+
+/**
+ * PUT /api/spare-part-kits
+ * Actualizar el nombre, la descripción o los repuestos de un kit
+ */
+export async function PUT(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { id, name, description, items } = body;
+
+    if (!id || typeof id !== "string") {
+      return NextResponse.json(
+        { success: false, message: "ID del kit requerido" },
+        { status: 400 }
+      );
+    }
+
+    if (items !== undefined && !Array.isArray(items)) {
+      return NextResponse.json(
+        { success: false, message: "Los repuestos del kit son inválidos" },
+        { status: 400 }
+      );
+    }
+
+    const kit: SparePartKitUpdate = {
+      id,
+      name,
+      description,
+      items: (items as SparePartKitUpdate["items"])?.map((item) => ({
+        spare_part_id: item.spare_part_id,
+        quantity: Number(item.quantity),
+      })),
+      user_id: session.user.id,
+    };
+
+    const result = await sparePartKitService.update(kit);
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: "Kit de repuestos actualizado exitosamente",
+    });
+  } catch (error) {
+    console.error("Error en PUT /api/spare-part-kits:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Error interno del servidor",
+      },
+      { status: 400 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/spare-part-kits
+ * Eliminar un kit de repuestos
+ */
+export async function DELETE(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { id } = body;
+
+    if (!id || typeof id !== "string" || id.trim() === "") {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "ID del kit no proporcionado o inválido",
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await sparePartKitService.delete(
+      id.trim(),
+      session.user.id
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: "Kit de repuestos eliminado exitosamente",
+    });
+  } catch (error) {
+    console.error("Error en DELETE /api/spare-part-kits:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Error interno del servidor",
+      },
+      { status: 400 }
+    );
+  }
+}
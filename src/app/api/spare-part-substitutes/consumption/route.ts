@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { options as authOptions } from "@/lib/auth";
+import { sparePartSubstituteService } from "@/backend/services/spare-part-substitute-service";
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/spare-part-substitutes/consumption?from=YYYY-MM-DD&to=YYYY-MM-DD
+ * Obtener el consumo de repuestos agregado por grupo de equivalencia
+ */
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const from = searchParams.get("from");
+    const to = searchParams.get("to");
+
+    const fromDate = from ? new Date(`${from}T00:00:00`) : undefined;
+    const toDate = to ? new Date(`${to}T23:59:59.999`) : undefined;
+    if (
+      (fromDate && isNaN(fromDate.getTime())) ||
+      (toDate && isNaN(toDate.getTime()))
+    ) {
+      return NextResponse.json(
+        { success: false, message: "Las fechas del periodo no son válidas" },
+        { status: 400 }
+      );
+    }
+
+    const result = await sparePartSubstituteService.getConsumptionReport(
+      session.user.id,
+      fromDate,
+      toDate
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    console.error(
+      "Error en GET /api/spare-part-substitutes/consumption:",
+      error
+    );
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Error interno del servidor",
+      },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,168 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { options as authOptions } from "@/lib/auth";
+import { sparePartSubstituteService } from "@/backend/services/spare-part-substitute-service";
+import { SparePartSubstituteError } from "@/backend/repositories/spare-part-substitute-repository";
+import { SparePartSubstituteErrorCodes } from "@/lib/errors";
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/spare-part-substitutes?spare_part_id=...
+ * Obtener el stock de un repuesto y los equivalentes que se proponen si no
+ * tiene stock o está descontinuado
+ */
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const sparePartId = searchParams.get("spare_part_id");
+
+    if (!sparePartId?.trim()) {
+      return NextResponse.json(
+        { success: false, message: "El ID del repuesto es requerido" },
+        { status: 400 }
+      );
+    }
+
+    const result = await sparePartSubstituteService.getProposal(
+      sparePartId.trim(),
+      session.user.id
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    console.error("Error en GET /api/spare-part-substitutes:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Error interno del servidor",
+      },
+      { status: 400 }
+    );
+  }
+}
+
+/**
+ * POST /api/spare-part-substitutes
+ * Registrar que dos repuestos son equivalentes
+ */
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { spare_part_id, substitute_id, notes } = body;
+
+    if (!spare_part_id || !substitute_id) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "El repuesto y su equivalente son requeridos",
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await sparePartSubstituteService.link({
+      spare_part_id,
+      substitute_id,
+      notes: notes || undefined,
+      user_id: session.user.id,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: "Equivalencia registrada exitosamente",
+    });
+  } catch (error) {
+    console.error("Error en POST /api/spare-part-substitutes:", error);
+    if (
+      error instanceof SparePartSubstituteError &&
+      error.code === SparePartSubstituteErrorCodes.ALREADY_EQUIVALENT
+    ) {
+      return NextResponse.json(
+        { success: false, message: error.message, details: error.details },
+        { status: 409 }
+      );
+    }
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Error interno del servidor",
+      },
+      { status: 400 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/spare-part-substitutes
+ * Eliminar una equivalencia
+ */
+export async function DELETE(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { id } = body;
+
+    if (!id || typeof id !== "string" || id.trim() === "") {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "ID de la equivalencia no proporcionado o inválido",
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await sparePartSubstituteService.unlink(
+      id.trim(),
+      session.user.id
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: "Equivalencia eliminada exitosamente",
+    });
+  } catch (error) {
+    console.error("Error en DELETE /api/spare-part-substitutes:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Error interno del servidor",
+      },
+      { status: 400 }
+    );
+  }
+}
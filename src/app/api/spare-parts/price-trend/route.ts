@@ -0,0 +1,52 @@
+import { sparePartService } from "@/backend/services/spare-part-service";
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { options as authOptions } from "@/lib/auth";
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/spare-parts/price-trend?spare_part_id=...
+ * Obtener el historial de precios y los costos registrados de un repuesto
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const sparePartId = searchParams.get("spare_part_id");
+
+    if (!sparePartId?.trim()) {
+      return NextResponse.json(
+        { success: false, message: "El ID del repuesto es requerido" },
+        { status: 400 }
+      );
+    }
+
+    const result = await sparePartService.getPriceTrend(
+      sparePartId.trim(),
+      session.user.id
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    console.error("Error en GET /api/spare-parts/price-trend:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Error interno del servidor",
+      },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,127 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { options as authOptions } from "@/lib/auth";
+import { stockTransferService } from "@/backend/services/stock-transfer-service";
+import { InventoryError } from "@/backend/repositories/inventory-repository";
+import { InventoryErrorCodes } from "@/lib/errors";
+import { StockTransferCreate } from "@/types/stock-transfer";
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/stock-transfers?warehouse_id=...
+ * Obtener las transferencias de stock del usuario
+ */
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limit = parseInt(searchParams.get("limit") || "100");
+    const offset = parseInt(searchParams.get("offset") || "0");
+
+    const result = await stockTransferService.getAll(
+      session.user.id,
+      searchParams.get("warehouse_id") || undefined,
+      limit,
+      offset
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    console.error("Error en GET /api/stock-transfers:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Error interno del servidor",
+      },
+      { status: 400 }
+    );
+  }
+}
+
+/**
+ * POST /api/stock-transfers
+ * Transferir repuestos de una ubicación a otra
+ */
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { source_warehouse_id, destination_warehouse_id, notes, items } =
+      body;
+
+    if (!source_warehouse_id || !destination_warehouse_id) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Las ubicaciones de origen y destino son requeridas",
+        },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(items)) {
+      return NextResponse.json(
+        { success: false, message: "Los repuestos a transferir son requeridos" },
+        { status: 400 }
+      );
+    }
+
+    const result = await stockTransferService.create({
+      source_warehouse_id,
+      destination_warehouse_id,
+      notes: notes || undefined,
+      items: (items as StockTransferCreate["items"]).map((item) => ({
+        spare_part_id: item.spare_part_id,
+        quantity: Number(item.quantity),
+      })),
+      user_id: session.user.id,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: "Transferencia registrada exitosamente",
+    });
+  } catch (error) {
+    console.error("Error en POST /api/stock-transfers:", error);
+
+    if (
+      error instanceof InventoryError &&
+      error.code === InventoryErrorCodes.INSUFFICIENT_STOCK
+    ) {
+      return NextResponse.json(
+        { success: false, message: error.message, details: error.details },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Error interno del servidor",
+      },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,161 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { options as authOptions } from "@/lib/auth";
+import { supplierService } from "@/backend/services/supplier-service";
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/suppliers/prices?supplier_id=...&spare_part_id=...
+ * Obtener los códigos y precios de un proveedor o de un repuesto
+ */
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const supplierId = searchParams.get("supplier_id");
+    const sparePartId = searchParams.get("spare_part_id");
+
+    if (!supplierId && !sparePartId) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Se requiere el ID del proveedor o del repuesto",
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await supplierService.getPrices(session.user.id, {
+      supplier_id: supplierId || undefined,
+      spare_part_id: sparePartId || undefined,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    console.error("Error en GET /api/suppliers/prices:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Error interno del servidor",
+      },
+      { status: 400 }
+    );
+  }
+}
+
+/**
+ * PUT /api/suppliers/prices
+ * Guardar el código y precio de un repuesto en un proveedor
+ */
+export async function PUT(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { supplier_id, spare_part_id, supplier_code, price } = body;
+
+    if (!supplier_id || !spare_part_id) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "El proveedor y el repuesto son requeridos",
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await supplierService.savePrice({
+      supplier_id,
+      spare_part_id,
+      supplier_code: supplier_code || undefined,
+      price: Number(price),
+      user_id: session.user.id,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: "Precio del proveedor guardado exitosamente",
+    });
+  } catch (error) {
+    console.error("Error en PUT /api/suppliers/prices:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Error interno del servidor",
+      },
+      { status: 400 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/suppliers/prices
+ * Eliminar el precio de un repuesto en un proveedor
+ */
+export async function DELETE(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { id } = body;
+
+    if (!id || typeof id !== "string" || id.trim() === "") {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "ID del precio no proporcionado o inválido",
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await supplierService.deletePrice(
+      id.trim(),
+      session.user.id
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: "Precio del proveedor eliminado exitosamente",
+    });
+  } catch (error) {
+    console.error("Error en DELETE /api/suppliers/prices:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Error interno del servidor",
+      },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,202 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { options as authOptions } from "@/lib/auth";
+import { supplierService } from "@/backend/services/supplier-service";
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/suppliers
+ * Obtener los proveedores del usuario
+ */
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limit = parseInt(searchParams.get("limit") || "100");
+    const offset = parseInt(searchParams.get("offset") || "0");
+
+    const result = await supplierService.getAll(
+      session.user.id,
+      limit,
+      offset
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    console.error("Error en GET /api/suppliers:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Error interno del servidor",
+      },
+      { status: 400 }
+    );
+  }
+}
+
+/**
+ * POST /api/suppliers
+ * Crear un proveedor
+ */
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { name, tax_id, contact_name, phone, email, address } = body;
+
+    if (!name || typeof name !== "string" || name.trim() === "") {
+      return NextResponse.json(
+        { success: false, message: "Nombre del proveedor es requerido" },
+        { status: 400 }
+      );
+    }
+
+    const result = await supplierService.create({
+      name,
+      tax_id: tax_id || undefined,
+      contact_name: contact_name || undefined,
+      phone: phone || undefined,
+      email: email || undefined,
+      address: address || undefined,
+      user_id: session.user.id,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: "Proveedor creado exitosamente",
+    });
+  } catch (error) {
+    console.error("Error en POST /api/suppliers:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Error interno del servidor",
+      },
+      { status: 400 }
+    );
+  }
+}
+
+/**
+ * PUT /api/suppliers
+ * Actualizar un proveedor
+ */
+export async function PUT(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { id, name, tax_id, contact_name, phone, email, address } = body;
+
+    if (!id || typeof id !== "string") {
+      return NextResponse.json(
+        { success: false, message: "ID del proveedor requerido" },
+        { status: 400 }
+      );
+    }
+
+    const result = await supplierService.update({
+      id,
+      name,
+      tax_id,
+      contact_name,
+      phone,
+      email,
+      address,
+      user_id: session.user.id,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: "Proveedor actualizado exitosamente",
+    });
+  } catch (error) {
+    console.error("Error en PUT /api/suppliers:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Error interno del servidor",
+      },
+      { status: 400 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/suppliers
+ * Eliminar un proveedor sin órdenes de compra
+ */
+export async function DELETE(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { id } = body;
+
+    if (!id || typeof id !== "string" || id.trim() === "") {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "ID del proveedor no proporcionado o inválido",
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await supplierService.delete(id.trim(), session.user.id);
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: "Proveedor eliminado exitosamente",
+    });
+  } catch (error) {
+    console.error("Error en DELETE /api/suppliers:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Error interno del servidor",
+      },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,207 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { options as authOptions } from "@/lib/auth";
+import { technicianService } from "@/backend/services/technician-service";
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/technicians
+ * Obtener los técnicos del usuario
+ */
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limit = parseInt(searchParams.get("limit") || "100");
+    const offset = parseInt(searchParams.get("offset") || "0");
+
+    const result = await technicianService.getAll(
+      session.user.id,
+      limit,
+      offset
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    console.error("Error en GET /api/technicians:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Error interno del servidor",
+      },
+      { status: 400 }
+    );
+  }
+}
+
+/**
+ * POST /api/technicians
+ * Crear un técnico
+ */
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { name, hourly_rate, specialty, phone, active } = body;
+
+    if (!name || typeof name !== "string" || name.trim() === "") {
+      return NextResponse.json(
+        { success: false, message: "Nombre del técnico es requerido" },
+        { status: 400 }
+      );
+    }
+
+    if (typeof hourly_rate !== "number") {
+      return NextResponse.json(
+        { success: false, message: "Tarifa por hora es requerida" },
+        { status: 400 }
+      );
+    }
+
+    const result = await technicianService.create({
+      name,
+      hourly_rate,
+      specialty: specialty || undefined,
+      phone: phone || undefined,
+      active: typeof active === "boolean" ? active : undefined,
+      user_id: session.user.id,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: "Técnico creado exitosamente",
+    });
+  } catch (error) {
+    console.error("Error en POST /api/technicians:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Error interno del servidor",
+      },
+      { status: 400 }
+    );
+  }
+}
+
+/**
+ * PUT /api/technicians
+ * Actualizar un técnico
+ */
+export async function PUT(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { id, name, hourly_rate, specialty, phone, active } = body;
+
+    if (!id || typeof id !== "string") {
+      return NextResponse.json(
+        { success: false, message: "ID del técnico requerido" },
+        { status: 400 }
+      );
+    }
+
+    const result = await technicianService.update({
+      id,
+      name,
+      hourly_rate: typeof hourly_rate === "number" ? hourly_rate : undefined,
+      specialty,
+      phone,
+      active: typeof active === "boolean" ? active : undefined,
+      user_id: session.user.id,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: "Técnico actualizado exitosamente",
+    });
+  } catch (error) {
+    console.error("Error en PUT /api/technicians:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Error interno del servidor",
+      },
+      { status: 400 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/technicians
+ * Eliminar un técnico sin tiempos registrados
+ */
+export async function DELETE(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { id } = body;
+
+    if (!id || typeof id !== "string" || id.trim() === "") {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "ID del técnico no proporcionado o inválido",
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await technicianService.delete(id.trim(), session.user.id);
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: "Técnico eliminado exitosamente",
+    });
+  } catch (error) {
+    console.error("Error en DELETE /api/technicians:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Error interno del servidor",
+      },
+      { status: 400 }
+    );
+  }
+}
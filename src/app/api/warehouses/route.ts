@@ -0,0 +1,196 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { options as authOptions } from "@/lib/auth";
+import { warehouseService } from "@/backend/services/warehouse-service";
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/warehouses
+ * Obtener las ubicaciones de almacenamiento del usuario
+ */
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limit = parseInt(searchParams.get("limit") || "100");
+    const offset = parseInt(searchParams.get("offset") || "0");
+
+    const result = await warehouseService.getAll(
+      session.user.id,
+      limit,
+      offset
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    console.error("Error en GET /api/warehouses:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Error interno del servidor",
+      },
+      { status: 400 }
+    );
+  }
+}
+
+/**
+ * POST /api/warehouses
+ * Crear una ubicación de almacenamiento
+ */
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { name, address, is_default } = body;
+
+    if (!name || typeof name !== "string" || name.trim() === "") {
+      return NextResponse.json(
+        { success: false, message: "Nombre de la ubicación es requerido" },
+        { status: 400 }
+      );
+    }
+
+    const result = await warehouseService.create({
+      name,
+      address: address || undefined,
+      is_default: !!is_default,
+      user_id: session.user.id,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: "Ubicación creada exitosamente",
+    });
+  } catch (error) {
+    console.error("Error en POST /api/warehouses:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Error interno del servidor",
+      },
+      { status: 400 }
+    );
+  }
+}
+
+/**
+ * PUT /api/warehouses
+ * Actualizar una ubicación de almacenamiento
+ */
+export async function PUT(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { id, name, address, is_default } = body;
+
+    if (!id || typeof id !== "string") {
+      return NextResponse.json(
+        { success: false, message: "ID de la ubicación requerido" },
+        { status: 400 }
+      );
+    }
+
+    const result = await warehouseService.update({
+      id,
+      name,
+      address,
+      is_default: typeof is_default === "boolean" ? is_default : undefined,
+      user_id: session.user.id,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: "Ubicación actualizada exitosamente",
+    });
+  } catch (error) {
+    console.error("Error en PUT /api/warehouses:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Error interno del servidor",
+      },
+      { status: 400 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/warehouses
+ * Eliminar una ubicación de almacenamiento sin stock
+ */
+export async function DELETE(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { id } = body;
+
+    if (!id || typeof id !== "string" || id.trim() === "") {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "ID de la ubicación no proporcionado o inválido",
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await warehouseService.delete(id.trim(), session.user.id);
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: "Ubicación eliminada exitosamente",
+    });
+  } catch (error) {
+    console.error("Error en DELETE /api/warehouses:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Error interno del servidor",
+      },
+      { status: 400 }
+    );
+  }
+}
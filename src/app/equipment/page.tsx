@@ -5,7 +5,11 @@ import { Button } from "@/components/ui/button";
 import { DataCard } from "@/components/DataCard";
 import { Plus } from "lucide-react";
 import type { EquipmentFormData } from "@/lib/schemas";
-import type { MultiEquipment, EquipmentBase } from "@/types/equipment";
+import type {
+  MultiEquipment,
+  EquipmentBase,
+  MeterType,
+} from "@/types/equipment";
 import { equipmentSchema } from "@/lib/schemas";
 import { Modal } from "@/components/Modal";
 import { Controller, useForm } from "react-hook-form";
@@ -27,6 +31,12 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
+
+const METER_TYPE_LABELS: Record<MeterType, string> = {
+  km: "Odómetro (km)",
+  hours: "Horómetro (horas)",
+};
 
 export default function EquipmentPage() {
   const { data: session } = useSession();
@@ -56,6 +66,7 @@ export default function EquipmentPage() {
       type: "",
       license_plate: "",
       code: "",
+      meter_types: ["km"],
     },
   });
 
@@ -283,6 +294,7 @@ export default function EquipmentPage() {
       license_plate: "",
       code: "",
       maintenance_plan_id: "",
+      meter_types: ["km"],
     });
     setIsModalOpen(true);
   };
@@ -327,6 +339,7 @@ export default function EquipmentPage() {
     setValue("license_plate", item.license_plate);
     setValue("code", item.code);
     setValue("maintenance_plan_id", item.maintenance_plan_id);
+    setValue("meter_types", item.meter_types || ["km"]);
     setIsModalOpen(true);
   };
 
@@ -369,6 +382,12 @@ export default function EquipmentPage() {
                 label: "Plan de Mantenimiento",
                 value: item.maintenance_plan?.name || "Plan indefinido",
               },
+              {
+                label: "Medidores",
+                value: (item.meter_types || ["km"])
+                  .map((meterType) => METER_TYPE_LABELS[meterType])
+                  .join(", "),
+              },
             ]}
             onEdit={() => {
               openEditModal(item);
@@ -511,6 +530,43 @@ export default function EquipmentPage() {
                 </div>
               </div>
 
+              <div className="mb-4 flex flex-col gap-1">
+                <Label>Medidores</Label>
+                <Controller
+                  name="meter_types"
+                  control={control}
+                  render={({ field }) => (
+                    <div className="flex gap-4">
+                      {(["km", "hours"] as MeterType[]).map((meterType) => (
+                        <label
+                          key={meterType}
+                          className="flex items-center gap-2 text-sm"
+                        >
+                          <Checkbox
+                            checked={field.value?.includes(meterType)}
+                            onCheckedChange={(checked) =>
+                              field.onChange(
+                                checked
+                                  ? [...(field.value || []), meterType]
+                                  : (field.value || []).filter(
+                                      (value) => value !== meterType
+                                    )
+                              )
+                            }
+                          />
+                          {METER_TYPE_LABELS[meterType]}
+                        </label>
+                      ))}
+                    </div>
+                  )}
+                />
+                {errors.meter_types && (
+                  <p className="text-red-500 text-sm mt-1">
+                    {errors.meter_types.message}
+                  </p>
+                )}
+              </div>
+
               <div className="flex gap-2 pt-4">
                 <Button
                   type="button"
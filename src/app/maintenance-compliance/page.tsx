@@ -0,0 +1,379 @@
+"use client";
+
+import { Fragment, useCallback, useEffect, useState } from "react";
+import { ChevronDown, ChevronRight, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Noise } from "@/components/Noise";
+import { NoiseType } from "@/types/noise";
+import { formatDate } from "@/lib/utils";
+import {
+  MaintenanceComplianceEntry,
+  MaintenanceComplianceReport,
+  MaintenanceComplianceStatus,
+  MaintenanceComplianceSummary,
+} from "@/types/maintenance-compliance";
+
+const STATUS_LABELS: Record<MaintenanceComplianceStatus, string> = {
+  on_time: "A tiempo",
+  early: "Adelantado",
+  late: "Atrasado",
+  missed: "Omitido",
+  pending: "Pendiente",
+};
+
+const STATUS_STYLES: Record<MaintenanceComplianceStatus, string> = {
+  on_time: "bg-green-100 text-green-800",
+  early: "bg-blue-100 text-blue-800",
+  late: "bg-orange-100 text-orange-800",
+  missed: "bg-red-100 text-red-800",
+  pending: "bg-gray-100 text-gray-800",
+};
+
+const METER_UNITS = { km: "km", hours: "h" };
+
+const formatPct = (value?: number) =>
+  value !== undefined ? `${value.toLocaleString("es-PE")}%` : "-";
+
+const formatDeviation = (value?: number, unit?: string) =>
+  value !== undefined
+    ? `${value > 0 ? "+" : ""}${value.toLocaleString("es-PE")} ${unit}`
+    : "-";
+
+export default function MaintenanceCompliancePage() {
+  const [report, setReport] = useState<MaintenanceComplianceReport | null>(
+    null
+  );
+  const [tolerance, setTolerance] = useState("10");
+  const [expanded, setExpanded] = useState<string[]>([]);
+  const [noise, setNoise] = useState<NoiseType | null>({
+    type: "loading",
+    styleType: "page",
+    message: "Cargando reporte de cumplimiento...",
+  });
+
+  const fetchReport = useCallback(async (tolerancePct: string) => {
+    try {
+      setNoise({
+        type: "loading",
+        styleType: "page",
+        message: "Cargando reporte de cumplimiento...",
+      });
+      const res = await fetch(
+        `/api/maintenance-compliance?tolerance=${encodeURIComponent(
+          tolerancePct
+        )}`
+      );
+      const body = await res.json();
+      if (!res.ok) {
+        throw new Error(body.message || "Error al cargar el reporte");
+      }
+
+      const data = body.data as MaintenanceComplianceReport;
+      setReport({
+        ...data,
+        generated_at: new Date(data.generated_at),
+        equipment: data.equipment.map((item) => ({
+          ...item,
+          entries: item.entries.map((entry) => ({
+            ...entry,
+            due_date: new Date(entry.due_date),
+            performed_date: entry.performed_date
+              ? new Date(entry.performed_date)
+              : undefined,
+          })),
+        })),
+      });
+      setNoise(null);
+    } catch (error) {
+      console.error("Error fetching compliance report:", error);
+      setNoise({
+        type: "error",
+        styleType: "page",
+        message:
+          error instanceof Error
+            ? error.message
+            : "Error al cargar el reporte de cumplimiento.",
+      });
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchReport("10");
+  }, [fetchReport]);
+
+  const toggleExpanded = (id: string) =>
+    setExpanded((prev) =>
+      prev.includes(id) ? prev.filter((item) => item !== id) : [...prev, id]
+    );
+
+  return (
+    <div className="container mx-auto px-4 py-8 space-y-6">
+      {noise && <Noise noise={noise} />}
+
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <Label htmlFor="tolerance">Tolerancia (% del intervalo)</Label>
+          <div className="flex gap-2">
+            <Input
+              id="tolerance"
+              type="number"
+              min={0}
+              max={100}
+              value={tolerance}
+              onChange={(e) => setTolerance(e.target.value)}
+              className="w-32"
+            />
+            <Button onClick={() => fetchReport(tolerance)}>
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Actualizar
+            </Button>
+          </div>
+        </div>
+        {report && (
+          <p className="text-sm text-gray-500">
+            Generado el {formatDate(report.generated_at)}
+          </p>
+        )}
+      </div>
+
+      {report && (
+        <>
+          <SummaryCards summary={report.summary} />
+
+          <div className="bg-white rounded-lg shadow overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="p-2 w-8"></th>
+                  <th className="p-2 text-left">Equipo</th>
+                  <th className="p-2 text-left">Plan</th>
+                  <th className="p-2 text-right">Lectura actual</th>
+                  <th className="p-2 text-right">A tiempo</th>
+                  <th className="p-2 text-right">Adelantados</th>
+                  <th className="p-2 text-right">Atrasados</th>
+                  <th className="p-2 text-right">Omitidos</th>
+                  <th className="p-2 text-right">Pendientes</th>
+                  <th className="p-2 text-right">Cumplimiento</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.equipment.length === 0 && (
+                  <tr>
+                    <td colSpan={10} className="p-4 text-center text-gray-500">
+                      No hay equipos con plan de mantenimiento
+                    </td>
+                  </tr>
+                )}
+                {report.equipment.map((item) => {
+                  const isExpanded = expanded.includes(item.equipment.id);
+                  return (
+                    <Fragment key={item.equipment.id}>
+                      <tr
+                        className="border-t cursor-pointer hover:bg-gray-50"
+                        onClick={() => toggleExpanded(item.equipment.id)}
+                      >
+                        <td className="p-2">
+                          {isExpanded ? (
+                            <ChevronDown className="h-4 w-4" />
+                          ) : (
+                            <ChevronRight className="h-4 w-4" />
+                          )}
+                        </td>
+                        <td className="p-2">
+                          <span className="font-medium">
+                            {item.equipment.code}
+                          </span>{" "}
+                          - {item.equipment.license_plate}
+                          <span className="block text-gray-500">
+                            {item.equipment.type}
+                          </span>
+                        </td>
+                        <td className="p-2">
+                          {item.maintenance_plan_name || "-"}
+                          {item.maintenance_plan_version !== undefined && (
+                            <Badge variant="outline" className="ml-2">
+                              v{item.maintenance_plan_version}
+                            </Badge>
+                          )}
+                        </td>
+                        <td className="p-2 text-right">
+                          {item.current_reading !== undefined
+                            ? `${item.current_reading.toLocaleString(
+                                "es-PE"
+                              )} ${METER_UNITS[item.meter_type]}`
+                            : "-"}
+                        </td>
+                        <td className="p-2 text-right">
+                          {item.summary.on_time}
+                        </td>
+                        <td className="p-2 text-right">{item.summary.early}</td>
+                        <td className="p-2 text-right">{item.summary.late}</td>
+                        <td className="p-2 text-right">
+                          {item.summary.missed}
+                        </td>
+                        <td className="p-2 text-right">
+                          {item.summary.pending}
+                        </td>
+                        <td className="p-2 text-right font-medium">
+                          {formatPct(item.summary.compliance_pct)}
+                        </td>
+                      </tr>
+                      {isExpanded && (
+                        <tr>
+                          <td colSpan={10} className="p-2 bg-gray-50">
+                            <ComplianceEntries
+                              entries={item.entries}
+                              unit={METER_UNITS[item.meter_type]}
+                            />
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+const SummaryCards = ({
+  summary,
+}: {
+  summary: MaintenanceComplianceSummary;
+}) => {
+  const cards: {
+    status: MaintenanceComplianceStatus;
+    count: number;
+    pct?: number;
+  }[] = [
+    { status: "on_time", count: summary.on_time, pct: summary.on_time_pct },
+    { status: "early", count: summary.early, pct: summary.early_pct },
+    { status: "late", count: summary.late, pct: summary.late_pct },
+    { status: "missed", count: summary.missed, pct: summary.missed_pct },
+    { status: "pending", count: summary.pending },
+  ];
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 xl:grid-cols-6 gap-4">
+      <Card className="md:col-span-3 xl:col-span-1">
+        <CardHeader className="pb-2">
+          <CardDescription>Cumplimiento de la flota</CardDescription>
+          <CardTitle className="text-3xl">
+            {formatPct(summary.compliance_pct)}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Progress value={summary.compliance_pct ?? 0} />
+          <p className="mt-2 text-xs text-gray-500">
+            {summary.evaluated} etapas evaluadas
+          </p>
+        </CardContent>
+      </Card>
+      {cards.map((card) => (
+        <Card key={card.status}>
+          <CardHeader className="pb-2">
+            <CardDescription>{STATUS_LABELS[card.status]}</CardDescription>
+            <CardTitle className="text-2xl">{card.count}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-xs text-gray-500">
+              {card.status === "pending"
+                ? "Dentro de la tolerancia"
+                : formatPct(card.pct)}
+            </p>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+};
+
+const ComplianceEntries = ({
+  entries,
+  unit,
+}: {
+  entries: MaintenanceComplianceEntry[];
+  unit: string;
+}) => {
+  if (entries.length === 0) {
+    return (
+      <p className="p-2 text-center text-gray-500">
+        El equipo aún no alcanza ninguna etapa del plan
+      </p>
+    );
+  }
+
+  return (
+    <table className="w-full text-sm bg-white border">
+      <thead className="bg-gray-100">
+        <tr>
+          <th className="p-2 text-left">Etapa</th>
+          <th className="p-2 text-left">Tipo de mantenimiento</th>
+          <th className="p-2 text-right">Umbral</th>
+          <th className="p-2 text-left">Fecha límite</th>
+          <th className="p-2 text-right">Realizado</th>
+          <th className="p-2 text-left">Fecha</th>
+          <th className="p-2 text-right">Desviación</th>
+          <th className="p-2 text-left">Estado</th>
+        </tr>
+      </thead>
+      <tbody>
+        {entries.map((entry) => (
+          <tr key={`${entry.stage_id}_${entry.cycle}`} className="border-t">
+            <td className="p-2">
+              {entry.stage_index}
+              {entry.cycle > 0 && (
+                <span className="text-gray-500"> (vuelta {entry.cycle})</span>
+              )}
+            </td>
+            <td className="p-2">
+              {entry.maintenance_type?.type || entry.maintenance_type_id}
+            </td>
+            <td className="p-2 text-right">
+              {entry.due_reading.toLocaleString("es-PE")} {unit}
+            </td>
+            <td className="p-2">{formatDate(entry.due_date)}</td>
+            <td className="p-2 text-right">
+              {entry.performed_reading !== undefined
+                ? `${entry.performed_reading.toLocaleString("es-PE")} ${unit}`
+                : "-"}
+            </td>
+            <td className="p-2">
+              {entry.performed_date ? formatDate(entry.performed_date) : "-"}
+            </td>
+            <td className="p-2 text-right">
+              {formatDeviation(entry.reading_deviation, unit)}
+              <span className="block text-gray-500">
+                {formatDeviation(entry.days_deviation, "días")}
+              </span>
+            </td>
+            <td className="p-2">
+              <span
+                className={`px-2 py-1 rounded text-xs font-medium ${
+                  STATUS_STYLES[entry.status]
+                }`}
+              >
+                {STATUS_LABELS[entry.status]}
+              </span>
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
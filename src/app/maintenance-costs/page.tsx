@@ -0,0 +1,355 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Noise } from "@/components/Noise";
+import { NoiseType } from "@/types/noise";
+import { formatDate } from "@/lib/utils";
+import { EquipmentBase } from "@/types/equipment";
+import {
+  EquipmentMaintenanceCost,
+  MaintenanceCostGroup,
+  MaintenanceCostReport,
+} from "@/types/maintenance-cost";
+
+// Valor del Select para no filtrar por equipo
+const ALL_EQUIPMENT = "all";
+
+const formatMoney = (value: number, digits: number = 2) =>
+  `S/.${value.toLocaleString("es-PE", {
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
+  })}`;
+
+export default function MaintenanceCostsPage() {
+  const [report, setReport] = useState<MaintenanceCostReport | null>(null);
+  const [equipment, setEquipment] = useState<EquipmentBase[]>([]);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [equipmentId, setEquipmentId] = useState(ALL_EQUIPMENT);
+  const [noise, setNoise] = useState<NoiseType | null>({
+    type: "loading",
+    styleType: "page",
+    message: "Cargando costos de mantenimiento...",
+  });
+
+  const fetchReport = useCallback(
+    async (filters: { from: string; to: string; equipmentId: string }) => {
+      try {
+        setNoise({
+          type: "loading",
+          styleType: "page",
+          message: "Cargando costos de mantenimiento...",
+        });
+        const params = new URLSearchParams();
+        if (filters.from) params.set("from", filters.from);
+        if (filters.to) params.set("to", filters.to);
+        if (filters.equipmentId !== ALL_EQUIPMENT) {
+          params.set("equipment_id", filters.equipmentId);
+        }
+
+        const res = await fetch(`/api/maintenance-costs?${params.toString()}`);
+        const body = await res.json();
+        if (!res.ok) {
+          throw new Error(body.message || "Error al cargar los costos");
+        }
+
+        const data = body.data as MaintenanceCostReport;
+        setReport({ ...data, generated_at: new Date(data.generated_at) });
+        setNoise(null);
+      } catch (error) {
+        console.error("Error fetching cost report:", error);
+        setNoise({
+          type: "error",
+          styleType: "page",
+          message:
+            error instanceof Error
+              ? error.message
+              : "Error al cargar los costos de mantenimiento.",
+        });
+      }
+    },
+    []
+  );
+
+  useEffect(() => {
+    fetchReport({ from: "", to: "", equipmentId: ALL_EQUIPMENT });
+  }, [fetchReport]);
+
+  useEffect(() => {
+    const fetchEquipment = async () => {
+      try {
+        const res = await fetch("/api/equipments?limit=1000");
+        if (!res.ok) {
+          throw new Error("Failed to fetch equipment");
+        }
+
+        setEquipment((await res.json()).data.data as EquipmentBase[]);
+      } catch (error) {
+        console.error("Error fetching equipment:", error);
+      }
+    };
+    fetchEquipment();
+  }, []);
+
+  const maxMonthTotal = Math.max(
+    ...(report?.by_month.map((month) => month.total) || [0]),
+    0
+  );
+
+  return (
+    <div className="container mx-auto px-4 py-8 space-y-6">
+      {noise && <Noise noise={noise} />}
+
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div className="flex flex-wrap items-end gap-2">
+          <div>
+            <Label htmlFor="cost_from">Desde</Label>
+            <Input
+              id="cost_from"
+              type="date"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="cost_to">Hasta</Label>
+            <Input
+              id="cost_to"
+              type="date"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label>Equipo</Label>
+            <Select value={equipmentId} onValueChange={setEquipmentId}>
+              <SelectTrigger className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_EQUIPMENT}>Todos los equipos</SelectItem>
+                {equipment.map((item) => (
+                  <SelectItem key={item.id} value={item.id}>
+                    {item.code} - {item.license_plate}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button onClick={() => fetchReport({ from, to, equipmentId })}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Actualizar
+          </Button>
+        </div>
+        {report && (
+          <p className="text-sm text-gray-500">
+            Generado el {formatDate(report.generated_at)}
+          </p>
+        )}
+      </div>
+
+      {report && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-6 gap-4">
+            <SummaryCard
+              title="Costo total"
+              value={formatMoney(report.summary.total)}
+              detail={`${report.summary.records} registros`}
+            />
+            <SummaryCard
+              title="Repuestos"
+              value={formatMoney(report.summary.parts_cost)}
+            />
+            <SummaryCard
+              title="Mano de obra"
+              value={formatMoney(report.summary.labor_cost)}
+            />
+            <SummaryCard
+              title="Servicios externos"
+              value={formatMoney(report.summary.external_service_cost)}
+            />
+            <SummaryCard
+              title="Impuestos"
+              value={formatMoney(report.summary.tax)}
+            />
+            <SummaryCard
+              title="Costo por km"
+              value={
+                report.summary.cost_per_km !== undefined
+                  ? formatMoney(report.summary.cost_per_km, 4)
+                  : "-"
+              }
+              detail={`${report.summary.kilometers.toLocaleString(
+                "es-PE"
+              )} km recorridos`}
+            />
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Costo por mes</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {report.by_month.length === 0 && (
+                <p className="text-sm text-gray-500">
+                  No hay registros en el periodo
+                </p>
+              )}
+              {report.by_month.map((month) => (
+                <div key={month.key} className="flex items-center gap-2">
+                  <span className="w-20 text-sm">{month.label}</span>
+                  <div className="flex-1 bg-gray-100 rounded h-4">
+                    <div
+                      className="bg-blue-500 rounded h-4"
+                      style={{
+                        width: `${
+                          maxMonthTotal > 0
+                            ? (month.total / maxMonthTotal) * 100
+                            : 0
+                        }%`,
+                      }}
+                    />
+                  </div>
+                  <span className="w-32 text-right text-sm">
+                    {formatMoney(month.total)}
+                  </span>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          <CostTable
+            title="Por equipo"
+            groups={report.by_equipment}
+            showKilometers
+          />
+          <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+            <CostTable
+              title="Por tipo de mantenimiento"
+              groups={report.by_maintenance_type}
+            />
+            <CostTable title="Por plan" groups={report.by_plan} />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+const SummaryCard = ({
+  title,
+  value,
+  detail,
+}: {
+  title: string;
+  value: string;
+  detail?: string;
+}) => (
+  <Card>
+    <CardHeader className="pb-2">
+      <CardDescription>{title}</CardDescription>
+      <CardTitle className="text-2xl">{value}</CardTitle>
+    </CardHeader>
+    {detail && (
+      <CardContent>
+        <p className="text-xs text-gray-500">{detail}</p>
+      </CardContent>
+    )}
+  </Card>
+);
+
+const CostTable = ({
+  title,
+  groups,
+  showKilometers,
+}: {
+  title: string;
+  groups: (MaintenanceCostGroup | EquipmentMaintenanceCost)[];
+  showKilometers?: boolean;
+}) => (
+  <div className="bg-white rounded-lg shadow overflow-x-auto">
+    <h3 className="p-3 font-semibold">{title}</h3>
+    <table className="w-full text-sm">
+      <thead className="bg-gray-50">
+        <tr>
+          <th className="p-2 text-left">Grupo</th>
+          <th className="p-2 text-right">Registros</th>
+          <th className="p-2 text-right">Repuestos</th>
+          <th className="p-2 text-right">Mano de obra</th>
+          <th className="p-2 text-right">Servicios</th>
+          <th className="p-2 text-right">Impuestos</th>
+          <th className="p-2 text-right">Total</th>
+          {showKilometers && (
+            <>
+              <th className="p-2 text-right">Km</th>
+              <th className="p-2 text-right">Costo / km</th>
+            </>
+          )}
+        </tr>
+      </thead>
+      <tbody>
+        {groups.length === 0 && (
+          <tr>
+            <td
+              colSpan={showKilometers ? 9 : 7}
+              className="p-4 text-center text-gray-500"
+            >
+              No hay registros en el periodo
+            </td>
+          </tr>
+        )}
+        {groups.map((group) => (
+          <tr key={group.key} className="border-t">
+            <td className="p-2">{group.label}</td>
+            <td className="p-2 text-right">{group.records}</td>
+            <td className="p-2 text-right">{formatMoney(group.parts_cost)}</td>
+            <td className="p-2 text-right">{formatMoney(group.labor_cost)}</td>
+            <td className="p-2 text-right">
+              {formatMoney(group.external_service_cost)}
+            </td>
+            <td className="p-2 text-right">{formatMoney(group.tax)}</td>
+            <td className="p-2 text-right font-medium">
+              {formatMoney(group.total)}
+            </td>
+            {showKilometers && (
+              <KilometerCells group={group as EquipmentMaintenanceCost} />
+            )}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+const KilometerCells = ({ group }: { group: EquipmentMaintenanceCost }) => (
+  <>
+    <td className="p-2 text-right">
+      {group.kilometers !== undefined
+        ? group.kilometers.toLocaleString("es-PE")
+        : "-"}
+    </td>
+    <td className="p-2 text-right">
+      {group.cost_per_km !== undefined
+        ? formatMoney(group.cost_per_km, 4)
+        : "-"}
+    </td>
+  </>
+);
@@ -1,16 +1,20 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { DataCard } from "@/components/DataCard";
-import { Loader, Plus, Sheet } from "lucide-react";
+import { FileDown, Loader, Package, Plus, Sheet } from "lucide-react";
 import type {
   MaintenanceActivityFormData,
   MaintenanceRecordFormData,
 } from "@/lib/schemas";
-import type { MaintenanceRecordWithDetails } from "@/types/maintenance-record";
+import type {
+  MaintenanceRecordStatus,
+  MaintenanceRecordWithDetails,
+} from "@/types/maintenance-record";
 import type {
   EquipmentWithMaintenanceCounts,
+  MeterType,
   MultiEquipmentWithRecords,
   MultiEquipmentWithRecordsAndCounts,
 } from "@/types/equipment";
@@ -19,8 +23,13 @@ import type {
   MaintenanceTypeWithChildren,
 } from "@/types/maintenance-type";
 import type { ActivityBase } from "@/types/activity";
+import type { ResolvedActivityChecklist } from "@/types/activity-checklist";
 import type { SparePartBase } from "@/types/spare-part";
+import type { SparePartKitBase } from "@/types/spare-part-kit";
+import type { SparePartSubstituteProposal } from "@/types/spare-part-substitute";
+import type { WarehouseBase } from "@/types/warehouse";
 import type { MileageRecordBase } from "@/types/mileage-record";
+import type { MaintenanceWorkOrderDocument } from "@/types/maintenance-work-order";
 import { maintenanceRecordSchema } from "@/lib/schemas";
 import { Modal } from "@/components/Modal";
 import { Controller, useForm, useFieldArray } from "react-hook-form";
@@ -30,6 +39,8 @@ import { Noise } from "@/components/Noise";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
 import {
   Select,
   SelectContent,
@@ -49,6 +60,10 @@ import {
   getStatusLabel,
   getMaintenanceCount,
   getDate,
+  isSparePartCompatible,
+  getRecordStatusLabel,
+  recordStatusTransitions,
+  lockedRecordStatuses,
 } from "@/lib/utils";
 import { FETCH_SIZE } from "@/lib/const";
 import { PaginationComponent } from "@/components/Pagination";
@@ -67,6 +82,12 @@ import { downloadMRExcel } from "@/lib/excel";
 import { Filter, FilterOption } from "@/components/Filter";
 import { Sorter, SorterOption } from "@/components/Sorter";
 import { SelectModal } from "@/components/SelectModal";
+import { MaintenanceLaborModal } from "@/components/MaintenanceLaborModal";
+import { MaintenanceAttachmentsPanel } from "@/components/MaintenanceAttachmentsPanel";
+import {
+  downloadWorkOrderPdf,
+  WorkOrderPdfModal,
+} from "@/components/WorkOrderPdfModal";
 
 const optionsFilter: FilterOption[] = [
   {
@@ -110,6 +131,16 @@ const optionsOrder: SorterOption[] = [
   },
 ];
 
+const RECORD_STATUS_COLORS: Record<MaintenanceRecordStatus, string> = {
+  draft: "bg-gray-400 hover:bg-gray-500",
+  scheduled: "bg-blue-500 hover:bg-blue-600",
+  in_progress: "bg-orange-500 hover:bg-orange-600",
+  on_hold: "bg-yellow-500 hover:bg-yellow-600",
+  completed: "bg-green-500 hover:bg-green-600",
+  closed: "bg-green-700 hover:bg-green-800",
+  cancelled: "bg-red-500 hover:bg-red-600",
+};
+
 const getMaintenanceTypesById = (
   id: string,
   maintenanceTypes: MaintenanceTypeWithChildren[]
@@ -145,6 +176,15 @@ const isMaintenanceTypeAllowedByActivities = (
   );
 };
 
+// Verificar si las actividades del formulario son las precargadas por defecto
+const hasSameActivities = (
+  selectedActivities: MaintenanceActivityFormData[],
+  activityIds: string[]
+): boolean =>
+  activityIds.length > 0 &&
+  selectedActivities.length === activityIds.length &&
+  selectedActivities.every((act) => activityIds.includes(act.activity_id));
+
 export default function MaintenanceRecordsPage() {
   const { data: session } = useSession();
   const [equipment, setEquipment] =
@@ -160,6 +200,7 @@ export default function MaintenanceRecordsPage() {
   >([]);
   const [activities, setActivities] = useState<ActivityBase[]>([]);
   const [spareParts, setSpareParts] = useState<SparePartBase[]>([]);
+  const [warehouses, setWarehouses] = useState<WarehouseBase[]>([]);
   const [mileageRecords, setMileageRecords] = useState<MileageRecordBase[]>([]);
   const [selectedEquipmentId, setSelectedEquipmentId] = useState<string>("");
   const [selectedMileageRecord, setSelectedMileageRecord] =
@@ -197,11 +238,25 @@ export default function MaintenanceRecordsPage() {
   });
 
   const [selectActOpen, setSelectActOpen] = useState(false);
+  // Actividades precargadas desde la lista por defecto (sin modificar)
+  const defaultActivityIds = useRef<string[]>([]);
   const [selectSpPartOpen, setSelectSpPartOpen] = useState(false);
+  const [showAllSpareParts, setShowAllSpareParts] = useState(false);
+  const [sparePartKit, setSparePartKit] = useState<SparePartKitBase | null>(
+    null
+  );
+  const [pdfModalOpen, setPdfModalOpen] = useState(false);
+  const [laborRecord, setLaborRecord] =
+    useState<MaintenanceRecordWithDetails | null>(null);
+  // Equivalentes propuestos para los repuestos sin stock o descontinuados
+  const [substituteProposals, setSubstituteProposals] = useState<
+    Record<string, SparePartSubstituteProposal>
+  >({});
   const {
     control,
     handleSubmit,
     setValue,
+    getValues,
     reset,
     watch,
     formState: { errors },
@@ -214,6 +269,8 @@ export default function MaintenanceRecordsPage() {
       maintenance_type_id: "",
       observations: "",
       mileage: 0.0,
+      external_service_cost: 0,
+      tax_rate: 0,
       spare_parts: [],
       activities: [],
     },
@@ -223,7 +280,7 @@ export default function MaintenanceRecordsPage() {
   const {
     fields: sparePartsFields,
     append: appSparePart,
-    //update: updtSparePart,
+    update: updtSparePart,
     remove: rmSparePart,
   } = useFieldArray({
     control,
@@ -408,6 +465,24 @@ export default function MaintenanceRecordsPage() {
     fetchAdditionalData();
   }, []);
 
+  // Ubicaciones de las que se pueden consumir los repuestos
+  useEffect(() => {
+    const fetchWarehouses = async () => {
+      try {
+        const res = await fetch("/api/warehouses");
+        if (!res.ok) {
+          throw new Error("Failed to fetch warehouses");
+        }
+
+        setWarehouses((await res.json()).data.data as WarehouseBase[]);
+      } catch (error) {
+        console.error("Error fetching warehouses:", error);
+      }
+    };
+
+    fetchWarehouses();
+  }, []);
+
   // Función para cargar más datos de mantenimiento cuando cambie de página
   const handlePageChange = async (newOffset: number) => {
     const selectedMaintenance = equipment.data.find(
@@ -543,6 +618,7 @@ export default function MaintenanceRecordsPage() {
 
       if (todayMileageEquipment) {
         setValue("mileage", todayMileageEquipment.kilometers);
+        setValue("hours", todayMileageEquipment.hours);
         setSelectedMileageRecord(todayMileageEquipment);
       } else {
         setSelectedMileageRecord(null);
@@ -550,10 +626,117 @@ export default function MaintenanceRecordsPage() {
     }
   }, [selectedEquipmentId, startDateTimeSelected]);
 
+  // Precargar las actividades por defecto de la etapa o del tipo de
+  // mantenimiento al crear un registro
+  const selectedMaintenanceTypeId = watch("maintenance_type_id");
+  useEffect(() => {
+    if (!isModalOpen || editingItem || !selectedMaintenanceTypeId) return;
+
+    const fetchDefaultActivities = async () => {
+      try {
+        const params = new URLSearchParams({
+          maintenance_type_id: selectedMaintenanceTypeId,
+        });
+        if (selectedEquipmentId) {
+          params.set("equipment_id", selectedEquipmentId);
+        }
+        const res = await fetch(`/api/activity-checklists/resolve?${params}`);
+        const body = await res.json();
+        if (!res.ok) {
+          throw new Error(body.message || "Error al cargar las actividades");
+        }
+
+        const checklist = body.data as ResolvedActivityChecklist;
+        const current = getValues("activities");
+        // Solo se reemplazan las actividades si el técnico no las modificó
+        if (
+          current.length > 0 &&
+          !hasSameActivities(current, defaultActivityIds.current)
+        ) {
+          return;
+        }
+
+        setValue(
+          "activities",
+          checklist.items.map((item) => ({
+            activity_id: item.activity_id,
+            status: "pending" as const,
+            observations: "",
+            priority: item.priority,
+            mandatory: item.mandatory ?? false,
+          }))
+        );
+        defaultActivityIds.current = checklist.items.map(
+          (item) => item.activity_id
+        );
+        if (checklist.items.length > 0) {
+          toastVariables.success(
+            `Se precargaron ${checklist.items.length} actividades por defecto.`
+          );
+        }
+      } catch (error) {
+        console.error("Error fetching default activities:", error);
+      }
+    };
+    fetchDefaultActivities();
+  }, [
+    isModalOpen,
+    editingItem,
+    selectedMaintenanceTypeId,
+    selectedEquipmentId,
+    getValues,
+    setValue,
+  ]);
+
+  // Buscar el kit de repuestos de la etapa o del tipo de mantenimiento para
+  // aplicarlo al crear un registro
+  useEffect(() => {
+    if (!isModalOpen || editingItem || !selectedMaintenanceTypeId) {
+      setSparePartKit(null);
+      return;
+    }
+
+    const fetchSparePartKit = async () => {
+      try {
+        const params = new URLSearchParams({
+          maintenance_type_id: selectedMaintenanceTypeId,
+        });
+        if (selectedEquipmentId) {
+          params.set("equipment_id", selectedEquipmentId);
+        }
+        const res = await fetch(`/api/spare-part-kits/resolve?${params}`);
+        const body = await res.json();
+        if (!res.ok) {
+          throw new Error(body.message || "Error al cargar el kit");
+        }
+
+        setSparePartKit(body.data as SparePartKitBase | null);
+      } catch (error) {
+        console.error("Error fetching spare part kit:", error);
+        setSparePartKit(null);
+      }
+    };
+    fetchSparePartKit();
+  }, [
+    isModalOpen,
+    editingItem,
+    selectedMaintenanceTypeId,
+    selectedEquipmentId,
+  ]);
+
   if (!session || !session.user?.id) {
     return null;
   }
 
+  const selectedMeterTypes: MeterType[] = equipment.data.find(
+    (item) => item.id === selectedEquipmentId
+  )?.meter_types || ["km"];
+
+  // Tipo del equipo del registro para filtrar los repuestos compatibles
+  const recordEquipmentType = equipment.data.find(
+    (item) => item.id === watch("equipment_id")
+  )?.type;
+
   const handleCreate = async (data: MaintenanceRecordFormData) => {
     setNoise({
       type: "loading",
@@ -568,17 +751,21 @@ export default function MaintenanceRecordsPage() {
         end_datetime: data.end_datetime
           ? data.end_datetime.toISOString()
           : undefined,
+        mileage: selectedMeterTypes.includes("km") ? data.mileage : undefined,
+        hours: selectedMeterTypes.includes("hours") ? data.hours : undefined,
         mileage_record: selectedMileageRecord,
         activities: data.activities.map((act) => ({
           activity_id: act.activity_id,
           status: act.status,
           observations: act.observations || "",
           priority: act.priority || "no",
+          mandatory: act.mandatory ?? false,
         })),
         spare_parts: data.spare_parts.map((sp) => ({
           spare_part_id: sp.spare_part_id,
           quantity: sp.quantity,
           unit_price: sp.unit_price,
+          warehouse_id: sp.warehouse_id,
         })),
       };
 
@@ -595,7 +782,11 @@ export default function MaintenanceRecordsPage() {
       if (!res.ok) {
         const err = await res.json();
         console.error("Error creating maintenance record:", err);
-        throw new Error("Failed to create maintenance record");
+        throw new Error(
+          err.failed_step
+            ? err.message
+            : "Error al crear el registro de mantenimiento."
+        );
       }
 
       const newRecord = (await res.json()).data as MaintenanceRecordWithDetails;
@@ -667,7 +858,11 @@ export default function MaintenanceRecordsPage() {
     } catch (error) {
       setNoise(null);
       console.error("Error creating maintenance record:", error);
-      toastVariables.error("Error al crear el registro de mantenimiento.");
+      toastVariables.error(
+        error instanceof Error
+          ? error.message
+          : "Error al crear el registro de mantenimiento."
+      );
     }
   };
 
@@ -703,6 +898,8 @@ export default function MaintenanceRecordsPage() {
         end_datetime: data.end_datetime
           ? dateToLocalISOString(data.end_datetime)
           : undefined,
+        mileage: selectedMeterTypes.includes("km") ? data.mileage : undefined,
+        hours: selectedMeterTypes.includes("hours") ? data.hours : undefined,
         mileage_record: editingItem.mileage_info,
         id: editingItem.id,
         spare_parts: data.spare_parts.map((sp) => ({
@@ -710,12 +907,14 @@ export default function MaintenanceRecordsPage() {
           spare_part_id: sp.spare_part_id,
           quantity: sp.quantity,
           unit_price: sp.unit_price,
+          warehouse_id: sp.warehouse_id,
         })),
         activities: data.activities.map((act) => ({
           id: act.id,
           activity_id: act.activity_id,
           status: act.status,
           priority: act.priority || "no",
+          mandatory: act.mandatory ?? false,
           observations: act.observations || "",
         })),
         original_spare_parts: editingItem.spare_parts || [],
@@ -735,7 +934,11 @@ export default function MaintenanceRecordsPage() {
       if (!res.ok) {
         const err = await res.json();
         console.error("Error updating maintenance record:", err);
-        throw new Error("Failed to update maintenance record");
+        throw new Error(
+          err.failed_step
+            ? err.message
+            : "Error al actualizar el registro de mantenimiento."
+        );
       }
 
       const updatedRecord = (await res.json())
@@ -762,6 +965,7 @@ export default function MaintenanceRecordsPage() {
         ),
         mileage_info: {
           kilometers: data.mileage,
+          hours: data.hours,
           record_date: updatedRecord.mileage_info?.record_date || new Date(),
           id: updatedRecord.mileage_info?.id || crypto.randomUUID(),
         },
@@ -771,6 +975,7 @@ export default function MaintenanceRecordsPage() {
               spare_part_id: sp.spare_part_id,
               quantity: sp.quantity,
               unit_price: sp.unit_price,
+              warehouse_id: sp.warehouse_id,
               spare_part: spareParts.find(
                 (spare) => spare.id === sp.spare_part_id
               ) as SparePartBase,
@@ -784,6 +989,7 @@ export default function MaintenanceRecordsPage() {
               activity_id: act.activity_id,
               status: act.status,
               priority: act.priority || "no",
+              mandatory: act.mandatory ?? false,
               observations: act.observations || "",
               activity: activities.find(
                 (activity) => activity.id === act.activity_id
@@ -792,6 +998,8 @@ export default function MaintenanceRecordsPage() {
               created_at: new Date(act.created_at) || new Date(),
             }))
           : [],
+        labor_hours: editingItem.labor_hours,
+        labor_cost: editingItem.labor_cost,
         updated_at: new Date(),
       };
 
@@ -857,7 +1065,11 @@ export default function MaintenanceRecordsPage() {
     } catch (error) {
       setNoise(null);
       console.error("Error updating maintenance record:", error);
-      toastVariables.error("Error al actualizar el registro de mantenimiento.");
+      toastVariables.error(
+        error instanceof Error
+          ? error.message
+          : "Error al actualizar el registro de mantenimiento."
+      );
     }
   };
 
@@ -929,6 +1141,82 @@ export default function MaintenanceRecordsPage() {
     }
   };
 
+  // Aplica cambios a un registro en las listas de equipos y en el detalle
+  const updateRecordInState = (
+    recordId: string,
+    changes: Partial<MaintenanceRecordWithDetails>
+  ) => {
+    const updateRecord = (item: MaintenanceRecordWithDetails) =>
+      item.id === recordId ? { ...item, ...changes } : item;
+
+    setEquipment((prev) => ({
+      ...prev,
+      data: prev.data.map((item) =>
+        item.maintenance_records
+          ? {
+              ...item,
+              maintenance_records: {
+                ...item.maintenance_records,
+                data: item.maintenance_records.data.map(updateRecord),
+              },
+            }
+          : item
+      ),
+    }));
+
+    setDetailsEquipment((prev) =>
+      prev?.maintenance_records
+        ? {
+            ...prev,
+            maintenance_records: {
+              ...prev.maintenance_records,
+              data: prev.maintenance_records.data.map(updateRecord),
+            },
+          }
+        : prev
+    );
+  };
+
+  const changeRecordStatus = async (
+    record: MaintenanceRecordWithDetails,
+    status: MaintenanceRecordStatus
+  ) => {
+    setNoise({
+      type: "loading",
+      styleType: "modal",
+      message: "Cambiando el estado del registro...",
+    });
+
+    try {
+      const res = await fetch("/api/maintenance-records/status", {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ id: record.id, status }),
+      });
+      const body = await res.json();
+      if (!res.ok) {
+        throw new Error(body.message || "Error al cambiar el estado");
+      }
+
+      updateRecordInState(record.id, {
+        status,
+        status_changed_at: new Date(body.data.status_changed_at),
+        status_changed_by: session?.user?.id,
+      });
+
+      toastVariables.success(body.message);
+    } catch (error) {
+      console.error("Error changing maintenance record status:", error);
+      toastVariables.error(
+        error instanceof Error ? error.message : "Error al cambiar el estado."
+      );
+    } finally {
+      setNoise(null);
+    }
+  };
+
   const handleFilterSelect = async (
     selectedFilters: Record<string, string[]>
   ) => {
@@ -998,6 +1286,7 @@ export default function MaintenanceRecordsPage() {
   const openCreateModal = () => {
     setEditingItem(null);
     setSelectedEquipmentId("");
+    defaultActivityIds.current = [];
     reset();
     setIsModalOpen(true);
   };
@@ -1026,6 +1315,9 @@ export default function MaintenanceRecordsPage() {
     setValue("maintenance_type_id", item.maintenance_type_id);
     setValue("observations", item.observations || "");
     setValue("mileage", item.mileage_info?.kilometers || 0.0);
+    setValue("hours", item.mileage_info?.hours);
+    setValue("external_service_cost", item.external_service_cost || 0);
+    setValue("tax_rate", item.tax_rate || 0);
     setValue(
       "spare_parts",
       item.spare_parts?.map((sp) => ({
@@ -1033,6 +1325,7 @@ export default function MaintenanceRecordsPage() {
         spare_part_id: sp.spare_part_id,
         quantity: sp.quantity,
         unit_price: sp.unit_price,
+        warehouse_id: sp.warehouse_id,
       })) || []
     );
     setValue(
@@ -1043,6 +1336,7 @@ export default function MaintenanceRecordsPage() {
         status: act.status,
         observations: act.observations || "",
         priority: act.priority || "no",
+        mandatory: act.mandatory ?? false,
       })) || []
     );
     setSelectedMileageRecord(
@@ -1066,12 +1360,118 @@ export default function MaintenanceRecordsPage() {
   const addSparePart = (id: string, data?: Record<string, string | number>) => {
     console.log("Adding spare part:", id, data);
 
+    const sparePart = spareParts.find((sp) => sp.id === id);
+    if (sparePart && !isSparePartCompatible(sparePart, recordEquipmentType)) {
+      toastVariables.warning(
+        `"${sparePart.name}" no es compatible con ${recordEquipmentType}.`
+      );
+    }
+
     if (data?.price && typeof data.price === "number") {
       appSparePart({
         spare_part_id: id,
         quantity: 1,
         unit_price: data?.price,
       });
+      fetchSubstituteProposals([id]);
+    }
+  };
+
+  const fetchSubstituteProposals = async (sparePartIds: string[]) => {
+    try {
+      const proposals = await Promise.all(
+        sparePartIds.map(async (id) => {
+          const res = await fetch(
+            `/api/spare-part-substitutes?spare_part_id=${id}`
+          );
+          if (!res.ok) {
+            throw new Error("Failed to fetch spare part substitutes");
+          }
+          return (await res.json()).data as SparePartSubstituteProposal;
+        })
+      );
+      // Solo se proponen equivalentes vigentes
+      setSubstituteProposals((prev) => ({
+        ...prev,
+        ...Object.fromEntries(
+          proposals
+            .map((proposal) => ({
+              ...proposal,
+              equivalents: proposal.equivalents.filter(
+                (item) => !item.spare_part.discontinued
+              ),
+            }))
+            .filter(
+              (proposal) =>
+                proposal.needs_substitute && proposal.equivalents.length > 0
+            )
+            .map((proposal) => [proposal.spare_part_id, proposal])
+        ),
+      }));
+    } catch (error) {
+      console.error("Error fetching spare part substitutes:", error);
+    }
+  };
+
+  // Reemplazar el repuesto de una línea por un equivalente, manteniendo la
+  // cantidad y la ubicación
+  const replaceWithSubstitute = (index: number, substituteId: string) => {
+    const current = getValues(`spare_parts.${index}`);
+    if (
+      getValues("spare_parts").some((sp) => sp.spare_part_id === substituteId)
+    ) {
+      toastVariables.error("El repuesto equivalente ya está en el registro.");
+      return;
+    }
+
+    updtSparePart(index, {
+      ...current,
+      spare_part_id: substituteId,
+      unit_price: spareParts.find((sp) => sp.id === substituteId)?.price,
+    });
+  };
+
+  // Agregar los repuestos del kit; si un repuesto ya está en el registro se
+  // suma la cantidad
+  const applySparePartKit = () => {
+    if (!sparePartKit) return;
+
+    const current = getValues("spare_parts");
+    const incompatible: string[] = [];
+    const added: string[] = [];
+    for (const item of sparePartKit.items) {
+      const sparePart = spareParts.find((sp) => sp.id === item.spare_part_id);
+      if (sparePart && !isSparePartCompatible(sparePart, recordEquipmentType)) {
+        incompatible.push(sparePart.name);
+      }
+
+      const index = current.findIndex(
+        (sp) => sp.spare_part_id === item.spare_part_id
+      );
+      if (index >= 0) {
+        setValue(
+          `spare_parts.${index}.quantity`,
+          current[index].quantity + item.quantity
+        );
+        continue;
+      }
+
+      const price =
+        item.spare_part?.price ??
+        spareParts.find((sp) => sp.id === item.spare_part_id)?.price;
+      appSparePart({
+        spare_part_id: item.spare_part_id,
+        quantity: item.quantity,
+        unit_price: price || undefined,
+      });
+      added.push(item.spare_part_id);
+    }
+    toastVariables.success(`Kit "${sparePartKit.name}" aplicado.`);
+    fetchSubstituteProposals(added);
+    if (incompatible.length > 0) {
+      toastVariables.warning(
+        `No compatibles con ${recordEquipmentType}: ${incompatible.join(", ")}`
+      );
     }
   };
 
@@ -1081,6 +1481,7 @@ export default function MaintenanceRecordsPage() {
       status: "pending",
       observations: "",
       priority: "no",
+      mandatory: false,
     });
   };
 
@@ -1097,6 +1498,20 @@ export default function MaintenanceRecordsPage() {
     }
   };
 
+  const handleDownloadPdf = async (
+    recordId: string,
+    document: MaintenanceWorkOrderDocument
+  ) => {
+    try {
+      await downloadWorkOrderPdf({ id: recordId, document });
+    } catch (error) {
+      console.error("Error downloading work order:", error);
+      toastVariables.error(
+        error instanceof Error ? error.message : "Error al generar el PDF."
+      );
+    }
+  };
+
   const handleSelectOrder = async (selectedOption: Record<string, string>) => {
     console.log("Selected order:", selectedOption);
     const resEq = await fetch("/api/equipments/with-records", {
@@ -1202,14 +1617,20 @@ export default function MaintenanceRecordsPage() {
             onSelect={handleSelectOrder}
           />
         </div>
-        <Button onClick={handleExportExcel} variant="outline" className="ml-4">
-          {loadingExcel ? (
-            <Loader className="h-4 w-4 mr-2 animate-spin" />
-          ) : (
-            <Sheet className="h-4 w-4 mr-2" />
-          )}
-          Exportar a Excel
-        </Button>
+        <div className="flex gap-2 ml-4">
+          <Button onClick={handleExportExcel} variant="outline">
+            {loadingExcel ? (
+              <Loader className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Sheet className="h-4 w-4 mr-2" />
+            )}
+            Exportar a Excel
+          </Button>
+          <Button onClick={() => setPdfModalOpen(true)} variant="outline">
+            <FileDown className="h-4 w-4 mr-2" />
+            Imprimir PDF
+          </Button>
+        </div>
       </div>
 
       <div className="grid grid-cols-1 sm:grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4 md:gap-6">
@@ -1346,6 +1767,10 @@ export default function MaintenanceRecordsPage() {
                         selectedValue={field.value}
                         onChange={(value) => {
                           if (
+                            hasSameActivities(
+                              watch("activities"),
+                              defaultActivityIds.current
+                            ) ||
                             isMaintenanceTypeAllowedByActivities(
                               value,
                               watch("activities"),
@@ -1430,33 +1855,73 @@ export default function MaintenanceRecordsPage() {
                   )}
                 </div>
 
-                <div>
-                  <Label htmlFor="mileage_record_id">
-                    Registro de Kilometraje *
-                  </Label>
-                  <Controller
-                    name="mileage"
-                    control={control}
-                    render={({ field }) => (
-                      <Input
-                        type="text"
-                        placeholder="Ingresa el kilometraje..."
-                        value={field.value >= 0 ? field.value : ""}
-                        onChange={(e) => {
-                          try {
-                            field.onChange(parseFloat(e.target.value));
-                            // eslint-disable-next-line @typescript-eslint/no-unused-vars
-                          } catch (e) {}
-                        }}
-                      />
+                {selectedMeterTypes.includes("km") && (
+                  <div>
+                    <Label htmlFor="mileage_record_id">
+                      Registro de Kilometraje *
+                    </Label>
+                    <Controller
+                      name="mileage"
+                      control={control}
+                      render={({ field }) => (
+                        <Input
+                          type="text"
+                          placeholder="Ingresa el kilometraje..."
+                          value={
+                            field.value !== undefined && field.value >= 0
+                              ? field.value
+                              : ""
+                          }
+                          onChange={(e) => {
+                            try {
+                              field.onChange(parseFloat(e.target.value));
+                              // eslint-disable-next-line @typescript-eslint/no-unused-vars
+                            } catch (e) {}
+                          }}
+                        />
+                      )}
+                    />
+                    {errors.mileage && (
+                      <p className="text-red-500 text-sm mt-1">
+                        {errors.mileage.message}
+                      </p>
                     )}
-                  />
-                  {errors.mileage && (
-                    <p className="text-red-500 text-sm mt-1">
-                      {errors.mileage.message}
-                    </p>
-                  )}
-                </div>
+                  </div>
+                )}
+
+                {selectedMeterTypes.includes("hours") && (
+                  <div>
+                    <Label htmlFor="hours">Horas del Horómetro *</Label>
+                    <Controller
+                      name="hours"
+                      control={control}
+                      render={({ field }) => (
+                        <Input
+                          id="hours"
+                          type="text"
+                          placeholder="Ingresa las horas..."
+                          value={
+                            field.value !== undefined && field.value >= 0
+                              ? field.value
+                              : ""
+                          }
+                          onChange={(e) =>
+                            field.onChange(
+                              e.target.value
+                                ? parseFloat(e.target.value)
+                                : undefined
+                            )
+                          }
+                        />
+                      )}
+                    />
+                    {errors.hours && (
+                      <p className="text-red-500 text-sm mt-1">
+                        {errors.hours.message}
+                      </p>
+                    )}
+                  </div>
+                )}
               </div>
 
               {/* Observations */}
@@ -1481,6 +1946,70 @@ export default function MaintenanceRecordsPage() {
                 )}
               </div>
 
+              {/* Costs */}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="external_service_cost">
+                    Servicios externos (S/.)
+                  </Label>
+                  <Controller
+                    name="external_service_cost"
+                    control={control}
+                    render={({ field }) => (
+                      <Input
+                        id="external_service_cost"
+                        type="number"
+                        min={0}
+                        step="0.01"
+                        placeholder="Taller, grúa, etc."
+                        value={field.value ?? ""}
+                        onChange={(e) =>
+                          field.onChange(
+                            e.target.value
+                              ? parseFloat(e.target.value)
+                              : undefined
+                          )
+                        }
+                      />
+                    )}
+                  />
+                  {errors.external_service_cost && (
+                    <p className="text-red-500 text-sm mt-1">
+                      {errors.external_service_cost.message}
+                    </p>
+                  )}
+                </div>
+                <div>
+                  <Label htmlFor="tax_rate">Impuesto (%)</Label>
+                  <Controller
+                    name="tax_rate"
+                    control={control}
+                    render={({ field }) => (
+                      <Input
+                        id="tax_rate"
+                        type="number"
+                        min={0}
+                        step="0.01"
+                        placeholder="0"
+                        value={field.value ?? ""}
+                        onChange={(e) =>
+                          field.onChange(
+                            e.target.value
+                              ? parseFloat(e.target.value)
+                              : undefined
+                          )
+                        }
+                      />
+                    )}
+                  />
+                  {errors.tax_rate && (
+                    <p className="text-red-500 text-sm mt-1">
+                      {errors.tax_rate.message}
+                    </p>
+                  )}
+                </div>
+              </div>
+
               {/* Activities Section */}
               <div>
                 <div className="flex flex-col md:flex-row items-start md:items-center justify-between mb-2 md:mb-3 gap-2 md:gap-0">
@@ -1549,6 +2078,21 @@ export default function MaintenanceRecordsPage() {
                               }`}
                             </Label>
                           </div>
+                          <Controller
+                            name={`activities.${index}.mandatory`}
+                            control={control}
+                            render={({ field }) => (
+                              <label className="flex items-center gap-2 text-sm">
+                                <Checkbox
+                                  checked={field.value ?? false}
+                                  onCheckedChange={(checked) =>
+                                    field.onChange(checked === true)
+                                  }
+                                />
+                                Obligatoria para completar
+                              </label>
+                            )}
+                          />
                         </div>
 
                         <div className="flex flex-col gap-2 w-full">
@@ -1652,15 +2196,39 @@ export default function MaintenanceRecordsPage() {
               <div className="w-full md:w-[60%]">
                 <div className="flex flex-col md:flex-row items-start md:items-center justify-between mb-2 md:mb-3 gap-2 md:gap-0">
                   <Label className="text-base font-semibold">Repuestos</Label>
-                  <Button
-                    type="button"
-                    variant="outline"
-                    size="sm"
-                    onClick={handleOpenSelectSpPart}
-                  >
-                    <Plus className="h-4 w-4 mr-1" />
-                    Seleccionar Repuesto
-                  </Button>
+                  <div className="flex flex-wrap gap-2">
+                    {sparePartKit && sparePartKit.items.length > 0 && (
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={applySparePartKit}
+                      >
+                        <Package className="h-4 w-4 mr-1" />
+                        Aplicar Kit: {sparePartKit.name}
+                      </Button>
+                    )}
+                    {recordEquipmentType && (
+                      <label className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={showAllSpareParts}
+                          onCheckedChange={(checked) =>
+                            setShowAllSpareParts(checked === true)
+                          }
+                        />
+                        Mostrar no compatibles
+                      </label>
+                    )}
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={handleOpenSelectSpPart}
+                    >
+                      <Plus className="h-4 w-4 mr-1" />
+                      Seleccionar Repuesto
+                    </Button>
+                  </div>
                 </div>
 
                 <SelectModal
@@ -1670,18 +2238,32 @@ export default function MaintenanceRecordsPage() {
                   onUnselect={(id, idx) => {
                     rmSparePart(idx);
                   }}
-                  data={spareParts.map((sp) => ({
-                    id: sp.id,
-                    title: sp.name,
-                    description: sp.description,
-                    badges: [
-                      { label: `S/. ${sp.price}` },
-                      { label: sp.factory_code },
-                    ],
-                    data: {
-                      price: sp.price,
-                    },
-                  }))}
+                  data={spareParts
+                    .filter(
+                      (sp) =>
+                        showAllSpareParts ||
+                        isSparePartCompatible(sp, recordEquipmentType)
+                    )
+                    .map((sp) => ({
+                      id: sp.id,
+                      title: sp.name,
+                      description: sp.description,
+                      badges: [
+                        { label: `S/. ${sp.price}` },
+                        { label: sp.factory_code },
+                        ...(isSparePartCompatible(sp, recordEquipmentType)
+                          ? []
+                          : [
+                              {
+                                label: "No compatible",
+                                color: "bg-red-100 text-red-700",
+                              },
+                            ]),
+                      ],
+                      data: {
+                        price: sp.price,
+                      },
+                    }))}
                   selected={sparePartsFields.map((sp, index) => ({
                     id: sp.spare_part_id,
                     original_index: index,
@@ -1698,7 +2280,7 @@ export default function MaintenanceRecordsPage() {
                           key={index}
                           className="border rounded-lg p-4 mb-3 relative"
                         >
-                          <div className="grid grid-cols-1 md:grid-cols-2 gap-2 md:gap-3">
+                          <div className="grid grid-cols-1 md:grid-cols-3 gap-2 md:gap-3">
                             <div>
                               <Label>
                                 {` ${
@@ -1707,6 +2289,55 @@ export default function MaintenanceRecordsPage() {
                                   )?.name
                                 }`}
                               </Label>
+                              {spareParts.some(
+                                (sp) =>
+                                  sp.id === sparePart.spare_part_id &&
+                                  !isSparePartCompatible(
+                                    sp,
+                                    recordEquipmentType
+                                  )
+                              ) && (
+                                <p className="text-orange-600 text-xs mt-1">
+                                  No compatible con {recordEquipmentType}
+                                </p>
+                              )}
+                              {substituteProposals[
+                                sparePart.spare_part_id
+                              ] && (
+                                <div className="mt-1 space-y-1">
+                                  <p className="text-orange-600 text-xs">
+                                    {substituteProposals[
+                                      sparePart.spare_part_id
+                                    ].discontinued
+                                      ? "Descontinuado"
+                                      : "Sin stock"}
+                                    . Equivalentes:
+                                  </p>
+                                  <div className="flex flex-wrap gap-1">
+                                    {substituteProposals[
+                                      sparePart.spare_part_id
+                                    ].equivalents
+                                      .slice(0, 3)
+                                      .map((item) => (
+                                        <Button
+                                          key={item.spare_part.id}
+                                          type="button"
+                                          variant="outline"
+                                          size="sm"
+                                          className="h-7 text-xs"
+                                          onClick={() =>
+                                            replaceWithSubstitute(
+                                              index,
+                                              item.spare_part.id
+                                            )
+                                          }
+                                        >
+                                          {`${item.spare_part.name} (${item.on_hand})`}
+                                        </Button>
+                                      ))}
+                                  </div>
+                                </div>
+                              )}
                               {/* <Controller
                                 name={`spare_parts.${index}.spare_part_id`}
                                 control={control}
@@ -1765,6 +2396,34 @@ export default function MaintenanceRecordsPage() {
                               />
                             </div>
 
+                            <div>
+                              <Label>Ubicación</Label>
+                              <Controller
+                                name={`spare_parts.${index}.warehouse_id`}
+                                control={control}
+                                render={({ field }) => (
+                                  <Select
+                                    onValueChange={field.onChange}
+                                    value={field.value || ""}
+                                  >
+                                    <SelectTrigger>
+                                      <SelectValue placeholder="Predeterminada" />
+                                    </SelectTrigger>
+                                    <SelectContent className="z-[10000]">
+                                      {warehouses.map((warehouse) => (
+                                        <SelectItem
+                                          key={warehouse.id}
+                                          value={warehouse.id}
+                                        >
+                                          {warehouse.name}
+                                        </SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
+                                )}
+                              />
+                            </div>
+
                             <div className="flex items-end absolute -top-1 -right-1">
                               <Button
                                 type="button"
@@ -1936,6 +2595,11 @@ export default function MaintenanceRecordsPage() {
                             {maintenance.maintenance_type?.type ||
                               "Tipo no especificado"}
                           </h4>
+                          <Badge
+                            className={RECORD_STATUS_COLORS[maintenance.status]}
+                          >
+                            {getRecordStatusLabel(maintenance.status)}
+                          </Badge>
                           <p className="text-sm text-gray-600">
                             {getDate(maintenance.start_datetime)}
                             {maintenance.end_datetime && (
@@ -1947,12 +2611,71 @@ export default function MaintenanceRecordsPage() {
                           </p>
                         </div>
                         <div className="flex gap-2">
+                          {recordStatusTransitions[maintenance.status].length >
+                            0 && (
+                            <Select
+                              value=""
+                              onValueChange={(value) =>
+                                changeRecordStatus(
+                                  maintenance,
+                                  value as MaintenanceRecordStatus
+                                )
+                              }
+                            >
+                              <SelectTrigger className="h-9 w-40">
+                                <SelectValue placeholder="Cambiar estado" />
+                              </SelectTrigger>
+                              <SelectContent className="z-[10000]">
+                                {recordStatusTransitions[
+                                  maintenance.status
+                                ].map((status) => (
+                                  <SelectItem key={status} value={status}>
+                                    {getRecordStatusLabel(status)}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          )}
+                          {!lockedRecordStatuses.includes(
+                            maintenance.status
+                          ) && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => openEditModal(maintenance)}
+                            >
+                              Editar
+                            </Button>
+                          )}
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setLaborRecord(maintenance)}
+                          >
+                            Mano de obra
+                          </Button>
                           <Button
                             size="sm"
                             variant="outline"
-                            onClick={() => openEditModal(maintenance)}
+                            title="Orden de trabajo en PDF"
+                            onClick={() =>
+                              handleDownloadPdf(maintenance.id, "work_order")
+                            }
                           >
-                            Editar
+                            Orden PDF
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            title="Informe de servicio en PDF"
+                            onClick={() =>
+                              handleDownloadPdf(
+                                maintenance.id,
+                                "service_report"
+                              )
+                            }
+                          >
+                            Informe PDF
                           </Button>
                           <Button
                             size="sm"
@@ -1974,10 +2697,23 @@ export default function MaintenanceRecordsPage() {
                                 "N/A"}{" "}
                             km
                           </p>
+                          {maintenance.mileage_info?.hours !== undefined && (
+                            <p className="text-sm">
+                              <strong>Horómetro:</strong>{" "}
+                              {maintenance.mileage_info.hours} h
+                            </p>
+                          )}
                           <p className="text-sm">
                             <strong>Observaciones:</strong>{" "}
                             {maintenance.observations || "Sin observaciones"}
                           </p>
+                          {maintenance.labor_hours !== undefined && (
+                            <p className="text-sm">
+                              <strong>Mano de obra:</strong>{" "}
+                              {maintenance.labor_hours.toFixed(2)} h / S/.
+                              {(maintenance.labor_cost || 0).toFixed(2)}
+                            </p>
+                          )}
                         </div>
                         <div>
                           {maintenance.activities &&
@@ -2091,6 +2827,25 @@ export default function MaintenanceRecordsPage() {
                                 </div>
                               </div>
                             )}
+                          <Accordion
+                            type="single"
+                            collapsible
+                            className="mt-2"
+                          >
+                            <AccordionItem value="attachments">
+                              <AccordionTrigger className="hover:no-underline">
+                                <span className="font-medium">Adjuntos</span>
+                              </AccordionTrigger>
+                              <AccordionContent>
+                                <MaintenanceAttachmentsPanel
+                                  recordId={maintenance.id}
+                                  locked={lockedRecordStatuses.includes(
+                                    maintenance.status
+                                  )}
+                                />
+                              </AccordionContent>
+                            </AccordionItem>
+                          </Accordion>
                         </div>
                       </div>
                     </div>
@@ -2123,6 +2878,23 @@ export default function MaintenanceRecordsPage() {
           </div>
         </Modal>
       )}
+
+      {pdfModalOpen && (
+        <WorkOrderPdfModal onClose={() => setPdfModalOpen(false)} />
+      )}
+
+      {laborRecord && (
+        <MaintenanceLaborModal
+          record={laborRecord}
+          onClose={() => setLaborRecord(null)}
+          onChange={(labor) =>
+            updateRecordInState(laborRecord.id, {
+              labor_hours: labor.labor_hours,
+              labor_cost: labor.labor_cost,
+            })
+          }
+        />
+      )}
     </div>
   );
 }
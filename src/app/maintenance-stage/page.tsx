@@ -1,7 +1,40 @@
 "use client";
 import { useCallback, useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
-import { Plus, Edit, Trash2, ChevronDown, ChevronUp } from "lucide-react";
+import {
+  Plus,
+  Edit,
+  Trash2,
+  ChevronDown,
+  ChevronUp,
+  RotateCcw,
+  History,
+  Copy,
+  BookmarkPlus,
+  LayoutTemplate,
+  Download,
+  Upload,
+  GripVertical,
+  ListChecks,
+  Package,
+} from "lucide-react";
+import {
+  DndContext,
+  DragEndEvent,
+  KeyboardSensor,
+  PointerSensor,
+  closestCenter,
+  useSensor,
+  useSensors,
+} from "@dnd-kit/core";
+import {
+  SortableContext,
+  arrayMove,
+  rectSortingStrategy,
+  sortableKeyboardCoordinates,
+  useSortable,
+} from "@dnd-kit/sortable";
+import { CSS } from "@dnd-kit/utilities";
 import { Modal } from "@/components/Modal";
 import { Controller, useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -13,6 +46,14 @@ import { Textarea } from "@/components/ui/textarea";
 import { useSession } from "next-auth/react";
 import { toastVariables } from "@/components/ToastVariables";
 import { MaintenanceTypeSelect } from "@/components/MaintenanceTypeSelect";
+import { MaintenancePlanVersionsModal } from "@/components/MaintenancePlanVersionsModal";
+import {
+  MaintenancePlanTemplatesModal,
+  SaveMaintenancePlanTemplateModal,
+} from "@/components/MaintenancePlanTemplatesModal";
+import { MaintenancePlanImportModal } from "@/components/MaintenancePlanImportModal";
+import { ActivityChecklistModal } from "@/components/ActivityChecklistModal";
+import { SparePartKitModal } from "@/components/SparePartKitModal";
 import { z } from "zod";
 import type {
   MaintenanceTypeBase,
@@ -20,6 +61,7 @@ import type {
 } from "@/types/maintenance-type";
 import {
   MaintenancePlanBase,
+  MaintenancePlanCycleMode,
   MaintenancePlanWithStages,
   MultiMaintenancePlan,
 } from "@/types/maintenance-plan";
@@ -64,14 +106,36 @@ const getUnitTimeTypeByDays = (
   };
 };
 
+const cycleModes: { value: MaintenancePlanCycleMode; label: string }[] = [
+  { value: "terminate", label: "Finalizar el plan" },
+  { value: "repeat", label: "Repetir el plan completo" },
+  { value: "repeat_from", label: "Repetir desde una etapa" },
+];
+
 // Schemas de validación
-const maintenancePlanSchema = z.object({
-  name: z
-    .string()
-    .min(1, "El nombre es requerido")
-    .max(100, "El nombre no puede exceder 100 caracteres"),
-  description: z.string().optional(),
-});
+const maintenancePlanSchema = z
+  .object({
+    name: z
+      .string()
+      .min(1, "El nombre es requerido")
+      .max(100, "El nombre no puede exceder 100 caracteres"),
+    description: z.string().optional(),
+    cycle_mode: z.enum(["repeat", "repeat_from", "terminate"]),
+    cycle_restart_index: z
+      .number()
+      .int("La etapa debe ser un número entero")
+      .min(1, "La etapa debe ser mayor a 0")
+      .optional(),
+  })
+  .refine(
+    (data) =>
+      data.cycle_mode !== "repeat_from" ||
+      data.cycle_restart_index !== undefined,
+    {
+      message: "Indica la etapa desde la que se repite el plan",
+      path: ["cycle_restart_index"],
+    }
+  );
 
 const createMaintenanceStageSchema = (
   existingStages: MaintenanceStageBase[],
@@ -109,6 +173,10 @@ const createMaintenanceStageSchema = (
         );
         return !duplicateStage;
       }, "Ya existe una etapa con estos días en este plan"),
+    hours: z
+      .number()
+      .min(0, "Las horas deben ser mayores o iguales a 0")
+      .optional(),
   });
 };
 
@@ -119,8 +187,50 @@ type MaintenanceStageFormData = {
   maintenance_plan_id: string;
   kilometers: number;
   days: number;
+  hours?: number;
 };
 
+// Tarjeta de etapa que se puede arrastrar para cambiar su orden
+function SortableStage({
+  id,
+  children,
+}: {
+  id: string;
+  children: (handle: React.ReactNode) => React.ReactNode;
+}) {
+  const {
+    attributes,
+    listeners,
+    setNodeRef,
+    transform,
+    transition,
+    isDragging,
+  } = useSortable({ id });
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={{
+        transform: CSS.Transform.toString(transform),
+        transition,
+      }}
+      className={isDragging ? "z-10 opacity-75" : undefined}
+    >
+      {children(
+        <button
+          type="button"
+          className="cursor-grab text-gray-400 hover:text-gray-600 touch-none"
+          title="Arrastrar para reordenar"
+          {...attributes}
+          {...listeners}
+        >
+          <GripVertical className="h-4 w-4" />
+        </button>
+      )}
+    </div>
+  );
+}
+
 // Componente para mostrar cada plan con sus stages
 interface PlanSectionProps {
   plan: MaintenancePlanWithStages;
@@ -130,8 +240,18 @@ interface PlanSectionProps {
   onEditPlan: (plan: MaintenancePlanBase) => void;
   onDeletePlan: (id: string) => void;
   onCreateStage: (planId: string) => void;
+  onShowVersions: (plan: MaintenancePlanBase) => void;
+  onDuplicatePlan: (plan: MaintenancePlanBase) => void;
+  onSaveTemplate: (plan: MaintenancePlanBase) => void;
+  onExportPlan: (plan: MaintenancePlanBase) => void;
+  onReorderStages: (
+    plan: MaintenancePlanWithStages,
+    stageIds: string[]
+  ) => void;
   onEditStage: (stage: MaintenanceStageBase) => void;
   onDeleteStage: (id: string) => void;
+  onStageChecklist: (stage: MaintenanceStageBase) => void;
+  onStageKit: (stage: MaintenanceStageBase) => void;
 }
 
 function PlanSection({
@@ -140,8 +260,15 @@ function PlanSection({
   onEditPlan,
   onDeletePlan,
   onCreateStage,
+  onShowVersions,
+  onDuplicatePlan,
+  onSaveTemplate,
+  onExportPlan,
+  onReorderStages,
   onEditStage,
   onDeleteStage,
+  onStageChecklist,
+  onStageKit,
 }: PlanSectionProps) {
   const [isExpanded, setIsExpanded] = useState(false);
 
@@ -153,9 +280,40 @@ function PlanSection({
   };
 
   const sortedStages = [...plan.stages].sort(
-    (a, b) => a.kilometers - b.kilometers
+    (a, b) => a.stage_index - b.stage_index
   );
 
+  const sensors = useSensors(
+    useSensor(PointerSensor, { activationConstraint: { distance: 5 } }),
+    useSensor(KeyboardSensor, {
+      coordinateGetter: sortableKeyboardCoordinates,
+    })
+  );
+
+  const handleDragEnd = ({ active, over }: DragEndEvent) => {
+    if (!over || active.id === over.id) return;
+
+    const ids = sortedStages.map((stage) => stage.id);
+    onReorderStages(
+      plan,
+      arrayMove(
+        ids,
+        ids.indexOf(String(active.id)),
+        ids.indexOf(String(over.id))
+      )
+    );
+  };
+
+  // Etapa a la que vuelve el plan después de la última
+  const restartStageId =
+    plan.cycle_mode === "repeat"
+      ? sortedStages[0]?.id
+      : plan.cycle_mode === "repeat_from"
+      ? sortedStages.find(
+          (stage) => stage.stage_index === plan.cycle_restart_index
+        )?.id
+      : undefined;
+
   return (
     <div className="bg-white rounded-lg border shadow-sm w-full max-w-4xl mx-auto">
       {/* Plan Header */}
@@ -172,6 +330,19 @@ function PlanSection({
                   {new Set(plan.stages.map((s) => s.maintenance_type_id)).size}{" "}
                   tipos
                 </span>
+                {plan.current_version && (
+                  <span className="bg-gray-100 text-gray-800 text-xs font-medium px-2 py-1 rounded">
+                    v{plan.current_version}
+                  </span>
+                )}
+                {plan.cycle_mode && plan.cycle_mode !== "terminate" && (
+                  <span className="bg-orange-100 text-orange-800 text-xs font-medium px-2 py-1 rounded inline-flex items-center gap-1">
+                    <RotateCcw className="h-3 w-3" />
+                    {plan.cycle_mode === "repeat"
+                      ? "Cíclico"
+                      : `Repite desde #${plan.cycle_restart_index}`}
+                  </span>
+                )}
               </div>
             </div>
             {plan.description && (
@@ -190,6 +361,39 @@ function PlanSection({
                 <Plus className="h-4 w-4 mr-1" />
                 <span className="hidden xs:inline">Agregar Etapa</span>
               </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onShowVersions(plan)}
+                title="Versiones del plan"
+              >
+                <History className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onDuplicatePlan(plan)}
+                title="Duplicar plan"
+              >
+                <Copy className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onSaveTemplate(plan)}
+                disabled={plan.stages.length === 0}
+                title="Guardar como plantilla"
+              >
+                <BookmarkPlus className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onExportPlan(plan)}
+                title="Exportar plan"
+              >
+                <Download className="h-4 w-4" />
+              </Button>
               <Button
                 variant="outline"
                 size="sm"
@@ -237,60 +441,124 @@ function PlanSection({
               </Button>
             </div>
           ) : (
-            <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-4">
-              {sortedStages.map((stage, index) => {
-                const dateInfo = getUnitTimeTypeByDays(stage.days);
-                return (
-                  <div
-                    key={stage.id}
-                    className="bg-gray-50 rounded-lg border p-3 hover:shadow-sm transition-shadow flex flex-col h-full min-w-0"
-                  >
-                    <div className="flex flex-wrap items-center justify-between mb-2 gap-2">
-                      <div className="flex flex-wrap items-center gap-2">
-                        <span className="bg-blue-100 text-blue-800 text-xs font-medium px-2 py-0.5 rounded">
-                          #{index + 1}
-                        </span>
-                        <span className="bg-green-100 text-green-800 text-xs font-medium px-2 py-0.5 rounded">
-                          {stage.kilometers} km
-                        </span>
-                        <span className="bg-yellow-100 text-yellow-800 text-xs font-medium px-2 py-0.5 rounded">
-                          {stage.days} días
-                        </span>
-                      </div>
-                      <div className="flex gap-1">
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => onEditStage(stage)}
-                        >
-                          <Edit className="h-3 w-3" />
-                        </Button>
-                        <Button
-                          variant="destructive"
-                          size="sm"
-                          onClick={() => onDeleteStage(stage.id)}
-                        >
-                          <Trash2 className="h-3 w-3" />
-                        </Button>
-                      </div>
-                    </div>
-                    <div className="space-y-1">
-                      <p className="text-sm font-medium text-gray-700 break-words">
-                        Tipo:{" "}
-                        {getMaintenanceTypeName(stage.maintenance_type_id)}
-                      </p>
-                      <p className="text-sm text-gray-600">
-                        Kilometros: {stage.kilometers.toLocaleString()} km
-                      </p>
-                      <p className="text-sm text-gray-600">
-                        {dateInfo.unitType.label}: {dateInfo.daysInUnitType}{" "}
-                        {dateInfo.unitType.label}
-                      </p>
-                    </div>
-                  </div>
-                );
-              })}
-            </div>
+            <DndContext
+              sensors={sensors}
+              collisionDetection={closestCenter}
+              onDragEnd={handleDragEnd}
+            >
+              <SortableContext
+                items={sortedStages.map((stage) => stage.id)}
+                strategy={rectSortingStrategy}
+              >
+                <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-4">
+                  {sortedStages.map((stage, index) => {
+                    const dateInfo = getUnitTimeTypeByDays(stage.days);
+                    return (
+                      <SortableStage key={stage.id} id={stage.id}>
+                        {(handle) => (
+                          <div className="bg-gray-50 rounded-lg border p-3 hover:shadow-sm transition-shadow flex flex-col h-full min-w-0">
+                            <div className="flex flex-wrap items-center justify-between mb-2 gap-2">
+                              <div className="flex flex-wrap items-center gap-2">
+                                {handle}
+                                <span className="bg-blue-100 text-blue-800 text-xs font-medium px-2 py-0.5 rounded">
+                                  #{index + 1}
+                                </span>
+                                <span className="bg-green-100 text-green-800 text-xs font-medium px-2 py-0.5 rounded">
+                                  {stage.kilometers} km
+                                </span>
+                                <span className="bg-yellow-100 text-yellow-800 text-xs font-medium px-2 py-0.5 rounded">
+                                  {stage.days} días
+                                </span>
+                                {stage.hours !== undefined && (
+                                  <span className="bg-purple-100 text-purple-800 text-xs font-medium px-2 py-0.5 rounded">
+                                    {stage.hours} h
+                                  </span>
+                                )}
+                                {stage.id === restartStageId && (
+                                  <span
+                                    className="bg-orange-100 text-orange-800 text-xs font-medium px-2 py-0.5 rounded inline-flex items-center"
+                                    title="El ciclo se reinicia en esta etapa"
+                                  >
+                                    <RotateCcw className="h-3 w-3" />
+                                  </span>
+                                )}
+                              </div>
+                              <div className="flex gap-1">
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  title="Actividades por defecto"
+                                  onClick={() => onStageChecklist(stage)}
+                                >
+                                  <ListChecks className="h-3 w-3" />
+                                </Button>
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  title="Kit de repuestos"
+                                  onClick={() => onStageKit(stage)}
+                                >
+                                  <Package className="h-3 w-3" />
+                                </Button>
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => onEditStage(stage)}
+                                >
+                                  <Edit className="h-3 w-3" />
+                                </Button>
+                                <Button
+                                  variant="destructive"
+                                  size="sm"
+                                  onClick={() => onDeleteStage(stage.id)}
+                                >
+                                  <Trash2 className="h-3 w-3" />
+                                </Button>
+                              </div>
+                            </div>
+                            <div className="space-y-1">
+                              <p className="text-sm font-medium text-gray-700 break-words">
+                                Tipo:{" "}
+                                {getMaintenanceTypeName(
+                                  stage.maintenance_type_id
+                                )}
+                              </p>
+                              <p className="text-sm text-gray-600">
+                                Kilometros:{" "}
+                                {stage.kilometers.toLocaleString()} km
+                              </p>
+                              <p className="text-sm text-gray-600">
+                                {dateInfo.unitType.label}:{" "}
+                                {dateInfo.daysInUnitType}{" "}
+                                {dateInfo.unitType.label}
+                              </p>
+                              {stage.hours !== undefined && (
+                                <p className="text-sm text-gray-600">
+                                  Horas: {stage.hours.toLocaleString()} h
+                                </p>
+                              )}
+                            </div>
+                          </div>
+                        )}
+                      </SortableStage>
+                    );
+                  })}
+                </div>
+              </SortableContext>
+            </DndContext>
+          )}
+          {sortedStages.length > 0 && (
+            <p className="text-sm text-gray-500 mt-4 flex items-center gap-1">
+              {restartStageId ? (
+                <>
+                  <RotateCcw className="h-4 w-4" />
+                  Después de la última etapa el plan continúa desde la etapa #
+                  {sortedStages.findIndex((s) => s.id === restartStageId) + 1}
+                </>
+              ) : (
+                "El plan finaliza después de la última etapa"
+              )}
+            </p>
           )}
         </div>
       )}
@@ -322,6 +590,19 @@ export default function MaintenancePlanPage() {
     null
   );
   const [selectedPlanForStage, setSelectedPlanForStage] = useState<string>("");
+  const [versionsPlan, setVersionsPlan] = useState<MaintenancePlanBase | null>(
+    null
+  );
+  const [templatePlan, setTemplatePlan] = useState<MaintenancePlanBase | null>(
+    null
+  );
+  const [checklistStage, setChecklistStage] =
+    useState<MaintenanceStageBase | null>(null);
+  const [kitStage, setKitStage] = useState<MaintenanceStageBase | null>(
+    null
+  );
+  const [isTemplatesModalOpen, setIsTemplatesModalOpen] = useState(false);
+  const [isImportModalOpen, setIsImportModalOpen] = useState(false);
   const [askingDeletePlan, setAskingDeletePlan] = useState<
     string | undefined
   >();
@@ -340,6 +621,7 @@ export default function MaintenancePlanPage() {
     defaultValues: {
       name: "",
       description: "",
+      cycle_mode: "terminate",
     },
   });
 
@@ -360,6 +642,10 @@ export default function MaintenancePlanPage() {
           .number()
           .min(0, "Los kilómetros deben ser mayores o iguales a 0"),
         days: z.number().min(0, "Los días deben ser mayores o iguales a 0"),
+        hours: z
+          .number()
+          .min(0, "Las horas deben ser mayores o iguales a 0")
+          .optional(),
       });
 
   const stageForm = useForm<MaintenanceStageFormData>({
@@ -441,102 +727,102 @@ export default function MaintenancePlanPage() {
   };
 
   // Fetch data
-  useEffect(() => {
-    const fetchData = async () => {
-      setNoise({
-        type: "loading",
-        styleType: "page",
-        message: "Cargando planes de mantenimiento...",
-      });
-
-      try {
-        // Fetch maintenance plans
-        const plansRes = await fetch("/api/maintenance-plan?limit=0");
-        if (!plansRes.ok) {
-          throw new Error("Failed to fetch maintenance plans");
-        }
-        const plansData = (await plansRes.json()).data as MultiMaintenancePlan;
-
-        // Fetch all stages
-        const stagesRes = await fetch("/api/maintenance-stage?limit=0");
-        if (!stagesRes.ok) {
-          throw new Error("Failed to fetch maintenance stages");
-        }
-        const stagesData = (await stagesRes.json())
-          .data as MultiMaintenanceStage;
+  const fetchData = useCallback(async () => {
+    setNoise({
+      type: "loading",
+      styleType: "page",
+      message: "Cargando planes de mantenimiento...",
+    });
 
-        // Fetch maintenance types
-        const maintenanceTypesRes = await fetch("/api/maintenance-type");
-        if (!maintenanceTypesRes.ok) {
-          throw new Error("Failed to fetch maintenance types");
-        }
-        const maintenanceTypesData = (await maintenanceTypesRes.json())
-          .data as MaintenanceTypeWithChildren[];
+    try {
+      // Fetch maintenance plans
+      const plansRes = await fetch("/api/maintenance-plan?limit=0");
+      if (!plansRes.ok) {
+        throw new Error("Failed to fetch maintenance plans");
+      }
+      const plansData = (await plansRes.json()).data as MultiMaintenancePlan;
 
-        // Process data
-        const processedStages = stagesData.data.map((item) => ({
-          ...item,
-          created_at: new Date(item.created_at),
-          updated_at: item.updated_at ? new Date(item.updated_at) : undefined,
-        }));
+      // Fetch all stages
+      const stagesRes = await fetch("/api/maintenance-stage?limit=0");
+      if (!stagesRes.ok) {
+        throw new Error("Failed to fetch maintenance stages");
+      }
+      const stagesData = (await stagesRes.json())
+        .data as MultiMaintenanceStage;
 
-        const processedPlans = plansData.data.map((plan) => ({
-          ...plan,
-          created_at: new Date(plan.created_at),
-          updated_at: plan.updated_at ? new Date(plan.updated_at) : undefined,
-          stages: processedStages.filter(
-            (stage) => stage.maintenance_plan_id === plan.id
-          ),
-        }));
-
-        // Flatten maintenance types
-        const flattenMaintenanceTypes = (
-          items: MaintenanceTypeWithChildren[]
-        ): MaintenanceTypeBase[] => {
-          const result: MaintenanceTypeBase[] = [];
-          const processItem = (
-            item: MaintenanceTypeWithChildren
-          ): MaintenanceTypeBase => {
-            const processed: MaintenanceTypeBase = {
-              id: item.id,
-              type: item.type,
-              parent_id: item.parent_id,
-              level: item.level,
-              path: item.path,
-              created_at: new Date(item.created_at),
-              user_id: item.user_id,
-            };
-            result.push(processed);
-            if (item.children && item.children.length > 0) {
-              item.children.forEach((child) => processItem(child));
-            }
-            return processed;
+      // Fetch maintenance types
+      const maintenanceTypesRes = await fetch("/api/maintenance-type");
+      if (!maintenanceTypesRes.ok) {
+        throw new Error("Failed to fetch maintenance types");
+      }
+      const maintenanceTypesData = (await maintenanceTypesRes.json())
+        .data as MaintenanceTypeWithChildren[];
+
+      // Process data
+      const processedStages = stagesData.data.map((item) => ({
+        ...item,
+        created_at: new Date(item.created_at),
+        updated_at: item.updated_at ? new Date(item.updated_at) : undefined,
+      }));
+
+      const processedPlans = plansData.data.map((plan) => ({
+        ...plan,
+        created_at: new Date(plan.created_at),
+        updated_at: plan.updated_at ? new Date(plan.updated_at) : undefined,
+        stages: processedStages.filter(
+          (stage) => stage.maintenance_plan_id === plan.id
+        ),
+      }));
+
+      // Flatten maintenance types
+      const flattenMaintenanceTypes = (
+        items: MaintenanceTypeWithChildren[]
+      ): MaintenanceTypeBase[] => {
+        const result: MaintenanceTypeBase[] = [];
+        const processItem = (
+          item: MaintenanceTypeWithChildren
+        ): MaintenanceTypeBase => {
+          const processed: MaintenanceTypeBase = {
+            id: item.id,
+            type: item.type,
+            parent_id: item.parent_id,
+            level: item.level,
+            path: item.path,
+            created_at: new Date(item.created_at),
+            user_id: item.user_id,
           };
-          items.forEach((item) => processItem(item));
-          return result;
+          result.push(processed);
+          if (item.children && item.children.length > 0) {
+            item.children.forEach((child) => processItem(child));
+          }
+          return processed;
         };
+        items.forEach((item) => processItem(item));
+        return result;
+      };
 
-        const flatMaintenanceTypesData =
-          flattenMaintenanceTypes(maintenanceTypesData);
-
-        setPlans(processedPlans);
-        setAllStages(processedStages);
-        setFlatMaintenanceTypes(flatMaintenanceTypesData);
-        setMaintenanceTypes(maintenanceTypesData);
-        setNoise(null);
-      } catch (error) {
-        console.error("Error fetching data:", error);
-        setNoise({
-          type: "error",
-          styleType: "page",
-          message: "Error al cargar los datos.",
-        });
-      }
-    };
+      const flatMaintenanceTypesData =
+        flattenMaintenanceTypes(maintenanceTypesData);
 
-    fetchData();
+      setPlans(processedPlans);
+      setAllStages(processedStages);
+      setFlatMaintenanceTypes(flatMaintenanceTypesData);
+      setMaintenanceTypes(maintenanceTypesData);
+      setNoise(null);
+    } catch (error) {
+      console.error("Error fetching data:", error);
+      setNoise({
+        type: "error",
+        styleType: "page",
+        message: "Error al cargar los datos.",
+      });
+    }
   }, []);
 
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
   if (!session || !session.user?.id) {
     return null;
   }
@@ -572,6 +858,8 @@ export default function MaintenancePlanPage() {
           data.description && data.description !== ""
             ? data.description.trim()
             : "",
+        cycle_mode: data.cycle_mode,
+        cycle_restart_index: data.cycle_restart_index,
         created_at: new Date(newPlanData.created_at),
         stages: [],
       };
@@ -668,6 +956,154 @@ export default function MaintenancePlanPage() {
     }
   };
 
+  // Agregar un plan creado en el servidor (duplicado o desde plantilla)
+  const addCreatedPlan = (plan: MaintenancePlanWithStages) => {
+    const stages = plan.stages.map((stage) => ({
+      ...stage,
+      created_at: new Date(stage.created_at),
+      updated_at: stage.updated_at ? new Date(stage.updated_at) : undefined,
+    }));
+
+    setPlans((prev) => [
+      ...prev,
+      { ...plan, created_at: new Date(plan.created_at), stages },
+    ]);
+    setAllStages((prev) => [...prev, ...stages]);
+  };
+
+  const handleDuplicatePlan = async (plan: MaintenancePlanBase) => {
+    setNoise({
+      type: "loading",
+      styleType: "modal",
+      message: "Duplicando plan de mantenimiento...",
+    });
+
+    try {
+      const res = await fetch("/api/maintenance-plan/duplicate", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: plan.id }),
+      });
+
+      const body = await res.json();
+      if (!res.ok) {
+        throw new Error(body.message || "Failed to duplicate maintenance plan");
+      }
+
+      addCreatedPlan(body.data as MaintenancePlanWithStages);
+      setNoise(null);
+      toastVariables.success(body.message);
+    } catch (error) {
+      console.error("Error duplicating maintenance plan:", error);
+      toastVariables.error(
+        error instanceof Error
+          ? error.message
+          : "Error al duplicar el plan de mantenimiento."
+      );
+      setNoise(null);
+    }
+  };
+
+  const handleExportPlan = async (plan: MaintenancePlanBase) => {
+    try {
+      const res = await fetch(
+        `/api/maintenance-plan/export?plan_id=${plan.id}`
+      );
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.message || "Failed to export plan");
+      }
+
+      const blob = await res.blob();
+      const url = window.URL.createObjectURL(blob);
+      const anchor = document.createElement("a");
+      anchor.href = url;
+      anchor.download = `plan_${plan.name.replace(/[^\w-]+/g, "_")}.json`;
+      anchor.click();
+      window.URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Error exporting maintenance plan:", error);
+      toastVariables.error(
+        error instanceof Error ? error.message : "Error al exportar el plan."
+      );
+    }
+  };
+
+  const handleReorderStages = async (
+    plan: MaintenancePlanWithStages,
+    stageIds: string[]
+  ) => {
+    const applyOrder = (
+      order: { id: string; stage_index: number }[],
+      version?: number
+    ) => {
+      const indexes = new Map(
+        order.map((stage) => [stage.id, stage.stage_index])
+      );
+      const reindex = (stage: MaintenanceStageBase) =>
+        indexes.has(stage.id)
+          ? { ...stage, stage_index: indexes.get(stage.id) as number }
+          : stage;
+
+      setAllStages((prev) => prev.map(reindex));
+      setPlans((prev) =>
+        prev.map((p) =>
+          p.id === plan.id
+            ? {
+                ...p,
+                stages: p.stages.map(reindex),
+                current_version: version ?? p.current_version,
+              }
+            : p
+        )
+      );
+    };
+
+    // Aplicar el orden de inmediato y revertirlo si el servidor lo rechaza
+    const previousOrder = plan.stages.map((stage) => ({
+      id: stage.id,
+      stage_index: stage.stage_index,
+    }));
+    applyOrder(stageIds.map((id, i) => ({ id, stage_index: i + 1 })));
+
+    try {
+      const res = await fetch("/api/maintenance-stage/reorder", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          plan_id: plan.id,
+          stage_ids: stageIds,
+          expected_version: plan.current_version,
+        }),
+      });
+
+      const body = await res.json();
+      if (res.status === 409) {
+        toastVariables.error(body.message);
+        fetchData();
+        return;
+      }
+      if (!res.ok) {
+        throw new Error(body.message || "Failed to reorder stages");
+      }
+
+      const result = body.data as {
+        stages: { id: string; stage_index: number }[];
+        plan_version: number;
+      };
+      applyOrder(result.stages, result.plan_version);
+      toastVariables.success("Orden de etapas actualizado.");
+    } catch (error) {
+      console.error("Error reordering maintenance stages:", error);
+      applyOrder(previousOrder);
+      toastVariables.error(
+        error instanceof Error
+          ? error.message
+          : "Error al reordenar las etapas."
+      );
+    }
+  };
+
   const handleCreateStage = async (data: MaintenanceStageFormData) => {
     setNoise({
       type: "loading",
@@ -688,16 +1124,9 @@ export default function MaintenancePlanPage() {
           days: data.days * selectedUnitTimeType.days,
           stage_index: planStages.length + 1,
           user_id: session.user.id,
-          stages: planStages.map((stage) => ({
-            id: stage.id,
-            maintenance_type_id: stage.maintenance_type_id,
-            maintenance_plan_id: stage.maintenance_plan_id,
-            kilometers: stage.kilometers,
-            days: stage.days,
-            created_at: stage.created_at.toISOString(),
-            stage_index: stage.stage_index,
-            user_id: stage.user_id,
-          })),
+          expected_version: plans.find(
+            (plan) => plan.id === data.maintenance_plan_id
+          )?.current_version,
         }),
       });
 
@@ -711,6 +1140,7 @@ export default function MaintenancePlanPage() {
 
       const newStageData = (await res.json()).data as MaintenanceStageBase & {
         sorted_stages: string[];
+        plan_version?: number;
       };
       const newStage: MaintenanceStageBase = {
         id: newStageData.id,
@@ -720,6 +1150,7 @@ export default function MaintenancePlanPage() {
         maintenance_type_id: data.maintenance_type_id,
         kilometers: data.kilometers,
         days: data.days * selectedUnitTimeType.days,
+        hours: data.hours,
         created_at: new Date(newStageData.created_at),
       };
 
@@ -745,7 +1176,12 @@ export default function MaintenancePlanPage() {
       setPlans((prev) =>
         prev.map((plan) =>
           plan.id === data.maintenance_plan_id
-            ? { ...plan, stages: planStages }
+            ? {
+                ...plan,
+                stages: planStages,
+                current_version:
+                  newStageData.plan_version ?? plan.current_version,
+              }
             : plan
         )
       );
@@ -785,16 +1221,9 @@ export default function MaintenancePlanPage() {
         days: data.days * selectedUnitTimeType.days,
         id: editingStage.id,
         stage_index: editingStage.stage_index,
-        stages: planStages.map((stage) => ({
-          id: stage.id,
-          maintenance_type_id: stage.maintenance_type_id,
-          maintenance_plan_id: stage.maintenance_plan_id,
-          stage_index: stage.stage_index,
-          kilometers: stage.kilometers,
-          days: stage.days,
-          created_at: stage.created_at,
-          user_id: stage.user_id,
-        })),
+        expected_version: plans.find(
+          (plan) => plan.id === data.maintenance_plan_id
+        )?.current_version,
       };
       const res = await fetch("/api/maintenance-stage", {
         method: "PUT",
@@ -812,6 +1241,7 @@ export default function MaintenancePlanPage() {
       const updatedStageData = (await res.json())
         .data as MaintenanceStageBase & {
         sorted_stages: string[];
+        plan_version?: number;
       };
 
       const updatedStage: MaintenanceStageBase = {
@@ -822,6 +1252,7 @@ export default function MaintenancePlanPage() {
         maintenance_type_id: data.maintenance_type_id,
         kilometers: data.kilometers,
         days: data.days * selectedUnitTimeType.days,
+        hours: data.hours,
         created_at: new Date(editingStage.created_at),
       };
 
@@ -849,7 +1280,12 @@ export default function MaintenancePlanPage() {
       setPlans((prev) =>
         prev.map((plan) =>
           plan.id === data.maintenance_plan_id
-            ? { ...plan, stages: planStages }
+            ? {
+                ...plan,
+                stages: planStages,
+                current_version:
+                  updatedStageData.plan_version ?? plan.current_version,
+              }
             : plan
         )
       );
@@ -892,11 +1328,20 @@ export default function MaintenancePlanPage() {
         throw new Error("Failed to delete maintenance stage");
       }
 
+      const { plan_version } = (await res.json()).data as {
+        plan_version?: number;
+      };
+      const deletedStage = allStages.find((stage) => stage.id === id);
+
       setAllStages((prev) => prev.filter((stage) => stage.id !== id));
       setPlans((prev) =>
         prev.map((plan) => ({
           ...plan,
           stages: plan.stages.filter((stage) => stage.id !== id),
+          current_version:
+            plan.id === deletedStage?.maintenance_plan_id
+              ? plan_version ?? plan.current_version
+              : plan.current_version,
         }))
       );
 
@@ -912,7 +1357,7 @@ export default function MaintenancePlanPage() {
   // Modal handlers
   const openCreatePlanModal = () => {
     setEditingPlan(null);
-    planForm.reset({ name: "", description: "" });
+    planForm.reset({ name: "", description: "", cycle_mode: "terminate" });
     setIsPlanModalOpen(true);
   };
 
@@ -920,6 +1365,8 @@ export default function MaintenancePlanPage() {
     setEditingPlan(plan);
     planForm.setValue("name", plan.name);
     planForm.setValue("description", plan.description || "");
+    planForm.setValue("cycle_mode", plan.cycle_mode || "terminate");
+    planForm.setValue("cycle_restart_index", plan.cycle_restart_index);
     setIsPlanModalOpen(true);
   };
 
@@ -932,6 +1379,7 @@ export default function MaintenancePlanPage() {
       maintenance_plan_id: planId,
       kilometers: 0,
       days: 0,
+      hours: undefined,
     });
     setIsStageModalOpen(true);
   };
@@ -945,6 +1393,7 @@ export default function MaintenancePlanPage() {
     stageForm.setValue("maintenance_plan_id", stage.maintenance_plan_id);
     stageForm.setValue("kilometers", stage.kilometers);
     stageForm.setValue("days", dateInfo.daysInUnitType);
+    stageForm.setValue("hours", stage.hours);
     setIsStageModalOpen(true);
   };
 
@@ -998,6 +1447,14 @@ export default function MaintenancePlanPage() {
             Administra planes de mantenimiento y sus etapas correspondientes
           </p>
         </div> */}
+        <Button variant="outline" onClick={() => setIsImportModalOpen(true)}>
+          <Upload className="h-4 w-4 mr-2" />
+          Importar
+        </Button>
+        <Button variant="outline" onClick={() => setIsTemplatesModalOpen(true)}>
+          <LayoutTemplate className="h-4 w-4 mr-2" />
+          Desde Plantilla
+        </Button>
         <Button onClick={openCreatePlanModal}>
           <Plus className="h-4 w-4 mr-2" />
           Crear Plan
@@ -1025,13 +1482,86 @@ export default function MaintenancePlanPage() {
               onEditPlan={openEditPlanModal}
               onDeletePlan={(id) => setAskingDeletePlan(id)}
               onCreateStage={openCreateStageModal}
+              onShowVersions={setVersionsPlan}
+              onDuplicatePlan={handleDuplicatePlan}
+              onSaveTemplate={setTemplatePlan}
+              onExportPlan={handleExportPlan}
+              onReorderStages={handleReorderStages}
               onEditStage={openEditStageModal}
               onDeleteStage={(id) => setAskingDeleteStage(id)}
+              onStageChecklist={setChecklistStage}
+              onStageKit={setKitStage}
             />
           ))}
         </div>
       )}
 
+      {/* Plan Versions Modal */}
+      {versionsPlan && (
+        <MaintenancePlanVersionsModal
+          planId={versionsPlan.id}
+          planName={versionsPlan.name}
+          onClose={() => setVersionsPlan(null)}
+        />
+      )}
+
+      {/* Stage Activity Checklist Modal */}
+      {checklistStage && (
+        <ActivityChecklistModal
+          owner={{ maintenance_stage_id: checklistStage.id }}
+          maintenanceTypeId={checklistStage.maintenance_type_id}
+          title={`Etapa ${checklistStage.stage_index} - ${
+            flatMaintenanceTypes.find(
+              (mt) => mt.id === checklistStage.maintenance_type_id
+            )?.type || "Tipo no encontrado"
+          }`}
+          onClose={() => setChecklistStage(null)}
+        />
+      )}
+
+      {/* Stage Spare Part Kit Modal */}
+      {kitStage && (
+        <SparePartKitModal
+          owner={{ maintenance_stage_id: kitStage.id }}
+          title={`Etapa ${kitStage.stage_index} - ${
+            flatMaintenanceTypes.find(
+              (mt) => mt.id === kitStage.maintenance_type_id
+            )?.type || "Tipo no encontrado"
+          }`}
+          onClose={() => setKitStage(null)}
+        />
+      )}
+
+      {/* Save Plan Template Modal */}
+      {templatePlan && (
+        <SaveMaintenancePlanTemplateModal
+          plan={templatePlan}
+          onClose={() => setTemplatePlan(null)}
+        />
+      )}
+
+      {/* Plan Templates Modal */}
+      {isTemplatesModalOpen && (
+        <MaintenancePlanTemplatesModal
+          onClose={() => setIsTemplatesModalOpen(false)}
+          onCreated={(plan) => {
+            addCreatedPlan(plan);
+            setIsTemplatesModalOpen(false);
+          }}
+        />
+      )}
+
+      {/* Import Plan Modal */}
+      {isImportModalOpen && (
+        <MaintenancePlanImportModal
+          onClose={() => setIsImportModalOpen(false)}
+          onImported={() => {
+            setIsImportModalOpen(false);
+            fetchData();
+          }}
+        />
+      )}
+
       {/* Delete Plan Confirmation Modal */}
       {askingDeletePlan && (
         <Modal onClose={() => setAskingDeletePlan(undefined)}>
@@ -1153,6 +1683,62 @@ export default function MaintenancePlanPage() {
                 )}
               </div>
 
+              <div>
+                <Label htmlFor="cycle_mode">Después de la última etapa</Label>
+                <Controller
+                  name="cycle_mode"
+                  control={planForm.control}
+                  render={({ field }) => (
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <SelectTrigger id="cycle_mode">
+                        <SelectValue placeholder="Selecciona el comportamiento" />
+                      </SelectTrigger>
+                      <SelectContent className="z-[1000]">
+                        {cycleModes.map((mode) => (
+                          <SelectItem key={mode.value} value={mode.value}>
+                            {mode.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                />
+              </div>
+
+              {planForm.watch("cycle_mode") === "repeat_from" && (
+                <div>
+                  <Label htmlFor="cycle_restart_index">
+                    Repetir desde la etapa #
+                  </Label>
+                  <Controller
+                    name="cycle_restart_index"
+                    control={planForm.control}
+                    render={({ field }) => (
+                      <Input
+                        id="cycle_restart_index"
+                        type="number"
+                        min="1"
+                        step="1"
+                        placeholder="Número de etapa"
+                        value={field.value ?? ""}
+                        onChange={(e) =>
+                          field.onChange(
+                            e.target.value
+                              ? parseInt(e.target.value)
+                              : undefined
+                          )
+                        }
+                      />
+                    )}
+                  />
+                  {planForm.formState.errors.cycle_restart_index && (
+                    <p className="text-red-500 text-sm mt-1">
+                      {planForm.formState.errors.cycle_restart_index.message}
+                    </p>
+                  )}
+                </div>
+              )}
+
               <div className="flex gap-2 pt-4">
                 <Button
                   type="button"
@@ -1318,6 +1904,41 @@ export default function MaintenancePlanPage() {
                 )}
               </div>
 
+              <div>
+                <Label htmlFor="hours">
+                  Horas de Referencia
+                  <span className="text-gray-500 text-sm ml-2">
+                    (equipos con horómetro)
+                  </span>
+                </Label>
+                <Controller
+                  name="hours"
+                  control={stageForm.control}
+                  render={({ field }) => (
+                    <Input
+                      id="hours"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      placeholder="Sin intervalo por horas"
+                      value={field.value ?? ""}
+                      onChange={(e) =>
+                        field.onChange(
+                          e.target.value
+                            ? parseFloat(e.target.value)
+                            : undefined
+                        )
+                      }
+                    />
+                  )}
+                />
+                {stageForm.formState.errors.hours && (
+                  <p className="text-red-500 text-sm mt-1">
+                    {stageForm.formState.errors.hours.message}
+                  </p>
+                )}
+              </div>
+
               <div className="flex gap-2 pt-4">
                 <Button
                   type="button"
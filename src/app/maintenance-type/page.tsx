@@ -2,7 +2,13 @@
 
 import { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
-import { Plus, ChevronDown, ChevronRight } from "lucide-react";
+import {
+  Plus,
+  ChevronDown,
+  ChevronRight,
+  ListChecks,
+  Package,
+} from "lucide-react";
 import type { MaintenanceTypeFormData } from "@/lib/schemas";
 import type {
   MaintenanceTypeBase,
@@ -25,6 +31,8 @@ import {
 } from "@/components/ui/select";
 import { useSession } from "next-auth/react";
 import { toastVariables } from "@/components/ToastVariables";
+import { ActivityChecklistModal } from "@/components/ActivityChecklistModal";
+import { SparePartKitModal } from "@/components/SparePartKitModal";
 
 // Hierarchical tree component for displaying maintenance types
 interface TreeNodeProps {
@@ -32,6 +40,8 @@ interface TreeNodeProps {
   level: number;
   onEdit: (item: MaintenanceTypeBase) => void;
   onDelete: (id: string) => void;
+  onChecklist: (item: MaintenanceTypeBase) => void;
+  onKit: (item: MaintenanceTypeBase) => void;
   expandedNodes: Set<string>;
   onToggleExpand: (id: string) => void;
 }
@@ -41,6 +51,8 @@ const TreeNode: React.FC<TreeNodeProps> = ({
   level,
   onEdit,
   onDelete,
+  onChecklist,
+  onKit,
   expandedNodes,
   onToggleExpand,
 }) => {
@@ -94,6 +106,28 @@ const TreeNode: React.FC<TreeNodeProps> = ({
           className="flex gap-2 w-full sm:w-auto mt-2 sm:mt-0"
           onClick={(e) => e.stopPropagation()}
         >
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => {
+              onChecklist(node);
+            }}
+            className="w-full sm:w-auto"
+          >
+            <ListChecks className="h-4 w-4 mr-1" />
+            Actividades
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => {
+              onKit(node);
+            }}
+            className="w-full sm:w-auto"
+          >
+            <Package className="h-4 w-4 mr-1" />
+            Kit
+          </Button>
           <Button
             variant="outline"
             size="sm"
@@ -126,6 +160,8 @@ const TreeNode: React.FC<TreeNodeProps> = ({
               level={level + 1}
               onEdit={onEdit}
               onDelete={onDelete}
+              onChecklist={onChecklist}
+              onKit={onKit}
               expandedNodes={expandedNodes}
               onToggleExpand={onToggleExpand}
             />
@@ -181,6 +217,9 @@ export default function MaintenanceTypePage() {
     MaintenanceTypeBase[]
   >([]);
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [checklistType, setChecklistType] =
+    useState<MaintenanceTypeBase | null>(null);
+  const [kitType, setKitType] = useState<MaintenanceTypeBase | null>(null);
   const [editingItem, setEditingItem] = useState<MaintenanceTypeBase | null>(
     null
   );
@@ -519,6 +558,8 @@ export default function MaintenanceTypePage() {
             level={0}
             onEdit={openEditModal}
             onDelete={handleDelete}
+            onChecklist={setChecklistType}
+            onKit={setKitType}
             expandedNodes={expandedNodes}
             onToggleExpand={toggleExpanded}
           />
@@ -537,6 +578,23 @@ export default function MaintenanceTypePage() {
         </div>
       )}
 
+      {checklistType && (
+        <ActivityChecklistModal
+          owner={{ maintenance_type_id: checklistType.id }}
+          maintenanceTypeId={checklistType.id}
+          title={checklistType.type}
+          onClose={() => setChecklistType(null)}
+        />
+      )}
+
+      {kitType && (
+        <SparePartKitModal
+          owner={{ maintenance_type_id: kitType.id }}
+          title={kitType.type}
+          onClose={() => setKitType(null)}
+        />
+      )}
+
       {isModalOpen && (
         <Modal onClose={handleCancel}>
           <div className="p-4 sm:p-6 w-full max-w-xs sm:max-w-md mx-auto">
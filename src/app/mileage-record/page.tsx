@@ -3,10 +3,11 @@
 import { useCallback, useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { DataCard } from "@/components/DataCard";
-import { Plus } from "lucide-react";
+import { Plus, Upload } from "lucide-react";
 import type { MileageFormData } from "@/lib/schemas";
 import type {
   EquipmentWithPaginatedRecords,
+  MeterType,
   MultiEquipmentWithRecords,
 } from "@/types/equipment";
 import { mileageSchema } from "@/lib/schemas";
@@ -31,6 +32,7 @@ import { dateToLocalISOString, formatDate } from "@/lib/utils";
 import MileageRecordsDetailView from "@/components/MileageRecordDetailView";
 import { FETCH_SIZE } from "@/lib/const";
 import { PaginationComponent } from "@/components/Pagination";
+import { MileageImportModal } from "@/components/MileageImportModal";
 
 export default function MileageRecordPage() {
   const { data: session } = useSession();
@@ -42,6 +44,8 @@ export default function MileageRecordPage() {
     data: [],
   });
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [isImportModalOpen, setIsImportModalOpen] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
   const [editingItem, setEditingItem] = useState<MileageRecordBase | null>(
     null
   );
@@ -59,6 +63,7 @@ export default function MileageRecordPage() {
     handleSubmit,
     setValue,
     reset,
+    watch,
     formState: { errors },
   } = useForm<MileageFormData>({
     resolver: zodResolver(mileageSchema),
@@ -127,7 +132,7 @@ export default function MileageRecordPage() {
       }
     };
     fetchEquipment();
-  }, []);
+  }, [reloadKey]);
 
   // Función para cargar más datos cuando cambie de página
   const handlePageChange = useCallback(
@@ -227,7 +232,26 @@ export default function MileageRecordPage() {
     return null;
   }
 
+  const selectedMeterTypes: MeterType[] = equipment.data.find(
+    (item) => item.id === watch("equipment_id")
+  )?.meter_types || ["km"];
+
+  // Validar que se ingrese la lectura de cada medidor del equipo
+  const hasRequiredReadings = (data: MileageFormData): boolean => {
+    if (selectedMeterTypes.includes("km") && data.mileage === undefined) {
+      toastVariables.error("Ingresa el kilometraje del equipo.");
+      return false;
+    }
+    if (selectedMeterTypes.includes("hours") && data.hours === undefined) {
+      toastVariables.error("Ingresa las horas del horómetro del equipo.");
+      return false;
+    }
+    return true;
+  };
+
   const handleCreate = async (data: MileageFormData) => {
+    if (!hasRequiredReadings(data)) return;
+
     setNoise({
       type: "loading",
       styleType: "modal",
@@ -238,6 +262,7 @@ export default function MileageRecordPage() {
       equipment_id: data.equipment_id,
       record_date: dateToLocalISOString(data.record_date),
       kilometers: data.mileage,
+      hours: data.hours,
     });
     try {
       const res = await fetch("/api/mileage-record", {
@@ -248,7 +273,10 @@ export default function MileageRecordPage() {
         body: JSON.stringify({
           equipment_id: data.equipment_id,
           record_date: dateToLocalISOString(data.record_date),
-          kilometers: data.mileage,
+          kilometers: selectedMeterTypes.includes("km")
+            ? data.mileage
+            : undefined,
+          hours: selectedMeterTypes.includes("hours") ? data.hours : undefined,
         }),
       });
 
@@ -269,6 +297,7 @@ export default function MileageRecordPage() {
         id: newMileageRecordData.id,
         created_at: new Date(newMileageRecordData.created_at),
         kilometers: data.mileage,
+        hours: data.hours,
       };
 
       setEquipment((prev) => {
@@ -314,7 +343,7 @@ export default function MileageRecordPage() {
   };
 
   const handleUpdate = async (data: MileageFormData) => {
-    if (!editingItem) return;
+    if (!editingItem || !hasRequiredReadings(data)) return;
 
     setNoise({
       type: "loading",
@@ -331,7 +360,10 @@ export default function MileageRecordPage() {
         body: JSON.stringify({
           record_date: data.record_date,
           id: editingItem.id,
-          kilometers: data.mileage,
+          kilometers: selectedMeterTypes.includes("km")
+            ? data.mileage
+            : undefined,
+          hours: selectedMeterTypes.includes("hours") ? data.hours : undefined,
           equipment_id: data.equipment_id,
         }),
       });
@@ -392,6 +424,7 @@ export default function MileageRecordPage() {
     reset({
       equipment_id: "",
       mileage: 0,
+      hours: undefined,
       record_date: new Date(),
     });
     setIsModalOpen(true);
@@ -408,6 +441,7 @@ export default function MileageRecordPage() {
     setEditingItem(item);
     setValue("equipment_id", item.equipment_id);
     setValue("mileage", item.kilometers);
+    setValue("hours", item.hours);
     setValue("record_date", item.record_date);
     setIsModalOpen(true);
   };
@@ -432,8 +466,12 @@ export default function MileageRecordPage() {
   return (
     <div className="container mx-auto px-4 py-8">
       {noise && <Noise noise={noise} />}
-      <div className="flex items-center justify-end mb-8">
+      <div className="flex items-center justify-end gap-2 mb-8">
         {/* <h1 className="text-2xl font-bold">Gestión de Kilometraje</h1> */}
+        <Button variant="outline" onClick={() => setIsImportModalOpen(true)}>
+          <Upload className="h-4 w-4 mr-2" />
+          Importar
+        </Button>
         <Button onClick={openCreateModal}>
           <Plus className="h-4 w-4 mr-2" />
           Registrar Kilometraje
@@ -453,14 +491,29 @@ export default function MileageRecordPage() {
               subtitle={item.type}
               badges={[{ label: item.code, variant: "secondary" }]}
               fields={[
-                {
-                  label: "Último kilometraje",
-                  value: `${
-                    item.mileage_records?.data[0]?.kilometers === 0
-                      ? "0"
-                      : item.mileage_records?.data[0]?.kilometers
-                  } km`,
-                },
+                ...((item.meter_types || ["km"]).includes("km")
+                  ? [
+                      {
+                        label: "Último kilometraje",
+                        value: `${
+                          item.mileage_records?.data[0]?.kilometers === 0
+                            ? "0"
+                            : item.mileage_records?.data[0]?.kilometers ??
+                              "N/A"
+                        } km`,
+                      },
+                    ]
+                  : []),
+                ...(item.meter_types?.includes("hours")
+                  ? [
+                      {
+                        label: "Últimas horas",
+                        value: `${
+                          item.mileage_records?.data[0]?.hours ?? "N/A"
+                        } h`,
+                      },
+                    ]
+                  : []),
                 {
                   label: "Fecha",
                   value: item.mileage_records?.data[0]?.record_date
@@ -497,6 +550,12 @@ export default function MileageRecordPage() {
         </div>
       )}
 
+      <MileageImportModal
+        isOpen={isImportModalOpen}
+        onClose={() => setIsImportModalOpen(false)}
+        onImported={() => setReloadKey((key) => key + 1)}
+      />
+
       {isModalOpen && (
         <Modal onClose={handleCancel}>
           <div className="p-6">
@@ -537,30 +596,67 @@ export default function MileageRecordPage() {
                 )}
               </div>
 
-              <div>
-                <Label htmlFor="mileage_record_id">
-                  Registro de Kilometraje *
-                </Label>
-                <Controller
-                  name="mileage"
-                  control={control}
-                  render={({ field }) => (
-                    <Input
-                      type="number"
-                      placeholder="Ingresa el kilometraje..."
-                      value={field.value || ""}
-                      onChange={(e) =>
-                        field.onChange(parseFloat(e.target.value))
-                      }
-                    />
+              {selectedMeterTypes.includes("km") && (
+                <div>
+                  <Label htmlFor="mileage_record_id">
+                    Registro de Kilometraje *
+                  </Label>
+                  <Controller
+                    name="mileage"
+                    control={control}
+                    render={({ field }) => (
+                      <Input
+                        type="number"
+                        placeholder="Ingresa el kilometraje..."
+                        value={field.value || ""}
+                        onChange={(e) =>
+                          field.onChange(
+                            e.target.value
+                              ? parseFloat(e.target.value)
+                              : undefined
+                          )
+                        }
+                      />
+                    )}
+                  />
+                  {errors.mileage && (
+                    <p className="text-red-500 text-sm mt-1">
+                      {errors.mileage.message}
+                    </p>
                   )}
-                />
-                {errors.mileage && (
-                  <p className="text-red-500 text-sm mt-1">
-                    {errors.mileage.message}
-                  </p>
-                )}
-              </div>
+                </div>
+              )}
+
+              {selectedMeterTypes.includes("hours") && (
+                <div>
+                  <Label htmlFor="hours">Horas del Horómetro *</Label>
+                  <Controller
+                    name="hours"
+                    control={control}
+                    render={({ field }) => (
+                      <Input
+                        id="hours"
+                        type="number"
+                        step="0.1"
+                        placeholder="Ingresa las horas..."
+                        value={field.value ?? ""}
+                        onChange={(e) =>
+                          field.onChange(
+                            e.target.value
+                              ? parseFloat(e.target.value)
+                              : undefined
+                          )
+                        }
+                      />
+                    )}
+                  />
+                  {errors.hours && (
+                    <p className="text-red-500 text-sm mt-1">
+                      {errors.hours.message}
+                    </p>
+                  )}
+                </div>
+              )}
 
               <div>
                 <Label htmlFor="record_date">Fecha y Hora de Registro *</Label>
@@ -0,0 +1,331 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { PackageCheck, Pencil, Plus, Send, XCircle } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type {
+  PurchaseOrderBase,
+  PurchaseOrderStatus,
+} from "@/types/purchase-order";
+import type { SupplierBase } from "@/types/supplier";
+import type { WarehouseBase } from "@/types/warehouse";
+import { NoiseType } from "@/types/noise";
+import { Noise } from "@/components/Noise";
+import { useSession } from "next-auth/react";
+import { toastVariables } from "@/components/ToastVariables";
+import { PurchaseOrderModal } from "@/components/PurchaseOrderModal";
+import { ReceivePurchaseOrderModal } from "@/components/ReceivePurchaseOrderModal";
+import { formatDate } from "@/lib/utils";
+
+const STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  draft: "Borrador",
+  sent: "Enviada",
+  partially_received: "Recibida Parcialmente",
+  received: "Recibida",
+  cancelled: "Anulada",
+};
+
+const STATUS_COLORS: Record<PurchaseOrderStatus, string> = {
+  draft: "bg-gray-400 hover:bg-gray-500",
+  sent: "bg-blue-500 hover:bg-blue-600",
+  partially_received: "bg-yellow-500 hover:bg-yellow-600",
+  received: "bg-green-500 hover:bg-green-600",
+  cancelled: "bg-red-500 hover:bg-red-600",
+};
+
+const ALL_STATUSES = "all";
+
+export default function PurchaseOrdersPage() {
+  const { data: session } = useSession();
+  const [orders, setOrders] = useState<PurchaseOrderBase[]>([]);
+  const [suppliers, setSuppliers] = useState<SupplierBase[]>([]);
+  const [warehouses, setWarehouses] = useState<WarehouseBase[]>([]);
+  const [status, setStatus] = useState<string>(ALL_STATUSES);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingOrder, setEditingOrder] = useState<PurchaseOrderBase | null>(
+    null
+  );
+  const [receivingOrder, setReceivingOrder] =
+    useState<PurchaseOrderBase | null>(null);
+  const [noise, setNoise] = useState<NoiseType | null>({
+    type: "loading",
+    styleType: "page",
+    message: "Cargando órdenes de compra...",
+  });
+
+  const fetchOrders = useCallback(async () => {
+    try {
+      const query = status === ALL_STATUSES ? "" : `?status=${status}`;
+      const res = await fetch(`/api/purchase-orders${query}`);
+      if (!res.ok) {
+        throw new Error("Failed to fetch purchase orders");
+      }
+
+      setOrders((await res.json()).data.data as PurchaseOrderBase[]);
+      setNoise(null);
+    } catch (error) {
+      console.error("Error fetching purchase orders:", error);
+      setNoise({
+        type: "error",
+        styleType: "page",
+        message: "Error al cargar las órdenes de compra.",
+      });
+    }
+  }, [status]);
+
+  useEffect(() => {
+    fetchOrders();
+  }, [fetchOrders]);
+
+  useEffect(() => {
+    const fetchCatalogs = async () => {
+      try {
+        const [suppliersRes, warehousesRes] = await Promise.all([
+          fetch("/api/suppliers"),
+          fetch("/api/warehouses"),
+        ]);
+        if (!suppliersRes.ok || !warehousesRes.ok) {
+          throw new Error("Failed to fetch suppliers or warehouses");
+        }
+
+        setSuppliers((await suppliersRes.json()).data.data as SupplierBase[]);
+        setWarehouses(
+          (await warehousesRes.json()).data.data as WarehouseBase[]
+        );
+      } catch (error) {
+        console.error("Error fetching purchase order catalogs:", error);
+      }
+    };
+    fetchCatalogs();
+  }, []);
+
+  if (!session || !session.user?.id) {
+    return null;
+  }
+
+  const changeStatus = async (
+    order: PurchaseOrderBase,
+    newStatus: PurchaseOrderStatus
+  ) => {
+    setNoise({
+      type: "loading",
+      styleType: "modal",
+      message:
+        newStatus === "sent" ? "Enviando la orden..." : "Anulando la orden...",
+    });
+
+    try {
+      const res = await fetch("/api/purchase-orders/status", {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ id: order.id, status: newStatus }),
+      });
+      const body = await res.json();
+      if (!res.ok) {
+        throw new Error(body.message || "Error al cambiar el estado");
+      }
+
+      toastVariables.success(body.message);
+      await fetchOrders();
+    } catch (error) {
+      console.error("Error changing purchase order status:", error);
+      toastVariables.error(
+        error instanceof Error ? error.message : "Error al cambiar el estado."
+      );
+    } finally {
+      setNoise(null);
+    }
+  };
+
+  const openCreateModal = () => {
+    setEditingOrder(null);
+    setIsModalOpen(true);
+  };
+
+  const openEditModal = (order: PurchaseOrderBase) => {
+    setEditingOrder(order);
+    setIsModalOpen(true);
+  };
+
+  if (noise && noise.styleType === "page") {
+    return <Noise noise={noise} />;
+  }
+
+  return (
+    <div className="container mx-auto px-2 sm:px-4 py-6 sm:py-8 space-y-6">
+      {noise && <Noise noise={noise} />}
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-2">
+        <Select value={status} onValueChange={setStatus}>
+          <SelectTrigger className="w-full sm:w-60">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_STATUSES}>Todos los estados</SelectItem>
+            {(Object.keys(STATUS_LABELS) as PurchaseOrderStatus[]).map(
+              (value) => (
+                <SelectItem key={value} value={value}>
+                  {STATUS_LABELS[value]}
+                </SelectItem>
+              )
+            )}
+          </SelectContent>
+        </Select>
+        <Button
+          onClick={openCreateModal}
+          disabled={suppliers.length === 0}
+          className="w-full sm:w-auto"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Nueva Orden de Compra
+        </Button>
+      </div>
+
+      {orders.length === 0 ? (
+        <div className="text-center py-12">
+          <p className="text-gray-500 text-lg">No hay órdenes de compra.</p>
+          <p className="text-gray-400 text-sm mt-2">
+            {suppliers.length === 0
+              ? "Registra un proveedor para crear órdenes de compra"
+              : "Haz clic en \"Nueva Orden de Compra\" para crear la primera"}
+          </p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left text-gray-600">
+                <th className="py-2 pr-2">N°</th>
+                <th className="py-2 pr-2">Proveedor</th>
+                <th className="py-2 pr-2">Estado</th>
+                <th className="py-2 pr-2">Creada</th>
+                <th className="py-2 pr-2">Entrega Esperada</th>
+                <th className="py-2 pr-2">Repuestos</th>
+                <th className="py-2 pr-2 text-right">Total</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {orders.map((order) => (
+                <tr key={order.id} className="border-b align-top">
+                  <td className="py-2 pr-2 font-medium">{order.number}</td>
+                  <td className="py-2 pr-2">
+                    {order.supplier_name}
+                    {order.warehouse_name && (
+                      <span className="block text-xs text-gray-500">
+                        {order.warehouse_name}
+                      </span>
+                    )}
+                  </td>
+                  <td className="py-2 pr-2">
+                    <Badge className={STATUS_COLORS[order.status]}>
+                      {STATUS_LABELS[order.status]}
+                    </Badge>
+                  </td>
+                  <td className="py-2 pr-2 whitespace-nowrap">
+                    {formatDate(new Date(order.created_at))}
+                  </td>
+                  <td className="py-2 pr-2 whitespace-nowrap">
+                    {order.expected_date
+                      ? formatDate(new Date(order.expected_date))
+                      : ""}
+                  </td>
+                  <td className="py-2 pr-2">
+                    {order.lines
+                      .map(
+                        (line) =>
+                          `${line.spare_part?.name || line.spare_part_id} ${
+                            line.received_quantity
+                          }/${line.quantity}`
+                      )
+                      .join(", ")}
+                  </td>
+                  <td className="py-2 pr-2 text-right whitespace-nowrap">
+                    S/.{order.total.toFixed(2)}
+                  </td>
+                  <td className="py-2">
+                    <div className="flex justify-end gap-1">
+                      {order.status === "draft" && (
+                        <>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Editar"
+                            onClick={() => openEditModal(order)}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Enviar"
+                            onClick={() => changeStatus(order, "sent")}
+                          >
+                            <Send className="h-4 w-4" />
+                          </Button>
+                        </>
+                      )}
+                      {(order.status === "sent" ||
+                        order.status === "partially_received") && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title="Recibir"
+                          onClick={() => setReceivingOrder(order)}
+                        >
+                          <PackageCheck className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {order.status !== "received" &&
+                        order.status !== "cancelled" && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Anular"
+                            onClick={() => changeStatus(order, "cancelled")}
+                          >
+                            <XCircle className="h-4 w-4 text-red-500" />
+                          </Button>
+                        )}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {isModalOpen && (
+        <PurchaseOrderModal
+          order={editingOrder}
+          suppliers={suppliers}
+          warehouses={warehouses}
+          onClose={() => {
+            setIsModalOpen(false);
+            setEditingOrder(null);
+          }}
+          onSaved={fetchOrders}
+        />
+      )}
+
+      {receivingOrder && (
+        <ReceivePurchaseOrderModal
+          order={receivingOrder}
+          warehouses={warehouses}
+          onClose={() => setReceivingOrder(null)}
+          onReceived={fetchOrders}
+        />
+      )}
+    </div>
+  );
+}
@@ -1,11 +1,19 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { DataCard } from "@/components/DataCard";
-import { Plus } from "lucide-react";
+import {
+  ArrowLeftRight,
+  LineChart,
+  PackageSearch,
+  Plus,
+  ShoppingCart,
+} from "lucide-react";
 import type { SparePartFormData } from "@/lib/schemas";
 import type { MultiSparePart, SparePartBase } from "@/types/spare-part";
+import type { MultiSparePartStock, SparePartStock } from "@/types/inventory";
+import type { MultiEquipment } from "@/types/equipment";
 import { sparePartSchema } from "@/lib/schemas";
 import { Modal } from "@/components/Modal";
 import { Controller, useForm } from "react-hook-form";
@@ -17,12 +25,29 @@ import { Input } from "@/components/ui/input";
 import { useSession } from "next-auth/react";
 import { toastVariables } from "@/components/ToastVariables";
 import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { SparePartDemandModal } from "@/components/SparePartDemandModal";
+import { PurchaseSuggestionsModal } from "@/components/PurchaseSuggestionsModal";
+import { StockMovementsModal } from "@/components/StockMovementsModal";
+import { SparePartPriceTrendModal } from "@/components/SparePartPriceTrendModal";
+import { SparePartSubstitutesModal } from "@/components/SparePartSubstitutesModal";
 
 export default function SparePartsPage() {
   const { data: session } = useSession();
   const [spareParts, setSpareParts] = useState<SparePartBase[]>([]);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingItem, setEditingItem] = useState<SparePartBase | null>(null);
+  const [isDemandModalOpen, setIsDemandModalOpen] = useState(false);
+  const [isPurchaseModalOpen, setIsPurchaseModalOpen] = useState(false);
+  const [isPriceTrendModalOpen, setIsPriceTrendModalOpen] = useState(false);
+  const [isSubstitutesModalOpen, setIsSubstitutesModalOpen] = useState(false);
+  const [stockLevels, setStockLevels] = useState<
+    Record<string, SparePartStock>
+  >({});
+  const [equipmentTypes, setEquipmentTypes] = useState<string[]>([]);
+  const [stockSparePart, setStockSparePart] = useState<SparePartBase | null>(
+    null
+  );
   const [noise, setNoise] = useState<NoiseType | null>({
     type: "loading",
     styleType: "page",
@@ -43,6 +68,8 @@ export default function SparePartsPage() {
       description: "",
       price: 0,
       image_url: "",
+      compatible_equipment_types: [],
+      discontinued: false,
     },
   });
 
@@ -85,6 +112,49 @@ export default function SparePartsPage() {
     fetchSpareParts();
   }, []);
 
+  const fetchStockLevels = useCallback(async () => {
+    try {
+      const res = await fetch("/api/inventory?limit=1000");
+      if (!res.ok) {
+        throw new Error("Failed to fetch stock levels");
+      }
+
+      const data = (await res.json()).data as MultiSparePartStock;
+      setStockLevels(
+        Object.fromEntries(
+          data.data.map((stock) => [stock.spare_part_id, stock])
+        )
+      );
+    } catch (error) {
+      console.error("Error fetching stock levels:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchStockLevels();
+  }, [fetchStockLevels]);
+
+  // Tipos de equipo de la flota para declarar la compatibilidad
+  useEffect(() => {
+    const fetchEquipmentTypes = async () => {
+      try {
+        const res = await fetch("/api/equipments?limit=0");
+        if (!res.ok) {
+          throw new Error("Failed to fetch equipment");
+        }
+
+        const data = (await res.json()).data as MultiEquipment;
+        setEquipmentTypes(
+          Array.from(new Set(data.data.map((item) => item.type))).sort()
+        );
+      } catch (error) {
+        console.error("Error fetching equipment types:", error);
+      }
+    };
+
+    fetchEquipmentTypes();
+  }, []);
+
   if (!session || !session.user?.id) {
     return null;
   }
@@ -233,6 +303,11 @@ export default function SparePartsPage() {
     if (item.image_url) {
       setValue("image_url", item.image_url);
     }
+    setValue(
+      "compatible_equipment_types",
+      item.compatible_equipment_types || []
+    );
+    setValue("discontinued", item.discontinued ?? false);
 
     setIsModalOpen(true);
   };
@@ -255,11 +330,47 @@ export default function SparePartsPage() {
       {noise && <Noise noise={noise} />}
       <div className="flex flex-col sm:flex-row items-start sm:items-center justify-end mb-6 sm:mb-8 gap-4 sm:gap-0">
         {/* <h1 className="text-2xl font-bold">Gestión de Repuestos</h1> */}
-        <Button onClick={openCreateModal} className="w-full sm:w-auto">
-          <Plus className="h-4 w-4 mr-2" />
-          <span className="hidden xs:inline">Crear Repuesto</span>
-          <span className="inline xs:hidden">Crear</span>
-        </Button>
+        <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto">
+          <Button
+            variant="outline"
+            onClick={() => setIsDemandModalOpen(true)}
+            className="w-full sm:w-auto"
+          >
+            <PackageSearch className="h-4 w-4 mr-2" />
+            Demanda de Repuestos
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => setIsPurchaseModalOpen(true)}
+            className="w-full sm:w-auto"
+          >
+            <ShoppingCart className="h-4 w-4 mr-2" />
+            Sugerencias de Compra
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => setIsPriceTrendModalOpen(true)}
+            disabled={spareParts.length === 0}
+            className="w-full sm:w-auto"
+          >
+            <LineChart className="h-4 w-4 mr-2" />
+            Tendencia de Precios
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => setIsSubstitutesModalOpen(true)}
+            disabled={spareParts.length === 0}
+            className="w-full sm:w-auto"
+          >
+            <ArrowLeftRight className="h-4 w-4 mr-2" />
+            Equivalencias
+          </Button>
+          <Button onClick={openCreateModal} className="w-full sm:w-auto">
+            <Plus className="h-4 w-4 mr-2" />
+            <span className="hidden xs:inline">Crear Repuesto</span>
+            <span className="inline xs:hidden">Crear</span>
+          </Button>
+        </div>
       </div>
 
       {spareParts.length === 0 && (
@@ -280,6 +391,18 @@ export default function SparePartsPage() {
             subtitle={item.factory_code}
             badges={[
               { label: `S/.${item.price.toFixed(2)}`, variant: "secondary" },
+              {
+                label: `Stock: ${stockLevels[item.id]?.on_hand ?? 0}`,
+                variant:
+                  (stockLevels[item.id]?.on_hand ?? 0) > 0 &&
+                  (stockLevels[item.id]?.on_hand ?? 0) >=
+                    (stockLevels[item.id]?.min_stock ?? 0)
+                    ? "outline"
+                    : "destructive",
+              },
+              ...(item.discontinued
+                ? [{ label: "Descontinuado", variant: "destructive" as const }]
+                : []),
               /* ...(item.image_url
                 ? [{ label: "Has Image", variant: "outline" as const }]
                 : []), */
@@ -288,6 +411,37 @@ export default function SparePartsPage() {
               { label: "Código de Fab.", value: item.factory_code },
               { label: "Precio", value: `S/.${item.price.toFixed(2)}` },
               { label: "Descripción", value: item.description },
+              {
+                label: "Compatible con",
+                value: item.compatible_equipment_types?.length
+                  ? item.compatible_equipment_types.join(", ")
+                  : "Todos los equipos",
+              },
+              {
+                label: "Último Costo",
+                value:
+                  item.last_purchase_cost !== undefined
+                    ? `S/.${item.last_purchase_cost.toFixed(2)}`
+                    : undefined,
+              },
+              {
+                label: "Stock Mínimo",
+                value: stockLevels[item.id]?.min_stock
+                  ? `${stockLevels[item.id].min_stock} (lote ${
+                      stockLevels[item.id].reorder_quantity
+                    })`
+                  : undefined,
+              },
+              {
+                label: "Ubicaciones",
+                value: stockLevels[item.id]?.locations
+                  .filter((location) => location.on_hand !== 0)
+                  .map(
+                    (location) =>
+                      `${location.warehouse_name}: ${location.on_hand}`
+                  )
+                  .join(" · "),
+              },
             ]}
             onEdit={() => {
               openEditModal(item);
@@ -295,10 +449,47 @@ export default function SparePartsPage() {
             onDelete={() => {
               handleDelete(item.id);
             }}
+            onDetails={() => {
+              setStockSparePart(item);
+            }}
           />
         ))}
       </div>
 
+      {stockSparePart && (
+        <StockMovementsModal
+          sparePart={stockSparePart}
+          onClose={() => {
+            setStockSparePart(null);
+            fetchStockLevels();
+          }}
+        />
+      )}
+
+      {isDemandModalOpen && (
+        <SparePartDemandModal onClose={() => setIsDemandModalOpen(false)} />
+      )}
+
+      {isPurchaseModalOpen && (
+        <PurchaseSuggestionsModal
+          onClose={() => setIsPurchaseModalOpen(false)}
+        />
+      )}
+
+      {isPriceTrendModalOpen && (
+        <SparePartPriceTrendModal
+          spareParts={spareParts}
+          onClose={() => setIsPriceTrendModalOpen(false)}
+        />
+      )}
+
+      {isSubstitutesModalOpen && (
+        <SparePartSubstitutesModal
+          spareParts={spareParts}
+          onClose={() => setIsSubstitutesModalOpen(false)}
+        />
+      )}
+
       {isModalOpen && (
         <Modal onClose={handleCancel}>
           <div className="p-4 sm:p-6 max-h-[90vh] w-full sm:max-w-[75vw] max-w-[95vw] overflow-y-auto">
@@ -407,6 +598,61 @@ export default function SparePartsPage() {
                   </p>
                 )}
               </div>
+              <div className="mb-3 sm:mb-4 w-full">
+                <Label className="block mb-1">Tipos de Equipo Compatibles</Label>
+                <p className="text-gray-500 text-xs mb-2">
+                  Sin selección el repuesto se ofrece para todos los equipos
+                </p>
+                <Controller
+                  name="compatible_equipment_types"
+                  control={control}
+                  render={({ field }) => (
+                    <div className="flex flex-wrap gap-4">
+                      {Array.from(
+                        new Set([...equipmentTypes, ...(field.value || [])])
+                      ).map((equipmentType) => (
+                        <label
+                          key={equipmentType}
+                          className="flex items-center gap-2 text-sm"
+                        >
+                          <Checkbox
+                            checked={field.value?.includes(equipmentType)}
+                            onCheckedChange={(checked) =>
+                              field.onChange(
+                                checked
+                                  ? [...(field.value || []), equipmentType]
+                                  : (field.value || []).filter(
+                                      (value) => value !== equipmentType
+                                    )
+                              )
+                            }
+                          />
+                          {equipmentType}
+                        </label>
+                      ))}
+                    </div>
+                  )}
+                />
+              </div>
+              {editingItem && (
+                <div className="mb-3 sm:mb-4 w-full">
+                  <Controller
+                    name="discontinued"
+                    control={control}
+                    render={({ field }) => (
+                      <label className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={field.value ?? false}
+                          onCheckedChange={(checked) =>
+                            field.onChange(checked === true)
+                          }
+                        />
+                        Descontinuado (se proponen sus equivalentes)
+                      </label>
+                    )}
+                  />
+                </div>
+              )}
               {/* <div className="mb-3 sm:mb-4 w-full">
                 <Label htmlFor="image_url" className="block mb-1">
                   URL de Imagen
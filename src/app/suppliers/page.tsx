@@ -0,0 +1,320 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { DataCard } from "@/components/DataCard";
+import { Plus } from "lucide-react";
+import type { SupplierFormData } from "@/lib/schemas";
+import { supplierSchema } from "@/lib/schemas";
+import type { MultiSupplier, SupplierBase } from "@/types/supplier";
+import { Modal } from "@/components/Modal";
+import { Controller, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { NoiseType } from "@/types/noise";
+import { Noise } from "@/components/Noise";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { useSession } from "next-auth/react";
+import { toastVariables } from "@/components/ToastVariables";
+import { SupplierPricesModal } from "@/components/SupplierPricesModal";
+
+const emptySupplier: SupplierFormData = {
+  name: "",
+  tax_id: "",
+  contact_name: "",
+  phone: "",
+  email: "",
+  address: "",
+};
+
+export default function SuppliersPage() {
+  const { data: session } = useSession();
+  const [suppliers, setSuppliers] = useState<SupplierBase[]>([]);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingItem, setEditingItem] = useState<SupplierBase | null>(null);
+  const [pricesSupplier, setPricesSupplier] = useState<SupplierBase | null>(
+    null
+  );
+  const [noise, setNoise] = useState<NoiseType | null>({
+    type: "loading",
+    styleType: "page",
+    message: "Cargando proveedores...",
+  });
+
+  const {
+    control,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<SupplierFormData>({
+    resolver: zodResolver(supplierSchema),
+    defaultValues: emptySupplier,
+  });
+
+  const fetchSuppliers = useCallback(async () => {
+    try {
+      const res = await fetch("/api/suppliers");
+      if (!res.ok) {
+        throw new Error("Failed to fetch suppliers");
+      }
+
+      const data = (await res.json()).data as MultiSupplier;
+      setSuppliers(data.data);
+      setNoise(null);
+    } catch (error) {
+      console.error("Error fetching suppliers:", error);
+      setNoise({
+        type: "error",
+        styleType: "page",
+        message: "Error al cargar los proveedores.",
+      });
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSuppliers();
+  }, [fetchSuppliers]);
+
+  if (!session || !session.user?.id) {
+    return null;
+  }
+
+  const onSubmit = async (data: SupplierFormData) => {
+    setNoise({
+      type: "loading",
+      styleType: "modal",
+      message: editingItem
+        ? "Actualizando el proveedor..."
+        : "Creando el proveedor...",
+    });
+
+    try {
+      const res = await fetch("/api/suppliers", {
+        method: editingItem ? "PUT" : "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(
+          editingItem ? { ...data, id: editingItem.id } : data
+        ),
+      });
+      const body = await res.json();
+      if (!res.ok) {
+        throw new Error(body.message || "Error al guardar el proveedor");
+      }
+
+      toastVariables.success(body.message);
+      setIsModalOpen(false);
+      setEditingItem(null);
+      reset(emptySupplier);
+      await fetchSuppliers();
+    } catch (error) {
+      console.error("Error saving supplier:", error);
+      toastVariables.error(
+        error instanceof Error
+          ? error.message
+          : "Error al guardar el proveedor."
+      );
+    } finally {
+      setNoise(null);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    setNoise({
+      type: "loading",
+      styleType: "modal",
+      message: "Eliminando el proveedor...",
+    });
+
+    try {
+      const res = await fetch("/api/suppliers", {
+        method: "DELETE",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ id }),
+      });
+      const body = await res.json();
+      if (!res.ok) {
+        throw new Error(body.message || "Error al eliminar el proveedor");
+      }
+
+      setSuppliers((prev) => prev.filter((item) => item.id !== id));
+      toastVariables.success(body.message);
+    } catch (error) {
+      console.error("Error deleting supplier:", error);
+      toastVariables.error(
+        error instanceof Error
+          ? error.message
+          : "Error al eliminar el proveedor."
+      );
+    } finally {
+      setNoise(null);
+    }
+  };
+
+  const openCreateModal = () => {
+    setEditingItem(null);
+    reset(emptySupplier);
+    setIsModalOpen(true);
+  };
+
+  const openEditModal = (item: SupplierBase) => {
+    setEditingItem(item);
+    reset({
+      name: item.name,
+      tax_id: item.tax_id || "",
+      contact_name: item.contact_name || "",
+      phone: item.phone || "",
+      email: item.email || "",
+      address: item.address || "",
+    });
+    setIsModalOpen(true);
+  };
+
+  const handleCancel = () => {
+    setIsModalOpen(false);
+    setEditingItem(null);
+    reset(emptySupplier);
+  };
+
+  if (noise && noise.styleType === "page") {
+    return <Noise noise={noise} />;
+  }
+
+  const textFields: {
+    name: Exclude<keyof SupplierFormData, "name">;
+    label: string;
+    type?: string;
+  }[] = [
+    { name: "tax_id", label: "RUC" },
+    { name: "contact_name", label: "Contacto" },
+    { name: "phone", label: "Teléfono" },
+    { name: "email", label: "Correo", type: "email" },
+    { name: "address", label: "Dirección" },
+  ];
+
+  return (
+    <div className="container mx-auto px-2 sm:px-4 py-6 sm:py-8">
+      {noise && <Noise noise={noise} />}
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-end mb-6 sm:mb-8 gap-2">
+        <Button onClick={openCreateModal} className="w-full sm:w-auto">
+          <Plus className="h-4 w-4 mr-2" />
+          Crear Proveedor
+        </Button>
+      </div>
+
+      {suppliers.length === 0 && (
+        <div className="text-center py-12">
+          <p className="text-gray-500 text-lg">No hay proveedores.</p>
+          <p className="text-gray-400 text-sm mt-2">
+            Haz clic en &quot;Crear Proveedor&quot; para registrar tu primer
+            proveedor
+          </p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4 sm:gap-6">
+        {suppliers.map((item) => (
+          <DataCard
+            key={item.id}
+            title={item.name}
+            subtitle={item.tax_id}
+            badges={[]}
+            fields={[
+              { label: "Contacto", value: item.contact_name },
+              { label: "Teléfono", value: item.phone },
+              { label: "Correo", value: item.email },
+              { label: "Dirección", value: item.address },
+            ]}
+            onEdit={() => {
+              openEditModal(item);
+            }}
+            onDelete={() => {
+              handleDelete(item.id);
+            }}
+            onDetails={() => {
+              setPricesSupplier(item);
+            }}
+          />
+        ))}
+      </div>
+
+      {pricesSupplier && (
+        <SupplierPricesModal
+          supplier={pricesSupplier}
+          onClose={() => setPricesSupplier(null)}
+        />
+      )}
+
+      {isModalOpen && (
+        <Modal onClose={handleCancel}>
+          <div className="p-4 sm:p-6 w-full max-w-xs sm:max-w-md mx-auto">
+            <h2 className="text-lg sm:text-xl font-semibold mb-4">
+              {editingItem ? "Editar Proveedor" : "Crear Proveedor"}
+            </h2>
+            <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+              <div>
+                <Label htmlFor="name" className="block mb-1">
+                  Nombre
+                </Label>
+                <Controller
+                  name="name"
+                  control={control}
+                  render={({ field }) => (
+                    <Input
+                      id="name"
+                      placeholder="Repuestos del Sur S.A.C."
+                      className="w-full"
+                      {...field}
+                    />
+                  )}
+                />
+                {errors.name && (
+                  <p className="text-red-500 text-xs sm:text-sm mt-1">
+                    {errors.name.message}
+                  </p>
+                )}
+              </div>
+
+              {textFields.map((textField) => (
+                <div key={textField.name}>
+                  <Label htmlFor={textField.name} className="block mb-1">
+                    {textField.label}
+                  </Label>
+                  <Controller
+                    name={textField.name}
+                    control={control}
+                    render={({ field }) => (
+                      <Input
+                        id={textField.name}
+                        type={textField.type || "text"}
+                        className="w-full"
+                        {...field}
+                      />
+                    )}
+                  />
+                  {errors[textField.name] && (
+                    <p className="text-red-500 text-xs sm:text-sm mt-1">
+                      {errors[textField.name]?.message}
+                    </p>
+                  )}
+                </div>
+              ))}
+
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="outline" onClick={handleCancel}>
+                  Cancelar
+                </Button>
+                <Button type="submit">
+                  {editingItem ? "Actualizar" : "Crear"}
+                </Button>
+              </div>
+            </form>
+          </div>
+        </Modal>
+      )}
+    </div>
+  );
+}
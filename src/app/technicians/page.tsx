@@ -0,0 +1,346 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { DataCard } from "@/components/DataCard";
+import { Plus } from "lucide-react";
+import type { TechnicianFormData } from "@/lib/schemas";
+import { technicianSchema } from "@/lib/schemas";
+import type { MultiTechnician, TechnicianBase } from "@/types/technician";
+import { Modal } from "@/components/Modal";
+import { Controller, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { NoiseType } from "@/types/noise";
+import { Noise } from "@/components/Noise";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useSession } from "next-auth/react";
+import { toastVariables } from "@/components/ToastVariables";
+
+const emptyTechnician: TechnicianFormData = {
+  name: "",
+  hourly_rate: 0,
+  specialty: "",
+  phone: "",
+  active: true,
+};
+
+export default function TechniciansPage() {
+  const { data: session } = useSession();
+  const [technicians, setTechnicians] = useState<TechnicianBase[]>([]);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingItem, setEditingItem] = useState<TechnicianBase | null>(null);
+  const [noise, setNoise] = useState<NoiseType | null>({
+    type: "loading",
+    styleType: "page",
+    message: "Cargando técnicos...",
+  });
+
+  const {
+    control,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<TechnicianFormData>({
+    resolver: zodResolver(technicianSchema),
+    defaultValues: emptyTechnician,
+  });
+
+  const fetchTechnicians = useCallback(async () => {
+    try {
+      const res = await fetch("/api/technicians");
+      if (!res.ok) {
+        throw new Error("Failed to fetch technicians");
+      }
+
+      const data = (await res.json()).data as MultiTechnician;
+      setTechnicians(data.data);
+      setNoise(null);
+    } catch (error) {
+      console.error("Error fetching technicians:", error);
+      setNoise({
+        type: "error",
+        styleType: "page",
+        message: "Error al cargar los técnicos.",
+      });
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTechnicians();
+  }, [fetchTechnicians]);
+
+  if (!session || !session.user?.id) {
+    return null;
+  }
+
+  const onSubmit = async (data: TechnicianFormData) => {
+    setNoise({
+      type: "loading",
+      styleType: "modal",
+      message: editingItem
+        ? "Actualizando el técnico..."
+        : "Creando el técnico...",
+    });
+
+    try {
+      const res = await fetch("/api/technicians", {
+        method: editingItem ? "PUT" : "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(
+          editingItem ? { ...data, id: editingItem.id } : data
+        ),
+      });
+      const body = await res.json();
+      if (!res.ok) {
+        throw new Error(body.message || "Error al guardar el técnico");
+      }
+
+      toastVariables.success(body.message);
+      setIsModalOpen(false);
+      setEditingItem(null);
+      reset(emptyTechnician);
+      await fetchTechnicians();
+    } catch (error) {
+      console.error("Error saving technician:", error);
+      toastVariables.error(
+        error instanceof Error ? error.message : "Error al guardar el técnico."
+      );
+    } finally {
+      setNoise(null);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    setNoise({
+      type: "loading",
+      styleType: "modal",
+      message: "Eliminando el técnico...",
+    });
+
+    try {
+      const res = await fetch("/api/technicians", {
+        method: "DELETE",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ id }),
+      });
+      const body = await res.json();
+      if (!res.ok) {
+        throw new Error(body.message || "Error al eliminar el técnico");
+      }
+
+      setTechnicians((prev) => prev.filter((item) => item.id !== id));
+      toastVariables.success(body.message);
+    } catch (error) {
+      console.error("Error deleting technician:", error);
+      toastVariables.error(
+        error instanceof Error
+          ? error.message
+          : "Error al eliminar el técnico."
+      );
+    } finally {
+      setNoise(null);
+    }
+  };
+
+  const openCreateModal = () => {
+    setEditingItem(null);
+    reset(emptyTechnician);
+    setIsModalOpen(true);
+  };
+
+  const openEditModal = (item: TechnicianBase) => {
+    setEditingItem(item);
+    reset({
+      name: item.name,
+      hourly_rate: item.hourly_rate,
+      specialty: item.specialty || "",
+      phone: item.phone || "",
+      active: item.active,
+    });
+    setIsModalOpen(true);
+  };
+
+  const handleCancel = () => {
+    setIsModalOpen(false);
+    setEditingItem(null);
+    reset(emptyTechnician);
+  };
+
+  if (noise && noise.styleType === "page") {
+    return <Noise noise={noise} />;
+  }
+
+  return (
+    <div className="container mx-auto px-2 sm:px-4 py-6 sm:py-8">
+      {noise && <Noise noise={noise} />}
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-end mb-6 sm:mb-8 gap-2">
+        <Button onClick={openCreateModal} className="w-full sm:w-auto">
+          <Plus className="h-4 w-4 mr-2" />
+          Crear Técnico
+        </Button>
+      </div>
+
+      {technicians.length === 0 && (
+        <div className="text-center py-12">
+          <p className="text-gray-500 text-lg">No hay técnicos.</p>
+          <p className="text-gray-400 text-sm mt-2">
+            Haz clic en &quot;Crear Técnico&quot; para registrar tu primer
+            técnico
+          </p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4 sm:gap-6">
+        {technicians.map((item) => (
+          <DataCard
+            key={item.id}
+            title={item.name}
+            subtitle={item.specialty}
+            badges={[
+              {
+                label: `S/.${item.hourly_rate.toFixed(2)} / h`,
+                variant: "secondary",
+              },
+              ...(item.active
+                ? []
+                : [{ label: "Inactivo", variant: "destructive" as const }]),
+            ]}
+            fields={[
+              { label: "Especialidad", value: item.specialty },
+              { label: "Teléfono", value: item.phone },
+            ]}
+            onEdit={() => {
+              openEditModal(item);
+            }}
+            onDelete={() => {
+              handleDelete(item.id);
+            }}
+          />
+        ))}
+      </div>
+
+      {isModalOpen && (
+        <Modal onClose={handleCancel}>
+          <div className="p-4 sm:p-6 w-full max-w-xs sm:max-w-md mx-auto">
+            <h2 className="text-lg sm:text-xl font-semibold mb-4">
+              {editingItem ? "Editar Técnico" : "Crear Técnico"}
+            </h2>
+            <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+              <div>
+                <Label htmlFor="name" className="block mb-1">
+                  Nombre
+                </Label>
+                <Controller
+                  name="name"
+                  control={control}
+                  render={({ field }) => (
+                    <Input
+                      id="name"
+                      placeholder="Juan Pérez"
+                      className="w-full"
+                      {...field}
+                    />
+                  )}
+                />
+                {errors.name && (
+                  <p className="text-red-500 text-xs sm:text-sm mt-1">
+                    {errors.name.message}
+                  </p>
+                )}
+              </div>
+
+              <div>
+                <Label htmlFor="hourly_rate" className="block mb-1">
+                  Tarifa por hora
+                </Label>
+                <Controller
+                  name="hourly_rate"
+                  control={control}
+                  render={({ field }) => (
+                    <Input
+                      id="hourly_rate"
+                      type="number"
+                      step="0.01"
+                      min={0}
+                      className="w-full"
+                      value={field.value}
+                      onChange={(e) => {
+                        const value = parseFloat(e.target.value);
+                        field.onChange(isNaN(value) ? 0 : value);
+                      }}
+                    />
+                  )}
+                />
+                {errors.hourly_rate && (
+                  <p className="text-red-500 text-xs sm:text-sm mt-1">
+                    {errors.hourly_rate.message}
+                  </p>
+                )}
+              </div>
+
+              <div>
+                <Label htmlFor="specialty" className="block mb-1">
+                  Especialidad
+                </Label>
+                <Controller
+                  name="specialty"
+                  control={control}
+                  render={({ field }) => (
+                    <Input
+                      id="specialty"
+                      placeholder="Mecánico, electricista..."
+                      className="w-full"
+                      {...field}
+                    />
+                  )}
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="phone" className="block mb-1">
+                  Teléfono
+                </Label>
+                <Controller
+                  name="phone"
+                  control={control}
+                  render={({ field }) => (
+                    <Input id="phone" className="w-full" {...field} />
+                  )}
+                />
+              </div>
+
+              <Controller
+                name="active"
+                control={control}
+                render={({ field }) => (
+                  <label className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={field.value}
+                      onCheckedChange={(checked) => field.onChange(!!checked)}
+                    />
+                    Activo
+                  </label>
+                )}
+              />
+
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="outline" onClick={handleCancel}>
+                  Cancelar
+                </Button>
+                <Button type="submit">
+                  {editingItem ? "Actualizar" : "Crear"}
+                </Button>
+              </div>
+            </form>
+          </div>
+        </Modal>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,378 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { DataCard } from "@/components/DataCard";
+import { ArrowLeftRight, Plus } from "lucide-react";
+import type { WarehouseFormData } from "@/lib/schemas";
+import { warehouseSchema } from "@/lib/schemas";
+import type { MultiWarehouse, WarehouseBase } from "@/types/warehouse";
+import type { StockTransferBase } from "@/types/stock-transfer";
+import { Modal } from "@/components/Modal";
+import { Controller, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { NoiseType } from "@/types/noise";
+import { Noise } from "@/components/Noise";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useSession } from "next-auth/react";
+import { toastVariables } from "@/components/ToastVariables";
+import { StockTransferModal } from "@/components/StockTransferModal";
+import { formatDate } from "@/lib/utils";
+
+export default function WarehousesPage() {
+  const { data: session } = useSession();
+  const [warehouses, setWarehouses] = useState<WarehouseBase[]>([]);
+  const [transfers, setTransfers] = useState<StockTransferBase[]>([]);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [isTransferModalOpen, setIsTransferModalOpen] = useState(false);
+  const [editingItem, setEditingItem] = useState<WarehouseBase | null>(null);
+  const [noise, setNoise] = useState<NoiseType | null>({
+    type: "loading",
+    styleType: "page",
+    message: "Cargando ubicaciones...",
+  });
+
+  const {
+    control,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<WarehouseFormData>({
+    resolver: zodResolver(warehouseSchema),
+    defaultValues: {
+      name: "",
+      address: "",
+      is_default: false,
+    },
+  });
+
+  const fetchWarehouses = useCallback(async () => {
+    try {
+      const res = await fetch("/api/warehouses");
+      if (!res.ok) {
+        throw new Error("Failed to fetch warehouses");
+      }
+
+      const data = (await res.json()).data as MultiWarehouse;
+      setWarehouses(data.data);
+      setNoise(null);
+    } catch (error) {
+      console.error("Error fetching warehouses:", error);
+      setNoise({
+        type: "error",
+        styleType: "page",
+        message: "Error al cargar las ubicaciones.",
+      });
+    }
+  }, []);
+
+  const fetchTransfers = useCallback(async () => {
+    try {
+      const res = await fetch("/api/stock-transfers");
+      if (!res.ok) {
+        throw new Error("Failed to fetch stock transfers");
+      }
+
+      setTransfers((await res.json()).data.data as StockTransferBase[]);
+    } catch (error) {
+      console.error("Error fetching stock transfers:", error);
+      toastVariables.error("Error al cargar las transferencias.");
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchWarehouses();
+    fetchTransfers();
+  }, [fetchWarehouses, fetchTransfers]);
+
+  if (!session || !session.user?.id) {
+    return null;
+  }
+
+  const onSubmit = async (data: WarehouseFormData) => {
+    setNoise({
+      type: "loading",
+      styleType: "modal",
+      message: editingItem
+        ? "Actualizando la ubicación..."
+        : "Creando la ubicación...",
+    });
+
+    try {
+      const res = await fetch("/api/warehouses", {
+        method: editingItem ? "PUT" : "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(
+          editingItem ? { ...data, id: editingItem.id } : data
+        ),
+      });
+      const body = await res.json();
+      if (!res.ok) {
+        throw new Error(body.message || "Error al guardar la ubicación");
+      }
+
+      toastVariables.success(body.message);
+      setIsModalOpen(false);
+      setEditingItem(null);
+      reset();
+      await fetchWarehouses();
+    } catch (error) {
+      console.error("Error saving warehouse:", error);
+      toastVariables.error(
+        error instanceof Error
+          ? error.message
+          : "Error al guardar la ubicación."
+      );
+    } finally {
+      setNoise(null);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    setNoise({
+      type: "loading",
+      styleType: "modal",
+      message: "Eliminando la ubicación...",
+    });
+
+    try {
+      const res = await fetch("/api/warehouses", {
+        method: "DELETE",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ id }),
+      });
+      const body = await res.json();
+      if (!res.ok) {
+        throw new Error(body.message || "Error al eliminar la ubicación");
+      }
+
+      setWarehouses((prev) => prev.filter((item) => item.id !== id));
+      toastVariables.success(body.message);
+    } catch (error) {
+      console.error("Error deleting warehouse:", error);
+      toastVariables.error(
+        error instanceof Error
+          ? error.message
+          : "Error al eliminar la ubicación."
+      );
+    } finally {
+      setNoise(null);
+    }
+  };
+
+  const openCreateModal = () => {
+    setEditingItem(null);
+    reset({ name: "", address: "", is_default: warehouses.length === 0 });
+    setIsModalOpen(true);
+  };
+
+  const openEditModal = (item: WarehouseBase) => {
+    setEditingItem(item);
+    reset({
+      name: item.name,
+      address: item.address || "",
+      is_default: item.is_default,
+    });
+    setIsModalOpen(true);
+  };
+
+  const handleCancel = () => {
+    setIsModalOpen(false);
+    setEditingItem(null);
+    reset();
+  };
+
+  if (noise && noise.styleType === "page") {
+    return <Noise noise={noise} />;
+  }
+
+  return (
+    <div className="container mx-auto px-2 sm:px-4 py-6 sm:py-8 space-y-8">
+      {noise && <Noise noise={noise} />}
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-end gap-2">
+        <Button
+          variant="outline"
+          onClick={() => setIsTransferModalOpen(true)}
+          disabled={warehouses.length < 2}
+          className="w-full sm:w-auto"
+        >
+          <ArrowLeftRight className="h-4 w-4 mr-2" />
+          Nueva Transferencia
+        </Button>
+        <Button onClick={openCreateModal} className="w-full sm:w-auto">
+          <Plus className="h-4 w-4 mr-2" />
+          Crear Ubicación
+        </Button>
+      </div>
+
+      {warehouses.length === 0 && (
+        <div className="text-center py-12">
+          <p className="text-gray-500 text-lg">No hay ubicaciones.</p>
+          <p className="text-gray-400 text-sm mt-2">
+            Haz clic en &quot;Crear Ubicación&quot; para registrar tu primer
+            taller o almacén
+          </p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4 sm:gap-6">
+        {warehouses.map((item) => (
+          <DataCard
+            key={item.id}
+            title={item.name}
+            subtitle={item.address}
+            badges={
+              item.is_default
+                ? [{ label: "Predeterminada", variant: "secondary" }]
+                : []
+            }
+            fields={[
+              { label: "Dirección", value: item.address },
+              { label: "Creada", value: formatDate(new Date(item.created_at)) },
+            ]}
+            onEdit={() => {
+              openEditModal(item);
+            }}
+            onDelete={() => {
+              handleDelete(item.id);
+            }}
+          />
+        ))}
+      </div>
+
+      <section>
+        <h2 className="text-lg font-semibold mb-3">Transferencias</h2>
+        {transfers.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            No hay transferencias registradas.
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-gray-600">
+                  <th className="py-2 pr-2">Fecha</th>
+                  <th className="py-2 pr-2">Origen</th>
+                  <th className="py-2 pr-2">Destino</th>
+                  <th className="py-2 pr-2">Repuestos</th>
+                  <th className="py-2">Notas</th>
+                </tr>
+              </thead>
+              <tbody>
+                {transfers.map((transfer) => (
+                  <tr key={transfer.id} className="border-b align-top">
+                    <td className="py-2 pr-2 whitespace-nowrap">
+                      {formatDate(new Date(transfer.created_at))}
+                    </td>
+                    <td className="py-2 pr-2">
+                      {transfer.source_warehouse_name}
+                    </td>
+                    <td className="py-2 pr-2">
+                      {transfer.destination_warehouse_name}
+                    </td>
+                    <td className="py-2 pr-2">
+                      {transfer.items
+                        .map(
+                          (item) =>
+                            `${item.spare_part?.name || item.spare_part_id} x${
+                              item.quantity
+                            }`
+                        )
+                        .join(", ")}
+                    </td>
+                    <td className="py-2 text-gray-600">{transfer.notes}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+
+      {isTransferModalOpen && (
+        <StockTransferModal
+          warehouses={warehouses}
+          onClose={() => setIsTransferModalOpen(false)}
+          onCreated={fetchTransfers}
+        />
+      )}
+
+      {isModalOpen && (
+        <Modal onClose={handleCancel}>
+          <div className="p-4 sm:p-6 w-full max-w-xs sm:max-w-md mx-auto">
+            <h2 className="text-lg sm:text-xl font-semibold mb-4">
+              {editingItem ? "Editar Ubicación" : "Crear Ubicación"}
+            </h2>
+            <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+              <div>
+                <Label htmlFor="name" className="block mb-1">
+                  Nombre
+                </Label>
+                <Controller
+                  name="name"
+                  control={control}
+                  render={({ field }) => (
+                    <Input
+                      id="name"
+                      placeholder="Taller Norte"
+                      className="w-full"
+                      {...field}
+                    />
+                  )}
+                />
+                {errors.name && (
+                  <p className="text-red-500 text-xs sm:text-sm mt-1">
+                    {errors.name.message}
+                  </p>
+                )}
+              </div>
+
+              <div>
+                <Label htmlFor="address" className="block mb-1">
+                  Dirección
+                </Label>
+                <Controller
+                  name="address"
+                  control={control}
+                  render={({ field }) => (
+                    <Input id="address" className="w-full" {...field} />
+                  )}
+                />
+              </div>
+
+              <Controller
+                name="is_default"
+                control={control}
+                render={({ field }) => (
+                  <label className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={field.value}
+                      disabled={editingItem?.is_default}
+                      onCheckedChange={(checked) => field.onChange(!!checked)}
+                    />
+                    Ubicación predeterminada
+                  </label>
+                )}
+              />
+
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="outline" onClick={handleCancel}>
+                  Cancelar
+                </Button>
+                <Button type="submit">
+                  {editingItem ? "Actualizar" : "Crear"}
+                </Button>
+              </div>
+            </form>
+          </div>
+        </Modal>
+      )}
+    </div>
+  );
+}
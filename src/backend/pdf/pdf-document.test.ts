@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+import { PAGE_HEIGHT, PdfDocument } from "./pdf-document";
+
+const render = (document: PdfDocument) =>
+  document.toBuffer().toString("latin1");
+
+// Operaciones de texto (Tj) del contenido generado
+const textOperations = (pdf: string) =>
+  pdf.split("\n").filter((line) => line.endsWith(" Tj ET"));
+
+describe("PdfDocument", () => {
+  it("genera un PDF con cabecera, tabla xref y trailer válidos", () => {
+    const document = new PdfDocument("Orden");
+    document.text("Página 1", 40, 40);
+    document.addPage();
+    document.text("Página 2", 40, 40);
+    const pdf = render(document);
+
+    expect(pdf.startsWith("%PDF-1.4\n")).toBe(true);
+    expect(pdf.endsWith("%%EOF\n")).toBe(true);
+
+    const startxref = Number(/startxref\n(\d+)\n/.exec(pdf)?.[1]);
+    expect(pdf.slice(startxref, startxref + 5)).toBe("xref\n");
+
+    // Catálogo, páginas, fuentes, información y dos páginas con contenido
+    const xref = pdf.slice(startxref).split("\n");
+    expect(xref[1]).toBe("0 10");
+    const offsets = xref
+      .slice(3, 12)
+      .map((entry) => Number(entry.slice(0, 10)));
+    offsets.forEach((offset, index) => {
+      expect(pdf.slice(offset).startsWith(`${index + 1} 0 obj\n`)).toBe(true);
+    });
+
+    expect(pdf).toContain("/Kids [6 0 R 8 0 R] /Count 2");
+    expect(pdf).toContain("/Size 10 /Root 1 0 R /Info 5 0 R");
+  });
+
+  it("declara la longitud exacta de cada contenido", () => {
+    const document = new PdfDocument("Orden");
+    document.text("Equipo", 40, 100, { bold: true, size: 12 });
+    document.line(40, 110, 200, 110);
+    document.rect(40, 120, 100, 20, 0.9);
+    const pdf = render(document);
+
+    const match = /<< \/Length (\d+) >>\nstream\n([\s\S]*?)\nendstream/.exec(
+      pdf
+    );
+    expect(match).not.toBeNull();
+    expect(match![2].length).toBe(Number(match![1]));
+  });
+
+  it("mide las coordenadas desde la esquina superior izquierda", () => {
+    const document = new PdfDocument("Orden");
+    document.text("Equipo", 40, 100, { bold: true, size: 12 });
+    document.line(40, 110, 200, 110);
+
+    const pdf = render(document);
+    const y = Math.round((PAGE_HEIGHT - 100) * 100) / 100;
+    expect(pdf).toContain(`BT 0 g /F2 12 Tf 40 ${y} Td (Equipo) Tj ET`);
+    expect(pdf).toContain("0.5 w 40 731.89 m 200 731.89 l S");
+  });
+
+  it("escapa paréntesis y barras invertidas", () => {
+    const document = new PdfDocument("Orden");
+    document.text("Filtro (aceite) \\ 10W-40", 40, 40);
+
+    expect(textOperations(render(document))).toEqual([
+      "BT 0 g /F1 10 Tf 40 801.89 Td (Filtro \\(aceite\\) \\\\ 10W-40) Tj ET",
+    ]);
+  });
+
+  it("codifica los caracteres no ASCII en WinAnsi como octales", () => {
+    const document = new PdfDocument("Revisión");
+    document.text("Año – Señal € ü", 40, 40);
+    const pdf = render(document);
+
+    // ñ = 361, – = 226, € = 200, ü = 374
+    expect(textOperations(pdf)[0]).toContain(
+      "(A\\361o \\226 Se\\361al \\200 \\374)"
+    );
+    expect(pdf).toContain("/Title (Revisi\\363n)");
+  });
+
+  it("reemplaza los caracteres sin código WinAnsi", () => {
+    const document = new PdfDocument("Orden");
+    document.text("Ŝ ✓\tfin", 40, 40);
+
+    // Ŝ conserva su letra base; ✓ no existe y la tabulación es un espacio
+    expect(textOperations(render(document))[0]).toContain("(S ? fin)");
+  });
+
+  it("omite los textos vacíos", () => {
+    const document = new PdfDocument("Orden");
+    document.text("", 40, 40);
+
+    expect(document.pageCount).toBe(0);
+    expect(textOperations(render(document))).toEqual([]);
+  });
+
+  it("parte el texto según el ancho disponible", () => {
+    const document = new PdfDocument("Orden");
+    const lines = document.wrap("cambio de aceite y filtro\nrevisión", 60, 10);
+
+    expect(lines.length).toBeGreaterThan(2);
+    expect(lines[lines.length - 1]).toBe("revisión");
+    for (const line of lines.slice(0, -1)) {
+      expect(document.textWidth(line, 10)).toBeLessThanOrEqual(60);
+    }
+  });
+
+  it("corta las palabras más anchas que la línea", () => {
+    const document = new PdfDocument("Orden");
+    const code = "FILTRO-ACEITE-10W40-MOTOR-DIESEL";
+    const lines = document.wrap(`ref ${code} ok`, 60, 10);
+
+    // El resto de la palabra continúa en la línea con la siguiente
+    expect(lines[0]).toBe("ref");
+    expect(lines.length).toBeGreaterThan(2);
+    expect(lines.join("")).toBe(`ref${code} ok`);
+    for (const line of lines) {
+      expect(document.textWidth(line, 10)).toBeLessThanOrEqual(60);
+    }
+  });
+});
@@ -0,0 +1,270 @@
+/**
+ * Generador mínimo de documentos PDF (A4, Helvetica y Helvetica-Bold)
+ * Solo dibuja texto, líneas y rectángulos; las coordenadas se miden en puntos
+ * desde la esquina superior izquierda de la página
+ */
+
+export const PAGE_WIDTH = 595.28;
+export const PAGE_HEIGHT = 841.89;
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  align?: "left" | "center" | "right"; // Respecto a x (centro o borde derecho)
+  gray?: number; // 0 = negro, 1 = blanco
+}
+
+// Anchos de Helvetica para los caracteres 32 a 126 (unidades de 1/1000)
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278,
+  278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584,
+  584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556,
+  833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278,
+  278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222,
+  500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500,
+  500, 334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278,
+  278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584,
+  584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611,
+  833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333,
+  278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278,
+  556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556,
+  500, 389, 280, 389, 584,
+];
+
+// Caracteres fuera de Latin-1 con código propio en WinAnsiEncoding
+const WIN_ANSI_EXTRA: Record<string, number> = {
+  "€": 0x80,
+  "…": 0x85,
+  "‘": 0x91,
+  "’": 0x92,
+  "“": 0x93,
+  "”": 0x94,
+  "•": 0x95,
+  "–": 0x96,
+  "—": 0x97,
+};
+
+export class PdfDocument {
+  private readonly title: string;
+  private pages: string[][] = [];
+  private current = -1;
+
+  constructor(title: string) {
+    this.title = title;
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  /**
+   * Agregar una página y dibujar sobre ella
+   */
+  addPage(): void {
+    this.pages.push([]);
+    this.current = this.pages.length - 1;
+  }
+
+  /**
+   * Volver a dibujar sobre una página ya creada (por ejemplo, pies de página)
+   */
+  setPage(index: number): void {
+    if (index < 0 || index >= this.pages.length) {
+      throw new Error(`La página ${index + 1} no existe`);
+    }
+    this.current = index;
+  }
+
+  /**
+   * Escribir una línea de texto con su línea base en `y`
+   */
+  text(text: string, x: number, y: number, options: PdfTextOptions = {}) {
+    if (!text) return;
+
+    const size = options.size ?? 10;
+    const bold = options.bold ?? false;
+    const width = this.textWidth(text, size, bold);
+    const left =
+      options.align === "right"
+        ? x - width
+        : options.align === "center"
+          ? x - width / 2
+          : x;
+
+    this.draw(
+      `BT ${this.num(options.gray ?? 0)} g /${bold ? "F2" : "F1"} ` +
+        `${this.num(size)} Tf ${this.num(left)} ${this.num(
+          PAGE_HEIGHT - y
+        )} Td (${this.encode(text)}) Tj ET`
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, width: number = 0.5) {
+    this.draw(
+      `${this.num(width)} w ${this.num(x1)} ${this.num(PAGE_HEIGHT - y1)} m ` +
+        `${this.num(x2)} ${this.num(PAGE_HEIGHT - y2)} l S`
+    );
+  }
+
+  /**
+   * Dibujar un rectángulo con su esquina superior izquierda en (x, y)
+   * Con `fill` se rellena con ese tono de gris en lugar de trazar el borde
+   */
+  rect(x: number, y: number, width: number, height: number, fill?: number) {
+    const path =
+      `${this.num(x)} ${this.num(PAGE_HEIGHT - y - height)} ` +
+      `${this.num(width)} ${this.num(height)} re`;
+    this.draw(
+      fill !== undefined
+        ? `${this.num(fill)} g ${path} f 0 g`
+        : `0.5 w ${path} S`
+    );
+  }
+
+  /**
+   * Ancho del texto en puntos
+   */
+  textWidth(text: string, size: number, bold: boolean = false): number {
+    const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+    let total = 0;
+    for (const char of this.normalize(text)) {
+      const base = char.normalize("NFD")[0];
+      const code = base.charCodeAt(0);
+      total += code >= 32 && code <= 126 ? widths[code - 32] : 556;
+    }
+    return (total * size) / 1000;
+  }
+
+  /**
+   * Partir el texto en líneas que no superen el ancho indicado
+   * Las palabras más anchas que la línea (códigos, URLs) se cortan por
+   * caracteres
+   */
+  wrap(
+    text: string,
+    width: number,
+    size: number,
+    bold: boolean = false
+  ): string[] {
+    const lines: string[] = [];
+    for (const paragraph of text.split(/\r?\n/)) {
+      let line = "";
+      for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (this.textWidth(candidate, size, bold) <= width) {
+          line = candidate;
+          continue;
+        }
+        if (line) lines.push(line);
+
+        line = "";
+        for (const char of word) {
+          if (line && this.textWidth(line + char, size, bold) > width) {
+            lines.push(line);
+            line = "";
+          }
+          line += char;
+        }
+      }
+      lines.push(line);
+    }
+    return lines;
+  }
+
+  /**
+   * Generar el archivo PDF
+   */
+  toBuffer(): Buffer {
+    if (this.pages.length === 0) this.addPage();
+
+    // 1: catálogo, 2: páginas, 3 y 4: fuentes, 5: información,
+    // luego una página y su contenido por cada página
+    const objects: string[] = [
+      "<< /Type /Catalog /Pages 2 0 R >>",
+      `<< /Type /Pages /Kids [${this.pages
+        .map((_, index) => `${6 + index * 2} 0 R`)
+        .join(" ")}] /Count ${this.pages.length} >>`,
+      "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica " +
+        "/Encoding /WinAnsiEncoding >>",
+      "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold " +
+        "/Encoding /WinAnsiEncoding >>",
+      `<< /Title (${this.encode(this.title)}) /CreationDate (D:${new Date()
+        .toISOString()
+        .replace(/[-:T]/g, "")
+        .slice(0, 14)}Z) >>`,
+    ];
+    this.pages.forEach((operations, index) => {
+      const content = operations.join("\n");
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ` +
+          `${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> ` +
+          `/Contents ${7 + index * 2} 0 R >>`,
+        `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+      );
+    });
+
+    // El contenido es ASCII, así que cada carácter ocupa un byte
+    let pdf = "%PDF-1.4\n%âãÏÓ\n";
+    const offsets = objects.map((object, index) => {
+      const offset = pdf.length;
+      pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+      return offset;
+    });
+
+    const xref = pdf.length;
+    pdf +=
+      `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n` +
+      offsets
+        .map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`)
+        .join("") +
+      `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\n` +
+      `startxref\n${xref}\n%%EOF\n`;
+
+    return Buffer.from(pdf, "latin1");
+  }
+
+  private draw(operation: string): void {
+    if (this.current < 0) this.addPage();
+    this.pages[this.current].push(operation);
+  }
+
+  /**
+   * Reemplazar saltos de línea y tabulaciones por espacios
+   */
+  private normalize(text: string): string {
+    return text.replace(/[\r\n\t]+/g, " ");
+  }
+
+  /**
+   * Codificar el texto como cadena literal PDF en WinAnsiEncoding
+   * Los caracteres que no existen en la codificación se reemplazan por su
+   * letra base o por "?"
+   */
+  private encode(text: string): string {
+    let result = "";
+    for (const char of this.normalize(text)) {
+      let code = WIN_ANSI_EXTRA[char] ?? char.charCodeAt(0);
+      if (code > 255) {
+        code = char.normalize("NFD").charCodeAt(0);
+        if (code > 255) code = 63; // "?"
+      }
+
+      if (code === 40 || code === 41 || code === 92) {
+        result += `\\${String.fromCharCode(code)}`;
+      } else if (code >= 32 && code <= 126) {
+        result += String.fromCharCode(code);
+      } else {
+        result += `\\${code.toString(8).padStart(3, "0")}`;
+      }
+    }
+    return result;
+  }
+
+  private num(value: number): string {
+    return String(Math.round(value * 100) / 100);
+  }
+}
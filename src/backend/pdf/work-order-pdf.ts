@@ -0,0 +1,466 @@
+import { PAGE_HEIGHT, PAGE_WIDTH, PdfDocument } from "./pdf-document";
+import {
+  getPriorityLabel,
+  getRecordStatusLabel,
+  getStatusLabel,
+} from "@/lib/utils";
+import {
+  CompanyHeader,
+  MaintenanceWorkOrder,
+  MaintenanceWorkOrderDocument,
+} from "@/types/maintenance-work-order";
+
+const MARGIN = 40;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const CONTENT_BOTTOM = PAGE_HEIGHT - 50; // Espacio reservado para el pie
+
+const documentTitles: Record<MaintenanceWorkOrderDocument, string> = {
+  work_order: "ORDEN DE TRABAJO",
+  service_report: "INFORME DE SERVICIO",
+};
+
+const signatureLabels: Record<MaintenanceWorkOrderDocument, string[]> = {
+  work_order: ["Técnico", "Supervisor", "Entregado por"],
+  service_report: ["Responsable del taller", "Cliente"],
+};
+
+/**
+ * Columna de una tabla; las celdas booleanas se dibujan como casillas
+ */
+interface TableColumn {
+  title: string;
+  width: number;
+  align?: "left" | "right";
+}
+
+type TableCell = string | boolean;
+
+/**
+ * Generar un PDF con las órdenes de trabajo o informes de servicio indicados
+ * Cada registro empieza en una página nueva
+ * @param orders - Registros con su detalle y costo
+ * @param document - Tipo de documento
+ * @param company - Datos de la empresa para el encabezado
+ * @returns Contenido del archivo PDF
+ */
+export function renderWorkOrdersPdf(
+  orders: MaintenanceWorkOrder[],
+  document: MaintenanceWorkOrderDocument,
+  company: CompanyHeader
+): Buffer {
+  const writer = new WorkOrderPdfWriter(document, company);
+  for (const order of orders) {
+    writer.writeOrder(order);
+  }
+  return writer.toBuffer();
+}
+
+/**
+ * Número corto del documento a partir del ID del registro
+ */
+export function workOrderNumber(recordId: string): string {
+  return recordId.replace(/-/g, "").slice(0, 8).toUpperCase();
+}
+
+class WorkOrderPdfWriter {
+  private doc: PdfDocument;
+  private document: MaintenanceWorkOrderDocument;
+  private company: CompanyHeader;
+  private footers: string[] = []; // Pie de cada página
+  private order = { status: "", number: "" }; // Registro que se escribe
+  private y = 0;
+
+  constructor(document: MaintenanceWorkOrderDocument, company: CompanyHeader) {
+    this.doc = new PdfDocument(documentTitles[document]);
+    this.document = document;
+    this.company = company;
+  }
+
+  writeOrder({ record, cost }: MaintenanceWorkOrder): void {
+    this.order = { status: record.status, number: workOrderNumber(record.id) };
+    this.newPage();
+
+    this.section("Equipo");
+    this.fields([
+      ["Código", record.equipment?.code],
+      ["Placa", record.equipment?.license_plate],
+      ["Tipo", record.equipment?.type],
+      ["Plan", record.equipment?.maintenance_plan?.name],
+    ]);
+
+    this.section("Mantenimiento");
+    this.fields([
+      [
+        "Tipo",
+        record.maintenance_type?.path || record.maintenance_type?.type,
+      ],
+      ["Estado", getRecordStatusLabel(record.status)],
+      ["Inicio", this.formatDateTime(record.start_datetime)],
+      [
+        "Fin",
+        record.end_datetime ? this.formatDateTime(record.end_datetime) : "",
+      ],
+      [
+        "Kilometraje",
+        record.mileage_info?.kilometers !== undefined
+          ? `${record.mileage_info.kilometers.toLocaleString("es-PE")} km`
+          : undefined,
+      ],
+      [
+        "Horómetro",
+        record.mileage_info?.hours !== undefined
+          ? `${record.mileage_info.hours.toLocaleString("es-PE")} h`
+          : undefined,
+      ],
+      [
+        "Duración",
+        record.duration_hours !== undefined
+          ? `${record.duration_hours.toFixed(2)} h`
+          : undefined,
+      ],
+      [
+        "Mano de obra",
+        record.labor_hours !== undefined
+          ? `${record.labor_hours.toFixed(2)} h`
+          : undefined,
+      ],
+      ["Versión del plan", record.maintenance_plan_version?.toString()],
+    ]);
+
+    const activities = record.activities || [];
+    this.section("Actividades");
+    this.table(
+      [
+        { title: "", width: 18 },
+        { title: "Actividad", width: 190 },
+        { title: "Estado", width: 70 },
+        { title: "Prioridad", width: 70 },
+        { title: "Observaciones", width: CONTENT_WIDTH - 348 },
+      ],
+      activities.map((activity) => [
+        activity.status === "completed",
+        `${activity.activity?.name || activity.activity_id}${
+          activity.mandatory ? " *" : ""
+        }`,
+        getStatusLabel(activity.status),
+        getPriorityLabel(activity.priority || "no"),
+        activity.observations || "",
+      ]),
+      "No hay actividades registradas"
+    );
+    if (activities.some((activity) => activity.mandatory)) {
+      this.note("* Actividad obligatoria");
+    }
+
+    const spareParts = record.spare_parts || [];
+    this.section("Repuestos");
+    this.table(
+      [
+        { title: "Repuesto", width: CONTENT_WIDTH - 240 },
+        { title: "Cantidad", width: 60, align: "right" },
+        { title: "P. unitario", width: 90, align: "right" },
+        { title: "Importe", width: 90, align: "right" },
+      ],
+      spareParts.map((line) => {
+        const price = line.unit_price ?? line.spare_part?.price ?? 0;
+        return [
+          line.spare_part?.name || line.spare_part_id,
+          line.quantity.toString(),
+          this.formatMoney(price),
+          this.formatMoney(line.quantity * price),
+        ];
+      }),
+      "No se usaron repuestos"
+    );
+    if (spareParts.length > 0) {
+      this.totals([["Total repuestos", this.formatMoney(cost.parts_cost)]]);
+    }
+
+    if (this.document === "service_report") {
+      this.section("Costos");
+      this.totals([
+        ["Repuestos", this.formatMoney(cost.parts_cost)],
+        ["Mano de obra", this.formatMoney(cost.labor_cost)],
+        ["Servicios externos", this.formatMoney(cost.external_service_cost)],
+        ["Subtotal", this.formatMoney(cost.subtotal)],
+        [`Impuesto (${cost.tax_rate}%)`, this.formatMoney(cost.tax)],
+        ["Total", this.formatMoney(cost.total)],
+      ]);
+    }
+
+    this.section("Observaciones");
+    if (record.observations) {
+      this.paragraph(record.observations);
+    }
+    if (this.document === "work_order") {
+      // Líneas para anotar a mano en el taller
+      for (let i = 0; i < 3; i++) {
+        this.ensureSpace(18);
+        this.y += 18;
+        this.doc.line(MARGIN, this.y, MARGIN + CONTENT_WIDTH, this.y, 0.3);
+      }
+      this.y += 6;
+    }
+
+    this.signatures();
+  }
+
+  toBuffer(): Buffer {
+    const pageCount = this.doc.pageCount;
+    this.footers.forEach((footer, index) => {
+      this.doc.setPage(index);
+      const y = PAGE_HEIGHT - 25;
+      this.doc.text(footer, MARGIN, y, { size: 7, gray: 0.4 });
+      this.doc.text(
+        `Página ${index + 1} de ${pageCount}`,
+        MARGIN + CONTENT_WIDTH,
+        y,
+        { size: 7, gray: 0.4, align: "right" }
+      );
+    });
+    return this.doc.toBuffer();
+  }
+
+  /**
+   * Empezar una página con el encabezado de la empresa y del documento
+   */
+  private newPage(): void {
+    const { status, number } = this.order;
+    this.doc.addPage();
+    this.footers.push(
+      `${documentTitles[this.document]} N° ${number} - ` +
+        `Generado el ${this.formatDateTime(new Date())}`
+    );
+    this.y = MARGIN;
+
+    const right = MARGIN + CONTENT_WIDTH;
+    this.doc.text(this.company.name, MARGIN, this.y + 12, {
+      size: 13,
+      bold: true,
+    });
+    [
+      this.company.tax_id ? `RUC: ${this.company.tax_id}` : undefined,
+      this.company.address,
+      this.company.phone ? `Tel.: ${this.company.phone}` : undefined,
+    ]
+      .filter((line): line is string => !!line)
+      .forEach((line, index) =>
+        this.doc.text(line, MARGIN, this.y + 26 + index * 10, { size: 8 })
+      );
+
+    this.doc.text(documentTitles[this.document], right, this.y + 12, {
+      size: 13,
+      bold: true,
+      align: "right",
+    });
+    this.doc.text(`N° ${number}`, right, this.y + 26, {
+      size: 9,
+      align: "right",
+    });
+    this.doc.text(getRecordStatusLabel(status), right, this.y + 37, {
+      size: 9,
+      align: "right",
+    });
+
+    this.y += 52;
+    this.doc.line(MARGIN, this.y, right, this.y, 1);
+    this.y += 12;
+  }
+
+  /**
+   * Pasar a una página nueva si no cabe el alto indicado
+   * @returns true si se empezó una página nueva
+   */
+  private ensureSpace(height: number): boolean {
+    if (this.y + height <= CONTENT_BOTTOM) return false;
+    this.newPage();
+    return true;
+  }
+
+  private section(title: string): void {
+    // El título no queda solo al final de una página
+    this.ensureSpace(50);
+    this.doc.rect(MARGIN, this.y, CONTENT_WIDTH, 16, 0.9);
+    this.doc.text(title, MARGIN + 4, this.y + 11.5, { size: 10, bold: true });
+    this.y += 24;
+  }
+
+  /**
+   * Pares etiqueta-valor en dos columnas; se omiten los valores indefinidos
+   */
+  private fields(pairs: [string, string | undefined][]): void {
+    const columnWidth = CONTENT_WIDTH / 2;
+    const labelWidth = 80;
+    const visible = pairs.filter(
+      (pair): pair is [string, string] => pair[1] !== undefined
+    );
+
+    for (let i = 0; i < visible.length; i += 2) {
+      const row = visible.slice(i, i + 2).map(([label, value]) => ({
+        label,
+        lines: this.doc.wrap(value || "-", columnWidth - labelWidth - 8, 9),
+      }));
+      const height =
+        Math.max(...row.map((cell) => cell.lines.length)) * 11 + 3;
+      this.ensureSpace(height);
+
+      row.forEach((cell, column) => {
+        const x = MARGIN + column * columnWidth;
+        this.doc.text(cell.label, x, this.y + 8, {
+          size: 8,
+          bold: true,
+          gray: 0.3,
+        });
+        cell.lines.forEach((line, index) =>
+          this.doc.text(line, x + labelWidth, this.y + 8 + index * 11, {
+            size: 9,
+          })
+        );
+      });
+      this.y += height;
+    }
+    this.y += 6;
+  }
+
+  /**
+   * Tabla con encabezado que se repite al pasar de página
+   */
+  private table(columns: TableColumn[], rows: TableCell[][], empty: string) {
+    const drawHeader = () => {
+      this.doc.rect(MARGIN, this.y, CONTENT_WIDTH, 14, 0.95);
+      let x = MARGIN;
+      for (const column of columns) {
+        this.doc.text(
+          column.title,
+          column.align === "right" ? x + column.width - 4 : x + 4,
+          this.y + 10,
+          { size: 8, bold: true, align: column.align }
+        );
+        x += column.width;
+      }
+      this.y += 14;
+    };
+
+    drawHeader();
+    if (rows.length === 0) {
+      this.note(empty);
+      return;
+    }
+
+    for (const row of rows) {
+      const cells = row.map((cell, index) =>
+        typeof cell === "boolean"
+          ? cell
+          : this.doc.wrap(cell, columns[index].width - 8, 8)
+      );
+      const lines = Math.max(
+        1,
+        ...cells.map((cell) => (typeof cell === "boolean" ? 1 : cell.length))
+      );
+      const height = lines * 10 + 6;
+      if (this.ensureSpace(height)) drawHeader();
+
+      let x = MARGIN;
+      cells.forEach((cell, index) => {
+        const column = columns[index];
+        if (typeof cell === "boolean") {
+          this.doc.rect(x + 5, this.y + 4, 8, 8);
+          if (cell) {
+            this.doc.text("X", x + 9, this.y + 11, {
+              size: 8,
+              align: "center",
+            });
+          }
+        } else {
+          cell.forEach((line, lineIndex) =>
+            this.doc.text(
+              line,
+              column.align === "right" ? x + column.width - 4 : x + 4,
+              this.y + 11 + lineIndex * 10,
+              { size: 8, align: column.align }
+            )
+          );
+        }
+        x += column.width;
+      });
+      this.y += height;
+      this.doc.line(MARGIN, this.y, MARGIN + CONTENT_WIDTH, this.y, 0.3);
+    }
+    this.y += 8;
+  }
+
+  /**
+   * Importes alineados a la derecha; el último se resalta
+   */
+  private totals(lines: [string, string][]): void {
+    const right = MARGIN + CONTENT_WIDTH;
+    lines.forEach(([label, value], index) => {
+      const last = index === lines.length - 1 && lines.length > 1;
+      this.ensureSpace(14);
+      this.doc.text(label, right - 100, this.y + 10, {
+        size: 9,
+        bold: last,
+        align: "right",
+      });
+      this.doc.text(value, right - 4, this.y + 10, {
+        size: 9,
+        bold: last,
+        align: "right",
+      });
+      this.y += 14;
+    });
+    this.y += 8;
+  }
+
+  private paragraph(text: string): void {
+    for (const line of this.doc.wrap(text, CONTENT_WIDTH - 8, 9)) {
+      this.ensureSpace(12);
+      this.doc.text(line, MARGIN + 4, this.y + 9, { size: 9 });
+      this.y += 12;
+    }
+    this.y += 4;
+  }
+
+  private note(text: string): void {
+    this.ensureSpace(14);
+    this.doc.text(text, MARGIN + 4, this.y + 10, { size: 8, gray: 0.4 });
+    this.y += 18;
+  }
+
+  /**
+   * Área de firmas al pie del documento
+   */
+  private signatures(): void {
+    const labels = signatureLabels[this.document];
+    this.ensureSpace(90);
+    this.y += 50;
+
+    const width = CONTENT_WIDTH / labels.length;
+    labels.forEach((label, index) => {
+      const x = MARGIN + index * width;
+      this.doc.line(x + 10, this.y, x + width - 10, this.y);
+      this.doc.text(label, x + width / 2, this.y + 12, {
+        size: 9,
+        bold: true,
+        align: "center",
+      });
+      this.doc.text("Nombre, firma y fecha", x + width / 2, this.y + 23, {
+        size: 7,
+        gray: 0.4,
+        align: "center",
+      });
+    });
+    this.y += 30;
+  }
+
+  private formatDateTime(date: Date | string): string {
+    return new Date(date).toLocaleString("es-PE", {
+      dateStyle: "short",
+      timeStyle: "short",
+    });
+  }
+
+  private formatMoney(value: number): string {
+    return `S/.${value.toFixed(2)}`;
+  }
+}
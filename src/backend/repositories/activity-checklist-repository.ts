@@ -0,0 +1,201 @@
+import { Queryable, unitOfWork } from "./unit-of-work";
+import {
+  ActivityChecklistBase,
+  ActivityChecklistItem,
+  ActivityChecklistSave,
+} from "@/types/activity-checklist";
+import { ActivityChecklistErrorCodes, GlobalErrorResponse } from "@/lib/errors";
+
+export class ActivityChecklistError extends Error {
+  public readonly code: ActivityChecklistErrorCodes;
+  public readonly details?: unknown;
+
+  constructor(
+    code: ActivityChecklistErrorCodes,
+    message: string,
+    details?: unknown
+  ) {
+    super(message);
+    this.name = "ActivityChecklistError";
+    this.code = code;
+    this.details = details;
+  }
+}
+
+/**
+ * Repositorio para gestionar listas de actividades por defecto
+ * Maneja las operaciones de base de datos para las listas de los tipos de
+ * mantenimiento y de las etapas de los planes
+ */
+class ActivityChecklistRepository {
+  private get db(): Queryable {
+    return unitOfWork.getConnection();
+  }
+
+  /**
+   * Guardar la lista de un tipo de mantenimiento o de una etapa
+   * Reemplaza las actividades de la lista si ya existe
+   * @param checklist - Dueño de la lista y sus actividades
+   * @returns El ID y fecha de creación de la lista
+   */
+  async save(
+    checklist: ActivityChecklistSave
+  ): Promise<{ id: string; created_at: Date }> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.save_activity_checklist($1, $2, $3, $4)",
+        [
+          checklist.maintenance_type_id ?? null,
+          checklist.maintenance_stage_id ?? null,
+          JSON.stringify(checklist.items),
+          checklist.user_id,
+        ]
+      );
+
+      const response = result.rows[0].save_activity_checklist;
+      return {
+        id: response.id,
+        created_at: new Date(response.created_at),
+      };
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "save", { checklist });
+    }
+  }
+
+  /**
+   * Obtener la lista de un tipo de mantenimiento
+   * @param maintenanceTypeId - ID del tipo de mantenimiento
+   * @param userId - ID del usuario
+   * @returns La lista encontrada o null
+   */
+  async getByMaintenanceType(
+    maintenanceTypeId: string,
+    userId: string
+  ): Promise<ActivityChecklistBase | null> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.get_activity_checklist_by_maintenance_type($1, $2)",
+        [maintenanceTypeId, userId]
+      );
+
+      const data =
+        result.rows[0]?.get_activity_checklist_by_maintenance_type;
+      return data ? this.mapToChecklist(data) : null;
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "getByMaintenanceType", {
+        maintenanceTypeId,
+        userId,
+      });
+    }
+  }
+
+  /**
+   * Obtener la lista de una etapa del plan
+   * @param stageId - ID de la etapa
+   * @param userId - ID del usuario
+   * @returns La lista encontrada o null
+   */
+  async getByStage(
+    stageId: string,
+    userId: string
+  ): Promise<ActivityChecklistBase | null> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.get_activity_checklist_by_stage($1, $2)",
+        [stageId, userId]
+      );
+
+      const data = result.rows[0]?.get_activity_checklist_by_stage;
+      return data ? this.mapToChecklist(data) : null;
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "getByStage", {
+        stageId,
+        userId,
+      });
+    }
+  }
+
+  /**
+   * Eliminar una lista
+   * @param id - ID de la lista
+   * @param userId - ID del usuario
+   * @returns El ID de la lista eliminada
+   */
+  async delete(id: string, userId: string): Promise<{ id: string }> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.delete_activity_checklist($1, $2)",
+        [id, userId]
+      );
+
+      return { id: result.rows[0].delete_activity_checklist.id };
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "delete", { id, userId });
+    }
+  }
+
+  /**
+   * Mapear datos de la base de datos a ActivityChecklistBase
+   */
+  private mapToChecklist(data: ActivityChecklistBase): ActivityChecklistBase {
+    return {
+      id: data.id,
+      maintenance_type_id: data.maintenance_type_id ?? undefined,
+      maintenance_stage_id: data.maintenance_stage_id ?? undefined,
+      items: (data.items || []).map((item: ActivityChecklistItem) => ({
+        activity_id: item.activity_id,
+        priority: item.priority || "no",
+        mandatory: item.mandatory ?? false,
+        activity: item.activity,
+      })),
+      created_at: new Date(data.created_at),
+      updated_at: data.updated_at ? new Date(data.updated_at) : undefined,
+      user_id: data.user_id,
+    };
+  }
+
+  /**
+   * Manejo centralizado de errores
+   * @param error - Error capturado
+   * @param operation - Operación que falló
+   * @param params - Parámetros de la operación
+   */
+  private handleError(
+    error: GlobalErrorResponse,
+    operation: string,
+    params?: unknown
+  ): never {
+    console.error(`Error in ActivityChecklistRepository.${operation}:`, {
+      error: error.message,
+      stack: error.stack,
+      params,
+    });
+
+    if (error instanceof ActivityChecklistError) {
+      throw error;
+    }
+
+    if (error.message?.includes("not found")) {
+      throw new ActivityChecklistError(
+        ActivityChecklistErrorCodes.NOT_FOUND,
+        error.message
+      );
+    }
+
+    if (error.message?.includes("access denied")) {
+      throw new ActivityChecklistError(
+        ActivityChecklistErrorCodes.ACCESS_DENIED,
+        error.message
+      );
+    }
+
+    // Error genérico de base de datos
+    throw new ActivityChecklistError(
+      ActivityChecklistErrorCodes.DATABASE_ERROR,
+      `Database operation failed: ${error.message}`,
+      error
+    );
+  }
+}
+
+export const activityChecklistRepository = new ActivityChecklistRepository();
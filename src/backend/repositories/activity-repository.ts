@@ -1,4 +1,4 @@
-import { Pool } from "pg";
+import { Queryable, unitOfWork } from "./unit-of-work";
 import {
   ActivityBase,
   ActivityCreate,
@@ -6,13 +6,10 @@ import {
   MultiActivity,
   DeleteActivity,
 } from "@/types/activity";
-import { pool } from "@/lib/supabase";
 
 class ActivityRepository {
-  private db: Pool;
-
-  constructor() {
-    this.db = pool;
+  private get db(): Queryable {
+    return unitOfWork.getConnection();
   }
 
   /**
@@ -1,5 +1,4 @@
-import { pool } from "@/lib/supabase";
-import { Pool } from "pg";
+import { Queryable, unitOfWork } from "./unit-of-work";
 import {
   EquipmentBase,
   EquipmentCreate,
@@ -13,12 +12,11 @@ import {
   EqWithPendingInProgressMRs,
   MultiEqWithPendingInProgressMRs,
 } from "@/types/equipment";
+import { getDefaultRecordStatus } from "@/lib/utils";
 
 class EquipmentRepository {
-  private db: Pool;
-
-  constructor() {
-    this.db = pool;
+  private get db(): Queryable {
+    return unitOfWork.getConnection();
   }
 
   /**
@@ -47,13 +45,15 @@ class EquipmentRepository {
       }
 
       const result = await this.db.query(
-        "SELECT mnt.create_equipment($1, $2, $3, $4, $5)",
+        "SELECT mnt.create_equipment($1, $2, $3, $4, $5, $6, $7)",
         [
           equipment.type,
           equipment.license_plate,
           equipment.code,
           equipment.user_id,
           equipment.maintenance_plan_id,
+          equipment.meter_types || ["km"],
+          equipment.maintenance_plan_version ?? null,
         ]
       );
 
@@ -105,6 +105,9 @@ class EquipmentRepository {
             }
           : undefined,
         maintenance_plan_id: equipmentData.maintenance_plan_id,
+        maintenance_plan_version:
+          equipmentData.maintenance_plan_version ?? undefined,
+        meter_types: equipmentData.meter_types || ["km"],
       };
     } catch (err) {
       if (err instanceof Error) {
@@ -144,6 +147,9 @@ class EquipmentRepository {
             : undefined,
           user_id: equipment.user_id,
           maintenance_plan_id: equipment.maintenance_plan_id,
+          maintenance_plan_version:
+            equipment.maintenance_plan_version ?? undefined,
+          meter_types: equipment.meter_types || ["km"],
           maintenance_plan: equipment.maintenance_plan
             ? {
                 id: equipment.maintenance_plan.id,
@@ -171,6 +177,50 @@ class EquipmentRepository {
     }
   }
 
+  /**
+   * Obtener los equipos del usuario con los IDs indicados
+   */
+  async getByIds(ids: string[], user_id: string): Promise<EquipmentBase[]> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.get_equipments_by_ids($1, $2)",
+        [ids, user_id]
+      );
+
+      return (result.rows[0].get_equipments_by_ids || []).map(
+        (equipment: EquipmentBase) => ({
+          id: equipment.id,
+          type: equipment.type,
+          license_plate: equipment.license_plate,
+          code: equipment.code,
+          created_at: new Date(equipment.created_at),
+          updated_at: equipment.updated_at
+            ? new Date(equipment.updated_at)
+            : undefined,
+          user_id: equipment.user_id,
+          maintenance_plan_id: equipment.maintenance_plan_id,
+          maintenance_plan_version:
+            equipment.maintenance_plan_version ?? undefined,
+          meter_types: equipment.meter_types || ["km"],
+          maintenance_plan: equipment.maintenance_plan
+            ? {
+                id: equipment.maintenance_plan.id,
+                name: equipment.maintenance_plan.name,
+                description: equipment.maintenance_plan.description,
+              }
+            : undefined,
+        })
+      );
+    } catch (err) {
+      if (err instanceof Error) {
+        console.error("Error al obtener equipments por IDs:", err.stack);
+      } else {
+        console.error("Error al obtener equipments por IDs:", err);
+      }
+      throw err;
+    }
+  }
+
   async getAllWithPendingMRs(
     user_id: string,
     limit: number = 10,
@@ -197,6 +247,9 @@ class EquipmentRepository {
             : undefined,
           user_id: equipment.user_id,
           maintenance_plan_id: equipment.maintenance_plan_id,
+          maintenance_plan_version:
+            equipment.maintenance_plan_version ?? undefined,
+          meter_types: equipment.meter_types || ["km"],
           maintenance_plan: equipment.maintenance_plan
             ? {
                 id: equipment.maintenance_plan.id,
@@ -250,13 +303,15 @@ class EquipmentRepository {
   async update(equipment: EquipmentUpdate): Promise<{ id: string }> {
     try {
       const result = await this.db.query(
-        "SELECT mnt.update_equipment($1, $2, $3, $4, $5)",
+        "SELECT mnt.update_equipment($1, $2, $3, $4, $5, $6, $7)",
         [
           equipment.id,
           equipment.type,
           equipment.license_plate,
           equipment.code,
           equipment.maintenance_plan_id,
+          equipment.meter_types || null,
+          equipment.maintenance_plan_version ?? null,
         ]
       );
 
@@ -327,6 +382,9 @@ class EquipmentRepository {
           : undefined,
         user_id: equipmentData.user_id,
         maintenance_plan_id: equipmentData.maintenance_plan_id,
+        maintenance_plan_version:
+          equipmentData.maintenance_plan_version ?? undefined,
+        meter_types: equipmentData.meter_types || ["km"],
         maintenance_plan: equipmentData.maintenance_plan
           ? {
               id: equipmentData.maintenance_plan.id,
@@ -375,6 +433,9 @@ class EquipmentRepository {
           : undefined,
         user_id: equipmentData.user_id,
         maintenance_plan_id: equipmentData.maintenance_plan_id,
+        maintenance_plan_version:
+          equipmentData.maintenance_plan_version ?? undefined,
+        meter_types: equipmentData.meter_types || ["km"],
         maintenance_plan: equipmentData.maintenance_plan
           ? {
               id: equipmentData.maintenance_plan.id,
@@ -463,6 +524,7 @@ class EquipmentRepository {
             ? new Date(equipment.updated_at)
             : undefined,
           user_id: equipment.user_id,
+          meter_types: equipment.meter_types || ["km"],
           maintenance_records: equipment.maintenance_records
             ? {
                 total: equipment.maintenance_records.total,
@@ -479,6 +541,17 @@ class EquipmentRepository {
                   maintenance_type_id: record.maintenance_type_id,
                   observations: record.observations,
                   mileage_record_id: record.mileage_record_id,
+                  status:
+                    record.status ||
+                    getDefaultRecordStatus(record.end_datetime),
+                  status_changed_at: record.status_changed_at
+                    ? new Date(record.status_changed_at)
+                    : undefined,
+                  status_changed_by: record.status_changed_by ?? undefined,
+                  external_service_cost: Number(
+                    record.external_service_cost ?? 0
+                  ),
+                  tax_rate: Number(record.tax_rate ?? 0),
                   created_at: new Date(record.created_at),
                   updated_at: record.updated_at
                     ? new Date(record.updated_at)
@@ -494,7 +567,8 @@ class EquipmentRepository {
                     ? {
                         id: record.mileage_info.id,
                         record_date: new Date(record.mileage_info.record_date),
-                        kilometers: record.mileage_info.kilometers,
+                        kilometers: record.mileage_info.kilometers ?? undefined,
+                        hours: record.mileage_info.hours ?? undefined,
                       }
                     : undefined,
                 })),
@@ -509,7 +583,8 @@ class EquipmentRepository {
                 data: equipment.mileage_records.data.map((record) => ({
                   id: record.id,
                   equipment_id: record.equipment_id,
-                  kilometers: record.kilometers,
+                  kilometers: record.kilometers ?? undefined,
+                  hours: record.hours ?? undefined,
                   record_date: new Date(record.record_date),
                   created_at: new Date(record.created_at),
                   updated_at: record.updated_at
@@ -594,6 +669,19 @@ class EquipmentRepository {
             last_mileage_record_date: eqplan.equipment.last_mileage_record_date
               ? new Date(eqplan.equipment.last_mileage_record_date)
               : undefined,
+            meter_types: eqplan.equipment.meter_types || ["km"],
+            avg_hours: eqplan.equipment.avg_hours
+              ? Number(eqplan.equipment.avg_hours)
+              : undefined,
+            last_hours_value: eqplan.equipment.last_hours_value
+              ? Number(eqplan.equipment.last_hours_value)
+              : undefined,
+            last_hours_record_date: eqplan.equipment.last_hours_record_date
+              ? new Date(eqplan.equipment.last_hours_record_date)
+              : undefined,
+            maintenance_plan_id: eqplan.equipment.maintenance_plan_id,
+            maintenance_plan_version:
+              eqplan.equipment.maintenance_plan_version ?? undefined,
             maintenance_plan_name: eqplan.equipment.maintenance_plan_name,
           },
           last_maintenance_type: eqplan.last_maintenance_type
@@ -616,6 +704,11 @@ class EquipmentRepository {
           remaining_mileage: eqplan.remaining_mileage
             ? Number(eqplan.remaining_mileage)
             : undefined,
+          remaining_hours:
+            eqplan.remaining_hours !== undefined &&
+            eqplan.remaining_hours !== null
+              ? Number(eqplan.remaining_hours)
+              : undefined,
         })
       );
 
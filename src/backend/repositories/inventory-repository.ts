@@ -0,0 +1,436 @@
+import { Queryable, unitOfWork } from "./unit-of-work";
+import {
+  MultiSparePartStock,
+  MultiStockMovement,
+  SparePartConsumption,
+  SparePartLocationStock,
+  SparePartReorderPolicy,
+  SparePartStock,
+  StockMovementBase,
+  StockMovementCreate,
+  StockMovementFilters,
+} from "@/types/inventory";
+import { GlobalErrorResponse, InventoryErrorCodes } from "@/lib/errors";
+
+export class InventoryError extends Error {
+  public readonly code: InventoryErrorCodes;
+  public readonly details?: unknown;
+
+  constructor(code: InventoryErrorCodes, message: string, details?: unknown) {
+    super(message);
+    this.name = "InventoryError";
+    this.code = code;
+    this.details = details;
+  }
+}
+
+/**
+ * Repositorio para gestionar el inventario de repuestos
+ * Maneja el stock disponible de cada repuesto y el libro de movimientos
+ */
+class InventoryRepository {
+  private get db(): Queryable {
+    return unitOfWork.getConnection();
+  }
+
+  /**
+   * Bloquear un repuesto hasta el fin de la transacción activa
+   * Serializa los movimientos del repuesto para que el saldo no cambie entre
+   * la validación y el registro del movimiento
+   * @param sparePartId - ID del repuesto
+   * @param userId - ID del usuario
+   * @returns true si el repuesto existe y pertenece al usuario
+   */
+  async lockStock(sparePartId: string, userId: string): Promise<boolean> {
+    try {
+      const result = await this.db.query(
+        `
+        SELECT id
+        FROM mnt.spare_parts
+        WHERE id = $1 AND user_id = $2
+        FOR UPDATE
+      `,
+        [sparePartId, userId]
+      );
+
+      return result.rows.length > 0;
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "lockStock", {
+        sparePartId,
+        userId,
+      });
+    }
+  }
+
+  /**
+   * Obtener el stock de un repuesto, total y por ubicación
+   * @param sparePartId - ID del repuesto
+   * @param userId - ID del usuario
+   * @returns El stock del repuesto o null si no tiene movimientos
+   */
+  async getStock(
+    sparePartId: string,
+    userId: string
+  ): Promise<SparePartStock | null> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.get_spare_part_stock($1, $2)",
+        [sparePartId, userId]
+      );
+
+      const data = result.rows[0]?.get_spare_part_stock;
+      return data ? this.mapToStock(data) : null;
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "getStock", {
+        sparePartId,
+        userId,
+      });
+    }
+  }
+
+  /**
+   * Obtener el stock de varios repuestos
+   * @param sparePartIds - IDs de los repuestos
+   * @param userId - ID del usuario
+   * @returns El stock de los repuestos que tienen movimientos
+   */
+  async getStockByIds(
+    sparePartIds: string[],
+    userId: string
+  ): Promise<SparePartStock[]> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.get_spare_part_stocks_by_ids($1, $2)",
+        [sparePartIds, userId]
+      );
+
+      return (result.rows[0].get_spare_part_stocks_by_ids || []).map(
+        (stock: SparePartStock) => this.mapToStock(stock)
+      );
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "getStockByIds", {
+        sparePartIds,
+        userId,
+      });
+    }
+  }
+
+  /**
+   * Obtener el stock de los repuestos del usuario
+   * @param userId - ID del usuario
+   * @param limit - Límite de resultados
+   * @param offset - Desplazamiento para la paginación
+   * @returns Lista paginada del stock de cada repuesto
+   */
+  async getStockLevels(
+    userId: string,
+    limit: number = 100,
+    offset: number = 0
+  ): Promise<MultiSparePartStock> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.get_spare_part_stocks($1, $2, $3)",
+        [userId, limit, offset]
+      );
+
+      const response = result.rows[0].get_spare_part_stocks;
+      return {
+        total: Number(response?.total || 0),
+        limit,
+        offset,
+        pages: Number(response?.pages || 0),
+        data: (response?.data || []).map((stock: SparePartStock) =>
+          this.mapToStock(stock)
+        ),
+      };
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "getStockLevels", {
+        userId,
+        limit,
+        offset,
+      });
+    }
+  }
+
+  /**
+   * Permitir o no que el stock de un repuesto quede negativo
+   * @param sparePartId - ID del repuesto
+   * @param allowNegative - Si se permite stock negativo
+   * @param userId - ID del usuario
+   * @returns El ID del repuesto
+   */
+  async setAllowNegative(
+    sparePartId: string,
+    allowNegative: boolean,
+    userId: string
+  ): Promise<{ spare_part_id: string }> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.set_spare_part_allow_negative($1, $2, $3)",
+        [sparePartId, allowNegative, userId]
+      );
+
+      return {
+        spare_part_id:
+          result.rows[0].set_spare_part_allow_negative.spare_part_id,
+      };
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "setAllowNegative", {
+        sparePartId,
+        allowNegative,
+        userId,
+      });
+    }
+  }
+
+  /**
+   * Configurar el punto de reorden de un repuesto
+   * @param sparePartId - ID del repuesto
+   * @param policy - Stock mínimo y lote de compra
+   * @param userId - ID del usuario
+   * @returns El ID del repuesto
+   */
+  async setReorderPolicy(
+    sparePartId: string,
+    policy: SparePartReorderPolicy,
+    userId: string
+  ): Promise<{ spare_part_id: string }> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.set_spare_part_reorder_policy($1, $2, $3, $4)",
+        [sparePartId, policy.min_stock, policy.reorder_quantity, userId]
+      );
+
+      return {
+        spare_part_id:
+          result.rows[0].set_spare_part_reorder_policy.spare_part_id,
+      };
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "setReorderPolicy", {
+        sparePartId,
+        policy,
+        userId,
+      });
+    }
+  }
+
+  /**
+   * Agregar un movimiento al libro y actualizar el stock del repuesto
+   * @param movement - Datos del movimiento
+   * @returns El ID, fecha y saldo resultante del movimiento
+   */
+  async createMovement(
+    movement: StockMovementCreate & { warehouse_id: string }
+  ): Promise<{ id: string; created_at: Date; balance: number }> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.create_stock_movement($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)",
+        [
+          movement.spare_part_id,
+          movement.warehouse_id,
+          movement.movement_type,
+          movement.quantity,
+          movement.unit_cost ?? null,
+          movement.maintenance_record_id ?? null,
+          movement.maintenance_spare_part_id ?? null,
+          movement.transfer_id ?? null,
+          movement.purchase_order_id ?? null,
+          movement.notes ?? null,
+          movement.user_id,
+        ]
+      );
+
+      const response = result.rows[0].create_stock_movement;
+      return {
+        id: response.id,
+        created_at: new Date(response.created_at),
+        balance: Number(response.balance),
+      };
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "createMovement", {
+        movement,
+      });
+    }
+  }
+
+  /**
+   * Obtener los movimientos del libro, del más reciente al más antiguo
+   * @param userId - ID del usuario
+   * @param filters - Repuesto, ubicación o registro de mantenimiento
+   * @param limit - Límite de resultados
+   * @param offset - Desplazamiento para la paginación
+   * @returns Lista paginada de movimientos
+   */
+  async getMovements(
+    userId: string,
+    filters: StockMovementFilters = {},
+    limit: number = 100,
+    offset: number = 0
+  ): Promise<MultiStockMovement> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.get_stock_movements($1, $2, $3, $4, $5, $6)",
+        [
+          userId,
+          filters.spare_part_id ?? null,
+          filters.warehouse_id ?? null,
+          filters.maintenance_record_id ?? null,
+          limit,
+          offset,
+        ]
+      );
+
+      const response = result.rows[0].get_stock_movements;
+      return {
+        total: Number(response?.total || 0),
+        limit,
+        offset,
+        pages: Number(response?.pages || 0),
+        data: (response?.data || []).map((movement: StockMovementBase) =>
+          this.mapToMovement(movement)
+        ),
+      };
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "getMovements", {
+        userId,
+        filters,
+        limit,
+        offset,
+      });
+    }
+  }
+
+  /**
+   * Obtener lo consumido de cada repuesto en los mantenimientos, descontando
+   * las devoluciones
+   * @param userId - ID del usuario
+   * @param from - Inicio del periodo (opcional)
+   * @param to - Fin del periodo (opcional)
+   * @returns Cantidad y costo consumido por repuesto
+   */
+  async getConsumption(
+    userId: string,
+    from?: Date,
+    to?: Date
+  ): Promise<SparePartConsumption[]> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.get_spare_part_consumption($1, $2, $3)",
+        [userId, from ?? null, to ?? null]
+      );
+
+      return (result.rows[0].get_spare_part_consumption || []).map(
+        (consumption: SparePartConsumption) => ({
+          spare_part_id: consumption.spare_part_id,
+          quantity: Number(consumption.quantity || 0),
+          total_cost: Number(consumption.total_cost || 0),
+        })
+      );
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "getConsumption", {
+        userId,
+        from,
+        to,
+      });
+    }
+  }
+
+  /**
+   * Mapear datos de la base de datos a SparePartStock
+   */
+  private mapToStock(data: SparePartStock): SparePartStock {
+    return {
+      spare_part_id: data.spare_part_id,
+      spare_part: data.spare_part
+        ? { ...data.spare_part, price: Number(data.spare_part.price) }
+        : undefined,
+      on_hand: Number(data.on_hand || 0),
+      locations: (data.locations || []).map(
+        (location: SparePartLocationStock) => ({
+          warehouse_id: location.warehouse_id,
+          warehouse_name: location.warehouse_name,
+          on_hand: Number(location.on_hand || 0),
+        })
+      ),
+      allow_negative: !!data.allow_negative,
+      min_stock: Number(data.min_stock || 0),
+      reorder_quantity: Number(data.reorder_quantity || 0),
+      updated_at: data.updated_at ? new Date(data.updated_at) : undefined,
+    };
+  }
+
+  /**
+   * Mapear datos de la base de datos a StockMovementBase
+   */
+  private mapToMovement(data: StockMovementBase): StockMovementBase {
+    return {
+      id: data.id,
+      spare_part_id: data.spare_part_id,
+      warehouse_id: data.warehouse_id,
+      warehouse_name: data.warehouse_name ?? undefined,
+      movement_type: data.movement_type,
+      quantity: Number(data.quantity),
+      balance: Number(data.balance),
+      unit_cost:
+        data.unit_cost !== null && data.unit_cost !== undefined
+          ? Number(data.unit_cost)
+          : undefined,
+      maintenance_record_id: data.maintenance_record_id ?? undefined,
+      maintenance_spare_part_id: data.maintenance_spare_part_id ?? undefined,
+      transfer_id: data.transfer_id ?? undefined,
+      purchase_order_id: data.purchase_order_id ?? undefined,
+      notes: data.notes ?? undefined,
+      created_at: new Date(data.created_at),
+      user_id: data.user_id,
+    };
+  }
+
+  /**
+   * Manejo centralizado de errores
+   * @param error - Error capturado
+   * @param operation - Operación que falló
+   * @param params - Parámetros de la operación
+   */
+  private handleError(
+    error: GlobalErrorResponse,
+    operation: string,
+    params?: unknown
+  ): never {
+    console.error(`Error in InventoryRepository.${operation}:`, {
+      error: error.message,
+      stack: error.stack,
+      params,
+    });
+
+    if (error instanceof InventoryError) {
+      throw error;
+    }
+
+    if (error.message?.includes("not found")) {
+      throw new InventoryError(InventoryErrorCodes.NOT_FOUND, error.message);
+    }
+
+    if (error.message?.includes("access denied")) {
+      throw new InventoryError(
+        InventoryErrorCodes.ACCESS_DENIED,
+        error.message
+      );
+    }
+
+    if (error.message?.includes("insufficient stock")) {
+      throw new InventoryError(
+        InventoryErrorCodes.INSUFFICIENT_STOCK,
+        "Stock insuficiente para el repuesto"
+      );
+    }
+
+    // Error genérico de base de datos
+    throw new InventoryError(
+      InventoryErrorCodes.DATABASE_ERROR,
+      `Database operation failed: ${error.message}`,
+      error
+    );
+  }
+}
+
+export const inventoryRepository = new InventoryRepository();
@@ -1,5 +1,4 @@
-import { pool } from "@/lib/supabase";
-import { Pool } from "pg";
+import { Queryable, unitOfWork } from "./unit-of-work";
 import {
   MaintenanceActivityBase,
   MaintenanceActivityWithDetails,
@@ -30,10 +29,8 @@ export enum MaintenanceActivityErrorCodes {
 }
 
 class MaintenanceActivityRepository {
-  private db: Pool;
-
-  constructor() {
-    this.db = pool;
+  private get db(): Queryable {
+    return unitOfWork.getConnection();
   }
 
   /**
@@ -44,7 +41,7 @@ class MaintenanceActivityRepository {
   ): Promise<{ id: string; created_at: Date }> {
     try {
       const result = await this.db.query(
-        "SELECT mnt.create_maintenance_activity($1, $2, $3, $4, $5, $6)",
+        "SELECT mnt.create_maintenance_activity($1, $2, $3, $4, $5, $6, $7)",
         [
           maintenanceActivity.maintenance_record_id,
           maintenanceActivity.activity_id,
@@ -52,6 +49,7 @@ class MaintenanceActivityRepository {
           maintenanceActivity.observations || null,
           maintenanceActivity.priority || "no",
           maintenanceActivity.user_id,
+          maintenanceActivity.mandatory ?? false,
         ]
       );
 
@@ -123,6 +121,38 @@ class MaintenanceActivityRepository {
     }
   }
 
+  /**
+   * Obtener las actividades con detalles de varios registros de mantenimiento
+   */
+  async getByMaintenanceRecordsWithDetails(
+    maintenanceRecordIds: string[],
+    userId: string
+  ): Promise<MaintenanceActivityWithDetails[]> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.get_maintenance_activities_with_details_by_records($1, $2)",
+        [maintenanceRecordIds, userId]
+      );
+
+      const activities =
+        result.rows[0].get_maintenance_activities_with_details_by_records;
+
+      return (activities || []).map(
+        (activity: MaintenanceActivityWithDetails) =>
+          this.mapToMaintenanceActivityWithDetails(activity)
+      );
+    } catch (err) {
+      this.handleError(
+        err as GlobalErrorResponse,
+        "getByMaintenanceRecordsWithDetails",
+        {
+          maintenanceRecordIds,
+          userId,
+        }
+      );
+    }
+  }
+
   /**
    * Obtener todos los registros de actividades de mantenimiento de un usuario con paginación
    */
@@ -323,6 +353,7 @@ class MaintenanceActivityRepository {
       maintenance_record_id: data.maintenance_record_id,
       activity_id: data.activity_id,
       priority: data.priority,
+      mandatory: data.mandatory ?? false,
       status: data.status,
       observations: data.observations,
       created_at: new Date(data.created_at),
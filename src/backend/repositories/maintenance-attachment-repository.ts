@@ -0,0 +1,206 @@
+import { Queryable, unitOfWork } from "./unit-of-work";
+import {
+  MaintenanceAttachmentBase,
+  MaintenanceAttachmentCreate,
+} from "@/types/maintenance-attachment";
+import {
+  GlobalErrorResponse,
+  MaintenanceAttachmentErrorCodes,
+} from "@/lib/errors";
+
+export class MaintenanceAttachmentError extends Error {
+  public readonly code: MaintenanceAttachmentErrorCodes;
+  public readonly details?: unknown;
+
+  constructor(
+    code: MaintenanceAttachmentErrorCodes,
+    message: string,
+    details?: unknown
+  ) {
+    super(message);
+    this.name = "MaintenanceAttachmentError";
+    this.code = code;
+    this.details = details;
+  }
+}
+
+/**
+ * Repositorio para gestionar los adjuntos de los mantenimientos
+ * Solo guarda los metadatos; el contenido vive en el almacenamiento
+ */
+class MaintenanceAttachmentRepository {
+  private get db(): Queryable {
+    return unitOfWork.getConnection();
+  }
+
+  /**
+   * Registrar un adjunto ya guardado en el almacenamiento
+   * @param attachment - Registro, tipo, archivo y claves de almacenamiento
+   * @returns El ID y fecha de creación del adjunto
+   */
+  async create(
+    attachment: MaintenanceAttachmentCreate
+  ): Promise<{ id: string; created_at: Date }> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.create_maintenance_attachment($1, $2, $3, $4, $5, $6, $7, $8, $9)",
+        [
+          attachment.maintenance_record_id,
+          attachment.kind,
+          attachment.file_name,
+          attachment.content_type,
+          attachment.size,
+          attachment.storage_key,
+          attachment.thumbnail_key ?? null,
+          attachment.description ?? null,
+          attachment.user_id,
+        ]
+      );
+
+      const response = result.rows[0].create_maintenance_attachment;
+      return {
+        id: response.id,
+        created_at: new Date(response.created_at),
+      };
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "create", { attachment });
+    }
+  }
+
+  /**
+   * Obtener un adjunto por su ID
+   * @param id - ID del adjunto
+   * @param userId - ID del usuario
+   * @returns El adjunto o null
+   */
+  async getById(
+    id: string,
+    userId: string
+  ): Promise<MaintenanceAttachmentBase | null> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.get_maintenance_attachment_by_id($1, $2)",
+        [id, userId]
+      );
+
+      const data = result.rows[0]?.get_maintenance_attachment_by_id;
+      return data ? this.mapToAttachment(data) : null;
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "getById", { id, userId });
+    }
+  }
+
+  /**
+   * Obtener los adjuntos de un registro de mantenimiento
+   * @param maintenanceRecordId - ID del registro de mantenimiento
+   * @param userId - ID del usuario
+   * @returns Adjuntos del registro, del más reciente al más antiguo
+   */
+  async getByMaintenanceRecord(
+    maintenanceRecordId: string,
+    userId: string
+  ): Promise<MaintenanceAttachmentBase[]> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.get_maintenance_attachments($1, $2)",
+        [maintenanceRecordId, userId]
+      );
+
+      return (result.rows[0].get_maintenance_attachments || []).map(
+        (attachment: MaintenanceAttachmentBase) =>
+          this.mapToAttachment(attachment)
+      );
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "getByMaintenanceRecord", {
+        maintenanceRecordId,
+        userId,
+      });
+    }
+  }
+
+  /**
+   * Eliminar un adjunto
+   * @param id - ID del adjunto
+   * @param userId - ID del usuario
+   * @returns El ID del adjunto eliminado
+   */
+  async delete(id: string, userId: string): Promise<{ id: string }> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.delete_maintenance_attachment($1, $2)",
+        [id, userId]
+      );
+
+      return { id: result.rows[0].delete_maintenance_attachment.id };
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "delete", { id, userId });
+    }
+  }
+
+  /**
+   * Mapear datos de la base de datos a MaintenanceAttachmentBase
+   */
+  private mapToAttachment(
+    data: MaintenanceAttachmentBase
+  ): MaintenanceAttachmentBase {
+    return {
+      id: data.id,
+      maintenance_record_id: data.maintenance_record_id,
+      kind: data.kind,
+      file_name: data.file_name,
+      content_type: data.content_type,
+      size: Number(data.size),
+      storage_key: data.storage_key,
+      thumbnail_key: data.thumbnail_key ?? undefined,
+      description: data.description ?? undefined,
+      created_at: new Date(data.created_at),
+      user_id: data.user_id,
+    };
+  }
+
+  /**
+   * Manejo centralizado de errores
+   * @param error - Error capturado
+   * @param operation - Operación que falló
+   * @param params - Parámetros de la operación
+   */
+  private handleError(
+    error: GlobalErrorResponse,
+    operation: string,
+    params?: unknown
+  ): never {
+    console.error(`Error in MaintenanceAttachmentRepository.${operation}:`, {
+      error: error.message,
+      stack: error.stack,
+      params,
+    });
+
+    if (error instanceof MaintenanceAttachmentError) {
+      throw error;
+    }
+
+    if (error.message?.includes("not found")) {
+      throw new MaintenanceAttachmentError(
+        MaintenanceAttachmentErrorCodes.NOT_FOUND,
+        error.message
+      );
+    }
+
+    if (error.message?.includes("access denied")) {
+      throw new MaintenanceAttachmentError(
+        MaintenanceAttachmentErrorCodes.ACCESS_DENIED,
+        error.message
+      );
+    }
+
+    // Error genérico de base de datos
+    throw new MaintenanceAttachmentError(
+      MaintenanceAttachmentErrorCodes.DATABASE_ERROR,
+      `Database operation failed: ${error.message}`,
+      error
+    );
+  }
+}
+
+export const maintenanceAttachmentRepository =
+  new MaintenanceAttachmentRepository();
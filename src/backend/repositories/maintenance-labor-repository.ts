@@ -0,0 +1,486 @@
+import { Queryable, unitOfWork } from "./unit-of-work";
+import {
+  LaborClockIn,
+  LaborTimeEntry,
+  MaintenanceTechnicianAssignment,
+  MaintenanceTechnicianAssignmentCreate,
+} from "@/types/maintenance-labor";
+import { GlobalErrorResponse, MaintenanceLaborErrorCodes } from "@/lib/errors";
+
+export class MaintenanceLaborError extends Error {
+  public readonly code: MaintenanceLaborErrorCodes;
+  public readonly details?: unknown;
+
+  constructor(
+    code: MaintenanceLaborErrorCodes,
+    message: string,
+    details?: unknown
+  ) {
+    super(message);
+    this.name = "MaintenanceLaborError";
+    this.code = code;
+    this.details = details;
+  }
+}
+
+/**
+ * Repositorio para gestionar la mano de obra de los mantenimientos
+ * Maneja las asignaciones de técnicos y sus registros de tiempo
+ */
+class MaintenanceLaborRepository {
+  private get db(): Queryable {
+    return unitOfWork.getConnection();
+  }
+
+  /**
+   * Asignar un técnico a un registro o a una de sus actividades
+   * @param assignment - Registro, actividad opcional y técnico
+   * @returns El ID y fecha de creación de la asignación
+   */
+  async createAssignment(
+    assignment: MaintenanceTechnicianAssignmentCreate
+  ): Promise<{ id: string; created_at: Date }> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.create_maintenance_technician_assignment($1, $2, $3, $4)",
+        [
+          assignment.maintenance_record_id,
+          assignment.maintenance_activity_id ?? null,
+          assignment.technician_id,
+          assignment.user_id,
+        ]
+      );
+
+      const response = result.rows[0].create_maintenance_technician_assignment;
+      return {
+        id: response.id,
+        created_at: new Date(response.created_at),
+      };
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "createAssignment", {
+        assignment,
+      });
+    }
+  }
+
+  /**
+   * Obtener los técnicos asignados a un registro y a sus actividades
+   * @param maintenanceRecordId - ID del registro de mantenimiento
+   * @param userId - ID del usuario
+   * @returns Asignaciones del registro
+   */
+  async getAssignments(
+    maintenanceRecordId: string,
+    userId: string
+  ): Promise<MaintenanceTechnicianAssignment[]> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.get_maintenance_technician_assignments($1, $2)",
+        [maintenanceRecordId, userId]
+      );
+
+      return (
+        result.rows[0].get_maintenance_technician_assignments || []
+      ).map((assignment: MaintenanceTechnicianAssignment) =>
+        this.mapToAssignment(assignment)
+      );
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "getAssignments", {
+        maintenanceRecordId,
+        userId,
+      });
+    }
+  }
+
+  /**
+   * Obtener una asignación por su ID
+   * @param id - ID de la asignación
+   * @param userId - ID del usuario
+   * @returns La asignación o null
+   */
+  async getAssignmentById(
+    id: string,
+    userId: string
+  ): Promise<MaintenanceTechnicianAssignment | null> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.get_maintenance_technician_assignment_by_id($1, $2)",
+        [id, userId]
+      );
+
+      const data =
+        result.rows[0]?.get_maintenance_technician_assignment_by_id;
+      return data ? this.mapToAssignment(data) : null;
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "getAssignmentById", {
+        id,
+        userId,
+      });
+    }
+  }
+
+  /**
+   * Quitar una asignación
+   * @param id - ID de la asignación
+   * @param userId - ID del usuario
+   * @returns El ID de la asignación eliminada
+   */
+  async deleteAssignment(id: string, userId: string): Promise<{ id: string }> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.delete_maintenance_technician_assignment($1, $2)",
+        [id, userId]
+      );
+
+      return {
+        id: result.rows[0].delete_maintenance_technician_assignment.id,
+      };
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "deleteAssignment", {
+        id,
+        userId,
+      });
+    }
+  }
+
+  /**
+   * Bloquear un técnico hasta el fin de la transacción activa
+   * Serializa las entradas del técnico para que dos marcas simultáneas no
+   * dejen dos tiempos abiertos
+   * @param technicianId - ID del técnico
+   * @param userId - ID del usuario
+   * @returns true si el técnico existe y pertenece al usuario
+   */
+  async lockTechnician(technicianId: string, userId: string): Promise<boolean> {
+    try {
+      const result = await this.db.query(
+        `
+        SELECT id
+        FROM mnt.technicians
+        WHERE id = $1 AND user_id = $2
+        FOR UPDATE
+      `,
+        [technicianId, userId]
+      );
+
+      return result.rows.length > 0;
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "lockTechnician", {
+        technicianId,
+        userId,
+      });
+    }
+  }
+
+  /**
+   * Crear un registro de tiempo con la tarifa del técnico
+   * @param entry - Registro, actividad, técnico, entrada y salida opcional
+   * @param hourlyRate - Tarifa por hora vigente del técnico
+   * @returns El ID y fecha de creación del registro de tiempo
+   */
+  async createTimeEntry(
+    entry: LaborClockIn & { clock_in: Date },
+    hourlyRate: number
+  ): Promise<{ id: string; created_at: Date }> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.create_labor_time_entry($1, $2, $3, $4, $5, $6, $7, $8)",
+        [
+          entry.maintenance_record_id,
+          entry.maintenance_activity_id ?? null,
+          entry.technician_id,
+          entry.clock_in.toISOString(),
+          entry.clock_out ? entry.clock_out.toISOString() : null,
+          hourlyRate,
+          entry.notes ?? null,
+          entry.user_id,
+        ]
+      );
+
+      const response = result.rows[0].create_labor_time_entry;
+      return {
+        id: response.id,
+        created_at: new Date(response.created_at),
+      };
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "createTimeEntry", {
+        entry,
+        hourlyRate,
+      });
+    }
+  }
+
+  /**
+   * Marcar la salida de un registro de tiempo
+   * @param id - ID del registro de tiempo
+   * @param clockOut - Fecha y hora de salida
+   * @param notes - Notas (opcional)
+   * @param userId - ID del usuario
+   * @returns El ID del registro de tiempo
+   */
+  async setClockOut(
+    id: string,
+    clockOut: Date,
+    notes: string | undefined,
+    userId: string
+  ): Promise<{ id: string }> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.set_labor_time_entry_clock_out($1, $2, $3, $4)",
+        [id, clockOut.toISOString(), notes ?? null, userId]
+      );
+
+      return { id: result.rows[0].set_labor_time_entry_clock_out.id };
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "setClockOut", {
+        id,
+        clockOut,
+        userId,
+      });
+    }
+  }
+
+  /**
+   * Obtener un registro de tiempo por su ID
+   * @param id - ID del registro de tiempo
+   * @param userId - ID del usuario
+   * @returns El registro de tiempo o null
+   */
+  async getTimeEntryById(
+    id: string,
+    userId: string
+  ): Promise<LaborTimeEntry | null> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.get_labor_time_entry_by_id($1, $2)",
+        [id, userId]
+      );
+
+      const data = result.rows[0]?.get_labor_time_entry_by_id;
+      return data ? this.mapToTimeEntry(data) : null;
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "getTimeEntryById", {
+        id,
+        userId,
+      });
+    }
+  }
+
+  /**
+   * Obtener los registros de tiempo de un registro de mantenimiento o de un
+   * técnico
+   * @param userId - ID del usuario
+   * @param filters - Registro de mantenimiento y/o técnico
+   * @returns Registros de tiempo, del más reciente al más antiguo
+   */
+  async getTimeEntries(
+    userId: string,
+    filters: { maintenance_record_id?: string; technician_id?: string }
+  ): Promise<LaborTimeEntry[]> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.get_labor_time_entries($1, $2, $3)",
+        [
+          userId,
+          filters.maintenance_record_id ?? null,
+          filters.technician_id ?? null,
+        ]
+      );
+
+      return (result.rows[0].get_labor_time_entries || []).map(
+        (entry: LaborTimeEntry) => this.mapToTimeEntry(entry)
+      );
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "getTimeEntries", {
+        userId,
+        filters,
+      });
+    }
+  }
+
+  /**
+   * Obtener el registro de tiempo sin salida de un técnico
+   * @param technicianId - ID del técnico
+   * @param userId - ID del usuario
+   * @returns El registro de tiempo abierto o null
+   */
+  async getOpenTimeEntry(
+    technicianId: string,
+    userId: string
+  ): Promise<LaborTimeEntry | null> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.get_open_labor_time_entry($1, $2)",
+        [technicianId, userId]
+      );
+
+      const data = result.rows[0]?.get_open_labor_time_entry;
+      return data ? this.mapToTimeEntry(data) : null;
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "getOpenTimeEntry", {
+        technicianId,
+        userId,
+      });
+    }
+  }
+
+  /**
+   * Obtener los registros de tiempo de varios registros de mantenimiento
+   * @param userId - ID del usuario
+   * @param maintenanceRecordIds - IDs de los registros de mantenimiento
+   * @returns Registros de tiempo, del más reciente al más antiguo
+   */
+  async getTimeEntriesByRecords(
+    userId: string,
+    maintenanceRecordIds: string[]
+  ): Promise<LaborTimeEntry[]> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.get_labor_time_entries_by_records($1, $2)",
+        [userId, maintenanceRecordIds]
+      );
+
+      return (result.rows[0].get_labor_time_entries_by_records || []).map(
+        (entry: LaborTimeEntry) => this.mapToTimeEntry(entry)
+      );
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "getTimeEntriesByRecords", {
+        userId,
+        maintenanceRecordIds,
+      });
+    }
+  }
+
+  /**
+   * Eliminar un registro de tiempo
+   * @param id - ID del registro de tiempo
+   * @param userId - ID del usuario
+   * @returns El ID del registro de tiempo eliminado
+   */
+  async deleteTimeEntry(id: string, userId: string): Promise<{ id: string }> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.delete_labor_time_entry($1, $2)",
+        [id, userId]
+      );
+
+      return { id: result.rows[0].delete_labor_time_entry.id };
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "deleteTimeEntry", {
+        id,
+        userId,
+      });
+    }
+  }
+
+  /**
+   * Mapear datos de la base de datos a MaintenanceTechnicianAssignment
+   */
+  private mapToAssignment(
+    data: MaintenanceTechnicianAssignment
+  ): MaintenanceTechnicianAssignment {
+    return {
+      id: data.id,
+      maintenance_record_id: data.maintenance_record_id,
+      maintenance_activity_id: data.maintenance_activity_id ?? undefined,
+      technician_id: data.technician_id,
+      technician: data.technician
+        ? {
+            id: data.technician.id,
+            name: data.technician.name,
+            hourly_rate: Number(data.technician.hourly_rate),
+          }
+        : undefined,
+      created_at: new Date(data.created_at),
+      user_id: data.user_id,
+    };
+  }
+
+  /**
+   * Mapear datos de la base de datos a LaborTimeEntry
+   * Las horas y el costo se calculan a partir de la entrada, la salida y la
+   * tarifa copiada
+   */
+  private mapToTimeEntry(data: LaborTimeEntry): LaborTimeEntry {
+    const clockIn = new Date(data.clock_in);
+    const clockOut = data.clock_out ? new Date(data.clock_out) : undefined;
+    const hourlyRate = Number(data.hourly_rate);
+    const hours = clockOut
+      ? (clockOut.getTime() - clockIn.getTime()) / 3600000
+      : undefined;
+
+    return {
+      id: data.id,
+      maintenance_record_id: data.maintenance_record_id,
+      maintenance_activity_id: data.maintenance_activity_id ?? undefined,
+      technician_id: data.technician_id,
+      technician: data.technician
+        ? {
+            id: data.technician.id,
+            name: data.technician.name,
+            hourly_rate: Number(data.technician.hourly_rate),
+          }
+        : undefined,
+      clock_in: clockIn,
+      clock_out: clockOut,
+      hourly_rate: hourlyRate,
+      hours,
+      cost: hours !== undefined ? hours * hourlyRate : undefined,
+      notes: data.notes ?? undefined,
+      created_at: new Date(data.created_at),
+      user_id: data.user_id,
+    };
+  }
+
+  /**
+   * Manejo centralizado de errores
+   * @param error - Error capturado
+   * @param operation - Operación que falló
+   * @param params - Parámetros de la operación
+   */
+  private handleError(
+    error: GlobalErrorResponse,
+    operation: string,
+    params?: unknown
+  ): never {
+    console.error(`Error in MaintenanceLaborRepository.${operation}:`, {
+      error: error.message,
+      stack: error.stack,
+      params,
+    });
+
+    if (error instanceof MaintenanceLaborError) {
+      throw error;
+    }
+
+    if (error.message?.includes("not found")) {
+      throw new MaintenanceLaborError(
+        MaintenanceLaborErrorCodes.NOT_FOUND,
+        error.message
+      );
+    }
+
+    if (error.message?.includes("access denied")) {
+      throw new MaintenanceLaborError(
+        MaintenanceLaborErrorCodes.ACCESS_DENIED,
+        error.message
+      );
+    }
+
+    if (error.message?.includes("duplicate key")) {
+      throw new MaintenanceLaborError(
+        MaintenanceLaborErrorCodes.ALREADY_ASSIGNED,
+        "El técnico ya está asignado"
+      );
+    }
+
+    // Error genérico de base de datos
+    throw new MaintenanceLaborError(
+      MaintenanceLaborErrorCodes.DATABASE_ERROR,
+      `Database operation failed: ${error.message}`,
+      error
+    );
+  }
+}
+
+export const maintenanceLaborRepository = new MaintenanceLaborRepository();
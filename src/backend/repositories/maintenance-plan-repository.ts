@@ -1,5 +1,4 @@
-import { Pool } from "pg";
-import { pool } from "@/lib/supabase";
+import { Queryable, unitOfWork } from "./unit-of-work";
 
 import {
   MaintenancePlanBase,
@@ -11,10 +10,8 @@ import {
 } from "@/types/maintenance-plan";
 
 class MaintenancePlanRepository {
-  private db: Pool;
-
-  constructor() {
-    this.db = pool;
+  private get db(): Queryable {
+    return unitOfWork.getConnection();
   }
 
   /**
@@ -25,6 +22,9 @@ class MaintenancePlanRepository {
       id: planData.id,
       name: planData.name,
       description: planData.description,
+      cycle_mode: planData.cycle_mode || "terminate",
+      cycle_restart_index: planData.cycle_restart_index ?? undefined,
+      current_version: planData.current_version ?? undefined,
       created_at: new Date(planData.created_at),
       updated_at: planData.updated_at
         ? new Date(planData.updated_at)
@@ -43,8 +43,14 @@ class MaintenancePlanRepository {
   ): Promise<{ id: string; created_at: Date }> {
     try {
       const result = await this.db.query(
-        "SELECT mnt.create_maintenance_plan($1, $2, $3)",
-        [plan.name, plan.description || null, plan.user_id]
+        "SELECT mnt.create_maintenance_plan($1, $2, $3, $4, $5)",
+        [
+          plan.name,
+          plan.description || null,
+          plan.user_id,
+          plan.cycle_mode || "terminate",
+          plan.cycle_restart_index ?? null,
+        ]
       );
 
       const response = result.rows[0].create_maintenance_plan;
@@ -114,6 +120,28 @@ class MaintenancePlanRepository {
     }
   }
 
+  /**
+   * Bloquear un plan hasta el final de la transacción actual
+   * Serializa las operaciones que modifican las etapas del plan
+   * @returns El plan bloqueado o null si no existe
+   */
+  async lock(id: string, userId: string): Promise<MaintenancePlanBase | null> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.lock_maintenance_plan($1, $2)",
+        [id, userId]
+      );
+
+      const planData = result.rows[0].lock_maintenance_plan;
+      if (!planData) return null;
+
+      return this.mapPlanData(planData);
+    } catch (err) {
+      console.error("Error al bloquear maintenance plan:", err);
+      throw err;
+    }
+  }
+
   /**
    * Actualizar plan
    */
@@ -123,8 +151,15 @@ class MaintenancePlanRepository {
   ): Promise<{ id: string }> {
     try {
       const result = await this.db.query(
-        "SELECT mnt.update_maintenance_plan($1, $2, $3, $4)",
-        [plan.id, userId, plan.name, plan.description]
+        "SELECT mnt.update_maintenance_plan($1, $2, $3, $4, $5, $6)",
+        [
+          plan.id,
+          userId,
+          plan.name,
+          plan.description,
+          plan.cycle_mode ?? null,
+          plan.cycle_restart_index ?? null,
+        ]
       );
 
       return result.rows[0].update_maintenance_plan;
@@ -172,6 +207,27 @@ class MaintenancePlanRepository {
     }
   }
 
+  /**
+   * Obtener los nombres de plan que comienzan con un prefijo, sin distinguir
+   * mayúsculas
+   */
+  async getNamesStartingWith(
+    prefix: string,
+    userId: string
+  ): Promise<string[]> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.get_maintenance_plan_names_by_prefix($1, $2)",
+        [prefix, userId]
+      );
+
+      return result.rows[0].get_maintenance_plan_names_by_prefix || [];
+    } catch (err) {
+      console.error("Error al obtener nombres de plan:", err);
+      throw err;
+    }
+  }
+
   /**
    * Verificar si se puede eliminar
    */
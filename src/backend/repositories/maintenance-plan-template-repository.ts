@@ -0,0 +1,171 @@
+import { Queryable, unitOfWork } from "./unit-of-work";
+
+import {
+  MaintenancePlanTemplateBase,
+  MaintenancePlanTemplateCreate,
+  MaintenancePlanTemplateStage,
+  MultiMaintenancePlanTemplate,
+} from "@/types/maintenance-plan-template";
+
+class MaintenancePlanTemplateRepository {
+  private get db(): Queryable {
+    return unitOfWork.getConnection();
+  }
+
+  /**
+   * Mapear datos de plantilla desde la base de datos
+   */
+  private mapTemplateData(
+    templateData: MaintenancePlanTemplateBase
+  ): MaintenancePlanTemplateBase {
+    return {
+      id: templateData.id,
+      name: templateData.name,
+      description: templateData.description,
+      cycle_mode: templateData.cycle_mode || "terminate",
+      cycle_restart_index: templateData.cycle_restart_index ?? undefined,
+      stages: (templateData.stages || []).map(
+        (stage: MaintenancePlanTemplateStage) => ({
+          maintenance_type_id: stage.maintenance_type_id,
+          stage_index: Number(stage.stage_index),
+          kilometers: Number(stage.kilometers),
+          days: Number(stage.days),
+          hours:
+            stage.hours !== null && stage.hours !== undefined
+              ? Number(stage.hours)
+              : undefined,
+          maintenance_type: stage.maintenance_type,
+        })
+      ),
+      created_at: new Date(templateData.created_at),
+      updated_at: templateData.updated_at
+        ? new Date(templateData.updated_at)
+        : undefined,
+      user_id: templateData.user_id,
+    };
+  }
+
+  /**
+   * Crear una nueva plantilla de plan
+   */
+  async create(
+    template: MaintenancePlanTemplateCreate
+  ): Promise<{ id: string; created_at: Date }> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.create_maintenance_plan_template($1, $2, $3, $4, $5, $6)",
+        [
+          template.name,
+          template.description || null,
+          template.user_id,
+          template.cycle_mode,
+          template.cycle_restart_index ?? null,
+          JSON.stringify(template.stages),
+        ]
+      );
+
+      const response = result.rows[0].create_maintenance_plan_template;
+      return {
+        id: response.id,
+        created_at: new Date(response.created_at),
+      };
+    } catch (err) {
+      console.error("Error al insertar maintenance plan template:", err);
+      throw err;
+    }
+  }
+
+  /**
+   * Obtener plantilla por ID
+   */
+  async getById(
+    id: string,
+    userId: string
+  ): Promise<MaintenancePlanTemplateBase | null> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.get_maintenance_plan_template_by_id($1, $2)",
+        [id, userId]
+      );
+
+      const templateData = result.rows[0].get_maintenance_plan_template_by_id;
+      if (!templateData) return null;
+
+      return this.mapTemplateData(templateData);
+    } catch (err) {
+      console.error("Error al obtener maintenance plan template por ID:", err);
+      throw err;
+    }
+  }
+
+  /**
+   * Obtener todas las plantillas con paginación
+   */
+  async getAll(
+    limit: number = 100,
+    offset: number = 0,
+    userId: string
+  ): Promise<MultiMaintenancePlanTemplate> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.get_all_maintenance_plan_templates($1, $2, $3)",
+        [userId, limit, offset]
+      );
+
+      const response = result.rows[0].get_all_maintenance_plan_templates;
+
+      const data: MaintenancePlanTemplateBase[] = response.data.map(
+        (template: MaintenancePlanTemplateBase) =>
+          this.mapTemplateData(template)
+      );
+
+      return {
+        total: response.total,
+        limit: response.limit,
+        offset: response.offset,
+        pages: response.pages,
+        data,
+      };
+    } catch (err) {
+      console.error("Error al obtener maintenance plan templates:", err);
+      throw err;
+    }
+  }
+
+  /**
+   * Eliminar plantilla
+   */
+  async delete(id: string, userId: string): Promise<{ id: string }> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.delete_maintenance_plan_template($1, $2)",
+        [id, userId]
+      );
+
+      return result.rows[0].delete_maintenance_plan_template;
+    } catch (err) {
+      console.error("Error al eliminar maintenance plan template:", err);
+      throw err;
+    }
+  }
+
+  /**
+   * Verificar si existe un nombre de plantilla
+   */
+  async nameExists(name: string, userId: string): Promise<boolean> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.maintenance_plan_template_name_exists($1, $2)",
+        [name, userId]
+      );
+
+      return result.rows[0].maintenance_plan_template_name_exists;
+    } catch (err) {
+      console.error("Error al verificar nombre de plantilla:", err);
+      throw err;
+    }
+  }
+}
+
+export const maintenancePlanTemplateRepository =
+  new MaintenancePlanTemplateRepository();
@@ -0,0 +1,298 @@
+import { Queryable, unitOfWork } from "./unit-of-work";
+import {
+  MaintenancePlanVersionBase,
+  MaintenancePlanVersionCreate,
+  MaintenancePlanVersionEquipment,
+  MaintenancePlanVersionStage,
+  MaintenancePlanVersionsResponse,
+} from "@/types/maintenance-plan-version";
+import {
+  GlobalErrorResponse,
+  MaintenancePlanVersionErrorCodes,
+} from "@/lib/errors";
+
+export class MaintenancePlanVersionError extends Error {
+  public readonly code: MaintenancePlanVersionErrorCodes;
+  public readonly details?: unknown;
+
+  constructor(
+    code: MaintenancePlanVersionErrorCodes,
+    message: string,
+    details?: unknown
+  ) {
+    super(message);
+    this.name = "MaintenancePlanVersionError";
+    this.code = code;
+    this.details = details;
+  }
+}
+
+/**
+ * Repositorio para gestionar versiones de planes de mantenimiento
+ * Maneja las operaciones de base de datos para las versiones publicadas y la
+ * versión que sigue cada equipo
+ */
+class MaintenancePlanVersionRepository {
+  private get db(): Queryable {
+    return unitOfWork.getConnection();
+  }
+
+  /**
+   * Publicar una nueva versión del plan
+   * La base de datos asigna el número de versión y la marca como vigente
+   * @param version - Copia de las etapas y del ciclo del plan
+   * @returns El ID, número y fecha de creación de la versión
+   */
+  async create(
+    version: MaintenancePlanVersionCreate
+  ): Promise<{ id: string; version_number: number; created_at: Date }> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.create_maintenance_plan_version($1, $2, $3, $4, $5)",
+        [
+          version.maintenance_plan_id,
+          JSON.stringify(version.stages),
+          version.cycle_mode,
+          version.cycle_restart_index ?? null,
+          version.user_id,
+        ]
+      );
+
+      const response = result.rows[0].create_maintenance_plan_version;
+      return {
+        id: response.id,
+        version_number: Number(response.version_number),
+        created_at: new Date(response.created_at),
+      };
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "create", { version });
+    }
+  }
+
+  /**
+   * Obtener las versiones de un plan ordenadas de la más reciente a la más antigua
+   * @param planId - ID del plan
+   * @param userId - ID del usuario
+   * @returns Versiones del plan
+   */
+  async getByPlan(
+    planId: string,
+    userId: string
+  ): Promise<MaintenancePlanVersionsResponse> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.get_maintenance_plan_versions($1, $2)",
+        [planId, userId]
+      );
+
+      const response = result.rows[0].get_maintenance_plan_versions;
+      const data: MaintenancePlanVersionBase[] = (response?.data || [])
+        .map((version: MaintenancePlanVersionBase) =>
+          this.mapToVersion(version)
+        )
+        .sort(
+          (a: MaintenancePlanVersionBase, b: MaintenancePlanVersionBase) =>
+            b.version_number - a.version_number
+        );
+
+      return {
+        maintenance_plan_id: planId,
+        current_version: data[0]?.version_number,
+        data,
+      };
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "getByPlan", {
+        planId,
+        userId,
+      });
+    }
+  }
+
+  /**
+   * Obtener una versión de un plan por su número
+   * @param planId - ID del plan
+   * @param versionNumber - Número de versión
+   * @param userId - ID del usuario
+   * @returns La versión encontrada o null
+   */
+  async getByNumber(
+    planId: string,
+    versionNumber: number,
+    userId: string
+  ): Promise<MaintenancePlanVersionBase | null> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.get_maintenance_plan_version($1, $2, $3)",
+        [planId, versionNumber, userId]
+      );
+
+      const data = result.rows[0]?.get_maintenance_plan_version;
+      if (!data) return null;
+
+      return this.mapToVersion(data);
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "getByNumber", {
+        planId,
+        versionNumber,
+        userId,
+      });
+    }
+  }
+
+  /**
+   * Obtener los equipos asignados a un plan con la versión que siguen
+   * @param planId - ID del plan
+   * @param userId - ID del usuario
+   * @returns Equipos del plan
+   */
+  async getEquipment(
+    planId: string,
+    userId: string
+  ): Promise<MaintenancePlanVersionEquipment[]> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.get_equipment_by_maintenance_plan($1, $2)",
+        [planId, userId]
+      );
+
+      const response = result.rows[0].get_equipment_by_maintenance_plan;
+      return (response?.data || []).map(
+        (equipment: MaintenancePlanVersionEquipment) => ({
+          id: equipment.id,
+          code: equipment.code,
+          license_plate: equipment.license_plate,
+          maintenance_plan_version:
+            equipment.maintenance_plan_version !== null &&
+            equipment.maintenance_plan_version !== undefined
+              ? Number(equipment.maintenance_plan_version)
+              : undefined,
+        })
+      );
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "getEquipment", {
+        planId,
+        userId,
+      });
+    }
+  }
+
+  /**
+   * Asignar una versión del plan a un equipo
+   * @param equipmentId - ID del equipo
+   * @param planId - ID del plan
+   * @param versionNumber - Número de versión
+   * @param userId - ID del usuario
+   * @returns El ID del equipo actualizado
+   */
+  async setEquipmentVersion(
+    equipmentId: string,
+    planId: string,
+    versionNumber: number,
+    userId: string
+  ): Promise<{ id: string }> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.set_equipment_plan_version($1, $2, $3, $4)",
+        [equipmentId, planId, versionNumber, userId]
+      );
+
+      return { id: result.rows[0].set_equipment_plan_version.id };
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "setEquipmentVersion", {
+        equipmentId,
+        planId,
+        versionNumber,
+        userId,
+      });
+    }
+  }
+
+  /**
+   * Mapear datos de la base de datos a MaintenancePlanVersionBase
+   */
+  private mapToVersion(
+    data: MaintenancePlanVersionBase
+  ): MaintenancePlanVersionBase {
+    return {
+      id: data.id,
+      maintenance_plan_id: data.maintenance_plan_id,
+      version_number: Number(data.version_number),
+      cycle_mode: data.cycle_mode || "terminate",
+      cycle_restart_index: data.cycle_restart_index ?? undefined,
+      stages: (data.stages || []).map(
+        (stage: MaintenancePlanVersionStage) => ({
+          stage_id: stage.stage_id,
+          maintenance_type_id: stage.maintenance_type_id,
+          stage_index: Number(stage.stage_index),
+          kilometers: Number(stage.kilometers),
+          days: Number(stage.days),
+          hours:
+            stage.hours !== null && stage.hours !== undefined
+              ? Number(stage.hours)
+              : undefined,
+          maintenance_type: stage.maintenance_type,
+        })
+      ),
+      equipment_count: Number(data.equipment_count || 0),
+      created_at: new Date(data.created_at),
+      updated_at: data.updated_at ? new Date(data.updated_at) : undefined,
+      user_id: data.user_id,
+    };
+  }
+
+  /**
+   * Manejo centralizado de errores
+   * @param error - Error capturado
+   * @param operation - Operación que falló
+   * @param params - Parámetros de la operación
+   */
+  private handleError(
+    error: GlobalErrorResponse,
+    operation: string,
+    params?: unknown
+  ): never {
+    console.error(`Error in MaintenancePlanVersionRepository.${operation}:`, {
+      error: error.message,
+      stack: error.stack,
+      params,
+    });
+
+    if (error instanceof MaintenancePlanVersionError) {
+      throw error;
+    }
+
+    if (
+      error.message?.includes("Maintenance plan") &&
+      error.message?.includes("not found")
+    ) {
+      throw new MaintenancePlanVersionError(
+        MaintenancePlanVersionErrorCodes.PLAN_NOT_FOUND,
+        error.message
+      );
+    }
+
+    if (error.message?.includes("not found")) {
+      throw new MaintenancePlanVersionError(
+        MaintenancePlanVersionErrorCodes.NOT_FOUND,
+        error.message
+      );
+    }
+
+    if (error.message?.includes("access denied")) {
+      throw new MaintenancePlanVersionError(
+        MaintenancePlanVersionErrorCodes.ACCESS_DENIED,
+        error.message
+      );
+    }
+
+    // Error genérico de base de datos
+    throw new MaintenancePlanVersionError(
+      MaintenancePlanVersionErrorCodes.DATABASE_ERROR,
+      `Database operation failed: ${error.message}`,
+      error
+    );
+  }
+}
+
+export const maintenancePlanVersionRepository =
+  new MaintenancePlanVersionRepository();
@@ -1,14 +1,17 @@
-import { pool } from "@/lib/supabase";
-import { Pool, PoolClient } from "pg";
+import { Queryable, unitOfWork } from "./unit-of-work";
 import {
   MaintenanceRecordBase,
   MaintenanceRecordWithDetails,
   MaintenanceRecordCreate,
   MaintenanceRecordUpdate,
   MultiMaintenanceRecord,
+  MaintenanceRecordPeriodFilters,
   DeleteMaintenanceRecord,
+  MaintenanceRecordStatus,
+  MaintenanceRecordStatusChange,
 } from "@/types/maintenance-record";
 import { MaintenanceRecordErrorCodes } from "@/lib/errors";
+import { getDefaultRecordStatus } from "@/lib/utils";
 
 // Error handling
 export class MaintenanceRecordError extends Error {
@@ -19,10 +22,8 @@ export class MaintenanceRecordError extends Error {
 }
 
 class MaintenanceRecordRepository {
-  private db: Pool;
-
-  constructor() {
-    this.db = pool;
+  private get db(): Queryable {
+    return unitOfWork.getConnection();
   }
 
   /**
@@ -45,7 +46,7 @@ class MaintenanceRecordRepository {
       }
 
       const result = await this.db.query(
-        "SELECT mnt.create_maintenance_record($1, $2, $3, $4, $5, $6, $7)",
+        "SELECT mnt.create_maintenance_record($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)",
         [
           maintenanceRecord.equipment_id,
           new Date(maintenanceRecord.start_datetime).toISOString(),
@@ -56,6 +57,10 @@ class MaintenanceRecordRepository {
           maintenanceRecord.observations || null,
           maintenanceRecord.mileage_record_id,
           maintenanceRecord.user_id,
+          maintenanceRecord.maintenance_plan_version ?? null,
+          maintenanceRecord.status ?? "in_progress",
+          maintenanceRecord.external_service_cost ?? 0,
+          maintenanceRecord.tax_rate ?? 0,
         ]
       );
 
@@ -224,6 +229,87 @@ class MaintenanceRecordRepository {
     }
   }
 
+  /**
+   * Obtener la fecha de inicio del último mantenimiento de un equipo
+   */
+  async getLastStartDatetime(
+    equipment_id: string,
+    user_id: string
+  ): Promise<Date | undefined> {
+    try {
+      const result = await this.db.query(
+        `
+        SELECT MAX(mr.start_datetime) AS last_start_datetime
+        FROM mnt.maintenance_records mr
+        WHERE mr.equipment_id = $1 AND mr.user_id = $2
+      `,
+        [equipment_id, user_id]
+      );
+
+      const lastStart = result.rows[0]?.last_start_datetime;
+      return lastStart ? new Date(lastStart) : undefined;
+    } catch (err) {
+      this.handleError(
+        err as { message?: string; stack?: string },
+        "getLastStartDatetime",
+        { equipment_id, user_id }
+      );
+    }
+  }
+
+  /**
+   * Obtener los registros iniciados en un periodo, ordenados por fecha de
+   * inicio
+   */
+  async getByPeriod(
+    user_id: string,
+    filters: MaintenanceRecordPeriodFilters,
+    limit: number = 100,
+    offset: number = 0
+  ): Promise<MultiMaintenanceRecord> {
+    try {
+      const result = await this.db.query(
+        `
+        SELECT mr.*, COUNT(*) OVER() AS total_count
+        FROM mnt.maintenance_records mr
+        WHERE mr.user_id = $1
+          AND ($2::timestamptz IS NULL OR mr.start_datetime >= $2)
+          AND ($3::timestamptz IS NULL OR mr.start_datetime <= $3)
+          AND ($4::uuid IS NULL OR mr.equipment_id = $4)
+          AND ($5::boolean OR mr.status IS DISTINCT FROM 'cancelled')
+        ORDER BY mr.start_datetime, mr.id
+        LIMIT $6 OFFSET $7
+      `,
+        [
+          user_id,
+          filters.from ?? null,
+          filters.to ?? null,
+          filters.equipment_id ?? null,
+          filters.include_cancelled ?? false,
+          limit,
+          offset,
+        ]
+      );
+
+      const total = Number(result.rows[0]?.total_count ?? 0);
+      return {
+        total,
+        limit,
+        offset,
+        pages: Math.ceil(total / limit),
+        data: result.rows.map((record: MaintenanceRecordBase) =>
+          this.mapToMaintenanceRecord(record)
+        ),
+      };
+    } catch (err) {
+      this.handleError(
+        err as { message?: string; stack?: string },
+        "getByPeriod",
+        { user_id, filters, limit, offset }
+      );
+    }
+  }
+
   /**
    * Actualizar registro de mantenimiento
    */
@@ -244,7 +330,7 @@ class MaintenanceRecordRepository {
       }
 
       const result = await this.db.query(
-        "SELECT mnt.update_maintenance_record($1, $2, $3, $4, $5, $6, $7)",
+        "SELECT mnt.update_maintenance_record($1, $2, $3, $4, $5, $6, $7, $8, $9)",
         [
           maintenanceRecord.id,
           maintenanceRecord.equipment_id || null,
@@ -253,6 +339,8 @@ class MaintenanceRecordRepository {
           maintenanceRecord.maintenance_type_id || null,
           maintenanceRecord.observations || null,
           maintenanceRecord.mileage_record_id || null,
+          maintenanceRecord.external_service_cost ?? null,
+          maintenanceRecord.tax_rate ?? null,
         ]
       );
 
@@ -267,6 +355,75 @@ class MaintenanceRecordRepository {
     }
   }
 
+  /**
+   * Cambiar el estado de un registro de mantenimiento
+   * La base de datos guarda la fecha y el usuario del cambio en el registro y
+   * en su historial de estados
+   */
+  async setStatus(
+    id: string,
+    status: MaintenanceRecordStatus,
+    user_id: string,
+    reason?: string
+  ): Promise<{
+    id: string;
+    status: MaintenanceRecordStatus;
+    status_changed_at: Date;
+  }> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.set_maintenance_record_status($1, $2, $3, $4)",
+        [id, status, user_id, reason || null]
+      );
+
+      const response = result.rows[0].set_maintenance_record_status;
+      return {
+        id: response.id,
+        status: response.status,
+        status_changed_at: new Date(response.status_changed_at),
+      };
+    } catch (err) {
+      this.handleError(
+        err as { message?: string; stack?: string },
+        "setStatus",
+        { id, status, user_id, reason }
+      );
+    }
+  }
+
+  /**
+   * Obtener el historial de estados de un registro de mantenimiento
+   */
+  async getStatusChanges(
+    id: string,
+    user_id: string
+  ): Promise<MaintenanceRecordStatusChange[]> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.get_maintenance_record_status_changes($1, $2)",
+        [id, user_id]
+      );
+
+      return (
+        result.rows[0].get_maintenance_record_status_changes || []
+      ).map((change: MaintenanceRecordStatusChange) => ({
+        id: change.id,
+        maintenance_record_id: change.maintenance_record_id,
+        from_status: change.from_status ?? undefined,
+        to_status: change.to_status,
+        reason: change.reason ?? undefined,
+        changed_at: new Date(change.changed_at),
+        user_id: change.user_id,
+      }));
+    } catch (err) {
+      this.handleError(
+        err as { message?: string; stack?: string },
+        "getStatusChanges",
+        { id, user_id }
+      );
+    }
+  }
+
   /**
    * Eliminar registro de mantenimiento
    */
@@ -305,26 +462,6 @@ class MaintenanceRecordRepository {
     }
   }
 
-  /**
-   * Operación con transacción para múltiples registros
-   */
-  async withTransaction<T>(
-    operation: (client: PoolClient) => Promise<T>
-  ): Promise<T> {
-    const client = await this.db.connect();
-    try {
-      await client.query("BEGIN");
-      const result = await operation(client);
-      await client.query("COMMIT");
-      return result;
-    } catch (err) {
-      await client.query("ROLLBACK");
-      throw err;
-    } finally {
-      client.release();
-    }
-  }
-
   /**
    * Mapear datos de la base de datos a MaintenanceRecordBase
    */
@@ -339,6 +476,14 @@ class MaintenanceRecordRepository {
       maintenance_type_id: data.maintenance_type_id,
       observations: data.observations,
       mileage_record_id: data.mileage_record_id,
+      maintenance_plan_version: data.maintenance_plan_version ?? undefined,
+      status: data.status || getDefaultRecordStatus(data.end_datetime),
+      status_changed_at: data.status_changed_at
+        ? new Date(data.status_changed_at)
+        : undefined,
+      status_changed_by: data.status_changed_by ?? undefined,
+      external_service_cost: Number(data.external_service_cost ?? 0),
+      tax_rate: Number(data.tax_rate ?? 0),
       created_at: new Date(data.created_at),
       updated_at: data.updated_at ? new Date(data.updated_at) : undefined,
       user_id: data.user_id,
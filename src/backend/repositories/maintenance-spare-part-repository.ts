@@ -1,5 +1,4 @@
-import { pool } from "@/lib/supabase";
-import { Pool } from "pg";
+import { Queryable, unitOfWork } from "./unit-of-work";
 import {
   MaintenanceSparePartBase,
   MaintenanceSparePartWithDetails,
@@ -8,6 +7,7 @@ import {
   MultiMaintenanceSparePart,
   DeleteMaintenanceSparePart,
   BulkMaintenanceSparePartUpdate,
+  MaintenanceSparePartCostSnapshot,
 } from "@/types/maintenance-spare-part";
 import { GlobalErrorResponse } from "@/lib/errors";
 
@@ -31,10 +31,8 @@ export enum MaintenanceSparePartErrorCodes {
 }
 
 class MaintenanceSparePartRepository {
-  private db: Pool;
-
-  constructor() {
-    this.db = pool;
+  private get db(): Queryable {
+    return unitOfWork.getConnection();
   }
 
   /**
@@ -45,12 +43,13 @@ class MaintenanceSparePartRepository {
   ): Promise<{ id: string; created_at: Date }> {
     try {
       const result = await this.db.query(
-        "SELECT mnt.create_maintenance_spare_part($1, $2, $3, $4, $5)",
+        "SELECT mnt.create_maintenance_spare_part($1, $2, $3, $4, $5, $6)",
         [
           maintenanceSparePart.maintenance_record_id,
           maintenanceSparePart.spare_part_id,
           maintenanceSparePart.quantity,
-          maintenanceSparePart.unit_price || null,
+          maintenanceSparePart.unit_price ?? null,
+          maintenanceSparePart.warehouse_id || null,
           maintenanceSparePart.user_id,
         ]
       );
@@ -124,6 +123,38 @@ class MaintenanceSparePartRepository {
     }
   }
 
+  /**
+   * Obtener los repuestos con detalles de varios registros de mantenimiento
+   */
+  async getByMaintenanceRecordsWithDetails(
+    maintenanceRecordIds: string[],
+    userId: string
+  ): Promise<MaintenanceSparePartWithDetails[]> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.get_maintenance_spare_parts_with_details_by_records($1, $2)",
+        [maintenanceRecordIds, userId]
+      );
+
+      const spareParts =
+        result.rows[0].get_maintenance_spare_parts_with_details_by_records;
+
+      return (spareParts || []).map(
+        (sparePart: MaintenanceSparePartWithDetails) =>
+          this.mapToMaintenanceSparePartWithDetails(sparePart)
+      );
+    } catch (err) {
+      this.handleError(
+        err as GlobalErrorResponse,
+        "getByMaintenanceRecordsWithDetails",
+        {
+          maintenanceRecordIds,
+          userId,
+        }
+      );
+    }
+  }
+
   /**
    * Obtener todos los registros de repuestos de mantenimiento de un usuario con paginación
    */
@@ -169,11 +200,12 @@ class MaintenanceSparePartRepository {
   ): Promise<{ id: string }> {
     try {
       const result = await this.db.query(
-        "SELECT mnt.update_maintenance_spare_part($1, $2, $3, $4)",
+        "SELECT mnt.update_maintenance_spare_part($1, $2, $3, $4, $5)",
         [
           maintenanceSparePart.id,
           maintenanceSparePart.quantity || null,
-          maintenanceSparePart.unit_price || null,
+          maintenanceSparePart.unit_price ?? null,
+          maintenanceSparePart.warehouse_id || null,
           maintenanceSparePart.user_id,
         ]
       );
@@ -243,6 +275,37 @@ class MaintenanceSparePartRepository {
     }
   }
 
+  /**
+   * Obtener los precios con los que se registró un repuesto en los
+   * mantenimientos, del más antiguo al más reciente
+   */
+  async getCostSnapshots(
+    sparePartId: string,
+    userId: string
+  ): Promise<MaintenanceSparePartCostSnapshot[]> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.get_spare_part_cost_snapshots($1, $2)",
+        [sparePartId, userId]
+      );
+
+      const snapshots = result.rows[0].get_spare_part_cost_snapshots || [];
+      return snapshots.map((snapshot: MaintenanceSparePartCostSnapshot) => ({
+        maintenance_spare_part_id: snapshot.maintenance_spare_part_id,
+        maintenance_record_id: snapshot.maintenance_record_id,
+        equipment_license: snapshot.equipment_license ?? undefined,
+        quantity: snapshot.quantity,
+        unit_price: Number(snapshot.unit_price),
+        created_at: new Date(snapshot.created_at),
+      }));
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "getCostSnapshots", {
+        sparePartId,
+        userId,
+      });
+    }
+  }
+
   /**
    * Verificar si existe un registro de repuesto en mantenimiento
    */
@@ -315,6 +378,7 @@ class MaintenanceSparePartRepository {
       spare_part_id: data.spare_part_id,
       quantity: data.quantity,
       unit_price: data.unit_price,
+      warehouse_id: data.warehouse_id ?? undefined,
       created_at: new Date(data.created_at),
     };
   }
@@ -1,16 +1,31 @@
-import { Pool } from "pg";
-import { pool } from "@/lib/supabase";
+import { Queryable, unitOfWork } from "./unit-of-work";
 import {
   MaintenanceStageBase,
   MaintenanceStageCreate,
   MaintenanceStageUpdate,
   MultiMaintenanceStage,
 } from "@/types/maintenance-stage";
-class MaintenanceStageRepository {
-  private db: Pool;
+import { GlobalErrorResponse, MaintenanceStageErrorCodes } from "@/lib/errors";
+
+export class MaintenanceStageError extends Error {
+  public readonly code: MaintenanceStageErrorCodes;
+  public readonly details?: unknown;
+
+  constructor(
+    code: MaintenanceStageErrorCodes,
+    message: string,
+    details?: unknown
+  ) {
+    super(message);
+    this.name = "MaintenanceStageError";
+    this.code = code;
+    this.details = details;
+  }
+}
 
-  constructor() {
-    this.db = pool;
+class MaintenanceStageRepository {
+  private get db(): Queryable {
+    return unitOfWork.getConnection();
   }
 
   /**
@@ -20,6 +35,7 @@ class MaintenanceStageRepository {
     stageData: MaintenanceStageBase & {
       kilometers: string | number;
       days: string | number;
+      hours?: string | number | null;
     }
   ): MaintenanceStageBase {
     return {
@@ -35,6 +51,12 @@ class MaintenanceStageRepository {
         typeof stageData.days === "string"
           ? parseFloat(stageData.days)
           : stageData.days,
+      hours:
+        stageData.hours === null || stageData.hours === undefined
+          ? undefined
+          : typeof stageData.hours === "string"
+          ? parseFloat(stageData.hours)
+          : stageData.hours,
       created_at: new Date(stageData.created_at),
       updated_at: stageData.updated_at
         ? new Date(stageData.updated_at)
@@ -53,7 +75,7 @@ class MaintenanceStageRepository {
   ): Promise<{ id: string; created_at: Date }> {
     try {
       const result = await this.db.query(
-        "SELECT mnt.create_maintenance_stage($1, $2, $3, $4, $5, $6)",
+        "SELECT mnt.create_maintenance_stage($1, $2, $3, $4, $5, $6, $7)",
         [
           stage.maintenance_type_id,
           stage.maintenance_plan_id,
@@ -61,6 +83,7 @@ class MaintenanceStageRepository {
           stage.stage_index,
           stage.kilometers,
           stage.days,
+          stage.hours ?? null,
         ]
       );
 
@@ -142,7 +165,7 @@ class MaintenanceStageRepository {
   ): Promise<{ id: string }> {
     try {
       const result = await this.db.query(
-        "SELECT mnt.update_maintenance_stage($1, $2, $3, $4, $5, $6, $7)",
+        "SELECT mnt.update_maintenance_stage($1, $2, $3, $4, $5, $6, $7, $8)",
         [
           stage.id,
           userId,
@@ -151,6 +174,7 @@ class MaintenanceStageRepository {
           stage.stage_index,
           stage.kilometers,
           stage.days,
+          stage.hours ?? null,
         ]
       );
 
@@ -161,6 +185,53 @@ class MaintenanceStageRepository {
     }
   }
 
+  /**
+   * Reordenar las etapas de un plan en una sola operación
+   * La base de datos bloquea las etapas del plan y asigna los nuevos índices
+   * sin violar la restricción única de stage_index
+   * @param planId - ID del plan
+   * @param stageIds - IDs de las etapas en el nuevo orden
+   * @param userId - ID del usuario
+   * @returns Etapas con su nuevo índice
+   */
+  async reorder(
+    planId: string,
+    stageIds: string[],
+    userId: string
+  ): Promise<{ id: string; stage_index: number }[]> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.reorder_maintenance_stages($1, $2, $3)",
+        [planId, JSON.stringify(stageIds), userId]
+      );
+
+      const response = result.rows[0].reorder_maintenance_stages;
+      return (response?.data || []).map(
+        (stage: { id: string; stage_index: number | string }) => ({
+          id: stage.id,
+          stage_index: Number(stage.stage_index),
+        })
+      );
+    } catch (err) {
+      console.error("Error al reordenar maintenance stages:", err);
+      const error = err as GlobalErrorResponse;
+
+      if (error.message?.includes("duplicate key")) {
+        throw new MaintenanceStageError(
+          MaintenanceStageErrorCodes.DUPLICATE_STAGE_INDEX,
+          error.message,
+          { planId, stageIds }
+        );
+      }
+
+      throw new MaintenanceStageError(
+        MaintenanceStageErrorCodes.DATABASE_ERROR,
+        `Database operation failed: ${error.message}`,
+        error
+      );
+    }
+  }
+
   /**
    * Eliminar etapa
    */
@@ -1,4 +1,4 @@
-import { Pool } from "pg";
+import { Queryable, unitOfWork } from "./unit-of-work";
 import {
   MaintenanceTypeBase,
   MaintenanceTypeCreate,
@@ -7,12 +7,10 @@ import {
   DeleteMaintenanceType,
   MaintenanceTypeWithChildren,
 } from "@/types/maintenance-type";
-import { pool } from "@/lib/supabase";
 
 class MaintenanceTypeRepository {
-  private db: Pool;
-  constructor() {
-    this.db = pool;
+  private get db(): Queryable {
+    return unitOfWork.getConnection();
   }
 
   /**
@@ -27,7 +25,7 @@ class MaintenanceTypeRepository {
     path: string | null;
   }> {
     try {
-      const result = await pool.query(
+      const result = await this.db.query(
         "SELECT mnt.create_maintenance_type($1, $2, $3, $4, $5)",
         [
           maintenanceType.type,
@@ -60,7 +58,7 @@ class MaintenanceTypeRepository {
    */
   async getById(id: string): Promise<MaintenanceTypeBase | null> {
     try {
-      const result = await pool.query("SELECT mnt.get_maintenance_type_by_id($1)", [
+      const result = await this.db.query("SELECT mnt.get_maintenance_type_by_id($1)", [
         id,
       ]);
 
@@ -98,7 +96,7 @@ class MaintenanceTypeRepository {
     userId: string
   ): Promise<MultiMaintenanceType> {
     try {
-      const result = await pool.query(
+      const result = await this.db.query(
         "SELECT mnt.get_all_maintenance_types($1, $2, $3)",
         [userId, limit, offset]
       );
@@ -144,7 +142,7 @@ class MaintenanceTypeRepository {
     maintenance_type: MaintenanceTypeUpdate
   ): Promise<{ id: string }> {
     try {
-      const result = await pool.query(
+      const result = await this.db.query(
         "SELECT mnt.update_maintenance_type($1, $2, $3, $4, $5)",
         [
           maintenance_type.id,
@@ -176,7 +174,7 @@ class MaintenanceTypeRepository {
     deleteMaintenanceType: DeleteMaintenanceType
   ): Promise<{ id: string }> {
     try {
-      const result = await pool.query("SELECT mnt.delete_maintenance_type($1)", [
+      const result = await this.db.query("SELECT mnt.delete_maintenance_type($1)", [
         deleteMaintenanceType.id,
       ]);
 
@@ -202,7 +200,7 @@ class MaintenanceTypeRepository {
     user_id: string
   ): Promise<MaintenanceTypeBase[]> {
     try {
-      const result = await pool.query(
+      const result = await this.db.query(
         "SELECT mnt.get_maintenance_type_children($1, $2)",
         [parent_id, user_id]
       );
@@ -237,7 +235,7 @@ class MaintenanceTypeRepository {
    */
   async getTree(user_id: string): Promise<MaintenanceTypeWithChildren[]> {
     try {
-      const result = await pool.query("SELECT mnt.get_maintenance_types_tree($1)", [
+      const result = await this.db.query("SELECT mnt.get_maintenance_types_tree($1)", [
         user_id,
       ]);
 
@@ -272,7 +270,7 @@ class MaintenanceTypeRepository {
 
   async hasChildren(id: string): Promise<boolean> {
     try {
-      const result = await pool.query(
+      const result = await this.db.query(
         "SELECT mnt.maintenance_type_has_children($1)",
         [id]
       );
@@ -1,14 +1,16 @@
-import { pool } from "@/lib/supabase";
-import { Pool } from "pg";
+import { Queryable, unitOfWork } from "./unit-of-work";
 import {
   MileageRecordBase,
   MileageRecordCreate,
+  MileageRecordImportItem,
   MileageRecordUpdate,
   MultiMileageRecord,
   MileageRecordWithEquipment,
   MileageRecordsByEquipmentResponse,
   MileageRecordsByDateRangeResponse,
+  MileagePeriodBounds,
 } from "@/types/mileage-record";
+import { MeterType } from "@/types/equipment";
 import { MileageRecordErrorCodes } from "@/lib/errors";
 import { dateToLocalISOString } from "@/lib/utils";
 
@@ -33,10 +35,8 @@ export class MileageRecordError extends Error {
  * Maneja las operaciones de base de datos para los registros de kilometraje
  */
 class MileageRecordRepository {
-  private db: Pool;
-
-  constructor() {
-    this.db = pool;
+  private get db(): Queryable {
+    return unitOfWork.getConnection();
   }
 
   /**
@@ -49,13 +49,23 @@ class MileageRecordRepository {
   ): Promise<{ id: string; created_at: Date }> {
     try {
       // Validaciones en el cliente antes de enviar a la base de datos
-      if (mileageRecord.kilometers < 0) {
+      if (
+        mileageRecord.kilometers !== undefined &&
+        mileageRecord.kilometers < 0
+      ) {
         throw new MileageRecordError(
           MileageRecordErrorCodes.INVALID_KILOMETERS,
           "Kilometers must be greater than or equal to zero"
         );
       }
 
+      if (mileageRecord.hours !== undefined && mileageRecord.hours < 0) {
+        throw new MileageRecordError(
+          MileageRecordErrorCodes.INVALID_HOURS,
+          "Hours must be greater than or equal to zero"
+        );
+      }
+
       if (mileageRecord.record_date > new Date()) {
         throw new MileageRecordError(
           MileageRecordErrorCodes.INVALID_DATE_RANGE,
@@ -66,12 +76,13 @@ class MileageRecordRepository {
       console.log("Creating mileage record with data:", mileageRecord);
 
       const result = await this.db.query(
-        "SELECT mnt.create_mileage_record($1, $2, $3, $4)",
+        "SELECT mnt.create_mileage_record($1, $2, $3, $4, $5)",
         [
           mileageRecord.equipment_id,
           mileageRecord.record_date,
-          mileageRecord.kilometers,
+          mileageRecord.kilometers ?? null,
           mileageRecord.user_id,
+          mileageRecord.hours ?? null,
         ]
       );
 
@@ -107,7 +118,8 @@ class MileageRecordRepository {
         id: data.id,
         equipment_id: data.equipment_id,
         record_date: new Date(data.record_date),
-        kilometers: parseFloat(data.kilometers),
+        kilometers: this.toReading(data.kilometers),
+        hours: this.toReading(data.hours),
         created_at: new Date(data.created_at),
         updated_at: data.updated_at ? new Date(data.updated_at) : undefined,
       };
@@ -148,7 +160,8 @@ class MileageRecordRepository {
           id: record.id,
           equipment_id: record.equipment_id,
           record_date: new Date(record.record_date),
-          kilometers: record.kilometers,
+          kilometers: this.toReading(record.kilometers),
+          hours: this.toReading(record.hours),
           created_at: new Date(record.created_at),
           updated_at: record.updated_at
             ? new Date(record.updated_at)
@@ -196,7 +209,8 @@ class MileageRecordRepository {
           id: record.id,
           equipment_id: record.equipment_id,
           record_date: new Date(record.record_date),
-          kilometers: record.kilometers,
+          kilometers: this.toReading(record.kilometers),
+          hours: this.toReading(record.hours),
           created_at: new Date(record.created_at),
           updated_at: record.updated_at
             ? new Date(record.updated_at)
@@ -212,6 +226,41 @@ class MileageRecordRepository {
     }
   }
 
+  /**
+   * Obtener todas las lecturas de kilómetros de un equipo
+   * @param equipmentId - ID del equipo
+   * @param userId - ID del usuario
+   * @returns Registros con kilómetros, ordenados por fecha ascendente
+   */
+  async getKilometerReadings(
+    equipmentId: string,
+    userId: string
+  ): Promise<MileageRecordBase[]> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.get_kilometer_readings_by_equipment($1, $2)",
+        [equipmentId, userId]
+      );
+
+      const records = result.rows[0].get_kilometer_readings_by_equipment || [];
+      return records.map((record: MileageRecordBase) => ({
+        id: record.id,
+        equipment_id: record.equipment_id,
+        record_date: new Date(record.record_date),
+        kilometers: this.toReading(record.kilometers),
+        hours: this.toReading(record.hours),
+        created_at: new Date(record.created_at),
+        updated_at: record.updated_at ? new Date(record.updated_at) : undefined,
+      }));
+    } catch (err) {
+      this.handleError(
+        err as { message?: string; stack?: string },
+        "getKilometerReadings",
+        { equipmentId, userId }
+      );
+    }
+  }
+
   /**
    * Obtener registros de kilometraje por rango de fechas
    * @param startDate - Fecha de inicio
@@ -258,7 +307,8 @@ class MileageRecordRepository {
           id: record.id,
           equipment_id: record.equipment_id,
           record_date: new Date(record.record_date),
-          kilometers: record.kilometers,
+          kilometers: this.toReading(record.kilometers),
+          hours: this.toReading(record.hours),
           created_at: new Date(record.created_at),
           updated_at: record.updated_at
             ? new Date(record.updated_at)
@@ -281,6 +331,52 @@ class MileageRecordRepository {
     }
   }
 
+  /**
+   * Obtener las lecturas de kilómetros que delimitan un periodo
+   * @param equipmentId - ID del equipo
+   * @param userId - ID del usuario
+   * @param from - Inicio del periodo (opcional)
+   * @param to - Fin del periodo (opcional)
+   * @returns Lectura base y última lectura del periodo
+   */
+  async getPeriodBounds(
+    equipmentId: string,
+    userId: string,
+    from?: Date,
+    to?: Date
+  ): Promise<MileagePeriodBounds> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.get_mileage_period_bounds($1, $2, $3, $4)",
+        [equipmentId, userId, from ?? null, to ?? null]
+      );
+
+      const response = result.rows[0].get_mileage_period_bounds;
+      const toRecord = (record?: MileageRecordBase | null) =>
+        record
+          ? {
+              id: record.id,
+              equipment_id: record.equipment_id,
+              record_date: new Date(record.record_date),
+              kilometers: this.toReading(record.kilometers),
+              hours: this.toReading(record.hours),
+              created_at: new Date(record.created_at),
+            }
+          : null;
+
+      return {
+        baseline: toRecord(response?.baseline),
+        current: toRecord(response?.current),
+      };
+    } catch (err) {
+      this.handleError(
+        err as { message?: string; stack?: string },
+        "getPeriodBounds",
+        { equipmentId, userId, from, to }
+      );
+    }
+  }
+
   /**
    * Actualizar un registro de kilometraje
    * @param mileageRecord - Datos actualizados del registro
@@ -299,10 +395,17 @@ class MileageRecordRepository {
         );
       }
 
+      if (mileageRecord.hours !== undefined && mileageRecord.hours < 0) {
+        throw new MileageRecordError(
+          MileageRecordErrorCodes.INVALID_HOURS,
+          "Hours must be greater than or equal to zero"
+        );
+      }
+
       console.log("Updating mileage record with data:", mileageRecord);
 
       const result = await this.db.query(
-        "SELECT mnt.update_mileage_record($1, $2, $3, $4, $5)",
+        "SELECT mnt.update_mileage_record($1, $2, $3, $4, $5, $6)",
         [
           mileageRecord.id,
           mileageRecord.equipment_id || null,
@@ -311,6 +414,7 @@ class MileageRecordRepository {
             ? mileageRecord.kilometers
             : null,
           mileageRecord.user_id,
+          mileageRecord.hours !== undefined ? mileageRecord.hours : null,
         ]
       );
 
@@ -323,6 +427,45 @@ class MileageRecordRepository {
     }
   }
 
+  /**
+   * Crear o actualizar en una sola consulta los registros de una importación
+   * Los registros ya fueron validados con las reglas de `create`
+   * @param records - Registros a crear (sin id) o actualizar (con id)
+   * @param userId - ID del usuario
+   * @returns Cantidad de registros creados y actualizados
+   */
+  async importRecords(
+    records: MileageRecordImportItem[],
+    userId: string
+  ): Promise<{ created: number; updated: number }> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.import_mileage_records($1, $2)",
+        [
+          JSON.stringify(
+            records.map((record) => ({
+              id: record.id ?? null,
+              equipment_id: record.equipment_id,
+              record_date: record.record_date,
+              kilometers: record.kilometers ?? null,
+              hours: record.hours ?? null,
+            }))
+          ),
+          userId,
+        ]
+      );
+
+      const response = result.rows[0].import_mileage_records;
+      return { created: response.created, updated: response.updated };
+    } catch (err) {
+      this.handleError(
+        err as { message?: string; stack?: string },
+        "importRecords",
+        { count: records.length, userId }
+      );
+    }
+  }
+
   /**
    * Eliminar un registro de kilometraje
    * @param id - ID del registro a eliminar
@@ -398,13 +541,15 @@ class MileageRecordRepository {
    * @param recordDate - Fecha de referencia
    * @param userId - ID del usuario
    * @param excludeId - ID a excluir de la búsqueda
+   * @param meterType - Medidor que debe tener lectura en el registro
    * @returns El registro anterior o null
    */
   async getPreviousRecord(
     equipmentId: string,
     recordDate: Date,
     userId: string,
-    excludeId?: string
+    excludeId?: string,
+    meterType: MeterType = "km"
   ): Promise<MileageRecordBase | null> {
     try {
       const records = await this.getByEquipment(equipmentId, userId, 1000, 0);
@@ -413,7 +558,8 @@ class MileageRecordRepository {
         .filter(
           (record) =>
             record.record_date < recordDate &&
-            (excludeId ? record.id !== excludeId : true)
+            (excludeId ? record.id !== excludeId : true) &&
+            this.getReading(record, meterType) !== undefined
         )
         .sort((a, b) => b.record_date.getTime() - a.record_date.getTime());
 
@@ -430,13 +576,15 @@ class MileageRecordRepository {
    * @param recordDate - Fecha de referencia
    * @param userId - ID del usuario
    * @param excludeId - ID a excluir de la búsqueda
+   * @param meterType - Medidor que debe tener lectura en el registro
    * @returns El registro posterior o null
    */
   async getNextRecord(
     equipmentId: string,
     recordDate: Date,
     userId: string,
-    excludeId?: string
+    excludeId?: string,
+    meterType: MeterType = "km"
   ): Promise<MileageRecordBase | null> {
     try {
       const records = await this.getByEquipment(equipmentId, userId, 1000, 0);
@@ -445,7 +593,8 @@ class MileageRecordRepository {
         .filter(
           (record) =>
             record.record_date > recordDate &&
-            (excludeId ? record.id !== excludeId : true)
+            (excludeId ? record.id !== excludeId : true) &&
+            this.getReading(record, meterType) !== undefined
         )
         .sort((a, b) => a.record_date.getTime() - b.record_date.getTime());
 
@@ -456,6 +605,27 @@ class MileageRecordRepository {
     }
   }
 
+  /**
+   * Lectura de un medidor en un registro
+   * @param record - Registro de kilometraje
+   * @param meterType - Medidor (km u horas)
+   */
+  getReading(
+    record: Pick<MileageRecordBase, "kilometers" | "hours">,
+    meterType: MeterType
+  ): number | undefined {
+    return meterType === "hours" ? record.hours : record.kilometers;
+  }
+
+  /**
+   * Convertir una lectura de la base de datos (puede ser nula)
+   */
+  private toReading(value: unknown): number | undefined {
+    return value === null || value === undefined
+      ? undefined
+      : parseFloat(String(value));
+  }
+
   /**
    * Manejo centralizado de errores
    * @param error - Error capturado
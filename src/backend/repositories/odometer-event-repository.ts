@@ -0,0 +1,222 @@
+import { Queryable, unitOfWork } from "./unit-of-work";
+import {
+  OdometerEventBase,
+  OdometerEventCreate,
+  OdometerEventsByEquipmentResponse,
+} from "@/types/odometer-event";
+import { GlobalErrorResponse, OdometerEventErrorCodes } from "@/lib/errors";
+
+export class OdometerEventError extends Error {
+  public readonly code: OdometerEventErrorCodes;
+  public readonly details?: unknown;
+
+  constructor(
+    code: OdometerEventErrorCodes,
+    message: string,
+    details?: unknown
+  ) {
+    super(message);
+    this.name = "OdometerEventError";
+    this.code = code;
+    this.details = details;
+  }
+}
+
+/**
+ * Repositorio para gestionar eventos del odómetro (reemplazo y reinicio)
+ * Maneja las operaciones de base de datos para los eventos del odómetro
+ */
+class OdometerEventRepository {
+  private get db(): Queryable {
+    return unitOfWork.getConnection();
+  }
+
+  /**
+   * Crear un nuevo evento del odómetro
+   * @param event - Datos del evento a crear
+   * @returns El ID y fecha de creación del evento creado
+   */
+  async create(
+    event: OdometerEventCreate
+  ): Promise<{ id: string; created_at: Date }> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.create_odometer_event($1, $2, $3, $4, $5, $6, $7)",
+        [
+          event.equipment_id,
+          event.event_type,
+          event.event_date,
+          event.final_reading,
+          event.initial_reading,
+          event.observations || null,
+          event.user_id,
+        ]
+      );
+
+      const response = result.rows[0].create_odometer_event;
+      return {
+        id: response.id,
+        created_at: new Date(response.created_at),
+      };
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "create", { event });
+    }
+  }
+
+  /**
+   * Obtener un evento del odómetro por ID
+   * @param id - ID del evento
+   * @param userId - ID del usuario
+   * @returns El evento encontrado o null
+   */
+  async getById(id: string, userId: string): Promise<OdometerEventBase | null> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.get_odometer_event_by_id($1, $2)",
+        [id, userId]
+      );
+
+      const data = result.rows[0]?.get_odometer_event_by_id;
+      if (!data) return null;
+
+      return this.mapToOdometerEvent(data);
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "getById", { id, userId });
+    }
+  }
+
+  /**
+   * Obtener los eventos del odómetro de un equipo ordenados por fecha
+   * @param equipmentId - ID del equipo
+   * @param userId - ID del usuario
+   * @returns Lista de eventos del equipo
+   */
+  async getByEquipment(
+    equipmentId: string,
+    userId: string
+  ): Promise<OdometerEventsByEquipmentResponse> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.get_odometer_events_by_equipment($1, $2)",
+        [equipmentId, userId]
+      );
+
+      const response = result.rows[0].get_odometer_events_by_equipment;
+
+      return {
+        equipment_id: equipmentId,
+        data: (response?.data || [])
+          .map((event: OdometerEventBase) => this.mapToOdometerEvent(event))
+          .sort(
+            (a: OdometerEventBase, b: OdometerEventBase) =>
+              a.event_date.getTime() - b.event_date.getTime()
+          ),
+      };
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "getByEquipment", {
+        equipmentId,
+        userId,
+      });
+    }
+  }
+
+  /**
+   * Eliminar un evento del odómetro
+   * @param id - ID del evento a eliminar
+   * @param userId - ID del usuario
+   * @returns El ID del evento eliminado
+   */
+  async delete(id: string, userId: string): Promise<{ id: string }> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.delete_odometer_event($1, $2)",
+        [id, userId]
+      );
+
+      const response = result.rows[0].delete_odometer_event;
+      return { id: response.id };
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "delete", { id, userId });
+    }
+  }
+
+  /**
+   * Mapear datos de la base de datos a OdometerEventBase
+   */
+  private mapToOdometerEvent(data: OdometerEventBase): OdometerEventBase {
+    return {
+      id: data.id,
+      equipment_id: data.equipment_id,
+      event_type: data.event_type,
+      event_date: new Date(data.event_date),
+      final_reading: Number(data.final_reading),
+      initial_reading: Number(data.initial_reading),
+      observations: data.observations,
+      created_at: new Date(data.created_at),
+      updated_at: data.updated_at ? new Date(data.updated_at) : undefined,
+      user_id: data.user_id,
+    };
+  }
+
+  /**
+   * Manejo centralizado de errores
+   * @param error - Error capturado
+   * @param operation - Operación que falló
+   * @param params - Parámetros de la operación
+   */
+  private handleError(
+    error: GlobalErrorResponse,
+    operation: string,
+    params?: unknown
+  ): never {
+    console.error(`Error in OdometerEventRepository.${operation}:`, {
+      error: error.message,
+      stack: error.stack,
+      params,
+    });
+
+    if (error instanceof OdometerEventError) {
+      throw error;
+    }
+
+    if (
+      error.message?.includes("Equipment") &&
+      error.message?.includes("not found")
+    ) {
+      throw new OdometerEventError(
+        OdometerEventErrorCodes.EQUIPMENT_NOT_FOUND,
+        error.message
+      );
+    }
+
+    if (error.message?.includes("not found")) {
+      throw new OdometerEventError(
+        OdometerEventErrorCodes.NOT_FOUND,
+        error.message
+      );
+    }
+
+    if (error.message?.includes("access denied")) {
+      throw new OdometerEventError(
+        OdometerEventErrorCodes.ACCESS_DENIED,
+        error.message
+      );
+    }
+
+    if (error.message?.includes("already exists")) {
+      throw new OdometerEventError(
+        OdometerEventErrorCodes.DUPLICATE_DATE,
+        error.message
+      );
+    }
+
+    // Error genérico de base de datos
+    throw new OdometerEventError(
+      OdometerEventErrorCodes.DATABASE_ERROR,
+      `Database operation failed: ${error.message}`,
+      error
+    );
+  }
+}
+
+export const odometerEventRepository = new OdometerEventRepository();
@@ -0,0 +1,371 @@
+import { Queryable, unitOfWork } from "./unit-of-work";
+import {
+  MultiPurchaseOrder,
+  PurchaseOrderBase,
+  PurchaseOrderCreate,
+  PurchaseOrderFilters,
+  PurchaseOrderLine,
+  PurchaseOrderLineSave,
+  PurchaseOrderStatus,
+  PurchaseOrderUpdate,
+} from "@/types/purchase-order";
+import { GlobalErrorResponse, PurchaseOrderErrorCodes } from "@/lib/errors";
+
+export class PurchaseOrderError extends Error {
+  public readonly code: PurchaseOrderErrorCodes;
+  public readonly details?: unknown;
+
+  constructor(
+    code: PurchaseOrderErrorCodes,
+    message: string,
+    details?: unknown
+  ) {
+    super(message);
+    this.name = "PurchaseOrderError";
+    this.code = code;
+    this.details = details;
+  }
+}
+
+/**
+ * Repositorio para gestionar órdenes de compra
+ * Maneja las órdenes, sus líneas y las cantidades recibidas
+ */
+class PurchaseOrderRepository {
+  private get db(): Queryable {
+    return unitOfWork.getConnection();
+  }
+
+  /**
+   * Crear una nueva orden de compra en borrador
+   * @param order - Datos de la orden y sus líneas con precio
+   * @returns El ID, número y fecha de creación de la orden
+   */
+  async create(
+    order: Omit<PurchaseOrderCreate, "lines"> & {
+      lines: PurchaseOrderLineSave[];
+    }
+  ): Promise<{ id: string; number: number; created_at: Date }> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.create_purchase_order($1, $2, $3, $4, $5, $6)",
+        [
+          order.supplier_id,
+          order.warehouse_id ?? null,
+          order.expected_date ?? null,
+          order.notes ?? null,
+          JSON.stringify(order.lines),
+          order.user_id,
+        ]
+      );
+
+      const response = result.rows[0].create_purchase_order;
+      return {
+        id: response.id,
+        number: Number(response.number),
+        created_at: new Date(response.created_at),
+      };
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "create", { order });
+    }
+  }
+
+  /**
+   * Actualizar una orden de compra
+   * Si se envían líneas, reemplazan a las de la orden
+   * @param order - Datos a actualizar
+   * @returns El ID de la orden actualizada
+   */
+  async update(
+    order: Omit<PurchaseOrderUpdate, "lines"> & {
+      lines?: PurchaseOrderLineSave[];
+    }
+  ): Promise<{ id: string }> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.update_purchase_order($1, $2, $3, $4, $5, $6)",
+        [
+          order.id,
+          order.warehouse_id ?? null,
+          order.expected_date ?? null,
+          order.notes ?? null,
+          order.lines ? JSON.stringify(order.lines) : null,
+          order.user_id,
+        ]
+      );
+
+      return { id: result.rows[0].update_purchase_order.id };
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "update", { order });
+    }
+  }
+
+  /**
+   * Bloquear una orden de compra hasta el fin de la transacción activa
+   * Serializa las recepciones de la orden para que sus cantidades recibidas
+   * no cambien entre la validación y la recepción
+   * @param id - ID de la orden
+   * @param userId - ID del usuario
+   * @returns true si la orden existe y pertenece al usuario
+   */
+  async lock(id: string, userId: string): Promise<boolean> {
+    try {
+      const result = await this.db.query(
+        `
+        SELECT id
+        FROM mnt.purchase_orders
+        WHERE id = $1 AND user_id = $2
+        FOR UPDATE
+      `,
+        [id, userId]
+      );
+
+      return result.rows.length > 0;
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "lock", { id, userId });
+    }
+  }
+
+  /**
+   * Obtener una orden de compra por su ID
+   * @param id - ID de la orden
+   * @param userId - ID del usuario
+   * @returns La orden encontrada o null
+   */
+  async getById(
+    id: string,
+    userId: string
+  ): Promise<PurchaseOrderBase | null> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.get_purchase_order_by_id($1, $2)",
+        [id, userId]
+      );
+
+      const data = result.rows[0]?.get_purchase_order_by_id;
+      return data ? this.mapToOrder(data) : null;
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "getById", { id, userId });
+    }
+  }
+
+  /**
+   * Obtener las órdenes de compra del usuario, de la más reciente a la más
+   * antigua
+   * @param userId - ID del usuario
+   * @param filters - Proveedor o estado
+   * @param limit - Límite de resultados
+   * @param offset - Desplazamiento para la paginación
+   * @returns Lista paginada de órdenes
+   */
+  async getAll(
+    userId: string,
+    filters: PurchaseOrderFilters = {},
+    limit: number = 100,
+    offset: number = 0
+  ): Promise<MultiPurchaseOrder> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.get_purchase_orders($1, $2, $3, $4, $5)",
+        [
+          userId,
+          filters.supplier_id ?? null,
+          filters.status ?? null,
+          limit,
+          offset,
+        ]
+      );
+
+      const response = result.rows[0].get_purchase_orders;
+      return {
+        total: Number(response?.total || 0),
+        limit,
+        offset,
+        pages: Number(response?.pages || 0),
+        data: (response?.data || []).map((order: PurchaseOrderBase) =>
+          this.mapToOrder(order)
+        ),
+      };
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "getAll", {
+        userId,
+        filters,
+        limit,
+        offset,
+      });
+    }
+  }
+
+  /**
+   * Cambiar el estado de una orden de compra
+   * Registra la fecha de envío, recepción o anulación según el estado
+   * @param id - ID de la orden
+   * @param status - Nuevo estado
+   * @param userId - ID del usuario
+   * @returns El ID y estado de la orden
+   */
+  async setStatus(
+    id: string,
+    status: PurchaseOrderStatus,
+    userId: string
+  ): Promise<{ id: string; status: PurchaseOrderStatus }> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.set_purchase_order_status($1, $2, $3)",
+        [id, status, userId]
+      );
+
+      const response = result.rows[0].set_purchase_order_status;
+      return { id: response.id, status: response.status };
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "setStatus", {
+        id,
+        status,
+        userId,
+      });
+    }
+  }
+
+  /**
+   * Sumar cantidades recibidas a las líneas de una orden
+   * @param id - ID de la orden
+   * @param lines - Línea y cantidad recibida
+   * @param userId - ID del usuario
+   * @returns El ID de la orden
+   */
+  async addReceivedQuantities(
+    id: string,
+    lines: { line_id: string; quantity: number }[],
+    userId: string
+  ): Promise<{ id: string }> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.add_purchase_order_received_quantities($1, $2, $3)",
+        [id, JSON.stringify(lines), userId]
+      );
+
+      return {
+        id: result.rows[0].add_purchase_order_received_quantities.id,
+      };
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "addReceivedQuantities", {
+        id,
+        lines,
+        userId,
+      });
+    }
+  }
+
+  /**
+   * Verificar si un repuesto está en órdenes de compra pendientes
+   * (en borrador, enviadas o parcialmente recibidas)
+   * @param sparePartId - ID del repuesto
+   * @param userId - ID del usuario
+   * @returns true si está en alguna orden pendiente
+   */
+  async hasPendingSparePart(
+    sparePartId: string,
+    userId: string
+  ): Promise<boolean> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.spare_part_has_pending_purchase_orders($1, $2)",
+        [sparePartId, userId]
+      );
+
+      return !!result.rows[0].spare_part_has_pending_purchase_orders;
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "hasPendingSparePart", {
+        sparePartId,
+        userId,
+      });
+    }
+  }
+
+  /**
+   * Mapear datos de la base de datos a PurchaseOrderBase
+   */
+  private mapToOrder(data: PurchaseOrderBase): PurchaseOrderBase {
+    const lines = (data.lines || []).map((line: PurchaseOrderLine) => ({
+      id: line.id,
+      spare_part_id: line.spare_part_id,
+      spare_part: line.spare_part ?? undefined,
+      supplier_code: line.supplier_code ?? undefined,
+      quantity: Number(line.quantity),
+      received_quantity: Number(line.received_quantity || 0),
+      unit_price: Number(line.unit_price),
+    }));
+
+    return {
+      id: data.id,
+      number: Number(data.number),
+      supplier_id: data.supplier_id,
+      supplier_name: data.supplier_name ?? undefined,
+      warehouse_id: data.warehouse_id ?? undefined,
+      warehouse_name: data.warehouse_name ?? undefined,
+      status: data.status,
+      expected_date: data.expected_date
+        ? new Date(data.expected_date)
+        : undefined,
+      notes: data.notes ?? undefined,
+      lines,
+      total: lines.reduce(
+        (total, line) => total + line.quantity * line.unit_price,
+        0
+      ),
+      sent_at: data.sent_at ? new Date(data.sent_at) : undefined,
+      received_at: data.received_at ? new Date(data.received_at) : undefined,
+      cancelled_at: data.cancelled_at
+        ? new Date(data.cancelled_at)
+        : undefined,
+      created_at: new Date(data.created_at),
+      updated_at: data.updated_at ? new Date(data.updated_at) : undefined,
+      user_id: data.user_id,
+    };
+  }
+
+  /**
+   * Manejo centralizado de errores
+   * @param error - Error capturado
+   * @param operation - Operación que falló
+   * @param params - Parámetros de la operación
+   */
+  private handleError(
+    error: GlobalErrorResponse,
+    operation: string,
+    params?: unknown
+  ): never {
+    console.error(`Error in PurchaseOrderRepository.${operation}:`, {
+      error: error.message,
+      stack: error.stack,
+      params,
+    });
+
+    if (error instanceof PurchaseOrderError) {
+      throw error;
+    }
+
+    if (error.message?.includes("not found")) {
+      throw new PurchaseOrderError(
+        PurchaseOrderErrorCodes.NOT_FOUND,
+        error.message
+      );
+    }
+
+    if (error.message?.includes("access denied")) {
+      throw new PurchaseOrderError(
+        PurchaseOrderErrorCodes.ACCESS_DENIED,
+        error.message
+      );
+    }
+
+    // Error genérico de base de datos
+    throw new PurchaseOrderError(
+      PurchaseOrderErrorCodes.DATABASE_ERROR,
+      `Database operation failed: ${error.message}`,
+      error
+    );
+  }
+}
+
+export const purchaseOrderRepository = new PurchaseOrderRepository();
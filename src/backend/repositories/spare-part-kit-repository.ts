@@ -0,0 +1,283 @@
+import { Queryable, unitOfWork } from "./unit-of-work";
+import {
+  MultiSparePartKit,
+  SparePartKitBase,
+  SparePartKitCreate,
+  SparePartKitItem,
+  SparePartKitUpdate,
+} from "@/types/spare-part-kit";
+import { GlobalErrorResponse, SparePartKitErrorCodes } from "@/lib/errors";
+
+export class SparePartKitError extends Error {
+  public readonly code: SparePartKitErrorCodes;
+  public readonly details?: unknown;
+
+  constructor(
+    code: SparePartKitErrorCodes,
+    message: string,
+    details?: unknown
+  ) {
+    super(message);
+    this.name = "SparePartKitError";
+    this.code = code;
+    this.details = details;
+  }
+}
+
+/**
+ * Repositorio para gestionar kits de repuestos
+ * Maneja las operaciones de base de datos para los kits de los tipos de
+ * mantenimiento y de las etapas de los planes
+ */
+class SparePartKitRepository {
+  private get db(): Queryable {
+    return unitOfWork.getConnection();
+  }
+
+  /**
+   * Crear un nuevo kit
+   * @param kit - Datos del kit y sus repuestos
+   * @returns El ID y fecha de creación del kit
+   */
+  async create(
+    kit: SparePartKitCreate
+  ): Promise<{ id: string; created_at: Date }> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.create_spare_part_kit($1, $2, $3, $4, $5, $6)",
+        [
+          kit.name,
+          kit.description ?? null,
+          kit.maintenance_type_id ?? null,
+          kit.maintenance_stage_id ?? null,
+          JSON.stringify(kit.items),
+          kit.user_id,
+        ]
+      );
+
+      const response = result.rows[0].create_spare_part_kit;
+      return {
+        id: response.id,
+        created_at: new Date(response.created_at),
+      };
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "create", { kit });
+    }
+  }
+
+  /**
+   * Actualizar un kit
+   * Si se envían repuestos, reemplazan a los del kit
+   * @param kit - Datos a actualizar
+   * @returns El ID del kit actualizado
+   */
+  async update(kit: SparePartKitUpdate): Promise<{ id: string }> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.update_spare_part_kit($1, $2, $3, $4, $5)",
+        [
+          kit.id,
+          kit.name ?? null,
+          kit.description ?? null,
+          kit.items ? JSON.stringify(kit.items) : null,
+          kit.user_id,
+        ]
+      );
+
+      return { id: result.rows[0].update_spare_part_kit.id };
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "update", { kit });
+    }
+  }
+
+  /**
+   * Obtener un kit por su ID
+   * @param id - ID del kit
+   * @param userId - ID del usuario
+   * @returns El kit encontrado o null
+   */
+  async getById(id: string, userId: string): Promise<SparePartKitBase | null> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.get_spare_part_kit_by_id($1, $2)",
+        [id, userId]
+      );
+
+      const data = result.rows[0]?.get_spare_part_kit_by_id;
+      return data ? this.mapToKit(data) : null;
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "getById", { id, userId });
+    }
+  }
+
+  /**
+   * Obtener los kits del usuario, opcionalmente de un tipo de mantenimiento
+   * o de una etapa
+   * @param userId - ID del usuario
+   * @param owner - Tipo de mantenimiento o etapa (opcional)
+   * @param limit - Límite de resultados
+   * @param offset - Desplazamiento para la paginación
+   * @returns Lista paginada de kits
+   */
+  async getAll(
+    userId: string,
+    owner: { maintenance_type_id?: string; maintenance_stage_id?: string } = {},
+    limit: number = 100,
+    offset: number = 0
+  ): Promise<MultiSparePartKit> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.get_spare_part_kits($1, $2, $3, $4, $5)",
+        [
+          userId,
+          owner.maintenance_type_id ?? null,
+          owner.maintenance_stage_id ?? null,
+          limit,
+          offset,
+        ]
+      );
+
+      const response = result.rows[0].get_spare_part_kits;
+      return {
+        total: Number(response?.total || 0),
+        limit,
+        offset,
+        pages: Number(response?.pages || 0),
+        data: (response?.data || []).map((kit: SparePartKitBase) =>
+          this.mapToKit(kit)
+        ),
+      };
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "getAll", {
+        userId,
+        owner,
+        limit,
+        offset,
+      });
+    }
+  }
+
+  /**
+   * Obtener los kits de varias etapas y tipos de mantenimiento
+   * @param userId - ID del usuario
+   * @param maintenanceStageIds - IDs de las etapas
+   * @param maintenanceTypeIds - IDs de los tipos de mantenimiento
+   * @returns Kits que pertenecen a alguna de las etapas o de los tipos
+   */
+  async getByOwners(
+    userId: string,
+    maintenanceStageIds: string[],
+    maintenanceTypeIds: string[]
+  ): Promise<SparePartKitBase[]> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.get_spare_part_kits_by_owners($1, $2, $3)",
+        [userId, maintenanceStageIds, maintenanceTypeIds]
+      );
+
+      return (result.rows[0].get_spare_part_kits_by_owners || []).map(
+        (kit: SparePartKitBase) => this.mapToKit(kit)
+      );
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "getByOwners", {
+        userId,
+        maintenanceStageIds,
+        maintenanceTypeIds,
+      });
+    }
+  }
+
+  /**
+   * Eliminar un kit
+   * @param id - ID del kit
+   * @param userId - ID del usuario
+   * @returns El ID del kit eliminado
+   */
+  async delete(id: string, userId: string): Promise<{ id: string }> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.delete_spare_part_kit($1, $2)",
+        [id, userId]
+      );
+
+      return { id: result.rows[0].delete_spare_part_kit.id };
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "delete", { id, userId });
+    }
+  }
+
+  /**
+   * Mapear datos de la base de datos a SparePartKitBase
+   */
+  private mapToKit(data: SparePartKitBase): SparePartKitBase {
+    return {
+      id: data.id,
+      name: data.name,
+      description: data.description ?? undefined,
+      maintenance_type_id: data.maintenance_type_id ?? undefined,
+      maintenance_stage_id: data.maintenance_stage_id ?? undefined,
+      items: (data.items || []).map((item: SparePartKitItem) => ({
+        spare_part_id: item.spare_part_id,
+        quantity: Number(item.quantity),
+        spare_part: item.spare_part
+          ? { ...item.spare_part, price: Number(item.spare_part.price) }
+          : undefined,
+      })),
+      created_at: new Date(data.created_at),
+      updated_at: data.updated_at ? new Date(data.updated_at) : undefined,
+      user_id: data.user_id,
+    };
+  }
+
+  /**
+   * Manejo centralizado de errores
+   * @param error - Error capturado
+   * @param operation - Operación que falló
+   * @param params - Parámetros de la operación
+   */
+  private handleError(
+    error: GlobalErrorResponse,
+    operation: string,
+    params?: unknown
+  ): never {
+    console.error(`Error in SparePartKitRepository.${operation}:`, {
+      error: error.message,
+      stack: error.stack,
+      params,
+    });
+
+    if (error instanceof SparePartKitError) {
+      throw error;
+    }
+
+    if (error.message?.includes("not found")) {
+      throw new SparePartKitError(
+        SparePartKitErrorCodes.NOT_FOUND,
+        error.message
+      );
+    }
+
+    if (error.message?.includes("access denied")) {
+      throw new SparePartKitError(
+        SparePartKitErrorCodes.ACCESS_DENIED,
+        error.message
+      );
+    }
+
+    if (error.message?.includes("duplicate key")) {
+      throw new SparePartKitError(
+        SparePartKitErrorCodes.DUPLICATE_OWNER,
+        "Ya existe un kit para este tipo de mantenimiento o etapa"
+      );
+    }
+
+    // Error genérico de base de datos
+    throw new SparePartKitError(
+      SparePartKitErrorCodes.DATABASE_ERROR,
+      `Database operation failed: ${error.message}`,
+      error
+    );
+  }
+}
+
+export const sparePartKitRepository = new SparePartKitRepository();
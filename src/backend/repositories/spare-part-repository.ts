@@ -1,18 +1,16 @@
-import { pool } from "@/lib/supabase";
-import { Pool } from "pg";
+import { Queryable, unitOfWork } from "./unit-of-work";
 import {
   SparePartBase,
   SparePartCreate,
   SparePartUpdate,
   MultiSparePart,
   DeleteSparePart,
+  SparePartPriceChange,
 } from "@/types/spare-part";
 
 class SparePartRepository {
-  private db: Pool;
-
-  constructor() {
-    this.db = pool;
+  private get db(): Queryable {
+    return unitOfWork.getConnection();
   }
 
   /**
@@ -71,6 +69,17 @@ class SparePartRepository {
         description: sparePartData.description,
         price: parseFloat(sparePartData.price),
         image_url: sparePartData.image_url,
+        last_purchase_cost:
+          sparePartData.last_purchase_cost !== null &&
+          sparePartData.last_purchase_cost !== undefined
+            ? parseFloat(sparePartData.last_purchase_cost)
+            : undefined,
+        last_purchase_at: sparePartData.last_purchase_at
+          ? new Date(sparePartData.last_purchase_at)
+          : undefined,
+        compatible_equipment_types:
+          sparePartData.compatible_equipment_types || [],
+        discontinued: sparePartData.discontinued ?? false,
         created_at: new Date(sparePartData.created_at),
         updated_at: sparePartData.updated_at
           ? new Date(sparePartData.updated_at)
@@ -87,6 +96,52 @@ class SparePartRepository {
     }
   }
 
+  /**
+   * Obtener los repuestos del usuario con los IDs indicados
+   */
+  async getByIds(ids: string[], userId: string): Promise<SparePartBase[]> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.get_spare_parts_by_ids($1, $2)",
+        [ids, userId]
+      );
+
+      return (result.rows[0].get_spare_parts_by_ids || []).map(
+        (sparePart: SparePartBase) => ({
+          id: sparePart.id,
+          factory_code: sparePart.factory_code,
+          name: sparePart.name,
+          description: sparePart.description,
+          price: Number(sparePart.price),
+          image_url: sparePart.image_url,
+          last_purchase_cost:
+            sparePart.last_purchase_cost !== null &&
+            sparePart.last_purchase_cost !== undefined
+              ? Number(sparePart.last_purchase_cost)
+              : undefined,
+          last_purchase_at: sparePart.last_purchase_at
+            ? new Date(sparePart.last_purchase_at)
+            : undefined,
+          compatible_equipment_types:
+            sparePart.compatible_equipment_types || [],
+          discontinued: sparePart.discontinued ?? false,
+          created_at: new Date(sparePart.created_at),
+          updated_at: sparePart.updated_at
+            ? new Date(sparePart.updated_at)
+            : undefined,
+          user_id: sparePart.user_id,
+        })
+      );
+    } catch (err) {
+      if (err instanceof Error) {
+        console.error("Error al obtener spare parts por IDs:", err.stack);
+      } else {
+        console.error("Error al obtener spare parts por IDs:", err);
+      }
+      throw err;
+    }
+  }
+
   /**
    * Obtener todos los repuestos con paginación
    */
@@ -111,6 +166,17 @@ class SparePartRepository {
           description: sparePart.description,
           price: sparePart.price,
           image_url: sparePart.image_url,
+          last_purchase_cost:
+            sparePart.last_purchase_cost !== null &&
+            sparePart.last_purchase_cost !== undefined
+              ? Number(sparePart.last_purchase_cost)
+              : undefined,
+          last_purchase_at: sparePart.last_purchase_at
+            ? new Date(sparePart.last_purchase_at)
+            : undefined,
+          compatible_equipment_types:
+            sparePart.compatible_equipment_types || [],
+          discontinued: sparePart.discontinued ?? false,
           created_at: new Date(sparePart.created_at),
           updated_at: sparePart.updated_at
             ? new Date(sparePart.updated_at)
@@ -190,6 +256,158 @@ class SparePartRepository {
     }
   }
 
+  /**
+   * Registrar el costo unitario de la última compra recibida
+   */
+  async setLastPurchaseCost(
+    id: string,
+    cost: number,
+    userId: string
+  ): Promise<{ id: string }> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.set_spare_part_last_purchase_cost($1, $2, $3)",
+        [id, cost, userId]
+      );
+
+      const response = result.rows[0].set_spare_part_last_purchase_cost;
+      return {
+        id: response.id,
+      };
+    } catch (err) {
+      if (err instanceof Error) {
+        console.error("Error al registrar el costo de compra:", err.stack);
+      } else {
+        console.error("Error al registrar el costo de compra:", err);
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * Reemplazar los tipos de equipo compatibles con el repuesto
+   */
+  async setCompatibleEquipmentTypes(
+    id: string,
+    equipmentTypes: string[],
+    userId: string
+  ): Promise<{ id: string }> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.set_spare_part_compatible_equipment_types($1, $2, $3)",
+        [id, equipmentTypes, userId]
+      );
+
+      const response =
+        result.rows[0].set_spare_part_compatible_equipment_types;
+      return {
+        id: response.id,
+      };
+    } catch (err) {
+      if (err instanceof Error) {
+        console.error("Error al guardar la compatibilidad:", err.stack);
+      } else {
+        console.error("Error al guardar la compatibilidad:", err);
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * Marcar o desmarcar un repuesto como descontinuado
+   */
+  async setDiscontinued(
+    id: string,
+    discontinued: boolean,
+    userId: string
+  ): Promise<{ id: string }> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.set_spare_part_discontinued($1, $2, $3)",
+        [id, discontinued, userId]
+      );
+
+      const response = result.rows[0].set_spare_part_discontinued;
+      return {
+        id: response.id,
+      };
+    } catch (err) {
+      if (err instanceof Error) {
+        console.error("Error al descontinuar spare part:", err.stack);
+      } else {
+        console.error("Error al descontinuar spare part:", err);
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * Registrar un cambio de precio en el historial del repuesto
+   */
+  async addPriceChange(
+    id: string,
+    previousPrice: number,
+    price: number,
+    userId: string
+  ): Promise<{ id: string; changed_at: Date }> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.create_spare_part_price_change($1, $2, $3, $4)",
+        [id, previousPrice, price, userId]
+      );
+
+      const response = result.rows[0].create_spare_part_price_change;
+      return {
+        id: response.id,
+        changed_at: new Date(response.changed_at),
+      };
+    } catch (err) {
+      if (err instanceof Error) {
+        console.error("Error al registrar el cambio de precio:", err.stack);
+      } else {
+        console.error("Error al registrar el cambio de precio:", err);
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * Obtener el historial de precios de un repuesto, del más antiguo al más
+   * reciente
+   */
+  async getPriceChanges(
+    id: string,
+    userId: string
+  ): Promise<SparePartPriceChange[]> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.get_spare_part_price_changes($1, $2)",
+        [id, userId]
+      );
+
+      const changes = result.rows[0].get_spare_part_price_changes || [];
+      return changes.map((change: SparePartPriceChange) => ({
+        id: change.id,
+        spare_part_id: change.spare_part_id,
+        previous_price:
+          change.previous_price !== null &&
+          change.previous_price !== undefined
+            ? Number(change.previous_price)
+            : undefined,
+        price: Number(change.price),
+        changed_at: new Date(change.changed_at),
+        user_id: change.user_id,
+      }));
+    } catch (err) {
+      if (err instanceof Error) {
+        console.error("Error al obtener el historial de precios:", err.stack);
+      } else {
+        console.error("Error al obtener el historial de precios:", err);
+      }
+      throw err;
+    }
+  }
+
   async isInUse(id: string): Promise<boolean> {
     try {
       const result = await this.db.query("SELECT mnt.is_spare_part_in_use($1)", [
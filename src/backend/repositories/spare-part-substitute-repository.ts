@@ -0,0 +1,173 @@
+import { Queryable, unitOfWork } from "./unit-of-work";
+import {
+  SparePartSubstituteBase,
+  SparePartSubstituteCreate,
+} from "@/types/spare-part-substitute";
+import {
+  GlobalErrorResponse,
+  SparePartSubstituteErrorCodes,
+} from "@/lib/errors";
+
+export class SparePartSubstituteError extends Error {
+  public readonly code: SparePartSubstituteErrorCodes;
+  public readonly details?: unknown;
+
+  constructor(
+    code: SparePartSubstituteErrorCodes,
+    message: string,
+    details?: unknown
+  ) {
+    super(message);
+    this.name = "SparePartSubstituteError";
+    this.code = code;
+    this.details = details;
+  }
+}
+
+/**
+ * Repositorio para gestionar las equivalencias entre repuestos
+ * Cada fila es una arista no dirigida del grafo de sustitutos
+ */
+class SparePartSubstituteRepository {
+  private get db(): Queryable {
+    return unitOfWork.getConnection();
+  }
+
+  /**
+   * Registrar que dos repuestos son equivalentes
+   * @param substitute - Repuestos equivalentes y notas
+   * @returns El ID y fecha de creación de la equivalencia
+   */
+  async create(
+    substitute: SparePartSubstituteCreate
+  ): Promise<{ id: string; created_at: Date }> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.create_spare_part_substitute($1, $2, $3, $4)",
+        [
+          substitute.spare_part_id,
+          substitute.substitute_id,
+          substitute.notes ?? null,
+          substitute.user_id,
+        ]
+      );
+
+      const response = result.rows[0].create_spare_part_substitute;
+      return {
+        id: response.id,
+        created_at: new Date(response.created_at),
+      };
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "create", { substitute });
+    }
+  }
+
+  /**
+   * Obtener todas las equivalencias del usuario
+   * @param userId - ID del usuario
+   * @returns Aristas del grafo de sustitutos
+   */
+  async getAll(userId: string): Promise<SparePartSubstituteBase[]> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.get_spare_part_substitutes($1)",
+        [userId]
+      );
+
+      return (result.rows[0].get_spare_part_substitutes || []).map(
+        (substitute: SparePartSubstituteBase) =>
+          this.mapToSubstitute(substitute)
+      );
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "getAll", { userId });
+    }
+  }
+
+  /**
+   * Eliminar una equivalencia
+   * @param id - ID de la equivalencia
+   * @param userId - ID del usuario
+   * @returns El ID de la equivalencia eliminada
+   */
+  async delete(id: string, userId: string): Promise<{ id: string }> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.delete_spare_part_substitute($1, $2)",
+        [id, userId]
+      );
+
+      return { id: result.rows[0].delete_spare_part_substitute.id };
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "delete", { id, userId });
+    }
+  }
+
+  /**
+   * Mapear datos de la base de datos a SparePartSubstituteBase
+   */
+  private mapToSubstitute(
+    data: SparePartSubstituteBase
+  ): SparePartSubstituteBase {
+    return {
+      id: data.id,
+      spare_part_id: data.spare_part_id,
+      substitute_id: data.substitute_id,
+      notes: data.notes ?? undefined,
+      created_at: new Date(data.created_at),
+      user_id: data.user_id,
+    };
+  }
+
+  /**
+   * Manejo centralizado de errores
+   * @param error - Error capturado
+   * @param operation - Operación que falló
+   * @param params - Parámetros de la operación
+   */
+  private handleError(
+    error: GlobalErrorResponse,
+    operation: string,
+    params?: unknown
+  ): never {
+    console.error(`Error in SparePartSubstituteRepository.${operation}:`, {
+      error: error.message,
+      stack: error.stack,
+      params,
+    });
+
+    if (error instanceof SparePartSubstituteError) {
+      throw error;
+    }
+
+    if (error.message?.includes("not found")) {
+      throw new SparePartSubstituteError(
+        SparePartSubstituteErrorCodes.NOT_FOUND,
+        error.message
+      );
+    }
+
+    if (error.message?.includes("access denied")) {
+      throw new SparePartSubstituteError(
+        SparePartSubstituteErrorCodes.ACCESS_DENIED,
+        error.message
+      );
+    }
+
+    if (error.message?.includes("duplicate key")) {
+      throw new SparePartSubstituteError(
+        SparePartSubstituteErrorCodes.ALREADY_EQUIVALENT,
+        "Los repuestos ya son equivalentes"
+      );
+    }
+
+    // Error genérico de base de datos
+    throw new SparePartSubstituteError(
+      SparePartSubstituteErrorCodes.DATABASE_ERROR,
+      `Database operation failed: ${error.message}`,
+      error
+    );
+  }
+}
+
+export const sparePartSubstituteRepository =
+  new SparePartSubstituteRepository();
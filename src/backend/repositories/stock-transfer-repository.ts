@@ -0,0 +1,195 @@
+import { Queryable, unitOfWork } from "./unit-of-work";
+import {
+  MultiStockTransfer,
+  StockTransferBase,
+  StockTransferCreate,
+  StockTransferItem,
+} from "@/types/stock-transfer";
+import { GlobalErrorResponse, StockTransferErrorCodes } from "@/lib/errors";
+
+export class StockTransferError extends Error {
+  public readonly code: StockTransferErrorCodes;
+  public readonly details?: unknown;
+
+  constructor(
+    code: StockTransferErrorCodes,
+    message: string,
+    details?: unknown
+  ) {
+    super(message);
+    this.name = "StockTransferError";
+    this.code = code;
+    this.details = details;
+  }
+}
+
+/**
+ * Repositorio para gestionar transferencias de stock entre ubicaciones
+ * Solo guarda el documento; los movimientos los registra el inventario
+ */
+class StockTransferRepository {
+  private get db(): Queryable {
+    return unitOfWork.getConnection();
+  }
+
+  /**
+   * Crear el documento de una transferencia
+   * @param transfer - Ubicaciones de origen y destino y repuestos
+   * @returns El ID y fecha de creación de la transferencia
+   */
+  async create(
+    transfer: StockTransferCreate
+  ): Promise<{ id: string; created_at: Date }> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.create_stock_transfer($1, $2, $3, $4, $5)",
+        [
+          transfer.source_warehouse_id,
+          transfer.destination_warehouse_id,
+          transfer.notes ?? null,
+          JSON.stringify(transfer.items),
+          transfer.user_id,
+        ]
+      );
+
+      const response = result.rows[0].create_stock_transfer;
+      return {
+        id: response.id,
+        created_at: new Date(response.created_at),
+      };
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "create", { transfer });
+    }
+  }
+
+  /**
+   * Obtener una transferencia por su ID
+   * @param id - ID de la transferencia
+   * @param userId - ID del usuario
+   * @returns La transferencia encontrada o null
+   */
+  async getById(
+    id: string,
+    userId: string
+  ): Promise<StockTransferBase | null> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.get_stock_transfer_by_id($1, $2)",
+        [id, userId]
+      );
+
+      const data = result.rows[0]?.get_stock_transfer_by_id;
+      return data ? this.mapToTransfer(data) : null;
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "getById", { id, userId });
+    }
+  }
+
+  /**
+   * Obtener las transferencias del usuario, de la más reciente a la más
+   * antigua
+   * @param userId - ID del usuario
+   * @param warehouseId - Ubicación de origen o destino (opcional)
+   * @param limit - Límite de resultados
+   * @param offset - Desplazamiento para la paginación
+   * @returns Lista paginada de transferencias
+   */
+  async getAll(
+    userId: string,
+    warehouseId?: string,
+    limit: number = 100,
+    offset: number = 0
+  ): Promise<MultiStockTransfer> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.get_stock_transfers($1, $2, $3, $4)",
+        [userId, warehouseId ?? null, limit, offset]
+      );
+
+      const response = result.rows[0].get_stock_transfers;
+      return {
+        total: Number(response?.total || 0),
+        limit,
+        offset,
+        pages: Number(response?.pages || 0),
+        data: (response?.data || []).map((transfer: StockTransferBase) =>
+          this.mapToTransfer(transfer)
+        ),
+      };
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "getAll", {
+        userId,
+        warehouseId,
+        limit,
+        offset,
+      });
+    }
+  }
+
+  /**
+   * Mapear datos de la base de datos a StockTransferBase
+   */
+  private mapToTransfer(data: StockTransferBase): StockTransferBase {
+    return {
+      id: data.id,
+      source_warehouse_id: data.source_warehouse_id,
+      source_warehouse_name: data.source_warehouse_name ?? undefined,
+      destination_warehouse_id: data.destination_warehouse_id,
+      destination_warehouse_name: data.destination_warehouse_name ?? undefined,
+      notes: data.notes ?? undefined,
+      items: (data.items || []).map((item: StockTransferItem) => ({
+        spare_part_id: item.spare_part_id,
+        quantity: Number(item.quantity),
+        spare_part: item.spare_part,
+      })),
+      created_at: new Date(data.created_at),
+      updated_at: data.updated_at ? new Date(data.updated_at) : undefined,
+      user_id: data.user_id,
+    };
+  }
+
+  /**
+   * Manejo centralizado de errores
+   * @param error - Error capturado
+   * @param operation - Operación que falló
+   * @param params - Parámetros de la operación
+   */
+  private handleError(
+    error: GlobalErrorResponse,
+    operation: string,
+    params?: unknown
+  ): never {
+    console.error(`Error in StockTransferRepository.${operation}:`, {
+      error: error.message,
+      stack: error.stack,
+      params,
+    });
+
+    if (error instanceof StockTransferError) {
+      throw error;
+    }
+
+    if (error.message?.includes("not found")) {
+      throw new StockTransferError(
+        StockTransferErrorCodes.NOT_FOUND,
+        error.message
+      );
+    }
+
+    if (error.message?.includes("access denied")) {
+      throw new StockTransferError(
+        StockTransferErrorCodes.ACCESS_DENIED,
+        error.message
+      );
+    }
+
+    // Error genérico de base de datos
+    throw new StockTransferError(
+      StockTransferErrorCodes.DATABASE_ERROR,
+      `Database operation failed: ${error.message}`,
+      error
+    );
+  }
+}
+
+export const stockTransferRepository = new StockTransferRepository();
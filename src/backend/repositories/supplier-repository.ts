@@ -0,0 +1,329 @@
+import { Queryable, unitOfWork } from "./unit-of-work";
+import {
+  MultiSupplier,
+  SupplierBase,
+  SupplierCreate,
+  SupplierSparePart,
+  SupplierSparePartFilters,
+  SupplierSparePartSave,
+  SupplierUpdate,
+} from "@/types/supplier";
+import { GlobalErrorResponse, SupplierErrorCodes } from "@/lib/errors";
+
+export class SupplierError extends Error {
+  public readonly code: SupplierErrorCodes;
+  public readonly details?: unknown;
+
+  constructor(code: SupplierErrorCodes, message: string, details?: unknown) {
+    super(message);
+    this.name = "SupplierError";
+    this.code = code;
+    this.details = details;
+  }
+}
+
+/**
+ * Repositorio para gestionar proveedores
+ * Maneja los proveedores y los códigos y precios de sus repuestos
+ */
+class SupplierRepository {
+  private get db(): Queryable {
+    return unitOfWork.getConnection();
+  }
+
+  /**
+   * Crear un nuevo proveedor
+   * @param supplier - Datos del proveedor
+   * @returns El ID y fecha de creación del proveedor
+   */
+  async create(
+    supplier: SupplierCreate
+  ): Promise<{ id: string; created_at: Date }> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.create_supplier($1, $2, $3, $4, $5, $6, $7)",
+        [
+          supplier.name,
+          supplier.tax_id ?? null,
+          supplier.contact_name ?? null,
+          supplier.phone ?? null,
+          supplier.email ?? null,
+          supplier.address ?? null,
+          supplier.user_id,
+        ]
+      );
+
+      const response = result.rows[0].create_supplier;
+      return {
+        id: response.id,
+        created_at: new Date(response.created_at),
+      };
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "create", { supplier });
+    }
+  }
+
+  /**
+   * Actualizar un proveedor
+   * @param supplier - Datos a actualizar
+   * @returns El ID del proveedor actualizado
+   */
+  async update(supplier: SupplierUpdate): Promise<{ id: string }> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.update_supplier($1, $2, $3, $4, $5, $6, $7, $8)",
+        [
+          supplier.id,
+          supplier.name ?? null,
+          supplier.tax_id ?? null,
+          supplier.contact_name ?? null,
+          supplier.phone ?? null,
+          supplier.email ?? null,
+          supplier.address ?? null,
+          supplier.user_id,
+        ]
+      );
+
+      return { id: result.rows[0].update_supplier.id };
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "update", { supplier });
+    }
+  }
+
+  /**
+   * Obtener un proveedor por su ID
+   * @param id - ID del proveedor
+   * @param userId - ID del usuario
+   * @returns El proveedor encontrado o null
+   */
+  async getById(id: string, userId: string): Promise<SupplierBase | null> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.get_supplier_by_id($1, $2)",
+        [id, userId]
+      );
+
+      const data = result.rows[0]?.get_supplier_by_id;
+      return data ? this.mapToSupplier(data) : null;
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "getById", { id, userId });
+    }
+  }
+
+  /**
+   * Obtener los proveedores del usuario, ordenados por nombre
+   * @param userId - ID del usuario
+   * @param limit - Límite de resultados
+   * @param offset - Desplazamiento para la paginación
+   * @returns Lista paginada de proveedores
+   */
+  async getAll(
+    userId: string,
+    limit: number = 100,
+    offset: number = 0
+  ): Promise<MultiSupplier> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.get_suppliers($1, $2, $3)",
+        [userId, limit, offset]
+      );
+
+      const response = result.rows[0].get_suppliers;
+      return {
+        total: Number(response?.total || 0),
+        limit,
+        offset,
+        pages: Number(response?.pages || 0),
+        data: (response?.data || []).map((supplier: SupplierBase) =>
+          this.mapToSupplier(supplier)
+        ),
+      };
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "getAll", {
+        userId,
+        limit,
+        offset,
+      });
+    }
+  }
+
+  /**
+   * Eliminar un proveedor
+   * @param id - ID del proveedor
+   * @param userId - ID del usuario
+   * @returns El ID del proveedor eliminado
+   */
+  async delete(id: string, userId: string): Promise<{ id: string }> {
+    try {
+      const result = await this.db.query("SELECT mnt.delete_supplier($1, $2)", [
+        id,
+        userId,
+      ]);
+
+      return { id: result.rows[0].delete_supplier.id };
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "delete", { id, userId });
+    }
+  }
+
+  /**
+   * Guardar el código y precio de un repuesto en un proveedor
+   * Reemplaza el precio si el repuesto ya estaba registrado en el proveedor
+   * @param price - Proveedor, repuesto, código y precio
+   * @returns El ID del precio
+   */
+  async savePrice(price: SupplierSparePartSave): Promise<{ id: string }> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.save_supplier_spare_part($1, $2, $3, $4, $5)",
+        [
+          price.supplier_id,
+          price.spare_part_id,
+          price.supplier_code ?? null,
+          price.price,
+          price.user_id,
+        ]
+      );
+
+      return { id: result.rows[0].save_supplier_spare_part.id };
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "savePrice", { price });
+    }
+  }
+
+  /**
+   * Obtener los precios de un proveedor o de un repuesto
+   * @param userId - ID del usuario
+   * @param filters - Proveedor o repuesto
+   * @returns Precios registrados, del más barato al más caro
+   */
+  async getPrices(
+    userId: string,
+    filters: SupplierSparePartFilters = {}
+  ): Promise<SupplierSparePart[]> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.get_supplier_spare_parts($1, $2, $3)",
+        [userId, filters.supplier_id ?? null, filters.spare_part_id ?? null]
+      );
+
+      return (result.rows[0].get_supplier_spare_parts || []).map(
+        (price: SupplierSparePart) => this.mapToPrice(price)
+      );
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "getPrices", {
+        userId,
+        filters,
+      });
+    }
+  }
+
+  /**
+   * Eliminar el precio de un repuesto en un proveedor
+   * @param id - ID del precio
+   * @param userId - ID del usuario
+   * @returns El ID del precio eliminado
+   */
+  async deletePrice(id: string, userId: string): Promise<{ id: string }> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.delete_supplier_spare_part($1, $2)",
+        [id, userId]
+      );
+
+      return { id: result.rows[0].delete_supplier_spare_part.id };
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "deletePrice", {
+        id,
+        userId,
+      });
+    }
+  }
+
+  /**
+   * Mapear datos de la base de datos a SupplierBase
+   */
+  private mapToSupplier(data: SupplierBase): SupplierBase {
+    return {
+      id: data.id,
+      name: data.name,
+      tax_id: data.tax_id ?? undefined,
+      contact_name: data.contact_name ?? undefined,
+      phone: data.phone ?? undefined,
+      email: data.email ?? undefined,
+      address: data.address ?? undefined,
+      created_at: new Date(data.created_at),
+      updated_at: data.updated_at ? new Date(data.updated_at) : undefined,
+      user_id: data.user_id,
+    };
+  }
+
+  /**
+   * Mapear datos de la base de datos a SupplierSparePart
+   */
+  private mapToPrice(data: SupplierSparePart): SupplierSparePart {
+    return {
+      id: data.id,
+      supplier_id: data.supplier_id,
+      supplier_name: data.supplier_name ?? undefined,
+      spare_part_id: data.spare_part_id,
+      spare_part: data.spare_part ?? undefined,
+      supplier_code: data.supplier_code ?? undefined,
+      price: Number(data.price),
+      updated_at: data.updated_at ? new Date(data.updated_at) : undefined,
+    };
+  }
+
+  /**
+   * Manejo centralizado de errores
+   * @param error - Error capturado
+   * @param operation - Operación que falló
+   * @param params - Parámetros de la operación
+   */
+  private handleError(
+    error: GlobalErrorResponse,
+    operation: string,
+    params?: unknown
+  ): never {
+    console.error(`Error in SupplierRepository.${operation}:`, {
+      error: error.message,
+      stack: error.stack,
+      params,
+    });
+
+    if (error instanceof SupplierError) {
+      throw error;
+    }
+
+    if (error.message?.includes("not found")) {
+      throw new SupplierError(SupplierErrorCodes.NOT_FOUND, error.message);
+    }
+
+    if (error.message?.includes("access denied")) {
+      throw new SupplierError(SupplierErrorCodes.ACCESS_DENIED, error.message);
+    }
+
+    if (error.message?.includes("in use")) {
+      throw new SupplierError(
+        SupplierErrorCodes.IN_USE,
+        "El proveedor tiene órdenes de compra y no se puede eliminar"
+      );
+    }
+
+    if (error.message?.includes("duplicate key")) {
+      throw new SupplierError(
+        SupplierErrorCodes.DUPLICATE_NAME,
+        "Ya existe un proveedor con ese nombre"
+      );
+    }
+
+    // Error genérico de base de datos
+    throw new SupplierError(
+      SupplierErrorCodes.DATABASE_ERROR,
+      `Database operation failed: ${error.message}`,
+      error
+    );
+  }
+}
+
+export const supplierRepository = new SupplierRepository();
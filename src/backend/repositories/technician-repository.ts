@@ -0,0 +1,235 @@
+import { Queryable, unitOfWork } from "./unit-of-work";
+import {
+  MultiTechnician,
+  TechnicianBase,
+  TechnicianCreate,
+  TechnicianUpdate,
+} from "@/types/technician";
+import { GlobalErrorResponse, TechnicianErrorCodes } from "@/lib/errors";
+
+export class TechnicianError extends Error {
+  public readonly code: TechnicianErrorCodes;
+  public readonly details?: unknown;
+
+  constructor(code: TechnicianErrorCodes, message: string, details?: unknown) {
+    super(message);
+    this.name = "TechnicianError";
+    this.code = code;
+    this.details = details;
+  }
+}
+
+/**
+ * Repositorio para gestionar los técnicos y su tarifa por hora
+ */
+class TechnicianRepository {
+  private get db(): Queryable {
+    return unitOfWork.getConnection();
+  }
+
+  /**
+   * Crear un nuevo técnico
+   * @param technician - Datos del técnico
+   * @returns El ID y fecha de creación del técnico
+   */
+  async create(
+    technician: TechnicianCreate
+  ): Promise<{ id: string; created_at: Date }> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.create_technician($1, $2, $3, $4, $5, $6)",
+        [
+          technician.name,
+          technician.hourly_rate,
+          technician.specialty ?? null,
+          technician.phone ?? null,
+          technician.active ?? true,
+          technician.user_id,
+        ]
+      );
+
+      const response = result.rows[0].create_technician;
+      return {
+        id: response.id,
+        created_at: new Date(response.created_at),
+      };
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "create", { technician });
+    }
+  }
+
+  /**
+   * Actualizar un técnico
+   * @param technician - Datos a actualizar
+   * @returns El ID del técnico actualizado
+   */
+  async update(technician: TechnicianUpdate): Promise<{ id: string }> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.update_technician($1, $2, $3, $4, $5, $6, $7)",
+        [
+          technician.id,
+          technician.name ?? null,
+          technician.hourly_rate ?? null,
+          technician.specialty ?? null,
+          technician.phone ?? null,
+          technician.active ?? null,
+          technician.user_id,
+        ]
+      );
+
+      return { id: result.rows[0].update_technician.id };
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "update", { technician });
+    }
+  }
+
+  /**
+   * Obtener un técnico por su ID
+   * @param id - ID del técnico
+   * @param userId - ID del usuario
+   * @returns El técnico encontrado o null
+   */
+  async getById(id: string, userId: string): Promise<TechnicianBase | null> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.get_technician_by_id($1, $2)",
+        [id, userId]
+      );
+
+      const data = result.rows[0]?.get_technician_by_id;
+      return data ? this.mapToTechnician(data) : null;
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "getById", { id, userId });
+    }
+  }
+
+  /**
+   * Obtener los técnicos del usuario, ordenados por nombre
+   * @param userId - ID del usuario
+   * @param limit - Límite de resultados
+   * @param offset - Desplazamiento para la paginación
+   * @returns Lista paginada de técnicos
+   */
+  async getAll(
+    userId: string,
+    limit: number = 100,
+    offset: number = 0
+  ): Promise<MultiTechnician> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.get_technicians($1, $2, $3)",
+        [userId, limit, offset]
+      );
+
+      const response = result.rows[0].get_technicians;
+      return {
+        total: Number(response?.total || 0),
+        limit,
+        offset,
+        pages: Number(response?.pages || 0),
+        data: (response?.data || []).map((technician: TechnicianBase) =>
+          this.mapToTechnician(technician)
+        ),
+      };
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "getAll", {
+        userId,
+        limit,
+        offset,
+      });
+    }
+  }
+
+  /**
+   * Eliminar un técnico
+   * @param id - ID del técnico
+   * @param userId - ID del usuario
+   * @returns El ID del técnico eliminado
+   */
+  async delete(id: string, userId: string): Promise<{ id: string }> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.delete_technician($1, $2)",
+        [id, userId]
+      );
+
+      return { id: result.rows[0].delete_technician.id };
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "delete", { id, userId });
+    }
+  }
+
+  /**
+   * Mapear datos de la base de datos a TechnicianBase
+   */
+  private mapToTechnician(data: TechnicianBase): TechnicianBase {
+    return {
+      id: data.id,
+      name: data.name,
+      hourly_rate: Number(data.hourly_rate),
+      specialty: data.specialty ?? undefined,
+      phone: data.phone ?? undefined,
+      active: data.active ?? true,
+      created_at: new Date(data.created_at),
+      updated_at: data.updated_at ? new Date(data.updated_at) : undefined,
+      user_id: data.user_id,
+    };
+  }
+
+  /**
+   * Manejo centralizado de errores
+   * @param error - Error capturado
+   * @param operation - Operación que falló
+   * @param params - Parámetros de la operación
+   */
+  private handleError(
+    error: GlobalErrorResponse,
+    operation: string,
+    params?: unknown
+  ): never {
+    console.error(`Error in TechnicianRepository.${operation}:`, {
+      error: error.message,
+      stack: error.stack,
+      params,
+    });
+
+    if (error instanceof TechnicianError) {
+      throw error;
+    }
+
+    if (error.message?.includes("not found")) {
+      throw new TechnicianError(TechnicianErrorCodes.NOT_FOUND, error.message);
+    }
+
+    if (error.message?.includes("access denied")) {
+      throw new TechnicianError(
+        TechnicianErrorCodes.ACCESS_DENIED,
+        error.message
+      );
+    }
+
+    if (error.message?.includes("in use")) {
+      throw new TechnicianError(
+        TechnicianErrorCodes.IN_USE,
+        "El técnico tiene tiempos registrados y no se puede eliminar; desactívelo"
+      );
+    }
+
+    if (error.message?.includes("duplicate key")) {
+      throw new TechnicianError(
+        TechnicianErrorCodes.DUPLICATE_NAME,
+        "Ya existe un técnico con ese nombre"
+      );
+    }
+
+    // Error genérico de base de datos
+    throw new TechnicianError(
+      TechnicianErrorCodes.DATABASE_ERROR,
+      `Database operation failed: ${error.message}`,
+      error
+    );
+  }
+}
+
+export const technicianRepository = new TechnicianRepository();
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { DatabaseError } from "pg";
+import { TransactionErrorCodes } from "@/lib/errors";
+import { isDomainError, TransactionError, unitOfWork } from "./unit-of-work";
+
+class TestDomainError extends Error {
+  constructor(public code: string, message: string, public details?: unknown) {
+    super(message);
+  }
+}
+
+const fail = (error: Error) => async () => {
+  throw error;
+};
+
+describe("unitOfWork.step", () => {
+  it("devuelve el resultado del paso", async () => {
+    await expect(unitOfWork.step("spare_parts", async () => 3)).resolves.toBe(
+      3
+    );
+  });
+
+  it("deja pasar los errores de negocio con su código", async () => {
+    const error = new TestDomainError(
+      "INVENTORY_INSUFFICIENT_STOCK",
+      "Stock insuficiente",
+      { on_hand: 1 }
+    );
+
+    await expect(unitOfWork.step("spare_parts", fail(error))).rejects.toBe(
+      error
+    );
+  });
+
+  it("identifica el paso de un error de la base de datos", async () => {
+    const error = new DatabaseError("deadlock detected", 0, "error");
+    error.code = "40P01";
+
+    await expect(
+      unitOfWork.step("spare_parts", fail(error))
+    ).rejects.toMatchObject({
+      code: TransactionErrorCodes.STEP_FAILED,
+      step: "spare_parts",
+      details: { code: "40P01" },
+    });
+  });
+
+  it("identifica el paso de un *_DATABASE_ERROR del repositorio", async () => {
+    const error = new TestDomainError("INVENTORY_DATABASE_ERROR", "timeout");
+
+    const result = unitOfWork.step("spare_parts", fail(error));
+    await expect(result).rejects.toBeInstanceOf(TransactionError);
+    await expect(result).rejects.toMatchObject({ step: "spare_parts" });
+  });
+
+  it("identifica el paso de un error inesperado", async () => {
+    await expect(
+      unitOfWork.step("activities", fail(new Error("boom")))
+    ).rejects.toMatchObject({
+      code: TransactionErrorCodes.STEP_FAILED,
+      step: "activities",
+      message: "boom",
+    });
+  });
+});
+
+describe("isDomainError", () => {
+  it("reconoce errores con código propio", () => {
+    expect(isDomainError(new TestDomainError("NOT_FOUND", "x"))).toBe(true);
+    expect(isDomainError(new Error("x"))).toBe(false);
+    expect(isDomainError({ code: "NOT_FOUND" })).toBe(false);
+  });
+});
@@ -0,0 +1,136 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { DatabaseError, Pool, PoolClient } from "pg";
+import { pool } from "@/lib/supabase";
+import { TransactionErrorCodes } from "@/lib/errors";
+
+/**
+ * Conexión sobre la que los repositorios ejecutan sus consultas:
+ * el pool fuera de una transacción o el cliente de la transacción activa
+ */
+export type Queryable = Pool | PoolClient;
+
+/**
+ * Error de negocio de un repositorio o servicio (p. ej. PurchaseOrderError)
+ */
+export type DomainError = Error & { code: string; details?: unknown };
+
+/**
+ * Verificar si un error es de negocio: tiene un código propio y no proviene
+ * de la base de datos (los repositorios traducen los errores de PostgreSQL
+ * que no reconocen a códigos *_DATABASE_ERROR)
+ */
+export function isDomainError(err: unknown): err is DomainError {
+  if (!(err instanceof Error) || err instanceof DatabaseError) return false;
+
+  const { code } = err as { code?: unknown };
+  return typeof code === "string" && !code.endsWith("DATABASE_ERROR");
+}
+
+// Error handling
+export class TransactionError extends Error {
+  constructor(
+    public code: string,
+    message: string,
+    public step?: string,
+    public details?: unknown
+  ) {
+    super(message);
+    this.name = "TransactionError";
+  }
+}
+
+/**
+ * Unidad de trabajo compartida por los repositorios
+ * Mientras una operación se ejecuta dentro de `run`, todas las consultas de
+ * los repositorios usan el mismo cliente y se confirman o revierten juntas
+ */
+class UnitOfWork {
+  private db: Pool;
+  private context = new AsyncLocalStorage<PoolClient>();
+
+  constructor() {
+    this.db = pool;
+  }
+
+  /**
+   * Obtener la conexión activa (cliente de la transacción o pool)
+   */
+  getConnection(): Queryable {
+    return this.context.getStore() ?? this.db;
+  }
+
+  /**
+   * Indica si hay una transacción activa en el contexto actual
+   */
+  isActive(): boolean {
+    return this.context.getStore() !== undefined;
+  }
+
+  /**
+   * Ejecutar una operación dentro de una transacción
+   * Si ya existe una transacción activa, la operación se une a ella
+   * @param operation - Operación a ejecutar
+   * @returns El resultado de la operación
+   */
+  async run<T>(operation: () => Promise<T>): Promise<T> {
+    if (this.isActive()) {
+      return operation();
+    }
+
+    const client = await this.db.connect();
+    try {
+      await client.query("BEGIN");
+      const result = await this.context.run(client, operation);
+      await client.query("COMMIT");
+      return result;
+    } catch (err) {
+      await client.query("ROLLBACK").catch((rollbackErr) => {
+        console.error("Error al revertir la transacción:", rollbackErr);
+      });
+
+      // Los errores de negocio llegan tal cual para que las rutas respondan
+      // según su código
+      if (err instanceof TransactionError || isDomainError(err)) {
+        throw err;
+      }
+
+      throw new TransactionError(
+        TransactionErrorCodes.TRANSACTION_FAILED,
+        `Transaction failed: ${(err as Error).message}`,
+        undefined,
+        err
+      );
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Ejecutar un paso identificado dentro de la transacción
+   * Si el paso falla por la base de datos o un error inesperado, el error
+   * indica qué parte de la operación lo provocó; los errores de negocio
+   * llegan tal cual
+   * @param step - Nombre del paso (p. ej. "mileage_record")
+   * @param operation - Operación del paso
+   * @returns El resultado del paso
+   */
+  async step<T>(step: string, operation: () => Promise<T>): Promise<T> {
+    try {
+      return await operation();
+    } catch (err) {
+      if (err instanceof TransactionError || isDomainError(err)) {
+        throw err;
+      }
+
+      const cause = err as Error & { code?: string };
+      throw new TransactionError(
+        TransactionErrorCodes.STEP_FAILED,
+        cause.message || `Step ${step} failed`,
+        step,
+        { code: cause.code, name: cause.name }
+      );
+    }
+  }
+}
+
+export const unitOfWork = new UnitOfWork();
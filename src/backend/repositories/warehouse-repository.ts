@@ -0,0 +1,230 @@
+import { Queryable, unitOfWork } from "./unit-of-work";
+import {
+  MultiWarehouse,
+  WarehouseBase,
+  WarehouseCreate,
+  WarehouseUpdate,
+} from "@/types/warehouse";
+import { GlobalErrorResponse, WarehouseErrorCodes } from "@/lib/errors";
+
+export class WarehouseError extends Error {
+  public readonly code: WarehouseErrorCodes;
+  public readonly details?: unknown;
+
+  constructor(code: WarehouseErrorCodes, message: string, details?: unknown) {
+    super(message);
+    this.name = "WarehouseError";
+    this.code = code;
+    this.details = details;
+  }
+}
+
+/**
+ * Repositorio para gestionar ubicaciones de almacenamiento de repuestos
+ */
+class WarehouseRepository {
+  private get db(): Queryable {
+    return unitOfWork.getConnection();
+  }
+
+  /**
+   * Crear una nueva ubicación
+   * Si se marca como predeterminada, las demás dejan de serlo
+   * @param warehouse - Datos de la ubicación
+   * @returns El ID y fecha de creación de la ubicación
+   */
+  async create(
+    warehouse: WarehouseCreate
+  ): Promise<{ id: string; created_at: Date }> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.create_warehouse($1, $2, $3, $4)",
+        [
+          warehouse.name,
+          warehouse.address ?? null,
+          warehouse.is_default,
+          warehouse.user_id,
+        ]
+      );
+
+      const response = result.rows[0].create_warehouse;
+      return {
+        id: response.id,
+        created_at: new Date(response.created_at),
+      };
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "create", { warehouse });
+    }
+  }
+
+  /**
+   * Actualizar una ubicación
+   * @param warehouse - Datos a actualizar
+   * @returns El ID de la ubicación actualizada
+   */
+  async update(warehouse: WarehouseUpdate): Promise<{ id: string }> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.update_warehouse($1, $2, $3, $4, $5)",
+        [
+          warehouse.id,
+          warehouse.name ?? null,
+          warehouse.address ?? null,
+          warehouse.is_default ?? null,
+          warehouse.user_id,
+        ]
+      );
+
+      return { id: result.rows[0].update_warehouse.id };
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "update", { warehouse });
+    }
+  }
+
+  /**
+   * Obtener una ubicación por su ID
+   * @param id - ID de la ubicación
+   * @param userId - ID del usuario
+   * @returns La ubicación encontrada o null
+   */
+  async getById(id: string, userId: string): Promise<WarehouseBase | null> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.get_warehouse_by_id($1, $2)",
+        [id, userId]
+      );
+
+      const data = result.rows[0]?.get_warehouse_by_id;
+      return data ? this.mapToWarehouse(data) : null;
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "getById", { id, userId });
+    }
+  }
+
+  /**
+   * Obtener las ubicaciones del usuario, la predeterminada primero
+   * @param userId - ID del usuario
+   * @param limit - Límite de resultados
+   * @param offset - Desplazamiento para la paginación
+   * @returns Lista paginada de ubicaciones
+   */
+  async getAll(
+    userId: string,
+    limit: number = 100,
+    offset: number = 0
+  ): Promise<MultiWarehouse> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.get_warehouses($1, $2, $3)",
+        [userId, limit, offset]
+      );
+
+      const response = result.rows[0].get_warehouses;
+      return {
+        total: Number(response?.total || 0),
+        limit,
+        offset,
+        pages: Number(response?.pages || 0),
+        data: (response?.data || []).map((warehouse: WarehouseBase) =>
+          this.mapToWarehouse(warehouse)
+        ),
+      };
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "getAll", {
+        userId,
+        limit,
+        offset,
+      });
+    }
+  }
+
+  /**
+   * Eliminar una ubicación
+   * @param id - ID de la ubicación
+   * @param userId - ID del usuario
+   * @returns El ID de la ubicación eliminada
+   */
+  async delete(id: string, userId: string): Promise<{ id: string }> {
+    try {
+      const result = await this.db.query(
+        "SELECT mnt.delete_warehouse($1, $2)",
+        [id, userId]
+      );
+
+      return { id: result.rows[0].delete_warehouse.id };
+    } catch (err) {
+      this.handleError(err as GlobalErrorResponse, "delete", { id, userId });
+    }
+  }
+
+  /**
+   * Mapear datos de la base de datos a WarehouseBase
+   */
+  private mapToWarehouse(data: WarehouseBase): WarehouseBase {
+    return {
+      id: data.id,
+      name: data.name,
+      address: data.address ?? undefined,
+      is_default: !!data.is_default,
+      created_at: new Date(data.created_at),
+      updated_at: data.updated_at ? new Date(data.updated_at) : undefined,
+      user_id: data.user_id,
+    };
+  }
+
+  /**
+   * Manejo centralizado de errores
+   * @param error - Error capturado
+   * @param operation - Operación que falló
+   * @param params - Parámetros de la operación
+   */
+  private handleError(
+    error: GlobalErrorResponse,
+    operation: string,
+    params?: unknown
+  ): never {
+    console.error(`Error in WarehouseRepository.${operation}:`, {
+      error: error.message,
+      stack: error.stack,
+      params,
+    });
+
+    if (error instanceof WarehouseError) {
+      throw error;
+    }
+
+    if (error.message?.includes("not found")) {
+      throw new WarehouseError(WarehouseErrorCodes.NOT_FOUND, error.message);
+    }
+
+    if (error.message?.includes("access denied")) {
+      throw new WarehouseError(
+        WarehouseErrorCodes.ACCESS_DENIED,
+        error.message
+      );
+    }
+
+    if (error.message?.includes("has stock")) {
+      throw new WarehouseError(
+        WarehouseErrorCodes.HAS_STOCK,
+        "La ubicación tiene repuestos en stock; transfiéralos antes de eliminarla"
+      );
+    }
+
+    if (error.message?.includes("duplicate key")) {
+      throw new WarehouseError(
+        WarehouseErrorCodes.DUPLICATE_NAME,
+        "Ya existe una ubicación con ese nombre"
+      );
+    }
+
+    // Error genérico de base de datos
+    throw new WarehouseError(
+      WarehouseErrorCodes.DATABASE_ERROR,
+      `Database operation failed: ${error.message}`,
+      error
+    );
+  }
+}
+
+export const warehouseRepository = new WarehouseRepository();
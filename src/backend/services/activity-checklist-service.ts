@@ -0,0 +1,278 @@
+import {
+  activityChecklistRepository,
+  ActivityChecklistError,
+} from "../repositories/activity-checklist-repository";
+import { activityService } from "./activity-service";
+import { equipmentService } from "./equipment-service";
+import { maintenancePlanService } from "./maintenance-plan-service";
+import { maintenanceStageService } from "./maintenance-stage-service";
+import { ActivityChecklistErrorCodes } from "@/lib/errors";
+import {
+  ActivityChecklistBase,
+  ActivityChecklistSave,
+  ResolvedActivityChecklist,
+} from "@/types/activity-checklist";
+import { BulkMaintenanceActivityUpdate } from "@/types/maintenance-activity";
+
+const PRIORITIES = ["no", "low", "medium", "high", "immediate"];
+const MAX_ITEMS = 50; // Límite de la creación masiva de actividades
+
+/**
+ * Servicio para gestionar listas de actividades por defecto
+ * Cada tipo de mantenimiento o etapa del plan puede definir las actividades
+ * con las que se precarga un nuevo registro de mantenimiento
+ */
+class ActivityChecklistService {
+  private repository = activityChecklistRepository;
+
+  constructor() {}
+
+  /**
+   * Guardar la lista de un tipo de mantenimiento o de una etapa
+   * @param checklist - Dueño de la lista y sus actividades
+   * @returns El ID y fecha de creación de la lista
+   */
+  async save(
+    checklist: ActivityChecklistSave
+  ): Promise<{ id: string; created_at: Date }> {
+    try {
+      const maintenanceTypeId = await this.getOwnerMaintenanceType(checklist);
+      await this.validateItems(checklist, maintenanceTypeId);
+
+      return await this.repository.save(checklist);
+    } catch (error) {
+      console.error("Error al guardar la lista de actividades:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Obtener la lista de un tipo de mantenimiento o de una etapa
+   * @param owner - Tipo de mantenimiento o etapa
+   * @param userId - ID del usuario
+   * @returns La lista encontrada o null
+   */
+  async get(
+    owner: { maintenance_type_id?: string; maintenance_stage_id?: string },
+    userId: string
+  ): Promise<ActivityChecklistBase | null> {
+    try {
+      if (owner.maintenance_stage_id) {
+        return await this.repository.getByStage(
+          owner.maintenance_stage_id,
+          userId
+        );
+      }
+      if (owner.maintenance_type_id) {
+        return await this.repository.getByMaintenanceType(
+          owner.maintenance_type_id,
+          userId
+        );
+      }
+      return null;
+    } catch (error) {
+      console.error("Error al obtener la lista de actividades:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Eliminar una lista
+   * @param id - ID de la lista
+   * @param userId - ID del usuario
+   * @returns El ID de la lista eliminada
+   */
+  async delete(id: string, userId: string): Promise<{ id: string }> {
+    try {
+      return await this.repository.delete(id, userId);
+    } catch (error) {
+      console.error("Error al eliminar la lista de actividades:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Obtener la lista que aplica a un nuevo mantenimiento de un equipo
+   * Se usa la lista de la etapa del plan del equipo para ese tipo de
+   * mantenimiento y, si no tiene, la del tipo de mantenimiento
+   * @param equipmentId - ID del equipo
+   * @param maintenanceTypeId - ID del tipo de mantenimiento
+   * @param userId - ID del usuario
+   * @returns Lista resuelta (vacía si no hay ninguna definida)
+   */
+  async resolve(
+    equipmentId: string | undefined,
+    maintenanceTypeId: string,
+    userId: string
+  ): Promise<ResolvedActivityChecklist> {
+    try {
+      const equipment = equipmentId
+        ? await equipmentService.getById(equipmentId)
+        : null;
+      const plan = equipment?.maintenance_plan_id
+        ? await maintenancePlanService.getWithStages(
+            equipment.maintenance_plan_id,
+            userId
+          )
+        : null;
+      const stage = plan?.stages.find(
+        (item) => item.maintenance_type_id === maintenanceTypeId
+      );
+
+      if (stage) {
+        const stageChecklist = await this.repository.getByStage(
+          stage.id,
+          userId
+        );
+        if (stageChecklist && stageChecklist.items.length > 0) {
+          return {
+            source: "stage",
+            checklist_id: stageChecklist.id,
+            maintenance_type_id: maintenanceTypeId,
+            maintenance_stage_id: stage.id,
+            items: stageChecklist.items,
+          };
+        }
+      }
+
+      const typeChecklist = await this.repository.getByMaintenanceType(
+        maintenanceTypeId,
+        userId
+      );
+
+      return {
+        source: typeChecklist ? "maintenance_type" : undefined,
+        checklist_id: typeChecklist?.id,
+        maintenance_type_id: maintenanceTypeId,
+        maintenance_stage_id: stage?.id,
+        items: typeChecklist?.items || [],
+      };
+    } catch (error) {
+      console.error("Error al resolver la lista de actividades:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Actividades por defecto para crear con `bulkCreate` en un nuevo registro
+   * @param equipmentId - ID del equipo
+   * @param maintenanceTypeId - ID del tipo de mantenimiento
+   * @param userId - ID del usuario
+   * @returns Actividades pendientes con la prioridad y obligatoriedad de la
+   * lista
+   */
+  async getDefaultActivities(
+    equipmentId: string,
+    maintenanceTypeId: string,
+    userId: string
+  ): Promise<BulkMaintenanceActivityUpdate["activities"]> {
+    const checklist = await this.resolve(
+      equipmentId,
+      maintenanceTypeId,
+      userId
+    );
+
+    return checklist.items.map((item) => ({
+      activity_id: item.activity_id,
+      status: "pending",
+      priority: item.priority,
+      mandatory: item.mandatory ?? false,
+    }));
+  }
+
+  /**
+   * Verificar que la lista pertenezca a un solo dueño y obtener el tipo de
+   * mantenimiento al que aplica
+   */
+  private async getOwnerMaintenanceType(
+    checklist: ActivityChecklistSave
+  ): Promise<string> {
+    const { maintenance_type_id, maintenance_stage_id } = checklist;
+    if (!!maintenance_type_id === !!maintenance_stage_id) {
+      throw new ActivityChecklistError(
+        ActivityChecklistErrorCodes.INVALID_OWNER,
+        "La lista debe pertenecer a un tipo de mantenimiento o a una etapa"
+      );
+    }
+
+    if (maintenance_type_id) return maintenance_type_id;
+
+    const stage = await maintenanceStageService.getById(
+      maintenance_stage_id!,
+      checklist.user_id
+    );
+    if (!stage) {
+      throw new ActivityChecklistError(
+        ActivityChecklistErrorCodes.NOT_FOUND,
+        `Etapa con ID ${maintenance_stage_id} no encontrada`
+      );
+    }
+    return stage.maintenance_type_id;
+  }
+
+  /**
+   * Validar las actividades de la lista
+   * Solo se permiten actividades asociadas al tipo de mantenimiento, igual que
+   * al seleccionarlas en un registro de mantenimiento
+   */
+  private async validateItems(
+    checklist: ActivityChecklistSave,
+    maintenanceTypeId: string
+  ): Promise<void> {
+    if (!Array.isArray(checklist.items)) {
+      throw new ActivityChecklistError(
+        ActivityChecklistErrorCodes.INVALID_ITEM,
+        "Las actividades de la lista son requeridas"
+      );
+    }
+
+    if (checklist.items.length > MAX_ITEMS) {
+      throw new ActivityChecklistError(
+        ActivityChecklistErrorCodes.INVALID_ITEM,
+        `La lista no puede tener más de ${MAX_ITEMS} actividades`
+      );
+    }
+
+    const activityIds = checklist.items.map((item) => item.activity_id);
+    if (new Set(activityIds).size !== activityIds.length) {
+      throw new ActivityChecklistError(
+        ActivityChecklistErrorCodes.DUPLICATE_ACTIVITY,
+        "La lista tiene actividades duplicadas"
+      );
+    }
+
+    for (const item of checklist.items) {
+      if (!PRIORITIES.includes(item.priority)) {
+        throw new ActivityChecklistError(
+          ActivityChecklistErrorCodes.INVALID_ITEM,
+          `Prioridad inválida: ${item.priority}`
+        );
+      }
+
+      const activity = await activityService.getById(
+        item.activity_id,
+        checklist.user_id
+      );
+      if (!activity) {
+        throw new ActivityChecklistError(
+          ActivityChecklistErrorCodes.INVALID_ITEM,
+          `Actividad con ID ${item.activity_id} no encontrada`
+        );
+      }
+
+      if (
+        !activity.maintenance_types.some(
+          (type) => type.id === maintenanceTypeId
+        )
+      ) {
+        throw new ActivityChecklistError(
+          ActivityChecklistErrorCodes.ACTIVITY_NOT_ALLOWED,
+          `La actividad "${activity.name}" no está asociada al tipo de mantenimiento`,
+          { activity_id: item.activity_id }
+        );
+      }
+    }
+  }
+}
+
+export const activityChecklistService = new ActivityChecklistService();
@@ -3,12 +3,24 @@ import {
   EquipmentBase,
   EquipmentCreate,
   EquipmentUpdate,
+  MeterType,
   MultiEquipmentMaintenancePlan,
   MultiEquipmentWithRecords,
   MultiEqWithPendingInProgressMRs,
 } from "@/types/equipment";
 import { maintenanceActivityService } from "./maintenance-activity-service";
 import { maintenanceSparePartService } from "./maintenance-spare-part-service";
+import { maintenanceLaborService } from "./maintenance-labor-service";
+import { odometerEventService } from "./odometer-event-service";
+import { maintenanceForecastService } from "./maintenance-forecast-service";
+import { maintenancePlanService } from "./maintenance-plan-service";
+import { maintenancePlanVersionService } from "./maintenance-plan-version-service";
+import { MaintenancePlanWithStages } from "@/types/maintenance-plan";
+import { MaintenancePlanVersionBase } from "@/types/maintenance-plan-version";
+import { mapInBatches } from "@/lib/utils";
+
+const METER_TYPES: MeterType[] = ["km", "hours"];
+const PLAN_BATCH_SIZE = 10; // Planes de equipo ajustados en paralelo
 
 /**
  * Servicio para crear un nuevo equipo
@@ -28,7 +40,17 @@ class EquipmentService {
     equipment: EquipmentCreate
   ): Promise<{ id: string; created_at: Date } | null> {
     try {
-      return await this.repository.create(equipment);
+      // El equipo sigue la versión vigente del plan asignado
+      const plan = await maintenancePlanService.getById(
+        equipment.maintenance_plan_id,
+        equipment.user_id
+      );
+
+      return await this.repository.create({
+        ...equipment,
+        maintenance_plan_version: plan?.current_version,
+        meter_types: this.validateMeterTypes(equipment.meter_types) || ["km"],
+      });
     } catch (error) {
       console.error("Error al crear el equipo:", error);
       throw error;
@@ -67,6 +89,22 @@ class EquipmentService {
     }
   }
 
+  /**
+   * Obtener los equipos de un usuario con los IDs indicados
+   * @param ids - IDs de los equipos
+   * @param userId - ID del usuario
+   * @returns Equipos encontrados; los IDs inexistentes se omiten
+   */
+  async getByIds(ids: string[], userId: string): Promise<EquipmentBase[]> {
+    try {
+      if (ids.length === 0) return [];
+      return await this.repository.getByIds(ids, userId);
+    } catch (error) {
+      console.error("Error al obtener los equipos por ID:", error);
+      throw error;
+    }
+  }
+
   async getAllWithPendingMRs(
     userId: string,
     limit: number,
@@ -107,7 +145,27 @@ class EquipmentService {
    */
   async update(equipment: EquipmentUpdate): Promise<{ id: string } | null> {
     try {
-      return await this.repository.update(equipment);
+      // Al cambiar de plan el equipo pasa a la versión vigente del nuevo plan
+      let maintenancePlanVersion: number | undefined;
+      if (equipment.maintenance_plan_id) {
+        const existing = await this.repository.getById(equipment.id);
+        if (
+          existing &&
+          existing.maintenance_plan_id !== equipment.maintenance_plan_id
+        ) {
+          const plan = await maintenancePlanService.getById(
+            equipment.maintenance_plan_id,
+            existing.user_id
+          );
+          maintenancePlanVersion = plan?.current_version;
+        }
+      }
+
+      return await this.repository.update({
+        ...equipment,
+        maintenance_plan_version: maintenancePlanVersion,
+        meter_types: this.validateMeterTypes(equipment.meter_types),
+      });
     } catch (error) {
       console.error("Error al actualizar el equipo:", error);
       throw error;
@@ -154,6 +212,15 @@ class EquipmentService {
         mileageOffset
       );
 
+      const labor = await maintenanceLaborService.getRecordsLabor(
+        eqs.data.flatMap(
+          (equipment) =>
+            equipment.maintenance_records?.data.map((record) => record.id) ??
+            []
+        ),
+        userId
+      );
+
       for (const equipment of eqs.data) {
         if (equipment.maintenance_records) {
           for (const record of equipment.maintenance_records.data) {
@@ -168,6 +235,9 @@ class EquipmentService {
                 record.id,
                 userId
               );
+
+            record.labor_hours = labor.get(record.id)?.labor_hours ?? 0;
+            record.labor_cost = labor.get(record.id)?.labor_cost ?? 0;
           }
         }
       }
@@ -205,6 +275,15 @@ class EquipmentService {
         sort_by
       );
 
+      const labor = await maintenanceLaborService.getRecordsLabor(
+        eqs.data.flatMap(
+          (equipment) =>
+            equipment.maintenance_records?.data.map((record) => record.id) ??
+            []
+        ),
+        userId
+      );
+
       for (const equipment of eqs.data) {
         if (equipment.maintenance_records) {
           for (const record of equipment.maintenance_records.data) {
@@ -219,6 +298,9 @@ class EquipmentService {
                 record.id,
                 userId
               );
+
+            record.labor_hours = labor.get(record.id)?.labor_hours ?? 0;
+            record.labor_cost = labor.get(record.id)?.labor_cost ?? 0;
           }
         }
       }
@@ -255,12 +337,118 @@ class EquipmentService {
     offset: number = 0
   ): Promise<MultiEquipmentMaintenancePlan> {
     try {
-      return await this.repository.getMaintenancePlan(userId, limit, offset);
+      const plans = await this.repository.getMaintenancePlan(
+        userId,
+        limit,
+        offset
+      );
+
+      // Cargar una sola vez cada plan con sus etapas
+      const planIds = Array.from(
+        new Set(
+          plans.data
+            .map((plan) => plan.equipment.maintenance_plan_id)
+            .filter((id): id is string => !!id)
+        )
+      );
+      const maintenancePlans = new Map(
+        (
+          await Promise.all(
+            planIds.map((id) => maintenancePlanService.getWithStages(id, userId))
+          )
+        )
+          .filter((plan): plan is MaintenancePlanWithStages => !!plan)
+          .map((plan) => [plan.id, plan])
+      );
+
+      const planVersions = new Map<
+        string,
+        Promise<MaintenancePlanVersionBase | null>
+      >();
+
+      // Ajustar a kilómetros de vida útil si el odómetro fue reemplazado o
+      // reiniciado, continuar los planes cíclicos y pronosticar la fecha del
+      // próximo mantenimiento
+      plans.data = await mapInBatches(
+        plans.data,
+        PLAN_BATCH_SIZE,
+        async (plan) => {
+          let adjusted = await odometerEventService.adjustMaintenancePlan(
+            plan,
+            userId
+          );
+
+          const maintenancePlan = maintenancePlans.get(
+            plan.equipment.maintenance_plan_id || ""
+          );
+          const version = plan.equipment.maintenance_plan_version;
+
+          if (
+            maintenancePlan &&
+            version !== undefined &&
+            version !== maintenancePlan.current_version
+          ) {
+            // El equipo sigue una versión anterior del plan: se calcula con
+            // las etapas de esa versión hasta que se migre
+            const versionKey = `${maintenancePlan.id}:${version}`;
+            if (!planVersions.has(versionKey)) {
+              planVersions.set(
+                versionKey,
+                maintenancePlanVersionService.getByNumber(
+                  maintenancePlan.id,
+                  version,
+                  userId
+                )
+              );
+            }
+            const planVersion = await planVersions.get(versionKey)!;
+            adjusted = await maintenancePlanService.applyCycle(
+              adjusted,
+              planVersion
+                ? maintenancePlanVersionService.toPlanWithStages(
+                    maintenancePlan,
+                    planVersion
+                  )
+                : maintenancePlan,
+              userId,
+              !!planVersion
+            );
+          } else if (maintenancePlan) {
+            adjusted = await maintenancePlanService.applyCycle(
+              adjusted,
+              maintenancePlan,
+              userId
+            );
+          }
+
+          return maintenanceForecastService.forecast(adjusted, userId);
+        }
+      );
+
+      return plans;
     } catch (error) {
       console.error("Error al obtener el plan de mantenimiento:", error);
       throw error;
     }
   }
+
+  /**
+   * Validar los medidores declarados para un equipo
+   * @param meterTypes - Medidores del equipo (km y/o horas)
+   * @returns Medidores sin duplicados o undefined si no se enviaron
+   */
+  private validateMeterTypes(meterTypes?: MeterType[]): MeterType[] | undefined {
+    if (meterTypes === undefined) return undefined;
+
+    if (
+      meterTypes.length === 0 ||
+      meterTypes.some((meterType) => !METER_TYPES.includes(meterType))
+    ) {
+      throw new Error("invalid_meter_types");
+    }
+
+    return Array.from(new Set(meterTypes));
+  }
 }
 
 export const equipmentService = new EquipmentService();
@@ -0,0 +1,143 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { InventoryErrorCodes } from "@/lib/errors";
+import { SparePartStock, StockMovementCreate } from "@/types/inventory";
+import { inventoryRepository } from "../repositories/inventory-repository";
+import { inventoryService } from "./inventory-service";
+import { sparePartService } from "./spare-part-service";
+import { warehouseService } from "./warehouse-service";
+
+vi.mock("../repositories/unit-of-work", () => ({
+  unitOfWork: { run: (operation: () => Promise<unknown>) => operation() },
+}));
+vi.mock("../repositories/inventory-repository", async (importOriginal) => ({
+  ...(await importOriginal<object>()),
+  inventoryRepository: {
+    lockStock: vi.fn(),
+    getStock: vi.fn(),
+    createMovement: vi.fn(),
+  },
+}));
+vi.mock("./warehouse-service", () => ({
+  warehouseService: { resolveId: vi.fn() },
+}));
+vi.mock("./spare-part-service", () => ({
+  sparePartService: { getById: vi.fn() },
+}));
+
+const repository = vi.mocked(inventoryRepository);
+
+const stock = (onHand: number, allowNegative = false): SparePartStock => ({
+  spare_part_id: "part-1",
+  on_hand: onHand,
+  locations: [
+    { warehouse_id: "main", warehouse_name: "Almacén", on_hand: onHand },
+  ],
+  allow_negative: allowNegative,
+  min_stock: 0,
+  reorder_quantity: 0,
+});
+
+const consumption = (quantity: number): StockMovementCreate => ({
+  spare_part_id: "part-1",
+  warehouse_id: "main",
+  movement_type: "consumption",
+  quantity,
+  user_id: "user-1",
+});
+
+describe("inventoryService.recordMovement", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.mocked(warehouseService.resolveId).mockResolvedValue("main");
+    vi.mocked(sparePartService.getById).mockResolvedValue({
+      name: "Filtro de aceite",
+    } as Awaited<ReturnType<typeof sparePartService.getById>>);
+    repository.lockStock.mockResolvedValue(true);
+    repository.createMovement.mockImplementation(async (movement) => ({
+      id: "movement-1",
+      created_at: new Date(),
+      balance: movement.quantity,
+    }));
+  });
+
+  it("registra un consumo que no supera el stock disponible", async () => {
+    repository.getStock.mockResolvedValue(stock(5));
+
+    await inventoryService.recordMovement(consumption(-5));
+
+    expect(repository.createMovement).toHaveBeenCalledWith(
+      expect.objectContaining({ warehouse_id: "main", quantity: -5 })
+    );
+  });
+
+  it("rechaza un consumo mayor al stock de la ubicación", async () => {
+    repository.getStock.mockResolvedValue(stock(2));
+
+    await expect(
+      inventoryService.recordMovement(consumption(-3))
+    ).rejects.toMatchObject({
+      code: InventoryErrorCodes.INSUFFICIENT_STOCK,
+      details: { on_hand: 2, requested: 3, warehouse_id: "main" },
+    });
+    expect(repository.createMovement).not.toHaveBeenCalled();
+  });
+
+  it("considera sin stock una ubicación sin movimientos", async () => {
+    repository.getStock.mockResolvedValue({ ...stock(4), locations: [] });
+
+    await expect(
+      inventoryService.recordMovement(consumption(-1))
+    ).rejects.toMatchObject({
+      code: InventoryErrorCodes.INSUFFICIENT_STOCK,
+      details: { on_hand: 0, requested: 1 },
+    });
+  });
+
+  it("permite el stock negativo si el repuesto lo admite", async () => {
+    repository.getStock.mockResolvedValue(stock(2, true));
+
+    await inventoryService.recordMovement(consumption(-3));
+
+    expect(repository.createMovement).toHaveBeenCalledOnce();
+  });
+
+  it("permite ajustes positivos aunque el stock sea negativo", async () => {
+    repository.getStock.mockResolvedValue(stock(-4));
+
+    await inventoryService.recordMovement({
+      ...consumption(1),
+      movement_type: "adjustment",
+    });
+
+    expect(repository.createMovement).toHaveBeenCalledOnce();
+  });
+
+  it("bloquea el repuesto antes de leer el stock", async () => {
+    repository.getStock.mockResolvedValue(stock(5));
+
+    await inventoryService.recordMovement(consumption(-1));
+
+    expect(repository.lockStock).toHaveBeenCalledWith("part-1", "user-1");
+    expect(repository.lockStock.mock.invocationCallOrder[0]).toBeLessThan(
+      repository.getStock.mock.invocationCallOrder[0]
+    );
+  });
+
+  it("rechaza el movimiento si el repuesto no existe", async () => {
+    repository.lockStock.mockResolvedValue(false);
+
+    await expect(
+      inventoryService.recordMovement(consumption(-1))
+    ).rejects.toMatchObject({ code: InventoryErrorCodes.NOT_FOUND });
+    expect(repository.getStock).not.toHaveBeenCalled();
+    expect(repository.createMovement).not.toHaveBeenCalled();
+  });
+
+  it("valida el signo de la cantidad según el tipo", async () => {
+    await expect(
+      inventoryService.recordMovement(consumption(2))
+    ).rejects.toMatchObject({ code: InventoryErrorCodes.INVALID_QUANTITY });
+    expect(repository.lockStock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,427 @@
+import {
+  inventoryRepository,
+  InventoryError,
+} from "../repositories/inventory-repository";
+import { unitOfWork } from "../repositories/unit-of-work";
+import { sparePartService } from "./spare-part-service";
+import { warehouseService } from "./warehouse-service";
+import { InventoryErrorCodes } from "@/lib/errors";
+import {
+  MaintenanceConsumptionChange,
+  MultiSparePartStock,
+  MultiStockMovement,
+  SparePartConsumption,
+  SparePartReorderPolicy,
+  SparePartStock,
+  StockMovementCreate,
+  StockMovementFilters,
+  StockMovementType,
+} from "@/types/inventory";
+
+const MOVEMENT_TYPES: StockMovementType[] = [
+  "receipt",
+  "consumption",
+  "adjustment",
+  "return",
+  "transfer",
+];
+
+/**
+ * Servicio para gestionar el inventario de repuestos
+ * El stock de cada repuesto en cada ubicación solo cambia agregando
+ * movimientos al libro; los repuestos usados en los registros de
+ * mantenimiento generan consumos y devoluciones automáticamente
+ */
+class InventoryService {
+  private repository = inventoryRepository;
+
+  constructor() {}
+
+  /**
+   * Obtener el stock de un repuesto
+   * @param sparePartId - ID del repuesto
+   * @param userId - ID del usuario
+   * @returns El stock total y por ubicación (cero si no tiene movimientos)
+   */
+  async getStock(sparePartId: string, userId: string): Promise<SparePartStock> {
+    try {
+      const stock = await this.repository.getStock(sparePartId, userId);
+      return (
+        stock || {
+          spare_part_id: sparePartId,
+          on_hand: 0,
+          locations: [],
+          allow_negative: false,
+          min_stock: 0,
+          reorder_quantity: 0,
+        }
+      );
+    } catch (error) {
+      console.error("Error al obtener el stock del repuesto:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Obtener el stock de varios repuestos; los que no tienen movimientos no
+   * aparecen
+   * @param sparePartIds - IDs de los repuestos
+   * @param userId - ID del usuario
+   * @returns El stock de cada repuesto
+   */
+  async getStockByIds(
+    sparePartIds: string[],
+    userId: string
+  ): Promise<SparePartStock[]> {
+    try {
+      if (sparePartIds.length === 0) return [];
+      return await this.repository.getStockByIds(sparePartIds, userId);
+    } catch (error) {
+      console.error("Error al obtener el stock de los repuestos:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Obtener el stock de los repuestos del usuario
+   * @param userId - ID del usuario
+   * @param limit - Límite de resultados
+   * @param offset - Desplazamiento para la paginación
+   * @returns Lista paginada del stock de cada repuesto
+   */
+  async getStockLevels(
+    userId: string,
+    limit: number = 100,
+    offset: number = 0
+  ): Promise<MultiSparePartStock> {
+    try {
+      return await this.repository.getStockLevels(userId, limit, offset);
+    } catch (error) {
+      console.error("Error al obtener el stock de los repuestos:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Permitir o no que el stock de un repuesto quede negativo
+   * @param sparePartId - ID del repuesto
+   * @param allowNegative - Si se permite stock negativo
+   * @param userId - ID del usuario
+   * @returns El ID del repuesto
+   */
+  async setAllowNegative(
+    sparePartId: string,
+    allowNegative: boolean,
+    userId: string
+  ): Promise<{ spare_part_id: string }> {
+    try {
+      await this.ensureSparePart(sparePartId, userId);
+      return await this.repository.setAllowNegative(
+        sparePartId,
+        allowNegative,
+        userId
+      );
+    } catch (error) {
+      console.error("Error al configurar el stock negativo:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Configurar el punto de reorden de un repuesto
+   * Cuando el stock proyectado queda por debajo del mínimo se sugiere comprar
+   * en múltiplos del lote de compra
+   * @param sparePartId - ID del repuesto
+   * @param policy - Stock mínimo y lote de compra
+   * @param userId - ID del usuario
+   * @returns El ID del repuesto
+   */
+  async setReorderPolicy(
+    sparePartId: string,
+    policy: SparePartReorderPolicy,
+    userId: string
+  ): Promise<{ spare_part_id: string }> {
+    try {
+      for (const value of [policy.min_stock, policy.reorder_quantity]) {
+        if (!Number.isFinite(value) || value < 0) {
+          throw new InventoryError(
+            InventoryErrorCodes.INVALID_REORDER_POLICY,
+            "El stock mínimo y el lote de compra deben ser mayores o iguales a cero"
+          );
+        }
+      }
+
+      await this.ensureSparePart(sparePartId, userId);
+      return await this.repository.setReorderPolicy(
+        sparePartId,
+        policy,
+        userId
+      );
+    } catch (error) {
+      console.error("Error al configurar el punto de reorden:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Obtener los movimientos del libro de stock
+   * @param userId - ID del usuario
+   * @param filters - Repuesto, ubicación o registro de mantenimiento
+   * @param limit - Límite de resultados
+   * @param offset - Desplazamiento para la paginación
+   * @returns Lista paginada de movimientos
+   */
+  async getMovements(
+    userId: string,
+    filters: StockMovementFilters = {},
+    limit: number = 100,
+    offset: number = 0
+  ): Promise<MultiStockMovement> {
+    try {
+      return await this.repository.getMovements(
+        userId,
+        filters,
+        limit,
+        offset
+      );
+    } catch (error) {
+      console.error("Error al obtener los movimientos de stock:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Obtener lo consumido de cada repuesto en un periodo
+   * @param userId - ID del usuario
+   * @param from - Inicio del periodo (opcional)
+   * @param to - Fin del periodo (opcional)
+   * @returns Cantidad y costo consumido por repuesto
+   */
+  async getConsumption(
+    userId: string,
+    from?: Date,
+    to?: Date
+  ): Promise<SparePartConsumption[]> {
+    try {
+      if (from && to && from > to) {
+        throw new InventoryError(
+          InventoryErrorCodes.INVALID_PERIOD,
+          "La fecha de inicio no puede ser posterior a la fecha de fin"
+        );
+      }
+
+      return await this.repository.getConsumption(userId, from, to);
+    } catch (error) {
+      console.error("Error al obtener el consumo de repuestos:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Registrar un movimiento de stock
+   * Los ingresos y devoluciones deben ser positivos, los consumos negativos y
+   * los ajustes y transferencias distintos de cero. Una salida que deja el
+   * stock de la ubicación negativo se rechaza salvo que el repuesto lo
+   * permita. Sin ubicación se usa la predeterminada. El repuesto queda
+   * bloqueado desde la lectura del saldo hasta el registro del movimiento.
+   * @param movement - Datos del movimiento
+   * @returns El ID, fecha y saldo resultante del movimiento
+   */
+  async recordMovement(
+    movement: StockMovementCreate
+  ): Promise<{ id: string; created_at: Date; balance: number }> {
+    try {
+      this.validateMovement(movement);
+
+      return await unitOfWork.run(async () => {
+        const warehouseId = await warehouseService.resolveId(
+          movement.warehouse_id,
+          movement.user_id
+        );
+
+        const locked = await this.repository.lockStock(
+          movement.spare_part_id,
+          movement.user_id
+        );
+        if (!locked) {
+          throw new InventoryError(
+            InventoryErrorCodes.NOT_FOUND,
+            `Repuesto con ID ${movement.spare_part_id} no encontrado`
+          );
+        }
+
+        const stock = await this.getStock(
+          movement.spare_part_id,
+          movement.user_id
+        );
+        const location = stock.locations.find(
+          (item) => item.warehouse_id === warehouseId
+        );
+        const onHand = location?.on_hand ?? 0;
+        const balance = onHand + movement.quantity;
+
+        if (movement.quantity < 0 && balance < 0 && !stock.allow_negative) {
+          const sparePart = await sparePartService.getById(
+            movement.spare_part_id,
+            movement.user_id
+          );
+          const name = sparePart?.name || movement.spare_part_id;
+          const where = location?.warehouse_name || "la ubicación";
+          throw new InventoryError(
+            InventoryErrorCodes.INSUFFICIENT_STOCK,
+            `Stock insuficiente para "${name}" en ${where}: disponible ${onHand}, requerido ${-movement.quantity}`,
+            {
+              spare_part_id: movement.spare_part_id,
+              warehouse_id: warehouseId,
+              on_hand: onHand,
+              requested: -movement.quantity,
+            }
+          );
+        }
+
+        return await this.repository.createMovement({
+          ...movement,
+          warehouse_id: warehouseId,
+        });
+      });
+    } catch (error) {
+      console.error("Error al registrar el movimiento de stock:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Registrar el consumo o la devolución que produce el cambio de cantidad o
+   * de ubicación de un repuesto en un registro de mantenimiento
+   * Si cambia la ubicación, se devuelve la cantidad anterior a la ubicación
+   * anterior y se consume la nueva cantidad de la nueva ubicación
+   * @param change - Cantidad y ubicación anterior y nueva del repuesto
+   */
+  async syncMaintenanceConsumption(
+    change: MaintenanceConsumptionChange
+  ): Promise<void> {
+    await unitOfWork.run(async () => {
+      const previousWarehouseId =
+        change.previous_quantity > 0
+          ? await warehouseService.resolveId(
+              change.previous_warehouse_id,
+              change.user_id
+            )
+          : undefined;
+      const warehouseId =
+        change.quantity > 0
+          ? await warehouseService.resolveId(change.warehouse_id, change.user_id)
+          : undefined;
+
+      if (
+        previousWarehouseId &&
+        warehouseId &&
+        previousWarehouseId === warehouseId
+      ) {
+        await this.recordConsumption(
+          change,
+          warehouseId,
+          change.quantity - change.previous_quantity
+        );
+        return;
+      }
+
+      if (previousWarehouseId) {
+        await this.recordConsumption(
+          change,
+          previousWarehouseId,
+          -change.previous_quantity
+        );
+      }
+      if (warehouseId) {
+        await this.recordConsumption(change, warehouseId, change.quantity);
+      }
+    });
+  }
+
+  /**
+   * Registrar un consumo (cantidad positiva) o devolución (negativa) de un
+   * registro de mantenimiento en una ubicación
+   */
+  private async recordConsumption(
+    change: MaintenanceConsumptionChange,
+    warehouseId: string,
+    consumed: number
+  ): Promise<void> {
+    if (consumed === 0) return;
+
+    await this.recordMovement({
+      spare_part_id: change.spare_part_id,
+      warehouse_id: warehouseId,
+      movement_type: consumed > 0 ? "consumption" : "return",
+      quantity: -consumed,
+      unit_cost: change.unit_price,
+      maintenance_record_id: change.maintenance_record_id,
+      maintenance_spare_part_id: change.maintenance_spare_part_id,
+      user_id: change.user_id,
+    });
+  }
+
+  /**
+   * Validar el tipo y la cantidad del movimiento
+   */
+  private validateMovement(movement: StockMovementCreate): void {
+    if (!MOVEMENT_TYPES.includes(movement.movement_type)) {
+      throw new InventoryError(
+        InventoryErrorCodes.INVALID_MOVEMENT_TYPE,
+        `Tipo de movimiento inválido: ${movement.movement_type}`
+      );
+    }
+
+    const { quantity } = movement;
+    if (!Number.isFinite(quantity) || quantity === 0) {
+      throw new InventoryError(
+        InventoryErrorCodes.INVALID_QUANTITY,
+        "La cantidad del movimiento debe ser distinta de cero"
+      );
+    }
+
+    if (movement.movement_type === "consumption" && quantity > 0) {
+      throw new InventoryError(
+        InventoryErrorCodes.INVALID_QUANTITY,
+        "Un consumo debe tener cantidad negativa"
+      );
+    }
+
+    if (
+      (movement.movement_type === "receipt" ||
+        movement.movement_type === "return") &&
+      quantity < 0
+    ) {
+      throw new InventoryError(
+        InventoryErrorCodes.INVALID_QUANTITY,
+        "Un ingreso o devolución debe tener cantidad positiva"
+      );
+    }
+
+    if (movement.unit_cost !== undefined && movement.unit_cost < 0) {
+      throw new InventoryError(
+        InventoryErrorCodes.INVALID_QUANTITY,
+        "El costo unitario no puede ser negativo"
+      );
+    }
+  }
+
+  /**
+   * Verificar que el repuesto exista
+   */
+  private async ensureSparePart(
+    sparePartId: string,
+    userId: string
+  ): Promise<void> {
+    const sparePart = await sparePartService.getById(sparePartId, userId);
+    if (!sparePart) {
+      throw new InventoryError(
+        InventoryErrorCodes.NOT_FOUND,
+        `Repuesto con ID ${sparePartId} no encontrado`
+      );
+    }
+  }
+}
+
+export const inventoryService = new InventoryService();
@@ -78,6 +78,40 @@ class MaintenanceActivityService {
     }
   }
 
+  /**
+   * Obtener las actividades con detalles de varios registros de mantenimiento
+   * @param maintenanceRecordIds - IDs de los registros de mantenimiento
+   * @param userId - ID del usuario
+   * @returns Las actividades agrupadas por registro (lista vacía si no tiene)
+   */
+  async getByMaintenanceRecordsWithDetails(
+    maintenanceRecordIds: string[],
+    userId: string
+  ): Promise<Map<string, MaintenanceActivityWithDetails[]>> {
+    try {
+      const byRecord = new Map<string, MaintenanceActivityWithDetails[]>(
+        maintenanceRecordIds.map((id) => [id, []])
+      );
+      if (maintenanceRecordIds.length === 0) return byRecord;
+
+      const activities =
+        await this.repository.getByMaintenanceRecordsWithDetails(
+          maintenanceRecordIds,
+          userId
+        );
+      for (const item of activities) {
+        byRecord.get(item.maintenance_record_id)?.push(item);
+      }
+      return byRecord;
+    } catch (error) {
+      console.error(
+        "Error al obtener las actividades de los registros:",
+        error
+      );
+      throw error;
+    }
+  }
+
   /**
    * Obtener todos los registros de actividades de mantenimiento de un usuario
    * @param limit - Límite de registros por página
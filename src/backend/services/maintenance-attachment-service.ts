@@ -0,0 +1,361 @@
+import { randomUUID } from "crypto";
+import {
+  maintenanceAttachmentRepository,
+  MaintenanceAttachmentError,
+} from "../repositories/maintenance-attachment-repository";
+import { maintenanceRecordRepository } from "../repositories/maintenance-record-repository";
+import { getAttachmentStorage } from "../storage/attachment-storage";
+import { MaintenanceAttachmentErrorCodes } from "@/lib/errors";
+import { lockedRecordStatuses } from "@/lib/utils";
+import {
+  MaintenanceAttachmentBase,
+  MaintenanceAttachmentKind,
+  MaintenanceAttachmentUpload,
+} from "@/types/maintenance-attachment";
+import { MaintenanceRecordBase } from "@/types/maintenance-record";
+
+const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10 MB
+const MAX_THUMBNAIL_SIZE = 512 * 1024; // 512 KB
+
+const ATTACHMENT_KINDS: MaintenanceAttachmentKind[] = [
+  "photo_before",
+  "photo_after",
+  "invoice",
+  "diagnostic",
+  "other",
+];
+
+// Además de cualquier imagen
+const ALLOWED_CONTENT_TYPES = ["application/pdf", "text/plain"];
+
+// Las miniaturas se sirven como JPEG; su contenido debe comenzar con la firma
+const THUMBNAIL_CONTENT_TYPE = "image/jpeg";
+const JPEG_SIGNATURE = Buffer.from([0xff, 0xd8, 0xff]);
+
+/**
+ * Servicio para gestionar los adjuntos de los mantenimientos (fotos antes y
+ * después, facturas y reportes de diagnóstico)
+ * El archivo y su miniatura se guardan en el almacenamiento configurado y
+ * solo el dueño del registro puede verlos o eliminarlos
+ */
+class MaintenanceAttachmentService {
+  private repository = maintenanceAttachmentRepository;
+
+  constructor() {}
+
+  /**
+   * Adjuntar un archivo a un registro de mantenimiento
+   * La miniatura solo se guarda para imágenes
+   * @param upload - Registro, tipo, descripción y contenido del archivo
+   * @returns El adjunto creado
+   */
+  async upload(
+    upload: MaintenanceAttachmentUpload
+  ): Promise<MaintenanceAttachmentBase> {
+    try {
+      this.validateUpload(upload);
+      const record = await this.getRecord(
+        upload.maintenance_record_id,
+        upload.user_id
+      );
+      this.assertEditable(record);
+
+      const isImage = upload.content_type.startsWith("image/");
+      const fileName = this.sanitizeFileName(upload.file_name);
+      const prefix = `${upload.user_id}/${record.id}/${randomUUID()}`;
+      const storageKey = `${prefix}-${fileName}`;
+      const thumbnailKey =
+        isImage && upload.thumbnail ? `${prefix}-thumb.jpg` : undefined;
+
+      const stored: string[] = [];
+      try {
+        await this.putFile(storageKey, upload.data, upload.content_type);
+        stored.push(storageKey);
+        if (thumbnailKey) {
+          await this.putFile(thumbnailKey, upload.thumbnail!, "image/jpeg");
+          stored.push(thumbnailKey);
+        }
+
+        const attachment = {
+          maintenance_record_id: record.id,
+          kind: upload.kind,
+          file_name: fileName,
+          content_type: upload.content_type,
+          size: upload.data.length,
+          storage_key: storageKey,
+          thumbnail_key: thumbnailKey,
+          description: upload.description,
+          user_id: upload.user_id,
+        };
+        const created = await this.repository.create(attachment);
+
+        return { ...attachment, ...created };
+      } catch (error) {
+        // No dejar archivos huérfanos si falla el registro
+        await this.removeKeys(stored);
+        throw error;
+      }
+    } catch (error) {
+      console.error("Error al adjuntar el archivo:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Obtener los adjuntos de un registro de mantenimiento
+   * @param maintenanceRecordId - ID del registro de mantenimiento
+   * @param userId - ID del usuario
+   * @returns Adjuntos del registro
+   */
+  async getByMaintenanceRecord(
+    maintenanceRecordId: string,
+    userId: string
+  ): Promise<MaintenanceAttachmentBase[]> {
+    try {
+      await this.getRecord(maintenanceRecordId, userId);
+      return await this.repository.getByMaintenanceRecord(
+        maintenanceRecordId,
+        userId
+      );
+    } catch (error) {
+      console.error("Error al obtener los adjuntos:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Descargar el contenido de un adjunto o de su miniatura
+   * @param id - ID del adjunto
+   * @param userId - ID del usuario
+   * @param thumbnail - Descargar la miniatura en lugar del archivo
+   * @returns El adjunto, el contenido y su tipo
+   */
+  async download(
+    id: string,
+    userId: string,
+    thumbnail: boolean = false
+  ): Promise<{
+    attachment: MaintenanceAttachmentBase;
+    data: Buffer;
+    content_type: string;
+  }> {
+    try {
+      const attachment = await this.getExisting(id, userId);
+      if (thumbnail && !attachment.thumbnail_key) {
+        throw new MaintenanceAttachmentError(
+          MaintenanceAttachmentErrorCodes.NOT_FOUND,
+          `El adjunto ${attachment.file_name} no tiene miniatura`
+        );
+      }
+
+      const key = thumbnail
+        ? attachment.thumbnail_key!
+        : attachment.storage_key;
+      try {
+        return {
+          attachment,
+          data: await getAttachmentStorage().get(key),
+          content_type: thumbnail ? "image/jpeg" : attachment.content_type,
+        };
+      } catch (error) {
+        throw new MaintenanceAttachmentError(
+          MaintenanceAttachmentErrorCodes.STORAGE_ERROR,
+          `No se pudo leer el archivo ${attachment.file_name}`,
+          error
+        );
+      }
+    } catch (error) {
+      console.error("Error al descargar el adjunto:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Eliminar un adjunto y sus archivos
+   * @param id - ID del adjunto
+   * @param userId - ID del usuario
+   * @returns El ID del adjunto eliminado
+   */
+  async delete(id: string, userId: string): Promise<{ id: string }> {
+    try {
+      const attachment = await this.getExisting(id, userId);
+      const record = await this.getRecord(
+        attachment.maintenance_record_id,
+        userId
+      );
+      this.assertEditable(record);
+
+      const deleted = await this.repository.delete(id, userId);
+      await this.removeFiles([attachment]);
+      return deleted;
+    } catch (error) {
+      console.error("Error al eliminar el adjunto:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Eliminar del almacenamiento los archivos de los adjuntos indicados
+   * Se usa después de borrar sus filas (por ejemplo, al eliminar el registro);
+   * los errores solo se registran para no revertir la eliminación
+   * @param attachments - Adjuntos cuyos archivos se eliminan
+   */
+  async removeFiles(attachments: MaintenanceAttachmentBase[]): Promise<void> {
+    await this.removeKeys(
+      attachments.flatMap((attachment) =>
+        attachment.thumbnail_key
+          ? [attachment.storage_key, attachment.thumbnail_key]
+          : [attachment.storage_key]
+      )
+    );
+  }
+
+  /**
+   * Validar el tipo, el contenido y el tamaño del archivo
+   */
+  private validateUpload(upload: MaintenanceAttachmentUpload): void {
+    if (!ATTACHMENT_KINDS.includes(upload.kind)) {
+      throw new MaintenanceAttachmentError(
+        MaintenanceAttachmentErrorCodes.INVALID_FILE,
+        `Tipo de adjunto inválido: ${upload.kind}`
+      );
+    }
+    if (!upload.file_name || upload.data.length === 0) {
+      throw new MaintenanceAttachmentError(
+        MaintenanceAttachmentErrorCodes.INVALID_FILE,
+        "El archivo está vacío"
+      );
+    }
+    if (upload.data.length > MAX_FILE_SIZE) {
+      throw new MaintenanceAttachmentError(
+        MaintenanceAttachmentErrorCodes.FILE_TOO_LARGE,
+        `El archivo supera el máximo de ${MAX_FILE_SIZE / 1024 / 1024} MB`,
+        { size: upload.data.length }
+      );
+    }
+    if (upload.thumbnail) this.validateThumbnail(upload);
+    // SVG puede contener scripts y los adjuntos se muestran en línea
+    const isImage =
+      upload.content_type.startsWith("image/") &&
+      upload.content_type !== "image/svg+xml";
+    if (!isImage && !ALLOWED_CONTENT_TYPES.includes(upload.content_type)) {
+      throw new MaintenanceAttachmentError(
+        MaintenanceAttachmentErrorCodes.UNSUPPORTED_TYPE,
+        "Solo se permiten imágenes, PDF y archivos de texto",
+        { content_type: upload.content_type }
+      );
+    }
+  }
+
+  /**
+   * Validar el tipo, el contenido y el tamaño de la miniatura
+   * Se guarda y se sirve como JPEG, por lo que no se acepta otro formato
+   * (p. ej. SVG o HTML con otra extensión)
+   */
+  private validateThumbnail(upload: MaintenanceAttachmentUpload): void {
+    const thumbnail = upload.thumbnail!;
+    if (thumbnail.length > MAX_THUMBNAIL_SIZE) {
+      throw new MaintenanceAttachmentError(
+        MaintenanceAttachmentErrorCodes.FILE_TOO_LARGE,
+        `La miniatura supera el máximo de ${MAX_THUMBNAIL_SIZE / 1024} KB`,
+        { size: thumbnail.length }
+      );
+    }
+    if (upload.thumbnail_content_type !== THUMBNAIL_CONTENT_TYPE) {
+      throw new MaintenanceAttachmentError(
+        MaintenanceAttachmentErrorCodes.UNSUPPORTED_TYPE,
+        "La miniatura debe ser una imagen JPEG",
+        { content_type: upload.thumbnail_content_type }
+      );
+    }
+    if (!thumbnail.subarray(0, JPEG_SIGNATURE.length).equals(JPEG_SIGNATURE)) {
+      throw new MaintenanceAttachmentError(
+        MaintenanceAttachmentErrorCodes.INVALID_FILE,
+        "El contenido de la miniatura no es una imagen JPEG"
+      );
+    }
+  }
+
+  /**
+   * Obtener un adjunto del usuario o fallar si no existe
+   */
+  private async getExisting(
+    id: string,
+    userId: string
+  ): Promise<MaintenanceAttachmentBase> {
+    const attachment = await this.repository.getById(id, userId);
+    if (!attachment || attachment.user_id !== userId) {
+      throw new MaintenanceAttachmentError(
+        MaintenanceAttachmentErrorCodes.NOT_FOUND,
+        `Adjunto con ID ${id} no encontrado`
+      );
+    }
+    return attachment;
+  }
+
+  /**
+   * Obtener el registro de mantenimiento del usuario
+   */
+  private async getRecord(
+    id: string,
+    userId: string
+  ): Promise<MaintenanceRecordBase> {
+    const record = await maintenanceRecordRepository.getById(id);
+    if (!record || record.user_id !== userId) {
+      throw new MaintenanceAttachmentError(
+        MaintenanceAttachmentErrorCodes.RECORD_NOT_FOUND,
+        `Registro de mantenimiento con ID ${id} no encontrado`
+      );
+    }
+    return record;
+  }
+
+  /**
+   * Verificar que el registro no esté cerrado ni anulado
+   */
+  private assertEditable(record: MaintenanceRecordBase): void {
+    if (lockedRecordStatuses.includes(record.status)) {
+      throw new MaintenanceAttachmentError(
+        MaintenanceAttachmentErrorCodes.RECORD_LOCKED,
+        `No se pueden modificar los adjuntos de un registro en estado "${record.status}"`,
+        { status: record.status }
+      );
+    }
+  }
+
+  private async putFile(
+    key: string,
+    data: Buffer,
+    contentType: string
+  ): Promise<void> {
+    try {
+      await getAttachmentStorage().put(key, data, contentType);
+    } catch (error) {
+      throw new MaintenanceAttachmentError(
+        MaintenanceAttachmentErrorCodes.STORAGE_ERROR,
+        "No se pudo guardar el archivo",
+        error
+      );
+    }
+  }
+
+  private async removeKeys(keys: string[]): Promise<void> {
+    for (const key of keys) {
+      try {
+        await getAttachmentStorage().delete(key);
+      } catch (error) {
+        console.error(`Error al eliminar el archivo ${key}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Nombre de archivo seguro para usar en la clave de almacenamiento
+   */
+  private sanitizeFileName(name: string): string {
+    const base = name.split(/[\\/]/).pop() || "archivo";
+    return base.replace(/[^\w.\-]+/g, "_").slice(-100);
+  }
+}
+
+export const maintenanceAttachmentService = new MaintenanceAttachmentService();
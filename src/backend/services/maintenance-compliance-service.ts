@@ -0,0 +1,450 @@
+import { equipmentService } from "./equipment-service";
+import { maintenancePlanService } from "./maintenance-plan-service";
+import { maintenancePlanVersionService } from "./maintenance-plan-version-service";
+import { maintenanceRecordService } from "./maintenance-record-service";
+import { mileageRecordService } from "./mileage-record-service";
+import { odometerEventService } from "./odometer-event-service";
+import { mapInBatches } from "@/lib/utils";
+import { EquipmentBase, MeterType } from "@/types/equipment";
+import { MaintenancePlanWithStages } from "@/types/maintenance-plan";
+import { MaintenanceRecordBase } from "@/types/maintenance-record";
+import {
+  EquipmentMaintenanceCompliance,
+  MaintenanceComplianceEntry,
+  MaintenanceComplianceReport,
+  MaintenanceComplianceSummary,
+} from "@/types/maintenance-compliance";
+
+const MILLISECONDS_PER_DAY = 86400000;
+const HISTORY_SIZE = 1000; // Lecturas y mantenimientos considerados por equipo
+const EQUIPMENT_PAGE_SIZE = 100; // Equipos cargados por consulta
+const EQUIPMENT_BATCH_SIZE = 5; // Equipos evaluados en paralelo
+const MAX_OCCURRENCES = 500; // Etapas desplegadas como máximo por equipo
+export const DEFAULT_TOLERANCE_PCT = 10;
+
+/**
+ * Etapa del plan desplegada sobre el medidor del equipo
+ */
+interface StageOccurrence {
+  entry: MaintenanceComplianceEntry;
+  passed: boolean;
+  reading_tolerance: number;
+  days_tolerance: number;
+}
+
+/**
+ * Mantenimiento realizado con la lectura del medidor en que se hizo
+ */
+interface PerformedMaintenance {
+  record: MaintenanceRecordBase;
+  reading: number;
+}
+
+/**
+ * Servicio para generar el reporte de cumplimiento del plan de mantenimiento
+ * Para cada equipo despliega las etapas del plan que ya alcanzó, las empareja
+ * con el mantenimiento que las cumplió y las clasifica según la tolerancia
+ */
+class MaintenanceComplianceService {
+  constructor() {}
+
+  /**
+   * Generar el reporte de cumplimiento de la flota
+   * @param userId - ID del usuario
+   * @param tolerancePct - Tolerancia como porcentaje del intervalo entre etapas
+   * @param equipmentId - Limitar el reporte a un equipo (opcional)
+   * @returns Cumplimiento por equipo y de la flota
+   */
+  async getReport(
+    userId: string,
+    tolerancePct: number = DEFAULT_TOLERANCE_PCT,
+    equipmentId?: string
+  ): Promise<MaintenanceComplianceReport> {
+    try {
+      if (
+        !Number.isFinite(tolerancePct) ||
+        tolerancePct < 0 ||
+        tolerancePct > 100
+      ) {
+        throw new Error("La tolerancia debe estar entre 0 y 100");
+      }
+
+      // Cargar una sola vez cada plan y cada versión usada por los equipos
+      const plans = new Map<string, Promise<MaintenancePlanWithStages | null>>();
+      const now = new Date();
+      const equipmentCompliance: EquipmentMaintenanceCompliance[] = [];
+
+      const evaluate = async (equipment: EquipmentBase[]) => {
+        const results = await mapInBatches(
+          equipment.filter((item) => !!item.maintenance_plan_id),
+          EQUIPMENT_BATCH_SIZE,
+          async (item) => {
+            const key = `${item.maintenance_plan_id}:${
+              item.maintenance_plan_version ?? "current"
+            }`;
+            if (!plans.has(key)) {
+              plans.set(key, this.resolvePlan(item, userId));
+            }
+            const plan = await plans.get(key)!;
+            if (!plan) return null;
+
+            return this.getEquipmentCompliance(
+              item,
+              plan,
+              userId,
+              tolerancePct,
+              now
+            );
+          }
+        );
+        equipmentCompliance.push(
+          ...results.filter(
+            (result): result is EquipmentMaintenanceCompliance => !!result
+          )
+        );
+      };
+
+      if (equipmentId) {
+        const equipment = await equipmentService.getByIds(
+          [equipmentId],
+          userId
+        );
+        if (equipment.length === 0) {
+          throw new Error(`Equipo con ID ${equipmentId} no encontrado`);
+        }
+        await evaluate(equipment);
+      } else {
+        // Equipos de la flota por páginas, una a la vez
+        for (let offset = 0; ; offset += EQUIPMENT_PAGE_SIZE) {
+          const { data } = await equipmentService.getAll(
+            EQUIPMENT_PAGE_SIZE,
+            offset,
+            userId
+          );
+          await evaluate(data);
+          if (data.length < EQUIPMENT_PAGE_SIZE) break;
+        }
+      }
+
+      return {
+        generated_at: now,
+        tolerance_pct: tolerancePct,
+        summary: this.summarize(
+          equipmentCompliance.flatMap((result) => result.entries)
+        ),
+        equipment: equipmentCompliance,
+      };
+    } catch (error) {
+      console.error("Error al generar el reporte de cumplimiento:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Calcular el cumplimiento del plan de un equipo
+   * Los umbrales en km son kilómetros de vida útil y los días se cuentan
+   * desde la primera lectura registrada del equipo
+   */
+  private async getEquipmentCompliance(
+    equipment: EquipmentBase,
+    plan: MaintenancePlanWithStages,
+    userId: string,
+    tolerancePct: number,
+    now: Date
+  ): Promise<EquipmentMaintenanceCompliance> {
+    const meterType: MeterType = (equipment.meter_types || ["km"]).includes(
+      "km"
+    )
+      ? "km"
+      : "hours";
+
+    const [readings, { data: events }, { data: records }] = await Promise.all([
+      mileageRecordService.getByEquipment(
+        equipment.id,
+        userId,
+        HISTORY_SIZE,
+        0
+      ),
+      odometerEventService.getByEquipment(equipment.id, userId),
+      maintenanceRecordService.getByEquipment(
+        equipment.id,
+        userId,
+        HISTORY_SIZE,
+        0
+      ),
+    ]);
+
+    // Lectura acumulada del medidor de cada registro de kilometraje
+    const positions = new Map<string, { reading: number; date: Date }>();
+    for (const record of readings.data) {
+      const value = meterType === "km" ? record.kilometers : record.hours;
+      if (value === undefined || value === null) continue;
+      positions.set(record.id, {
+        reading:
+          meterType === "km"
+            ? odometerEventService.toLifetimeKilometers(
+                value,
+                record.record_date,
+                events
+              )
+            : value,
+        date: new Date(record.record_date),
+      });
+    }
+
+    const sortedPositions = Array.from(positions.values()).sort(
+      (a, b) => a.date.getTime() - b.date.getTime()
+    );
+    const baseline = sortedPositions[0];
+    const current = sortedPositions[sortedPositions.length - 1];
+
+    const result: EquipmentMaintenanceCompliance = {
+      equipment: {
+        id: equipment.id,
+        code: equipment.code,
+        license_plate: equipment.license_plate,
+        type: equipment.type,
+      },
+      maintenance_plan_id: plan.id,
+      maintenance_plan_name: plan.name,
+      maintenance_plan_version: equipment.maintenance_plan_version,
+      meter_type: meterType,
+      current_reading: current?.reading,
+      entries: [],
+      summary: this.summarize([]),
+    };
+    if (!baseline) return result;
+
+    const performed: PerformedMaintenance[] = records
+      .filter((record) => positions.has(record.mileage_record_id))
+      .map((record) => ({
+        record,
+        reading: positions.get(record.mileage_record_id)!.reading,
+      }));
+
+    // Desplegar las etapas (con sus ciclos) que ya vencieron y la siguiente
+    // de cada tipo, para que un mantenimiento adelantado no se empareje con
+    // una etapa anterior
+    const planTypes = new Set(
+      plan.stages
+        .filter((stage) => meterType === "km" || stage.hours !== undefined)
+        .map((stage) => stage.maintenance_type_id)
+    );
+    const upcomingTypes = new Set<string>();
+    const occurrences: StageOccurrence[] = [];
+    let position = -Infinity;
+    while (
+      occurrences.length < MAX_OCCURRENCES &&
+      upcomingTypes.size < planTypes.size
+    ) {
+      const next = maintenancePlanService.getNextCycleStage(
+        plan,
+        position,
+        meterType
+      );
+      if (!next) break;
+
+      const dueDate = new Date(
+        baseline.date.getTime() + next.threshold_days * MILLISECONDS_PER_DAY
+      );
+      const passed =
+        next.threshold <= current.reading ||
+        dueDate.getTime() <= now.getTime();
+      if (!passed) upcomingTypes.add(next.stage.maintenance_type_id);
+
+      const previousThreshold = Math.max(position, 0);
+      occurrences.push({
+        entry: {
+          stage_id: next.stage.id,
+          stage_index: next.stage.stage_index,
+          maintenance_type_id: next.stage.maintenance_type_id,
+          maintenance_type: next.stage.maintenance_type,
+          cycle: next.cycle,
+          meter_type: meterType,
+          due_reading: next.threshold,
+          due_date: dueDate,
+          status: "pending",
+        },
+        passed,
+        reading_tolerance:
+          ((next.threshold - previousThreshold) * tolerancePct) / 100,
+        days_tolerance:
+          ((next.threshold_days - next.previous_threshold_days) *
+            tolerancePct) /
+          100,
+      });
+      position = next.threshold;
+    }
+
+    this.matchRecords(occurrences, performed);
+
+    result.entries = occurrences
+      .filter((occurrence) => occurrence.passed)
+      .map((occurrence) => this.classify(occurrence, current, now));
+    result.summary = this.summarize(result.entries);
+    return result;
+  }
+
+  /**
+   * Emparejar cada etapa con el mantenimiento del mismo tipo más cercano a su
+   * umbral, entre la etapa anterior y la siguiente del mismo tipo
+   */
+  private matchRecords(
+    occurrences: StageOccurrence[],
+    performed: PerformedMaintenance[]
+  ): void {
+    const used = new Set<string>();
+
+    occurrences.forEach((occurrence, index) => {
+      const { entry } = occurrence;
+      const previous = occurrences
+        .slice(0, index)
+        .reverse()
+        .find(
+          (item) => item.entry.maintenance_type_id === entry.maintenance_type_id
+        );
+      const next = occurrences
+        .slice(index + 1)
+        .find(
+          (item) => item.entry.maintenance_type_id === entry.maintenance_type_id
+        );
+      const lower = previous?.entry.due_reading ?? -Infinity;
+      const upper = next?.entry.due_reading ?? Infinity;
+
+      const match = performed
+        .filter(
+          (item) =>
+            !used.has(item.record.id) &&
+            item.record.maintenance_type_id === entry.maintenance_type_id &&
+            item.reading > lower &&
+            item.reading <= upper
+        )
+        .sort(
+          (a, b) =>
+            Math.abs(a.reading - entry.due_reading) -
+            Math.abs(b.reading - entry.due_reading)
+        )[0];
+      if (!match) return;
+
+      used.add(match.record.id);
+      entry.maintenance_record_id = match.record.id;
+      entry.performed_date = new Date(match.record.start_datetime);
+      entry.performed_reading = match.reading;
+    });
+  }
+
+  /**
+   * Clasificar una etapa según las desviaciones respecto a su umbral
+   */
+  private classify(
+    occurrence: StageOccurrence,
+    current: { reading: number; date: Date },
+    now: Date
+  ): MaintenanceComplianceEntry {
+    const { entry, reading_tolerance, days_tolerance } = occurrence;
+
+    if (!entry.maintenance_record_id || !entry.performed_date) {
+      const overdueReading = current.reading - entry.due_reading;
+      const overdueDays = this.daysBetween(entry.due_date, now);
+      return {
+        ...entry,
+        status:
+          overdueReading > reading_tolerance || overdueDays > days_tolerance
+            ? "missed"
+            : "pending",
+      };
+    }
+
+    const readingDeviation = entry.performed_reading! - entry.due_reading;
+    const daysDeviation = this.daysBetween(
+      entry.due_date,
+      entry.performed_date
+    );
+
+    const lateBy: ("reading" | "days")[] = [];
+    if (readingDeviation > reading_tolerance) lateBy.push("reading");
+    if (daysDeviation > days_tolerance) lateBy.push("days");
+
+    return {
+      ...entry,
+      status:
+        lateBy.length > 0
+          ? "late"
+          : readingDeviation < -reading_tolerance &&
+            daysDeviation < -days_tolerance
+          ? "early"
+          : "on_time",
+      late_by: lateBy.length > 0 ? lateBy : undefined,
+      reading_deviation: readingDeviation,
+      days_deviation: daysDeviation,
+    };
+  }
+
+  /**
+   * Contar las etapas por clasificación y calcular los porcentajes
+   */
+  private summarize(
+    entries: MaintenanceComplianceEntry[]
+  ): MaintenanceComplianceSummary {
+    const count = (status: MaintenanceComplianceEntry["status"]) =>
+      entries.filter((entry) => entry.status === status).length;
+
+    const onTime = count("on_time");
+    const early = count("early");
+    const late = count("late");
+    const missed = count("missed");
+    const evaluated = onTime + early + late + missed;
+
+    const pct = (value: number) =>
+      evaluated > 0 ? Math.round((value / evaluated) * 1000) / 10 : undefined;
+
+    return {
+      on_time: onTime,
+      early,
+      late,
+      missed,
+      pending: count("pending"),
+      evaluated,
+      compliance_pct: pct(onTime + early),
+      on_time_pct: pct(onTime),
+      early_pct: pct(early),
+      late_pct: pct(late),
+      missed_pct: pct(missed),
+    };
+  }
+
+  /**
+   * Obtener el plan con las etapas de la versión que sigue el equipo
+   */
+  private async resolvePlan(
+    equipment: EquipmentBase,
+    userId: string
+  ): Promise<MaintenancePlanWithStages | null> {
+    const plan = await maintenancePlanService.getWithStages(
+      equipment.maintenance_plan_id,
+      userId
+    );
+    const version = equipment.maintenance_plan_version;
+    if (!plan || version === undefined || version === plan.current_version) {
+      return plan;
+    }
+
+    const planVersion = await maintenancePlanVersionService.getByNumber(
+      plan.id,
+      version,
+      userId
+    );
+    return planVersion
+      ? maintenancePlanVersionService.toPlanWithStages(plan, planVersion)
+      : plan;
+  }
+
+  /**
+   * Días transcurridos entre dos fechas (negativo si `to` es anterior)
+   */
+  private daysBetween(from: Date, to: Date): number {
+    return Math.round((to.getTime() - from.getTime()) / MILLISECONDS_PER_DAY);
+  }
+}
+
+export const maintenanceComplianceService = new MaintenanceComplianceService();
@@ -0,0 +1,394 @@
+import { equipmentService } from "./equipment-service";
+import { maintenanceLaborService } from "./maintenance-labor-service";
+import { maintenanceRecordService } from "./maintenance-record-service";
+import { maintenanceSparePartService } from "./maintenance-spare-part-service";
+import { maintenanceTypeService } from "./maintenance-type-service";
+import { mileageRecordService } from "./mileage-record-service";
+import { odometerEventService } from "./odometer-event-service";
+import { EquipmentBase } from "@/types/equipment";
+import { MaintenanceRecordLabor } from "@/types/maintenance-labor";
+import { MaintenanceRecordBase } from "@/types/maintenance-record";
+import { MaintenanceSparePartWithDetails } from "@/types/maintenance-spare-part";
+import { MileageRecordBase } from "@/types/mileage-record";
+import { MaintenanceTypeBase } from "@/types/maintenance-type";
+import {
+  EquipmentMaintenanceCost,
+  MaintenanceCostBreakdown,
+  MaintenanceCostGroup,
+  MaintenanceCostReport,
+  MaintenanceRecordCost,
+} from "@/types/maintenance-cost";
+
+const PAGE_SIZE = 200; // Registros del periodo cargados por consulta
+
+/**
+ * Filtros del reporte de costos
+ */
+interface MaintenanceCostFilters {
+  from?: Date;
+  to?: Date;
+  equipment_id?: string;
+}
+
+/**
+ * Costo de un registro con los datos para agruparlo
+ */
+interface RecordCostEntry {
+  cost: MaintenanceRecordCost;
+  equipment: EquipmentBase;
+  maintenance_type?: MaintenanceTypeBase | null;
+}
+
+/**
+ * Servicio para calcular los costos de mantenimiento
+ * El costo de cada registro suma repuestos, mano de obra y servicios externos
+ * más el impuesto del registro; los registros anulados no se consideran
+ */
+class MaintenanceCostService {
+  constructor() {}
+
+  /**
+   * Calcular el costo de un registro de mantenimiento
+   * @param id - ID del registro de mantenimiento
+   * @param userId - ID del usuario
+   * @returns Desglose del costo del registro
+   */
+  async getRecordCostById(
+    id: string,
+    userId: string
+  ): Promise<MaintenanceRecordCost> {
+    try {
+      const record = await maintenanceRecordService.getById(id);
+      if (!record || record.user_id !== userId) {
+        throw new Error(`Registro de mantenimiento con ID ${id} no encontrado`);
+      }
+
+      return await this.getRecordCost(record, userId);
+    } catch (error) {
+      console.error("Error al calcular el costo del registro:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Generar el reporte de costos de la flota agrupado por equipo, tipo de
+   * mantenimiento, plan y mes
+   * Los kilómetros se miden en los equipos con registros en el periodo o en el
+   * equipo filtrado
+   * @param userId - ID del usuario
+   * @param filters - Periodo (por fecha de inicio del registro) y equipo
+   * @returns Costos acumulados y costo por kilómetro
+   */
+  async getReport(
+    userId: string,
+    filters: MaintenanceCostFilters = {}
+  ): Promise<MaintenanceCostReport> {
+    try {
+      const { from, to, equipment_id } = filters;
+      if (from && to && from.getTime() > to.getTime()) {
+        throw new Error("La fecha inicial debe ser anterior a la final");
+      }
+
+      // Equipos de los registros del periodo; con filtro, el equipo indicado
+      const equipmentById = new Map<string, EquipmentBase>();
+      if (equipment_id) {
+        const [item] = await equipmentService.getByIds([equipment_id], userId);
+        if (!item) {
+          throw new Error(`Equipo con ID ${equipment_id} no encontrado`);
+        }
+        equipmentById.set(item.id, item);
+      }
+
+      // Cargar una sola vez cada tipo de mantenimiento
+      const types = new Map<string, MaintenanceTypeBase | null>();
+      const getType = async (id: string) => {
+        if (!types.has(id)) {
+          types.set(id, await maintenanceTypeService.getById(id));
+        }
+        return types.get(id) ?? null;
+      };
+
+      // Registros del periodo por páginas, uno a la vez para no saturar las
+      // conexiones; repuestos, mano de obra y equipos se cargan por página
+      const entries: RecordCostEntry[] = [];
+      for (let offset = 0; ; offset += PAGE_SIZE) {
+        const { data: records } = await maintenanceRecordService.getByPeriod(
+          userId,
+          { from, to, equipment_id },
+          PAGE_SIZE,
+          offset
+        );
+        const recordIds = records.map((record) => record.id);
+        const newEquipmentIds = Array.from(
+          new Set(records.map((record) => record.equipment_id))
+        ).filter((id) => !equipmentById.has(id));
+        const [spareParts, labor, newEquipment] = await Promise.all([
+          maintenanceSparePartService.getByMaintenanceRecordsWithDetails(
+            recordIds,
+            userId
+          ),
+          maintenanceLaborService.getRecordsLabor(recordIds, userId),
+          equipmentService.getByIds(newEquipmentIds, userId),
+        ]);
+        for (const item of newEquipment) {
+          equipmentById.set(item.id, item);
+        }
+
+        for (const record of records) {
+          const item = equipmentById.get(record.equipment_id);
+          const recordLabor = labor.get(record.id);
+          if (!item || !recordLabor) continue;
+
+          entries.push({
+            cost: this.calculateCost(
+              record,
+              spareParts.get(record.id) ?? [],
+              recordLabor
+            ),
+            equipment: item,
+            maintenance_type: await getType(record.maintenance_type_id),
+          });
+        }
+
+        if (records.length < PAGE_SIZE) break;
+      }
+
+      const entriesByEquipment = new Map<string, RecordCostEntry[]>();
+      for (const entry of entries) {
+        const items = entriesByEquipment.get(entry.equipment.id) ?? [];
+        items.push(entry);
+        entriesByEquipment.set(entry.equipment.id, items);
+      }
+
+      const results = [];
+      for (const item of Array.from(equipmentById.values())) {
+        results.push({
+          equipment: item,
+          kilometers: await this.getKilometers(item, userId, from, to),
+          entries: entriesByEquipment.get(item.id) ?? [],
+        });
+      }
+
+      const byEquipment: EquipmentMaintenanceCost[] = results
+        .filter(
+          (result) => result.entries.length > 0 || (result.kilometers ?? 0) > 0
+        )
+        .map((result) => {
+          const group = this.aggregate(
+            result.equipment.id,
+            `${result.equipment.code} - ${result.equipment.license_plate}`,
+            result.entries.map((entry) => entry.cost)
+          );
+          return {
+            ...group,
+            kilometers: result.kilometers,
+            cost_per_km: this.costPerKm(group.total, result.kilometers),
+          };
+        })
+        .sort((a, b) => b.total - a.total);
+
+      const kilometers = byEquipment.reduce(
+        (sum, item) => sum + (item.kilometers ?? 0),
+        0
+      );
+      const summary = this.aggregate(
+        "all",
+        "Flota",
+        entries.map((entry) => entry.cost)
+      );
+
+      return {
+        generated_at: new Date(),
+        from,
+        to,
+        summary: {
+          parts_cost: summary.parts_cost,
+          labor_cost: summary.labor_cost,
+          external_service_cost: summary.external_service_cost,
+          subtotal: summary.subtotal,
+          tax: summary.tax,
+          total: summary.total,
+          records: summary.records,
+          kilometers,
+          cost_per_km: this.costPerKm(summary.total, kilometers),
+        },
+        by_equipment: byEquipment,
+        by_maintenance_type: this.groupBy(
+          entries,
+          (entry) => entry.cost.maintenance_type_id,
+          (entry) =>
+            entry.maintenance_type?.type || entry.cost.maintenance_type_id
+        ),
+        by_plan: this.groupBy(
+          entries,
+          (entry) => entry.equipment.maintenance_plan_id || "none",
+          (entry) => entry.equipment.maintenance_plan?.name || "Sin plan"
+        ),
+        by_month: this.groupBy(
+          entries,
+          (entry) => this.monthKey(entry.cost.start_datetime),
+          (entry) => this.monthKey(entry.cost.start_datetime)
+        ).sort((a, b) => a.key.localeCompare(b.key)),
+      };
+    } catch (error) {
+      console.error("Error al generar el reporte de costos:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Cargar los repuestos y la mano de obra de un registro y calcular su costo
+   */
+  private async getRecordCost(
+    record: MaintenanceRecordBase,
+    userId: string
+  ): Promise<MaintenanceRecordCost> {
+    const [spareParts, labor] = await Promise.all([
+      maintenanceSparePartService.getByMaintenanceRecordWithDetails(
+        record.id,
+        userId
+      ),
+      maintenanceLaborService.getRecordLabor(record.id, userId),
+    ]);
+
+    return this.calculateCost(record, spareParts, labor);
+  }
+
+  /**
+   * Calcular el costo de un registro a partir de sus repuestos, su mano de
+   * obra y sus servicios externos
+   * Los repuestos sin precio registrado en la línea usan el precio actual
+   */
+  private calculateCost(
+    record: MaintenanceRecordBase,
+    spareParts: MaintenanceSparePartWithDetails[],
+    labor: MaintenanceRecordLabor
+  ): MaintenanceRecordCost {
+    const partsCost = spareParts.reduce(
+      (sum, line) =>
+        sum + line.quantity * (line.unit_price ?? line.spare_part?.price ?? 0),
+      0
+    );
+    const externalServiceCost = record.external_service_cost ?? 0;
+    const taxRate = record.tax_rate ?? 0;
+    const subtotal = partsCost + labor.labor_cost + externalServiceCost;
+    const tax = (subtotal * taxRate) / 100;
+
+    return {
+      maintenance_record_id: record.id,
+      equipment_id: record.equipment_id,
+      maintenance_type_id: record.maintenance_type_id,
+      start_datetime: new Date(record.start_datetime),
+      tax_rate: taxRate,
+      parts_cost: this.round(partsCost),
+      labor_cost: this.round(labor.labor_cost),
+      external_service_cost: this.round(externalServiceCost),
+      subtotal: this.round(subtotal),
+      tax: this.round(tax),
+      total: this.round(subtotal + tax),
+    };
+  }
+
+  /**
+   * Kilómetros de vida útil recorridos por el equipo en el periodo
+   * Se mide desde la última lectura anterior al periodo (o la primera dentro
+   * de él) hasta la última lectura del periodo
+   */
+  private async getKilometers(
+    equipment: EquipmentBase,
+    userId: string,
+    from?: Date,
+    to?: Date
+  ): Promise<number | undefined> {
+    if (!(equipment.meter_types || ["km"]).includes("km")) return undefined;
+
+    const [{ baseline, current }, { data: events }] = await Promise.all([
+      mileageRecordService.getPeriodBounds(equipment.id, userId, from, to),
+      odometerEventService.getByEquipment(equipment.id, userId),
+    ]);
+    if (
+      baseline?.kilometers === undefined ||
+      current?.kilometers === undefined
+    ) {
+      return undefined;
+    }
+
+    const lifetime = (record: MileageRecordBase) =>
+      odometerEventService.toLifetimeKilometers(
+        record.kilometers!,
+        record.record_date,
+        events
+      );
+    return Math.max(lifetime(current) - lifetime(baseline), 0);
+  }
+
+  /**
+   * Agrupar los costos de los registros por la clave indicada
+   * Los grupos se ordenan de mayor a menor costo total
+   */
+  private groupBy(
+    entries: RecordCostEntry[],
+    key: (entry: RecordCostEntry) => string,
+    label: (entry: RecordCostEntry) => string
+  ): MaintenanceCostGroup[] {
+    const groups = new Map<string, RecordCostEntry[]>();
+    for (const entry of entries) {
+      const value = key(entry);
+      groups.set(value, [...(groups.get(value) || []), entry]);
+    }
+
+    return Array.from(groups.entries())
+      .map(([value, items]) =>
+        this.aggregate(
+          value,
+          label(items[0]),
+          items.map((item) => item.cost)
+        )
+      )
+      .sort((a, b) => b.total - a.total);
+  }
+
+  /**
+   * Sumar los costos de un grupo de registros
+   */
+  private aggregate(
+    key: string,
+    label: string,
+    costs: MaintenanceCostBreakdown[]
+  ): MaintenanceCostGroup {
+    const sum = (field: keyof MaintenanceCostBreakdown) =>
+      this.round(costs.reduce((total, cost) => total + cost[field], 0));
+
+    return {
+      key,
+      label,
+      records: costs.length,
+      parts_cost: sum("parts_cost"),
+      labor_cost: sum("labor_cost"),
+      external_service_cost: sum("external_service_cost"),
+      subtotal: sum("subtotal"),
+      tax: sum("tax"),
+      total: sum("total"),
+    };
+  }
+
+  private costPerKm(total: number, kilometers?: number): number | undefined {
+    return kilometers && kilometers > 0
+      ? Math.round((total / kilometers) * 10000) / 10000
+      : undefined;
+  }
+
+  /**
+   * Clave YYYY-MM del mes (UTC) de una fecha
+   */
+  private monthKey(date: Date): string {
+    const month = String(date.getUTCMonth() + 1).padStart(2, "0");
+    return `${date.getUTCFullYear()}-${month}`;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
+
+export const maintenanceCostService = new MaintenanceCostService();
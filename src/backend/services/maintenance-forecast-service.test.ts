@@ -0,0 +1,146 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  EquipmentMaintenancePlan,
+  EquipmentMileageRecord,
+} from "@/types/equipment";
+import { MileageRecordBase } from "@/types/mileage-record";
+import { mileageRecordRepository } from "../repositories/mileage-record-repository";
+import { odometerEventRepository } from "../repositories/odometer-event-repository";
+import { maintenanceForecastService } from "./maintenance-forecast-service";
+
+vi.mock("../repositories/unit-of-work", () => ({
+  unitOfWork: {
+    run: (operation: () => Promise<unknown>) => operation(),
+    step: (_step: string, operation: () => Promise<unknown>) => operation(),
+  },
+}));
+
+const reading = (recordDate: string, kilometers: number) =>
+  ({
+    id: `mileage-${recordDate}`,
+    equipment_id: "equipment-1",
+    record_date: new Date(recordDate),
+    kilometers,
+  }) as MileageRecordBase;
+
+const givenReadings = (...records: MileageRecordBase[]) =>
+  vi.mocked(mileageRecordRepository.getByEquipment).mockResolvedValue({
+    total: records.length,
+    limit: 60,
+    offset: 0,
+    pages: 1,
+    equipment_id: "equipment-1",
+    data: records,
+  });
+
+const forecast = async (
+  remainingMileage: number,
+  lastReadingDate: string,
+  equipment: Partial<EquipmentMileageRecord> = {}
+) =>
+  (
+    await maintenanceForecastService.forecast(
+      {
+        equipment: {
+          id: "equipment-1",
+          meter_types: ["km"],
+          last_mileage_record_date: new Date(lastReadingDate),
+          ...equipment,
+        } as EquipmentMileageRecord,
+        remaining_mileage: remainingMileage,
+      } as EquipmentMaintenancePlan,
+      "user-1"
+    )
+  ).forecast!;
+
+describe("maintenanceForecastService", () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2024-03-10T12:00:00Z"));
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.spyOn(mileageRecordRepository, "getByEquipment");
+    vi.spyOn(odometerEventRepository, "getByEquipment").mockResolvedValue({
+      equipment_id: "equipment-1",
+      data: [],
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("usa el promedio del equipo si hay menos de dos lecturas", async () => {
+    givenReadings(reading("2024-03-01T10:00:00Z", 1000));
+
+    const result = await forecast(500, "2024-03-01T10:00:00Z", {
+      avg_mileage: 50,
+    });
+
+    expect(result).toMatchObject({
+      predicted_date: new Date("2024-03-11T00:00:00Z"),
+      trigger: "km",
+      confidence: "low",
+      daily_mileage: undefined,
+      sample_size: 0,
+    });
+  });
+
+  it("sin lecturas suficientes ni promedio no hay fecha estimada", async () => {
+    givenReadings();
+
+    const result = await forecast(500, "2024-03-01T10:00:00Z");
+
+    expect(result.predicted_date).toBeUndefined();
+    expect(result.confidence).toBe("low");
+  });
+
+  it("descarta las tasas atípicas", async () => {
+    givenReadings(
+      reading("2024-03-01T10:00:00Z", 0),
+      reading("2024-03-02T10:00:00Z", 100),
+      reading("2024-03-03T10:00:00Z", 210),
+      reading("2024-03-04T10:00:00Z", 300),
+      reading("2024-03-05T10:00:00Z", 405),
+      reading("2024-03-06T10:00:00Z", 500),
+      reading("2024-03-07T10:00:00Z", 1500),
+      reading("2024-03-08T10:00:00Z", 1600)
+    );
+
+    const result = await forecast(1000, "2024-03-08T10:00:00Z");
+
+    expect(result.sample_size).toBe(6);
+    expect(result.daily_mileage).toBeGreaterThan(95);
+    expect(result.daily_mileage).toBeLessThan(105);
+  });
+
+  it("ignora los intervalos en los que la lectura retrocede", async () => {
+    givenReadings(
+      reading("2024-03-01T10:00:00Z", 1000),
+      reading("2024-03-02T10:00:00Z", 1100),
+      reading("2024-03-03T10:00:00Z", 900),
+      reading("2024-03-04T10:00:00Z", 1000)
+    );
+
+    const result = await forecast(300, "2024-03-04T10:00:00Z");
+
+    expect(result.sample_size).toBe(2);
+    expect(result.daily_mileage).toBe(100);
+    expect(result.predicted_date).toEqual(new Date("2024-03-07T00:00:00Z"));
+  });
+
+  it("agrupa las lecturas por día UTC y conserva la última", async () => {
+    givenReadings(
+      reading("2024-03-01T00:30:00Z", 1000),
+      reading("2024-03-01T23:30:00Z", 1050),
+      reading("2024-03-02T00:10:00Z", 1150)
+    );
+
+    const result = await forecast(300, "2024-03-02T00:10:00Z");
+
+    expect(result.sample_size).toBe(1);
+    expect(result.daily_mileage).toBe(100);
+    expect(result.predicted_date).toEqual(new Date("2024-03-05T00:00:00Z"));
+    expect(result.days_until_due).toBe(-5);
+  });
+});
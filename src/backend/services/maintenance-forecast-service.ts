@@ -0,0 +1,319 @@
+import { mileageRecordRepository } from "../repositories/mileage-record-repository";
+import { odometerEventRepository } from "../repositories/odometer-event-repository";
+import { odometerEventService } from "./odometer-event-service";
+import {
+  EquipmentMaintenancePlan,
+  ForecastConfidence,
+  ForecastTrigger,
+  MaintenanceForecast,
+  MeterType,
+} from "@/types/equipment";
+import { MileageRecordBase } from "@/types/mileage-record";
+import { OdometerEventBase } from "@/types/odometer-event";
+
+const MILLISECONDS_PER_DAY = 86400000;
+const FORECAST_HISTORY_SIZE = 60; // Lecturas recientes consideradas
+const FORECAST_WINDOW_DAYS = 180; // Antigüedad máxima respecto a la última lectura
+const HALF_LIFE_DAYS = 30; // El peso de un intervalo se reduce a la mitad cada 30 días
+const OUTLIER_THRESHOLD = 3; // Desviaciones absolutas medianas permitidas
+const STALE_READING_DAYS = 30; // Sin lecturas recientes la confianza disminuye
+
+/**
+ * Tendencia de utilización de un medidor
+ */
+interface UtilizationTrend {
+  daily_rate?: number;
+  variation?: number; // Coeficiente de variación de las tasas consideradas
+  sample_size: number;
+}
+
+/**
+ * Fecha candidata en la que se cumple una restricción de la etapa
+ */
+interface ForecastCandidate {
+  trigger: ForecastTrigger;
+  day: number;
+  trend?: UtilizationTrend;
+  last_reading_day?: number;
+}
+
+/**
+ * Servicio para pronosticar la fecha del próximo mantenimiento
+ * Proyecta la fecha en la que se alcanza el umbral de la siguiente etapa a
+ * partir de la tendencia reciente de lecturas del equipo, descartando valores
+ * atípicos y dando más peso a los intervalos recientes
+ */
+class MaintenanceForecastService {
+  private mileageRecordRepository = mileageRecordRepository;
+  private odometerEventRepository = odometerEventRepository;
+
+  constructor() {}
+
+  /**
+   * Agregar el pronóstico al plan de mantenimiento de un equipo
+   * @param plan - Plan de mantenimiento del equipo
+   * @param userId - ID del usuario
+   * @returns Plan con la fecha estimada, confianza y restricción determinante
+   */
+  async forecast(
+    plan: EquipmentMaintenancePlan,
+    userId: string
+  ): Promise<EquipmentMaintenancePlan> {
+    try {
+      const { equipment } = plan;
+      const meterTypes = equipment.meter_types || ["km"];
+
+      const [{ data: records }, { data: events }] = await Promise.all([
+        this.mileageRecordRepository.getByEquipment(
+          equipment.id,
+          userId,
+          FORECAST_HISTORY_SIZE,
+          0
+        ),
+        this.odometerEventRepository.getByEquipment(equipment.id, userId),
+      ]);
+
+      const mileageTrend = meterTypes.includes("km")
+        ? this.getTrend(records, "km", events)
+        : { sample_size: 0 };
+      const hoursTrend = meterTypes.includes("hours")
+        ? this.getTrend(records, "hours", events)
+        : { sample_size: 0 };
+
+      const candidates: ForecastCandidate[] = [];
+
+      // El plazo en días se cuenta desde la última lectura registrada
+      const lastRecordDate =
+        equipment.last_mileage_record_date || equipment.last_hours_record_date;
+      if (plan.remaining_days !== undefined && lastRecordDate) {
+        candidates.push({
+          trigger: "days",
+          day:
+            this.toDayNumber(lastRecordDate) + Math.round(plan.remaining_days),
+        });
+      }
+
+      const mileageCandidate = this.getMeterCandidate(
+        "km",
+        plan.remaining_mileage,
+        equipment.last_mileage_record_date,
+        mileageTrend,
+        equipment.avg_mileage
+      );
+      if (mileageCandidate) candidates.push(mileageCandidate);
+
+      const hoursCandidate = this.getMeterCandidate(
+        "hours",
+        plan.remaining_hours,
+        equipment.last_hours_record_date,
+        hoursTrend,
+        equipment.avg_hours
+      );
+      if (hoursCandidate) candidates.push(hoursCandidate);
+
+      const sampleSize = Math.max(
+        mileageTrend.sample_size,
+        hoursTrend.sample_size
+      );
+      const first = candidates.sort((a, b) => a.day - b.day)[0];
+
+      const forecast: MaintenanceForecast = first
+        ? {
+            predicted_date: new Date(first.day * MILLISECONDS_PER_DAY),
+            days_until_due: first.day - this.toDayNumber(new Date()),
+            trigger: first.trigger,
+            confidence: this.getConfidence(first),
+            daily_mileage: mileageTrend.daily_rate,
+            daily_hours: hoursTrend.daily_rate,
+            sample_size: sampleSize,
+          }
+        : {
+            confidence: "low",
+            daily_mileage: mileageTrend.daily_rate,
+            daily_hours: hoursTrend.daily_rate,
+            sample_size: sampleSize,
+          };
+
+      return { ...plan, forecast };
+    } catch (error) {
+      console.error("Error al pronosticar el próximo mantenimiento:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Calcular la fecha en la que un medidor alcanza el umbral de la etapa
+   * Si no hay tendencia suficiente se usa el promedio diario del equipo
+   */
+  private getMeterCandidate(
+    trigger: ForecastTrigger,
+    remaining: number | undefined,
+    lastReadingDate: Date | undefined,
+    trend: UtilizationTrend,
+    average?: number
+  ): ForecastCandidate | null {
+    if (remaining === undefined || !lastReadingDate) return null;
+
+    const lastReadingDay = this.toDayNumber(lastReadingDate);
+    if (remaining <= 0) {
+      return {
+        trigger,
+        day: lastReadingDay,
+        trend,
+        last_reading_day: lastReadingDay,
+      };
+    }
+
+    const rate = trend.daily_rate ?? average;
+    if (!rate || rate <= 0) return null;
+
+    return {
+      trigger,
+      day: lastReadingDay + Math.ceil(remaining / rate),
+      trend,
+      last_reading_day: lastReadingDay,
+    };
+  }
+
+  /**
+   * Calcular la tendencia diaria de un medidor
+   * Usa un promedio ponderado por la duración y antigüedad de cada intervalo
+   * entre lecturas, descartando tasas atípicas con la desviación absoluta mediana
+   * @param records - Registros recientes del equipo
+   * @param meterType - Medidor a analizar
+   * @param events - Eventos del odómetro (solo aplican a kilómetros)
+   */
+  private getTrend(
+    records: MileageRecordBase[],
+    meterType: MeterType,
+    events: OdometerEventBase[]
+  ): UtilizationTrend {
+    // Una lectura por día, la más reciente del día
+    const readingsByDay = new Map<number, number>();
+    records
+      .filter(
+        (record) =>
+          this.mileageRecordRepository.getReading(record, meterType) !==
+          undefined
+      )
+      .sort((a, b) => a.record_date.getTime() - b.record_date.getTime())
+      .forEach((record) => {
+        const reading = this.mileageRecordRepository.getReading(
+          record,
+          meterType
+        )!;
+        readingsByDay.set(
+          this.toDayNumber(record.record_date),
+          meterType === "km"
+            ? odometerEventService.toLifetimeKilometers(
+                reading,
+                record.record_date,
+                events
+              )
+            : reading
+        );
+      });
+
+    const readings = Array.from(readingsByDay.entries());
+    if (readings.length < 2) return { sample_size: 0 };
+
+    const lastDay = readings[readings.length - 1][0];
+    const recent = readings.filter(
+      ([day]) => day >= lastDay - FORECAST_WINDOW_DAYS
+    );
+
+    const intervals: { rate: number; weight: number }[] = [];
+    for (let i = 1; i < recent.length; i++) {
+      const [previousDay, previousValue] = recent[i - 1];
+      const [day, value] = recent[i];
+      const delta = value - previousValue;
+
+      // Las regresiones se reportan en el control de consistencia
+      if (delta < 0) continue;
+
+      const days = day - previousDay;
+      intervals.push({
+        rate: delta / days,
+        weight: days * Math.pow(0.5, (lastDay - day) / HALF_LIFE_DAYS),
+      });
+    }
+
+    const inliers = this.removeOutliers(intervals);
+    if (inliers.length === 0) return { sample_size: 0 };
+
+    const totalWeight = inliers.reduce((sum, i) => sum + i.weight, 0);
+    const mean =
+      inliers.reduce((sum, i) => sum + i.rate * i.weight, 0) / totalWeight;
+    const variance =
+      inliers.reduce((sum, i) => sum + i.weight * (i.rate - mean) ** 2, 0) /
+      totalWeight;
+
+    return {
+      daily_rate: Math.round(mean * 100) / 100,
+      variation: mean > 0 ? Math.sqrt(variance) / mean : undefined,
+      sample_size: inliers.length,
+    };
+  }
+
+  /**
+   * Descartar tasas atípicas según la desviación absoluta mediana
+   */
+  private removeOutliers<T extends { rate: number }>(intervals: T[]): T[] {
+    if (intervals.length < 3) return intervals;
+
+    const median = this.median(intervals.map((i) => i.rate));
+    const deviation = this.median(
+      intervals.map((i) => Math.abs(i.rate - median))
+    );
+    if (deviation === 0) return intervals;
+
+    // 1.4826 escala la desviación mediana a la desviación estándar normal
+    const limit = OUTLIER_THRESHOLD * 1.4826 * deviation;
+    return intervals.filter((i) => Math.abs(i.rate - median) <= limit);
+  }
+
+  /**
+   * Determinar la confianza del pronóstico
+   * El plazo en días no depende de la utilización; para los medidores se
+   * considera la cantidad de intervalos, su regularidad y la antigüedad de la
+   * última lectura
+   */
+  private getConfidence(candidate: ForecastCandidate): ForecastConfidence {
+    if (candidate.trigger === "days") return "high";
+
+    const trend = candidate.trend;
+    if (!trend?.daily_rate || trend.sample_size < 3) return "low";
+
+    let confidence: ForecastConfidence =
+      trend.sample_size >= 6 && (trend.variation ?? 1) <= 0.25
+        ? "high"
+        : (trend.variation ?? 1) <= 0.5
+          ? "medium"
+          : "low";
+
+    const staleDays =
+      this.toDayNumber(new Date()) - (candidate.last_reading_day ?? 0);
+    if (staleDays > STALE_READING_DAYS) {
+      confidence = confidence === "high" ? "medium" : "low";
+    }
+
+    return confidence;
+  }
+
+  private median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0
+      ? (sorted[middle - 1] + sorted[middle]) / 2
+      : sorted[middle];
+  }
+
+  /**
+   * Número de día UTC para comparar fechas sin depender de la zona horaria
+   */
+  private toDayNumber(date: Date): number {
+    return Math.floor(new Date(date).getTime() / MILLISECONDS_PER_DAY);
+  }
+}
+
+export const maintenanceForecastService = new MaintenanceForecastService();
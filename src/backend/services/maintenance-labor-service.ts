@@ -0,0 +1,518 @@
+import {
+  maintenanceLaborRepository,
+  MaintenanceLaborError,
+} from "../repositories/maintenance-labor-repository";
+import { maintenanceRecordRepository } from "../repositories/maintenance-record-repository";
+import { unitOfWork } from "../repositories/unit-of-work";
+import { maintenanceActivityService } from "./maintenance-activity-service";
+import { technicianService } from "./technician-service";
+import { MaintenanceLaborErrorCodes } from "@/lib/errors";
+import { lockedRecordStatuses } from "@/lib/utils";
+import {
+  LaborClockIn,
+  LaborClockOut,
+  LaborTimeEntry,
+  MaintenanceRecordLabor,
+  MaintenanceTechnicianAssignment,
+  MaintenanceTechnicianAssignmentCreate,
+  TechnicianLabor,
+} from "@/types/maintenance-labor";
+import { MaintenanceRecordBase } from "@/types/maintenance-record";
+import { TechnicianBase } from "@/types/technician";
+
+/**
+ * Servicio para gestionar la mano de obra de los mantenimientos
+ * Los técnicos se asignan a un registro o a sus actividades y marcan entrada
+ * y salida; las horas de cada tiempo se costean con la tarifa que tenía el
+ * técnico al marcar la entrada
+ */
+class MaintenanceLaborService {
+  private repository = maintenanceLaborRepository;
+
+  constructor() {}
+
+  /**
+   * Asignar un técnico a un registro o a una de sus actividades
+   * @param assignment - Registro, actividad opcional y técnico
+   * @returns El ID y fecha de creación de la asignación
+   */
+  async assign(
+    assignment: MaintenanceTechnicianAssignmentCreate
+  ): Promise<{ id: string; created_at: Date }> {
+    try {
+      return await unitOfWork.run(async () => {
+        const record = await this.getRecord(
+          assignment.maintenance_record_id,
+          assignment.user_id
+        );
+        this.assertEditable(record);
+        await this.getActiveTechnician(
+          assignment.technician_id,
+          assignment.user_id
+        );
+        if (assignment.maintenance_activity_id) {
+          await this.assertActivity(
+            assignment.maintenance_record_id,
+            assignment.maintenance_activity_id,
+            assignment.user_id
+          );
+        }
+
+        const assignments = await this.repository.getAssignments(
+          assignment.maintenance_record_id,
+          assignment.user_id
+        );
+        const duplicated = assignments.some(
+          (item) =>
+            item.technician_id === assignment.technician_id &&
+            (item.maintenance_activity_id ?? null) ===
+              (assignment.maintenance_activity_id ?? null)
+        );
+        if (duplicated) {
+          throw new MaintenanceLaborError(
+            MaintenanceLaborErrorCodes.ALREADY_ASSIGNED,
+            "El técnico ya está asignado"
+          );
+        }
+
+        return await this.repository.createAssignment(assignment);
+      });
+    } catch (error) {
+      console.error("Error al asignar el técnico:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Quitar la asignación de un técnico
+   * @param id - ID de la asignación
+   * @param userId - ID del usuario
+   * @returns El ID de la asignación eliminada
+   */
+  async unassign(id: string, userId: string): Promise<{ id: string }> {
+    try {
+      return await unitOfWork.run(async () => {
+        const assignment = await this.repository.getAssignmentById(id, userId);
+        if (!assignment) {
+          throw new MaintenanceLaborError(
+            MaintenanceLaborErrorCodes.NOT_FOUND,
+            `Asignación con ID ${id} no encontrada`
+          );
+        }
+        this.assertEditable(
+          await this.getRecord(assignment.maintenance_record_id, userId)
+        );
+
+        return await this.repository.deleteAssignment(id, userId);
+      });
+    } catch (error) {
+      console.error("Error al quitar la asignación del técnico:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Obtener los técnicos asignados a un registro y a sus actividades
+   * @param maintenanceRecordId - ID del registro de mantenimiento
+   * @param userId - ID del usuario
+   * @returns Asignaciones del registro
+   */
+  async getAssignments(
+    maintenanceRecordId: string,
+    userId: string
+  ): Promise<MaintenanceTechnicianAssignment[]> {
+    try {
+      return await this.repository.getAssignments(maintenanceRecordId, userId);
+    } catch (error) {
+      console.error("Error al obtener las asignaciones:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Marcar la entrada de un técnico asignado al registro
+   * Con `clock_out` registra un tiempo ya trabajado
+   * @param entry - Registro, actividad, técnico y horas de entrada y salida
+   * @returns El ID y fecha de creación del registro de tiempo
+   */
+  async clockIn(
+    entry: LaborClockIn
+  ): Promise<{ id: string; created_at: Date }> {
+    try {
+      const clockIn = entry.clock_in ? new Date(entry.clock_in) : new Date();
+      const clockOut = entry.clock_out ? new Date(entry.clock_out) : undefined;
+      this.validateTimeRange(clockIn, clockOut);
+
+      return await unitOfWork.run(async () => {
+        const record = await this.getRecord(
+          entry.maintenance_record_id,
+          entry.user_id
+        );
+        this.assertEditable(record);
+        // El bloqueo serializa las entradas simultáneas del mismo técnico
+        if (
+          !(await this.repository.lockTechnician(
+            entry.technician_id,
+            entry.user_id
+          ))
+        ) {
+          throw new MaintenanceLaborError(
+            MaintenanceLaborErrorCodes.TECHNICIAN_NOT_FOUND,
+            `Técnico con ID ${entry.technician_id} no encontrado`
+          );
+        }
+        const technician = await this.getActiveTechnician(
+          entry.technician_id,
+          entry.user_id
+        );
+        if (entry.maintenance_activity_id) {
+          await this.assertActivity(
+            entry.maintenance_record_id,
+            entry.maintenance_activity_id,
+            entry.user_id
+          );
+        }
+
+        const assignments = await this.repository.getAssignments(
+          entry.maintenance_record_id,
+          entry.user_id
+        );
+        if (
+          !assignments.some(
+            (item) => item.technician_id === entry.technician_id
+          )
+        ) {
+          throw new MaintenanceLaborError(
+            MaintenanceLaborErrorCodes.NOT_ASSIGNED,
+            `${technician.name} no está asignado a este mantenimiento`
+          );
+        }
+
+        // Un técnico no puede tener dos tiempos abiertos a la vez
+        if (!clockOut) {
+          const open = await this.repository.getOpenTimeEntry(
+            entry.technician_id,
+            entry.user_id
+          );
+          if (open) {
+            throw new MaintenanceLaborError(
+              MaintenanceLaborErrorCodes.ALREADY_CLOCKED_IN,
+              `${technician.name} ya tiene una entrada sin salida`,
+              { time_entry_id: open.id }
+            );
+          }
+        }
+
+        return await this.repository.createTimeEntry(
+          {
+            ...entry,
+            clock_in: clockIn,
+            clock_out: clockOut,
+            notes: entry.notes?.trim() || undefined,
+          },
+          technician.hourly_rate
+        );
+      });
+    } catch (error) {
+      console.error("Error al marcar la entrada del técnico:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Marcar la salida de un registro de tiempo abierto
+   * @param entry - Registro de tiempo y hora de salida (por defecto ahora)
+   * @returns El ID del registro de tiempo
+   */
+  async clockOut(entry: LaborClockOut): Promise<{ id: string }> {
+    try {
+      return await unitOfWork.run(async () => {
+        const existing = await this.repository.getTimeEntryById(
+          entry.id,
+          entry.user_id
+        );
+        if (!existing) {
+          throw new MaintenanceLaborError(
+            MaintenanceLaborErrorCodes.NOT_FOUND,
+            `Registro de tiempo con ID ${entry.id} no encontrado`
+          );
+        }
+        this.assertEditable(
+          await this.getRecord(existing.maintenance_record_id, entry.user_id)
+        );
+        if (existing.clock_out) {
+          throw new MaintenanceLaborError(
+            MaintenanceLaborErrorCodes.ALREADY_CLOCKED_OUT,
+            "El registro de tiempo ya tiene salida"
+          );
+        }
+
+        const clockOut = entry.clock_out
+          ? new Date(entry.clock_out)
+          : new Date();
+        this.validateTimeRange(existing.clock_in, clockOut);
+
+        return await this.repository.setClockOut(
+          entry.id,
+          clockOut,
+          entry.notes?.trim() || existing.notes,
+          entry.user_id
+        );
+      });
+    } catch (error) {
+      console.error("Error al marcar la salida del técnico:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Obtener los registros de tiempo de un registro de mantenimiento
+   * @param maintenanceRecordId - ID del registro de mantenimiento
+   * @param userId - ID del usuario
+   * @returns Registros de tiempo con horas y costo
+   */
+  async getTimeEntries(
+    maintenanceRecordId: string,
+    userId: string
+  ): Promise<LaborTimeEntry[]> {
+    try {
+      return await this.repository.getTimeEntries(userId, {
+        maintenance_record_id: maintenanceRecordId,
+      });
+    } catch (error) {
+      console.error("Error al obtener los registros de tiempo:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Eliminar un registro de tiempo
+   * @param id - ID del registro de tiempo
+   * @param userId - ID del usuario
+   * @returns El ID del registro de tiempo eliminado
+   */
+  async deleteTimeEntry(id: string, userId: string): Promise<{ id: string }> {
+    try {
+      return await unitOfWork.run(async () => {
+        const existing = await this.repository.getTimeEntryById(id, userId);
+        if (!existing) {
+          throw new MaintenanceLaborError(
+            MaintenanceLaborErrorCodes.NOT_FOUND,
+            `Registro de tiempo con ID ${id} no encontrado`
+          );
+        }
+        this.assertEditable(
+          await this.getRecord(existing.maintenance_record_id, userId)
+        );
+
+        return await this.repository.deleteTimeEntry(id, userId);
+      });
+    } catch (error) {
+      console.error("Error al eliminar el registro de tiempo:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Horas y costo de mano de obra de un registro de mantenimiento
+   * @param maintenanceRecordId - ID del registro de mantenimiento
+   * @param userId - ID del usuario
+   * @returns Totales del registro y de cada técnico
+   */
+  async getRecordLabor(
+    maintenanceRecordId: string,
+    userId: string
+  ): Promise<MaintenanceRecordLabor> {
+    try {
+      const entries = await this.getTimeEntries(maintenanceRecordId, userId);
+      return this.summarize(maintenanceRecordId, entries);
+    } catch (error) {
+      console.error("Error al calcular la mano de obra:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Horas y costo de mano de obra de varios registros con una sola consulta
+   * @param maintenanceRecordIds - IDs de los registros de mantenimiento
+   * @param userId - ID del usuario
+   * @returns Totales de cada registro, por ID del registro
+   */
+  async getRecordsLabor(
+    maintenanceRecordIds: string[],
+    userId: string
+  ): Promise<Map<string, MaintenanceRecordLabor>> {
+    try {
+      if (maintenanceRecordIds.length === 0) return new Map();
+
+      const entries = await this.repository.getTimeEntriesByRecords(
+        userId,
+        maintenanceRecordIds
+      );
+      const byRecord = new Map<string, LaborTimeEntry[]>();
+      for (const entry of entries) {
+        const recordEntries = byRecord.get(entry.maintenance_record_id) ?? [];
+        recordEntries.push(entry);
+        byRecord.set(entry.maintenance_record_id, recordEntries);
+      }
+
+      return new Map(
+        maintenanceRecordIds.map((id) => [
+          id,
+          this.summarize(id, byRecord.get(id) ?? []),
+        ])
+      );
+    } catch (error) {
+      console.error(
+        "Error al calcular la mano de obra de los registros:",
+        error
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Sumar las horas y el costo de los tiempos cerrados
+   * @param maintenanceRecordId - ID del registro de mantenimiento
+   * @param entries - Registros de tiempo del registro
+   * @returns Totales del registro y de cada técnico
+   */
+  private summarize(
+    maintenanceRecordId: string,
+    entries: LaborTimeEntry[]
+  ): MaintenanceRecordLabor {
+    const technicians = new Map<string, TechnicianLabor>();
+    for (const entry of entries) {
+      if (entry.hours === undefined) continue;
+
+      const current = technicians.get(entry.technician_id) ?? {
+        technician_id: entry.technician_id,
+        name: entry.technician?.name || entry.technician_id,
+        hours: 0,
+        cost: 0,
+      };
+      current.hours += entry.hours;
+      current.cost += entry.cost ?? 0;
+      technicians.set(entry.technician_id, current);
+    }
+
+    const byTechnician = Array.from(technicians.values()).map((item) => ({
+      ...item,
+      hours: this.round(item.hours),
+      cost: this.round(item.cost),
+    }));
+
+    return {
+      maintenance_record_id: maintenanceRecordId,
+      labor_hours: this.round(
+        byTechnician.reduce((sum, item) => sum + item.hours, 0)
+      ),
+      labor_cost: this.round(
+        byTechnician.reduce((sum, item) => sum + item.cost, 0)
+      ),
+      open_entries: entries.filter((entry) => !entry.clock_out).length,
+      technicians: byTechnician.sort((a, b) => b.hours - a.hours),
+    };
+  }
+
+  /**
+   * Obtener un registro de mantenimiento del usuario
+   */
+  private async getRecord(
+    id: string,
+    userId: string
+  ): Promise<MaintenanceRecordBase> {
+    const record = await maintenanceRecordRepository.getById(id);
+    if (!record || record.user_id !== userId) {
+      throw new MaintenanceLaborError(
+        MaintenanceLaborErrorCodes.RECORD_NOT_FOUND,
+        `Registro de mantenimiento con ID ${id} no encontrado`
+      );
+    }
+    return record;
+  }
+
+  /**
+   * Verificar que el registro no esté cerrado ni anulado
+   */
+  private assertEditable(record: MaintenanceRecordBase): void {
+    if (lockedRecordStatuses.includes(record.status)) {
+      throw new MaintenanceLaborError(
+        MaintenanceLaborErrorCodes.RECORD_LOCKED,
+        `No se puede modificar la mano de obra de un registro en estado "${record.status}"`,
+        { status: record.status }
+      );
+    }
+  }
+
+  /**
+   * Obtener un técnico activo
+   */
+  private async getActiveTechnician(
+    id: string,
+    userId: string
+  ): Promise<TechnicianBase> {
+    const technician = await technicianService.getById(id, userId);
+    if (!technician) {
+      throw new MaintenanceLaborError(
+        MaintenanceLaborErrorCodes.TECHNICIAN_NOT_FOUND,
+        `Técnico con ID ${id} no encontrado`
+      );
+    }
+    if (!technician.active) {
+      throw new MaintenanceLaborError(
+        MaintenanceLaborErrorCodes.INACTIVE_TECHNICIAN,
+        `${technician.name} está inactivo`
+      );
+    }
+    return technician;
+  }
+
+  /**
+   * Verificar que la actividad pertenezca al registro
+   */
+  private async assertActivity(
+    maintenanceRecordId: string,
+    maintenanceActivityId: string,
+    userId: string
+  ): Promise<void> {
+    const activities =
+      await maintenanceActivityService.getByMaintenanceRecordWithDetails(
+        maintenanceRecordId,
+        userId
+      );
+    if (!activities.some((activity) => activity.id === maintenanceActivityId)) {
+      throw new MaintenanceLaborError(
+        MaintenanceLaborErrorCodes.ACTIVITY_NOT_FOUND,
+        `Actividad con ID ${maintenanceActivityId} no pertenece al registro`
+      );
+    }
+  }
+
+  /**
+   * Validar que la salida sea posterior a la entrada
+   */
+  private validateTimeRange(clockIn: Date, clockOut?: Date): void {
+    if (Number.isNaN(clockIn.getTime())) {
+      throw new MaintenanceLaborError(
+        MaintenanceLaborErrorCodes.INVALID_TIME_RANGE,
+        "Fecha de entrada inválida"
+      );
+    }
+    if (clockOut && !(clockOut > clockIn)) {
+      throw new MaintenanceLaborError(
+        MaintenanceLaborErrorCodes.INVALID_TIME_RANGE,
+        "La salida debe ser posterior a la entrada"
+      );
+    }
+  }
+
+  /**
+   * Redondear a dos decimales
+   */
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
+
+export const maintenanceLaborService = new MaintenanceLaborService();
@@ -4,12 +4,32 @@ import {
   MaintenancePlanBase,
   MultiMaintenancePlan,
   MaintenancePlanWithStages,
+  MaintenancePlanCycleMode,
+  MaintenanceCycleStage,
   CanDeleteResult,
 } from "@/types/maintenance-plan";
+import {
+  MaintenanceStageBase,
+  MaintenanceStageCreate,
+} from "@/types/maintenance-stage";
+import { EquipmentMaintenancePlan, MeterType } from "@/types/equipment";
 import { maintenancePlanRepository } from "../repositories/maintenance-plan-repository";
+import { maintenanceStageRepository } from "../repositories/maintenance-stage-repository";
+import { maintenanceRecordRepository } from "../repositories/maintenance-record-repository";
+import { unitOfWork } from "../repositories/unit-of-work";
+import { maintenancePlanVersionService } from "./maintenance-plan-version-service";
+
+const CYCLE_MODES: MaintenancePlanCycleMode[] = [
+  "repeat",
+  "repeat_from",
+  "terminate",
+];
+const MILLISECONDS_PER_DAY = 86400000;
 
 class MaintenancePlanService {
   private repository = maintenancePlanRepository;
+  private stageRepository = maintenanceStageRepository;
+  private maintenanceRecordRepository = maintenanceRecordRepository;
 
   constructor() {}
 
@@ -37,6 +57,8 @@ class MaintenancePlanService {
         throw new Error("La descripción no puede exceder 1000 caracteres");
       }
 
+      this.validateCycle(plan.cycle_mode, plan.cycle_restart_index);
+
       // Verificar que no exista un plan con el mismo nombre
       const existingByName = await this.repository.nameExists(
         plan.name.trim(),
@@ -165,6 +187,14 @@ class MaintenancePlanService {
         throw new Error("La descripción no puede exceder 1000 caracteres");
       }
 
+      if (plan.cycle_mode !== undefined) {
+        this.validateCycle(
+          plan.cycle_mode,
+          plan.cycle_restart_index,
+          existing.stage_count
+        );
+      }
+
       // Sanitizar datos
       const updateData: MaintenancePlanUpdate = {
         ...plan,
@@ -252,6 +282,417 @@ class MaintenancePlanService {
       throw error;
     }
   }
+
+  /**
+   * Obtener un plan con sus etapas
+   */
+  async getWithStages(
+    id: string,
+    userId: string
+  ): Promise<MaintenancePlanWithStages | null> {
+    try {
+      const plan = await this.getById(id, userId);
+      if (!plan) return null;
+
+      const stages = await this.stageRepository.getAll(userId, id, 1000, 0);
+      return { ...plan, stages: stages.data };
+    } catch (error) {
+      console.error("Error en MaintenancePlanService.getWithStages:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Crear un plan y publicar su versión inicial, sin etapas, en una sola
+   * transacción
+   * @param plan - Datos del plan
+   * @returns El ID, fecha de creación y versión publicada del plan
+   */
+  async createWithVersion(
+    plan: MaintenancePlanCreate
+  ): Promise<{ id: string; created_at: Date; current_version: number }> {
+    try {
+      return await unitOfWork.run(async () => {
+        const created = await this.create(plan);
+        const version = await maintenancePlanVersionService.publish(
+          created.id,
+          plan.user_id
+        );
+        return { ...created, current_version: version.version_number };
+      });
+    } catch (error) {
+      console.error(
+        "Error en MaintenancePlanService.createWithVersion:",
+        error
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Actualizar un plan y, si cambia su ciclo, publicar una nueva versión en
+   * la misma transacción
+   * @param plan - Datos a actualizar
+   * @param userId - ID del usuario
+   * @returns El ID del plan
+   */
+  async updateWithVersion(
+    plan: MaintenancePlanUpdate,
+    userId: string
+  ): Promise<{ id: string } | null> {
+    try {
+      return await unitOfWork.run(async () => {
+        const result = await this.update(plan, userId);
+
+        // El cambio de ciclo altera el cálculo de los mantenimientos
+        if (plan.cycle_mode !== undefined) {
+          await maintenancePlanVersionService.publish(plan.id, userId);
+        }
+        return result;
+      });
+    } catch (error) {
+      console.error(
+        "Error en MaintenancePlanService.updateWithVersion:",
+        error
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Crear un plan junto con sus etapas en una sola transacción
+   * Si alguna etapa falla no se crea el plan
+   * @param plan - Datos del plan
+   * @param stages - Etapas a crear en el plan
+   * @returns El ID y fecha de creación del plan
+   */
+  async createWithStages(
+    plan: MaintenancePlanCreate,
+    stages: Omit<MaintenanceStageCreate, "maintenance_plan_id" | "user_id">[]
+  ): Promise<{ id: string; created_at: Date }> {
+    try {
+      return await unitOfWork.run(async () => {
+        const created = await this.create(plan);
+
+        for (const stage of [...stages].sort(
+          (a, b) => a.stage_index - b.stage_index
+        )) {
+          await unitOfWork.step(`stage_${stage.stage_index}`, () =>
+            this.stageRepository.create({
+              maintenance_type_id: stage.maintenance_type_id,
+              maintenance_plan_id: created.id,
+              stage_index: stage.stage_index,
+              kilometers: stage.kilometers,
+              days: stage.days,
+              hours: stage.hours,
+              user_id: plan.user_id,
+            })
+          );
+        }
+
+        return created;
+      });
+    } catch (error) {
+      console.error("Error en MaintenancePlanService.createWithStages:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Duplicar un plan con todas sus etapas y publicar su versión inicial en
+   * la misma transacción
+   * @param id - ID del plan a duplicar
+   * @param userId - ID del usuario
+   * @param name - Nombre del nuevo plan; por defecto "<nombre> (copia)"
+   * @returns El plan creado con sus etapas
+   */
+  async duplicate(
+    id: string,
+    userId: string,
+    name?: string
+  ): Promise<MaintenancePlanWithStages> {
+    try {
+      return await unitOfWork.run(async () => {
+        const plan = await this.getWithStages(id, userId);
+        if (!plan) {
+          throw new Error(
+            "Plan de mantenimiento no encontrado o no tiene permisos para duplicarlo"
+          );
+        }
+
+        const created = await this.createWithStages(
+          {
+            name:
+              name?.trim() ||
+              (await this.getAvailableName(plan.name, userId, "copia")),
+            description: plan.description,
+            cycle_mode: plan.cycle_mode,
+            cycle_restart_index: plan.cycle_restart_index,
+            user_id: userId,
+          },
+          plan.stages
+        );
+
+        const version = await maintenancePlanVersionService.publish(
+          created.id,
+          userId
+        );
+
+        const duplicated = await this.getWithStages(created.id, userId);
+        if (!duplicated) {
+          throw new Error("No se pudo obtener el plan duplicado");
+        }
+        return { ...duplicated, current_version: version.version_number };
+      });
+    } catch (error) {
+      console.error("Error en MaintenancePlanService.duplicate:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Verificar si existe un plan con el nombre indicado
+   */
+  async nameExists(
+    name: string,
+    userId: string,
+    excludeId?: string
+  ): Promise<boolean> {
+    try {
+      return await this.repository.nameExists(name.trim(), userId, excludeId);
+    } catch (error) {
+      console.error("Error en MaintenancePlanService.nameExists:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Obtener un nombre de plan que no esté en uso
+   * Agrega la etiqueta y un número al nombre base hasta encontrar uno libre,
+   * p. ej. "Plan (copia)", "Plan (copia 2)"; los nombres en uso se leen con
+   * una sola consulta
+   * @param baseName - Nombre deseado
+   * @param userId - ID del usuario
+   * @param label - Etiqueta que se agrega entre paréntesis
+   */
+  async getAvailableName(
+    baseName: string,
+    userId: string,
+    label?: string
+  ): Promise<string> {
+    const base = baseName.trim().slice(0, 180);
+    const taken = new Set(
+      (await this.repository.getNamesStartingWith(base, userId)).map((name) =>
+        name.toLowerCase()
+      )
+    );
+
+    for (let suffix = 1; ; suffix++) {
+      const tag = [label, suffix > 1 ? suffix : undefined]
+        .filter((part) => part !== undefined)
+        .join(" ");
+      const candidate = tag ? `${base} (${tag})` : base;
+
+      if (!taken.has(candidate.toLowerCase())) return candidate;
+    }
+  }
+
+  /**
+   * Obtener la siguiente etapa de un plan para una lectura acumulada
+   * Si la lectura supera la última etapa y el plan es cíclico, las etapas del
+   * ciclo se repiten desplazando sus umbrales por la duración del ciclo
+   * @param plan - Plan con sus etapas
+   * @param position - Lectura acumulada del equipo (km u horas)
+   * @param meterType - Medidor con el que se recorre el plan
+   * @returns La etapa resuelta o null si el plan terminó
+   */
+  getNextCycleStage(
+    plan: MaintenancePlanWithStages,
+    position: number,
+    meterType: MeterType = "km"
+  ): MaintenanceCycleStage | null {
+    const threshold = (stage: MaintenanceStageBase): number =>
+      (meterType === "km" ? stage.kilometers : stage.hours) ?? 0;
+
+    const stages = plan.stages
+      .filter((stage) => meterType === "km" || stage.hours !== undefined)
+      .sort((a, b) => threshold(a) - threshold(b));
+    if (stages.length === 0) return null;
+
+    const firstIndex = stages.findIndex((stage) => threshold(stage) > position);
+    if (firstIndex >= 0) {
+      const previous = stages[firstIndex - 1];
+      return {
+        stage: stages[firstIndex],
+        previous_stage: previous,
+        cycle: 0,
+        threshold: threshold(stages[firstIndex]),
+        threshold_days: stages[firstIndex].days,
+        previous_threshold_days: previous?.days ?? 0,
+      };
+    }
+
+    const mode = plan.cycle_mode || "terminate";
+    if (mode === "terminate") return null;
+
+    // Posición desde la que se repite el ciclo (la primera etapa por defecto)
+    const restartIndex =
+      mode === "repeat_from"
+        ? Math.max(
+            stages.findIndex(
+              (stage) => stage.stage_index === plan.cycle_restart_index
+            ),
+            0
+          )
+        : 0;
+    const last = stages[stages.length - 1];
+    const base = restartIndex > 0 ? stages[restartIndex - 1] : undefined;
+    const period = threshold(last) - (base ? threshold(base) : 0);
+    const periodDays = last.days - (base?.days ?? 0);
+    if (period <= 0) return null;
+
+    const segment = stages.slice(restartIndex);
+    const cycle = Math.floor((position - threshold(last)) / period) + 1;
+
+    for (const current of [cycle, cycle + 1]) {
+      for (let i = 0; i < segment.length; i++) {
+        const stageThreshold = threshold(segment[i]) + current * period;
+        if (stageThreshold <= position) continue;
+
+        // La etapa anterior a la primera del ciclo es la última de la vuelta previa
+        const previous = i > 0 ? segment[i - 1] : last;
+        const previousCycle = i > 0 ? current : current - 1;
+        return {
+          stage: segment[i],
+          previous_stage: previous,
+          cycle: current,
+          threshold: stageThreshold,
+          threshold_days: segment[i].days + current * periodDays,
+          previous_threshold_days: previous.days + previousCycle * periodDays,
+        };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Ajustar el plan de mantenimiento de un equipo a los ciclos de su plan
+   * Sin recalcular, solo aplica cuando el equipo superó la última etapa de un
+   * plan cíclico; antes de eso el cálculo de la base de datos ya es correcto
+   * @param plan - Plan de mantenimiento del equipo
+   * @param maintenancePlan - Plan con sus etapas
+   * @param userId - ID del usuario
+   * @param recalculate - Calcular la etapa aunque el equipo esté en la primera
+   * pasada (p. ej. cuando sigue una versión anterior del plan)
+   * @returns Plan con la siguiente etapa del ciclo
+   */
+  async applyCycle(
+    plan: EquipmentMaintenancePlan,
+    maintenancePlan: MaintenancePlanWithStages,
+    userId: string,
+    recalculate: boolean = false
+  ): Promise<EquipmentMaintenancePlan> {
+    const { equipment } = plan;
+    const meterType: MeterType = (equipment.meter_types || ["km"]).includes(
+      "km"
+    )
+      ? "km"
+      : "hours";
+    const position =
+      meterType === "km"
+        ? (equipment.lifetime_mileage ?? equipment.last_mileage_value)
+        : equipment.last_hours_value;
+    const readingDate =
+      meterType === "km"
+        ? equipment.last_mileage_record_date
+        : equipment.last_hours_record_date;
+
+    if (
+      position === undefined ||
+      (!recalculate &&
+        (maintenancePlan.cycle_mode || "terminate") === "terminate")
+    ) {
+      return plan;
+    }
+
+    const next = this.getNextCycleStage(maintenancePlan, position, meterType);
+    if (!next || (next.cycle === 0 && !recalculate)) return plan;
+
+    // Los días de la etapa se cuentan desde el último mantenimiento
+    const lastMaintenanceDate =
+      await this.maintenanceRecordRepository.getLastStartDatetime(
+        equipment.id,
+        userId
+      );
+    const elapsedDays =
+      lastMaintenanceDate && readingDate
+        ? Math.floor(
+            (new Date(readingDate).getTime() - lastMaintenanceDate.getTime()) /
+              MILLISECONDS_PER_DAY
+          )
+        : 0;
+
+    const toTypePlan = (stage?: MaintenanceStageBase) =>
+      stage?.maintenance_type
+        ? {
+            id: stage.maintenance_type.id,
+            type: stage.maintenance_type.type,
+            path: stage.maintenance_type.path,
+          }
+        : undefined;
+
+    return {
+      ...plan,
+      cycle: next.cycle,
+      last_maintenance_type:
+        toTypePlan(next.previous_stage) || plan.last_maintenance_type,
+      next_maintenance_type:
+        toTypePlan(next.stage) || plan.next_maintenance_type,
+      remaining_days:
+        next.threshold_days - next.previous_threshold_days - elapsedDays,
+      remaining_mileage:
+        meterType === "km" ? next.threshold - position : plan.remaining_mileage,
+      remaining_hours:
+        meterType === "hours" ? next.threshold - position : plan.remaining_hours,
+    };
+  }
+
+  /**
+   * Validar el comportamiento cíclico del plan
+   * @param mode - Comportamiento después de la última etapa
+   * @param restartIndex - Etapa desde la que se repite el plan
+   * @param stageCount - Cantidad de etapas del plan (si ya existe)
+   */
+  private validateCycle(
+    mode?: MaintenancePlanCycleMode,
+    restartIndex?: number,
+    stageCount?: number
+  ): void {
+    if (mode === undefined) return;
+
+    if (!CYCLE_MODES.includes(mode)) {
+      throw new Error(`Comportamiento de ciclo inválido: ${mode}`);
+    }
+
+    if (mode !== "repeat_from") return;
+
+    if (
+      restartIndex === undefined ||
+      !Number.isInteger(restartIndex) ||
+      restartIndex < 1
+    ) {
+      throw new Error(
+        "La etapa desde la que se repite el plan debe ser un número entero mayor a 0"
+      );
+    }
+
+    if (stageCount && restartIndex > stageCount) {
+      throw new Error(
+        `La etapa desde la que se repite el plan no puede ser mayor a ${stageCount}`
+      );
+    }
+  }
 }
 
 export const maintenancePlanService = new MaintenancePlanService();
@@ -0,0 +1,282 @@
+import { maintenancePlanTemplateRepository } from "../repositories/maintenance-plan-template-repository";
+import { unitOfWork } from "../repositories/unit-of-work";
+import { maintenancePlanService } from "./maintenance-plan-service";
+import { maintenancePlanVersionService } from "./maintenance-plan-version-service";
+import { MaintenancePlanWithStages } from "@/types/maintenance-plan";
+import {
+  MaintenancePlanTemplateBase,
+  MaintenancePlanTemplateInstantiate,
+  MaintenancePlanTemplateStage,
+  MultiMaintenancePlanTemplate,
+} from "@/types/maintenance-plan-template";
+
+const MAX_SCALE_FACTOR = 100;
+
+/**
+ * Servicio para gestionar plantillas de planes de mantenimiento
+ * Una plantilla guarda las etapas y el ciclo de un plan para crear nuevos
+ * planes a partir de ella, escalando sus intervalos
+ */
+class MaintenancePlanTemplateService {
+  private repository = maintenancePlanTemplateRepository;
+
+  constructor() {}
+
+  /**
+   * Guardar un plan existente como plantilla
+   * @param planId - ID del plan
+   * @param template - Nombre y descripción de la plantilla
+   * @param userId - ID del usuario
+   * @returns El ID y fecha de creación de la plantilla
+   */
+  async createFromPlan(
+    planId: string,
+    template: { name: string; description?: string },
+    userId: string
+  ): Promise<{ id: string; created_at: Date }> {
+    try {
+      const name = template.name?.trim();
+      if (!name || name.length < 3) {
+        throw new Error(
+          "El nombre de la plantilla debe tener al menos 3 caracteres"
+        );
+      }
+
+      if (name.length > 200) {
+        throw new Error(
+          "El nombre de la plantilla no puede exceder 200 caracteres"
+        );
+      }
+
+      if (template.description && template.description.length > 1000) {
+        throw new Error("La descripción no puede exceder 1000 caracteres");
+      }
+
+      const plan = await maintenancePlanService.getWithStages(planId, userId);
+      if (!plan) {
+        throw new Error(
+          "Plan de mantenimiento no encontrado o no tiene permisos para usarlo"
+        );
+      }
+
+      if (plan.stages.length === 0) {
+        throw new Error("El plan no tiene etapas para guardar en la plantilla");
+      }
+
+      const existingByName = await this.repository.nameExists(name, userId);
+      if (existingByName) {
+        throw new Error("Ya existe una plantilla con ese nombre");
+      }
+
+      return await this.repository.create({
+        name,
+        description: template.description?.trim() || plan.description,
+        cycle_mode: plan.cycle_mode || "terminate",
+        cycle_restart_index: plan.cycle_restart_index,
+        stages: [...plan.stages]
+          .sort((a, b) => a.stage_index - b.stage_index)
+          .map((stage) => ({
+            maintenance_type_id: stage.maintenance_type_id,
+            stage_index: stage.stage_index,
+            kilometers: stage.kilometers,
+            days: stage.days,
+            hours: stage.hours,
+          })),
+        user_id: userId,
+      });
+    } catch (error) {
+      console.error(
+        "Error en MaintenancePlanTemplateService.createFromPlan:",
+        error
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Obtener plantilla por ID
+   */
+  async getById(
+    id: string,
+    userId: string
+  ): Promise<MaintenancePlanTemplateBase | null> {
+    try {
+      if (!id?.trim()) {
+        throw new Error("El ID de la plantilla es requerido");
+      }
+
+      const template = await this.repository.getById(id, userId);
+      if (template && template.user_id !== userId) {
+        return null;
+      }
+
+      return template;
+    } catch (error) {
+      console.error("Error en MaintenancePlanTemplateService.getById:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Obtener todas las plantillas con paginación
+   */
+  async getAll(
+    limit: number,
+    offset: number,
+    userId: string
+  ): Promise<MultiMaintenancePlanTemplate> {
+    try {
+      if (offset < 0) {
+        throw new Error("El offset no puede ser negativo");
+      }
+
+      return await this.repository.getAll(limit, offset, userId);
+    } catch (error) {
+      console.error("Error en MaintenancePlanTemplateService.getAll:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Eliminar plantilla
+   * Los planes creados a partir de ella no se modifican
+   */
+  async delete(id: string, userId: string): Promise<{ id: string }> {
+    try {
+      const existing = await this.getById(id, userId);
+      if (!existing) {
+        throw new Error(
+          "Plantilla no encontrada o no tiene permisos para eliminarla"
+        );
+      }
+
+      return await this.repository.delete(id, userId);
+    } catch (error) {
+      console.error("Error en MaintenancePlanTemplateService.delete:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Crear un plan a partir de una plantilla
+   * Los kilómetros y horas de cada etapa se multiplican por kilometer_factor
+   * y los días por day_factor, redondeando al entero más cercano. La versión
+   * inicial del plan se publica en la misma transacción
+   * @param data - Plantilla, nombre del plan y factores de escala
+   * @returns El plan creado con sus etapas
+   */
+  async instantiate(
+    data: MaintenancePlanTemplateInstantiate
+  ): Promise<MaintenancePlanWithStages> {
+    try {
+      this.validateFactor(data.kilometer_factor, "kilómetros");
+      this.validateFactor(data.day_factor, "días");
+
+      const template = await this.getById(data.template_id, data.user_id);
+      if (!template) {
+        throw new Error(
+          "Plantilla no encontrada o no tiene permisos para usarla"
+        );
+      }
+
+      const stages = this.scaleStages(
+        template.stages,
+        data.kilometer_factor,
+        data.day_factor
+      );
+
+      return await unitOfWork.run(async () => {
+        const name =
+          data.name?.trim() ||
+          (await maintenancePlanService.getAvailableName(
+            template.name,
+            data.user_id
+          ));
+
+        const created = await maintenancePlanService.createWithStages(
+          {
+            name,
+            description: data.description?.trim() || template.description,
+            cycle_mode: template.cycle_mode,
+            cycle_restart_index: template.cycle_restart_index,
+            user_id: data.user_id,
+          },
+          stages
+        );
+
+        const version = await maintenancePlanVersionService.publish(
+          created.id,
+          data.user_id
+        );
+
+        const plan = await maintenancePlanService.getWithStages(
+          created.id,
+          data.user_id
+        );
+        if (!plan) {
+          throw new Error("No se pudo obtener el plan creado");
+        }
+        return { ...plan, current_version: version.version_number };
+      });
+    } catch (error) {
+      console.error(
+        "Error en MaintenancePlanTemplateService.instantiate:",
+        error
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Escalar los intervalos de las etapas de una plantilla
+   * Las etapas de un plan no pueden repetir kilómetros ni días, por lo que
+   * se rechaza un factor que haga coincidir dos etapas al redondear
+   */
+  private scaleStages(
+    stages: MaintenancePlanTemplateStage[],
+    kilometerFactor: number,
+    dayFactor: number
+  ): MaintenancePlanTemplateStage[] {
+    const scaled = stages.map((stage) => ({
+      maintenance_type_id: stage.maintenance_type_id,
+      stage_index: stage.stage_index,
+      kilometers: Math.round(stage.kilometers * kilometerFactor),
+      days: Math.round(stage.days * dayFactor),
+      hours:
+        stage.hours !== undefined
+          ? Math.round(stage.hours * kilometerFactor)
+          : undefined,
+    }));
+
+    if (new Set(scaled.map((stage) => stage.kilometers)).size < scaled.length) {
+      throw new Error(
+        "El factor de kilómetros genera etapas con los mismos kilómetros"
+      );
+    }
+
+    if (new Set(scaled.map((stage) => stage.days)).size < scaled.length) {
+      throw new Error("El factor de días genera etapas con los mismos días");
+    }
+
+    return scaled;
+  }
+
+  /**
+   * Validar un factor de escala
+   */
+  private validateFactor(factor: number, field: string): void {
+    if (
+      typeof factor !== "number" ||
+      !Number.isFinite(factor) ||
+      factor <= 0 ||
+      factor > MAX_SCALE_FACTOR
+    ) {
+      throw new Error(
+        `El factor de ${field} debe ser mayor a 0 y menor o igual a ${MAX_SCALE_FACTOR}`
+      );
+    }
+  }
+}
+
+export const maintenancePlanTemplateService =
+  new MaintenancePlanTemplateService();
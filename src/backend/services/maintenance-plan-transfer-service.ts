@@ -0,0 +1,358 @@
+import { unitOfWork } from "../repositories/unit-of-work";
+import { maintenancePlanService } from "./maintenance-plan-service";
+import { maintenancePlanVersionService } from "./maintenance-plan-version-service";
+import { maintenanceTypeService } from "./maintenance-type-service";
+import { MaintenanceTypeWithChildren } from "@/types/maintenance-type";
+import {
+  MaintenancePlanExport,
+  MaintenancePlanExportStage,
+  MaintenancePlanExportType,
+  MaintenancePlanImportConflict,
+  MaintenancePlanImportOptions,
+  MaintenancePlanImportResult,
+} from "@/types/maintenance-plan-transfer";
+
+const EXPORT_FORMAT = "maintenance-plan";
+const EXPORT_FORMAT_VERSION = 1;
+const PATH_SEPARATOR = "/";
+
+/**
+ * Servicio para exportar e importar planes de mantenimiento entre cuentas
+ * Los tipos de mantenimiento se identifican por su path en el árbol, ya que
+ * los IDs no se comparten entre cuentas
+ */
+class MaintenancePlanTransferService {
+  constructor() {}
+
+  /**
+   * Exportar un plan con sus etapas y los tipos de mantenimiento que usa
+   * Se incluyen también los tipos padre para poder recrear el árbol
+   * @param planId - ID del plan
+   * @param userId - ID del usuario
+   * @returns Plan en formato portable
+   */
+  async export(planId: string, userId: string): Promise<MaintenancePlanExport> {
+    try {
+      const plan = await maintenancePlanService.getWithStages(planId, userId);
+      if (!plan) {
+        throw new Error(
+          "Plan de mantenimiento no encontrado o no tiene permisos para exportarlo"
+        );
+      }
+
+      const accountTypes = this.flattenTree(
+        await maintenanceTypeService.getTree(userId)
+      );
+      const typesById = new Map(accountTypes.map((type) => [type.id, type]));
+      const typesByPath = new Map(
+        accountTypes.map((type) => [type.path, type])
+      );
+      const exportedTypes = new Map<string, MaintenancePlanExportType>();
+
+      const stages: MaintenancePlanExportStage[] = [...plan.stages]
+        .sort((a, b) => a.stage_index - b.stage_index)
+        .map((stage) => {
+          const type = typesById.get(stage.maintenance_type_id);
+          if (!type) {
+            throw new Error(
+              `El tipo de mantenimiento de la etapa ${stage.stage_index} no existe`
+            );
+          }
+
+          for (const ancestor of this.getAncestorPaths(type.path)) {
+            exportedTypes.set(ancestor, {
+              path: ancestor,
+              type:
+                typesByPath.get(ancestor)?.type || this.getTypeName(ancestor),
+              level: this.getLevel(ancestor),
+            });
+          }
+
+          return {
+            maintenance_type_path: type.path,
+            stage_index: stage.stage_index,
+            kilometers: stage.kilometers,
+            days: stage.days,
+            hours: stage.hours,
+          };
+        });
+
+      return {
+        format: EXPORT_FORMAT,
+        format_version: EXPORT_FORMAT_VERSION,
+        exported_at: new Date().toISOString(),
+        plan: {
+          name: plan.name,
+          description: plan.description,
+          cycle_mode: plan.cycle_mode || "terminate",
+          cycle_restart_index: plan.cycle_restart_index,
+        },
+        maintenance_types: Array.from(exportedTypes.values()).sort(
+          (a, b) => a.level - b.level || a.path.localeCompare(b.path)
+        ),
+        stages,
+      };
+    } catch (error) {
+      console.error("Error al exportar el plan de mantenimiento:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Importar un plan exportado
+   * Crea los tipos de mantenimiento que no existan en la cuenta, el plan y
+   * sus etapas en una sola transacción, junto con la versión inicial del
+   * plan. Si hay conflictos no se importa nada y se reportan en el resultado
+   * @param data - Plan exportado
+   * @param options - Nombre, estrategia ante nombres duplicados y simulación
+   * @returns Resultado de la importación con los conflictos encontrados
+   */
+  async import(
+    data: MaintenancePlanExport,
+    options: MaintenancePlanImportOptions
+  ): Promise<MaintenancePlanImportResult> {
+    try {
+      this.validateExport(data);
+      const userId = options.user_id;
+
+      const existingTypes = new Map(
+        this.flattenTree(await maintenanceTypeService.getTree(userId)).map(
+          (type) => [type.path, type.id]
+        )
+      );
+      const fileTypes = new Map(
+        data.maintenance_types.map((type) => [type.path, type])
+      );
+
+      const conflicts: MaintenancePlanImportConflict[] = [
+        ...this.findStageConflicts(data.stages),
+      ];
+
+      // Nombre del plan
+      let name = (options.name || data.plan.name).trim();
+      if (await maintenancePlanService.nameExists(name, userId)) {
+        if (options.on_name_conflict === "rename") {
+          name = await maintenancePlanService.getAvailableName(
+            name,
+            userId,
+            "importado"
+          );
+        } else {
+          conflicts.push({
+            type: "plan_name",
+            message: `Ya existe un plan de mantenimiento con el nombre "${name}"`,
+          });
+        }
+      }
+
+      // Tipos de mantenimiento a crear, de la raíz a las hojas
+      const missingPaths = new Set<string>();
+      for (const stage of data.stages) {
+        for (const path of this.getAncestorPaths(
+          stage.maintenance_type_path
+        )) {
+          if (!existingTypes.has(path)) missingPaths.add(path);
+        }
+      }
+      const createdPaths = Array.from(missingPaths).sort(
+        (a, b) => this.getLevel(a) - this.getLevel(b)
+      );
+      const existingPaths = Array.from(
+        new Set(data.stages.map((stage) => stage.maintenance_type_path))
+      ).filter((path) => existingTypes.has(path));
+
+      const result: MaintenancePlanImportResult = {
+        imported: false,
+        dry_run: options.dry_run,
+        name,
+        created_maintenance_types: createdPaths,
+        existing_maintenance_types: existingPaths,
+        conflicts,
+      };
+
+      if (conflicts.length > 0 || options.dry_run) {
+        return result;
+      }
+
+      const planId = await unitOfWork.run(async () => {
+        for (const path of createdPaths) {
+          const parentPath = this.getParentPath(path);
+          const created = await unitOfWork.step(
+            `maintenance_type_${path}`,
+            () =>
+              maintenanceTypeService.create({
+                type: fileTypes.get(path)?.type || this.getTypeName(path),
+                parent_id: parentPath
+                  ? existingTypes.get(parentPath)
+                  : undefined,
+                level: this.getLevel(path),
+                user_id: userId,
+              })
+          );
+          existingTypes.set(path, created.id);
+        }
+
+        const created = await maintenancePlanService.createWithStages(
+          {
+            name,
+            description: data.plan.description,
+            cycle_mode: data.plan.cycle_mode,
+            cycle_restart_index: data.plan.cycle_restart_index,
+            user_id: userId,
+          },
+          data.stages.map((stage) => ({
+            maintenance_type_id: existingTypes.get(
+              stage.maintenance_type_path
+            ) as string,
+            stage_index: stage.stage_index,
+            kilometers: stage.kilometers,
+            days: stage.days,
+            hours: stage.hours,
+          }))
+        );
+
+        await maintenancePlanVersionService.publish(created.id, userId);
+        return created.id;
+      });
+
+      return { ...result, imported: true, plan_id: planId };
+    } catch (error) {
+      console.error("Error al importar el plan de mantenimiento:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Validar la estructura del archivo exportado
+   */
+  private validateExport(data: MaintenancePlanExport): void {
+    if (!data || data.format !== EXPORT_FORMAT) {
+      throw new Error("El archivo no es un plan de mantenimiento exportado");
+    }
+
+    if (data.format_version > EXPORT_FORMAT_VERSION) {
+      throw new Error(
+        `Versión de formato no soportada: ${data.format_version}`
+      );
+    }
+
+    if (
+      !data.plan?.name ||
+      !Array.isArray(data.stages) ||
+      !Array.isArray(data.maintenance_types)
+    ) {
+      throw new Error("El archivo del plan está incompleto");
+    }
+
+    for (const stage of data.stages) {
+      if (
+        !stage.maintenance_type_path ||
+        !Number.isInteger(stage.stage_index) ||
+        typeof stage.kilometers !== "number" ||
+        stage.kilometers < 0 ||
+        typeof stage.days !== "number" ||
+        stage.days < 0 ||
+        (stage.hours !== undefined &&
+          (typeof stage.hours !== "number" || stage.hours < 0))
+      ) {
+        throw new Error(
+          `La etapa ${stage.stage_index ?? "?"} del archivo es inválida`
+        );
+      }
+    }
+  }
+
+  /**
+   * Buscar etapas que no pueden coexistir en un mismo plan
+   */
+  private findStageConflicts(
+    stages: MaintenancePlanExportStage[]
+  ): MaintenancePlanImportConflict[] {
+    const conflicts: MaintenancePlanImportConflict[] = [];
+    const seen = {
+      maintenance_type_path: new Set<string>(),
+      kilometers: new Set<number>(),
+      days: new Set<number>(),
+      stage_index: new Set<number>(),
+    };
+
+    for (const stage of stages) {
+      if (seen.maintenance_type_path.has(stage.maintenance_type_path)) {
+        conflicts.push({
+          type: "maintenance_type",
+          message: `El tipo "${stage.maintenance_type_path}" se repite en varias etapas`,
+          path: stage.maintenance_type_path,
+          stage_index: stage.stage_index,
+        });
+      }
+      if (seen.kilometers.has(stage.kilometers)) {
+        conflicts.push({
+          type: "stage",
+          message: `Ya existe una etapa con ${stage.kilometers} km`,
+          stage_index: stage.stage_index,
+        });
+      }
+      if (seen.days.has(stage.days)) {
+        conflicts.push({
+          type: "stage",
+          message: `Ya existe una etapa con ${stage.days} días`,
+          stage_index: stage.stage_index,
+        });
+      }
+      if (seen.stage_index.has(stage.stage_index)) {
+        conflicts.push({
+          type: "stage",
+          message: `El índice de etapa ${stage.stage_index} está repetido`,
+          stage_index: stage.stage_index,
+        });
+      }
+
+      seen.maintenance_type_path.add(stage.maintenance_type_path);
+      seen.kilometers.add(stage.kilometers);
+      seen.days.add(stage.days);
+      seen.stage_index.add(stage.stage_index);
+    }
+
+    return conflicts;
+  }
+
+  /**
+   * Aplanar el árbol de tipos de mantenimiento
+   */
+  private flattenTree(
+    nodes: MaintenanceTypeWithChildren[]
+  ): { id: string; type: string; path: string }[] {
+    return nodes.flatMap((node) => [
+      { id: node.id, type: node.type, path: node.path || node.type },
+      ...this.flattenTree(
+        (node.children || []) as MaintenanceTypeWithChildren[]
+      ),
+    ]);
+  }
+
+  /**
+   * Obtener un path y todos sus ancestros, de la raíz al nodo
+   */
+  private getAncestorPaths(path: string): string[] {
+    const segments = path.split(PATH_SEPARATOR);
+    return segments.map((_, i) =>
+      segments.slice(0, i + 1).join(PATH_SEPARATOR)
+    );
+  }
+
+  private getParentPath(path: string): string | undefined {
+    const index = path.lastIndexOf(PATH_SEPARATOR);
+    return index > 0 ? path.slice(0, index) : undefined;
+  }
+
+  private getTypeName(path: string): string {
+    return path.split(PATH_SEPARATOR).pop() || path;
+  }
+
+  private getLevel(path: string): number {
+    return path.split(PATH_SEPARATOR).length - 1;
+  }
+}
+
+export const maintenancePlanTransferService =
+  new MaintenancePlanTransferService();
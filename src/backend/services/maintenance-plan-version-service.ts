@@ -0,0 +1,402 @@
+import {
+  maintenancePlanVersionRepository,
+  MaintenancePlanVersionError,
+} from "../repositories/maintenance-plan-version-repository";
+import { maintenancePlanRepository } from "../repositories/maintenance-plan-repository";
+import { maintenanceStageRepository } from "../repositories/maintenance-stage-repository";
+import { unitOfWork } from "../repositories/unit-of-work";
+import { MaintenancePlanVersionErrorCodes } from "@/lib/errors";
+import {
+  MaintenancePlanBase,
+  MaintenancePlanWithStages,
+} from "@/types/maintenance-plan";
+import {
+  MaintenancePlanStageChange,
+  MaintenancePlanVersionBase,
+  MaintenancePlanVersionDiff,
+  MaintenancePlanVersionEquipment,
+  MaintenancePlanVersionMigration,
+  MaintenancePlanVersionStage,
+  MaintenancePlanVersionsResponse,
+} from "@/types/maintenance-plan-version";
+
+const COMPARED_FIELDS: MaintenancePlanStageChange["fields"] = [
+  "stage_index",
+  "kilometers",
+  "days",
+  "hours",
+];
+
+/**
+ * Servicio para gestionar versiones de planes de mantenimiento
+ * Publica una versión cada vez que cambian las etapas o el ciclo de un plan,
+ * compara versiones y migra equipos de una versión a otra
+ */
+class MaintenancePlanVersionService {
+  private repository = maintenancePlanVersionRepository;
+
+  constructor() {}
+
+  /**
+   * Publicar una versión con el estado actual del plan
+   * Si el plan no cambió desde la última versión no se crea una nueva
+   * @param planId - ID del plan
+   * @param userId - ID del usuario
+   * @returns Número de la versión vigente y si fue creada
+   */
+  async publish(
+    planId: string,
+    userId: string
+  ): Promise<{ version_number: number; created: boolean }> {
+    try {
+      return await unitOfWork.run(async () => {
+        const plan = await this.getPlanWithStages(planId, userId);
+        if (!plan) {
+          throw new MaintenancePlanVersionError(
+            MaintenancePlanVersionErrorCodes.PLAN_NOT_FOUND,
+            `Maintenance plan with ID ${planId} not found`
+          );
+        }
+
+        const stages = this.toVersionStages(plan);
+        const { data: versions } = await this.repository.getByPlan(
+          planId,
+          userId
+        );
+        const latest = versions[0];
+
+        if (latest && !this.hasChanges(latest, plan, stages)) {
+          return { version_number: latest.version_number, created: false };
+        }
+
+        const created = await this.repository.create({
+          maintenance_plan_id: planId,
+          cycle_mode: plan.cycle_mode || "terminate",
+          cycle_restart_index: plan.cycle_restart_index,
+          stages,
+          user_id: userId,
+        });
+
+        return { version_number: created.version_number, created: true };
+      });
+    } catch (error) {
+      console.error("Error al publicar la versión del plan:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Obtener las versiones de un plan
+   * @param planId - ID del plan
+   * @param userId - ID del usuario
+   * @returns Versiones del plan de la más reciente a la más antigua
+   */
+  async getByPlan(
+    planId: string,
+    userId: string
+  ): Promise<MaintenancePlanVersionsResponse> {
+    try {
+      return await this.repository.getByPlan(planId, userId);
+    } catch (error) {
+      console.error("Error al obtener las versiones del plan:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Obtener una versión de un plan por su número
+   * @param planId - ID del plan
+   * @param versionNumber - Número de versión
+   * @param userId - ID del usuario
+   * @returns La versión encontrada o null
+   */
+  async getByNumber(
+    planId: string,
+    versionNumber: number,
+    userId: string
+  ): Promise<MaintenancePlanVersionBase | null> {
+    try {
+      return await this.repository.getByNumber(planId, versionNumber, userId);
+    } catch (error) {
+      console.error("Error al obtener la versión del plan:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Obtener los equipos de un plan con la versión que siguen
+   * @param planId - ID del plan
+   * @param userId - ID del usuario
+   * @returns Equipos del plan
+   */
+  async getEquipment(
+    planId: string,
+    userId: string
+  ): Promise<MaintenancePlanVersionEquipment[]> {
+    try {
+      return await this.repository.getEquipment(planId, userId);
+    } catch (error) {
+      console.error("Error al obtener los equipos del plan:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Comparar dos versiones de un plan
+   * Las etapas se emparejan por tipo de mantenimiento, que es único en el plan
+   * @param planId - ID del plan
+   * @param fromVersion - Versión de origen
+   * @param toVersion - Versión de destino
+   * @param userId - ID del usuario
+   * @returns Etapas agregadas, eliminadas y modificadas
+   */
+  async diff(
+    planId: string,
+    fromVersion: number,
+    toVersion: number,
+    userId: string
+  ): Promise<MaintenancePlanVersionDiff> {
+    try {
+      const [from, to] = await Promise.all([
+        this.getExisting(planId, fromVersion, userId),
+        this.getExisting(planId, toVersion, userId),
+      ]);
+
+      const fromStages = new Map(
+        from.stages.map((stage) => [stage.maintenance_type_id, stage])
+      );
+      const toStages = new Map(
+        to.stages.map((stage) => [stage.maintenance_type_id, stage])
+      );
+
+      const changes: MaintenancePlanStageChange[] = [];
+
+      toStages.forEach((stage, typeId) => {
+        const previous = fromStages.get(typeId);
+        if (!previous) {
+          changes.push({
+            maintenance_type_id: typeId,
+            maintenance_type: stage.maintenance_type,
+            change: "added",
+            to: stage,
+            fields: [],
+          });
+          return;
+        }
+
+        const fields = COMPARED_FIELDS.filter(
+          (field) => previous[field] !== stage[field]
+        );
+        if (fields.length > 0) {
+          changes.push({
+            maintenance_type_id: typeId,
+            maintenance_type: stage.maintenance_type,
+            change: "modified",
+            from: previous,
+            to: stage,
+            fields,
+          });
+        }
+      });
+
+      fromStages.forEach((stage, typeId) => {
+        if (!toStages.has(typeId)) {
+          changes.push({
+            maintenance_type_id: typeId,
+            maintenance_type: stage.maintenance_type,
+            change: "removed",
+            from: stage,
+            fields: [],
+          });
+        }
+      });
+
+      return {
+        maintenance_plan_id: planId,
+        from_version: fromVersion,
+        to_version: toVersion,
+        cycle_changed:
+          from.cycle_mode !== to.cycle_mode ||
+          from.cycle_restart_index !== to.cycle_restart_index,
+        stages: changes.sort(
+          (a, b) =>
+            (a.to?.stage_index ?? a.from?.stage_index ?? 0) -
+            (b.to?.stage_index ?? b.from?.stage_index ?? 0)
+        ),
+      };
+    } catch (error) {
+      console.error("Error al comparar versiones del plan:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Migrar equipos a una versión del plan
+   * Los registros de mantenimiento existentes conservan la versión con la
+   * que fueron creados
+   * @param migration - Plan, versión de destino y equipos a migrar
+   * @returns Cantidad de equipos migrados
+   */
+  async migrate(
+    migration: MaintenancePlanVersionMigration
+  ): Promise<{ migrated: number }> {
+    try {
+      const { maintenance_plan_id: planId, user_id: userId } = migration;
+
+      await this.getExisting(planId, migration.version_number, userId);
+
+      const planEquipment = new Map(
+        (await this.repository.getEquipment(planId, userId)).map(
+          (equipment) => [equipment.id, equipment]
+        )
+      );
+      const notOnPlan = migration.equipment_ids.filter(
+        (id) => !planEquipment.has(id)
+      );
+      if (notOnPlan.length > 0) {
+        throw new MaintenancePlanVersionError(
+          MaintenancePlanVersionErrorCodes.EQUIPMENT_NOT_ON_PLAN,
+          `Equipment ${notOnPlan.join(", ")} is not assigned to this plan`,
+          { equipment_ids: notOnPlan }
+        );
+      }
+
+      return await unitOfWork.run(async () => {
+        for (const equipmentId of migration.equipment_ids) {
+          await unitOfWork.step(`equipment_${equipmentId}`, () =>
+            this.repository.setEquipmentVersion(
+              equipmentId,
+              planId,
+              migration.version_number,
+              userId
+            )
+          );
+        }
+
+        return { migrated: migration.equipment_ids.length };
+      });
+    } catch (error) {
+      console.error("Error al migrar equipos de versión:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Construir un plan con las etapas de una versión para calcular el
+   * próximo mantenimiento de los equipos que la siguen
+   * @param plan - Plan vigente
+   * @param version - Versión que sigue el equipo
+   */
+  toPlanWithStages(
+    plan: MaintenancePlanBase,
+    version: MaintenancePlanVersionBase
+  ): MaintenancePlanWithStages {
+    return {
+      ...plan,
+      cycle_mode: version.cycle_mode,
+      cycle_restart_index: version.cycle_restart_index,
+      stages: version.stages.map((stage) => ({
+        id: stage.stage_id,
+        maintenance_type_id: stage.maintenance_type_id,
+        maintenance_plan_id: plan.id,
+        stage_index: stage.stage_index,
+        kilometers: stage.kilometers,
+        days: stage.days,
+        hours: stage.hours,
+        maintenance_type: stage.maintenance_type,
+        created_at: version.created_at,
+        user_id: version.user_id,
+      })),
+    };
+  }
+
+  /**
+   * Obtener una versión o lanzar un error si no existe
+   */
+  private async getExisting(
+    planId: string,
+    versionNumber: number,
+    userId: string
+  ): Promise<MaintenancePlanVersionBase> {
+    const version = await this.repository.getByNumber(
+      planId,
+      versionNumber,
+      userId
+    );
+    if (!version) {
+      throw new MaintenancePlanVersionError(
+        MaintenancePlanVersionErrorCodes.NOT_FOUND,
+        `Version ${versionNumber} of maintenance plan ${planId} not found`
+      );
+    }
+    return version;
+  }
+
+  /**
+   * Leer el plan con sus etapas desde los repositorios
+   * Los servicios de planes y etapas publican versiones dentro de sus propias
+   * transacciones, por eso este servicio no depende de ellos
+   */
+  private async getPlanWithStages(
+    planId: string,
+    userId: string
+  ): Promise<MaintenancePlanWithStages | null> {
+    const plan = await maintenancePlanRepository.getById(planId, userId);
+    if (!plan || plan.user_id !== userId) return null;
+
+    const stages = await maintenanceStageRepository.getAll(
+      userId,
+      planId,
+      1000,
+      0
+    );
+    return { ...plan, stages: stages.data };
+  }
+
+  /**
+   * Copiar las etapas del plan ordenadas por índice
+   */
+  private toVersionStages(
+    plan: MaintenancePlanWithStages
+  ): MaintenancePlanVersionStage[] {
+    return [...plan.stages]
+      .sort((a, b) => a.stage_index - b.stage_index)
+      .map((stage) => ({
+        stage_id: stage.id,
+        maintenance_type_id: stage.maintenance_type_id,
+        stage_index: stage.stage_index,
+        kilometers: stage.kilometers,
+        days: stage.days,
+        hours: stage.hours,
+        maintenance_type: stage.maintenance_type,
+      }));
+  }
+
+  /**
+   * Verificar si el plan cambió respecto a una versión
+   */
+  private hasChanges(
+    version: MaintenancePlanVersionBase,
+    plan: MaintenancePlanWithStages,
+    stages: MaintenancePlanVersionStage[]
+  ): boolean {
+    if (
+      version.cycle_mode !== (plan.cycle_mode || "terminate") ||
+      version.cycle_restart_index !== plan.cycle_restart_index ||
+      version.stages.length !== stages.length
+    ) {
+      return true;
+    }
+
+    return stages.some((stage, i) => {
+      const previous = version.stages[i];
+      return (
+        previous.maintenance_type_id !== stage.maintenance_type_id ||
+        COMPARED_FIELDS.some((field) => previous[field] !== stage[field])
+      );
+    });
+  }
+}
+
+export const maintenancePlanVersionService =
+  new MaintenancePlanVersionService();
@@ -0,0 +1,196 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { MaintenanceRecordErrorCodes } from "@/lib/errors";
+import { MaintenanceActivityWithDetails } from "@/types/maintenance-activity";
+import { maintenanceRecordRepository } from "../repositories/maintenance-record-repository";
+import { maintenanceActivityService } from "./maintenance-activity-service";
+import { maintenanceRecordService } from "./maintenance-record-service";
+
+const db = vi.hoisted(() => ({ query: vi.fn() }));
+
+vi.mock("../repositories/unit-of-work", () => ({
+  unitOfWork: {
+    run: (operation: () => Promise<unknown>) => operation(),
+    getConnection: () => db,
+  },
+}));
+vi.mock("./maintenance-activity-service", () => ({
+  maintenanceActivityService: { getByMaintenanceRecordWithDetails: vi.fn() },
+}));
+
+const repository = maintenanceRecordRepository;
+const activities = vi.mocked(
+  maintenanceActivityService.getByMaintenanceRecordWithDetails
+);
+
+// Fila de mnt.get_maintenance_record_by_id
+const row = (values: Record<string, unknown> = {}) => ({
+  id: "record-1",
+  equipment_id: "equipment-1",
+  maintenance_type_id: "type-1",
+  mileage_record_id: "mileage-1",
+  start_datetime: "2024-05-01T08:00:00Z",
+  end_datetime: null,
+  status: "in_progress",
+  created_at: "2024-05-01T08:00:00Z",
+  user_id: "user-1",
+  ...values,
+});
+
+const storedRecord = (values: Record<string, unknown> = {}) =>
+  db.query.mockImplementation(async (sql: string) =>
+    sql.includes("get_maintenance_record_by_id")
+      ? { rows: [{ get_maintenance_record_by_id: row(values) }] }
+      : { rows: [] }
+  );
+
+describe("maintenanceRecordService.changeStatus", () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.clearAllMocks();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.spyOn(repository, "setStatus").mockImplementation(
+      async (id, status) => ({ id, status, status_changed_at: new Date() })
+    );
+    vi.spyOn(repository, "update").mockResolvedValue({ id: "record-1" });
+    activities.mockResolvedValue([]);
+  });
+
+  it("pasa a un estado permitido", async () => {
+    storedRecord({ status: "in_progress" });
+
+    const result = await maintenanceRecordService.changeStatus(
+      "record-1",
+      "on_hold",
+      "user-1",
+      "  Falta un repuesto  "
+    );
+
+    expect(result.status).toBe("on_hold");
+    expect(repository.setStatus).toHaveBeenCalledWith(
+      "record-1",
+      "on_hold",
+      "user-1",
+      "Falta un repuesto"
+    );
+  });
+
+  it("rechaza una transición no permitida", async () => {
+    storedRecord({ status: "draft" });
+
+    await expect(
+      maintenanceRecordService.changeStatus("record-1", "completed", "user-1")
+    ).rejects.toMatchObject({
+      code: MaintenanceRecordErrorCodes.INVALID_STATUS_TRANSITION,
+      details: { from: "draft", to: "completed" },
+    });
+    expect(repository.setStatus).not.toHaveBeenCalled();
+  });
+
+  it("no cambia el estado de un registro cerrado o anulado", async () => {
+    for (const status of ["closed", "cancelled"]) {
+      storedRecord({ status, end_datetime: "2024-05-01T10:00:00Z" });
+
+      await expect(
+        maintenanceRecordService.changeStatus(
+          "record-1",
+          "in_progress",
+          "user-1"
+        )
+      ).rejects.toMatchObject({
+        code: MaintenanceRecordErrorCodes.INVALID_STATUS_TRANSITION,
+      });
+    }
+    expect(repository.setStatus).not.toHaveBeenCalled();
+  });
+
+  it("no completa con actividades obligatorias pendientes", async () => {
+    storedRecord({ status: "in_progress" });
+    activities.mockResolvedValue([
+      { id: "a-1", activity_id: "x", mandatory: true, status: "pending" },
+      { id: "a-2", activity_id: "y", mandatory: false, status: "pending" },
+      { id: "a-3", activity_id: "z", mandatory: true, status: "completed" },
+    ] as MaintenanceActivityWithDetails[]);
+
+    await expect(
+      maintenanceRecordService.changeStatus("record-1", "completed", "user-1")
+    ).rejects.toMatchObject({
+      code: MaintenanceRecordErrorCodes.PENDING_MANDATORY_ACTIVITIES,
+      details: { activities: [{ id: "a-1", activity_id: "x" }] },
+    });
+    expect(repository.setStatus).not.toHaveBeenCalled();
+  });
+
+  it("al completar sin fecha de fin toma la fecha actual", async () => {
+    storedRecord({ status: "in_progress" });
+
+    await maintenanceRecordService.changeStatus(
+      "record-1",
+      "completed",
+      "user-1"
+    );
+
+    expect(repository.update).toHaveBeenCalledWith({
+      id: "record-1",
+      end_datetime: expect.any(Date),
+    });
+  });
+
+  it("al completar conserva la fecha de fin registrada", async () => {
+    storedRecord({
+      status: "in_progress",
+      end_datetime: "2024-05-01T10:00:00Z",
+    });
+
+    await maintenanceRecordService.changeStatus(
+      "record-1",
+      "completed",
+      "user-1"
+    );
+
+    expect(repository.update).not.toHaveBeenCalled();
+    expect(repository.setStatus).toHaveBeenCalledOnce();
+  });
+
+  it("no encuentra registros de otro usuario", async () => {
+    storedRecord({ user_id: "user-2" });
+
+    await expect(
+      maintenanceRecordService.changeStatus("record-1", "on_hold", "user-1")
+    ).rejects.toMatchObject({ code: MaintenanceRecordErrorCodes.NOT_FOUND });
+  });
+
+  describe("registros anteriores a la orden de trabajo", () => {
+    it("considera completado un registro con fecha de fin", async () => {
+      storedRecord({ status: null, end_datetime: "2024-05-01T10:00:00Z" });
+
+      const record = await maintenanceRecordService.getById("record-1");
+      expect(record?.status).toBe("completed");
+
+      await maintenanceRecordService.changeStatus(
+        "record-1",
+        "closed",
+        "user-1"
+      );
+      expect(repository.setStatus).toHaveBeenCalledWith(
+        "record-1",
+        "closed",
+        "user-1",
+        undefined
+      );
+    });
+
+    it("considera en progreso un registro sin fecha de fin", async () => {
+      storedRecord({ status: null, end_datetime: null });
+
+      const record = await maintenanceRecordService.getById("record-1");
+      expect(record?.status).toBe("in_progress");
+
+      await expect(
+        maintenanceRecordService.changeStatus("record-1", "closed", "user-1")
+      ).rejects.toMatchObject({
+        code: MaintenanceRecordErrorCodes.INVALID_STATUS_TRANSITION,
+        details: { from: "in_progress" },
+      });
+    });
+  });
+});
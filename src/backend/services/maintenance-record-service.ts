@@ -9,10 +9,33 @@ import {
   MaintenanceRecordCreate,
   MaintenanceRecordUpdate,
   MultiMaintenanceRecord,
+  MaintenanceRecordPeriodFilters,
+  MaintenanceRecordCreateWithDetails,
+  MaintenanceRecordUpdateWithDetails,
+  MaintenanceRecordStatus,
+  MaintenanceRecordStatusChange,
 } from "@/types/maintenance-record";
+import { ActivityBase } from "@/types/activity";
+import { SparePartBase } from "@/types/spare-part";
 import { maintenanceActivityService } from "./maintenance-activity-service";
+import { activityChecklistService } from "./activity-checklist-service";
 import { maintenanceSparePartService } from "./maintenance-spare-part-service";
+import { maintenanceLaborService } from "./maintenance-labor-service";
+import { maintenanceAttachmentService } from "./maintenance-attachment-service";
+import { mileageRecordService } from "./mileage-record-service";
 import { equipmentRepository } from "../repositories/equipment-repository";
+import { unitOfWork } from "../repositories/unit-of-work";
+import {
+  lockedRecordStatuses,
+  recordStatusTransitions,
+} from "@/lib/utils";
+
+// Estados con los que se puede crear un registro
+const INITIAL_STATUSES: MaintenanceRecordStatus[] = [
+  "draft",
+  "scheduled",
+  "in_progress",
+];
 
 /**
  * Servicio para gestionar registros de mantenimiento
@@ -35,19 +58,37 @@ class MaintenanceRecordService {
     try {
       // Validaciones de negocio adicionales
       // await this.validateBusinessRules(maintenanceRecord);
-      // Validar que el equipo existe
       if (
-        !(await this.equipmentRepository.getById(
-          maintenanceRecord.equipment_id
-        ))
+        maintenanceRecord.status &&
+        !INITIAL_STATUSES.includes(maintenanceRecord.status)
       ) {
+        throw new MaintenanceRecordError(
+          MaintenanceRecordErrorCodes.INVALID_STATUS_TRANSITION,
+          `Un registro no puede crearse con estado "${maintenanceRecord.status}"`,
+          { status: maintenanceRecord.status, allowed: INITIAL_STATUSES }
+        );
+      }
+
+      this.validateCosts(maintenanceRecord);
+
+      // Validar que el equipo existe
+      const equipment = await this.equipmentRepository.getById(
+        maintenanceRecord.equipment_id
+      );
+      if (!equipment) {
         throw new MaintenanceRecordError(
           MaintenanceRecordErrorCodes.EQUIPMENT_NOT_FOUND,
           `Equipment with ID ${maintenanceRecord.equipment_id} not found`
         );
       }
 
-      return await this.repository.create(maintenanceRecord);
+      // El registro conserva la versión del plan vigente para el equipo
+      return await this.repository.create({
+        ...maintenanceRecord,
+        maintenance_plan_version:
+          maintenanceRecord.maintenance_plan_version ??
+          equipment.maintenance_plan_version,
+      });
     } catch (error) {
       console.error("Error al crear el registro de mantenimiento:", error);
       throw error;
@@ -96,6 +137,8 @@ class MaintenanceRecordService {
 
   /**
    * Obtener registros de mantenimiento con detalles (equipment, maintenance_type, etc.)
+   * Las actividades, los repuestos y la mano de obra de la página se cargan
+   * con una consulta cada uno
    * @param limit - Límite de registros por página
    * @param offset - Offset para paginación
    * @param userId - ID del usuario
@@ -114,18 +157,24 @@ class MaintenanceRecordService {
   }> {
     try {
       const mr = await this.repository.getAllWithDetails(limit, offset, userId);
-      for (const record of mr.data) {
-        record.activities =
-          await maintenanceActivityService.getByMaintenanceRecordWithDetails(
-            record.id,
-            userId
-          );
+      const ids = mr.data.map((record) => record.id);
+      const activities =
+        await maintenanceActivityService.getByMaintenanceRecordsWithDetails(
+          ids,
+          userId
+        );
+      const spareParts =
+        await maintenanceSparePartService.getByMaintenanceRecordsWithDetails(
+          ids,
+          userId
+        );
+      const labor = await maintenanceLaborService.getRecordsLabor(ids, userId);
 
-        record.spare_parts =
-          await maintenanceSparePartService.getByMaintenanceRecordWithDetails(
-            record.id,
-            userId
-          );
+      for (const record of mr.data) {
+        record.activities = activities.get(record.id) ?? [];
+        record.spare_parts = spareParts.get(record.id) ?? [];
+        record.labor_hours = labor.get(record.id)?.labor_hours ?? 0;
+        record.labor_cost = labor.get(record.id)?.labor_cost ?? 0;
       }
       return mr;
     } catch (error) {
@@ -174,6 +223,43 @@ class MaintenanceRecordService {
     }
   }
 
+  /**
+   * Obtener los registros iniciados en un periodo, ordenados por fecha de
+   * inicio
+   * @param userId - ID del usuario
+   * @param filters - Periodo, equipo y si se incluyen los anulados
+   * @param limit - Límite de registros por página
+   * @param offset - Offset para paginación
+   * @returns Lista paginada de registros del periodo
+   */
+  async getByPeriod(
+    userId: string,
+    filters: MaintenanceRecordPeriodFilters,
+    limit: number = 100,
+    offset: number = 0
+  ): Promise<MultiMaintenanceRecord> {
+    try {
+      if (
+        filters.from &&
+        filters.to &&
+        filters.from.getTime() > filters.to.getTime()
+      ) {
+        throw new MaintenanceRecordError(
+          MaintenanceRecordErrorCodes.INVALID_PERIOD,
+          "La fecha inicial debe ser anterior a la final"
+        );
+      }
+
+      return await this.repository.getByPeriod(userId, filters, limit, offset);
+    } catch (error) {
+      console.error(
+        "Error al obtener registros de mantenimiento por periodo:",
+        error
+      );
+      throw error;
+    }
+  }
+
   /**
    * Actualizar un registro de mantenimiento
    * @param maintenanceRecord - Datos actualizados del registro
@@ -194,6 +280,9 @@ class MaintenanceRecordService {
         );
       }
 
+      this.assertEditable(existingRecord);
+      this.validateCosts(maintenanceRecord);
+
       // Validaciones de negocio para actualizaciones
       // await this.validateUpdateBusinessRules(maintenanceRecord, existingRecord);
 
@@ -204,29 +293,601 @@ class MaintenanceRecordService {
     }
   }
 
+  /**
+   * Crear un registro de mantenimiento con su kilometraje, repuestos y
+   * actividades en una sola transacción
+   * @param payload - Datos del registro y de sus elementos relacionados
+   * @returns El registro creado con sus detalles
+   */
+  async createWithDetails(
+    payload: MaintenanceRecordCreateWithDetails
+  ): Promise<MaintenanceRecordWithDetails> {
+    try {
+      return await unitOfWork.run(async () => {
+        let mileageRecord = payload.mileage_record;
+
+        await unitOfWork.step("mileage_record", async () => {
+          if (
+            mileageRecord &&
+            this.readingsChanged(payload, mileageRecord)
+          ) {
+            // Las lecturas no coinciden con el registro existente
+            await mileageRecordService.update({
+              id: mileageRecord.id,
+              user_id: payload.user_id,
+              kilometers: payload.mileage ?? undefined,
+              hours: payload.hours ?? undefined,
+            });
+            mileageRecord = {
+              ...mileageRecord,
+              kilometers: payload.mileage ?? mileageRecord.kilometers,
+              hours: payload.hours ?? mileageRecord.hours,
+            };
+          } else if (this.hasReadings(payload) && !mileageRecord) {
+            // Lecturas sin registro existente: se crea uno nuevo
+            const created = await mileageRecordService.create({
+              equipment_id: payload.equipment_id,
+              record_date: new Date(payload.start_datetime),
+              kilometers: payload.mileage ?? undefined,
+              hours: payload.hours ?? undefined,
+              user_id: payload.user_id,
+            });
+
+            if (!created) {
+              throw new Error("Failed to create mileage record");
+            }
+
+            mileageRecord = {
+              id: created.id,
+              record_date: payload.start_datetime,
+              kilometers: payload.mileage ?? undefined,
+              hours: payload.hours ?? undefined,
+            };
+          }
+
+          if (!mileageRecord) {
+            throw new MaintenanceRecordError(
+              MaintenanceRecordErrorCodes.MILEAGE_RECORD_NOT_FOUND,
+              "A mileage record or mileage value is required"
+            );
+          }
+        });
+
+        const result = await unitOfWork.step("maintenance_record", async () => {
+          const created = await this.create({
+            equipment_id: payload.equipment_id,
+            maintenance_type_id: payload.maintenance_type_id,
+            mileage_record_id: mileageRecord!.id,
+            start_datetime: new Date(payload.start_datetime),
+            end_datetime: payload.end_datetime
+              ? new Date(payload.end_datetime)
+              : undefined,
+            observations: payload.observations,
+            status: payload.status,
+            external_service_cost: payload.external_service_cost,
+            tax_rate: payload.tax_rate,
+            user_id: payload.user_id,
+          });
+
+          if (!created) {
+            throw new Error("Failed to create maintenance record");
+          }
+
+          return created;
+        });
+
+        const record: MaintenanceRecordWithDetails = {
+          id: result.id,
+          equipment_id: payload.equipment_id,
+          maintenance_type_id: payload.maintenance_type_id,
+          mileage_record_id: mileageRecord!.id,
+          start_datetime: new Date(payload.start_datetime),
+          end_datetime: payload.end_datetime
+            ? new Date(payload.end_datetime)
+            : undefined,
+          observations: payload.observations,
+          status: payload.status ?? "in_progress",
+          status_changed_at: result.created_at,
+          status_changed_by: payload.user_id,
+          external_service_cost: payload.external_service_cost ?? 0,
+          tax_rate: payload.tax_rate ?? 0,
+          created_at: result.created_at,
+          updated_at: result.created_at,
+          user_id: payload.user_id,
+          mileage_info: {
+            id: mileageRecord!.id,
+            record_date: new Date(mileageRecord!.record_date),
+            kilometers: mileageRecord!.kilometers,
+            hours: mileageRecord!.hours,
+          },
+        };
+
+        const spareParts = payload.spare_parts || [];
+        if (spareParts.length > 0) {
+          const sparePartsResult = await unitOfWork.step("spare_parts", () =>
+            maintenanceSparePartService.bulkUpdate({
+              maintenance_record_id: result.id,
+              spare_parts: spareParts,
+              user_id: payload.user_id,
+            })
+          );
+
+          record.spare_parts = sparePartsResult.processed_spare_parts.map(
+            (sp, index) => ({
+              id: sp.id,
+              maintenance_record_id: sparePartsResult.maintenance_record_id,
+              spare_part_id: spareParts[index].spare_part_id,
+              quantity: spareParts[index].quantity,
+              unit_price: spareParts[index].unit_price,
+              warehouse_id: spareParts[index].warehouse_id,
+              created_at: sp.created_at,
+              spare_part: spareParts[index] as unknown as SparePartBase,
+            })
+          );
+        }
+
+        // Sin actividades explícitas se precarga la lista por defecto de la
+        // etapa o del tipo de mantenimiento
+        const activities =
+          payload.activities ??
+          (await unitOfWork.step("activities", () =>
+            activityChecklistService.getDefaultActivities(
+              payload.equipment_id,
+              payload.maintenance_type_id,
+              payload.user_id
+            )
+          ));
+        if (activities.length > 0) {
+          const activitiesResult = await unitOfWork.step("activities", () =>
+            maintenanceActivityService.bulkCreate({
+              maintenance_record_id: result.id,
+              activities,
+              user_id: payload.user_id,
+            })
+          );
+
+          record.activities = activitiesResult.created_activities.map(
+            (act, index) => ({
+              id: act.id,
+              maintenance_record_id: activitiesResult.maintenance_record_id,
+              activity_id: activities[index].activity_id,
+              status: activities[index].status || "pending",
+              priority: activities[index].priority || "no",
+              mandatory: activities[index].mandatory ?? false,
+              observations: activities[index].observations,
+              created_at: act.created_at,
+              updated_at: act.created_at,
+              activity: activities[index] as unknown as ActivityBase,
+            })
+          );
+        }
+
+        return record;
+      });
+    } catch (error) {
+      console.error(
+        "Error al crear el registro de mantenimiento con detalles:",
+        error
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Actualizar un registro de mantenimiento con su kilometraje, repuestos y
+   * actividades en una sola transacción
+   * @param payload - Datos actualizados del registro y de sus elementos
+   * @returns El registro actualizado con sus detalles
+   */
+  async updateWithDetails(
+    payload: MaintenanceRecordUpdateWithDetails
+  ): Promise<MaintenanceRecordWithDetails> {
+    try {
+      return await unitOfWork.run(async () => {
+        // El estado solo cambia con changeStatus
+        const existing = await this.getExisting(payload.id, payload.user_id);
+        this.assertEditable(existing);
+
+        const mileageRecord = payload.mileage_record;
+        let mileageRecordId = payload.mileage_record_id;
+
+        await unitOfWork.step("mileage_record", async () => {
+          const sameDate =
+            mileageRecord &&
+            payload.start_datetime.split("T")[0] ===
+              String(mileageRecord.record_date).split("T")[0];
+
+          if (
+            mileageRecord &&
+            this.readingsChanged(payload, mileageRecord) &&
+            sameDate
+          ) {
+            await mileageRecordService.update({
+              id: mileageRecord.id,
+              user_id: payload.user_id,
+              kilometers: payload.mileage ?? undefined,
+              hours: payload.hours ?? undefined,
+            });
+          } else if (
+            this.hasReadings(payload) &&
+            (!mileageRecord || !sameDate)
+          ) {
+            // Lecturas sin registro para la fecha: se crea uno nuevo
+            const created = await mileageRecordService.create({
+              equipment_id: payload.equipment_id,
+              record_date: new Date(payload.start_datetime),
+              kilometers: payload.mileage ?? undefined,
+              hours: payload.hours ?? undefined,
+              user_id: payload.user_id,
+            });
+
+            if (!created) {
+              throw new Error("Failed to create mileage record");
+            }
+
+            mileageRecordId = created.id;
+          }
+        });
+
+        const result = await unitOfWork.step("maintenance_record", async () => {
+          const updated = await this.update({
+            id: payload.id,
+            equipment_id: payload.equipment_id,
+            start_datetime: payload.start_datetime,
+            end_datetime: payload.end_datetime,
+            maintenance_type_id: payload.maintenance_type_id,
+            observations: payload.observations,
+            mileage_record_id: mileageRecordId,
+            external_service_cost: payload.external_service_cost,
+            tax_rate: payload.tax_rate,
+          });
+
+          if (!updated) {
+            throw new Error("Failed to update maintenance record");
+          }
+
+          return updated;
+        });
+
+        const record: MaintenanceRecordWithDetails = {
+          id: result.id,
+          equipment_id: payload.equipment_id,
+          maintenance_type_id: payload.maintenance_type_id,
+          mileage_record_id: mileageRecordId || "",
+          start_datetime: new Date(payload.start_datetime),
+          end_datetime: payload.end_datetime
+            ? new Date(payload.end_datetime)
+            : undefined,
+          observations: payload.observations,
+          status: existing.status,
+          status_changed_at: existing.status_changed_at,
+          status_changed_by: existing.status_changed_by,
+          external_service_cost:
+            payload.external_service_cost ?? existing.external_service_cost,
+          tax_rate: payload.tax_rate ?? existing.tax_rate,
+          created_at: payload.created_at || new Date(),
+          updated_at: payload.updated_at,
+          user_id: payload.user_id,
+          mileage_info: {
+            id: mileageRecordId || "",
+            record_date: new Date(payload.start_datetime),
+            kilometers: payload.mileage ?? undefined,
+            hours: payload.hours ?? undefined,
+          },
+        };
+
+        const activities = payload.activities;
+        if (activities && payload.original_activities) {
+          const activitiesResult = await unitOfWork.step("activities", () =>
+            maintenanceActivityService.bulkUpdate({
+              maintenance_record_id: payload.id,
+              activities,
+              user_id: payload.user_id,
+            })
+          );
+
+          record.activities = activitiesResult.processed_activities.map(
+            (act, index) => ({
+              id: act.id,
+              maintenance_record_id: activitiesResult.maintenance_record_id,
+              activity_id: activities[index].activity_id,
+              status: activities[index].status || "pending",
+              priority: activities[index].priority || "no",
+              mandatory: activities[index].mandatory ?? false,
+              observations: activities[index].observations,
+              created_at: new Date(),
+              activity: activities[index] as unknown as ActivityBase,
+            })
+          );
+        }
+
+        const spareParts = payload.spare_parts;
+        const originalSpareParts = payload.original_spare_parts;
+        if (spareParts && originalSpareParts) {
+          await unitOfWork.step("spare_parts", async () => {
+            const sparePartsToDelete = originalSpareParts.filter(
+              (sp) =>
+                !spareParts.some(
+                  (newSp) => newSp.spare_part_id === sp.spare_part_id
+                )
+            );
+
+            for (const sparePart of sparePartsToDelete) {
+              await maintenanceSparePartService.delete(
+                sparePart.id,
+                payload.user_id
+              );
+            }
+
+            if (spareParts.length === 0) {
+              return;
+            }
+
+            const sparePartsResult = await maintenanceSparePartService.bulkUpdate(
+              {
+                maintenance_record_id: payload.id,
+                spare_parts: spareParts,
+                user_id: payload.user_id,
+              }
+            );
+
+            record.spare_parts = sparePartsResult.processed_spare_parts.map(
+              (sp, index) => ({
+                id: sp.id,
+                maintenance_record_id: sparePartsResult.maintenance_record_id,
+                spare_part_id: spareParts[index].spare_part_id,
+                quantity: spareParts[index].quantity,
+                unit_price: spareParts[index].unit_price,
+                warehouse_id: spareParts[index].warehouse_id,
+                created_at: sp.created_at,
+                spare_part: spareParts[index] as unknown as SparePartBase,
+              })
+            );
+          });
+        }
+
+        return record;
+      });
+    } catch (error) {
+      console.error(
+        "Error al actualizar el registro de mantenimiento con detalles:",
+        error
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Cambiar el estado de la orden de trabajo
+   * No se completa mientras tenga actividades obligatorias pendientes; al
+   * completarla sin fecha de fin se toma la fecha actual
+   * @param id - ID del registro
+   * @param status - Nuevo estado
+   * @param userId - ID del usuario
+   * @param reason - Motivo del cambio (opcional)
+   * @returns El ID, estado y fecha del cambio
+   */
+  async changeStatus(
+    id: string,
+    status: MaintenanceRecordStatus,
+    userId: string,
+    reason?: string
+  ): Promise<{
+    id: string;
+    status: MaintenanceRecordStatus;
+    status_changed_at: Date;
+  }> {
+    try {
+      return await unitOfWork.run(async () => {
+        const record = await this.getExisting(id, userId);
+        if (!recordStatusTransitions[record.status].includes(status)) {
+          throw new MaintenanceRecordError(
+            MaintenanceRecordErrorCodes.INVALID_STATUS_TRANSITION,
+            `No se puede pasar el registro de "${record.status}" a "${status}"`,
+            {
+              from: record.status,
+              to: status,
+              allowed: recordStatusTransitions[record.status],
+            }
+          );
+        }
+
+        if (status === "completed") {
+          const activities =
+            await maintenanceActivityService.getByMaintenanceRecordWithDetails(
+              id,
+              userId
+            );
+          const pending = activities.filter(
+            (activity) => activity.mandatory && activity.status === "pending"
+          );
+          if (pending.length > 0) {
+            throw new MaintenanceRecordError(
+              MaintenanceRecordErrorCodes.PENDING_MANDATORY_ACTIVITIES,
+              `No se puede completar el registro: ${pending.length} actividades obligatorias pendientes`,
+              {
+                activities: pending.map((activity) => ({
+                  id: activity.id,
+                  activity_id: activity.activity_id,
+                  name: activity.activity?.name,
+                })),
+              }
+            );
+          }
+
+          const now = new Date();
+          if (!record.end_datetime && now > record.start_datetime) {
+            await this.repository.update({ id, end_datetime: now });
+          }
+        }
+
+        return await this.repository.setStatus(
+          id,
+          status,
+          userId,
+          reason?.trim() || undefined
+        );
+      });
+    } catch (error) {
+      console.error(
+        "Error al cambiar el estado del registro de mantenimiento:",
+        error
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Obtener el historial de estados de un registro de mantenimiento
+   * @param id - ID del registro
+   * @param userId - ID del usuario
+   * @returns Cambios de estado, del más antiguo al más reciente
+   */
+  async getStatusChanges(
+    id: string,
+    userId: string
+  ): Promise<MaintenanceRecordStatusChange[]> {
+    try {
+      await this.getExisting(id, userId);
+      const changes = await this.repository.getStatusChanges(id, userId);
+      return changes.sort(
+        (a, b) => a.changed_at.getTime() - b.changed_at.getTime()
+      );
+    } catch (error) {
+      console.error("Error al obtener el historial de estados:", error);
+      throw error;
+    }
+  }
+
   /**
    * Eliminar un registro de mantenimiento
+   * Un registro cerrado o cancelado no se puede eliminar. Los repuestos del
+   * registro se devuelven al inventario en la misma
+   * transacción; los archivos adjuntos se borran una vez confirmada
    * @param id - ID del registro a eliminar
+   * @param userId - ID del usuario
    * @returns El ID del registro eliminado
    */
-  async delete(id: string): Promise<{ id: string } | null> {
+  async delete(id: string, userId: string): Promise<{ id: string } | null> {
     try {
-      // Validar que el registro existe antes de eliminar
-      const existingRecord = await this.repository.getById(id);
-      if (!existingRecord) {
-        throw new MaintenanceRecordError(
-          MaintenanceRecordErrorCodes.NOT_FOUND,
-          `Maintenance record with ID ${id} not found`
-        );
-      }
+      const { deleted, attachments } = await unitOfWork.run(async () => {
+        const existing = await this.getExisting(id, userId);
+        this.assertEditable(existing);
+
+        const spareParts =
+          await maintenanceSparePartService.getByMaintenanceRecordWithDetails(
+            id,
+            userId
+          );
+        for (const sparePart of spareParts) {
+          await maintenanceSparePartService.delete(sparePart.id, userId);
+        }
+
+        // Los adjuntos se eliminan en cascada con el registro
+        const attachments =
+          await maintenanceAttachmentService.getByMaintenanceRecord(
+            id,
+            userId
+          );
+        const deleted = await this.repository.delete({ id });
+        return { deleted, attachments };
+      });
 
-      return await this.repository.delete({ id });
+      await maintenanceAttachmentService.removeFiles(attachments);
+      return deleted;
     } catch (error) {
       console.error("Error al eliminar el registro de mantenimiento:", error);
       throw error;
     }
   }
 
+  /**
+   * Obtener un registro del usuario o fallar si no existe
+   */
+  private async getExisting(
+    id: string,
+    userId: string
+  ): Promise<MaintenanceRecordBase> {
+    const record = await this.repository.getById(id);
+    if (!record || record.user_id !== userId) {
+      throw new MaintenanceRecordError(
+        MaintenanceRecordErrorCodes.NOT_FOUND,
+        `Maintenance record with ID ${id} not found`
+      );
+    }
+    return record;
+  }
+
+  /**
+   * Validar el costo de servicios externos y el porcentaje de impuesto
+   */
+  private validateCosts(costs: {
+    external_service_cost?: number;
+    tax_rate?: number;
+  }): void {
+    const { external_service_cost, tax_rate } = costs;
+    if (
+      external_service_cost !== undefined &&
+      (!Number.isFinite(external_service_cost) || external_service_cost < 0)
+    ) {
+      throw new MaintenanceRecordError(
+        MaintenanceRecordErrorCodes.INVALID_COST,
+        "El costo de servicios externos debe ser mayor o igual a 0",
+        { external_service_cost }
+      );
+    }
+    if (
+      tax_rate !== undefined &&
+      (!Number.isFinite(tax_rate) || tax_rate < 0 || tax_rate > 100)
+    ) {
+      throw new MaintenanceRecordError(
+        MaintenanceRecordErrorCodes.INVALID_COST,
+        "El impuesto debe estar entre 0 y 100%",
+        { tax_rate }
+      );
+    }
+  }
+
+  /**
+   * Verificar que el registro no esté cerrado ni anulado
+   */
+  private assertEditable(record: MaintenanceRecordBase): void {
+    if (lockedRecordStatuses.includes(record.status)) {
+      throw new MaintenanceRecordError(
+        MaintenanceRecordErrorCodes.NOT_EDITABLE,
+        `No se puede modificar un registro en estado "${record.status}"`,
+        { status: record.status }
+      );
+    }
+  }
+
+  /**
+   * Verificar si el formulario trae alguna lectura (km u horas)
+   */
+  private hasReadings(
+    payload: Pick<MaintenanceRecordCreateWithDetails, "mileage" | "hours">
+  ): boolean {
+    return (
+      (payload.mileage !== undefined && payload.mileage !== null) ||
+      (payload.hours !== undefined && payload.hours !== null)
+    );
+  }
+
+  /**
+   * Verificar si las lecturas del formulario difieren del registro existente
+   */
+  private readingsChanged(
+    payload: Pick<MaintenanceRecordCreateWithDetails, "mileage" | "hours">,
+    mileageRecord: NonNullable<MaintenanceRecordCreateWithDetails["mileage_record"]>
+  ): boolean {
+    return (
+      (!!payload.mileage && payload.mileage !== mileageRecord.kilometers) ||
+      (payload.hours !== undefined &&
+        payload.hours !== null &&
+        payload.hours !== mileageRecord.hours)
+    );
+  }
+
   /**
    * Verificar si existe un registro de mantenimiento
    * @param id - ID del registro
@@ -3,6 +3,10 @@ import {
   MaintenanceSparePartError,
   MaintenanceSparePartErrorCodes,
 } from "../repositories/maintenance-spare-part-repository";
+import { sparePartRepository } from "../repositories/spare-part-repository";
+import { unitOfWork } from "../repositories/unit-of-work";
+import { inventoryService } from "./inventory-service";
+import { warehouseService } from "./warehouse-service";
 import {
   MaintenanceSparePartBase,
   MaintenanceSparePartWithDetails,
@@ -15,6 +19,10 @@ import {
 /**
  * Servicio para gestionar repuestos en registros de mantenimiento
  * Proporciona lógica de negocio y validaciones adicionales
+ * Cada cambio de cantidad registra el consumo o la devolución en el inventario
+ * dentro de la misma transacción
+ * Las líneas nuevas guardan el precio vigente del repuesto si no se indica uno,
+ * para que el costo histórico no siga al precio del catálogo
  */
 class MaintenanceSparePartService {
   private repository = maintenanceSparePartRepository;
@@ -33,7 +41,32 @@ class MaintenanceSparePartService {
       // Validaciones de negocio adicionales
       await this.validateBusinessRules(maintenanceSparePart);
 
-      return await this.repository.create(maintenanceSparePart);
+      return await unitOfWork.run(async () => {
+        const warehouseId = await warehouseService.resolveId(
+          maintenanceSparePart.warehouse_id,
+          maintenanceSparePart.user_id
+        );
+        const unitPrice = await this.resolveUnitPrice(
+          maintenanceSparePart.spare_part_id,
+          maintenanceSparePart.unit_price
+        );
+        const result = await this.repository.create({
+          ...maintenanceSparePart,
+          unit_price: unitPrice,
+          warehouse_id: warehouseId,
+        });
+        await inventoryService.syncMaintenanceConsumption({
+          maintenance_record_id: maintenanceSparePart.maintenance_record_id,
+          maintenance_spare_part_id: result.id,
+          spare_part_id: maintenanceSparePart.spare_part_id,
+          warehouse_id: warehouseId,
+          previous_quantity: 0,
+          quantity: maintenanceSparePart.quantity,
+          unit_price: unitPrice,
+          user_id: maintenanceSparePart.user_id,
+        });
+        return result;
+      });
     } catch (error) {
       console.error("Error al crear el repuesto de mantenimiento:", error);
       throw error;
@@ -78,6 +111,40 @@ class MaintenanceSparePartService {
     }
   }
 
+  /**
+   * Obtener los repuestos con detalles de varios registros de mantenimiento
+   * @param maintenanceRecordIds - IDs de los registros de mantenimiento
+   * @param userId - ID del usuario
+   * @returns Los repuestos agrupados por registro (lista vacía si no tiene)
+   */
+  async getByMaintenanceRecordsWithDetails(
+    maintenanceRecordIds: string[],
+    userId: string
+  ): Promise<Map<string, MaintenanceSparePartWithDetails[]>> {
+    try {
+      const byRecord = new Map<string, MaintenanceSparePartWithDetails[]>(
+        maintenanceRecordIds.map((id) => [id, []])
+      );
+      if (maintenanceRecordIds.length === 0) return byRecord;
+
+      const spareParts =
+        await this.repository.getByMaintenanceRecordsWithDetails(
+          maintenanceRecordIds,
+          userId
+        );
+      for (const item of spareParts) {
+        byRecord.get(item.maintenance_record_id)?.push(item);
+      }
+      return byRecord;
+    } catch (error) {
+      console.error(
+        "Error al obtener los repuestos de los registros:",
+        error
+      );
+      throw error;
+    }
+  }
+
   /**
    * Obtener todos los registros de repuestos de mantenimiento de un usuario
    * @param limit - Límite de registros por página
@@ -124,7 +191,28 @@ class MaintenanceSparePartService {
       // Validaciones de negocio para actualizaciones
       await this.validateUpdateBusinessRules(maintenanceSparePart);
 
-      return await this.repository.update(maintenanceSparePart);
+      return await unitOfWork.run(async () => {
+        const result = await this.repository.update(maintenanceSparePart);
+        if (
+          maintenanceSparePart.quantity !== undefined ||
+          maintenanceSparePart.warehouse_id !== undefined
+        ) {
+          await inventoryService.syncMaintenanceConsumption({
+            maintenance_record_id: existingRecord.maintenance_record_id,
+            maintenance_spare_part_id: existingRecord.id,
+            spare_part_id: existingRecord.spare_part_id,
+            previous_warehouse_id: existingRecord.warehouse_id,
+            warehouse_id:
+              maintenanceSparePart.warehouse_id ?? existingRecord.warehouse_id,
+            previous_quantity: existingRecord.quantity,
+            quantity: maintenanceSparePart.quantity ?? existingRecord.quantity,
+            unit_price:
+              maintenanceSparePart.unit_price ?? existingRecord.unit_price,
+            user_id: maintenanceSparePart.user_id,
+          });
+        }
+        return result;
+      });
     } catch (error) {
       console.error("Error al actualizar el repuesto de mantenimiento:", error);
       throw error;
@@ -148,7 +236,20 @@ class MaintenanceSparePartService {
         );
       }
 
-      return await this.repository.delete({ id, user_id: userId });
+      return await unitOfWork.run(async () => {
+        const result = await this.repository.delete({ id, user_id: userId });
+        await inventoryService.syncMaintenanceConsumption({
+          maintenance_record_id: existingRecord.maintenance_record_id,
+          maintenance_spare_part_id: existingRecord.id,
+          spare_part_id: existingRecord.spare_part_id,
+          previous_warehouse_id: existingRecord.warehouse_id,
+          previous_quantity: existingRecord.quantity,
+          quantity: 0,
+          unit_price: existingRecord.unit_price,
+          user_id: userId,
+        });
+        return result;
+      });
     } catch (error) {
       console.error("Error al eliminar el repuesto de mantenimiento:", error);
       throw error;
@@ -168,7 +269,58 @@ class MaintenanceSparePartService {
       // Validaciones de negocio para actualización masiva
       await this.validateBulkUpdateBusinessRules(bulkUpdate);
 
-      return await this.repository.bulkUpdate(bulkUpdate);
+      return await unitOfWork.run(async () => {
+        // Cantidades previas para registrar solo la diferencia en el stock
+        const existing =
+          await this.repository.getByMaintenanceRecordWithDetails(
+            bulkUpdate.maintenance_record_id,
+            bulkUpdate.user_id
+          );
+
+        // Sin ubicación se mantiene la anterior o se usa la predeterminada
+        // Sin precio se mantiene el registrado o se toma el vigente
+        const spareParts = [];
+        for (const sparePart of bulkUpdate.spare_parts) {
+          const previous = existing.find(
+            (sp) => sp.spare_part_id === sparePart.spare_part_id
+          );
+          spareParts.push({
+            ...sparePart,
+            unit_price: await this.resolveUnitPrice(
+              sparePart.spare_part_id,
+              sparePart.unit_price ?? previous?.unit_price
+            ),
+            warehouse_id: await warehouseService.resolveId(
+              sparePart.warehouse_id ?? previous?.warehouse_id,
+              bulkUpdate.user_id
+            ),
+          });
+        }
+
+        const result = await this.repository.bulkUpdate({
+          ...bulkUpdate,
+          spare_parts: spareParts,
+        });
+
+        for (let index = 0; index < spareParts.length; index++) {
+          const sparePart = spareParts[index];
+          const previous = existing.find(
+            (sp) => sp.spare_part_id === sparePart.spare_part_id
+          );
+          await inventoryService.syncMaintenanceConsumption({
+            maintenance_record_id: bulkUpdate.maintenance_record_id,
+            maintenance_spare_part_id: result.processed_spare_parts[index].id,
+            spare_part_id: sparePart.spare_part_id,
+            previous_warehouse_id: previous?.warehouse_id,
+            warehouse_id: sparePart.warehouse_id,
+            previous_quantity: previous?.quantity ?? 0,
+            quantity: sparePart.quantity,
+            unit_price: sparePart.unit_price,
+            user_id: bulkUpdate.user_id,
+          });
+        }
+        return result;
+      });
     } catch (error) {
       console.error("Error en actualización masiva de repuestos:", error);
       throw error;
@@ -190,6 +342,31 @@ class MaintenanceSparePartService {
     }
   }
 
+  /**
+   * Precio unitario efectivo de una línea: el indicado o el vigente del
+   * repuesto al momento de registrarla
+   * @param sparePartId - ID del repuesto
+   * @param unitPrice - Precio indicado en la línea
+   * @returns El precio unitario a guardar en la línea
+   */
+  private async resolveUnitPrice(
+    sparePartId: string,
+    unitPrice?: number
+  ): Promise<number> {
+    if (unitPrice !== undefined && unitPrice !== null) {
+      return unitPrice;
+    }
+
+    const sparePart = await sparePartRepository.getById(sparePartId);
+    if (!sparePart) {
+      throw new MaintenanceSparePartError(
+        MaintenanceSparePartErrorCodes.SPARE_PART_NOT_FOUND,
+        "Spare part not found or access denied"
+      );
+    }
+    return sparePart.price;
+  }
+
   /**
    * Validaciones de reglas de negocio para creación
    * @param maintenanceSparePart - Datos del repuesto a validar
@@ -1,7 +1,16 @@
-import { maintenanceStageRepository } from "../repositories/maintenance-stage-repository";
+import {
+  maintenanceStageRepository,
+  MaintenanceStageError,
+} from "../repositories/maintenance-stage-repository";
+import { maintenancePlanRepository } from "../repositories/maintenance-plan-repository";
+import { unitOfWork } from "../repositories/unit-of-work";
+import { maintenancePlanVersionService } from "./maintenance-plan-version-service";
+import { MaintenanceStageErrorCodes } from "@/lib/errors";
+import { MaintenancePlanBase } from "@/types/maintenance-plan";
 import {
   MaintenanceStageBase,
   MaintenanceStageCreate,
+  MaintenanceStagePlanChange,
   MaintenanceStageUpdate,
   MultiMaintenanceStage,
 } from "@/types/maintenance-stage";
@@ -46,6 +55,10 @@ class MaintenanceStageService {
         throw new Error("Los días de la etapa no pueden ser negativos");
       }
 
+      if (stage.hours !== undefined && stage.hours !== null && stage.hours < 0) {
+        throw new Error("Las horas de la etapa no pueden ser negativas");
+      }
+
       const stageData: MaintenanceStageCreate = {
         ...stage,
         maintenance_type_id: stage.maintenance_type_id.trim(),
@@ -53,6 +66,10 @@ class MaintenanceStageService {
         user_id: stage.user_id.trim(),
         kilometers: Math.round(stage.kilometers * 100) / 100, // Redondear a 2 decimales
         days: Math.round(stage.days * 100) / 100, // Redondear a 2 decimales
+        hours:
+          stage.hours !== undefined && stage.hours !== null
+            ? Math.round(stage.hours * 100) / 100
+            : undefined,
       };
 
       return await this.repository.create(stageData);
@@ -146,6 +163,9 @@ class MaintenanceStageService {
       if (stage.days !== undefined && stage.days < 0) {
         throw new Error("Los días de la etapa no pueden ser negativos");
       }
+      if (stage.hours !== undefined && stage.hours !== null && stage.hours < 0) {
+        throw new Error("Las horas de la etapa no pueden ser negativas");
+      }
 
       // Sanitizar datos
       const updateData: MaintenanceStageUpdate = {
@@ -160,6 +180,10 @@ class MaintenanceStageService {
           stage.days !== undefined
             ? Math.round(stage.days * 100) / 100
             : undefined,
+        hours:
+          stage.hours !== undefined && stage.hours !== null
+            ? Math.round(stage.hours * 100) / 100
+            : undefined,
       };
 
       return await this.repository.update(updateData, userId);
@@ -193,35 +217,333 @@ class MaintenanceStageService {
     }
   }
 
+  /**
+   * Reordenar las etapas de un plan de forma atómica
+   * La lista debe contener exactamente las etapas del plan. Si se indica la
+   * versión con la que el cliente cargó el plan y el plan cambió desde
+   * entonces, la operación se rechaza. El plan queda bloqueado desde la
+   * verificación de la versión hasta la publicación de la nueva versión
+   * @param planId - ID del plan
+   * @param stageIds - IDs de las etapas en el nuevo orden
+   * @param userId - ID del usuario
+   * @param expectedVersion - Versión del plan que conoce el cliente
+   * @returns Etapas con su nuevo índice y la versión publicada del plan
+   */
+  async reorder(
+    planId: string,
+    stageIds: string[],
+    userId: string,
+    expectedVersion?: number
+  ): Promise<{
+    stages: { id: string; stage_index: number }[];
+    plan_version: number;
+  }> {
+    try {
+      return await unitOfWork.run(async () => {
+        const plan = await this.lockPlan(planId, userId);
+        this.assertVersion(plan, expectedVersion);
+
+        const stages = await this.reorderInPlan(planId, stageIds, userId);
+        const version = await maintenancePlanVersionService.publish(
+          planId,
+          userId
+        );
+
+        return { stages, plan_version: version.version_number };
+      });
+    } catch (error) {
+      console.error("Error en MaintenanceStageService.reorder:", error);
+      throw error;
+    }
+  }
+
   /**
    * Reordenar etapas manualmente
-   * @param maintenanceTypeId - ID del tipo de mantenimiento
    * @param userId - ID del usuario
    * @param newOrder - Array con el nuevo orden de IDs de etapas
    * @returns Número de etapas reordenadas
    */
   async reorderStages(userId: string, newOrder: string[]): Promise<number> {
     try {
-      let reorderedCount = 0;
-
-      // Actualizar cada etapa con su nuevo índice
-      for (let i = 0; i < newOrder.length; i++) {
-        const stageId = newOrder[i];
-        const newIndex = i + 1; // Los índices empiezan en 1
+      if (newOrder.length === 0) return 0;
 
-        await this.repository.update(
-          { id: stageId, stage_index: newIndex },
-          userId
+      const first = await this.getById(newOrder[0], userId);
+      if (!first) {
+        throw new MaintenanceStageError(
+          MaintenanceStageErrorCodes.NOT_FOUND,
+          "Etapa de mantenimiento no encontrada"
         );
-        reorderedCount++;
       }
 
-      return reorderedCount;
+      const reordered = await this.reorder(
+        first.maintenance_plan_id,
+        newOrder,
+        userId
+      );
+      return reordered.stages.length;
     } catch (error) {
       console.error("Error al reordenar etapas:", error);
       throw error;
     }
   }
+
+  /**
+   * Agregar una etapa a un plan en una sola transacción: crea la etapa,
+   * reordena las etapas del plan por kilómetros y días y publica una nueva
+   * versión del plan
+   * @param stage - Datos de la etapa
+   * @param expectedVersion - Versión del plan que conoce el cliente
+   * @returns La etapa creada, su posición, el orden resultante y la versión
+   */
+  async createInPlan(
+    stage: MaintenanceStageCreate,
+    expectedVersion?: number
+  ): Promise<MaintenanceStagePlanChange> {
+    try {
+      return await unitOfWork.run(async () => {
+        const planId = stage.maintenance_plan_id?.trim();
+        const plan = await this.lockPlan(planId, stage.user_id);
+        this.assertVersion(plan, expectedVersion);
+
+        const created = await this.create(stage);
+        const sortedIds = await this.applyIntervalOrder(planId, stage.user_id);
+
+        const version = await maintenancePlanVersionService.publish(
+          planId,
+          stage.user_id
+        );
+
+        return {
+          ...created,
+          stage_index: sortedIds.indexOf(created.id) + 1,
+          sorted_stages: sortedIds,
+          plan_version: version.version_number,
+        };
+      });
+    } catch (error) {
+      console.error("Error en MaintenanceStageService.createInPlan:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Modificar una etapa en una sola transacción: actualiza la etapa,
+   * reordena las etapas del plan por kilómetros y días y publica una nueva
+   * versión del plan
+   * @param stage - Datos a actualizar
+   * @param userId - ID del usuario
+   * @param expectedVersion - Versión del plan que conoce el cliente
+   * @returns La etapa, su posición, el orden resultante y la versión
+   */
+  async updateInPlan(
+    stage: MaintenanceStageUpdate,
+    userId: string,
+    expectedVersion?: number
+  ): Promise<MaintenanceStagePlanChange> {
+    try {
+      return await unitOfWork.run(async () => {
+        const existing = await this.getExisting(stage.id, userId);
+        const planId =
+          stage.maintenance_plan_id || existing.maintenance_plan_id;
+        const plan = await this.lockPlan(planId, userId);
+        this.assertVersion(plan, expectedVersion);
+
+        await this.update(stage, userId);
+        const sortedIds = await this.applyIntervalOrder(planId, userId);
+
+        const version = await maintenancePlanVersionService.publish(
+          planId,
+          userId
+        );
+
+        return {
+          id: stage.id,
+          stage_index: sortedIds.indexOf(stage.id) + 1,
+          sorted_stages: sortedIds,
+          plan_version: version.version_number,
+        };
+      });
+    } catch (error) {
+      console.error("Error en MaintenanceStageService.updateInPlan:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Eliminar una etapa y publicar la nueva versión del plan en una sola
+   * transacción
+   * @param id - ID de la etapa
+   * @param userId - ID del usuario
+   * @returns El ID de la etapa y la versión publicada del plan
+   */
+  async deleteFromPlan(
+    id: string,
+    userId: string
+  ): Promise<MaintenanceStagePlanChange> {
+    try {
+      return await unitOfWork.run(async () => {
+        const existing = await this.getExisting(id, userId);
+        await this.lockPlan(existing.maintenance_plan_id, userId);
+
+        await this.delete(id, userId);
+        const version = await maintenancePlanVersionService.publish(
+          existing.maintenance_plan_id,
+          userId
+        );
+
+        return { id, plan_version: version.version_number };
+      });
+    } catch (error) {
+      console.error("Error en MaintenanceStageService.deleteFromPlan:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Obtener una etapa del usuario o lanzar un error si no existe
+   */
+  private async getExisting(
+    id: string,
+    userId: string
+  ): Promise<MaintenanceStageBase> {
+    const stage = await this.getById(id, userId);
+    if (!stage) {
+      throw new MaintenanceStageError(
+        MaintenanceStageErrorCodes.NOT_FOUND,
+        "Etapa de mantenimiento no encontrada o no tiene permisos para modificarla"
+      );
+    }
+    return stage;
+  }
+
+  /**
+   * Bloquear el plan hasta el final de la transacción actual
+   * Serializa los cambios de etapas y la publicación de versiones del plan
+   */
+  private async lockPlan(
+    planId: string,
+    userId: string
+  ): Promise<MaintenancePlanBase> {
+    const plan = await maintenancePlanRepository.lock(planId, userId);
+    if (!plan || plan.user_id !== userId) {
+      throw new MaintenanceStageError(
+        MaintenanceStageErrorCodes.PLAN_NOT_FOUND,
+        "Plan de mantenimiento no encontrado o no tiene permisos para modificarlo"
+      );
+    }
+    return plan;
+  }
+
+  /**
+   * Rechazar el cambio si el plan cambió desde la versión que conoce el
+   * cliente
+   */
+  private assertVersion(
+    plan: MaintenancePlanBase,
+    expectedVersion?: number
+  ): void {
+    if (
+      expectedVersion !== undefined &&
+      plan.current_version !== undefined &&
+      plan.current_version !== expectedVersion
+    ) {
+      throw new MaintenanceStageError(
+        MaintenanceStageErrorCodes.CONCURRENT_MODIFICATION,
+        "El plan fue modificado por otro usuario. Recarga la página e intenta de nuevo",
+        {
+          expected_version: expectedVersion,
+          current_version: plan.current_version,
+        }
+      );
+    }
+  }
+
+  /**
+   * Ordenar las etapas guardadas del plan por kilómetros y, a igual
+   * kilometraje, por días; si el orden cambia, se reordenan en el plan
+   * Debe ejecutarse dentro de una transacción con el plan bloqueado
+   * @returns IDs de las etapas en el nuevo orden
+   */
+  private async applyIntervalOrder(
+    planId: string,
+    userId: string
+  ): Promise<string[]> {
+    const stages = await this.getPlanStages(planId, userId);
+    const sortedIds = [...stages]
+      .sort(
+        (a, b) =>
+          a.kilometers - b.kilometers ||
+          a.days - b.days ||
+          a.stage_index - b.stage_index
+      )
+      .map((stage) => stage.id);
+
+    await this.reorderInPlan(planId, sortedIds, userId, stages);
+    return sortedIds;
+  }
+
+  /**
+   * Asignar a las etapas del plan el índice según su posición en la lista
+   * Debe ejecutarse dentro de una transacción con el plan bloqueado
+   * @param stages - Etapas guardadas del plan, si ya se cargaron
+   */
+  private async reorderInPlan(
+    planId: string,
+    stageIds: string[],
+    userId: string,
+    stages?: MaintenanceStageBase[]
+  ): Promise<{ id: string; stage_index: number }[]> {
+    const planStages = stages ?? (await this.getPlanStages(planId, userId));
+    this.validateOrder(planStages, stageIds);
+
+    const currentIndexes = new Map(
+      planStages.map((stage) => [stage.id, stage.stage_index])
+    );
+    const alreadyOrdered = stageIds.every(
+      (id, i) => currentIndexes.get(id) === i + 1
+    );
+    if (alreadyOrdered) {
+      return stageIds.map((id, i) => ({ id, stage_index: i + 1 }));
+    }
+
+    return await this.repository.reorder(planId, stageIds, userId);
+  }
+
+  /**
+   * Obtener las etapas guardadas de un plan
+   */
+  private async getPlanStages(
+    planId: string,
+    userId: string
+  ): Promise<MaintenanceStageBase[]> {
+    const { data } = await this.repository.getAll(userId, planId, 1000, 0);
+    return data;
+  }
+
+  /**
+   * Validar que la lista de IDs sea exactamente el conjunto de etapas del plan
+   */
+  private validateOrder(
+    stages: MaintenanceStageBase[],
+    stageIds: string[]
+  ): void {
+    const planStageIds = new Set(stages.map((stage) => stage.id));
+    const submitted = new Set(stageIds);
+
+    const duplicated = stageIds.filter((id, i) => stageIds.indexOf(id) !== i);
+    const unknown = stageIds.filter((id) => !planStageIds.has(id));
+    const missing = Array.from(planStageIds).filter(
+      (id) => !submitted.has(id)
+    );
+
+    if (duplicated.length > 0 || unknown.length > 0 || missing.length > 0) {
+      throw new MaintenanceStageError(
+        MaintenanceStageErrorCodes.INVALID_STAGE_ORDER,
+        "La lista de etapas no coincide con las etapas del plan",
+        { duplicated, unknown, missing }
+      );
+    }
+  }
 }
 
 export const maintenanceStageService = new MaintenanceStageService();
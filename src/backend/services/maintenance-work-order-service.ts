@@ -0,0 +1,219 @@
+import { equipmentService } from "./equipment-service";
+import { maintenanceActivityService } from "./maintenance-activity-service";
+import { maintenanceCostService } from "./maintenance-cost-service";
+import { maintenanceLaborService } from "./maintenance-labor-service";
+import { maintenanceRecordService } from "./maintenance-record-service";
+import { maintenanceSparePartService } from "./maintenance-spare-part-service";
+import { maintenanceTypeService } from "./maintenance-type-service";
+import { mileageRecordService } from "./mileage-record-service";
+import { MaintenanceRecordError } from "../repositories/maintenance-record-repository";
+import { renderWorkOrdersPdf } from "../pdf/work-order-pdf";
+import { MaintenanceRecordErrorCodes } from "@/lib/errors";
+import { EquipmentBase } from "@/types/equipment";
+import { MaintenanceRecordBase } from "@/types/maintenance-record";
+import {
+  CompanyHeader,
+  MaintenanceWorkOrder,
+  MaintenanceWorkOrderDocument,
+} from "@/types/maintenance-work-order";
+
+const MAX_BATCH_SIZE = 200; // Registros por PDF en la impresión por periodo
+
+/**
+ * Filtros de la impresión por periodo
+ */
+interface MaintenanceWorkOrderFilters {
+  from: Date;
+  to: Date;
+  equipment_id?: string;
+}
+
+/**
+ * Servicio para imprimir órdenes de trabajo e informes de servicio en PDF
+ * Reúne el detalle de cada registro (equipo, tipo, lecturas, actividades,
+ * repuestos, mano de obra y costos) y lo entrega al generador de PDF
+ */
+class MaintenanceWorkOrderService {
+  constructor() {}
+
+  /**
+   * Obtener un registro con todo el detalle para imprimirlo
+   * @param id - ID del registro de mantenimiento
+   * @param userId - ID del usuario
+   * @returns El registro con su detalle y costo
+   */
+  async getWorkOrder(
+    id: string,
+    userId: string
+  ): Promise<MaintenanceWorkOrder> {
+    try {
+      const record = await maintenanceRecordService.getById(id);
+      if (!record || record.user_id !== userId) {
+        throw new MaintenanceRecordError(
+          MaintenanceRecordErrorCodes.NOT_FOUND,
+          `Registro de mantenimiento con ID ${id} no encontrado`
+        );
+      }
+
+      return await this.buildWorkOrder(record, userId);
+    } catch (error) {
+      console.error("Error al obtener la orden de trabajo:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Obtener los registros iniciados en un periodo para imprimirlos juntos
+   * No incluye los registros anulados
+   * @param userId - ID del usuario
+   * @param filters - Periodo (por fecha de inicio) y equipo opcional
+   * @returns Registros ordenados por fecha de inicio
+   */
+  async getWorkOrders(
+    userId: string,
+    filters: MaintenanceWorkOrderFilters
+  ): Promise<MaintenanceWorkOrder[]> {
+    try {
+      const { from, to, equipment_id } = filters;
+      if (equipment_id) {
+        const item = await equipmentService.getById(equipment_id);
+        if (!item || item.user_id !== userId) {
+          throw new MaintenanceRecordError(
+            MaintenanceRecordErrorCodes.EQUIPMENT_NOT_FOUND,
+            `Equipo con ID ${equipment_id} no encontrado`
+          );
+        }
+      }
+
+      // Se pide un registro más del máximo para saber si el periodo lo excede
+      // antes de cargar el detalle de cada uno
+      const { data: records, total } =
+        await maintenanceRecordService.getByPeriod(
+          userId,
+          { from, to, equipment_id },
+          MAX_BATCH_SIZE + 1,
+          0
+        );
+      if (records.length > MAX_BATCH_SIZE) {
+        throw new MaintenanceRecordError(
+          MaintenanceRecordErrorCodes.BATCH_TOO_LARGE,
+          `El periodo tiene ${total} registros; el máximo por ` +
+            `impresión es ${MAX_BATCH_SIZE}. Reduzca el rango de fechas`,
+          { total, max: MAX_BATCH_SIZE }
+        );
+      }
+
+      // Uno a la vez para no saturar las conexiones con periodos grandes
+      const equipment = new Map<string, EquipmentBase | null>();
+      const orders: MaintenanceWorkOrder[] = [];
+      for (const record of records) {
+        if (!equipment.has(record.equipment_id)) {
+          equipment.set(
+            record.equipment_id,
+            await equipmentService.getById(record.equipment_id)
+          );
+        }
+        orders.push(
+          await this.buildWorkOrder(
+            record,
+            userId,
+            equipment.get(record.equipment_id) ?? undefined
+          )
+        );
+      }
+      return orders;
+    } catch (error) {
+      console.error("Error al obtener las órdenes de trabajo:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Generar el PDF de los registros indicados
+   * @param orders - Registros con su detalle y costo
+   * @param document - Orden de trabajo o informe de servicio
+   * @returns Contenido del archivo PDF
+   */
+  renderPdf(
+    orders: MaintenanceWorkOrder[],
+    document: MaintenanceWorkOrderDocument
+  ): Buffer {
+    return renderWorkOrdersPdf(orders, document, this.getCompany());
+  }
+
+  /**
+   * Completar un registro con su equipo, tipo, lectura, actividades,
+   * repuestos, mano de obra y costo
+   */
+  private async buildWorkOrder(
+    record: MaintenanceRecordBase,
+    userId: string,
+    equipment?: EquipmentBase
+  ): Promise<MaintenanceWorkOrder> {
+    const [
+      recordEquipment,
+      maintenanceType,
+      mileage,
+      activities,
+      spareParts,
+      labor,
+      cost,
+    ] = await Promise.all([
+      equipment ?? equipmentService.getById(record.equipment_id),
+      maintenanceTypeService.getById(record.maintenance_type_id),
+      record.mileage_record_id
+        ? mileageRecordService.getById(record.mileage_record_id, userId)
+        : null,
+      maintenanceActivityService.getByMaintenanceRecordWithDetails(
+        record.id,
+        userId
+      ),
+      maintenanceSparePartService.getByMaintenanceRecordWithDetails(
+        record.id,
+        userId
+      ),
+      maintenanceLaborService.getRecordLabor(record.id, userId),
+      maintenanceCostService.getRecordCostById(record.id, userId),
+    ]);
+
+    return {
+      record: {
+        ...record,
+        equipment: recordEquipment ?? undefined,
+        maintenance_type: maintenanceType ?? undefined,
+        mileage_info: mileage
+          ? {
+              id: mileage.id,
+              record_date: mileage.record_date,
+              kilometers: mileage.kilometers,
+              hours: mileage.hours,
+            }
+          : undefined,
+        activities,
+        spare_parts: spareParts,
+        duration_hours: record.end_datetime
+          ? (new Date(record.end_datetime).getTime() -
+              new Date(record.start_datetime).getTime()) /
+            3600000
+          : undefined,
+        labor_hours: labor.labor_hours,
+        labor_cost: labor.labor_cost,
+      },
+      cost,
+    };
+  }
+
+  /**
+   * Datos de la empresa para el encabezado (variables COMPANY_*)
+   */
+  private getCompany(): CompanyHeader {
+    return {
+      name: process.env.COMPANY_NAME || "Equipment Management System",
+      tax_id: process.env.COMPANY_TAX_ID,
+      address: process.env.COMPANY_ADDRESS,
+      phone: process.env.COMPANY_PHONE,
+    };
+  }
+}
+
+export const maintenanceWorkOrderService = new MaintenanceWorkOrderService();
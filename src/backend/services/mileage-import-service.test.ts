@@ -0,0 +1,242 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { MileageRecordErrorCodes } from "@/lib/errors";
+import { EquipmentBase } from "@/types/equipment";
+import { MileageRecordBase } from "@/types/mileage-record";
+import { equipmentRepository } from "../repositories/equipment-repository";
+import { mileageRecordRepository } from "../repositories/mileage-record-repository";
+import { mileageImportService } from "./mileage-import-service";
+import { odometerEventService } from "./odometer-event-service";
+
+vi.mock("../repositories/unit-of-work", () => ({
+  unitOfWork: {
+    run: (operation: () => Promise<unknown>) => operation(),
+    step: (_step: string, operation: () => Promise<unknown>) => operation(),
+  },
+}));
+
+const equipment = {
+  id: "equipment-1",
+  type: "Camión",
+  code: "C-01",
+  license_plate: "ABC-123",
+  meter_types: ["km"],
+} as EquipmentBase;
+
+const csv = (...lines: string[]) =>
+  Buffer.from(["codigo,fecha,km", ...lines].join("\n"));
+
+const previewRows = async (buffer: Buffer) =>
+  (await mileageImportService.preview(buffer, "lecturas.csv", "user-1")).rows;
+
+describe("mileageImportService", () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(equipmentRepository, "getByCode").mockImplementation(
+      async (code) => (code === "C-01" ? equipment : null)
+    );
+    vi.spyOn(equipmentRepository, "getById").mockResolvedValue(equipment);
+    vi.spyOn(mileageRecordRepository, "existsForDate").mockResolvedValue(
+      undefined
+    );
+    vi.spyOn(mileageRecordRepository, "getPreviousRecord").mockResolvedValue(
+      null
+    );
+    vi.spyOn(mileageRecordRepository, "getNextRecord").mockResolvedValue(null);
+    vi.spyOn(mileageRecordRepository, "importRecords").mockResolvedValue({
+      created: 0,
+      updated: 0,
+    });
+    vi.spyOn(odometerEventService, "getByEquipment").mockResolvedValue({
+      equipment_id: "equipment-1",
+      data: [],
+    });
+  });
+
+  describe("lectura de filas", () => {
+    it("interpreta fechas ISO y DD/MM/AAAA y miles", async () => {
+      const rows = await previewRows(
+        csv(
+          "C-01,2024-03-05,1000",
+          'C-01,06/03/2024,"1,250"',
+          'C-01,07.03.2024,"1.300,5"',
+          "C-01,2024-03-08,1400 km"
+        )
+      );
+
+      expect(rows.map((row) => row.errors)).toEqual([[], [], [], []]);
+      expect(rows.map((row) => row.record_date)).toEqual([
+        new Date(2024, 2, 5),
+        new Date(2024, 2, 6),
+        new Date(2024, 2, 7),
+        new Date(2024, 2, 8),
+      ]);
+      expect(rows.map((row) => row.kilometers)).toEqual([
+        1000, 1250, 1300.5, 1400,
+      ]);
+    });
+
+    it("marca fechas inexistentes o mal escritas", async () => {
+      const rows = await previewRows(
+        csv(
+          "C-01,31/02/2024,1000",
+          "C-01,2024-13-01,1000",
+          "C-01,ayer,1000",
+          "C-01,,1000"
+        )
+      );
+
+      for (const row of rows) {
+        expect(row.record_date).toBeUndefined();
+        expect(row.errors).toContain("Invalid or missing record date");
+      }
+    });
+
+    it("marca lecturas que no son números o son negativas", async () => {
+      const rows = await previewRows(
+        csv("C-01,2024-03-05,abc", "C-01,2024-03-06,12x4", "C-01,2024-03-07,-5")
+      );
+
+      for (const row of rows.slice(0, 2)) {
+        expect(row.kilometers).toBeUndefined();
+        expect(row.errors).toContain("Invalid or missing kilometers or hours");
+      }
+      expect(rows[2].errors).toContain(
+        "Kilometers must be greater than or equal to zero"
+      );
+    });
+
+    it("rechaza archivos sin las columnas requeridas", async () => {
+      await expect(
+        mileageImportService.preview(
+          Buffer.from("codigo,km\nC-01,1000"),
+          "lecturas.csv",
+          "user-1"
+        )
+      ).rejects.toMatchObject({
+        code: MileageRecordErrorCodes.INVALID_IMPORT_FILE,
+      });
+    });
+
+    it("marca equipos inexistentes", async () => {
+      const [row] = await previewRows(csv("X-99,2024-03-05,1000"));
+
+      expect(row.errors).toEqual(["Equipment not found: X-99"]);
+    });
+  });
+
+  describe("validación", () => {
+    it("marca la segunda fila de un mismo equipo y fecha", async () => {
+      const rows = await previewRows(
+        csv("C-01,2024-03-05,1000", "C-01,05/03/2024,1100")
+      );
+
+      expect(rows[0].errors).toEqual([]);
+      expect(rows[1].errors).toEqual([
+        "Duplicate date for this equipment in the file (row 2)",
+      ]);
+    });
+
+    it("marca filas por debajo del kilometraje registrado", async () => {
+      vi.mocked(mileageRecordRepository.getPreviousRecord).mockResolvedValue({
+        id: "mileage-1",
+        equipment_id: "equipment-1",
+        record_date: new Date(2024, 2, 1),
+        kilometers: 5000,
+      } as MileageRecordBase);
+
+      const [row] = await previewRows(csv("C-01,2024-03-05,4000"));
+
+      expect(row.errors).toHaveLength(1);
+      expect(row.errors[0]).toMatch(
+        /^Kilometers \(4000\) cannot be less than previous record \(5000\)/
+      );
+    });
+
+    it("marca filas por debajo de una fila anterior del archivo", async () => {
+      const rows = await previewRows(
+        csv("C-01,2024-03-06,900", "C-01,2024-03-05,1000")
+      );
+
+      // Las filas se revisan en orden de fecha
+      expect(rows[1].errors).toEqual([]);
+      expect(rows[0].errors).toEqual([
+        "Kilometers (900) cannot be less than row 3 (1000)",
+      ]);
+    });
+
+    it("actualiza el registro existente de la misma fecha", async () => {
+      vi.mocked(mileageRecordRepository.existsForDate).mockResolvedValue({
+        id: "mileage-1",
+      } as MileageRecordBase);
+
+      const [row] = await previewRows(csv("C-01,2024-03-05,1000"));
+
+      expect(row.action).toBe("update");
+      expect(row.existing_record_id).toBe("mileage-1");
+    });
+  });
+
+  describe("commit", () => {
+    it("guarda las filas válidas con una sola consulta", async () => {
+      vi.mocked(mileageRecordRepository.existsForDate).mockImplementation(
+        async (_equipmentId, recordDate) =>
+          recordDate.getDate() === 6
+            ? ({ id: "mileage-1" } as MileageRecordBase)
+            : undefined
+      );
+      vi.mocked(mileageRecordRepository.importRecords).mockResolvedValue({
+        created: 1,
+        updated: 1,
+      });
+
+      const result = await mileageImportService.commit(
+        csv("C-01,2024-03-05,1000", "C-01,2024-03-06,1100", "C-01,ayer,1"),
+        "lecturas.csv",
+        "user-1"
+      );
+
+      expect(mileageRecordRepository.importRecords).toHaveBeenCalledOnce();
+      expect(mileageRecordRepository.importRecords).toHaveBeenCalledWith(
+        [
+          {
+            id: undefined,
+            equipment_id: "equipment-1",
+            record_date: new Date(2024, 2, 5),
+            kilometers: 1000,
+            hours: undefined,
+          },
+          {
+            id: "mileage-1",
+            equipment_id: "equipment-1",
+            record_date: new Date(2024, 2, 6),
+            kilometers: 1100,
+            hours: undefined,
+          },
+        ],
+        "user-1"
+      );
+      expect(result).toMatchObject({
+        total_rows: 3,
+        valid_rows: 2,
+        invalid_rows: 1,
+        created: 1,
+        updated: 1,
+      });
+    });
+
+    it("no guarda nada si ninguna fila es válida", async () => {
+      await expect(
+        mileageImportService.commit(
+          csv("C-01,ayer,1000"),
+          "lecturas.csv",
+          "user-1"
+        )
+      ).rejects.toMatchObject({
+        code: MileageRecordErrorCodes.INVALID_IMPORT_FILE,
+      });
+      expect(mileageRecordRepository.importRecords).not.toHaveBeenCalled();
+    });
+  });
+});
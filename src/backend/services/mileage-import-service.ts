@@ -0,0 +1,522 @@
+import * as XLSX from "xlsx";
+import {
+  mileageRecordRepository,
+  MileageRecordError,
+} from "../repositories/mileage-record-repository";
+import { equipmentRepository } from "../repositories/equipment-repository";
+import { unitOfWork } from "../repositories/unit-of-work";
+import { mileageRecordService } from "./mileage-record-service";
+import { odometerEventService } from "./odometer-event-service";
+import { MileageRecordErrorCodes } from "@/lib/errors";
+import { EquipmentBase } from "@/types/equipment";
+import { OdometerEventBase } from "@/types/odometer-event";
+import {
+  MileageImportPreview,
+  MileageImportResult,
+  MileageImportRow,
+} from "@/types/mileage-import";
+
+const MAX_IMPORT_ROWS = 1000;
+
+/**
+ * Encabezados aceptados para cada columna del archivo (normalizados)
+ */
+const COLUMN_ALIASES: Record<
+  "equipment_code" | "license_plate" | "record_date" | "kilometers" | "hours",
+  string[]
+> = {
+  equipment_code: ["code", "codigo", "equipment_code", "codigo_equipo"],
+  license_plate: ["license_plate", "placa", "matricula"],
+  record_date: ["record_date", "fecha", "date", "fecha_registro"],
+  kilometers: ["kilometers", "kilometraje", "km", "kilometros"],
+  hours: ["hours", "horas", "horometro", "hour_meter"],
+};
+
+/**
+ * Servicio para importar registros de kilometraje desde archivos CSV o XLSX
+ * Cada fila se valida con las mismas reglas de `MileageRecordService` y las
+ * filas válidas se guardan en una sola transacción
+ */
+class MileageImportService {
+  private equipmentRepository = equipmentRepository;
+  private mileageRecordRepository = mileageRecordRepository;
+
+  constructor() {}
+
+  /**
+   * Generar la vista previa de una importación sin guardar cambios
+   * @param buffer - Contenido del archivo
+   * @param fileName - Nombre del archivo (para detectar CSV)
+   * @param userId - ID del usuario
+   * @returns Filas interpretadas con su operación o sus errores
+   */
+  async preview(
+    buffer: Buffer,
+    fileName: string,
+    userId: string
+  ): Promise<MileageImportPreview> {
+    try {
+      const rows = this.parseFile(buffer, fileName);
+
+      await this.matchEquipment(rows, userId);
+      this.validateFileConsistency(rows);
+      await this.validateRows(rows, userId);
+
+      return this.summarize(rows);
+    } catch (error) {
+      console.error("Error al generar la vista previa de importación:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Importar las filas válidas de un archivo en una sola transacción
+   * Las filas se validan de nuevo dentro de la transacción y se guardan con
+   * una sola consulta
+   * @param buffer - Contenido del archivo
+   * @param fileName - Nombre del archivo (para detectar CSV)
+   * @param userId - ID del usuario
+   * @returns Resultado de la importación
+   */
+  async commit(
+    buffer: Buffer,
+    fileName: string,
+    userId: string
+  ): Promise<MileageImportResult> {
+    try {
+      return await unitOfWork.run(async () => {
+        const preview = await this.preview(buffer, fileName, userId);
+        const validRows = preview.rows.filter(
+          (row) => row.errors.length === 0
+        );
+
+        if (validRows.length === 0) {
+          throw new MileageRecordError(
+            MileageRecordErrorCodes.INVALID_IMPORT_FILE,
+            "The file has no valid rows to import"
+          );
+        }
+
+        const result = await unitOfWork.step("mileage_records", () =>
+          this.mileageRecordRepository.importRecords(
+            validRows.map((row) => ({
+              id:
+                row.action === "update" ? row.existing_record_id : undefined,
+              equipment_id: row.equipment!.id,
+              record_date: row.record_date!,
+              kilometers: row.kilometers,
+              hours: row.hours,
+            })),
+            userId
+          )
+        );
+
+        return { ...preview, ...result };
+      });
+    } catch (error) {
+      console.error("Error al importar registros de kilometraje:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Leer las filas de la primera hoja del archivo
+   * @param buffer - Contenido del archivo
+   * @param fileName - Nombre del archivo
+   * @returns Filas interpretadas
+   */
+  private parseFile(buffer: Buffer, fileName: string): MileageImportRow[] {
+    const isCsv = fileName.toLowerCase().endsWith(".csv");
+
+    let workbook: XLSX.WorkBook;
+    try {
+      // En CSV se leen los valores como texto UTF-8 para no interpretar
+      // fechas como m/d/a
+      workbook = isCsv
+        ? XLSX.read(buffer.toString("utf8").replace(/^\uFEFF/, ""), {
+            type: "string",
+            raw: true,
+          })
+        : XLSX.read(buffer, { type: "buffer" });
+    } catch (error) {
+      throw new MileageRecordError(
+        MileageRecordErrorCodes.INVALID_IMPORT_FILE,
+        "The file could not be read as CSV or XLSX",
+        error
+      );
+    }
+
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    if (!sheet) {
+      throw new MileageRecordError(
+        MileageRecordErrorCodes.INVALID_IMPORT_FILE,
+        "The file has no sheets"
+      );
+    }
+
+    const rawRows = XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet, {
+      raw: true,
+      defval: "",
+      blankrows: false,
+    });
+
+    if (rawRows.length === 0) {
+      throw new MileageRecordError(
+        MileageRecordErrorCodes.INVALID_IMPORT_FILE,
+        "The file has no rows"
+      );
+    }
+
+    if (rawRows.length > MAX_IMPORT_ROWS) {
+      throw new MileageRecordError(
+        MileageRecordErrorCodes.INVALID_IMPORT_FILE,
+        `Cannot import more than ${MAX_IMPORT_ROWS} rows at once`
+      );
+    }
+
+    const columns = this.resolveColumns(Object.keys(rawRows[0]));
+
+    if (!columns.record_date || (!columns.kilometers && !columns.hours)) {
+      throw new MileageRecordError(
+        MileageRecordErrorCodes.INVALID_IMPORT_FILE,
+        "The file must have date and kilometers or hours columns"
+      );
+    }
+
+    if (!columns.equipment_code && !columns.license_plate) {
+      throw new MileageRecordError(
+        MileageRecordErrorCodes.INVALID_IMPORT_FILE,
+        "The file must have an equipment code or license plate column"
+      );
+    }
+
+    return rawRows.map((raw, index) => {
+      const row: MileageImportRow = {
+        row_number: index + 2,
+        equipment_code: columns.equipment_code
+          ? String(raw[columns.equipment_code]).trim() || undefined
+          : undefined,
+        license_plate: columns.license_plate
+          ? String(raw[columns.license_plate]).trim() || undefined
+          : undefined,
+        record_date: this.parseDate(raw[columns.record_date!]),
+        kilometers: columns.kilometers
+          ? this.parseReading(raw[columns.kilometers])
+          : undefined,
+        hours: columns.hours ? this.parseReading(raw[columns.hours]) : undefined,
+        errors: [],
+      };
+
+      if (!row.equipment_code && !row.license_plate) {
+        row.errors.push("Equipment code or license plate is required");
+      }
+
+      if (!row.record_date) {
+        row.errors.push("Invalid or missing record date");
+      }
+
+      if (row.kilometers === undefined && row.hours === undefined) {
+        row.errors.push("Invalid or missing kilometers or hours");
+      }
+
+      if (row.kilometers !== undefined && row.kilometers < 0) {
+        row.errors.push("Kilometers must be greater than or equal to zero");
+      }
+
+      if (row.hours !== undefined && row.hours < 0) {
+        row.errors.push("Hours must be greater than or equal to zero");
+      }
+
+      return row;
+    });
+  }
+
+  /**
+   * Asociar cada fila con su equipo por código o placa
+   */
+  private async matchEquipment(
+    rows: MileageImportRow[],
+    userId: string
+  ): Promise<void> {
+    const byCode = new Map<string, EquipmentBase | null>();
+    const byPlate = new Map<string, EquipmentBase | null>();
+
+    for (const row of rows) {
+      if (!row.equipment_code && !row.license_plate) continue;
+
+      let equipmentByCode: EquipmentBase | null | undefined;
+      if (row.equipment_code) {
+        if (!byCode.has(row.equipment_code)) {
+          byCode.set(
+            row.equipment_code,
+            await this.equipmentRepository.getByCode(row.equipment_code, userId)
+          );
+        }
+        equipmentByCode = byCode.get(row.equipment_code);
+      }
+
+      let equipmentByPlate: EquipmentBase | null | undefined;
+      if (row.license_plate) {
+        if (!byPlate.has(row.license_plate)) {
+          byPlate.set(
+            row.license_plate,
+            await this.equipmentRepository.getByLicensePlate(
+              row.license_plate,
+              userId
+            )
+          );
+        }
+        equipmentByPlate = byPlate.get(row.license_plate);
+      }
+
+      if (
+        equipmentByCode &&
+        equipmentByPlate &&
+        equipmentByCode.id !== equipmentByPlate.id
+      ) {
+        row.errors.push(
+          `Code ${row.equipment_code} and license plate ${row.license_plate} belong to different equipment`
+        );
+        continue;
+      }
+
+      const equipment = equipmentByCode || equipmentByPlate;
+      if (!equipment) {
+        row.errors.push(
+          `Equipment not found: ${row.equipment_code || row.license_plate}`
+        );
+        continue;
+      }
+
+      row.equipment = {
+        id: equipment.id,
+        type: equipment.type,
+        code: equipment.code,
+        license_plate: equipment.license_plate,
+      };
+    }
+  }
+
+  /**
+   * Detectar fechas repetidas para un mismo equipo dentro del archivo
+   */
+  private validateFileConsistency(rows: MileageImportRow[]): void {
+    const seen = new Map<string, number>();
+
+    for (const row of rows) {
+      if (!row.equipment || !row.record_date) continue;
+
+      const key = `${row.equipment.id}|${this.toDateKey(row.record_date)}`;
+      const firstRow = seen.get(key);
+      if (firstRow !== undefined) {
+        row.errors.push(
+          `Duplicate date for this equipment in the file (row ${firstRow})`
+        );
+        continue;
+      }
+      seen.set(key, row.row_number);
+    }
+  }
+
+  /**
+   * Validar las filas contra los registros existentes y entre sí
+   * Las filas de un mismo equipo se revisan en orden de fecha para detectar
+   * regresiones del odómetro dentro del propio archivo
+   */
+  private async validateRows(
+    rows: MileageImportRow[],
+    userId: string
+  ): Promise<void> {
+    const candidates = rows
+      .filter((row) => row.errors.length === 0)
+      .sort((a, b) => a.record_date!.getTime() - b.record_date!.getTime());
+
+    const events = new Map<string, OdometerEventBase[]>();
+    const lastRowByEquipment = new Map<string, MileageImportRow>();
+
+    for (const row of candidates) {
+      const equipmentId = row.equipment!.id;
+
+      try {
+        const check = await mileageRecordService.validateCreate({
+          equipment_id: equipmentId,
+          record_date: row.record_date!,
+          kilometers: row.kilometers,
+          hours: row.hours,
+          user_id: userId,
+        });
+        row.action = check.action;
+        row.existing_record_id = check.existing_record?.id;
+      } catch (error) {
+        row.errors.push(
+          error instanceof Error ? error.message : "Invalid mileage record"
+        );
+        continue;
+      }
+
+      if (!events.has(equipmentId)) {
+        events.set(
+          equipmentId,
+          (await odometerEventService.getByEquipment(equipmentId, userId)).data
+        );
+      }
+
+      const previous = lastRowByEquipment.get(equipmentId);
+      if (
+        previous?.kilometers !== undefined &&
+        row.kilometers !== undefined &&
+        odometerEventService.toLifetimeKilometers(
+          row.kilometers!,
+          row.record_date!,
+          events.get(equipmentId)!
+        ) <
+          odometerEventService.toLifetimeKilometers(
+            previous.kilometers!,
+            previous.record_date!,
+            events.get(equipmentId)!
+          )
+      ) {
+        row.errors.push(
+          `Kilometers (${row.kilometers}) cannot be less than row ${previous.row_number} (${previous.kilometers})`
+        );
+        continue;
+      }
+
+      if (
+        previous?.hours !== undefined &&
+        row.hours !== undefined &&
+        row.hours < previous.hours
+      ) {
+        row.errors.push(
+          `Hours (${row.hours}) cannot be less than row ${previous.row_number} (${previous.hours})`
+        );
+        continue;
+      }
+
+      lastRowByEquipment.set(equipmentId, row);
+    }
+  }
+
+  /**
+   * Resumir las filas de la importación
+   */
+  private summarize(rows: MileageImportRow[]): MileageImportPreview {
+    const validRows = rows.filter((row) => row.errors.length === 0).length;
+
+    return {
+      total_rows: rows.length,
+      valid_rows: validRows,
+      invalid_rows: rows.length - validRows,
+      rows,
+    };
+  }
+
+  /**
+   * Relacionar las columnas del archivo con los campos de la importación
+   */
+  private resolveColumns(
+    headers: string[]
+  ): Partial<Record<keyof typeof COLUMN_ALIASES, string>> {
+    const columns: Partial<Record<keyof typeof COLUMN_ALIASES, string>> = {};
+
+    for (const header of headers) {
+      const normalized = header
+        .toString()
+        .trim()
+        .toLowerCase()
+        .normalize("NFD")
+        .replace(/[\u0300-\u036f]/g, "")
+        .replace(/[^a-z0-9]+/g, "_")
+        .replace(/^_|_$/g, "");
+
+      for (const [field, aliases] of Object.entries(COLUMN_ALIASES)) {
+        const key = field as keyof typeof COLUMN_ALIASES;
+        if (!columns[key] && aliases.includes(normalized)) {
+          columns[key] = header;
+        }
+      }
+    }
+
+    return columns;
+  }
+
+  /**
+   * Interpretar una fecha (serial de Excel, AAAA-MM-DD o DD/MM/AAAA)
+   */
+  private parseDate(value: unknown): Date | undefined {
+    if (value instanceof Date) {
+      return isNaN(value.getTime())
+        ? undefined
+        : new Date(value.getFullYear(), value.getMonth(), value.getDate());
+    }
+
+    if (typeof value === "number") {
+      const parsed = XLSX.SSF.parse_date_code(value);
+      return parsed ? new Date(parsed.y, parsed.m - 1, parsed.d) : undefined;
+    }
+
+    const text = String(value ?? "").trim();
+
+    const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+    if (iso) {
+      return this.buildDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+    }
+
+    const local = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+    if (local) {
+      return this.buildDate(
+        Number(local[3]),
+        Number(local[2]),
+        Number(local[1])
+      );
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Construir una fecha local validando día y mes
+   */
+  private buildDate(year: number, month: number, day: number): Date | undefined {
+    const date = new Date(year, month - 1, day);
+    return date.getFullYear() === year &&
+      date.getMonth() === month - 1 &&
+      date.getDate() === day
+      ? date
+      : undefined;
+  }
+
+  /**
+   * Interpretar una lectura de km u horas (acepta separador de miles)
+   */
+  private parseReading(value: unknown): number | undefined {
+    if (typeof value === "number") {
+      return isFinite(value) ? value : undefined;
+    }
+
+    let text = String(value ?? "")
+      .trim()
+      .replace(/\s|km$|h$/gi, "");
+    if (!text) return undefined;
+
+    if (/^-?\d{1,3}(,\d{3})+(\.\d+)?$/.test(text)) {
+      text = text.replace(/,/g, "");
+    } else if (/^-?\d{1,3}(\.\d{3})+(,\d+)?$/.test(text)) {
+      text = text.replace(/\./g, "").replace(",", ".");
+    } else if (/^-?\d+,\d+$/.test(text)) {
+      text = text.replace(",", ".");
+    }
+
+    const reading = Number(text);
+    return isFinite(reading) ? reading : undefined;
+  }
+
+  /**
+   * Clave de fecha (YYYY-MM-DD) para comparar días sin considerar la hora
+   */
+  private toDateKey(date: Date): string {
+    return `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`;
+  }
+}
+
+export const mileageImportService = new MileageImportService();
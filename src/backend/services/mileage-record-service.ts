@@ -9,8 +9,12 @@ import {
   MileageRecordUpdate,
   MultiMileageRecord,
   MileageRecordsByDateRangeResponse,
+  MileageRecordCreateCheck,
+  MileagePeriodBounds,
 } from "@/types/mileage-record";
 import { equipmentRepository } from "../repositories/equipment-repository";
+import { MeterType } from "@/types/equipment";
+import { odometerEventService } from "./odometer-event-service";
 
 /**
  * Servicio para gestionar registros de kilometraje
@@ -24,6 +28,7 @@ class MileageRecordService {
 
   /**
    * Crear un nuevo registro de kilometraje
+   * Si ya existe un registro para el equipo y la fecha, se actualiza
    * @param mileageRecord - Datos del registro de kilometraje a crear
    * @returns El registro de kilometraje creado
    */
@@ -32,58 +37,84 @@ class MileageRecordService {
   ): Promise<{ id: string; created_at: Date } | null> {
     try {
       // Validaciones de negocio adicionales
-      try {
-        await this.validateBusinessRules(mileageRecord);
-      } catch (error) {
-        if (
-          error instanceof MileageRecordError &&
-          error.code === MileageRecordErrorCodes.DUPLICATE_DATE
-        ) {
-          // Si ya existe un registro para esa fecha, buscar el existente
-          const existingRecord = await this.repository.existsForDate(
-            mileageRecord.equipment_id,
-            new Date(mileageRecord.record_date),
-            mileageRecord.user_id
-          );
+      const check = await this.validateCreate(mileageRecord);
+
+      if (check.existing_record) {
+        await this.repository.update({
+          id: check.existing_record.id,
+          kilometers: mileageRecord.kilometers,
+          hours: mileageRecord.hours,
+          record_date: mileageRecord.record_date,
+          user_id: mileageRecord.user_id,
+        });
+
+        return {
+          id: check.existing_record.id,
+          created_at: check.existing_record.created_at,
+        };
+      }
 
-          console.log(
-            "Existing record found for duplicate date: ---------------",
-            existingRecord
-          );
+      return await this.repository.create(mileageRecord);
+    } catch (error) {
+      console.error("Error al crear el registro de kilometraje:", error);
+      throw error;
+    }
+  }
 
-          if (existingRecord) {
-            await this.repository.update({
-              id: existingRecord.id,
-              kilometers: mileageRecord.kilometers,
-              record_date: mileageRecord.record_date,
-              user_id: mileageRecord.user_id,
-            });
-
-            return {
-              id: existingRecord.id,
-              created_at: existingRecord.created_at,
-            };
-          }
-        }
+  /**
+   * Validar un registro de kilometraje antes de crearlo, sin guardarlo
+   * Aplica las mismas reglas que `create`: si ya existe un registro para la
+   * fecha, la operación resultante es una actualización
+   * @param mileageRecord - Datos del registro a validar
+   * @returns La operación que realizaría `create` y el registro existente
+   */
+  async validateCreate(
+    mileageRecord: MileageRecordCreate
+  ): Promise<MileageRecordCreateCheck> {
+    // Validar que el equipo existe y que se registran sus medidores
+    const equipment = await this.equipmentRepository.getById(
+      mileageRecord.equipment_id
+    );
+    if (!equipment) {
+      throw new MileageRecordError(
+        MileageRecordErrorCodes.EQUIPMENT_NOT_FOUND,
+        `Equipment with ID ${mileageRecord.equipment_id} not found`
+      );
+    }
 
-        throw error; // Re-lanzar otros errores
-      }
+    this.validateMeterReadings(mileageRecord, equipment.meter_types || ["km"]);
 
-      // Validar que el equipo existe
+    try {
+      await this.validateBusinessRules(mileageRecord);
+    } catch (error) {
       if (
-        !(await this.equipmentRepository.getById(mileageRecord.equipment_id))
+        error instanceof MileageRecordError &&
+        error.code === MileageRecordErrorCodes.DUPLICATE_DATE
       ) {
-        throw new MileageRecordError(
-          MileageRecordErrorCodes.EQUIPMENT_NOT_FOUND,
-          `Equipment with ID ${mileageRecord.equipment_id} not found`
+        // Si ya existe un registro para esa fecha, buscar el existente
+        const existingRecord = await this.repository.existsForDate(
+          mileageRecord.equipment_id,
+          new Date(mileageRecord.record_date),
+          mileageRecord.user_id
         );
+
+        if (existingRecord) {
+          await this.validateReadingConsistency(
+            mileageRecord.equipment_id,
+            new Date(mileageRecord.record_date),
+            mileageRecord,
+            mileageRecord.user_id,
+            existingRecord.id
+          );
+
+          return { action: "update", existing_record: existingRecord };
+        }
       }
 
-      return await this.repository.create(mileageRecord);
-    } catch (error) {
-      console.error("Error al crear el registro de kilometraje:", error);
-      throw error;
+      throw error; // Re-lanzar otros errores
     }
+
+    return { action: "create" };
   }
 
   /**
@@ -164,6 +195,34 @@ class MileageRecordService {
     }
   }
 
+  /**
+   * Obtener las lecturas de kilómetros que delimitan un periodo: la última
+   * anterior al periodo (o la primera dentro de él) y la última del periodo
+   * @param equipmentId - ID del equipo
+   * @param userId - ID del usuario
+   * @param from - Inicio del periodo (opcional)
+   * @param to - Fin del periodo (opcional)
+   * @returns Lectura base y última lectura del periodo
+   */
+  async getPeriodBounds(
+    equipmentId: string,
+    userId: string,
+    from?: Date,
+    to?: Date
+  ): Promise<MileagePeriodBounds> {
+    try {
+      return await this.repository.getPeriodBounds(
+        equipmentId,
+        userId,
+        from,
+        to
+      );
+    } catch (error) {
+      console.error("Error al obtener las lecturas del periodo:", error);
+      throw error;
+    }
+  }
+
   /**
    * Obtener registros de kilometraje por rango de fechas
    * @param startDate - Fecha de inicio
@@ -315,14 +374,29 @@ class MileageRecordService {
     const today = new Date();
     today.setHours(23, 59, 59, 999); // Fin del día actual
 
-    // Validar que los kilómetros sean positivos
-    if (mileageRecord.kilometers < 0) {
+    // Validar que la fecha no sea futura
+    if (new Date(mileageRecord.record_date) > today) {
+      throw new MileageRecordError(
+        MileageRecordErrorCodes.INVALID_DATE_RANGE,
+        "Record date cannot be in the future"
+      );
+    }
+
+    // Validar que las lecturas sean positivas
+    if (mileageRecord.kilometers !== undefined && mileageRecord.kilometers < 0) {
       throw new MileageRecordError(
         MileageRecordErrorCodes.INVALID_KILOMETERS,
         "Kilometers must be greater than or equal to zero"
       );
     }
 
+    if (mileageRecord.hours !== undefined && mileageRecord.hours < 0) {
+      throw new MileageRecordError(
+        MileageRecordErrorCodes.INVALID_HOURS,
+        "Hours must be greater than or equal to zero"
+      );
+    }
+
     // Validar que no exista ya un registro para esa fecha y equipo
     const exists = await this.existsForDate(
       mileageRecord.equipment_id,
@@ -337,13 +411,13 @@ class MileageRecordService {
       );
     }
 
-    // Validar coherencia con registros anteriores
-    /* await this.validateKilometerConsistency(
+    // Validar coherencia con registros anteriores y posteriores
+    await this.validateReadingConsistency(
       mileageRecord.equipment_id,
-      mileageRecord.record_date,
-      mileageRecord.kilometers,
+      new Date(mileageRecord.record_date),
+      mileageRecord,
       mileageRecord.user_id
-    ); */
+    );
   }
 
   /**
@@ -398,28 +472,176 @@ class MileageRecordService {
       );
     }
 
-    /* // Validar coherencia con otros registros si se cambian kilómetros o fecha
-    if (updateData.kilometers !== undefined || updateData.record_date) {
+    if (updateData.hours !== undefined && updateData.hours < 0) {
+      throw new MileageRecordError(
+        MileageRecordErrorCodes.INVALID_HOURS,
+        "Hours must be greater than or equal to zero"
+      );
+    }
+
+    // Validar coherencia con otros registros si se cambian lecturas o fecha
+    if (
+      updateData.kilometers !== undefined ||
+      updateData.hours !== undefined ||
+      updateData.record_date
+    ) {
       const finalEquipmentId =
         updateData.equipment_id || existingRecord.equipment_id;
-      const finalDate = updateData.record_date || existingRecord.record_date;
-      const finalKilometers =
-        updateData.kilometers !== undefined
-          ? updateData.kilometers
-          : existingRecord.kilometers;
+      const finalDate = new Date(
+        updateData.record_date || existingRecord.record_date
+      );
 
-      await this.validateKilometerConsistency(
+      await this.validateReadingConsistency(
         finalEquipmentId,
         finalDate,
-        finalKilometers,
+        {
+          kilometers:
+            updateData.kilometers !== undefined
+              ? updateData.kilometers
+              : existingRecord.kilometers,
+          hours:
+            updateData.hours !== undefined
+              ? updateData.hours
+              : existingRecord.hours,
+        },
         updateData.user_id,
         updateData.id
       );
-    } */
+    }
+  }
+
+  /**
+   * Validar que el registro tenga lectura de cada medidor del equipo y solo
+   * de sus medidores
+   * @param readings - Lecturas del registro
+   * @param meterTypes - Medidores declarados por el equipo
+   */
+  private validateMeterReadings(
+    readings: Pick<MileageRecordCreate, "kilometers" | "hours">,
+    meterTypes: MeterType[]
+  ): void {
+    if (meterTypes.includes("km") && readings.kilometers === undefined) {
+      throw new MileageRecordError(
+        MileageRecordErrorCodes.MISSING_METER_READING,
+        "Kilometers reading is required for this equipment"
+      );
+    }
+
+    if (meterTypes.includes("hours") && readings.hours === undefined) {
+      throw new MileageRecordError(
+        MileageRecordErrorCodes.MISSING_METER_READING,
+        "Hours reading is required for this equipment"
+      );
+    }
+
+    if (!meterTypes.includes("km") && readings.kilometers !== undefined) {
+      throw new MileageRecordError(
+        MileageRecordErrorCodes.INVALID_KILOMETERS,
+        "This equipment does not have an odometer"
+      );
+    }
+
+    if (!meterTypes.includes("hours") && readings.hours !== undefined) {
+      throw new MileageRecordError(
+        MileageRecordErrorCodes.INVALID_HOURS,
+        "This equipment does not have an hour meter"
+      );
+    }
+  }
+
+  /**
+   * Validar la consistencia de cada lectura presente en el registro
+   * @param equipmentId - ID del equipo
+   * @param recordDate - Fecha del registro
+   * @param readings - Lecturas del registro
+   * @param userId - ID del usuario
+   * @param excludeId - ID a excluir de la validación (para actualizaciones)
+   */
+  private async validateReadingConsistency(
+    equipmentId: string,
+    recordDate: Date,
+    readings: Pick<MileageRecordCreate, "kilometers" | "hours">,
+    userId: string,
+    excludeId?: string
+  ): Promise<void> {
+    if (readings.kilometers !== undefined) {
+      await this.validateKilometerConsistency(
+        equipmentId,
+        recordDate,
+        readings.kilometers,
+        userId,
+        excludeId
+      );
+    }
+
+    if (readings.hours !== undefined) {
+      await this.validateHourConsistency(
+        equipmentId,
+        recordDate,
+        readings.hours,
+        userId,
+        excludeId
+      );
+    }
+  }
+
+  /**
+   * Validar que el horómetro no retroceda respecto a otros registros
+   * @param equipmentId - ID del equipo
+   * @param recordDate - Fecha del registro
+   * @param hours - Horas del registro
+   * @param userId - ID del usuario
+   * @param excludeId - ID a excluir de la validación (para actualizaciones)
+   */
+  private async validateHourConsistency(
+    equipmentId: string,
+    recordDate: Date,
+    hours: number,
+    userId: string,
+    excludeId?: string
+  ): Promise<void> {
+    const previousRecord = await this.repository.getPreviousRecord(
+      equipmentId,
+      recordDate,
+      userId,
+      excludeId,
+      "hours"
+    );
+
+    if (previousRecord && hours < previousRecord.hours!) {
+      throw new MileageRecordError(
+        MileageRecordErrorCodes.HOURS_REGRESSION,
+        `Hours (${hours}) cannot be less than previous record (${
+          previousRecord.hours
+        }) on ${previousRecord.record_date.toISOString().split("T")[0]}`,
+        { previous_record: previousRecord }
+      );
+    }
+
+    const nextRecord = await this.repository.getNextRecord(
+      equipmentId,
+      recordDate,
+      userId,
+      excludeId,
+      "hours"
+    );
+
+    if (nextRecord && hours > nextRecord.hours!) {
+      throw new MileageRecordError(
+        MileageRecordErrorCodes.HOURS_REGRESSION,
+        `Hours (${hours}) cannot be greater than next record (${
+          nextRecord.hours
+        }) on ${nextRecord.record_date.toISOString().split("T")[0]}`,
+        { next_record: nextRecord }
+      );
+    }
   }
 
   /**
    * Validar consistencia de kilómetros con registros existentes
+   * Las lecturas se comparan en kilómetros de vida útil, de modo que un
+   * reemplazo o reinicio del odómetro registrado como evento no se considera
+   * una regresión
    * @param equipmentId - ID del equipo
    * @param recordDate - Fecha del registro
    * @param kilometers - Kilómetros del registro
@@ -433,6 +655,16 @@ class MileageRecordService {
     userId: string,
     excludeId?: string
   ): Promise<void> {
+    const { data: events } = await odometerEventService.getByEquipment(
+      equipmentId,
+      userId
+    );
+    const lifetimeKilometers = odometerEventService.toLifetimeKilometers(
+      kilometers,
+      recordDate,
+      events
+    );
+
     // Obtener el último registro anterior
     const previousRecord = await this.repository.getPreviousRecord(
       equipmentId,
@@ -441,12 +673,23 @@ class MileageRecordService {
       excludeId
     );
 
-    if (previousRecord && kilometers < previousRecord.kilometers) {
+    if (
+      previousRecord &&
+      lifetimeKilometers <
+        odometerEventService.toLifetimeKilometers(
+          previousRecord.kilometers!,
+          previousRecord.record_date,
+          events
+        )
+    ) {
       throw new MileageRecordError(
-        MileageRecordErrorCodes.INVALID_KILOMETERS,
+        MileageRecordErrorCodes.KILOMETER_REGRESSION,
         `Kilometers (${kilometers}) cannot be less than previous record (${
           previousRecord.kilometers
-        }) on ${previousRecord.record_date.toISOString().split("T")[0]}`
+        }) on ${
+          previousRecord.record_date.toISOString().split("T")[0]
+        }. If the odometer was replaced or rolled over, register the event first`,
+        { previous_record: previousRecord }
       );
     }
 
@@ -458,12 +701,21 @@ class MileageRecordService {
       excludeId
     );
 
-    if (nextRecord && kilometers > nextRecord.kilometers) {
+    if (
+      nextRecord &&
+      lifetimeKilometers >
+        odometerEventService.toLifetimeKilometers(
+          nextRecord.kilometers!,
+          nextRecord.record_date,
+          events
+        )
+    ) {
       throw new MileageRecordError(
-        MileageRecordErrorCodes.INVALID_KILOMETERS,
+        MileageRecordErrorCodes.KILOMETER_REGRESSION,
         `Kilometers (${kilometers}) cannot be greater than next record (${
           nextRecord.kilometers
-        }) on ${nextRecord.record_date.toISOString().split("T")[0]}`
+        }) on ${nextRecord.record_date.toISOString().split("T")[0]}`,
+        { next_record: nextRecord }
       );
     }
   }
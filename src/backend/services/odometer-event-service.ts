@@ -0,0 +1,359 @@
+import {
+  odometerEventRepository,
+  OdometerEventError,
+} from "../repositories/odometer-event-repository";
+import { mileageRecordRepository } from "../repositories/mileage-record-repository";
+import { maintenanceRecordRepository } from "../repositories/maintenance-record-repository";
+import { equipmentRepository } from "../repositories/equipment-repository";
+import { OdometerEventErrorCodes } from "@/lib/errors";
+import {
+  OdometerEventBase,
+  OdometerEventCreate,
+  OdometerEventsByEquipmentResponse,
+  MileageConsistencyIssue,
+  MileageConsistencyReport,
+} from "@/types/odometer-event";
+import { EquipmentMaintenancePlan } from "@/types/equipment";
+
+const ODOMETER_EVENT_TYPES = ["replacement", "rollover"];
+
+/**
+ * Servicio para gestionar eventos del odómetro
+ * Calcula los kilómetros acumulados de vida útil de un equipo a partir de
+ * sus lecturas y de los reemplazos o reinicios de su odómetro
+ */
+class OdometerEventService {
+  private repository = odometerEventRepository;
+  private mileageRecordRepository = mileageRecordRepository;
+  private maintenanceRecordRepository = maintenanceRecordRepository;
+  private equipmentRepository = equipmentRepository;
+
+  constructor() {}
+
+  /**
+   * Crear un nuevo evento del odómetro
+   * @param event - Datos del evento a crear
+   * @returns El evento creado
+   */
+  async create(
+    event: OdometerEventCreate
+  ): Promise<{ id: string; created_at: Date }> {
+    try {
+      await this.validateBusinessRules(event);
+
+      return await this.repository.create({
+        ...event,
+        event_date: new Date(event.event_date),
+      });
+    } catch (error) {
+      console.error("Error al crear el evento del odómetro:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Obtener los eventos del odómetro de un equipo
+   * @param equipmentId - ID del equipo
+   * @param userId - ID del usuario
+   * @returns Eventos del equipo ordenados por fecha
+   */
+  async getByEquipment(
+    equipmentId: string,
+    userId: string
+  ): Promise<OdometerEventsByEquipmentResponse> {
+    try {
+      return await this.repository.getByEquipment(equipmentId, userId);
+    } catch (error) {
+      console.error("Error al obtener eventos del odómetro:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Eliminar un evento del odómetro
+   * @param id - ID del evento a eliminar
+   * @param userId - ID del usuario
+   * @returns El ID del evento eliminado
+   */
+  async delete(id: string, userId: string): Promise<{ id: string }> {
+    try {
+      const existing = await this.repository.getById(id, userId);
+      if (!existing) {
+        throw new OdometerEventError(
+          OdometerEventErrorCodes.NOT_FOUND,
+          `Odometer event with ID ${id} not found`
+        );
+      }
+
+      return await this.repository.delete(id, userId);
+    } catch (error) {
+      console.error("Error al eliminar el evento del odómetro:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Convertir una lectura del odómetro en kilómetros de vida útil
+   * Las lecturas registradas en la fecha de un evento se consideran tomadas
+   * con el odómetro posterior al evento
+   * @param reading - Lectura del odómetro
+   * @param recordDate - Fecha de la lectura
+   * @param events - Eventos del odómetro del equipo
+   * @returns Kilómetros acumulados de vida útil
+   */
+  toLifetimeKilometers(
+    reading: number,
+    recordDate: Date,
+    events: OdometerEventBase[]
+  ): number {
+    return reading + this.getOffsetUntil(recordDate, events);
+  }
+
+  /**
+   * Kilómetros acumulados por los eventos ocurridos hasta una fecha
+   * @param date - Fecha límite (incluida)
+   * @param events - Eventos del odómetro del equipo
+   * @param since - Fecha desde la que se consideran eventos (excluida)
+   */
+  getOffsetUntil(
+    date: Date,
+    events: OdometerEventBase[],
+    since?: Date
+  ): number {
+    const until = this.toDateKey(date);
+    const from = since ? this.toDateKey(since) : undefined;
+
+    return events
+      .filter((event) => {
+        const key = this.toDateKey(event.event_date);
+        return key <= until && (from === undefined || key > from);
+      })
+      .reduce(
+        (offset, event) => offset + (event.final_reading - event.initial_reading),
+        0
+      );
+  }
+
+  /**
+   * Generar el reporte de consistencia del odómetro de un equipo
+   * Marca las lecturas cuyo kilometraje de vida útil es menor que el de la
+   * lectura anterior
+   * @param equipmentId - ID del equipo
+   * @param userId - ID del usuario
+   * @returns Reporte con kilómetros de vida útil y regresiones detectadas
+   */
+  async getConsistencyReport(
+    equipmentId: string,
+    userId: string
+  ): Promise<MileageConsistencyReport> {
+    try {
+      const [{ data: events }, sorted] = await Promise.all([
+        this.repository.getByEquipment(equipmentId, userId),
+        this.mileageRecordRepository.getKilometerReadings(equipmentId, userId),
+      ]);
+
+      const issues: MileageConsistencyIssue[] = [];
+      for (let i = 1; i < sorted.length; i++) {
+        const previous = sorted[i - 1];
+        const current = sorted[i];
+        const previousLifetime = this.toLifetimeKilometers(
+          previous.kilometers!,
+          previous.record_date,
+          events
+        );
+        const currentLifetime = this.toLifetimeKilometers(
+          current.kilometers!,
+          current.record_date,
+          events
+        );
+
+        if (currentLifetime < previousLifetime) {
+          issues.push({
+            record: current,
+            previous_record: previous,
+            lifetime_kilometers: currentLifetime,
+            previous_lifetime_kilometers: previousLifetime,
+            difference: currentLifetime - previousLifetime,
+          });
+        }
+      }
+
+      const last = sorted[sorted.length - 1];
+
+      return {
+        equipment_id: equipmentId,
+        last_reading: last?.kilometers,
+        lifetime_kilometers: last
+          ? this.toLifetimeKilometers(last.kilometers!, last.record_date, events)
+          : 0,
+        events,
+        issues,
+      };
+    } catch (error) {
+      console.error("Error al generar el reporte de consistencia:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Ajustar el plan de mantenimiento de un equipo a sus kilómetros de vida útil
+   * El plan se calcula con lecturas crudas del odómetro; los eventos ocurridos
+   * después del último mantenimiento se descuentan del kilometraje restante
+   * @param plan - Plan de mantenimiento del equipo
+   * @param userId - ID del usuario
+   * @returns Plan ajustado
+   */
+  async adjustMaintenancePlan(
+    plan: EquipmentMaintenancePlan,
+    userId: string
+  ): Promise<EquipmentMaintenancePlan> {
+    const { data: events } = await this.repository.getByEquipment(
+      plan.equipment.id,
+      userId
+    );
+
+    if (events.length === 0) {
+      return plan;
+    }
+
+    const lastReadingDate = plan.equipment.last_mileage_record_date;
+    const lifetimeMileage =
+      plan.equipment.last_mileage_value !== undefined && lastReadingDate
+        ? this.toLifetimeKilometers(
+            plan.equipment.last_mileage_value,
+            lastReadingDate,
+            events
+          )
+        : undefined;
+
+    if (plan.remaining_mileage === undefined || !lastReadingDate) {
+      return {
+        ...plan,
+        equipment: { ...plan.equipment, lifetime_mileage: lifetimeMileage },
+      };
+    }
+
+    const lastMaintenanceDate =
+      await this.maintenanceRecordRepository.getLastStartDatetime(
+        plan.equipment.id,
+        userId
+      );
+
+    const offsetSinceMaintenance = this.getOffsetUntil(
+      lastReadingDate,
+      events,
+      lastMaintenanceDate
+    );
+
+    return {
+      ...plan,
+      equipment: { ...plan.equipment, lifetime_mileage: lifetimeMileage },
+      remaining_mileage: plan.remaining_mileage - offsetSinceMaintenance,
+    };
+  }
+
+  /**
+   * Validaciones de reglas de negocio para creación
+   * @param event - Datos del evento a validar
+   */
+  private async validateBusinessRules(
+    event: OdometerEventCreate
+  ): Promise<void> {
+    if (!ODOMETER_EVENT_TYPES.includes(event.event_type)) {
+      throw new OdometerEventError(
+        OdometerEventErrorCodes.INVALID_TYPE,
+        `Invalid odometer event type: ${event.event_type}`
+      );
+    }
+
+    if (event.final_reading < 0 || event.initial_reading < 0) {
+      throw new OdometerEventError(
+        OdometerEventErrorCodes.INVALID_READING,
+        "Odometer readings must be greater than or equal to zero"
+      );
+    }
+
+    if (
+      event.event_type === "rollover" &&
+      event.initial_reading >= event.final_reading
+    ) {
+      throw new OdometerEventError(
+        OdometerEventErrorCodes.INVALID_READING,
+        "A rollover must restart the odometer below its final reading"
+      );
+    }
+
+    const eventDate = new Date(event.event_date);
+    const today = new Date();
+    today.setHours(23, 59, 59, 999);
+
+    if (isNaN(eventDate.getTime()) || eventDate > today) {
+      throw new OdometerEventError(
+        OdometerEventErrorCodes.INVALID_DATE,
+        "Event date cannot be in the future"
+      );
+    }
+
+    if (!(await this.equipmentRepository.getById(event.equipment_id))) {
+      throw new OdometerEventError(
+        OdometerEventErrorCodes.EQUIPMENT_NOT_FOUND,
+        `Equipment with ID ${event.equipment_id} not found`
+      );
+    }
+
+    const { data: events } = await this.repository.getByEquipment(
+      event.equipment_id,
+      event.user_id
+    );
+
+    if (
+      events.some(
+        (e) => this.toDateKey(e.event_date) === this.toDateKey(eventDate)
+      )
+    ) {
+      throw new OdometerEventError(
+        OdometerEventErrorCodes.DUPLICATE_DATE,
+        "An odometer event already exists for this equipment and date"
+      );
+    }
+
+    // La lectura final no puede ser menor que la última lectura registrada
+    const previousRecord = await this.mileageRecordRepository.getPreviousRecord(
+      event.equipment_id,
+      eventDate,
+      event.user_id
+    );
+
+    if (previousRecord) {
+      const previousLifetime = this.toLifetimeKilometers(
+        previousRecord.kilometers!,
+        previousRecord.record_date,
+        events
+      );
+      const finalLifetime =
+        event.final_reading +
+        this.getOffsetUntil(
+          new Date(eventDate.getTime() - 24 * 60 * 60 * 1000),
+          events
+        );
+
+      if (finalLifetime < previousLifetime) {
+        throw new OdometerEventError(
+          OdometerEventErrorCodes.INVALID_READING,
+          `Final reading (${event.final_reading}) cannot be less than previous record (${
+            previousRecord.kilometers
+          }) on ${this.toDateKey(previousRecord.record_date)}`
+        );
+      }
+    }
+  }
+
+  /**
+   * Clave de fecha (YYYY-MM-DD) para comparar días sin considerar la hora
+   */
+  private toDateKey(date: Date): string {
+    return new Date(date).toISOString().split("T")[0];
+  }
+}
+
+export const odometerEventService = new OdometerEventService();
@@ -0,0 +1,170 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { PurchaseOrderErrorCodes } from "@/lib/errors";
+import {
+  PurchaseOrderBase,
+  PurchaseOrderReceipt,
+} from "@/types/purchase-order";
+import { purchaseOrderRepository } from "../repositories/purchase-order-repository";
+import { inventoryService } from "./inventory-service";
+import { purchaseOrderService } from "./purchase-order-service";
+
+vi.mock("../repositories/unit-of-work", () => ({
+  unitOfWork: { run: (operation: () => Promise<unknown>) => operation() },
+}));
+vi.mock(
+  "../repositories/purchase-order-repository",
+  async (importOriginal) => ({
+    ...(await importOriginal<object>()),
+    purchaseOrderRepository: {
+      lock: vi.fn(),
+      getById: vi.fn(),
+      addReceivedQuantities: vi.fn(),
+      setStatus: vi.fn(),
+    },
+  })
+);
+vi.mock("./inventory-service", () => ({
+  inventoryService: { recordMovement: vi.fn() },
+}));
+vi.mock("./spare-part-service", () => ({
+  sparePartService: { setLastPurchaseCost: vi.fn() },
+}));
+vi.mock("./supplier-service", () => ({ supplierService: {} }));
+vi.mock("./warehouse-service", () => ({ warehouseService: {} }));
+
+const repository = vi.mocked(purchaseOrderRepository);
+
+const order: PurchaseOrderBase = {
+  id: "order-1",
+  number: 12,
+  supplier_id: "supplier-1",
+  warehouse_id: "main",
+  status: "sent",
+  lines: [
+    {
+      id: "line-1",
+      spare_part_id: "part-1",
+      quantity: 10,
+      received_quantity: 4,
+      unit_price: 5,
+    },
+    {
+      id: "line-2",
+      spare_part_id: "part-2",
+      quantity: 2,
+      received_quantity: 0,
+      unit_price: 30,
+    },
+  ],
+  total: 110,
+  created_at: new Date(),
+  user_id: "user-1",
+};
+
+const receipt = (
+  lines: PurchaseOrderReceipt["lines"]
+): PurchaseOrderReceipt => ({
+  purchase_order_id: "order-1",
+  lines,
+  user_id: "user-1",
+});
+
+describe("purchaseOrderService.receive", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    repository.lock.mockResolvedValue(true);
+    repository.getById.mockResolvedValue(order);
+    repository.setStatus.mockImplementation(async (id, status) => ({
+      id,
+      status,
+    }));
+  });
+
+  it("recibe hasta la cantidad pendiente de una línea", async () => {
+    const result = await purchaseOrderService.receive(
+      receipt([{ line_id: "line-1", quantity: 6 }])
+    );
+
+    expect(result.status).toBe("partially_received");
+    expect(inventoryService.recordMovement).toHaveBeenCalledWith(
+      expect.objectContaining({
+        spare_part_id: "part-1",
+        warehouse_id: "main",
+        movement_type: "receipt",
+        quantity: 6,
+        unit_cost: 5,
+      })
+    );
+  });
+
+  it("completa la orden al recibir todo lo pendiente", async () => {
+    const result = await purchaseOrderService.receive(
+      receipt([
+        { line_id: "line-1", quantity: 6 },
+        { line_id: "line-2", quantity: 2 },
+      ])
+    );
+
+    expect(result.status).toBe("received");
+  });
+
+  it("rechaza recibir más de lo pendiente", async () => {
+    await expect(
+      purchaseOrderService.receive(
+        receipt([{ line_id: "line-1", quantity: 7 }])
+      )
+    ).rejects.toMatchObject({
+      code: PurchaseOrderErrorCodes.OVER_RECEIPT,
+      details: { line_id: "line-1", pending: 6, received: 7 },
+    });
+    expect(repository.addReceivedQuantities).not.toHaveBeenCalled();
+    expect(inventoryService.recordMovement).not.toHaveBeenCalled();
+  });
+
+  it("rechaza líneas que no pertenecen a la orden", async () => {
+    await expect(
+      purchaseOrderService.receive(
+        receipt([{ line_id: "line-9", quantity: 1 }])
+      )
+    ).rejects.toMatchObject({ code: PurchaseOrderErrorCodes.INVALID_LINE });
+  });
+
+  it("rechaza cantidades no positivas y líneas duplicadas", async () => {
+    for (const lines of [
+      [{ line_id: "line-1", quantity: 0 }],
+      [
+        { line_id: "line-1", quantity: 1 },
+        { line_id: "line-1", quantity: 1 },
+      ],
+    ]) {
+      await expect(
+        purchaseOrderService.receive(receipt(lines))
+      ).rejects.toMatchObject({ code: PurchaseOrderErrorCodes.INVALID_LINE });
+    }
+    expect(repository.lock).not.toHaveBeenCalled();
+  });
+
+  it("rechaza recibir una orden que no fue enviada", async () => {
+    repository.getById.mockResolvedValue({ ...order, status: "draft" });
+
+    await expect(
+      purchaseOrderService.receive(
+        receipt([{ line_id: "line-1", quantity: 1 }])
+      )
+    ).rejects.toMatchObject({
+      code: PurchaseOrderErrorCodes.INVALID_STATUS_TRANSITION,
+    });
+  });
+
+  it("bloquea la orden antes de leer lo pendiente", async () => {
+    await purchaseOrderService.receive(
+      receipt([{ line_id: "line-1", quantity: 1 }])
+    );
+
+    expect(repository.lock).toHaveBeenCalledWith("order-1", "user-1");
+    expect(repository.lock.mock.invocationCallOrder[0]).toBeLessThan(
+      repository.getById.mock.invocationCallOrder[0]
+    );
+  });
+});
@@ -0,0 +1,422 @@
+import {
+  purchaseOrderRepository,
+  PurchaseOrderError,
+} from "../repositories/purchase-order-repository";
+import { unitOfWork } from "../repositories/unit-of-work";
+import { inventoryService } from "./inventory-service";
+import { sparePartService } from "./spare-part-service";
+import { supplierService } from "./supplier-service";
+import { warehouseService } from "./warehouse-service";
+import { PurchaseOrderErrorCodes } from "@/lib/errors";
+import {
+  MultiPurchaseOrder,
+  PurchaseOrderBase,
+  PurchaseOrderCreate,
+  PurchaseOrderFilters,
+  PurchaseOrderLineInput,
+  PurchaseOrderLineSave,
+  PurchaseOrderReceipt,
+  PurchaseOrderStatus,
+  PurchaseOrderUpdate,
+} from "@/types/purchase-order";
+
+const MAX_LINES = 50; // Límite de líneas por orden
+
+/**
+ * Estados a los que se puede pasar manualmente desde cada estado; la
+ * recepción parcial o total solo se alcanza registrando una recepción
+ */
+const TRANSITIONS: Record<PurchaseOrderStatus, PurchaseOrderStatus[]> = {
+  draft: ["sent", "cancelled"],
+  sent: ["cancelled"],
+  partially_received: ["cancelled"],
+  received: [],
+  cancelled: [],
+};
+
+const RECEIVABLE_STATUSES: PurchaseOrderStatus[] = [
+  "sent",
+  "partially_received",
+];
+
+/**
+ * Servicio para gestionar órdenes de compra de repuestos
+ * Una orden se prepara en borrador con los precios del proveedor, se envía y
+ * se recibe en una o varias entregas; cada recepción ingresa los repuestos al
+ * stock y actualiza su último costo de compra
+ */
+class PurchaseOrderService {
+  private repository = purchaseOrderRepository;
+
+  constructor() {}
+
+  /**
+   * Crear una nueva orden de compra en borrador
+   * Las líneas sin precio toman el del proveedor o, si no tiene, el del
+   * repuesto
+   * @param order - Proveedor, ubicación de destino y líneas
+   * @returns El ID, número y fecha de creación de la orden
+   */
+  async create(
+    order: PurchaseOrderCreate
+  ): Promise<{ id: string; number: number; created_at: Date }> {
+    try {
+      await supplierService.getExisting(order.supplier_id, order.user_id);
+      if (order.warehouse_id) {
+        await warehouseService.resolveId(order.warehouse_id, order.user_id);
+      }
+
+      const lines = await this.resolveLines(
+        order.lines,
+        order.supplier_id,
+        order.user_id
+      );
+
+      return await this.repository.create({ ...order, lines });
+    } catch (error) {
+      console.error("Error al crear la orden de compra:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Actualizar una orden de compra en borrador
+   * @param order - Datos a actualizar
+   * @returns El ID de la orden actualizada
+   */
+  async update(order: PurchaseOrderUpdate): Promise<{ id: string }> {
+    try {
+      return await unitOfWork.run(async () => {
+        const existing = await this.getExisting(order.id, order.user_id);
+        if (existing.status !== "draft") {
+          throw new PurchaseOrderError(
+            PurchaseOrderErrorCodes.NOT_EDITABLE,
+            "Solo se pueden modificar órdenes de compra en borrador"
+          );
+        }
+
+        if (order.warehouse_id) {
+          await warehouseService.resolveId(order.warehouse_id, order.user_id);
+        }
+
+        const lines = order.lines
+          ? await this.resolveLines(
+              order.lines,
+              existing.supplier_id,
+              order.user_id
+            )
+          : undefined;
+
+        return await this.repository.update({ ...order, lines });
+      });
+    } catch (error) {
+      console.error("Error al actualizar la orden de compra:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Obtener una orden de compra por su ID
+   * @param id - ID de la orden
+   * @param userId - ID del usuario
+   * @returns La orden encontrada o null
+   */
+  async getById(
+    id: string,
+    userId: string
+  ): Promise<PurchaseOrderBase | null> {
+    try {
+      return await this.repository.getById(id, userId);
+    } catch (error) {
+      console.error("Error al obtener la orden de compra:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Obtener las órdenes de compra del usuario
+   * @param userId - ID del usuario
+   * @param filters - Proveedor o estado
+   * @param limit - Límite de resultados
+   * @param offset - Desplazamiento para la paginación
+   * @returns Lista paginada de órdenes
+   */
+  async getAll(
+    userId: string,
+    filters: PurchaseOrderFilters = {},
+    limit: number = 100,
+    offset: number = 0
+  ): Promise<MultiPurchaseOrder> {
+    try {
+      return await this.repository.getAll(userId, filters, limit, offset);
+    } catch (error) {
+      console.error("Error al obtener las órdenes de compra:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Enviar o anular una orden de compra
+   * @param id - ID de la orden
+   * @param status - Nuevo estado (sent o cancelled)
+   * @param userId - ID del usuario
+   * @returns El ID y estado de la orden
+   */
+  async changeStatus(
+    id: string,
+    status: PurchaseOrderStatus,
+    userId: string
+  ): Promise<{ id: string; status: PurchaseOrderStatus }> {
+    try {
+      return await unitOfWork.run(async () => {
+        const order = await this.getExisting(id, userId);
+        if (!TRANSITIONS[order.status].includes(status)) {
+          throw new PurchaseOrderError(
+            PurchaseOrderErrorCodes.INVALID_STATUS_TRANSITION,
+            `No se puede pasar la orden de "${order.status}" a "${status}"`,
+            { from: order.status, to: status }
+          );
+        }
+
+        return await this.repository.setStatus(id, status, userId);
+      });
+    } catch (error) {
+      console.error("Error al cambiar el estado de la orden de compra:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Registrar la recepción de una orden de compra
+   * Ingresa al stock lo recibido de cada línea al precio de la orden,
+   * actualiza el último costo de compra de los repuestos y deja la orden
+   * recibida o parcialmente recibida
+   * @param receipt - Líneas y cantidades recibidas
+   * @returns El ID y estado de la orden
+   */
+  async receive(
+    receipt: PurchaseOrderReceipt
+  ): Promise<{ id: string; status: PurchaseOrderStatus }> {
+    try {
+      this.validateReceiptLines(receipt);
+
+      return await unitOfWork.run(async () => {
+        // La orden queda bloqueada hasta confirmar la recepción
+        await this.repository.lock(receipt.purchase_order_id, receipt.user_id);
+        const order = await this.getExisting(
+          receipt.purchase_order_id,
+          receipt.user_id
+        );
+        if (!RECEIVABLE_STATUSES.includes(order.status)) {
+          throw new PurchaseOrderError(
+            PurchaseOrderErrorCodes.INVALID_STATUS_TRANSITION,
+            "Solo se pueden recibir órdenes de compra enviadas",
+            { status: order.status }
+          );
+        }
+
+        const received = new Map<string, number>();
+        for (const receiptLine of receipt.lines) {
+          const line = order.lines.find(
+            (item) => item.id === receiptLine.line_id
+          );
+          if (!line) {
+            throw new PurchaseOrderError(
+              PurchaseOrderErrorCodes.INVALID_LINE,
+              `Línea con ID ${receiptLine.line_id} no pertenece a la orden`
+            );
+          }
+
+          const pending = line.quantity - line.received_quantity;
+          if (receiptLine.quantity > pending) {
+            throw new PurchaseOrderError(
+              PurchaseOrderErrorCodes.OVER_RECEIPT,
+              `Se recibe más de lo pendiente para "${
+                line.spare_part?.name || line.spare_part_id
+              }": pendiente ${pending}, recibido ${receiptLine.quantity}`,
+              {
+                line_id: line.id,
+                pending,
+                received: receiptLine.quantity,
+              }
+            );
+          }
+          received.set(line.id, receiptLine.quantity);
+        }
+
+        await this.repository.addReceivedQuantities(
+          order.id,
+          receipt.lines,
+          receipt.user_id
+        );
+
+        const warehouseId = receipt.warehouse_id || order.warehouse_id;
+        for (const line of order.lines) {
+          const quantity = received.get(line.id);
+          if (!quantity) continue;
+
+          await inventoryService.recordMovement({
+            spare_part_id: line.spare_part_id,
+            warehouse_id: warehouseId,
+            movement_type: "receipt",
+            quantity,
+            unit_cost: line.unit_price,
+            purchase_order_id: order.id,
+            notes: receipt.notes || `Orden de compra N° ${order.number}`,
+            user_id: receipt.user_id,
+          });
+          await sparePartService.setLastPurchaseCost(
+            line.spare_part_id,
+            line.unit_price,
+            receipt.user_id
+          );
+        }
+
+        const complete = order.lines.every(
+          (line) =>
+            line.received_quantity + (received.get(line.id) ?? 0) >=
+            line.quantity
+        );
+
+        return await this.repository.setStatus(
+          order.id,
+          complete ? "received" : "partially_received",
+          receipt.user_id
+        );
+      });
+    } catch (error) {
+      console.error("Error al recibir la orden de compra:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Obtener una orden que debe existir
+   */
+  private async getExisting(
+    id: string,
+    userId: string
+  ): Promise<PurchaseOrderBase> {
+    const order = await this.repository.getById(id, userId);
+    if (!order) {
+      throw new PurchaseOrderError(
+        PurchaseOrderErrorCodes.NOT_FOUND,
+        `Orden de compra con ID ${id} no encontrada`
+      );
+    }
+    return order;
+  }
+
+  /**
+   * Validar las líneas de la orden y completar su precio y el código del
+   * proveedor
+   */
+  private async resolveLines(
+    lines: PurchaseOrderLineInput[],
+    supplierId: string,
+    userId: string
+  ): Promise<PurchaseOrderLineSave[]> {
+    if (!Array.isArray(lines) || lines.length === 0) {
+      throw new PurchaseOrderError(
+        PurchaseOrderErrorCodes.INVALID_LINE,
+        "La orden debe tener al menos un repuesto"
+      );
+    }
+
+    if (lines.length > MAX_LINES) {
+      throw new PurchaseOrderError(
+        PurchaseOrderErrorCodes.INVALID_LINE,
+        `La orden no puede tener más de ${MAX_LINES} repuestos`
+      );
+    }
+
+    const sparePartIds = lines.map((line) => line.spare_part_id);
+    if (new Set(sparePartIds).size !== sparePartIds.length) {
+      throw new PurchaseOrderError(
+        PurchaseOrderErrorCodes.DUPLICATE_SPARE_PART,
+        "La orden tiene repuestos duplicados"
+      );
+    }
+
+    const supplierPrices = await supplierService.getPrices(userId, {
+      supplier_id: supplierId,
+    });
+
+    const resolved: PurchaseOrderLineSave[] = [];
+    for (const line of lines) {
+      if (!Number.isFinite(line.quantity) || line.quantity <= 0) {
+        throw new PurchaseOrderError(
+          PurchaseOrderErrorCodes.INVALID_LINE,
+          "La cantidad de cada repuesto debe ser mayor a cero",
+          { spare_part_id: line.spare_part_id }
+        );
+      }
+
+      if (
+        line.unit_price !== undefined &&
+        (!Number.isFinite(line.unit_price) || line.unit_price < 0)
+      ) {
+        throw new PurchaseOrderError(
+          PurchaseOrderErrorCodes.INVALID_LINE,
+          "El precio de cada repuesto debe ser mayor o igual a cero",
+          { spare_part_id: line.spare_part_id }
+        );
+      }
+
+      const sparePart = await sparePartService.getById(
+        line.spare_part_id,
+        userId
+      );
+      if (!sparePart) {
+        throw new PurchaseOrderError(
+          PurchaseOrderErrorCodes.INVALID_LINE,
+          `Repuesto con ID ${line.spare_part_id} no encontrado`
+        );
+      }
+
+      const supplierPrice = supplierPrices.find(
+        (price) => price.spare_part_id === line.spare_part_id
+      );
+      resolved.push({
+        spare_part_id: line.spare_part_id,
+        quantity: line.quantity,
+        unit_price: line.unit_price ?? supplierPrice?.price ?? sparePart.price,
+        supplier_code: supplierPrice?.supplier_code,
+      });
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Validar las líneas de una recepción
+   */
+  private validateReceiptLines(receipt: PurchaseOrderReceipt): void {
+    if (!Array.isArray(receipt.lines) || receipt.lines.length === 0) {
+      throw new PurchaseOrderError(
+        PurchaseOrderErrorCodes.INVALID_LINE,
+        "La recepción debe tener al menos una línea"
+      );
+    }
+
+    const lineIds = receipt.lines.map((line) => line.line_id);
+    if (new Set(lineIds).size !== lineIds.length) {
+      throw new PurchaseOrderError(
+        PurchaseOrderErrorCodes.INVALID_LINE,
+        "La recepción tiene líneas duplicadas"
+      );
+    }
+
+    for (const line of receipt.lines) {
+      if (!Number.isFinite(line.quantity) || line.quantity <= 0) {
+        throw new PurchaseOrderError(
+          PurchaseOrderErrorCodes.INVALID_LINE,
+          "La cantidad recibida debe ser mayor a cero",
+          { line_id: line.line_id }
+        );
+      }
+    }
+  }
+}
+
+export const purchaseOrderService = new PurchaseOrderService();
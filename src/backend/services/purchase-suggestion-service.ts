@@ -0,0 +1,122 @@
+import { inventoryService } from "./inventory-service";
+import {
+  DEFAULT_HORIZON_DAYS,
+  sparePartKitService,
+} from "./spare-part-kit-service";
+import {
+  PurchaseSuggestionLine,
+  PurchaseSuggestionReport,
+  SparePartStock,
+} from "@/types/inventory";
+
+const STOCK_PAGE_SIZE = 200; // Repuestos cargados por consulta
+
+/**
+ * Servicio para sugerir compras de repuestos
+ * Combina el stock disponible y el punto de reorden de cada repuesto con la
+ * demanda de los próximos mantenimientos de la flota
+ */
+class PurchaseSuggestionService {
+  constructor() {}
+
+  /**
+   * Obtener los repuestos que se deben comprar
+   * El stock proyectado es el disponible menos la demanda del horizonte; si
+   * queda por debajo del mínimo se sugiere reponer hasta el mínimo,
+   * redondeando al lote de compra
+   * @param userId - ID del usuario
+   * @param horizonDays - Días hacia adelante considerados
+   * @returns Repuestos a comprar, de mayor a menor faltante
+   */
+  async getSuggestions(
+    userId: string,
+    horizonDays: number = DEFAULT_HORIZON_DAYS
+  ): Promise<PurchaseSuggestionReport> {
+    try {
+      const forecast = await sparePartKitService.forecastDemand(
+        userId,
+        horizonDays
+      );
+
+      // Todos los repuestos: los que no tienen demanda también se reponen si
+      // están bajo el mínimo
+      const stockLevels: SparePartStock[] = [];
+      for (let offset = 0; ; offset += STOCK_PAGE_SIZE) {
+        const { data } = await inventoryService.getStockLevels(
+          userId,
+          STOCK_PAGE_SIZE,
+          offset
+        );
+        stockLevels.push(...data);
+        if (data.length < STOCK_PAGE_SIZE) break;
+      }
+
+      const lines = new Map<string, PurchaseSuggestionLine>();
+      for (const stock of stockLevels) {
+        lines.set(stock.spare_part_id, {
+          spare_part_id: stock.spare_part_id,
+          spare_part: stock.spare_part,
+          on_hand: stock.on_hand,
+          min_stock: stock.min_stock,
+          reorder_quantity: stock.reorder_quantity,
+          demand: 0,
+          projected: 0,
+          suggested_quantity: 0,
+          estimated_cost: 0,
+        });
+      }
+
+      for (const demandLine of forecast.lines) {
+        const line = lines.get(demandLine.spare_part_id) || {
+          spare_part_id: demandLine.spare_part_id,
+          spare_part: demandLine.spare_part,
+          on_hand: 0,
+          min_stock: 0,
+          reorder_quantity: 0,
+          demand: 0,
+          projected: 0,
+          suggested_quantity: 0,
+          estimated_cost: 0,
+        };
+        line.demand += demandLine.quantity;
+        lines.set(demandLine.spare_part_id, line);
+      }
+
+      const suggestions: PurchaseSuggestionLine[] = [];
+      for (const line of Array.from(lines.values())) {
+        line.projected = line.on_hand - line.demand;
+        if (line.projected >= line.min_stock) continue;
+
+        const shortfall = line.min_stock - line.projected;
+        line.suggested_quantity =
+          line.reorder_quantity > 0
+            ? Math.ceil(shortfall / line.reorder_quantity) *
+              line.reorder_quantity
+            : shortfall;
+        line.estimated_cost =
+          line.suggested_quantity * (line.spare_part?.price ?? 0);
+        suggestions.push(line);
+      }
+
+      suggestions.sort(
+        (a, b) => a.projected - a.min_stock - (b.projected - b.min_stock)
+      );
+
+      return {
+        generated_at: new Date(),
+        horizon_days: forecast.horizon_days,
+        lines: suggestions,
+        total_cost: suggestions.reduce(
+          (total, line) => total + line.estimated_cost,
+          0
+        ),
+        without_kit: forecast.without_kit,
+      };
+    } catch (error) {
+      console.error("Error al obtener las sugerencias de compra:", error);
+      throw error;
+    }
+  }
+}
+
+export const purchaseSuggestionService = new PurchaseSuggestionService();
@@ -0,0 +1,446 @@
+import {
+  sparePartKitRepository,
+  SparePartKitError,
+} from "../repositories/spare-part-kit-repository";
+import { equipmentService } from "./equipment-service";
+import { maintenancePlanService } from "./maintenance-plan-service";
+import { maintenanceStageService } from "./maintenance-stage-service";
+import { sparePartService } from "./spare-part-service";
+import { SparePartKitErrorCodes } from "@/lib/errors";
+import {
+  EquipmentMaintenancePlan,
+  MaintenanceTypePlan,
+} from "@/types/equipment";
+import { MaintenancePlanWithStages } from "@/types/maintenance-plan";
+import {
+  MultiSparePartKit,
+  SparePartDemandForecast,
+  SparePartDemandLine,
+  SparePartDemandMaintenance,
+  SparePartKitBase,
+  SparePartKitCreate,
+  SparePartKitUpdate,
+} from "@/types/spare-part-kit";
+
+const MAX_ITEMS = 50; // Límite de la actualización masiva de repuestos
+const FLEET_PAGE_SIZE = 50; // Planes de equipo cargados por consulta
+export const DEFAULT_HORIZON_DAYS = 30;
+
+/**
+ * Servicio para gestionar kits de repuestos
+ * Un kit lista los repuestos que consume un tipo de mantenimiento o una
+ * etapa del plan; se aplica al crear un registro y permite pronosticar la
+ * demanda de repuestos de los próximos mantenimientos de la flota
+ */
+class SparePartKitService {
+  private repository = sparePartKitRepository;
+
+  constructor() {}
+
+  /**
+   * Crear un nuevo kit
+   * @param kit - Datos del kit y sus repuestos
+   * @returns El ID y fecha de creación del kit
+   */
+  async create(
+    kit: SparePartKitCreate
+  ): Promise<{ id: string; created_at: Date }> {
+    try {
+      if (!kit.name?.trim()) {
+        throw new SparePartKitError(
+          SparePartKitErrorCodes.INVALID_NAME,
+          "El nombre del kit es requerido"
+        );
+      }
+
+      await this.validateOwner(kit);
+      await this.validateItems(kit.items, kit.user_id);
+
+      return await this.repository.create({ ...kit, name: kit.name.trim() });
+    } catch (error) {
+      console.error("Error al crear el kit de repuestos:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Actualizar un kit
+   * @param kit - Datos a actualizar
+   * @returns El ID del kit actualizado
+   */
+  async update(kit: SparePartKitUpdate): Promise<{ id: string }> {
+    try {
+      if (kit.name !== undefined && !kit.name.trim()) {
+        throw new SparePartKitError(
+          SparePartKitErrorCodes.INVALID_NAME,
+          "El nombre del kit no puede estar vacío"
+        );
+      }
+
+      if (kit.items) {
+        await this.validateItems(kit.items, kit.user_id);
+      }
+
+      return await this.repository.update({ ...kit, name: kit.name?.trim() });
+    } catch (error) {
+      console.error("Error al actualizar el kit de repuestos:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Obtener un kit por su ID
+   * @param id - ID del kit
+   * @param userId - ID del usuario
+   * @returns El kit encontrado o null
+   */
+  async getById(id: string, userId: string): Promise<SparePartKitBase | null> {
+    try {
+      return await this.repository.getById(id, userId);
+    } catch (error) {
+      console.error("Error al obtener el kit de repuestos:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Obtener los kits del usuario
+   * @param userId - ID del usuario
+   * @param owner - Tipo de mantenimiento o etapa (opcional)
+   * @returns Lista paginada de kits
+   */
+  async getAll(
+    userId: string,
+    owner: { maintenance_type_id?: string; maintenance_stage_id?: string } = {},
+    limit: number = 100,
+    offset: number = 0
+  ): Promise<MultiSparePartKit> {
+    try {
+      return await this.repository.getAll(userId, owner, limit, offset);
+    } catch (error) {
+      console.error("Error al obtener los kits de repuestos:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Eliminar un kit
+   * @param id - ID del kit
+   * @param userId - ID del usuario
+   * @returns El ID del kit eliminado
+   */
+  async delete(id: string, userId: string): Promise<{ id: string }> {
+    try {
+      return await this.repository.delete(id, userId);
+    } catch (error) {
+      console.error("Error al eliminar el kit de repuestos:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Obtener el kit que aplica a un mantenimiento de un equipo
+   * Se usa el kit de la etapa del plan del equipo para ese tipo de
+   * mantenimiento y, si no tiene, el del tipo de mantenimiento
+   * @param equipmentId - ID del equipo (opcional)
+   * @param maintenanceTypeId - ID del tipo de mantenimiento
+   * @param userId - ID del usuario
+   * @returns El kit encontrado o null
+   */
+  async resolve(
+    equipmentId: string | undefined,
+    maintenanceTypeId: string,
+    userId: string
+  ): Promise<SparePartKitBase | null> {
+    try {
+      const equipment = equipmentId
+        ? await equipmentService.getById(equipmentId)
+        : null;
+      const plan = equipment?.maintenance_plan_id
+        ? await maintenancePlanService.getWithStages(
+            equipment.maintenance_plan_id,
+            userId
+          )
+        : null;
+
+      return await this.resolveForPlan(plan, maintenanceTypeId, userId);
+    } catch (error) {
+      console.error("Error al resolver el kit de repuestos:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Pronosticar la demanda de repuestos de los próximos mantenimientos
+   * Para cada equipo se toma el próximo mantenimiento del plan cuya fecha
+   * estimada vence dentro del horizonte y se suman los repuestos de su kit
+   * @param userId - ID del usuario
+   * @param horizonDays - Días hacia adelante considerados
+   * @returns Repuestos requeridos y mantenimientos que los consumen
+   */
+  async forecastDemand(
+    userId: string,
+    horizonDays: number = DEFAULT_HORIZON_DAYS
+  ): Promise<SparePartDemandForecast> {
+    try {
+      if (!Number.isInteger(horizonDays) || horizonDays < 1) {
+        throw new Error("El horizonte debe ser un número entero de días");
+      }
+
+      // Próximos mantenimientos de la flota que vencen dentro del horizonte,
+      // con los planes por páginas
+      const plans = new Map<
+        string,
+        Promise<MaintenancePlanWithStages | null>
+      >();
+      const due: {
+        equipmentPlan: EquipmentMaintenancePlan;
+        maintenanceType: MaintenanceTypePlan;
+        stageId?: string;
+        daysUntilDue: number;
+      }[] = [];
+      for (let offset = 0; ; offset += FLEET_PAGE_SIZE) {
+        const { data: equipmentPlans } =
+          await equipmentService.getMaintenancePlan(
+            userId,
+            FLEET_PAGE_SIZE,
+            offset
+          );
+
+        for (const equipmentPlan of equipmentPlans) {
+          const { equipment, next_maintenance_type, forecast } = equipmentPlan;
+          const daysUntilDue =
+            forecast?.days_until_due ?? equipmentPlan.remaining_days;
+          if (
+            !next_maintenance_type ||
+            daysUntilDue === undefined ||
+            daysUntilDue > horizonDays
+          ) {
+            continue;
+          }
+
+          const planId = equipment.maintenance_plan_id;
+          if (planId && !plans.has(planId)) {
+            plans.set(
+              planId,
+              maintenancePlanService.getWithStages(planId, userId)
+            );
+          }
+          const plan = planId ? await plans.get(planId)! : null;
+
+          due.push({
+            equipmentPlan,
+            maintenanceType: next_maintenance_type,
+            stageId: plan?.stages.find(
+              (stage) =>
+                stage.maintenance_type_id === next_maintenance_type.id
+            )?.id,
+            daysUntilDue,
+          });
+        }
+
+        if (equipmentPlans.length < FLEET_PAGE_SIZE) break;
+      }
+
+      // Kits de las etapas y de los tipos con una sola consulta; el de la
+      // etapa tiene prioridad sobre el del tipo
+      const stageIds = Array.from(
+        new Set(
+          due.map((item) => item.stageId).filter((id): id is string => !!id)
+        )
+      );
+      const typeIds = Array.from(
+        new Set(due.map((item) => item.maintenanceType.id))
+      );
+      const kits =
+        due.length > 0
+          ? await this.repository.getByOwners(userId, stageIds, typeIds)
+          : [];
+      const stageKits = new Map<string, SparePartKitBase>();
+      const typeKits = new Map<string, SparePartKitBase>();
+      for (const kit of kits) {
+        const [owners, ownerId] = kit.maintenance_stage_id
+          ? [stageKits, kit.maintenance_stage_id]
+          : [typeKits, kit.maintenance_type_id];
+        if (ownerId && !owners.has(ownerId)) owners.set(ownerId, kit);
+      }
+
+      const maintenances: SparePartDemandMaintenance[] = [];
+      const lines = new Map<string, SparePartDemandLine>();
+      let withoutKit = 0;
+
+      for (const item of due) {
+        const { equipment, forecast } = item.equipmentPlan;
+        const kit =
+          (item.stageId && stageKits.get(item.stageId)) ||
+          typeKits.get(item.maintenanceType.id);
+        if (!kit || kit.items.length === 0) {
+          withoutKit++;
+          continue;
+        }
+
+        maintenances.push({
+          equipment_id: equipment.id,
+          code: equipment.code,
+          license_plate: equipment.license_plate,
+          maintenance_type: item.maintenanceType,
+          kit_id: kit.id,
+          kit_name: kit.name,
+          predicted_date: forecast?.predicted_date,
+          days_until_due: item.daysUntilDue,
+        });
+
+        for (const kitItem of kit.items) {
+          const line = lines.get(kitItem.spare_part_id) || {
+            spare_part_id: kitItem.spare_part_id,
+            spare_part: kitItem.spare_part,
+            quantity: 0,
+            estimated_cost: 0,
+            maintenance_count: 0,
+          };
+          line.quantity += kitItem.quantity;
+          line.estimated_cost +=
+            kitItem.quantity * (kitItem.spare_part?.price ?? 0);
+          line.maintenance_count++;
+          lines.set(kitItem.spare_part_id, line);
+        }
+      }
+
+      return {
+        generated_at: new Date(),
+        horizon_days: horizonDays,
+        lines: Array.from(lines.values()).sort(
+          (a, b) => b.quantity - a.quantity
+        ),
+        maintenances: maintenances.sort(
+          (a, b) => (a.days_until_due ?? 0) - (b.days_until_due ?? 0)
+        ),
+        without_kit: withoutKit,
+      };
+    } catch (error) {
+      console.error("Error al pronosticar la demanda de repuestos:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Obtener el kit de la etapa del plan para un tipo de mantenimiento o, si
+   * no tiene, el del tipo de mantenimiento
+   */
+  private async resolveForPlan(
+    plan: MaintenancePlanWithStages | null,
+    maintenanceTypeId: string,
+    userId: string
+  ): Promise<SparePartKitBase | null> {
+    const stage = plan?.stages.find(
+      (item) => item.maintenance_type_id === maintenanceTypeId
+    );
+
+    if (stage) {
+      const { data: stageKits } = await this.repository.getAll(userId, {
+        maintenance_stage_id: stage.id,
+      });
+      if (stageKits[0]) return stageKits[0];
+    }
+
+    const { data: typeKits } = await this.repository.getAll(userId, {
+      maintenance_type_id: maintenanceTypeId,
+    });
+    return typeKits[0] || null;
+  }
+
+  /**
+   * Verificar que el kit pertenezca a un solo dueño, que exista y que no
+   * tenga otro kit
+   */
+  private async validateOwner(kit: SparePartKitCreate): Promise<void> {
+    const { maintenance_type_id, maintenance_stage_id } = kit;
+    if (!!maintenance_type_id === !!maintenance_stage_id) {
+      throw new SparePartKitError(
+        SparePartKitErrorCodes.INVALID_OWNER,
+        "El kit debe pertenecer a un tipo de mantenimiento o a una etapa"
+      );
+    }
+
+    if (maintenance_stage_id) {
+      const stage = await maintenanceStageService.getById(
+        maintenance_stage_id,
+        kit.user_id
+      );
+      if (!stage) {
+        throw new SparePartKitError(
+          SparePartKitErrorCodes.NOT_FOUND,
+          `Etapa con ID ${maintenance_stage_id} no encontrada`
+        );
+      }
+    }
+
+    const { total } = await this.repository.getAll(
+      kit.user_id,
+      { maintenance_type_id, maintenance_stage_id },
+      1,
+      0
+    );
+    if (total > 0) {
+      throw new SparePartKitError(
+        SparePartKitErrorCodes.DUPLICATE_OWNER,
+        maintenance_stage_id
+          ? "La etapa ya tiene un kit de repuestos"
+          : "El tipo de mantenimiento ya tiene un kit de repuestos"
+      );
+    }
+  }
+
+  /**
+   * Validar los repuestos del kit
+   */
+  private async validateItems(
+    items: SparePartKitCreate["items"],
+    userId: string
+  ): Promise<void> {
+    if (!Array.isArray(items) || items.length === 0) {
+      throw new SparePartKitError(
+        SparePartKitErrorCodes.INVALID_ITEM,
+        "El kit debe tener al menos un repuesto"
+      );
+    }
+
+    if (items.length > MAX_ITEMS) {
+      throw new SparePartKitError(
+        SparePartKitErrorCodes.INVALID_ITEM,
+        `El kit no puede tener más de ${MAX_ITEMS} repuestos`
+      );
+    }
+
+    const sparePartIds = items.map((item) => item.spare_part_id);
+    if (new Set(sparePartIds).size !== sparePartIds.length) {
+      throw new SparePartKitError(
+        SparePartKitErrorCodes.DUPLICATE_SPARE_PART,
+        "El kit tiene repuestos duplicados"
+      );
+    }
+
+    for (const item of items) {
+      if (!Number.isFinite(item.quantity) || item.quantity <= 0) {
+        throw new SparePartKitError(
+          SparePartKitErrorCodes.INVALID_ITEM,
+          "La cantidad de cada repuesto debe ser mayor a cero",
+          { spare_part_id: item.spare_part_id }
+        );
+      }
+
+      const sparePart = await sparePartService.getById(
+        item.spare_part_id,
+        userId
+      );
+      if (!sparePart) {
+        throw new SparePartKitError(
+          SparePartKitErrorCodes.INVALID_ITEM,
+          `Repuesto con ID ${item.spare_part_id} no encontrado`
+        );
+      }
+    }
+  }
+}
+
+export const sparePartKitService = new SparePartKitService();
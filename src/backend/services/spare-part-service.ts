@@ -1,8 +1,12 @@
 import { sparePartRepository } from "../repositories/spare-part-repository";
+import { purchaseOrderRepository } from "../repositories/purchase-order-repository";
+import { maintenanceSparePartRepository } from "../repositories/maintenance-spare-part-repository";
+import { unitOfWork } from "../repositories/unit-of-work";
 import {
   MultiSparePart,
   SparePartBase,
   SparePartCreate,
+  SparePartPriceTrend,
   SparePartUpdate,
 } from "@/types/spare-part";
 
@@ -12,6 +16,7 @@ class SparePartService {
   constructor() {}
   /**
    * Crear un nuevo repuesto
+   * Sin tipos de equipo compatibles el repuesto sirve para cualquier equipo
    * @param sparePart - Datos del repuesto a crear
    * @returns El repuesto creado
    */
@@ -35,9 +40,22 @@ class SparePartService {
 
       const sparePartData: SparePartCreate = {
         ...sparePart,
+        compatible_equipment_types: this.normalizeEquipmentTypes(
+          sparePart.compatible_equipment_types
+        ),
       };
 
-      return await this.repository.create(sparePartData);
+      return await unitOfWork.run(async () => {
+        const result = await this.repository.create(sparePartData);
+        if (sparePartData.compatible_equipment_types?.length) {
+          await this.repository.setCompatibleEquipmentTypes(
+            result.id,
+            sparePartData.compatible_equipment_types,
+            sparePart.user_id
+          );
+        }
+        return result;
+      });
     } catch (error) {
       console.error("Error en SparePartService.create:", error);
       throw error;
@@ -69,6 +87,22 @@ class SparePartService {
     }
   }
 
+  /**
+   * Obtener los repuestos de un usuario con los IDs indicados
+   * @param ids - IDs de los repuestos
+   * @param userId - ID del usuario
+   * @returns Repuestos encontrados; los IDs inexistentes se omiten
+   */
+  async getByIds(ids: string[], userId: string): Promise<SparePartBase[]> {
+    try {
+      if (ids.length === 0) return [];
+      return await this.repository.getByIds(ids, userId);
+    } catch (error) {
+      console.error("Error en SparePartService.getByIds:", error);
+      throw error;
+    }
+  }
+
   /**
    * Obtener todos los repuestos de un usuario con paginación
    * @param limit - Límite de resultados
@@ -95,6 +129,7 @@ class SparePartService {
 
   /**
    * Actualizar un repuesto por su ID
+   * Si cambia el precio, el precio anterior queda en el historial
    * @param sparePart - Nuevos datos del repuesto
    * @param userId - ID del usuario
    * @returns El ID del repuesto actualizado
@@ -141,7 +176,38 @@ class SparePartService {
         throw new Error("La URL de la imagen no es válida");
       }
 
-      return await this.repository.update(sparePart);
+      return await unitOfWork.run(async () => {
+        const result = await this.repository.update(sparePart);
+        if (
+          sparePart.price !== undefined &&
+          sparePart.price !== existing.price
+        ) {
+          await this.repository.addPriceChange(
+            sparePart.id,
+            existing.price,
+            sparePart.price,
+            userId
+          );
+        }
+        if (
+          sparePart.discontinued !== undefined &&
+          sparePart.discontinued !== (existing.discontinued ?? false)
+        ) {
+          await this.repository.setDiscontinued(
+            sparePart.id,
+            sparePart.discontinued,
+            userId
+          );
+        }
+        if (sparePart.compatible_equipment_types !== undefined) {
+          await this.repository.setCompatibleEquipmentTypes(
+            sparePart.id,
+            this.normalizeEquipmentTypes(sparePart.compatible_equipment_types),
+            userId
+          );
+        }
+        return result;
+      });
     } catch (error) {
       console.error("Error en SparePartService.update:", error);
       throw error;
@@ -177,6 +243,15 @@ class SparePartService {
       }
 
       // - Verificar que no esté en órdenes de compra pendientes
+      const pending = await purchaseOrderRepository.hasPendingSparePart(
+        id,
+        userId
+      );
+      if (pending) {
+        throw new Error(
+          "El repuesto no puede ser eliminado porque está en órdenes de compra pendientes"
+        );
+      }
 
       return await this.repository.delete({ id });
     } catch (error) {
@@ -185,6 +260,86 @@ class SparePartService {
     }
   }
 
+  /**
+   * Obtener la evolución del precio de un repuesto: cambios de precio de
+   * catálogo y precios con los que se registró en los mantenimientos
+   * @param id - ID del repuesto
+   * @param userId - ID del usuario
+   * @returns La tendencia de precios del repuesto
+   */
+  async getPriceTrend(
+    id: string,
+    userId: string
+  ): Promise<SparePartPriceTrend> {
+    try {
+      const sparePart = await this.getById(id, userId);
+      if (!sparePart) {
+        throw new Error(
+          "Repuesto no encontrado o no tiene permisos para consultarlo"
+        );
+      }
+
+      const [changes, snapshots] = await Promise.all([
+        this.repository.getPriceChanges(id, userId),
+        maintenanceSparePartRepository.getCostSnapshots(id, userId),
+      ]);
+
+      // El primer precio conocido es el anterior al primer cambio registrado
+      const prices = [
+        ...changes.flatMap((change) =>
+          change.previous_price !== undefined
+            ? [change.previous_price, change.price]
+            : [change.price]
+        ),
+        sparePart.price,
+      ];
+      const firstPrice = prices[0];
+
+      return {
+        spare_part_id: id,
+        current_price: sparePart.price,
+        last_purchase_cost: sparePart.last_purchase_cost,
+        min_price: Math.min(...prices),
+        max_price: Math.max(...prices),
+        change_percent:
+          firstPrice > 0
+            ? Math.round(
+                ((sparePart.price - firstPrice) / firstPrice) * 10000
+              ) / 100
+            : 0,
+        changes,
+        snapshots,
+      };
+    } catch (error) {
+      console.error("Error en SparePartService.getPriceTrend:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Registrar el costo unitario de la última compra recibida del repuesto
+   * @param id - ID del repuesto
+   * @param cost - Costo unitario de la compra
+   * @param userId - ID del usuario
+   * @returns El ID del repuesto
+   */
+  async setLastPurchaseCost(
+    id: string,
+    cost: number,
+    userId: string
+  ): Promise<{ id: string }> {
+    try {
+      if (!Number.isFinite(cost) || cost < 0) {
+        throw new Error("El costo de compra no puede ser negativo");
+      }
+
+      return await this.repository.setLastPurchaseCost(id, cost, userId);
+    } catch (error) {
+      console.error("Error en SparePartService.setLastPurchaseCost:", error);
+      throw error;
+    }
+  }
+
   /**
    * Validar si un repuesto está en uso
    * @param id - ID del repuesto
@@ -199,6 +354,23 @@ class SparePartService {
     }
   }
 
+  /**
+   * Quitar espacios, vacíos y duplicados de los tipos de equipo compatibles
+   * @param equipmentTypes - Tipos de equipo indicados
+   * @returns Los tipos de equipo normalizados
+   */
+  private normalizeEquipmentTypes(equipmentTypes?: string[]): string[] {
+    const types = (equipmentTypes || [])
+      .map((type) => type.trim())
+      .filter((type) => type !== "");
+    return types.filter(
+      (type, index) =>
+        types.findIndex(
+          (other) => other.toLowerCase() === type.toLowerCase()
+        ) === index
+    );
+  }
+
   /**
    * Validar si una URL es válida
    * @param url - URL a validar
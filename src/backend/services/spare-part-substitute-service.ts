@@ -0,0 +1,306 @@
+import {
+  sparePartSubstituteRepository,
+  SparePartSubstituteError,
+} from "../repositories/spare-part-substitute-repository";
+import { inventoryService } from "./inventory-service";
+import { sparePartService } from "./spare-part-service";
+import { SparePartSubstituteErrorCodes } from "@/lib/errors";
+import { SparePartBase } from "@/types/spare-part";
+import {
+  EquivalenceConsumptionReport,
+  SparePartEquivalent,
+  SparePartSubstituteBase,
+  SparePartSubstituteCreate,
+  SparePartSubstituteProposal,
+} from "@/types/spare-part-substitute";
+
+/**
+ * Servicio para gestionar los repuestos equivalentes
+ * Las equivalencias forman un grafo no dirigido; los repuestos conectados,
+ * directa o indirectamente, pertenecen al mismo grupo de equivalencia y se
+ * pueden usar uno en lugar de otro
+ */
+class SparePartSubstituteService {
+  private repository = sparePartSubstituteRepository;
+
+  constructor() {}
+
+  /**
+   * Registrar que dos repuestos son equivalentes
+   * @param substitute - Repuestos equivalentes y notas
+   * @returns El ID y fecha de creación de la equivalencia
+   */
+  async link(
+    substitute: SparePartSubstituteCreate
+  ): Promise<{ id: string; created_at: Date }> {
+    try {
+      if (substitute.spare_part_id === substitute.substitute_id) {
+        throw new SparePartSubstituteError(
+          SparePartSubstituteErrorCodes.SELF_SUBSTITUTE,
+          "Un repuesto no puede ser equivalente de sí mismo"
+        );
+      }
+
+      for (const id of [substitute.spare_part_id, substitute.substitute_id]) {
+        const sparePart = await sparePartService.getById(
+          id,
+          substitute.user_id
+        );
+        if (!sparePart) {
+          throw new SparePartSubstituteError(
+            SparePartSubstituteErrorCodes.SPARE_PART_NOT_FOUND,
+            "Repuesto no encontrado o no tiene permisos para usarlo",
+            { spare_part_id: id }
+          );
+        }
+      }
+
+      // Una equivalencia dentro del mismo grupo no agrega nada al grafo
+      const links = await this.repository.getAll(substitute.user_id);
+      const group = this.getGroup(substitute.spare_part_id, links);
+      if (group.includes(substitute.substitute_id)) {
+        throw new SparePartSubstituteError(
+          SparePartSubstituteErrorCodes.ALREADY_EQUIVALENT,
+          "Los repuestos ya son equivalentes",
+          { group }
+        );
+      }
+
+      return await this.repository.create({
+        ...substitute,
+        notes: substitute.notes?.trim() || undefined,
+      });
+    } catch (error) {
+      console.error("Error al registrar la equivalencia:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Eliminar una equivalencia
+   * @param id - ID de la equivalencia
+   * @param userId - ID del usuario
+   * @returns El ID de la equivalencia eliminada
+   */
+  async unlink(id: string, userId: string): Promise<{ id: string }> {
+    try {
+      return await this.repository.delete(id, userId);
+    } catch (error) {
+      console.error("Error al eliminar la equivalencia:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Obtener los repuestos equivalentes de un repuesto con su stock
+   * Primero los vigentes con más stock; los descontinuados al final
+   * @param sparePartId - ID del repuesto
+   * @param userId - ID del usuario
+   * @returns Los demás repuestos de su grupo de equivalencia
+   */
+  async getEquivalents(
+    sparePartId: string,
+    userId: string
+  ): Promise<SparePartEquivalent[]> {
+    try {
+      const links = await this.repository.getAll(userId);
+      const group = this.getGroup(sparePartId, links).filter(
+        (id) => id !== sparePartId
+      );
+      if (group.length === 0) {
+        return [];
+      }
+
+      const [spareParts, stocks] = await Promise.all([
+        this.getSparePartsById(group, userId),
+        inventoryService.getStockByIds(group, userId),
+      ]);
+
+      return group
+        .filter((id) => spareParts.has(id))
+        .map((id) => {
+          const link = links.find(
+            (item) =>
+              (item.spare_part_id === sparePartId &&
+                item.substitute_id === id) ||
+              (item.substitute_id === sparePartId && item.spare_part_id === id)
+          );
+          return {
+            spare_part: spareParts.get(id) as SparePartBase,
+            link_id: link?.id,
+            notes: link?.notes,
+            on_hand:
+              stocks.find((stock) => stock.spare_part_id === id)?.on_hand ??
+              0,
+          };
+        })
+        .sort(
+          (a, b) =>
+            Number(a.spare_part.discontinued ?? false) -
+              Number(b.spare_part.discontinued ?? false) ||
+            b.on_hand - a.on_hand
+        );
+    } catch (error) {
+      console.error("Error al obtener los repuestos equivalentes:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Proponer equivalentes para un repuesto sin stock o descontinuado
+   * @param sparePartId - ID del repuesto
+   * @param userId - ID del usuario
+   * @returns El stock del repuesto y sus equivalentes
+   */
+  async getProposal(
+    sparePartId: string,
+    userId: string
+  ): Promise<SparePartSubstituteProposal> {
+    try {
+      const sparePart = await sparePartService.getById(sparePartId, userId);
+      if (!sparePart) {
+        throw new SparePartSubstituteError(
+          SparePartSubstituteErrorCodes.SPARE_PART_NOT_FOUND,
+          "Repuesto no encontrado o no tiene permisos para consultarlo"
+        );
+      }
+
+      const [stock, equivalents] = await Promise.all([
+        inventoryService.getStock(sparePartId, userId),
+        this.getEquivalents(sparePartId, userId),
+      ]);
+      const discontinued = sparePart.discontinued ?? false;
+
+      return {
+        spare_part_id: sparePartId,
+        on_hand: stock.on_hand,
+        discontinued,
+        needs_substitute: discontinued || stock.on_hand <= 0,
+        equivalents,
+      };
+    } catch (error) {
+      console.error("Error al proponer repuestos equivalentes:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Consumo de repuestos agregado por grupo de equivalencia
+   * Los grupos con más unidades consumidas aparecen primero
+   * @param userId - ID del usuario
+   * @param from - Inicio del periodo (opcional)
+   * @param to - Fin del periodo (opcional)
+   * @returns El consumo de cada grupo y de cada repuesto del grupo
+   */
+  async getConsumptionReport(
+    userId: string,
+    from?: Date,
+    to?: Date
+  ): Promise<EquivalenceConsumptionReport> {
+    try {
+      const [links, consumption] = await Promise.all([
+        this.repository.getAll(userId),
+        inventoryService.getConsumption(userId, from, to),
+      ]);
+      const linkedGroups = this.getGroups(links);
+      const spareParts = await this.getSparePartsById(
+        linkedGroups.flat(),
+        userId
+      );
+
+      const groups = linkedGroups.map((group) => {
+        const lines = group.map((id) => {
+          const consumed = consumption.find(
+            (item) => item.spare_part_id === id
+          );
+          return {
+            spare_part_id: id,
+            spare_part: spareParts.get(id),
+            quantity: consumed?.quantity ?? 0,
+            total_cost: consumed?.total_cost ?? 0,
+          };
+        });
+        return {
+          spare_part_ids: group,
+          lines: lines.sort((a, b) => b.quantity - a.quantity),
+          quantity: lines.reduce((sum, line) => sum + line.quantity, 0),
+          total_cost: lines.reduce((sum, line) => sum + line.total_cost, 0),
+        };
+      });
+
+      return {
+        from,
+        to,
+        groups: groups.sort((a, b) => b.quantity - a.quantity),
+      };
+    } catch (error) {
+      console.error("Error al obtener el consumo por equivalencia:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Repuestos conectados con uno dado, incluido él mismo (recorrido en
+   * anchura del grafo de equivalencias)
+   * @param sparePartId - ID del repuesto
+   * @param links - Equivalencias del usuario
+   * @returns IDs de los repuestos del grupo
+   */
+  private getGroup(
+    sparePartId: string,
+    links: SparePartSubstituteBase[]
+  ): string[] {
+    const visited = new Set<string>([sparePartId]);
+    const queue = [sparePartId];
+    while (queue.length > 0) {
+      const current = queue.shift() as string;
+      for (const link of links) {
+        const next =
+          link.spare_part_id === current
+            ? link.substitute_id
+            : link.substitute_id === current
+            ? link.spare_part_id
+            : null;
+        if (next && !visited.has(next)) {
+          visited.add(next);
+          queue.push(next);
+        }
+      }
+    }
+    return Array.from(visited);
+  }
+
+  /**
+   * Todos los grupos de equivalencia con al menos dos repuestos
+   * @param links - Equivalencias del usuario
+   * @returns IDs de los repuestos de cada grupo
+   */
+  private getGroups(links: SparePartSubstituteBase[]): string[][] {
+    const grouped = new Set<string>();
+    const groups: string[][] = [];
+    for (const link of links) {
+      if (grouped.has(link.spare_part_id)) continue;
+
+      const group = this.getGroup(link.spare_part_id, links);
+      group.forEach((id) => grouped.add(id));
+      groups.push(group);
+    }
+    return groups;
+  }
+
+  /**
+   * Repuestos del usuario con los IDs indicados, indexados por ID
+   * @param ids - IDs de los repuestos
+   * @param userId - ID del usuario
+   * @returns Mapa de repuestos
+   */
+  private async getSparePartsById(
+    ids: string[],
+    userId: string
+  ): Promise<Map<string, SparePartBase>> {
+    const spareParts = await sparePartService.getByIds(ids, userId);
+    return new Map(spareParts.map((item) => [item.id, item]));
+  }
+}
+
+export const sparePartSubstituteService = new SparePartSubstituteService();
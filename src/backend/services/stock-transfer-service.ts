@@ -0,0 +1,166 @@
+import {
+  stockTransferRepository,
+  StockTransferError,
+} from "../repositories/stock-transfer-repository";
+import { unitOfWork } from "../repositories/unit-of-work";
+import { inventoryService } from "./inventory-service";
+import { warehouseService } from "./warehouse-service";
+import { StockTransferErrorCodes } from "@/lib/errors";
+import {
+  MultiStockTransfer,
+  StockTransferBase,
+  StockTransferCreate,
+} from "@/types/stock-transfer";
+
+const MAX_ITEMS = 50;
+
+/**
+ * Servicio para gestionar transferencias de stock entre ubicaciones
+ * Cada repuesto transferido genera una salida en el origen y un ingreso en el
+ * destino dentro de la misma transacción que el documento
+ */
+class StockTransferService {
+  private repository = stockTransferRepository;
+
+  constructor() {}
+
+  /**
+   * Crear una transferencia y mover el stock
+   * @param transfer - Ubicaciones de origen y destino y repuestos
+   * @returns El ID y fecha de creación de la transferencia
+   */
+  async create(
+    transfer: StockTransferCreate
+  ): Promise<{ id: string; created_at: Date }> {
+    try {
+      this.validateItems(transfer);
+
+      if (transfer.source_warehouse_id === transfer.destination_warehouse_id) {
+        throw new StockTransferError(
+          StockTransferErrorCodes.SAME_WAREHOUSE,
+          "La ubicación de origen y la de destino deben ser distintas"
+        );
+      }
+
+      return await unitOfWork.run(async () => {
+        // Verificar que ambas ubicaciones existan y sean del usuario
+        await warehouseService.resolveId(
+          transfer.source_warehouse_id,
+          transfer.user_id
+        );
+        await warehouseService.resolveId(
+          transfer.destination_warehouse_id,
+          transfer.user_id
+        );
+
+        const result = await this.repository.create(transfer);
+
+        for (const item of transfer.items) {
+          await inventoryService.recordMovement({
+            spare_part_id: item.spare_part_id,
+            warehouse_id: transfer.source_warehouse_id,
+            movement_type: "transfer",
+            quantity: -item.quantity,
+            transfer_id: result.id,
+            notes: transfer.notes,
+            user_id: transfer.user_id,
+          });
+          await inventoryService.recordMovement({
+            spare_part_id: item.spare_part_id,
+            warehouse_id: transfer.destination_warehouse_id,
+            movement_type: "transfer",
+            quantity: item.quantity,
+            transfer_id: result.id,
+            notes: transfer.notes,
+            user_id: transfer.user_id,
+          });
+        }
+
+        return result;
+      });
+    } catch (error) {
+      console.error("Error al crear la transferencia de stock:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Obtener una transferencia por su ID
+   * @param id - ID de la transferencia
+   * @param userId - ID del usuario
+   * @returns La transferencia encontrada o null
+   */
+  async getById(
+    id: string,
+    userId: string
+  ): Promise<StockTransferBase | null> {
+    try {
+      return await this.repository.getById(id, userId);
+    } catch (error) {
+      console.error("Error al obtener la transferencia de stock:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Obtener las transferencias del usuario
+   * @param userId - ID del usuario
+   * @param warehouseId - Ubicación de origen o destino (opcional)
+   * @param limit - Límite de resultados
+   * @param offset - Desplazamiento para la paginación
+   * @returns Lista paginada de transferencias
+   */
+  async getAll(
+    userId: string,
+    warehouseId?: string,
+    limit: number = 100,
+    offset: number = 0
+  ): Promise<MultiStockTransfer> {
+    try {
+      return await this.repository.getAll(userId, warehouseId, limit, offset);
+    } catch (error) {
+      console.error("Error al obtener las transferencias de stock:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Validar los repuestos de la transferencia
+   */
+  private validateItems(transfer: StockTransferCreate): void {
+    const { items } = transfer;
+    if (!Array.isArray(items) || items.length === 0) {
+      throw new StockTransferError(
+        StockTransferErrorCodes.INVALID_ITEM,
+        "La transferencia debe tener al menos un repuesto"
+      );
+    }
+
+    if (items.length > MAX_ITEMS) {
+      throw new StockTransferError(
+        StockTransferErrorCodes.INVALID_ITEM,
+        `La transferencia no puede tener más de ${MAX_ITEMS} repuestos`
+      );
+    }
+
+    const sparePartIds = items.map((item) => item.spare_part_id);
+    if (new Set(sparePartIds).size !== sparePartIds.length) {
+      throw new StockTransferError(
+        StockTransferErrorCodes.DUPLICATE_SPARE_PART,
+        "La transferencia tiene repuestos duplicados"
+      );
+    }
+
+    for (const item of items) {
+      if (!Number.isFinite(item.quantity) || item.quantity <= 0) {
+        throw new StockTransferError(
+          StockTransferErrorCodes.INVALID_ITEM,
+          "La cantidad de cada repuesto debe ser mayor a cero",
+          { spare_part_id: item.spare_part_id }
+        );
+      }
+    }
+  }
+}
+
+export const stockTransferService = new StockTransferService();
@@ -0,0 +1,219 @@
+import {
+  supplierRepository,
+  SupplierError,
+} from "../repositories/supplier-repository";
+import { sparePartService } from "./spare-part-service";
+import { SupplierErrorCodes } from "@/lib/errors";
+import {
+  MultiSupplier,
+  SupplierBase,
+  SupplierCreate,
+  SupplierSparePart,
+  SupplierSparePartFilters,
+  SupplierSparePartSave,
+  SupplierUpdate,
+} from "@/types/supplier";
+
+/**
+ * Servicio para gestionar proveedores de repuestos
+ * Cada proveedor tiene su propio código y precio para los repuestos que
+ * vende, que se usan al preparar las órdenes de compra
+ */
+class SupplierService {
+  private repository = supplierRepository;
+
+  constructor() {}
+
+  /**
+   * Crear un nuevo proveedor
+   * @param supplier - Datos del proveedor
+   * @returns El ID y fecha de creación del proveedor
+   */
+  async create(
+    supplier: SupplierCreate
+  ): Promise<{ id: string; created_at: Date }> {
+    try {
+      this.validateName(supplier.name);
+
+      return await this.repository.create({
+        ...supplier,
+        name: supplier.name.trim(),
+      });
+    } catch (error) {
+      console.error("Error al crear el proveedor:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Actualizar un proveedor
+   * @param supplier - Datos a actualizar
+   * @returns El ID del proveedor actualizado
+   */
+  async update(supplier: SupplierUpdate): Promise<{ id: string }> {
+    try {
+      if (supplier.name !== undefined) {
+        this.validateName(supplier.name);
+      }
+
+      return await this.repository.update({
+        ...supplier,
+        name: supplier.name?.trim(),
+      });
+    } catch (error) {
+      console.error("Error al actualizar el proveedor:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Obtener un proveedor por su ID
+   * @param id - ID del proveedor
+   * @param userId - ID del usuario
+   * @returns El proveedor encontrado o null
+   */
+  async getById(id: string, userId: string): Promise<SupplierBase | null> {
+    try {
+      return await this.repository.getById(id, userId);
+    } catch (error) {
+      console.error("Error al obtener el proveedor:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Obtener los proveedores del usuario
+   * @param userId - ID del usuario
+   * @param limit - Límite de resultados
+   * @param offset - Desplazamiento para la paginación
+   * @returns Lista paginada de proveedores
+   */
+  async getAll(
+    userId: string,
+    limit: number = 100,
+    offset: number = 0
+  ): Promise<MultiSupplier> {
+    try {
+      return await this.repository.getAll(userId, limit, offset);
+    } catch (error) {
+      console.error("Error al obtener los proveedores:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Eliminar un proveedor
+   * No se puede eliminar un proveedor con órdenes de compra
+   * @param id - ID del proveedor
+   * @param userId - ID del usuario
+   * @returns El ID del proveedor eliminado
+   */
+  async delete(id: string, userId: string): Promise<{ id: string }> {
+    try {
+      return await this.repository.delete(id, userId);
+    } catch (error) {
+      console.error("Error al eliminar el proveedor:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Guardar el código y precio de un repuesto en un proveedor
+   * @param price - Proveedor, repuesto, código y precio
+   * @returns El ID del precio
+   */
+  async savePrice(price: SupplierSparePartSave): Promise<{ id: string }> {
+    try {
+      if (!Number.isFinite(price.price) || price.price < 0) {
+        throw new SupplierError(
+          SupplierErrorCodes.INVALID_PRICE,
+          "El precio debe ser mayor o igual a cero"
+        );
+      }
+
+      await this.getExisting(price.supplier_id, price.user_id);
+      const sparePart = await sparePartService.getById(
+        price.spare_part_id,
+        price.user_id
+      );
+      if (!sparePart) {
+        throw new SupplierError(
+          SupplierErrorCodes.NOT_FOUND,
+          `Repuesto con ID ${price.spare_part_id} no encontrado`
+        );
+      }
+
+      return await this.repository.savePrice({
+        ...price,
+        supplier_code: price.supplier_code?.trim() || undefined,
+      });
+    } catch (error) {
+      console.error("Error al guardar el precio del proveedor:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Obtener los precios de un proveedor o de un repuesto
+   * @param userId - ID del usuario
+   * @param filters - Proveedor o repuesto
+   * @returns Precios registrados
+   */
+  async getPrices(
+    userId: string,
+    filters: SupplierSparePartFilters = {}
+  ): Promise<SupplierSparePart[]> {
+    try {
+      return await this.repository.getPrices(userId, filters);
+    } catch (error) {
+      console.error("Error al obtener los precios del proveedor:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Eliminar el precio de un repuesto en un proveedor
+   * @param id - ID del precio
+   * @param userId - ID del usuario
+   * @returns El ID del precio eliminado
+   */
+  async deletePrice(id: string, userId: string): Promise<{ id: string }> {
+    try {
+      return await this.repository.deletePrice(id, userId);
+    } catch (error) {
+      console.error("Error al eliminar el precio del proveedor:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Obtener un proveedor que debe existir
+   * @param id - ID del proveedor
+   * @param userId - ID del usuario
+   * @returns El proveedor
+   */
+  async getExisting(id: string, userId: string): Promise<SupplierBase> {
+    const supplier = await this.repository.getById(id, userId);
+    if (!supplier) {
+      throw new SupplierError(
+        SupplierErrorCodes.NOT_FOUND,
+        `Proveedor con ID ${id} no encontrado`
+      );
+    }
+    return supplier;
+  }
+
+  /**
+   * Validar el nombre del proveedor
+   */
+  private validateName(name: string): void {
+    if (!name?.trim()) {
+      throw new SupplierError(
+        SupplierErrorCodes.INVALID_NAME,
+        "El nombre del proveedor es requerido"
+      );
+    }
+  }
+}
+
+export const supplierService = new SupplierService();
@@ -0,0 +1,148 @@
+import {
+  technicianRepository,
+  TechnicianError,
+} from "../repositories/technician-repository";
+import { TechnicianErrorCodes } from "@/lib/errors";
+import {
+  MultiTechnician,
+  TechnicianBase,
+  TechnicianCreate,
+  TechnicianUpdate,
+} from "@/types/technician";
+
+/**
+ * Servicio para gestionar los técnicos
+ * La tarifa por hora de cada técnico se usa para costear la mano de obra de
+ * los mantenimientos
+ */
+class TechnicianService {
+  private repository = technicianRepository;
+
+  constructor() {}
+
+  /**
+   * Crear un nuevo técnico
+   * @param technician - Datos del técnico
+   * @returns El ID y fecha de creación del técnico
+   */
+  async create(
+    technician: TechnicianCreate
+  ): Promise<{ id: string; created_at: Date }> {
+    try {
+      this.validateName(technician.name);
+      this.validateRate(technician.hourly_rate);
+
+      return await this.repository.create({
+        ...technician,
+        name: technician.name.trim(),
+        specialty: technician.specialty?.trim() || undefined,
+      });
+    } catch (error) {
+      console.error("Error al crear el técnico:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Actualizar un técnico
+   * El cambio de tarifa no afecta a los tiempos ya registrados
+   * @param technician - Datos a actualizar
+   * @returns El ID del técnico actualizado
+   */
+  async update(technician: TechnicianUpdate): Promise<{ id: string }> {
+    try {
+      if (technician.name !== undefined) {
+        this.validateName(technician.name);
+      }
+      if (technician.hourly_rate !== undefined) {
+        this.validateRate(technician.hourly_rate);
+      }
+
+      return await this.repository.update({
+        ...technician,
+        name: technician.name?.trim(),
+        specialty: technician.specialty?.trim(),
+      });
+    } catch (error) {
+      console.error("Error al actualizar el técnico:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Obtener un técnico por su ID
+   * @param id - ID del técnico
+   * @param userId - ID del usuario
+   * @returns El técnico encontrado o null
+   */
+  async getById(id: string, userId: string): Promise<TechnicianBase | null> {
+    try {
+      return await this.repository.getById(id, userId);
+    } catch (error) {
+      console.error("Error al obtener el técnico:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Obtener los técnicos del usuario
+   * @param userId - ID del usuario
+   * @param limit - Límite de resultados
+   * @param offset - Desplazamiento para la paginación
+   * @returns Lista paginada de técnicos
+   */
+  async getAll(
+    userId: string,
+    limit: number = 100,
+    offset: number = 0
+  ): Promise<MultiTechnician> {
+    try {
+      return await this.repository.getAll(userId, limit, offset);
+    } catch (error) {
+      console.error("Error al obtener los técnicos:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Eliminar un técnico
+   * No se puede eliminar un técnico con tiempos registrados
+   * @param id - ID del técnico
+   * @param userId - ID del usuario
+   * @returns El ID del técnico eliminado
+   */
+  async delete(id: string, userId: string): Promise<{ id: string }> {
+    try {
+      return await this.repository.delete(id, userId);
+    } catch (error) {
+      console.error("Error al eliminar el técnico:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Validar el nombre del técnico
+   */
+  private validateName(name: string): void {
+    if (!name?.trim()) {
+      throw new TechnicianError(
+        TechnicianErrorCodes.INVALID_NAME,
+        "El nombre del técnico es requerido"
+      );
+    }
+  }
+
+  /**
+   * Validar la tarifa por hora
+   */
+  private validateRate(hourlyRate: number): void {
+    if (!Number.isFinite(hourlyRate) || hourlyRate < 0) {
+      throw new TechnicianError(
+        TechnicianErrorCodes.INVALID_RATE,
+        "La tarifa por hora debe ser mayor o igual a cero"
+      );
+    }
+  }
+}
+
+export const technicianService = new TechnicianService();
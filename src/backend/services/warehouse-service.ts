@@ -0,0 +1,199 @@
+import {
+  warehouseRepository,
+  WarehouseError,
+} from "../repositories/warehouse-repository";
+import { unitOfWork } from "../repositories/unit-of-work";
+import { WarehouseErrorCodes } from "@/lib/errors";
+import {
+  MultiWarehouse,
+  WarehouseBase,
+  WarehouseCreate,
+  WarehouseUpdate,
+} from "@/types/warehouse";
+
+const DEFAULT_WAREHOUSE_NAME = "Almacén Principal";
+
+/**
+ * Servicio para gestionar ubicaciones de almacenamiento de repuestos
+ * El usuario siempre tiene una ubicación predeterminada, que recibe los
+ * movimientos de stock que no indican otra
+ */
+class WarehouseService {
+  private repository = warehouseRepository;
+
+  constructor() {}
+
+  /**
+   * Crear una nueva ubicación
+   * La primera ubicación del usuario siempre es la predeterminada
+   * @param warehouse - Datos de la ubicación
+   * @returns El ID y fecha de creación de la ubicación
+   */
+  async create(
+    warehouse: WarehouseCreate
+  ): Promise<{ id: string; created_at: Date }> {
+    try {
+      this.validateName(warehouse.name);
+
+      return await unitOfWork.run(async () => {
+        const { total } = await this.repository.getAll(warehouse.user_id, 1);
+
+        return await this.repository.create({
+          ...warehouse,
+          name: warehouse.name.trim(),
+          is_default: warehouse.is_default || total === 0,
+        });
+      });
+    } catch (error) {
+      console.error("Error al crear la ubicación:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Actualizar una ubicación
+   * @param warehouse - Datos a actualizar
+   * @returns El ID de la ubicación actualizada
+   */
+  async update(warehouse: WarehouseUpdate): Promise<{ id: string }> {
+    try {
+      if (warehouse.name !== undefined) {
+        this.validateName(warehouse.name);
+      }
+
+      const existing = await this.getExisting(warehouse.id, warehouse.user_id);
+      if (existing.is_default && warehouse.is_default === false) {
+        throw new WarehouseError(
+          WarehouseErrorCodes.DEFAULT_REQUIRED,
+          "Marque otra ubicación como predeterminada en lugar de desmarcar esta"
+        );
+      }
+
+      return await this.repository.update({
+        ...warehouse,
+        name: warehouse.name?.trim(),
+      });
+    } catch (error) {
+      console.error("Error al actualizar la ubicación:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Obtener una ubicación por su ID
+   * @param id - ID de la ubicación
+   * @param userId - ID del usuario
+   * @returns La ubicación encontrada o null
+   */
+  async getById(id: string, userId: string): Promise<WarehouseBase | null> {
+    try {
+      return await this.repository.getById(id, userId);
+    } catch (error) {
+      console.error("Error al obtener la ubicación:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Obtener las ubicaciones del usuario
+   * @param userId - ID del usuario
+   * @param limit - Límite de resultados
+   * @param offset - Desplazamiento para la paginación
+   * @returns Lista paginada de ubicaciones
+   */
+  async getAll(
+    userId: string,
+    limit: number = 100,
+    offset: number = 0
+  ): Promise<MultiWarehouse> {
+    try {
+      return await this.repository.getAll(userId, limit, offset);
+    } catch (error) {
+      console.error("Error al obtener las ubicaciones:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Eliminar una ubicación
+   * No se puede eliminar la predeterminada ni una que tenga stock
+   * @param id - ID de la ubicación
+   * @param userId - ID del usuario
+   * @returns El ID de la ubicación eliminada
+   */
+  async delete(id: string, userId: string): Promise<{ id: string }> {
+    try {
+      const existing = await this.getExisting(id, userId);
+      if (existing.is_default) {
+        throw new WarehouseError(
+          WarehouseErrorCodes.DEFAULT_REQUIRED,
+          "No se puede eliminar la ubicación predeterminada"
+        );
+      }
+
+      return await this.repository.delete(id, userId);
+    } catch (error) {
+      console.error("Error al eliminar la ubicación:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Obtener la ubicación a usar en un movimiento de stock
+   * Si no se indica una, se usa la predeterminada; si el usuario aún no tiene
+   * ubicaciones, se crea la predeterminada
+   * @param warehouseId - ID de la ubicación (opcional)
+   * @param userId - ID del usuario
+   * @returns El ID de la ubicación
+   */
+  async resolveId(
+    warehouseId: string | undefined,
+    userId: string
+  ): Promise<string> {
+    if (warehouseId) {
+      return (await this.getExisting(warehouseId, userId)).id;
+    }
+
+    const { data } = await this.repository.getAll(userId);
+    const current = data.find((warehouse) => warehouse.is_default) || data[0];
+    if (current) return current.id;
+
+    const created = await this.repository.create({
+      name: DEFAULT_WAREHOUSE_NAME,
+      is_default: true,
+      user_id: userId,
+    });
+    return created.id;
+  }
+
+  /**
+   * Obtener una ubicación que debe existir
+   */
+  private async getExisting(
+    id: string,
+    userId: string
+  ): Promise<WarehouseBase> {
+    const warehouse = await this.repository.getById(id, userId);
+    if (!warehouse) {
+      throw new WarehouseError(
+        WarehouseErrorCodes.NOT_FOUND,
+        `Ubicación con ID ${id} no encontrada`
+      );
+    }
+    return warehouse;
+  }
+
+  /**
+   * Validar el nombre de la ubicación
+   */
+  private validateName(name: string): void {
+    if (!name?.trim()) {
+      throw new WarehouseError(
+        WarehouseErrorCodes.INVALID_NAME,
+        "El nombre de la ubicación es requerido"
+      );
+    }
+  }
+}
+
+export const warehouseService = new WarehouseService();
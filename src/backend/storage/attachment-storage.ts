@@ -0,0 +1,45 @@
+import { LocalAttachmentStorage } from "./local-attachment-storage";
+import { S3AttachmentStorage } from "./s3-attachment-storage";
+
+/**
+ * Backend de almacenamiento de los archivos adjuntos
+ * Las claves son rutas relativas separadas por "/"
+ */
+export interface AttachmentStorage {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  delete(key: string): Promise<void>;
+}
+
+let storage: AttachmentStorage | null = null;
+
+/**
+ * Obtener el almacenamiento configurado con ATTACHMENT_STORAGE
+ * - local (por defecto): directorio ATTACHMENT_LOCAL_DIR
+ * - s3: bucket S3 o compatible (MinIO, R2, etc.)
+ */
+export function getAttachmentStorage(): AttachmentStorage {
+  if (storage) return storage;
+
+  const backend = process.env.ATTACHMENT_STORAGE || "local";
+  switch (backend) {
+    case "local":
+      storage = new LocalAttachmentStorage(
+        process.env.ATTACHMENT_LOCAL_DIR || "./storage/attachments"
+      );
+      break;
+    case "s3":
+      storage = new S3AttachmentStorage({
+        endpoint: process.env.S3_ENDPOINT,
+        region: process.env.S3_REGION || "us-east-1",
+        bucket: process.env.S3_BUCKET as string,
+        accessKeyId: process.env.S3_ACCESS_KEY_ID as string,
+        secretAccessKey: process.env.S3_SECRET_ACCESS_KEY as string,
+        forcePathStyle: process.env.S3_FORCE_PATH_STYLE === "true",
+      });
+      break;
+    default:
+      throw new Error(`Almacenamiento de adjuntos no soportado: ${backend}`);
+  }
+  return storage;
+}
@@ -0,0 +1,45 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { AttachmentStorage } from "./attachment-storage";
+
+/**
+ * Almacenamiento de adjuntos en el sistema de archivos local
+ * Las claves se guardan como rutas relativas al directorio base
+ */
+export class LocalAttachmentStorage implements AttachmentStorage {
+  private readonly baseDir: string;
+
+  constructor(baseDir: string) {
+    this.baseDir = path.resolve(baseDir);
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+  }
+
+  async get(key: string): Promise<Buffer> {
+    return await fs.readFile(this.resolve(key));
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await fs.unlink(this.resolve(key));
+    } catch (error) {
+      // El archivo ya no existe
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+    }
+  }
+
+  /**
+   * Ruta absoluta de una clave, sin permitir salir del directorio base
+   */
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.baseDir, key);
+    if (!filePath.startsWith(this.baseDir + path.sep)) {
+      throw new Error(`Clave de archivo inválida: ${key}`);
+    }
+    return filePath;
+  }
+}
@@ -0,0 +1,188 @@
+import { createHash, createHmac } from "crypto";
+import { AttachmentStorage } from "./attachment-storage";
+
+interface S3AttachmentStorageConfig extends S3Credentials {
+  endpoint?: string; // Por defecto el endpoint de AWS de la región
+  bucket: string;
+  forcePathStyle: boolean; // Requerido por la mayoría de servicios compatibles
+}
+
+/**
+ * Región y credenciales con las que se firman las peticiones
+ */
+export interface S3Credentials {
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+/**
+ * Petición a firmar; las cabeceras incluyen `x-amz-date` y no incluyen el
+ * host, que se toma de la URL
+ */
+export interface S3SignableRequest {
+  method: string;
+  url: URL;
+  headers: Record<string, string>;
+  payloadHash: string;
+}
+
+/**
+ * Calcular la cabecera Authorization de una petición a S3 con AWS
+ * Signature V4
+ * Se firman el host y todas las cabeceras de la petición, en el instante
+ * indicado por su cabecera `x-amz-date`
+ * @param request - Método, URL, cabeceras y hash del contenido
+ * @param credentials - Región y credenciales
+ * @returns Valor de la cabecera Authorization
+ */
+export function signS3Request(
+  request: S3SignableRequest,
+  credentials: S3Credentials
+): string {
+  const signed: Record<string, string> = { host: request.url.host };
+  for (const [name, value] of Object.entries(request.headers)) {
+    signed[name.toLowerCase()] = value.trim();
+  }
+  const amzDate = signed["x-amz-date"];
+  const date = amzDate.slice(0, 8);
+
+  const names = Object.keys(signed).sort();
+  const signedHeaders = names.join(";");
+  const canonicalRequest = [
+    request.method,
+    request.url.pathname,
+    "",
+    names.map((name) => `${name}:${signed[name]}\n`).join(""),
+    signedHeaders,
+    request.payloadHash,
+  ].join("\n");
+
+  const scope = `${date}/${credentials.region}/s3/aws4_request`;
+  const stringToSign = [
+    "AWS4-HMAC-SHA256",
+    amzDate,
+    scope,
+    sha256(canonicalRequest),
+  ].join("\n");
+
+  const signingKey = [date, credentials.region, "s3", "aws4_request"].reduce<
+    Buffer | string
+  >(
+    (current, part) => hmac(current, part),
+    `AWS4${credentials.secretAccessKey}`
+  );
+  const signature = hmac(signingKey, stringToSign).toString("hex");
+
+  return (
+    `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, ` +
+    `SignedHeaders=${signedHeaders}, Signature=${signature}`
+  );
+}
+
+function sha256(data: Buffer | string): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+function hmac(key: Buffer | string, data: string): Buffer {
+  return createHmac("sha256", key).update(data).digest();
+}
+
+/**
+ * Almacenamiento de adjuntos en un bucket S3 o compatible
+ * Las peticiones se firman con AWS Signature V4 sin depender del SDK
+ */
+export class S3AttachmentStorage implements AttachmentStorage {
+  private readonly config: S3AttachmentStorageConfig;
+
+  constructor(config: S3AttachmentStorageConfig) {
+    if (!config.bucket || !config.accessKeyId || !config.secretAccessKey) {
+      throw new Error(
+        "S3_BUCKET, S3_ACCESS_KEY_ID y S3_SECRET_ACCESS_KEY son requeridos"
+      );
+    }
+    this.config = config;
+  }
+
+  async put(key: string, data: Buffer, contentType: string): Promise<void> {
+    const res = await this.request("PUT", key, data, contentType);
+    if (!res.ok) {
+      throw new Error(`Error al subir ${key} a S3: ${res.status}`);
+    }
+  }
+
+  async get(key: string): Promise<Buffer> {
+    const res = await this.request("GET", key);
+    if (!res.ok) {
+      throw new Error(`Error al descargar ${key} de S3: ${res.status}`);
+    }
+    return Buffer.from(await res.arrayBuffer());
+  }
+
+  async delete(key: string): Promise<void> {
+    const res = await this.request("DELETE", key);
+    // S3 responde 204 aunque el objeto no exista
+    if (!res.ok && res.status !== 404) {
+      throw new Error(`Error al eliminar ${key} de S3: ${res.status}`);
+    }
+  }
+
+  /**
+   * Enviar una petición firmada para un objeto del bucket
+   */
+  private async request(
+    method: "GET" | "PUT" | "DELETE",
+    key: string,
+    body?: Buffer,
+    contentType?: string
+  ): Promise<Response> {
+    const url = this.objectUrl(key);
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, "");
+    const payloadHash = sha256(body ?? "");
+
+    // fetch agrega el host a partir de la URL; la firma lo incluye
+    const headers: Record<string, string> = {
+      "x-amz-content-sha256": payloadHash,
+      "x-amz-date": amzDate,
+    };
+    if (contentType) headers["content-type"] = contentType;
+
+    return await fetch(url, {
+      method,
+      headers: {
+        ...headers,
+        authorization: signS3Request(
+          { method, url, headers, payloadHash },
+          this.config
+        ),
+      },
+      body: body ? new Uint8Array(body) : undefined,
+      cache: "no-store",
+    });
+  }
+
+  /**
+   * URL del objeto con estilo de ruta (endpoint/bucket/clave) o de host
+   * virtual (bucket.endpoint/clave)
+   */
+  private objectUrl(key: string): URL {
+    const { endpoint, region, bucket, forcePathStyle } = this.config;
+    const base = new URL(endpoint || `https://s3.${region}.amazonaws.com`);
+    const path = key.split("/").map(this.encode).join("/");
+
+    if (forcePathStyle) {
+      return new URL(`${base.origin}/${bucket}/${path}`);
+    }
+    return new URL(`${base.protocol}//${bucket}.${base.host}/${path}`);
+  }
+
+  /**
+   * Codificar un segmento de la clave según RFC 3986
+   */
+  private encode(segment: string): string {
+    return encodeURIComponent(segment).replace(
+      /[!'()*]/g,
+      (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+    );
+  }
+}
@@ -0,0 +1,282 @@
+"use client";
+import { useEffect, useState } from "react";
+import { Modal } from "./Modal";
+import { Button } from "./ui/button";
+import { Checkbox } from "./ui/checkbox";
+import { Label } from "./ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import { toastVariables } from "./ToastVariables";
+import { priorityOptions } from "@/lib/utils";
+import { ActivityBase } from "@/types/activity";
+import {
+  ActivityChecklistBase,
+  ActivityChecklistItem,
+} from "@/types/activity-checklist";
+
+/**
+ * Editor de la lista de actividades por defecto de un tipo de mantenimiento
+ * o de una etapa del plan
+ */
+export const ActivityChecklistModal = ({
+  owner,
+  maintenanceTypeId,
+  title,
+  onClose,
+}: {
+  owner: { maintenance_type_id?: string; maintenance_stage_id?: string };
+  maintenanceTypeId: string;
+  title: string;
+  onClose: () => void;
+}) => {
+  const [activities, setActivities] = useState<ActivityBase[]>([]);
+  const [checklist, setChecklist] = useState<ActivityChecklistBase | null>(
+    null
+  );
+  const [items, setItems] = useState<Omit<ActivityChecklistItem, "activity">[]>(
+    []
+  );
+  const [loading, setLoading] = useState(false);
+
+  const ownerQuery = owner.maintenance_stage_id
+    ? `maintenance_stage_id=${owner.maintenance_stage_id}`
+    : `maintenance_type_id=${owner.maintenance_type_id}`;
+
+  useEffect(() => {
+    const fetchData = async () => {
+      try {
+        const [activitiesRes, checklistRes] = await Promise.all([
+          fetch("/api/activities?limit=1000"),
+          fetch(`/api/activity-checklists?${ownerQuery}`),
+        ]);
+        const [activitiesBody, checklistBody] = await Promise.all([
+          activitiesRes.json(),
+          checklistRes.json(),
+        ]);
+        if (!activitiesRes.ok || !checklistRes.ok) {
+          throw new Error(
+            activitiesBody.message ||
+              checklistBody.message ||
+              "Error al cargar la lista de actividades"
+          );
+        }
+
+        setActivities(
+          (activitiesBody.data.data as ActivityBase[]).filter((activity) =>
+            activity.maintenance_types.some(
+              (type) => type.id === maintenanceTypeId
+            )
+          )
+        );
+        const current = checklistBody.data as ActivityChecklistBase | null;
+        setChecklist(current);
+        setItems(
+          (current?.items || []).map((item) => ({
+            activity_id: item.activity_id,
+            priority: item.priority,
+            mandatory: item.mandatory ?? false,
+          }))
+        );
+      } catch (error) {
+        console.error("Error fetching activity checklist:", error);
+        toastVariables.error(
+          error instanceof Error
+            ? error.message
+            : "Error al cargar la lista de actividades."
+        );
+      }
+    };
+    fetchData();
+  }, [ownerQuery, maintenanceTypeId]);
+
+  const toggleActivity = (activityId: string, checked: boolean) =>
+    setItems((prev) =>
+      checked
+        ? [
+            ...prev,
+            { activity_id: activityId, priority: "no", mandatory: false },
+          ]
+        : prev.filter((item) => item.activity_id !== activityId)
+    );
+
+  const setPriority = (
+    activityId: string,
+    priority: ActivityChecklistItem["priority"]
+  ) =>
+    setItems((prev) =>
+      prev.map((item) =>
+        item.activity_id === activityId ? { ...item, priority } : item
+      )
+    );
+
+  const setMandatory = (activityId: string, mandatory: boolean) =>
+    setItems((prev) =>
+      prev.map((item) =>
+        item.activity_id === activityId ? { ...item, mandatory } : item
+      )
+    );
+
+  const handleSave = async () => {
+    setLoading(true);
+    try {
+      const res = await fetch("/api/activity-checklists", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...owner, items }),
+      });
+      const body = await res.json();
+      if (!res.ok) {
+        throw new Error(body.message || "Error al guardar la lista");
+      }
+
+      toastVariables.success(body.message);
+      onClose();
+    } catch (error) {
+      console.error("Error saving activity checklist:", error);
+      toastVariables.error(
+        error instanceof Error ? error.message : "Error al guardar la lista."
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!checklist) return;
+
+    setLoading(true);
+    try {
+      const res = await fetch("/api/activity-checklists", {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: checklist.id }),
+      });
+      const body = await res.json();
+      if (!res.ok) {
+        throw new Error(body.message || "Error al eliminar la lista");
+      }
+
+      toastVariables.success(body.message);
+      onClose();
+    } catch (error) {
+      console.error("Error deleting activity checklist:", error);
+      toastVariables.error(
+        error instanceof Error ? error.message : "Error al eliminar la lista."
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Modal onClose={onClose}>
+      <div className="p-4 w-[90vw] max-w-xl max-h-[80vh] overflow-y-auto space-y-4">
+        <div>
+          <h2 className="text-xl font-semibold">Actividades por Defecto</h2>
+          <p className="text-sm text-gray-600">{title}</p>
+          <p className="text-xs text-gray-500 mt-1">
+            Se precargan al crear un registro de mantenimiento
+            {owner.maintenance_stage_id
+              ? " de esta etapa; reemplazan a las del tipo de mantenimiento."
+              : " de este tipo."}
+          </p>
+        </div>
+
+        {activities.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            No hay actividades asociadas a este tipo de mantenimiento.
+          </p>
+        ) : (
+          <ul className="space-y-2">
+            {activities.map((activity) => {
+              const item = items.find(
+                (current) => current.activity_id === activity.id
+              );
+              return (
+                <li
+                  key={activity.id}
+                  className="flex items-center justify-between gap-2 border rounded p-2"
+                >
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id={`checklist_${activity.id}`}
+                      checked={!!item}
+                      onCheckedChange={(checked) =>
+                        toggleActivity(activity.id, !!checked)
+                      }
+                    />
+                    <Label htmlFor={`checklist_${activity.id}`}>
+                      {activity.name}
+                      {activity.description && (
+                        <span className="block text-xs text-gray-500">
+                          {activity.description}
+                        </span>
+                      )}
+                    </Label>
+                  </div>
+                  {item && (
+                    <div className="flex items-center gap-2">
+                      <Checkbox
+                        id={`checklist_mandatory_${activity.id}`}
+                        checked={item.mandatory ?? false}
+                        onCheckedChange={(checked) =>
+                          setMandatory(activity.id, !!checked)
+                        }
+                      />
+                      <Label htmlFor={`checklist_mandatory_${activity.id}`}>
+                        Obligatoria
+                      </Label>
+                      <Select
+                        value={item.priority}
+                        onValueChange={(value) =>
+                          setPriority(
+                            activity.id,
+                            value as ActivityChecklistItem["priority"]
+                          )
+                        }
+                      >
+                        <SelectTrigger className="w-36">
+                          <SelectValue placeholder="Prioridad" />
+                        </SelectTrigger>
+                        <SelectContent className="z-[1000]">
+                          {priorityOptions.map((option) => (
+                            <SelectItem key={option.value} value={option.value}>
+                              {option.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        <div className="flex justify-between gap-2">
+          <Button
+            variant="destructive"
+            onClick={handleDelete}
+            disabled={loading || !checklist}
+          >
+            Eliminar Lista
+          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onClose}>
+              Cancelar
+            </Button>
+            <Button onClick={handleSave} disabled={loading}>
+              Guardar
+            </Button>
+          </div>
+        </div>
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,275 @@
+"use client";
+import { useCallback, useEffect, useRef, useState } from "react";
+import Image from "next/image";
+import { FileText, Paperclip, Trash2, Upload } from "lucide-react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import { toastVariables } from "./ToastVariables";
+import {
+  MaintenanceAttachmentBase,
+  MaintenanceAttachmentKind,
+} from "@/types/maintenance-attachment";
+
+const THUMBNAIL_SIZE = 320; // Lado mayor de la miniatura en píxeles
+
+const kindLabels: Record<MaintenanceAttachmentKind, string> = {
+  photo_before: "Foto antes",
+  photo_after: "Foto después",
+  invoice: "Factura",
+  diagnostic: "Diagnóstico",
+  other: "Otro",
+};
+
+/**
+ * Generar una miniatura JPEG de una imagen en el navegador
+ * Devuelve null si el navegador no puede decodificar la imagen
+ */
+const createThumbnail = async (file: File): Promise<Blob | null> => {
+  try {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(
+      THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height),
+      1
+    );
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    canvas
+      .getContext("2d")
+      ?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+
+    return await new Promise((resolve) =>
+      canvas.toBlob(resolve, "image/jpeg", 0.8)
+    );
+  } catch (error) {
+    console.error("Error creating thumbnail:", error);
+    return null;
+  }
+};
+
+const formatSize = (size: number) =>
+  size >= 1024 * 1024
+    ? `${(size / 1024 / 1024).toFixed(1)} MB`
+    : `${Math.max(Math.round(size / 1024), 1)} KB`;
+
+/**
+ * Adjuntos de un registro de mantenimiento: fotos antes y después, facturas
+ * y reportes de diagnóstico
+ */
+export const MaintenanceAttachmentsPanel = ({
+  recordId,
+  locked,
+}: {
+  recordId: string;
+  locked: boolean;
+}) => {
+  const [attachments, setAttachments] = useState<MaintenanceAttachmentBase[]>(
+    []
+  );
+  const [kind, setKind] = useState<MaintenanceAttachmentKind>("photo_before");
+  const [description, setDescription] = useState("");
+  const [file, setFile] = useState<File | null>(null);
+  const [loading, setLoading] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const fetchAttachments = useCallback(async () => {
+    try {
+      const res = await fetch(
+        `/api/maintenance-attachments?maintenance_record_id=${recordId}`
+      );
+      const body = await res.json();
+      if (!res.ok) {
+        throw new Error(body.message || "Error al cargar los adjuntos");
+      }
+
+      setAttachments(body.data);
+    } catch (error) {
+      console.error("Error fetching attachments:", error);
+      toastVariables.error(
+        error instanceof Error ? error.message : "Error al cargar los adjuntos."
+      );
+    }
+  }, [recordId]);
+
+  useEffect(() => {
+    fetchAttachments();
+  }, [fetchAttachments]);
+
+  const handleUpload = async () => {
+    if (!file) return;
+
+    setLoading(true);
+    try {
+      const formData = new FormData();
+      formData.append("file", file);
+      formData.append("maintenance_record_id", recordId);
+      formData.append("kind", kind);
+      formData.append("description", description);
+      if (file.type.startsWith("image/")) {
+        const thumbnail = await createThumbnail(file);
+        if (thumbnail) formData.append("thumbnail", thumbnail, "thumb.jpg");
+      }
+
+      const res = await fetch("/api/maintenance-attachments", {
+        method: "POST",
+        body: formData,
+      });
+      const body = await res.json();
+      if (!res.ok) {
+        throw new Error(body.message || "Error al adjuntar el archivo");
+      }
+
+      toastVariables.success(body.message);
+      setFile(null);
+      setDescription("");
+      if (fileInput.current) fileInput.current.value = "";
+      await fetchAttachments();
+    } catch (error) {
+      console.error("Error uploading attachment:", error);
+      toastVariables.error(
+        error instanceof Error ? error.message : "Error al adjuntar el archivo."
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async (attachment: MaintenanceAttachmentBase) => {
+    if (!confirm(`¿Eliminar el adjunto ${attachment.file_name}?`)) return;
+
+    setLoading(true);
+    try {
+      const res = await fetch("/api/maintenance-attachments", {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: attachment.id }),
+      });
+      const body = await res.json();
+      if (!res.ok) {
+        throw new Error(body.message || "Error al eliminar el adjunto");
+      }
+
+      toastVariables.success(body.message);
+      setAttachments((prev) =>
+        prev.filter((item) => item.id !== attachment.id)
+      );
+    } catch (error) {
+      console.error("Error deleting attachment:", error);
+      toastVariables.error(
+        error instanceof Error ? error.message : "Error al eliminar el adjunto."
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fileUrl = (id: string, thumbnail?: boolean) =>
+    `/api/maintenance-attachments/file?id=${id}${
+      thumbnail ? "&thumbnail=1" : ""
+    }`;
+
+  return (
+    <div className="space-y-3">
+      {!locked && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          <Select
+            value={kind}
+            onValueChange={(value) =>
+              setKind(value as MaintenanceAttachmentKind)
+            }
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="z-[1000]">
+              {Object.entries(kindLabels).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            placeholder="Descripción (opcional)"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+          />
+          <Input
+            ref={fileInput}
+            type="file"
+            accept="image/*,application/pdf,text/plain"
+            onChange={(e) => setFile(e.target.files?.[0] || null)}
+          />
+          <Button onClick={handleUpload} disabled={loading || !file}>
+            <Upload className="h-4 w-4 mr-2" />
+            Adjuntar
+          </Button>
+        </div>
+      )}
+
+      {attachments.length === 0 ? (
+        <p className="text-sm text-gray-500">No hay archivos adjuntos.</p>
+      ) : (
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+          {attachments.map((attachment) => (
+            <div
+              key={attachment.id}
+              className="rounded border p-1 text-xs space-y-1"
+            >
+              <a
+                href={fileUrl(attachment.id)}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex h-24 items-center justify-center bg-gray-50 rounded overflow-hidden"
+              >
+                {attachment.thumbnail_key ? (
+                  <Image
+                    src={fileUrl(attachment.id, true)}
+                    alt={attachment.description || attachment.file_name}
+                    width={THUMBNAIL_SIZE}
+                    height={THUMBNAIL_SIZE}
+                    unoptimized
+                    className="h-full w-full object-cover"
+                  />
+                ) : attachment.content_type === "application/pdf" ? (
+                  <FileText className="h-8 w-8 text-gray-400" />
+                ) : (
+                  <Paperclip className="h-8 w-8 text-gray-400" />
+                )}
+              </a>
+              <div className="flex items-start justify-between gap-1">
+                <div className="min-w-0">
+                  <p className="font-medium">{kindLabels[attachment.kind]}</p>
+                  <p className="truncate" title={attachment.file_name}>
+                    {attachment.description || attachment.file_name}
+                  </p>
+                  <p className="text-gray-500">
+                    {formatSize(attachment.size)}
+                  </p>
+                </div>
+                {!locked && (
+                  <button
+                    type="button"
+                    title="Eliminar adjunto"
+                    disabled={loading}
+                    onClick={() => handleDelete(attachment)}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
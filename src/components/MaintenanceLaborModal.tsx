@@ -0,0 +1,444 @@
+"use client";
+import { useCallback, useEffect, useState } from "react";
+import { LogOut, Trash2, UserPlus } from "lucide-react";
+import { Modal } from "./Modal";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Badge } from "./ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import { toastVariables } from "./ToastVariables";
+import { lockedRecordStatuses } from "@/lib/utils";
+import { MaintenanceRecordWithDetails } from "@/types/maintenance-record";
+import { MultiTechnician, TechnicianBase } from "@/types/technician";
+import {
+  LaborTimeEntry,
+  MaintenanceRecordLabor,
+  MaintenanceTechnicianAssignment,
+} from "@/types/maintenance-labor";
+
+// Valor del Select para asignar o registrar tiempo sobre todo el registro
+const WHOLE_RECORD = "record";
+
+/**
+ * Mano de obra de un registro de mantenimiento: técnicos asignados, marcas de
+ * entrada y salida, y horas y costo acumulados
+ */
+export const MaintenanceLaborModal = ({
+  record,
+  onClose,
+  onChange,
+}: {
+  record: MaintenanceRecordWithDetails;
+  onClose: () => void;
+  onChange?: (labor: MaintenanceRecordLabor) => void;
+}) => {
+  const [technicians, setTechnicians] = useState<TechnicianBase[]>([]);
+  const [assignments, setAssignments] = useState<
+    MaintenanceTechnicianAssignment[]
+  >([]);
+  const [entries, setEntries] = useState<LaborTimeEntry[]>([]);
+  const [labor, setLabor] = useState<MaintenanceRecordLabor | null>(null);
+  const [technicianId, setTechnicianId] = useState("");
+  const [activityId, setActivityId] = useState(WHOLE_RECORD);
+  const [clockIn, setClockIn] = useState("");
+  const [clockOut, setClockOut] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  const locked = lockedRecordStatuses.includes(record.status);
+  const activities = record.activities || [];
+
+  const fetchLabor = useCallback(async () => {
+    try {
+      const res = await fetch(
+        `/api/maintenance-labor?maintenance_record_id=${record.id}`
+      );
+      const body = await res.json();
+      if (!res.ok) {
+        throw new Error(body.message || "Error al cargar la mano de obra");
+      }
+
+      setAssignments(body.data.assignments);
+      setEntries(body.data.time_entries);
+      setLabor(body.data.labor);
+      return body.data.labor as MaintenanceRecordLabor;
+    } catch (error) {
+      console.error("Error fetching labor:", error);
+      toastVariables.error(
+        error instanceof Error
+          ? error.message
+          : "Error al cargar la mano de obra."
+      );
+      return null;
+    }
+  }, [record.id]);
+
+  useEffect(() => {
+    fetchLabor();
+  }, [fetchLabor]);
+
+  useEffect(() => {
+    const fetchTechnicians = async () => {
+      try {
+        const res = await fetch("/api/technicians?limit=1000");
+        if (!res.ok) {
+          throw new Error("Failed to fetch technicians");
+        }
+
+        const data = (await res.json()).data as MultiTechnician;
+        setTechnicians(data.data.filter((technician) => technician.active));
+      } catch (error) {
+        console.error("Error fetching technicians:", error);
+      }
+    };
+    fetchTechnicians();
+  }, []);
+
+  const activityName = (id?: string) => {
+    if (!id) return "Todo el registro";
+    return (
+      activities.find((activity) => activity.id === id)?.activity.name || id
+    );
+  };
+
+  const send = async (
+    url: string,
+    method: string,
+    payload: Record<string, unknown>,
+    fallback: string
+  ) => {
+    setLoading(true);
+    try {
+      const res = await fetch(url, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+      });
+      const body = await res.json();
+      if (!res.ok) {
+        throw new Error(body.message || fallback);
+      }
+
+      toastVariables.success(body.message);
+      const updated = await fetchLabor();
+      if (updated) onChange?.(updated);
+      return true;
+    } catch (error) {
+      console.error("Error updating labor:", error);
+      toastVariables.error(error instanceof Error ? error.message : fallback);
+      return false;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const selectedActivityId =
+    activityId === WHOLE_RECORD ? undefined : activityId;
+
+  const handleAssign = () =>
+    send(
+      "/api/maintenance-labor/assignments",
+      "POST",
+      {
+        maintenance_record_id: record.id,
+        maintenance_activity_id: selectedActivityId,
+        technician_id: technicianId,
+      },
+      "Error al asignar el técnico."
+    );
+
+  const handleClockIn = async () => {
+    const ok = await send(
+      "/api/maintenance-labor/time-entries",
+      "POST",
+      {
+        maintenance_record_id: record.id,
+        maintenance_activity_id: selectedActivityId,
+        technician_id: technicianId,
+        clock_in: clockIn ? new Date(clockIn).toISOString() : undefined,
+        clock_out: clockOut ? new Date(clockOut).toISOString() : undefined,
+      },
+      "Error al registrar el tiempo."
+    );
+    if (ok) {
+      setClockIn("");
+      setClockOut("");
+    }
+  };
+
+  const formatDateTime = (date: Date | string) =>
+    new Date(date).toLocaleString();
+
+  return (
+    <Modal onClose={onClose}>
+      <div className="p-4 w-[90vw] max-w-4xl max-h-[80vh] overflow-y-auto space-y-4">
+        <div>
+          <h2 className="text-xl font-semibold">Mano de Obra</h2>
+          <p className="text-sm text-gray-600">
+            {record.equipment?.license_plate} -{" "}
+            {record.maintenance_type?.type}
+          </p>
+        </div>
+
+        {labor && (
+          <div className="flex flex-wrap gap-2">
+            <Badge variant="secondary">
+              {labor.labor_hours.toFixed(2)} h
+            </Badge>
+            <Badge variant="secondary">
+              S/.{labor.labor_cost.toFixed(2)}
+            </Badge>
+            {record.duration_hours !== undefined && (
+              <Badge variant="outline">
+                Duración: {record.duration_hours.toFixed(2)} h
+              </Badge>
+            )}
+            {labor.open_entries > 0 && (
+              <Badge variant="destructive">
+                {labor.open_entries} sin salida
+              </Badge>
+            )}
+          </div>
+        )}
+
+        {!locked && (
+          <div className="grid grid-cols-1 sm:grid-cols-4 gap-2 items-end">
+            <div className="space-y-1 sm:col-span-2">
+              <Label>Técnico</Label>
+              <Select value={technicianId} onValueChange={setTechnicianId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Seleccione un técnico" />
+                </SelectTrigger>
+                <SelectContent className="z-[10000]">
+                  {technicians.map((technician) => (
+                    <SelectItem key={technician.id} value={technician.id}>
+                      {technician.name} - S/.
+                      {technician.hourly_rate.toFixed(2)} / h
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1 sm:col-span-2">
+              <Label>Actividad</Label>
+              <Select value={activityId} onValueChange={setActivityId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="z-[10000]">
+                  <SelectItem value={WHOLE_RECORD}>Todo el registro</SelectItem>
+                  {activities.map((activity) => (
+                    <SelectItem key={activity.id} value={activity.id}>
+                      {activity.activity.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="labor_clock_in">Entrada</Label>
+              <Input
+                id="labor_clock_in"
+                type="datetime-local"
+                value={clockIn}
+                onChange={(e) => setClockIn(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="labor_clock_out">Salida</Label>
+              <Input
+                id="labor_clock_out"
+                type="datetime-local"
+                value={clockOut}
+                onChange={(e) => setClockOut(e.target.value)}
+              />
+            </div>
+            <Button
+              variant="outline"
+              onClick={handleAssign}
+              disabled={loading || !technicianId}
+            >
+              <UserPlus className="h-4 w-4 mr-2" />
+              Asignar
+            </Button>
+            <Button
+              onClick={handleClockIn}
+              disabled={loading || !technicianId}
+            >
+              {clockOut ? "Registrar tiempo" : "Marcar entrada"}
+            </Button>
+            <p className="text-xs text-gray-500 sm:col-span-4">
+              Sin fecha de entrada se usa la hora actual; con salida se
+              registra un tiempo ya trabajado.
+            </p>
+          </div>
+        )}
+
+        <div>
+          <h3 className="font-semibold mb-2">Técnicos asignados</h3>
+          {assignments.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              No hay técnicos asignados.
+            </p>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {assignments.map((assignment) => (
+                <span
+                  key={assignment.id}
+                  className="flex items-center gap-1 rounded border px-2 py-1 text-sm"
+                >
+                  {assignment.technician?.name || assignment.technician_id}
+                  <span className="text-xs text-gray-500">
+                    ({activityName(assignment.maintenance_activity_id)})
+                  </span>
+                  {!locked && (
+                    <button
+                      type="button"
+                      disabled={loading}
+                      onClick={() =>
+                        send(
+                          "/api/maintenance-labor/assignments",
+                          "DELETE",
+                          { id: assignment.id },
+                          "Error al quitar la asignación."
+                        )
+                      }
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </button>
+                  )}
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div>
+          <h3 className="font-semibold mb-2">Registros de tiempo</h3>
+          {entries.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              No hay tiempos registrados.
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-gray-600">
+                    <th className="py-2 pr-2">Técnico</th>
+                    <th className="py-2 pr-2">Actividad</th>
+                    <th className="py-2 pr-2">Entrada</th>
+                    <th className="py-2 pr-2">Salida</th>
+                    <th className="py-2 pr-2 text-right">Horas</th>
+                    <th className="py-2 pr-2 text-right">Costo</th>
+                    <th className="py-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {entries.map((entry) => (
+                    <tr key={entry.id} className="border-b">
+                      <td className="py-2 pr-2">
+                        {entry.technician?.name || entry.technician_id}
+                      </td>
+                      <td className="py-2 pr-2">
+                        {activityName(entry.maintenance_activity_id)}
+                      </td>
+                      <td className="py-2 pr-2">
+                        {formatDateTime(entry.clock_in)}
+                      </td>
+                      <td className="py-2 pr-2">
+                        {entry.clock_out ? (
+                          formatDateTime(entry.clock_out)
+                        ) : (
+                          <Badge variant="destructive">En curso</Badge>
+                        )}
+                      </td>
+                      <td className="py-2 pr-2 text-right">
+                        {entry.hours !== undefined
+                          ? entry.hours.toFixed(2)
+                          : "-"}
+                      </td>
+                      <td className="py-2 pr-2 text-right">
+                        {entry.cost !== undefined
+                          ? `S/.${entry.cost.toFixed(2)}`
+                          : "-"}
+                      </td>
+                      <td className="py-2 text-right whitespace-nowrap">
+                        {!locked && !entry.clock_out && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Marcar salida"
+                            disabled={loading}
+                            onClick={() =>
+                              send(
+                                "/api/maintenance-labor/time-entries",
+                                "PUT",
+                                { id: entry.id },
+                                "Error al marcar la salida."
+                              )
+                            }
+                          >
+                            <LogOut className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {!locked && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            disabled={loading}
+                            onClick={() =>
+                              send(
+                                "/api/maintenance-labor/time-entries",
+                                "DELETE",
+                                { id: entry.id },
+                                "Error al eliminar el registro de tiempo."
+                              )
+                            }
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        {labor && labor.technicians.length > 0 && (
+          <div>
+            <h3 className="font-semibold mb-2">Resumen por técnico</h3>
+            <ul className="text-sm space-y-1">
+              {labor.technicians.map((technician) => (
+                <li
+                  key={technician.technician_id}
+                  className="flex justify-between"
+                >
+                  <span>{technician.name}</span>
+                  <span>
+                    {technician.hours.toFixed(2)} h - S/.
+                    {technician.cost.toFixed(2)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="flex justify-end">
+          <Button variant="outline" onClick={onClose}>
+            Cerrar
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
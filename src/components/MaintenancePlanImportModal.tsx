@@ -0,0 +1,190 @@
+"use client";
+import { useState } from "react";
+import { Modal } from "./Modal";
+import { Button } from "./ui/button";
+import { Checkbox } from "./ui/checkbox";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { toastVariables } from "./ToastVariables";
+import {
+  MaintenancePlanExport,
+  MaintenancePlanImportResult,
+} from "@/types/maintenance-plan-transfer";
+
+/**
+ * Modal para importar un plan de mantenimiento exportado desde otra cuenta
+ * Primero se simula la importación para mostrar los conflictos y los tipos de
+ * mantenimiento que se crearán
+ */
+export const MaintenancePlanImportModal = ({
+  onClose,
+  onImported,
+}: {
+  onClose: () => void;
+  onImported: () => void;
+}) => {
+  const [data, setData] = useState<MaintenancePlanExport | null>(null);
+  const [name, setName] = useState("");
+  const [rename, setRename] = useState(false);
+  const [preview, setPreview] = useState<MaintenancePlanImportResult | null>(
+    null
+  );
+  const [loading, setLoading] = useState(false);
+
+  const requestImport = async (
+    plan: MaintenancePlanExport,
+    dryRun: boolean,
+    options: { name: string; rename: boolean }
+  ) => {
+    setLoading(true);
+    try {
+      const res = await fetch("/api/maintenance-plan/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          data: plan,
+          name: options.name.trim() || undefined,
+          on_name_conflict: options.rename ? "rename" : "fail",
+          dry_run: dryRun,
+        }),
+      });
+      const body = await res.json();
+      if (!res.ok && !body.data) {
+        throw new Error(body.message || "Error al importar el plan");
+      }
+
+      const result = body.data as MaintenancePlanImportResult;
+      setPreview(result);
+
+      if (result.imported) {
+        toastVariables.success(body.message);
+        onImported();
+      }
+    } catch (error) {
+      console.error("Error importing maintenance plan:", error);
+      toastVariables.error(
+        error instanceof Error ? error.message : "Error al importar el plan."
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const plan = JSON.parse(await file.text()) as MaintenancePlanExport;
+      setData(plan);
+      setName("");
+      setRename(false);
+      await requestImport(plan, true, { name: "", rename: false });
+    } catch (error) {
+      console.error("Error reading maintenance plan file:", error);
+      setData(null);
+      setPreview(null);
+      toastVariables.error("El archivo no es un JSON válido.");
+    }
+  };
+
+  return (
+    <Modal onClose={onClose}>
+      <div className="p-4 w-[90vw] max-w-2xl max-h-[80vh] overflow-y-auto space-y-4">
+        <div>
+          <h2 className="text-xl font-semibold">Importar Plan</h2>
+          <p className="text-sm text-gray-600">
+            Selecciona un archivo JSON exportado desde otra cuenta.
+          </p>
+        </div>
+
+        <Input type="file" accept=".json" onChange={handleFileChange} />
+
+        {data && preview && (
+          <>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="import_plan_name">Nombre del plan</Label>
+                <Input
+                  id="import_plan_name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder={data.plan.name}
+                />
+              </div>
+              <div className="flex items-center gap-2 sm:mt-6">
+                <Checkbox
+                  id="import_rename"
+                  checked={rename}
+                  onCheckedChange={(checked) => setRename(checked === true)}
+                />
+                <Label htmlFor="import_rename">
+                  Renombrar si el nombre ya existe
+                </Label>
+              </div>
+            </div>
+
+            <p className="text-sm text-gray-700">
+              {data.stages.length} etapas · se importará como &quot;
+              {preview.name}&quot;
+            </p>
+
+            {preview.created_maintenance_types.length > 0 && (
+              <div className="text-sm">
+                <p className="font-medium">Tipos de mantenimiento a crear</p>
+                <ul className="list-disc pl-5 text-gray-600">
+                  {preview.created_maintenance_types.map((path) => (
+                    <li key={path}>{path}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {preview.existing_maintenance_types.length > 0 && (
+              <p className="text-sm text-gray-600">
+                {preview.existing_maintenance_types.length} tipos de
+                mantenimiento ya existen en la cuenta y se reutilizarán.
+              </p>
+            )}
+
+            {preview.conflicts.length > 0 && (
+              <div className="text-sm">
+                <p className="font-medium text-red-700">Conflictos</p>
+                <ul className="space-y-1">
+                  {preview.conflicts.map((conflict, index) => (
+                    <li key={index} className="p-2 rounded bg-red-50">
+                      {conflict.message}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </>
+        )}
+
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={onClose} className="flex-1">
+            Cancelar
+          </Button>
+          {data && (
+            <Button
+              variant="outline"
+              onClick={() => requestImport(data, true, { name, rename })}
+              disabled={loading}
+              className="flex-1"
+            >
+              Revisar
+            </Button>
+          )}
+          <Button
+            onClick={() => data && requestImport(data, false, { name, rename })}
+            disabled={loading || !data}
+            className="flex-1"
+          >
+            Importar
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
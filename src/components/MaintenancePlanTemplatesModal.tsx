@@ -0,0 +1,339 @@
+"use client";
+import { useEffect, useState } from "react";
+import { Trash2 } from "lucide-react";
+import { Modal } from "./Modal";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Textarea } from "./ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import { toastVariables } from "./ToastVariables";
+import {
+  MaintenancePlanBase,
+  MaintenancePlanWithStages,
+} from "@/types/maintenance-plan";
+import {
+  MaintenancePlanTemplateBase,
+  MultiMaintenancePlanTemplate,
+} from "@/types/maintenance-plan-template";
+
+/**
+ * Modal para crear un plan a partir de una plantilla
+ */
+export const MaintenancePlanTemplatesModal = ({
+  onClose,
+  onCreated,
+}: {
+  onClose: () => void;
+  onCreated: (plan: MaintenancePlanWithStages) => void;
+}) => {
+  const [templates, setTemplates] = useState<MaintenancePlanTemplateBase[]>(
+    []
+  );
+  const [templateId, setTemplateId] = useState<string>("");
+  const [name, setName] = useState("");
+  const [kilometerFactor, setKilometerFactor] = useState(1);
+  const [dayFactor, setDayFactor] = useState(1);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    const fetchTemplates = async () => {
+      try {
+        const res = await fetch("/api/maintenance-plan/templates");
+        const body = await res.json();
+        if (!res.ok) {
+          throw new Error(body.message || "Error al cargar las plantillas");
+        }
+        setTemplates((body.data as MultiMaintenancePlanTemplate).data);
+      } catch (error) {
+        console.error("Error fetching plan templates:", error);
+        toastVariables.error("Error al cargar las plantillas.");
+      }
+    };
+    fetchTemplates();
+  }, []);
+
+  const template = templates.find((t) => t.id === templateId);
+
+  const handleCreate = async () => {
+    if (!template) return;
+
+    setLoading(true);
+    try {
+      const res = await fetch("/api/maintenance-plan/templates/instantiate", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          template_id: template.id,
+          name: name.trim() || undefined,
+          kilometer_factor: kilometerFactor,
+          day_factor: dayFactor,
+        }),
+      });
+      const body = await res.json();
+      if (!res.ok) {
+        throw new Error(body.message || "Error al crear el plan");
+      }
+
+      toastVariables.success(body.message);
+      onCreated(body.data as MaintenancePlanWithStages);
+    } catch (error) {
+      console.error("Error instantiating plan template:", error);
+      toastVariables.error(
+        error instanceof Error ? error.message : "Error al crear el plan."
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!template) return;
+
+    setLoading(true);
+    try {
+      const res = await fetch("/api/maintenance-plan/templates", {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: template.id }),
+      });
+      const body = await res.json();
+      if (!res.ok) {
+        throw new Error(body.message || "Error al eliminar la plantilla");
+      }
+
+      setTemplates((prev) => prev.filter((t) => t.id !== template.id));
+      setTemplateId("");
+      toastVariables.success(body.message);
+    } catch (error) {
+      console.error("Error deleting plan template:", error);
+      toastVariables.error(
+        error instanceof Error
+          ? error.message
+          : "Error al eliminar la plantilla."
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Modal onClose={onClose}>
+      <div className="p-4 w-[90vw] max-w-2xl max-h-[80vh] overflow-y-auto space-y-4">
+        <h2 className="text-xl font-semibold">Crear Plan desde Plantilla</h2>
+
+        {templates.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            No hay plantillas. Guarda un plan como plantilla para reutilizarlo.
+          </p>
+        ) : (
+          <>
+            <div>
+              <Label htmlFor="template_id">Plantilla</Label>
+              <div className="flex gap-2">
+                <Select value={templateId} onValueChange={setTemplateId}>
+                  <SelectTrigger id="template_id">
+                    <SelectValue placeholder="Selecciona una plantilla" />
+                  </SelectTrigger>
+                  <SelectContent className="z-[1000]">
+                    {templates.map((t) => (
+                      <SelectItem key={t.id} value={t.id}>
+                        {t.name} ({t.stages.length} etapas)
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {template && (
+                  <Button
+                    variant="destructive"
+                    onClick={handleDelete}
+                    disabled={loading}
+                    title="Eliminar plantilla"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="template_plan_name">Nombre del plan</Label>
+              <Input
+                id="template_plan_name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder={template?.name || "Nombre del nuevo plan"}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="kilometer_factor">
+                  Factor de kilómetros/horas
+                </Label>
+                <Input
+                  id="kilometer_factor"
+                  type="number"
+                  step="0.05"
+                  min="0.05"
+                  value={kilometerFactor}
+                  onChange={(e) => setKilometerFactor(Number(e.target.value))}
+                />
+              </div>
+              <div>
+                <Label htmlFor="day_factor">Factor de días</Label>
+                <Input
+                  id="day_factor"
+                  type="number"
+                  step="0.05"
+                  min="0.05"
+                  value={dayFactor}
+                  onChange={(e) => setDayFactor(Number(e.target.value))}
+                />
+              </div>
+            </div>
+
+            {template && (
+              <table className="w-full text-sm border">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="p-2 text-left">#</th>
+                    <th className="p-2 text-left">Tipo</th>
+                    <th className="p-2 text-right">Kilómetros</th>
+                    <th className="p-2 text-right">Días</th>
+                    <th className="p-2 text-right">Horas</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {template.stages.map((stage) => (
+                    <tr key={stage.stage_index}>
+                      <td className="p-2">{stage.stage_index}</td>
+                      <td className="p-2">
+                        {stage.maintenance_type?.type ||
+                          stage.maintenance_type_id}
+                      </td>
+                      <td className="p-2 text-right">
+                        {Math.round(
+                          stage.kilometers * kilometerFactor
+                        ).toLocaleString()}
+                      </td>
+                      <td className="p-2 text-right">
+                        {Math.round(stage.days * dayFactor)}
+                      </td>
+                      <td className="p-2 text-right">
+                        {stage.hours !== undefined
+                          ? Math.round(stage.hours * kilometerFactor)
+                          : "-"}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </>
+        )}
+
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={onClose} className="flex-1">
+            Cancelar
+          </Button>
+          <Button
+            onClick={handleCreate}
+            disabled={loading || !template}
+            className="flex-1"
+          >
+            Crear Plan
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+/**
+ * Modal para guardar un plan como plantilla
+ */
+export const SaveMaintenancePlanTemplateModal = ({
+  plan,
+  onClose,
+}: {
+  plan: MaintenancePlanBase;
+  onClose: () => void;
+}) => {
+  const [name, setName] = useState(plan.name);
+  const [description, setDescription] = useState(plan.description || "");
+  const [loading, setLoading] = useState(false);
+
+  const handleSave = async () => {
+    setLoading(true);
+    try {
+      const res = await fetch("/api/maintenance-plan/templates", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          plan_id: plan.id,
+          name: name.trim(),
+          description: description.trim() || undefined,
+        }),
+      });
+      const body = await res.json();
+      if (!res.ok) {
+        throw new Error(body.message || "Error al guardar la plantilla");
+      }
+
+      toastVariables.success(body.message);
+      onClose();
+    } catch (error) {
+      console.error("Error saving plan template:", error);
+      toastVariables.error(
+        error instanceof Error
+          ? error.message
+          : "Error al guardar la plantilla."
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Modal onClose={onClose}>
+      <div className="p-6 space-y-4">
+        <h2 className="text-xl font-semibold">Guardar como Plantilla</h2>
+        <div>
+          <Label htmlFor="template_name">Nombre de la plantilla</Label>
+          <Input
+            id="template_name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+        </div>
+        <div>
+          <Label htmlFor="template_description">Descripción</Label>
+          <Textarea
+            id="template_description"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+          />
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={onClose} className="flex-1">
+            Cancelar
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={loading || name.trim().length < 3}
+            className="flex-1"
+          >
+            Guardar Plantilla
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
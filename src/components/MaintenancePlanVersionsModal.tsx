@@ -0,0 +1,356 @@
+"use client";
+import { useEffect, useState } from "react";
+import { ArrowRight } from "lucide-react";
+import { Modal } from "./Modal";
+import { Button } from "./ui/button";
+import { Badge } from "./ui/badge";
+import { Checkbox } from "./ui/checkbox";
+import { Label } from "./ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import { toastVariables } from "./ToastVariables";
+import { formatDate } from "@/lib/utils";
+import {
+  MaintenancePlanStageChange,
+  MaintenancePlanVersionDiff,
+  MaintenancePlanVersionEquipment,
+  MaintenancePlanVersionsResponse,
+} from "@/types/maintenance-plan-version";
+
+const CHANGE_LABELS: Record<MaintenancePlanStageChange["change"], string> = {
+  added: "Agregada",
+  removed: "Eliminada",
+  modified: "Modificada",
+};
+
+const FIELD_LABELS: Record<MaintenancePlanStageChange["fields"][number], string> =
+  {
+    stage_index: "Orden",
+    kilometers: "Kilómetros",
+    days: "Días",
+    hours: "Horas",
+  };
+
+export const MaintenancePlanVersionsModal = ({
+  planId,
+  planName,
+  onClose,
+}: {
+  planId: string;
+  planName: string;
+  onClose: () => void;
+}) => {
+  const [versions, setVersions] = useState<
+    (MaintenancePlanVersionsResponse & {
+      equipment: MaintenancePlanVersionEquipment[];
+    }) | null
+  >(null);
+  const [fromVersion, setFromVersion] = useState<number | undefined>();
+  const [toVersion, setToVersion] = useState<number | undefined>();
+  const [diff, setDiff] = useState<MaintenancePlanVersionDiff | null>(null);
+  const [selectedEquipment, setSelectedEquipment] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    const fetchVersions = async () => {
+      try {
+        const res = await fetch(
+          `/api/maintenance-plan/versions?plan_id=${planId}`
+        );
+        const body = await res.json();
+        if (!res.ok) {
+          throw new Error(body.message || "Error al cargar las versiones");
+        }
+
+        const data = body.data as MaintenancePlanVersionsResponse & {
+          equipment: MaintenancePlanVersionEquipment[];
+        };
+        setVersions({
+          ...data,
+          data: data.data.map((version) => ({
+            ...version,
+            created_at: new Date(version.created_at),
+          })),
+        });
+        setToVersion(data.data[0]?.version_number);
+        setFromVersion(data.data[1]?.version_number);
+        setSelectedEquipment([]);
+      } catch (error) {
+        console.error("Error fetching plan versions:", error);
+        toastVariables.error(
+          error instanceof Error
+            ? error.message
+            : "Error al cargar las versiones del plan."
+        );
+      }
+    };
+    fetchVersions();
+  }, [planId, reloadKey]);
+
+  useEffect(() => {
+    if (fromVersion === undefined || toVersion === undefined) {
+      setDiff(null);
+      return;
+    }
+
+    const fetchDiff = async () => {
+      try {
+        const res = await fetch(
+          `/api/maintenance-plan/versions/diff?plan_id=${planId}&from=${fromVersion}&to=${toVersion}`
+        );
+        const body = await res.json();
+        if (!res.ok) {
+          throw new Error(body.message || "Error al comparar las versiones");
+        }
+        setDiff(body.data as MaintenancePlanVersionDiff);
+      } catch (error) {
+        console.error("Error fetching plan version diff:", error);
+        setDiff(null);
+      }
+    };
+    fetchDiff();
+  }, [planId, fromVersion, toVersion]);
+
+  const currentVersion = versions?.current_version;
+  const outdatedEquipment =
+    versions?.equipment.filter(
+      (equipment) =>
+        equipment.maintenance_plan_version !== undefined &&
+        equipment.maintenance_plan_version !== currentVersion
+    ) || [];
+
+  const handleMigrate = async () => {
+    if (!currentVersion || selectedEquipment.length === 0) return;
+
+    setLoading(true);
+    try {
+      const res = await fetch("/api/maintenance-plan/versions/migrate", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          plan_id: planId,
+          version_number: currentVersion,
+          equipment_ids: selectedEquipment,
+        }),
+      });
+      const body = await res.json();
+      if (!res.ok) {
+        throw new Error(body.message || "Error al migrar los equipos");
+      }
+
+      toastVariables.success(body.message);
+      setReloadKey((key) => key + 1);
+    } catch (error) {
+      console.error("Error migrating equipment:", error);
+      toastVariables.error(
+        error instanceof Error ? error.message : "Error al migrar los equipos."
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const versionOptions = versions?.data || [];
+
+  return (
+    <Modal onClose={onClose}>
+      <div className="p-4 w-[90vw] max-w-3xl max-h-[80vh] overflow-y-auto space-y-6">
+        <div>
+          <h2 className="text-xl font-semibold">Versiones del Plan</h2>
+          <p className="text-sm text-gray-600">
+            {planName}
+            {currentVersion && ` · versión vigente v${currentVersion}`}
+          </p>
+        </div>
+
+        {/* Historial */}
+        <div className="space-y-2">
+          <h3 className="font-medium">Historial</h3>
+          {versionOptions.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              El plan aún no tiene versiones publicadas.
+            </p>
+          ) : (
+            <table className="w-full text-sm border">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="p-2 text-left">Versión</th>
+                  <th className="p-2 text-left">Fecha</th>
+                  <th className="p-2 text-right">Etapas</th>
+                  <th className="p-2 text-right">Equipos</th>
+                </tr>
+              </thead>
+              <tbody>
+                {versionOptions.map((version) => (
+                  <tr key={version.id}>
+                    <td className="p-2">
+                      v{version.version_number}{" "}
+                      {version.version_number === currentVersion && (
+                        <Badge variant="secondary">Vigente</Badge>
+                      )}
+                    </td>
+                    <td className="p-2">{formatDate(version.created_at)}</td>
+                    <td className="p-2 text-right">{version.stages.length}</td>
+                    <td className="p-2 text-right">
+                      {version.equipment_count}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Comparación */}
+        {versionOptions.length > 1 && (
+          <div className="space-y-2">
+            <h3 className="font-medium">Comparar versiones</h3>
+            <div className="flex items-end gap-2">
+              <div className="flex-1">
+                <Label htmlFor="from_version">Desde</Label>
+                <Select
+                  value={fromVersion?.toString()}
+                  onValueChange={(value) => setFromVersion(Number(value))}
+                >
+                  <SelectTrigger id="from_version">
+                    <SelectValue placeholder="Versión" />
+                  </SelectTrigger>
+                  <SelectContent className="z-[1000]">
+                    {versionOptions.map((version) => (
+                      <SelectItem
+                        key={version.id}
+                        value={version.version_number.toString()}
+                      >
+                        v{version.version_number}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <ArrowRight className="h-4 w-4 mb-3 text-gray-500" />
+              <div className="flex-1">
+                <Label htmlFor="to_version">Hasta</Label>
+                <Select
+                  value={toVersion?.toString()}
+                  onValueChange={(value) => setToVersion(Number(value))}
+                >
+                  <SelectTrigger id="to_version">
+                    <SelectValue placeholder="Versión" />
+                  </SelectTrigger>
+                  <SelectContent className="z-[1000]">
+                    {versionOptions.map((version) => (
+                      <SelectItem
+                        key={version.id}
+                        value={version.version_number.toString()}
+                      >
+                        v{version.version_number}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {diff &&
+              (diff.stages.length === 0 && !diff.cycle_changed ? (
+                <p className="text-sm text-gray-500">
+                  No hay diferencias entre las versiones.
+                </p>
+              ) : (
+                <ul className="space-y-1 text-sm">
+                  {diff.cycle_changed && (
+                    <li className="p-2 rounded bg-orange-50">
+                      Cambió el comportamiento después de la última etapa
+                    </li>
+                  )}
+                  {diff.stages.map((change) => (
+                    <li
+                      key={change.maintenance_type_id}
+                      className={`p-2 rounded ${
+                        change.change === "added"
+                          ? "bg-green-50"
+                          : change.change === "removed"
+                          ? "bg-red-50"
+                          : "bg-yellow-50"
+                      }`}
+                    >
+                      <span className="font-medium">
+                        {CHANGE_LABELS[change.change]}:
+                      </span>{" "}
+                      {change.maintenance_type?.type ||
+                        change.maintenance_type_id}
+                      {change.fields.map((field) => (
+                        <span key={field} className="block text-gray-600">
+                          {FIELD_LABELS[field]}: {change.from?.[field] ?? "-"}{" "}
+                          → {change.to?.[field] ?? "-"}
+                        </span>
+                      ))}
+                    </li>
+                  ))}
+                </ul>
+              ))}
+          </div>
+        )}
+
+        {/* Migración de equipos */}
+        {currentVersion && (
+          <div className="space-y-2">
+            <h3 className="font-medium">Equipos en versiones anteriores</h3>
+            {outdatedEquipment.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                Todos los equipos siguen la versión vigente.
+              </p>
+            ) : (
+              <>
+                <ul className="space-y-1 text-sm">
+                  {outdatedEquipment.map((equipment) => (
+                    <li key={equipment.id} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`migrate_${equipment.id}`}
+                        checked={selectedEquipment.includes(equipment.id)}
+                        onCheckedChange={(checked) =>
+                          setSelectedEquipment((prev) =>
+                            checked
+                              ? [...prev, equipment.id]
+                              : prev.filter((id) => id !== equipment.id)
+                          )
+                        }
+                      />
+                      <Label htmlFor={`migrate_${equipment.id}`}>
+                        {equipment.code} - {equipment.license_plate}
+                      </Label>
+                      <Badge variant="outline">
+                        v{equipment.maintenance_plan_version}
+                      </Badge>
+                    </li>
+                  ))}
+                </ul>
+                <div className="flex justify-end">
+                  <Button
+                    onClick={handleMigrate}
+                    disabled={loading || selectedEquipment.length === 0}
+                  >
+                    Migrar {selectedEquipment.length} equipos a v
+                    {currentVersion}
+                  </Button>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-end">
+          <Button variant="outline" onClick={onClose}>
+            Cerrar
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
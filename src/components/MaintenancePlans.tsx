@@ -15,6 +15,8 @@ import {
   MultiEquipmentMaintenancePlan,
   EquipmentMileageRecord,
   EquipmentMaintenancePlan,
+  ForecastConfidence,
+  ForecastTrigger,
 } from "@/types/equipment";
 import { CalendarModal } from "@/components/CalendarModal";
 import { NoiseType } from "@/types/noise";
@@ -22,8 +24,40 @@ import { Noise } from "@/components/Noise";
 import { useSession } from "next-auth/react";
 import { PaginationComponent } from "@/components/Pagination";
 import { FETCH_SIZE } from "@/lib/const";
+import { formatDate } from "@/lib/utils";
 
-const MILLISECONDS_PER_DAY = 86400000;
+const TRIGGER_LABELS: Record<ForecastTrigger, string> = {
+  days: "Por días",
+  km: "Por kilometraje",
+  hours: "Por horas",
+};
+
+const CONFIDENCE_LABELS: Record<ForecastConfidence, string> = {
+  high: "Confianza alta",
+  medium: "Confianza media",
+  low: "Confianza baja",
+};
+
+// Convertir las fechas serializadas del plan
+const parsePlanDates = (
+  plan: EquipmentMaintenancePlan
+): EquipmentMaintenancePlan => ({
+  ...plan,
+  equipment: {
+    ...plan.equipment,
+    last_mileage_record_date: plan.equipment.last_mileage_record_date
+      ? new Date(plan.equipment.last_mileage_record_date)
+      : undefined,
+  },
+  forecast: plan.forecast
+    ? {
+        ...plan.forecast,
+        predicted_date: plan.forecast.predicted_date
+          ? new Date(plan.forecast.predicted_date)
+          : undefined,
+      }
+    : undefined,
+});
 
 // Función para obtener el color según remaining_days
 const getStatusColor = (remainingDays?: number) => {
@@ -106,27 +140,7 @@ export const MaintenancePlans = () => {
         const fullResponse = JSON.parse(responseText);
         const result: MultiEquipmentMaintenancePlan = fullResponse.data;
 
-        const formatedData = result.data.map((plan) => ({
-          ...plan,
-          equipment: {
-            ...plan.equipment,
-            last_mileage_record_date: plan.equipment.last_mileage_record_date
-              ? new Date(plan.equipment.last_mileage_record_date)
-              : undefined,
-          },
-          remaining_days:
-            plan.remaining_days && plan.equipment.last_mileage_record_date
-              ? Math.round(
-                  new Date(
-                    new Date(
-                      plan.equipment.last_mileage_record_date
-                    ).getTime() +
-                      plan.remaining_days * MILLISECONDS_PER_DAY -
-                      new Date().getTime()
-                  ).getTime() / MILLISECONDS_PER_DAY
-                )
-              : undefined,
-        }));
+        const formatedData = result.data.map(parsePlanDates);
         result.data = formatedData;
         console.log("Datos formateados:", formatedData);
         setData({
@@ -178,30 +192,7 @@ export const MaintenancePlans = () => {
         console.log("Planes de mantenimiento actualizados:", result);
         setData({
           ...result,
-          data: data.data.concat(
-            result.data.map((plan) => ({
-              ...plan,
-              equipment: {
-                ...plan.equipment,
-                last_mileage_record_date: plan.equipment
-                  .last_mileage_record_date
-                  ? new Date(plan.equipment.last_mileage_record_date)
-                  : undefined,
-              },
-              remaining_days:
-                plan.remaining_days && plan.equipment.last_mileage_record_date
-                  ? Math.round(
-                      new Date(
-                        new Date(
-                          plan.equipment.last_mileage_record_date
-                        ).getTime() +
-                          plan.remaining_days * MILLISECONDS_PER_DAY -
-                          new Date().getTime()
-                      ).getTime() / MILLISECONDS_PER_DAY
-                    )
-                  : undefined,
-            }))
-          ),
+          data: data.data.concat(result.data.map(parsePlanDates)),
         });
         setNoise(null);
         setLoadingPage(false);
@@ -228,9 +219,7 @@ export const MaintenancePlans = () => {
 
   const handleCalendarClick = (plan: EquipmentMaintenancePlan) => {
     const lastMaintenanceDate = plan.equipment.last_mileage_record_date;
-    const nextMaintenanceDate = plan.remaining_days
-      ? new Date(Date.now() + plan.remaining_days * 24 * 60 * 60 * 1000)
-      : undefined;
+    const nextMaintenanceDate = plan.forecast?.predicted_date;
 
     setSelectedEquipment({
       equipment: plan.equipment,
@@ -267,14 +256,16 @@ export const MaintenancePlans = () => {
         {data?.data
           .slice(pagItems.start, pagItems.end)
           .sort((a, b) =>
-            a.remaining_days && b.remaining_days
-              ? a.remaining_days - b.remaining_days
+            a.forecast?.days_until_due !== undefined &&
+            b.forecast?.days_until_due !== undefined
+              ? a.forecast.days_until_due - b.forecast.days_until_due
               : 0
           )
           .map((plan) => {
-            const statusColor = getStatusColor(plan.remaining_days);
+            const remainingDays = plan.forecast?.days_until_due;
+            const statusColor = getStatusColor(remainingDays);
             const statusClasses = getStatusClasses(statusColor);
-            const StatusIcon = getStatusIcon(plan.remaining_days);
+            const StatusIcon = getStatusIcon(remainingDays);
 
             return (
               <div
@@ -325,6 +316,7 @@ export const MaintenancePlans = () => {
                       <span className="font-medium">
                         {plan.equipment.maintenance_plan_name ||
                           "Plan indefinido"}
+                        {plan.cycle ? ` (ciclo ${plan.cycle + 1})` : ""}
                       </span>
                     </div>
                   </div>
@@ -343,14 +335,26 @@ export const MaintenancePlans = () => {
                       <span
                         className={`inline-flex px-2 py-1 rounded-full text-sm font-medium border ${statusClasses.badge}`}
                       >
-                        {plan.remaining_days || plan.remaining_days === 0
-                          ? plan.remaining_days
-                          : "N/A"}{" "}
+                        {remainingDays !== undefined ? remainingDays : "N/A"}{" "}
                         días
                       </span>
                     </div>
                   </div>
 
+                  {plan.forecast?.predicted_date && (
+                    <div>
+                      <p className="text-sm text-gray-600">Fecha Estimada</p>
+                      <p className="font-medium">
+                        {formatDate(plan.forecast.predicted_date)}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {plan.forecast.trigger &&
+                          TRIGGER_LABELS[plan.forecast.trigger]}{" "}
+                        · {CONFIDENCE_LABELS[plan.forecast.confidence]}
+                      </p>
+                    </div>
+                  )}
+
                   {plan.next_maintenance_type && (
                     <div>
                       <p className="text-sm text-gray-600 mb-1">
@@ -375,6 +379,15 @@ export const MaintenancePlans = () => {
                       </p>
                     </div>
                   )}
+
+                  {plan.remaining_hours !== undefined && (
+                    <div>
+                      <p className="text-sm text-gray-600">Horas Restantes</p>
+                      <p className="font-medium">
+                        {plan.remaining_hours.toLocaleString()} h
+                      </p>
+                    </div>
+                  )}
                 </div>
               </div>
             );
@@ -0,0 +1,181 @@
+"use client";
+import { useState } from "react";
+import { Upload } from "lucide-react";
+import { Modal } from "./Modal";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Badge } from "./ui/badge";
+import { toastVariables } from "./ToastVariables";
+import { formatDate } from "@/lib/utils";
+import {
+  MileageImportPreview,
+  MileageImportResult,
+} from "@/types/mileage-import";
+
+export const MileageImportModal = ({
+  isOpen,
+  onClose,
+  onImported,
+}: {
+  isOpen: boolean;
+  onClose: () => void;
+  onImported: (result: MileageImportResult) => void;
+}) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<MileageImportPreview | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  if (!isOpen) return null;
+
+  const handleClose = () => {
+    setFile(null);
+    setPreview(null);
+    onClose();
+  };
+
+  const upload = async (dryRun: boolean) => {
+    if (!file) return;
+
+    const formData = new FormData();
+    formData.append("file", file);
+    formData.append("dry_run", String(dryRun));
+
+    setLoading(true);
+    try {
+      const res = await fetch("/api/mileage-record/import", {
+        method: "POST",
+        body: formData,
+      });
+      const body = await res.json();
+
+      if (!res.ok) {
+        throw new Error(body.message || "Error al procesar el archivo");
+      }
+
+      if (dryRun) {
+        setPreview(body.data as MileageImportPreview);
+        return;
+      }
+
+      const result = body.data as MileageImportResult;
+      toastVariables.success(
+        `Se importaron ${result.created} registros nuevos y se actualizaron ${result.updated}.`
+      );
+      onImported(result);
+      handleClose();
+    } catch (error) {
+      console.error("Error importing mileage records:", error);
+      toastVariables.error(
+        error instanceof Error ? error.message : "Error al importar el archivo."
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Modal onClose={handleClose}>
+      <div className="p-4 w-[90vw] max-w-3xl max-h-[80vh] overflow-y-auto space-y-4">
+        <h2 className="text-xl font-semibold">Importar Kilometraje</h2>
+        <p className="text-sm text-gray-600">
+          El archivo CSV o XLSX debe tener las columnas código o placa, fecha
+          (DD/MM/AAAA o AAAA-MM-DD) y kilometraje u horas.
+        </p>
+
+        <div>
+          <Label htmlFor="mileage_import_file">Archivo *</Label>
+          <Input
+            id="mileage_import_file"
+            type="file"
+            accept=".csv,.xlsx,.xls"
+            onChange={(e) => {
+              setFile(e.target.files?.[0] || null);
+              setPreview(null);
+            }}
+          />
+        </div>
+
+        {preview && (
+          <div className="space-y-2">
+            <div className="flex gap-2">
+              <Badge variant="secondary">{preview.total_rows} filas</Badge>
+              <Badge>{preview.valid_rows} válidas</Badge>
+              {preview.invalid_rows > 0 && (
+                <Badge variant="destructive">
+                  {preview.invalid_rows} con errores
+                </Badge>
+              )}
+            </div>
+            <table className="w-full text-sm border">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="p-2 text-left">Fila</th>
+                  <th className="p-2 text-left">Equipo</th>
+                  <th className="p-2 text-left">Fecha</th>
+                  <th className="p-2 text-right">Kilometraje</th>
+                  <th className="p-2 text-right">Horas</th>
+                  <th className="p-2 text-left">Resultado</th>
+                </tr>
+              </thead>
+              <tbody>
+                {preview.rows.map((row) => (
+                  <tr
+                    key={row.row_number}
+                    className={row.errors.length > 0 ? "bg-red-50" : ""}
+                  >
+                    <td className="p-2">{row.row_number}</td>
+                    <td className="p-2">
+                      {row.equipment
+                        ? `${row.equipment.code} - ${row.equipment.license_plate}`
+                        : row.equipment_code || row.license_plate || "-"}
+                    </td>
+                    <td className="p-2">
+                      {row.record_date
+                        ? formatDate(new Date(row.record_date))
+                        : "-"}
+                    </td>
+                    <td className="p-2 text-right">
+                      {row.kilometers ?? "-"}
+                    </td>
+                    <td className="p-2 text-right">{row.hours ?? "-"}</td>
+                    <td className="p-2">
+                      {row.errors.length > 0 ? (
+                        <span className="text-red-600">
+                          {row.errors.join(". ")}
+                        </span>
+                      ) : row.action === "update" ? (
+                        "Actualiza registro existente"
+                      ) : (
+                        "Nuevo registro"
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={handleClose}>
+            Cancelar
+          </Button>
+          {preview ? (
+            <Button
+              onClick={() => upload(false)}
+              disabled={loading || preview.valid_rows === 0}
+            >
+              Importar {preview.valid_rows} filas válidas
+            </Button>
+          ) : (
+            <Button onClick={() => upload(true)} disabled={loading || !file}>
+              <Upload className="h-4 w-4 mr-2" />
+              Vista previa
+            </Button>
+          )}
+        </div>
+      </div>
+    </Modal>
+  );
+};
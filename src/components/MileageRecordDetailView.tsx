@@ -24,9 +24,17 @@ const MileageRecordsDetailView: React.FC<MileageRecordsDetailViewProps> = ({
     },
     {
       name: "Kilómetros",
-      selector: (row) => row.kilometers,
+      selector: (row) => row.kilometers ?? 0,
       sortable: true,
-      format: (row) => row.kilometers.toLocaleString("es-PE"),
+      format: (row) => row.kilometers?.toLocaleString("es-PE") ?? "-",
+      omit: !mileageRecords?.data.some((row) => row.kilometers !== undefined),
+    },
+    {
+      name: "Horas",
+      selector: (row) => row.hours ?? 0,
+      sortable: true,
+      format: (row) => row.hours?.toLocaleString("es-PE") ?? "-",
+      omit: !mileageRecords?.data.some((row) => row.hours !== undefined),
     },
   ];
 
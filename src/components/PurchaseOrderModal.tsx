@@ -0,0 +1,347 @@
+"use client";
+import { useEffect, useState } from "react";
+import { Plus, Trash2 } from "lucide-react";
+import { Modal } from "./Modal";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import { toastVariables } from "./ToastVariables";
+import { SparePartBase } from "@/types/spare-part";
+import { SupplierBase, SupplierSparePart } from "@/types/supplier";
+import { WarehouseBase } from "@/types/warehouse";
+import { PurchaseOrderBase } from "@/types/purchase-order";
+
+interface LineForm {
+  spare_part_id: string;
+  quantity: string;
+  unit_price: string;
+}
+
+const emptyLine: LineForm = {
+  spare_part_id: "",
+  quantity: "1",
+  unit_price: "",
+};
+
+/**
+ * Crear o editar una orden de compra en borrador
+ * Las líneas sin precio toman el del catálogo del proveedor
+ */
+export const PurchaseOrderModal = ({
+  order,
+  suppliers,
+  warehouses,
+  onClose,
+  onSaved,
+}: {
+  order: PurchaseOrderBase | null;
+  suppliers: SupplierBase[];
+  warehouses: WarehouseBase[];
+  onClose: () => void;
+  onSaved: () => void;
+}) => {
+  const [spareParts, setSpareParts] = useState<SparePartBase[]>([]);
+  const [prices, setPrices] = useState<SupplierSparePart[]>([]);
+  const [supplierId, setSupplierId] = useState(order?.supplier_id || "");
+  const [warehouseId, setWarehouseId] = useState(order?.warehouse_id || "");
+  const [expectedDate, setExpectedDate] = useState(
+    order?.expected_date
+      ? new Date(order.expected_date).toISOString().split("T")[0]
+      : ""
+  );
+  const [notes, setNotes] = useState(order?.notes || "");
+  const [lines, setLines] = useState<LineForm[]>(
+    order
+      ? order.lines.map((line) => ({
+          spare_part_id: line.spare_part_id,
+          quantity: String(line.quantity),
+          unit_price: String(line.unit_price),
+        }))
+      : [{ ...emptyLine }]
+  );
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    const fetchSpareParts = async () => {
+      try {
+        const res = await fetch("/api/spare-parts?limit=1000");
+        if (!res.ok) {
+          throw new Error("Failed to fetch spare parts");
+        }
+
+        setSpareParts((await res.json()).data.data as SparePartBase[]);
+      } catch (error) {
+        console.error("Error fetching spare parts:", error);
+      }
+    };
+    fetchSpareParts();
+  }, []);
+
+  useEffect(() => {
+    if (!supplierId) return;
+
+    const fetchPrices = async () => {
+      try {
+        const res = await fetch(
+          `/api/suppliers/prices?supplier_id=${supplierId}`
+        );
+        if (!res.ok) {
+          throw new Error("Failed to fetch supplier prices");
+        }
+
+        setPrices((await res.json()).data as SupplierSparePart[]);
+      } catch (error) {
+        console.error("Error fetching supplier prices:", error);
+      }
+    };
+    fetchPrices();
+  }, [supplierId]);
+
+  const updateLine = (index: number, changes: Partial<LineForm>) =>
+    setLines((prev) =>
+      prev.map((line, current) =>
+        current === index ? { ...line, ...changes } : line
+      )
+    );
+
+  const selectSparePart = (index: number, sparePartId: string) => {
+    const supplierPrice = prices.find(
+      (price) => price.spare_part_id === sparePartId
+    );
+    updateLine(index, {
+      spare_part_id: sparePartId,
+      unit_price: supplierPrice ? String(supplierPrice.price) : "",
+    });
+  };
+
+  const handleSave = async () => {
+    setLoading(true);
+    try {
+      const payload = {
+        warehouse_id: warehouseId || undefined,
+        expected_date: expectedDate || undefined,
+        notes,
+        lines: lines.map((line) => ({
+          spare_part_id: line.spare_part_id,
+          quantity: Number(line.quantity),
+          unit_price:
+            line.unit_price === "" ? undefined : Number(line.unit_price),
+        })),
+      };
+
+      const res = await fetch("/api/purchase-orders", {
+        method: order ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(
+          order
+            ? { ...payload, id: order.id }
+            : { ...payload, supplier_id: supplierId }
+        ),
+      });
+      const body = await res.json();
+      if (!res.ok) {
+        throw new Error(body.message || "Error al guardar la orden");
+      }
+
+      toastVariables.success(body.message);
+      onSaved();
+      onClose();
+    } catch (error) {
+      console.error("Error saving purchase order:", error);
+      toastVariables.error(
+        error instanceof Error ? error.message : "Error al guardar la orden."
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const total = lines.reduce((sum, line) => {
+    const supplierPrice = prices.find(
+      (price) => price.spare_part_id === line.spare_part_id
+    );
+    const sparePart = spareParts.find(
+      (item) => item.id === line.spare_part_id
+    );
+    const unitPrice =
+      line.unit_price !== ""
+        ? Number(line.unit_price)
+        : supplierPrice?.price ?? sparePart?.price ?? 0;
+    return sum + Number(line.quantity || 0) * unitPrice;
+  }, 0);
+
+  return (
+    <Modal onClose={onClose}>
+      <div className="p-4 w-[90vw] max-w-3xl max-h-[80vh] overflow-y-auto space-y-4">
+        <h2 className="text-xl font-semibold">
+          {order ? `Editar Orden N° ${order.number}` : "Nueva Orden de Compra"}
+        </h2>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label>Proveedor</Label>
+            <Select
+              value={supplierId}
+              onValueChange={setSupplierId}
+              disabled={!!order}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Seleccione un proveedor" />
+              </SelectTrigger>
+              <SelectContent className="z-[1000]">
+                {suppliers.map((supplier) => (
+                  <SelectItem key={supplier.id} value={supplier.id}>
+                    {supplier.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Ubicación de Recepción</Label>
+            <Select value={warehouseId} onValueChange={setWarehouseId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Ubicación predeterminada" />
+              </SelectTrigger>
+              <SelectContent className="z-[1000]">
+                {warehouses.map((warehouse) => (
+                  <SelectItem key={warehouse.id} value={warehouse.id}>
+                    {warehouse.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="expected_date">Entrega Esperada</Label>
+            <Input
+              id="expected_date"
+              type="date"
+              value={expectedDate}
+              onChange={(e) => setExpectedDate(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="order_notes">Notas</Label>
+            <Input
+              id="order_notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h3 className="font-medium">Repuestos</h3>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setLines((prev) => [...prev, { ...emptyLine }])}
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Agregar
+            </Button>
+          </div>
+          {lines.map((line, index) => {
+            const supplierPrice = prices.find(
+              (price) => price.spare_part_id === line.spare_part_id
+            );
+            return (
+              <div
+                key={index}
+                className="grid grid-cols-1 sm:grid-cols-12 gap-2 items-end border rounded p-2"
+              >
+                <div className="space-y-1 sm:col-span-6">
+                  <Label>Repuesto</Label>
+                  <Select
+                    value={line.spare_part_id}
+                    onValueChange={(value) => selectSparePart(index, value)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Seleccione un repuesto" />
+                    </SelectTrigger>
+                    <SelectContent className="z-[1000]">
+                      {spareParts.map((sparePart) => (
+                        <SelectItem key={sparePart.id} value={sparePart.id}>
+                          {sparePart.factory_code} - {sparePart.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {supplierPrice?.supplier_code && (
+                    <p className="text-xs text-gray-500">
+                      Código proveedor: {supplierPrice.supplier_code}
+                    </p>
+                  )}
+                </div>
+                <div className="space-y-1 sm:col-span-2">
+                  <Label>Cantidad</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={line.quantity}
+                    onChange={(e) =>
+                      updateLine(index, { quantity: e.target.value })
+                    }
+                  />
+                </div>
+                <div className="space-y-1 sm:col-span-3">
+                  <Label>Precio Unit.</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    placeholder="Precio del proveedor"
+                    value={line.unit_price}
+                    onChange={(e) =>
+                      updateLine(index, { unit_price: e.target.value })
+                    }
+                  />
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={lines.length === 1}
+                  onClick={() =>
+                    setLines((prev) =>
+                      prev.filter((_, current) => current !== index)
+                    )
+                  }
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            );
+          })}
+          <p className="text-right font-semibold">
+            Total estimado: S/.{total.toFixed(2)}
+          </p>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={onClose}>
+            Cancelar
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={
+              loading ||
+              !supplierId ||
+              lines.some((line) => !line.spare_part_id || !line.quantity)
+            }
+          >
+            {order ? "Actualizar" : "Crear Borrador"}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
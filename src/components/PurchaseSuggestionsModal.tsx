@@ -0,0 +1,177 @@
+"use client";
+import { useCallback, useEffect, useState } from "react";
+import { Modal } from "./Modal";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { toastVariables } from "./ToastVariables";
+import { downloadPurchaseSuggestionsExcel } from "@/lib/excel";
+import { PurchaseSuggestionReport } from "@/types/inventory";
+
+const DEFAULT_HORIZON_DAYS = 30;
+
+/**
+ * Repuestos a comprar: los que quedan por debajo de su stock mínimo después
+ * de la demanda de los próximos mantenimientos
+ */
+export const PurchaseSuggestionsModal = ({
+  onClose,
+}: {
+  onClose: () => void;
+}) => {
+  const [horizonDays, setHorizonDays] = useState(DEFAULT_HORIZON_DAYS);
+  const [report, setReport] = useState<PurchaseSuggestionReport | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const fetchReport = useCallback(async (days: number) => {
+    setLoading(true);
+    try {
+      const res = await fetch(
+        `/api/inventory/purchase-suggestions?horizon_days=${days}`
+      );
+      const body = await res.json();
+      if (!res.ok) {
+        throw new Error(body.message || "Error al calcular las compras");
+      }
+
+      setReport(body.data as PurchaseSuggestionReport);
+    } catch (error) {
+      console.error("Error fetching purchase suggestions:", error);
+      toastVariables.error(
+        error instanceof Error
+          ? error.message
+          : "Error al calcular las compras."
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchReport(DEFAULT_HORIZON_DAYS);
+  }, [fetchReport]);
+
+  return (
+    <Modal onClose={onClose}>
+      <div className="p-4 w-[90vw] max-w-4xl max-h-[80vh] overflow-y-auto space-y-4">
+        <div>
+          <h2 className="text-xl font-semibold">Sugerencias de Compra</h2>
+          <p className="text-sm text-gray-600">
+            Repuestos cuyo stock, descontando la demanda de los mantenimientos
+            del horizonte, queda por debajo del stock mínimo
+          </p>
+        </div>
+
+        <div className="flex flex-wrap items-end justify-between gap-2">
+          <div className="flex items-end gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="purchase_horizon_days">Horizonte (días)</Label>
+              <Input
+                id="purchase_horizon_days"
+                type="number"
+                min={1}
+                className="w-32"
+                value={horizonDays}
+                onChange={(e) => setHorizonDays(Number(e.target.value))}
+              />
+            </div>
+            <Button
+              onClick={() => fetchReport(horizonDays)}
+              disabled={loading || horizonDays < 1}
+            >
+              Calcular
+            </Button>
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => report && downloadPurchaseSuggestionsExcel(report)}
+            disabled={loading || !report || report.lines.length === 0}
+          >
+            Exportar Excel
+          </Button>
+        </div>
+
+        {report && (
+          <>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-gray-600">
+                    <th className="py-2 pr-2">Repuesto</th>
+                    <th className="py-2 pr-2 text-right">Disponible</th>
+                    <th className="py-2 pr-2 text-right">Demanda</th>
+                    <th className="py-2 pr-2 text-right">Proyectado</th>
+                    <th className="py-2 pr-2 text-right">Mínimo</th>
+                    <th className="py-2 pr-2 text-right">Comprar</th>
+                    <th className="py-2 text-right">Costo Estimado</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.lines.map((line) => (
+                    <tr key={line.spare_part_id} className="border-b">
+                      <td className="py-2 pr-2">
+                        {line.spare_part?.name || line.spare_part_id}
+                        {line.spare_part && (
+                          <span className="block text-xs text-gray-500">
+                            {line.spare_part.factory_code}
+                          </span>
+                        )}
+                      </td>
+                      <td className="py-2 pr-2 text-right">{line.on_hand}</td>
+                      <td className="py-2 pr-2 text-right">{line.demand}</td>
+                      <td
+                        className={`py-2 pr-2 text-right ${
+                          line.projected < 0 ? "text-red-600" : ""
+                        }`}
+                      >
+                        {line.projected}
+                      </td>
+                      <td className="py-2 pr-2 text-right">
+                        {line.min_stock}
+                      </td>
+                      <td className="py-2 pr-2 text-right font-semibold">
+                        {line.suggested_quantity}
+                      </td>
+                      <td className="py-2 text-right">
+                        S/.{line.estimated_cost.toFixed(2)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+                <tfoot>
+                  <tr className="font-semibold">
+                    <td className="py-2" colSpan={6}>
+                      Total
+                    </td>
+                    <td className="py-2 text-right">
+                      S/.{report.total_cost.toFixed(2)}
+                    </td>
+                  </tr>
+                </tfoot>
+              </table>
+            </div>
+
+            {report.lines.length === 0 && (
+              <p className="text-sm text-gray-500">
+                No hay repuestos por debajo del stock mínimo en el horizonte.
+              </p>
+            )}
+
+            {report.without_kit > 0 && (
+              <p className="text-xs text-amber-700">
+                {report.without_kit} mantenimiento(s) del horizonte no tienen
+                kit de repuestos definido y no suman demanda.
+              </p>
+            )}
+          </>
+        )}
+
+        <div className="flex justify-end">
+          <Button variant="outline" onClick={onClose}>
+            Cerrar
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,185 @@
+"use client";
+import { useState } from "react";
+import { Modal } from "./Modal";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import { toastVariables } from "./ToastVariables";
+import { PurchaseOrderBase } from "@/types/purchase-order";
+import { WarehouseBase } from "@/types/warehouse";
+
+/**
+ * Registrar la recepción total o parcial de una orden de compra
+ * Lo recibido ingresa al stock de la ubicación elegida
+ */
+export const ReceivePurchaseOrderModal = ({
+  order,
+  warehouses,
+  onClose,
+  onReceived,
+}: {
+  order: PurchaseOrderBase;
+  warehouses: WarehouseBase[];
+  onClose: () => void;
+  onReceived: () => void;
+}) => {
+  const pendingLines = order.lines.filter(
+    (line) => line.quantity > line.received_quantity
+  );
+  const [warehouseId, setWarehouseId] = useState(order.warehouse_id || "");
+  const [notes, setNotes] = useState("");
+  const [quantities, setQuantities] = useState<Record<string, string>>(
+    Object.fromEntries(
+      pendingLines.map((line) => [
+        line.id,
+        String(line.quantity - line.received_quantity),
+      ])
+    )
+  );
+  const [loading, setLoading] = useState(false);
+
+  const handleReceive = async () => {
+    setLoading(true);
+    try {
+      const res = await fetch("/api/purchase-orders/receive", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          id: order.id,
+          warehouse_id: warehouseId || undefined,
+          notes,
+          lines: pendingLines
+            .filter((line) => Number(quantities[line.id] || 0) > 0)
+            .map((line) => ({
+              line_id: line.id,
+              quantity: Number(quantities[line.id]),
+            })),
+        }),
+      });
+      const body = await res.json();
+      if (!res.ok) {
+        throw new Error(body.message || "Error al registrar la recepción");
+      }
+
+      toastVariables.success(body.message);
+      onReceived();
+      onClose();
+    } catch (error) {
+      console.error("Error receiving purchase order:", error);
+      toastVariables.error(
+        error instanceof Error
+          ? error.message
+          : "Error al registrar la recepción."
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Modal onClose={onClose}>
+      <div className="p-4 w-[90vw] max-w-2xl max-h-[80vh] overflow-y-auto space-y-4">
+        <div>
+          <h2 className="text-xl font-semibold">
+            Recibir Orden N° {order.number}
+          </h2>
+          <p className="text-sm text-gray-600">{order.supplier_name}</p>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label>Ubicación</Label>
+            <Select value={warehouseId} onValueChange={setWarehouseId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Ubicación predeterminada" />
+              </SelectTrigger>
+              <SelectContent className="z-[1000]">
+                {warehouses.map((warehouse) => (
+                  <SelectItem key={warehouse.id} value={warehouse.id}>
+                    {warehouse.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="receipt_notes">Notas (guía, factura)</Label>
+            <Input
+              id="receipt_notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b text-left text-gray-600">
+              <th className="py-2 pr-2">Repuesto</th>
+              <th className="py-2 pr-2 text-right">Pedido</th>
+              <th className="py-2 pr-2 text-right">Recibido</th>
+              <th className="py-2 text-right">Recibir</th>
+            </tr>
+          </thead>
+          <tbody>
+            {pendingLines.map((line) => (
+              <tr key={line.id} className="border-b">
+                <td className="py-2 pr-2">
+                  {line.spare_part?.name || line.spare_part_id}
+                  {line.supplier_code && (
+                    <span className="block text-xs text-gray-500">
+                      {line.supplier_code}
+                    </span>
+                  )}
+                </td>
+                <td className="py-2 pr-2 text-right">{line.quantity}</td>
+                <td className="py-2 pr-2 text-right">
+                  {line.received_quantity}
+                </td>
+                <td className="py-2 text-right">
+                  <Input
+                    type="number"
+                    min={0}
+                    max={line.quantity - line.received_quantity}
+                    className="w-24 ml-auto"
+                    value={quantities[line.id] ?? ""}
+                    onChange={(e) =>
+                      setQuantities((prev) => ({
+                        ...prev,
+                        [line.id]: e.target.value,
+                      }))
+                    }
+                  />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={onClose}>
+            Cancelar
+          </Button>
+          <Button
+            onClick={handleReceive}
+            disabled={
+              loading ||
+              !pendingLines.some(
+                (line) => Number(quantities[line.id] || 0) > 0
+              )
+            }
+          >
+            Registrar Recepción
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
@@ -22,6 +22,12 @@ import {
   Gauge,
   Car,
   GitCompare,
+  ShieldCheck,
+  Warehouse,
+  Truck,
+  ClipboardList,
+  HardHat,
+  Coins,
 } from "lucide-react";
 import { useRouter } from "next/navigation";
 
@@ -81,7 +87,13 @@ export const SideBar = ({ session, options }: SideBarProps) => {
                     ActivitiesRoute,
                     MaintenanceTypeRoute,
                     SparePartsRoute,
+                    WarehousesRoute,
+                    SuppliersRoute,
+                    PurchaseOrdersRoute,
+                    TechniciansRoute,
                     MaintenanceStageRoute,
+                    MaintenanceComplianceRoute,
+                    MaintenanceCostsRoute,
                   ]
                 }
                 onClose={() => setOpen(false)}
@@ -152,6 +164,26 @@ const SparePartsRoute: Option = {
   icon: <Package className="mr-2 h-4 w-4" />,
   onRedirect: (router) => router.push("/spare-parts"),
 };
+const WarehousesRoute: Option = {
+  label: "Almacenes",
+  icon: <Warehouse className="mr-2 h-4 w-4" />,
+  onRedirect: (router) => router.push("/warehouses"),
+};
+const SuppliersRoute: Option = {
+  label: "Proveedores",
+  icon: <Truck className="mr-2 h-4 w-4" />,
+  onRedirect: (router) => router.push("/suppliers"),
+};
+const PurchaseOrdersRoute: Option = {
+  label: "Órdenes de Compra",
+  icon: <ClipboardList className="mr-2 h-4 w-4" />,
+  onRedirect: (router) => router.push("/purchase-orders"),
+};
+const TechniciansRoute: Option = {
+  label: "Técnicos",
+  icon: <HardHat className="mr-2 h-4 w-4" />,
+  onRedirect: (router) => router.push("/technicians"),
+};
 const DashboardRoute: Option = {
   label: "Seguimiento de Mantenimiento",
   icon: <SquareDashedKanban className="mr-2 h-4 w-4" />,
@@ -172,3 +204,13 @@ const MaintenanceStageRoute: Option = {
   icon: <GitCompare className="mr-2 h-4 w-4" />,
   onRedirect: (router) => router.push("/maintenance-stage"),
 };
+const MaintenanceComplianceRoute: Option = {
+  label: "Cumplimiento del Plan",
+  icon: <ShieldCheck className="mr-2 h-4 w-4" />,
+  onRedirect: (router) => router.push("/maintenance-compliance"),
+};
+const MaintenanceCostsRoute: Option = {
+  label: "Costos de Mantenimiento",
+  icon: <Coins className="mr-2 h-4 w-4" />,
+  onRedirect: (router) => router.push("/maintenance-costs"),
+};
@@ -0,0 +1,180 @@
+"use client";
+import { useCallback, useEffect, useState } from "react";
+import { Modal } from "./Modal";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { toastVariables } from "./ToastVariables";
+import { formatDate } from "@/lib/utils";
+import { SparePartDemandForecast } from "@/types/spare-part-kit";
+
+const DEFAULT_HORIZON_DAYS = 30;
+
+/**
+ * Pronóstico de los repuestos que requieren los próximos mantenimientos de la
+ * flota según los kits de cada tipo de mantenimiento o etapa
+ */
+export const SparePartDemandModal = ({ onClose }: { onClose: () => void }) => {
+  const [horizonDays, setHorizonDays] = useState(DEFAULT_HORIZON_DAYS);
+  const [forecast, setForecast] = useState<SparePartDemandForecast | null>(
+    null
+  );
+  const [loading, setLoading] = useState(false);
+
+  const fetchForecast = useCallback(async (days: number) => {
+    setLoading(true);
+    try {
+      const res = await fetch(
+        `/api/spare-part-kits/demand?horizon_days=${days}`
+      );
+      const body = await res.json();
+      if (!res.ok) {
+        throw new Error(body.message || "Error al pronosticar la demanda");
+      }
+
+      setForecast(body.data as SparePartDemandForecast);
+    } catch (error) {
+      console.error("Error fetching spare part demand:", error);
+      toastVariables.error(
+        error instanceof Error
+          ? error.message
+          : "Error al pronosticar la demanda."
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchForecast(DEFAULT_HORIZON_DAYS);
+  }, [fetchForecast]);
+
+  const totalCost =
+    forecast?.lines.reduce((sum, line) => sum + line.estimated_cost, 0) ?? 0;
+
+  return (
+    <Modal onClose={onClose}>
+      <div className="p-4 w-[90vw] max-w-3xl max-h-[80vh] overflow-y-auto space-y-4">
+        <div>
+          <h2 className="text-xl font-semibold">Demanda de Repuestos</h2>
+          <p className="text-sm text-gray-600">
+            Repuestos de los kits de los mantenimientos que vencen dentro del
+            horizonte
+          </p>
+        </div>
+
+        <div className="flex items-end gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="horizon_days">Horizonte (días)</Label>
+            <Input
+              id="horizon_days"
+              type="number"
+              min={1}
+              className="w-32"
+              value={horizonDays}
+              onChange={(e) => setHorizonDays(Number(e.target.value))}
+            />
+          </div>
+          <Button
+            onClick={() => fetchForecast(horizonDays)}
+            disabled={loading || horizonDays < 1}
+          >
+            Calcular
+          </Button>
+        </div>
+
+        {forecast && (
+          <>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-gray-600">
+                    <th className="py-2 pr-2">Repuesto</th>
+                    <th className="py-2 pr-2 text-right">Cantidad</th>
+                    <th className="py-2 pr-2 text-right">Mantenimientos</th>
+                    <th className="py-2 text-right">Costo Estimado</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {forecast.lines.map((line) => (
+                    <tr key={line.spare_part_id} className="border-b">
+                      <td className="py-2 pr-2">
+                        {line.spare_part?.name || line.spare_part_id}
+                        {line.spare_part && (
+                          <span className="block text-xs text-gray-500">
+                            {line.spare_part.factory_code}
+                          </span>
+                        )}
+                      </td>
+                      <td className="py-2 pr-2 text-right">{line.quantity}</td>
+                      <td className="py-2 pr-2 text-right">
+                        {line.maintenance_count}
+                      </td>
+                      <td className="py-2 text-right">
+                        S/.{line.estimated_cost.toFixed(2)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+                <tfoot>
+                  <tr className="font-semibold">
+                    <td className="py-2" colSpan={3}>
+                      Total
+                    </td>
+                    <td className="py-2 text-right">
+                      S/.{totalCost.toFixed(2)}
+                    </td>
+                  </tr>
+                </tfoot>
+              </table>
+            </div>
+
+            {forecast.lines.length === 0 && (
+              <p className="text-sm text-gray-500">
+                No hay repuestos requeridos en el horizonte.
+              </p>
+            )}
+
+            {forecast.without_kit > 0 && (
+              <p className="text-xs text-amber-700">
+                {forecast.without_kit} mantenimiento(s) del horizonte no
+                tienen kit de repuestos definido.
+              </p>
+            )}
+
+            {forecast.maintenances.length > 0 && (
+              <div>
+                <h3 className="font-medium mb-2">Mantenimientos</h3>
+                <ul className="space-y-1 text-sm">
+                  {forecast.maintenances.map((maintenance) => (
+                    <li
+                      key={maintenance.equipment_id}
+                      className="flex justify-between gap-2 border rounded p-2"
+                    >
+                      <span>
+                        {maintenance.code} ({maintenance.license_plate}) -{" "}
+                        {maintenance.maintenance_type?.type} ·{" "}
+                        {maintenance.kit_name}
+                      </span>
+                      <span className="text-gray-500 whitespace-nowrap">
+                        {maintenance.predicted_date
+                          ? formatDate(new Date(maintenance.predicted_date))
+                          : `${maintenance.days_until_due} días`}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </>
+        )}
+
+        <div className="flex justify-end">
+          <Button variant="outline" onClick={onClose}>
+            Cerrar
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
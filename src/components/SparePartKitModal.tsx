@@ -0,0 +1,284 @@
+"use client";
+import { useEffect, useState } from "react";
+import { Modal } from "./Modal";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import { toastVariables } from "./ToastVariables";
+import { Trash2 } from "lucide-react";
+import { SparePartBase } from "@/types/spare-part";
+import { SparePartKitBase, SparePartKitItem } from "@/types/spare-part-kit";
+
+/**
+ * Editor del kit de repuestos de un tipo de mantenimiento o de una etapa del
+ * plan
+ */
+export const SparePartKitModal = ({
+  owner,
+  title,
+  onClose,
+}: {
+  owner: { maintenance_type_id?: string; maintenance_stage_id?: string };
+  title: string;
+  onClose: () => void;
+}) => {
+  const [spareParts, setSpareParts] = useState<SparePartBase[]>([]);
+  const [kit, setKit] = useState<SparePartKitBase | null>(null);
+  const [name, setName] = useState(title);
+  const [description, setDescription] = useState("");
+  const [items, setItems] = useState<Omit<SparePartKitItem, "spare_part">[]>(
+    []
+  );
+  const [loading, setLoading] = useState(false);
+
+  const ownerQuery = owner.maintenance_stage_id
+    ? `maintenance_stage_id=${owner.maintenance_stage_id}`
+    : `maintenance_type_id=${owner.maintenance_type_id}`;
+
+  useEffect(() => {
+    const fetchData = async () => {
+      try {
+        const [sparePartsRes, kitsRes] = await Promise.all([
+          fetch("/api/spare-parts?limit=1000"),
+          fetch(`/api/spare-part-kits?${ownerQuery}`),
+        ]);
+        const [sparePartsBody, kitsBody] = await Promise.all([
+          sparePartsRes.json(),
+          kitsRes.json(),
+        ]);
+        if (!sparePartsRes.ok || !kitsRes.ok) {
+          throw new Error(
+            sparePartsBody.message ||
+              kitsBody.message ||
+              "Error al cargar el kit de repuestos"
+          );
+        }
+
+        setSpareParts(sparePartsBody.data.data as SparePartBase[]);
+        const current = (kitsBody.data.data as SparePartKitBase[])[0] || null;
+        setKit(current);
+        if (current) {
+          setName(current.name);
+          setDescription(current.description || "");
+          setItems(
+            current.items.map((item) => ({
+              spare_part_id: item.spare_part_id,
+              quantity: item.quantity,
+            }))
+          );
+        }
+      } catch (error) {
+        console.error("Error fetching spare part kit:", error);
+        toastVariables.error(
+          error instanceof Error
+            ? error.message
+            : "Error al cargar el kit de repuestos."
+        );
+      }
+    };
+    fetchData();
+  }, [ownerQuery]);
+
+  const addItem = (sparePartId: string) =>
+    setItems((prev) =>
+      prev.some((item) => item.spare_part_id === sparePartId)
+        ? prev
+        : [...prev, { spare_part_id: sparePartId, quantity: 1 }]
+    );
+
+  const setQuantity = (sparePartId: string, quantity: number) =>
+    setItems((prev) =>
+      prev.map((item) =>
+        item.spare_part_id === sparePartId ? { ...item, quantity } : item
+      )
+    );
+
+  const removeItem = (sparePartId: string) =>
+    setItems((prev) =>
+      prev.filter((item) => item.spare_part_id !== sparePartId)
+    );
+
+  const handleSave = async () => {
+    setLoading(true);
+    try {
+      const res = await fetch("/api/spare-part-kits", {
+        method: kit ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(
+          kit
+            ? { id: kit.id, name, description, items }
+            : { ...owner, name, description, items }
+        ),
+      });
+      const body = await res.json();
+      if (!res.ok) {
+        throw new Error(body.message || "Error al guardar el kit");
+      }
+
+      toastVariables.success(body.message);
+      onClose();
+    } catch (error) {
+      console.error("Error saving spare part kit:", error);
+      toastVariables.error(
+        error instanceof Error ? error.message : "Error al guardar el kit."
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!kit) return;
+
+    setLoading(true);
+    try {
+      const res = await fetch("/api/spare-part-kits", {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: kit.id }),
+      });
+      const body = await res.json();
+      if (!res.ok) {
+        throw new Error(body.message || "Error al eliminar el kit");
+      }
+
+      toastVariables.success(body.message);
+      onClose();
+    } catch (error) {
+      console.error("Error deleting spare part kit:", error);
+      toastVariables.error(
+        error instanceof Error ? error.message : "Error al eliminar el kit."
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const available = spareParts.filter(
+    (sparePart) => !items.some((item) => item.spare_part_id === sparePart.id)
+  );
+
+  return (
+    <Modal onClose={onClose}>
+      <div className="p-4 w-[90vw] max-w-xl max-h-[80vh] overflow-y-auto space-y-4">
+        <div>
+          <h2 className="text-xl font-semibold">Kit de Repuestos</h2>
+          <p className="text-sm text-gray-600">{title}</p>
+          <p className="text-xs text-gray-500 mt-1">
+            Se aplica al crear un registro de mantenimiento
+            {owner.maintenance_stage_id
+              ? " de esta etapa; reemplaza al kit del tipo de mantenimiento."
+              : " de este tipo."}
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="kit_name">Nombre</Label>
+          <Input
+            id="kit_name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="kit_description">Descripción</Label>
+          <Input
+            id="kit_description"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Agregar repuesto</Label>
+          <Select value="" onValueChange={addItem}>
+            <SelectTrigger>
+              <SelectValue placeholder="Seleccionar repuesto" />
+            </SelectTrigger>
+            <SelectContent className="z-[1000]">
+              {available.map((sparePart) => (
+                <SelectItem key={sparePart.id} value={sparePart.id}>
+                  {sparePart.factory_code} - {sparePart.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {items.length === 0 ? (
+          <p className="text-sm text-gray-500">El kit no tiene repuestos.</p>
+        ) : (
+          <ul className="space-y-2">
+            {items.map((item) => {
+              const sparePart = spareParts.find(
+                (current) => current.id === item.spare_part_id
+              );
+              return (
+                <li
+                  key={item.spare_part_id}
+                  className="flex items-center justify-between gap-2 border rounded p-2"
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">
+                      {sparePart?.name || item.spare_part_id}
+                    </p>
+                    {sparePart && (
+                      <p className="text-xs text-gray-500">
+                        {sparePart.factory_code} · S/.
+                        {sparePart.price.toFixed(2)}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Input
+                      type="number"
+                      min={1}
+                      className="w-20"
+                      value={item.quantity}
+                      onChange={(e) =>
+                        setQuantity(item.spare_part_id, Number(e.target.value))
+                      }
+                    />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => removeItem(item.spare_part_id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        <div className="flex justify-between gap-2">
+          <Button
+            variant="destructive"
+            onClick={handleDelete}
+            disabled={loading || !kit}
+          >
+            Eliminar Kit
+          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onClose}>
+              Cancelar
+            </Button>
+            <Button onClick={handleSave} disabled={loading}>
+              Guardar
+            </Button>
+          </div>
+        </div>
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,234 @@
+"use client";
+import { useEffect, useState } from "react";
+import { Modal } from "./Modal";
+import { Button } from "./ui/button";
+import { Label } from "./ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import { toastVariables } from "./ToastVariables";
+import { formatDate } from "@/lib/utils";
+import { SparePartBase, SparePartPriceTrend } from "@/types/spare-part";
+
+/**
+ * Evolución del precio de un repuesto: cambios de precio de catálogo y
+ * precios con los que se registró en los mantenimientos
+ */
+export const SparePartPriceTrendModal = ({
+  spareParts,
+  onClose,
+}: {
+  spareParts: SparePartBase[];
+  onClose: () => void;
+}) => {
+  const [sparePartId, setSparePartId] = useState(spareParts[0]?.id || "");
+  const [trend, setTrend] = useState<SparePartPriceTrend | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!sparePartId) return;
+
+    const fetchTrend = async () => {
+      setLoading(true);
+      try {
+        const res = await fetch(
+          `/api/spare-parts/price-trend?spare_part_id=${sparePartId}`
+        );
+        const body = await res.json();
+        if (!res.ok) {
+          throw new Error(body.message || "Error al cargar los precios");
+        }
+
+        setTrend(body.data as SparePartPriceTrend);
+      } catch (error) {
+        console.error("Error fetching spare part price trend:", error);
+        toastVariables.error(
+          error instanceof Error
+            ? error.message
+            : "Error al cargar los precios."
+        );
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchTrend();
+  }, [sparePartId]);
+
+  return (
+    <Modal onClose={onClose}>
+      <div className="p-4 w-[90vw] max-w-3xl max-h-[80vh] overflow-y-auto space-y-4">
+        <div>
+          <h2 className="text-xl font-semibold">Tendencia de Precios</h2>
+          <p className="text-sm text-gray-600">
+            Cambios de precio del repuesto y precios con los que se registró en
+            los mantenimientos
+          </p>
+        </div>
+
+        <div className="space-y-1">
+          <Label>Repuesto</Label>
+          <Select value={sparePartId} onValueChange={setSparePartId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Seleccione un repuesto" />
+            </SelectTrigger>
+            <SelectContent className="z-[1000]">
+              {spareParts.map((sparePart) => (
+                <SelectItem key={sparePart.id} value={sparePart.id}>
+                  {sparePart.factory_code} - {sparePart.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {loading && <p className="text-sm text-gray-500">Cargando...</p>}
+
+        {!loading && trend && (
+          <>
+            <div className="grid grid-cols-2 sm:grid-cols-5 gap-2 text-sm">
+              <div>
+                <p className="text-gray-500">Precio Actual</p>
+                <p className="font-semibold">
+                  S/.{trend.current_price.toFixed(2)}
+                </p>
+              </div>
+              <div>
+                <p className="text-gray-500">Mínimo</p>
+                <p className="font-semibold">S/.{trend.min_price.toFixed(2)}</p>
+              </div>
+              <div>
+                <p className="text-gray-500">Máximo</p>
+                <p className="font-semibold">S/.{trend.max_price.toFixed(2)}</p>
+              </div>
+              <div>
+                <p className="text-gray-500">Variación</p>
+                <p
+                  className={`font-semibold ${
+                    trend.change_percent > 0
+                      ? "text-red-600"
+                      : trend.change_percent < 0
+                      ? "text-green-600"
+                      : ""
+                  }`}
+                >
+                  {trend.change_percent > 0 ? "+" : ""}
+                  {trend.change_percent.toFixed(2)}%
+                </p>
+              </div>
+              <div>
+                <p className="text-gray-500">Último Costo</p>
+                <p className="font-semibold">
+                  {trend.last_purchase_cost !== undefined
+                    ? `S/.${trend.last_purchase_cost.toFixed(2)}`
+                    : "-"}
+                </p>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="font-medium">Cambios de Precio</h3>
+              {trend.changes.length === 0 ? (
+                <p className="text-sm text-gray-500">
+                  El precio del repuesto no ha cambiado.
+                </p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b text-left text-gray-600">
+                      <th className="py-2 pr-2">Fecha</th>
+                      <th className="py-2 pr-2 text-right">Anterior</th>
+                      <th className="py-2 pr-2 text-right">Nuevo</th>
+                      <th className="py-2 text-right">Variación</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {trend.changes.map((change) => (
+                      <tr key={change.id} className="border-b">
+                        <td className="py-2 pr-2">
+                          {formatDate(new Date(change.changed_at))}
+                        </td>
+                        <td className="py-2 pr-2 text-right">
+                          {change.previous_price !== undefined
+                            ? `S/.${change.previous_price.toFixed(2)}`
+                            : "-"}
+                        </td>
+                        <td className="py-2 pr-2 text-right">
+                          S/.{change.price.toFixed(2)}
+                        </td>
+                        <td className="py-2 text-right">
+                          {change.previous_price
+                            ? `${(
+                                ((change.price - change.previous_price) /
+                                  change.previous_price) *
+                                100
+                              ).toFixed(2)}%`
+                            : "-"}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="font-medium">Precios en Mantenimientos</h3>
+              {trend.snapshots.length === 0 ? (
+                <p className="text-sm text-gray-500">
+                  El repuesto no se ha usado en mantenimientos.
+                </p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b text-left text-gray-600">
+                      <th className="py-2 pr-2">Fecha</th>
+                      <th className="py-2 pr-2">Equipo</th>
+                      <th className="py-2 pr-2 text-right">Cantidad</th>
+                      <th className="py-2 pr-2 text-right">Precio Unit.</th>
+                      <th className="py-2 text-right">Total</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {trend.snapshots.map((snapshot) => (
+                      <tr
+                        key={snapshot.maintenance_spare_part_id}
+                        className="border-b"
+                      >
+                        <td className="py-2 pr-2">
+                          {formatDate(new Date(snapshot.created_at))}
+                        </td>
+                        <td className="py-2 pr-2">
+                          {snapshot.equipment_license}
+                        </td>
+                        <td className="py-2 pr-2 text-right">
+                          {snapshot.quantity}
+                        </td>
+                        <td className="py-2 pr-2 text-right">
+                          S/.{snapshot.unit_price.toFixed(2)}
+                        </td>
+                        <td className="py-2 text-right">
+                          S/.
+                          {(snapshot.quantity * snapshot.unit_price).toFixed(2)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </>
+        )}
+
+        <div className="flex justify-end">
+          <Button variant="outline" onClick={onClose}>
+            Cerrar
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
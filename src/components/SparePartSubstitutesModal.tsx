@@ -0,0 +1,340 @@
+"use client";
+import { useCallback, useEffect, useState } from "react";
+import { Trash2 } from "lucide-react";
+import { Modal } from "./Modal";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import { toastVariables } from "./ToastVariables";
+import { SparePartBase } from "@/types/spare-part";
+import {
+  EquivalenceConsumptionReport,
+  SparePartSubstituteProposal,
+} from "@/types/spare-part-substitute";
+
+/**
+ * Repuestos equivalentes: equivalencias de cada repuesto y consumo agregado
+ * por grupo de equivalencia
+ */
+export const SparePartSubstitutesModal = ({
+  spareParts,
+  onClose,
+}: {
+  spareParts: SparePartBase[];
+  onClose: () => void;
+}) => {
+  const [sparePartId, setSparePartId] = useState(spareParts[0]?.id || "");
+  const [proposal, setProposal] = useState<SparePartSubstituteProposal | null>(
+    null
+  );
+  const [substituteId, setSubstituteId] = useState("");
+  const [notes, setNotes] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [report, setReport] = useState<EquivalenceConsumptionReport | null>(
+    null
+  );
+  const [loading, setLoading] = useState(false);
+
+  const fetchProposal = useCallback(async () => {
+    if (!sparePartId) return;
+
+    try {
+      const res = await fetch(
+        `/api/spare-part-substitutes?spare_part_id=${sparePartId}`
+      );
+      const body = await res.json();
+      if (!res.ok) {
+        throw new Error(body.message || "Error al cargar los equivalentes");
+      }
+
+      setProposal(body.data as SparePartSubstituteProposal);
+    } catch (error) {
+      console.error("Error fetching spare part substitutes:", error);
+      toastVariables.error(
+        error instanceof Error
+          ? error.message
+          : "Error al cargar los equivalentes."
+      );
+    }
+  }, [sparePartId]);
+
+  useEffect(() => {
+    fetchProposal();
+  }, [fetchProposal]);
+
+  const fetchReport = async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams();
+      if (from) params.set("from", from);
+      if (to) params.set("to", to);
+      const res = await fetch(
+        `/api/spare-part-substitutes/consumption?${params.toString()}`
+      );
+      const body = await res.json();
+      if (!res.ok) {
+        throw new Error(body.message || "Error al cargar el consumo");
+      }
+
+      setReport(body.data as EquivalenceConsumptionReport);
+    } catch (error) {
+      console.error("Error fetching equivalence consumption:", error);
+      toastVariables.error(
+        error instanceof Error ? error.message : "Error al cargar el consumo."
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleLink = async () => {
+    setLoading(true);
+    try {
+      const res = await fetch("/api/spare-part-substitutes", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          spare_part_id: sparePartId,
+          substitute_id: substituteId,
+          notes,
+        }),
+      });
+      const body = await res.json();
+      if (!res.ok) {
+        throw new Error(body.message || "Error al registrar la equivalencia");
+      }
+
+      toastVariables.success(body.message);
+      setSubstituteId("");
+      setNotes("");
+      await fetchProposal();
+    } catch (error) {
+      console.error("Error linking spare parts:", error);
+      toastVariables.error(
+        error instanceof Error
+          ? error.message
+          : "Error al registrar la equivalencia."
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleUnlink = async (id: string) => {
+    setLoading(true);
+    try {
+      const res = await fetch("/api/spare-part-substitutes", {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id }),
+      });
+      const body = await res.json();
+      if (!res.ok) {
+        throw new Error(body.message || "Error al eliminar la equivalencia");
+      }
+
+      toastVariables.success(body.message);
+      await fetchProposal();
+    } catch (error) {
+      console.error("Error unlinking spare parts:", error);
+      toastVariables.error(
+        error instanceof Error
+          ? error.message
+          : "Error al eliminar la equivalencia."
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const linkedIds = new Set([
+    sparePartId,
+    ...(proposal?.equivalents.map((item) => item.spare_part.id) || []),
+  ]);
+
+  return (
+    <Modal onClose={onClose}>
+      <div className="p-4 w-[90vw] max-w-3xl max-h-[80vh] overflow-y-auto space-y-4">
+        <div>
+          <h2 className="text-xl font-semibold">Repuestos Equivalentes</h2>
+          <p className="text-sm text-gray-600">
+            Repuestos intercambiables de distintas marcas o códigos de fábrica
+          </p>
+        </div>
+
+        <div className="space-y-1">
+          <Label>Repuesto</Label>
+          <Select value={sparePartId} onValueChange={setSparePartId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Seleccione un repuesto" />
+            </SelectTrigger>
+            <SelectContent className="z-[1000]">
+              {spareParts.map((sparePart) => (
+                <SelectItem key={sparePart.id} value={sparePart.id}>
+                  {sparePart.factory_code} - {sparePart.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {proposal && (
+            <p className="text-sm text-gray-600">
+              Stock: {proposal.on_hand}
+              {proposal.discontinued && " · Descontinuado"}
+            </p>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-6 gap-2 items-end">
+          <div className="space-y-1 sm:col-span-3">
+            <Label>Equivalente</Label>
+            <Select value={substituteId} onValueChange={setSubstituteId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Seleccione un repuesto" />
+              </SelectTrigger>
+              <SelectContent className="z-[1000]">
+                {spareParts
+                  .filter((sparePart) => !linkedIds.has(sparePart.id))
+                  .map((sparePart) => (
+                    <SelectItem key={sparePart.id} value={sparePart.id}>
+                      {sparePart.factory_code} - {sparePart.name}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1 sm:col-span-2">
+            <Label htmlFor="substitute_notes">Notas</Label>
+            <Input
+              id="substitute_notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+          </div>
+          <Button
+            onClick={handleLink}
+            disabled={loading || !sparePartId || !substituteId}
+          >
+            Agregar
+          </Button>
+        </div>
+
+        {!proposal || proposal.equivalents.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            El repuesto no tiene equivalentes registrados.
+          </p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left text-gray-600">
+                <th className="py-2 pr-2">Equivalente</th>
+                <th className="py-2 pr-2">Notas</th>
+                <th className="py-2 pr-2 text-right">Stock</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {proposal.equivalents.map((item) => (
+                <tr key={item.spare_part.id} className="border-b">
+                  <td className="py-2 pr-2">
+                    {item.spare_part.name}
+                    <span className="block text-xs text-gray-500">
+                      {item.spare_part.factory_code}
+                      {item.spare_part.discontinued && " · Descontinuado"}
+                      {!item.link_id && " · Equivalencia indirecta"}
+                    </span>
+                  </td>
+                  <td className="py-2 pr-2">{item.notes}</td>
+                  <td className="py-2 pr-2 text-right">{item.on_hand}</td>
+                  <td className="py-2 text-right">
+                    {item.link_id && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={loading}
+                        onClick={() => handleUnlink(item.link_id as string)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        <div className="space-y-2 border-t pt-4">
+          <h3 className="font-medium">Consumo por Grupo de Equivalencia</h3>
+          <div className="flex flex-wrap items-end gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="consumption_from">Desde</Label>
+              <Input
+                id="consumption_from"
+                type="date"
+                value={from}
+                onChange={(e) => setFrom(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="consumption_to">Hasta</Label>
+              <Input
+                id="consumption_to"
+                type="date"
+                value={to}
+                onChange={(e) => setTo(e.target.value)}
+              />
+            </div>
+            <Button variant="outline" onClick={fetchReport} disabled={loading}>
+              Consultar
+            </Button>
+          </div>
+          {report &&
+            (report.groups.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                No hay grupos de equivalencia registrados.
+              </p>
+            ) : (
+              report.groups.map((group) => (
+                <div
+                  key={group.spare_part_ids.join("-")}
+                  className="border rounded p-2 text-sm"
+                >
+                  <div className="flex justify-between font-medium">
+                    <span>{group.quantity} unidades</span>
+                    <span>S/.{group.total_cost.toFixed(2)}</span>
+                  </div>
+                  {group.lines.map((line) => (
+                    <div
+                      key={line.spare_part_id}
+                      className="flex justify-between text-gray-600"
+                    >
+                      <span>
+                        {line.spare_part
+                          ? `${line.spare_part.factory_code} - ${line.spare_part.name}`
+                          : line.spare_part_id}
+                      </span>
+                      <span>{line.quantity}</span>
+                    </div>
+                  ))}
+                </div>
+              ))
+            ))}
+        </div>
+
+        <div className="flex justify-end">
+          <Button variant="outline" onClick={onClose}>
+            Cerrar
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,426 @@
+"use client";
+import { useCallback, useEffect, useState } from "react";
+import { Modal } from "./Modal";
+import { Button } from "./ui/button";
+import { Checkbox } from "./ui/checkbox";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import { toastVariables } from "./ToastVariables";
+import { formatDate } from "@/lib/utils";
+import { SparePartBase } from "@/types/spare-part";
+import { WarehouseBase } from "@/types/warehouse";
+import {
+  SparePartStock,
+  StockMovementBase,
+  StockMovementType,
+} from "@/types/inventory";
+
+const MOVEMENT_TYPE_LABELS: Record<StockMovementType, string> = {
+  receipt: "Ingreso",
+  consumption: "Consumo",
+  adjustment: "Ajuste",
+  return: "Devolución",
+  transfer: "Transferencia",
+};
+
+/**
+ * Stock de un repuesto: saldo por ubicación, libro de movimientos y registro
+ * de ingresos, ajustes y devoluciones
+ */
+export const StockMovementsModal = ({
+  sparePart,
+  onClose,
+}: {
+  sparePart: SparePartBase;
+  onClose: () => void;
+}) => {
+  const [stock, setStock] = useState<SparePartStock | null>(null);
+  const [movements, setMovements] = useState<StockMovementBase[]>([]);
+  const [warehouses, setWarehouses] = useState<WarehouseBase[]>([]);
+  const [warehouseId, setWarehouseId] = useState("");
+  const [movementType, setMovementType] =
+    useState<StockMovementType>("receipt");
+  const [quantity, setQuantity] = useState("");
+  const [unitCost, setUnitCost] = useState("");
+  const [notes, setNotes] = useState("");
+  const [minStock, setMinStock] = useState("");
+  const [reorderQuantity, setReorderQuantity] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  const fetchData = useCallback(async () => {
+    try {
+      const [stockRes, movementsRes] = await Promise.all([
+        fetch(`/api/inventory?spare_part_id=${sparePart.id}`),
+        fetch(`/api/inventory/movements?spare_part_id=${sparePart.id}`),
+      ]);
+      const [stockBody, movementsBody] = await Promise.all([
+        stockRes.json(),
+        movementsRes.json(),
+      ]);
+      if (!stockRes.ok || !movementsRes.ok) {
+        throw new Error(
+          stockBody.message ||
+            movementsBody.message ||
+            "Error al cargar el stock"
+        );
+      }
+
+      const current = stockBody.data as SparePartStock;
+      setStock(current);
+      setMinStock(String(current.min_stock));
+      setReorderQuantity(String(current.reorder_quantity));
+      setMovements(movementsBody.data.data as StockMovementBase[]);
+    } catch (error) {
+      console.error("Error fetching stock movements:", error);
+      toastVariables.error(
+        error instanceof Error ? error.message : "Error al cargar el stock."
+      );
+    }
+  }, [sparePart.id]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  useEffect(() => {
+    const fetchWarehouses = async () => {
+      try {
+        const res = await fetch("/api/warehouses");
+        const body = await res.json();
+        if (!res.ok) {
+          throw new Error(body.message || "Error al cargar las ubicaciones");
+        }
+
+        const data = body.data.data as WarehouseBase[];
+        setWarehouses(data);
+        setWarehouseId(
+          (data.find((warehouse) => warehouse.is_default) || data[0])?.id || ""
+        );
+      } catch (error) {
+        console.error("Error fetching warehouses:", error);
+      }
+    };
+    fetchWarehouses();
+  }, []);
+
+  const handleAllowNegative = async (allowNegative: boolean) => {
+    setLoading(true);
+    try {
+      const res = await fetch("/api/inventory", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          spare_part_id: sparePart.id,
+          allow_negative: allowNegative,
+        }),
+      });
+      const body = await res.json();
+      if (!res.ok) {
+        throw new Error(body.message || "Error al actualizar el stock");
+      }
+
+      setStock((prev) =>
+        prev ? { ...prev, allow_negative: allowNegative } : prev
+      );
+      toastVariables.success(body.message);
+    } catch (error) {
+      console.error("Error updating negative stock:", error);
+      toastVariables.error(
+        error instanceof Error ? error.message : "Error al actualizar."
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReorderPolicy = async () => {
+    setLoading(true);
+    try {
+      const res = await fetch("/api/inventory", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          spare_part_id: sparePart.id,
+          min_stock: Number(minStock),
+          reorder_quantity: Number(reorderQuantity),
+        }),
+      });
+      const body = await res.json();
+      if (!res.ok) {
+        throw new Error(body.message || "Error al actualizar el stock");
+      }
+
+      setStock((prev) =>
+        prev
+          ? {
+              ...prev,
+              min_stock: Number(minStock),
+              reorder_quantity: Number(reorderQuantity),
+            }
+          : prev
+      );
+      toastVariables.success(body.message);
+    } catch (error) {
+      console.error("Error updating reorder policy:", error);
+      toastVariables.error(
+        error instanceof Error ? error.message : "Error al actualizar."
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async () => {
+    setLoading(true);
+    try {
+      const res = await fetch("/api/inventory/movements", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          spare_part_id: sparePart.id,
+          warehouse_id: warehouseId || undefined,
+          movement_type: movementType,
+          quantity: Number(quantity),
+          unit_cost: unitCost === "" ? undefined : Number(unitCost),
+          notes,
+        }),
+      });
+      const body = await res.json();
+      if (!res.ok) {
+        throw new Error(body.message || "Error al registrar el movimiento");
+      }
+
+      toastVariables.success(body.message);
+      setQuantity("");
+      setUnitCost("");
+      setNotes("");
+      await fetchData();
+    } catch (error) {
+      console.error("Error creating stock movement:", error);
+      toastVariables.error(
+        error instanceof Error
+          ? error.message
+          : "Error al registrar el movimiento."
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Modal onClose={onClose}>
+      <div className="p-4 w-[90vw] max-w-3xl max-h-[80vh] overflow-y-auto space-y-4">
+        <div>
+          <h2 className="text-xl font-semibold">Stock de Repuesto</h2>
+          <p className="text-sm text-gray-600">
+            {sparePart.factory_code} - {sparePart.name}
+          </p>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-2 border rounded p-3">
+          <div>
+            <p className="text-xs text-gray-500">Disponible (total)</p>
+            <p
+              className={`text-2xl font-semibold ${
+                (stock?.on_hand ?? 0) <= 0 ||
+                (stock?.on_hand ?? 0) < (stock?.min_stock ?? 0)
+                  ? "text-red-600"
+                  : ""
+              }`}
+            >
+              {stock?.on_hand ?? 0}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="allow_negative"
+              checked={!!stock?.allow_negative}
+              disabled={loading || !stock}
+              onCheckedChange={(checked) => handleAllowNegative(!!checked)}
+            />
+            <Label htmlFor="allow_negative">Permitir stock negativo</Label>
+          </div>
+          <div className="flex items-end gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="min_stock">Stock Mínimo</Label>
+              <Input
+                id="min_stock"
+                type="number"
+                min={0}
+                className="w-24"
+                value={minStock}
+                onChange={(e) => setMinStock(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="reorder_quantity">Lote de Compra</Label>
+              <Input
+                id="reorder_quantity"
+                type="number"
+                min={0}
+                className="w-24"
+                value={reorderQuantity}
+                onChange={(e) => setReorderQuantity(e.target.value)}
+              />
+            </div>
+            <Button
+              variant="outline"
+              onClick={handleReorderPolicy}
+              disabled={loading || !stock || !minStock || !reorderQuantity}
+            >
+              Guardar
+            </Button>
+          </div>
+          {stock && stock.locations.length > 0 && (
+            <ul className="w-full grid grid-cols-2 sm:grid-cols-3 gap-2">
+              {stock.locations.map((location) => (
+                <li
+                  key={location.warehouse_id}
+                  className="flex justify-between gap-2 text-sm bg-gray-50 rounded px-2 py-1"
+                >
+                  <span className="truncate">{location.warehouse_name}</span>
+                  <span
+                    className={`font-medium ${
+                      location.on_hand <= 0 ? "text-red-600" : ""
+                    }`}
+                  >
+                    {location.on_hand}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-4 gap-2 items-end">
+          <div className="space-y-1 sm:col-span-2">
+            <Label>Ubicación</Label>
+            <Select value={warehouseId} onValueChange={setWarehouseId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Ubicación predeterminada" />
+              </SelectTrigger>
+              <SelectContent className="z-[1000]">
+                {warehouses.map((warehouse) => (
+                  <SelectItem key={warehouse.id} value={warehouse.id}>
+                    {warehouse.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1 sm:col-span-2">
+            <Label>Movimiento</Label>
+            <Select
+              value={movementType}
+              onValueChange={(value) =>
+                setMovementType(value as StockMovementType)
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="z-[1000]">
+                <SelectItem value="receipt">Ingreso</SelectItem>
+                <SelectItem value="adjustment">Ajuste</SelectItem>
+                <SelectItem value="return">Devolución</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="movement_quantity">Cantidad</Label>
+            <Input
+              id="movement_quantity"
+              type="number"
+              value={quantity}
+              placeholder={movementType === "adjustment" ? "±" : ""}
+              onChange={(e) => setQuantity(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="movement_unit_cost">Costo Unit.</Label>
+            <Input
+              id="movement_unit_cost"
+              type="number"
+              min={0}
+              step="0.01"
+              value={unitCost}
+              onChange={(e) => setUnitCost(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="movement_notes">Notas</Label>
+            <Input
+              id="movement_notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+          </div>
+          <Button onClick={handleSubmit} disabled={loading || !quantity}>
+            Registrar
+          </Button>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left text-gray-600">
+                <th className="py-2 pr-2">Fecha</th>
+                <th className="py-2 pr-2">Tipo</th>
+                <th className="py-2 pr-2">Ubicación</th>
+                <th className="py-2 pr-2 text-right">Cantidad</th>
+                <th className="py-2 pr-2 text-right">Saldo</th>
+                <th className="py-2">Notas</th>
+              </tr>
+            </thead>
+            <tbody>
+              {movements.map((movement) => (
+                <tr key={movement.id} className="border-b">
+                  <td className="py-2 pr-2 whitespace-nowrap">
+                    {formatDate(new Date(movement.created_at))}
+                  </td>
+                  <td className="py-2 pr-2">
+                    {MOVEMENT_TYPE_LABELS[movement.movement_type]}
+                  </td>
+                  <td className="py-2 pr-2">{movement.warehouse_name}</td>
+                  <td
+                    className={`py-2 pr-2 text-right ${
+                      movement.quantity < 0 ? "text-red-600" : "text-green-700"
+                    }`}
+                  >
+                    {movement.quantity > 0 ? "+" : ""}
+                    {movement.quantity}
+                  </td>
+                  <td className="py-2 pr-2 text-right">{movement.balance}</td>
+                  <td className="py-2 text-gray-600">
+                    {movement.notes ||
+                      (movement.maintenance_record_id
+                        ? "Registro de mantenimiento"
+                        : "")}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {movements.length === 0 && (
+            <p className="text-sm text-gray-500 py-2">
+              El repuesto no tiene movimientos.
+            </p>
+          )}
+        </div>
+
+        <div className="flex justify-end">
+          <Button variant="outline" onClick={onClose}>
+            Cerrar
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,239 @@
+"use client";
+import { useEffect, useState } from "react";
+import { Modal } from "./Modal";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import { toastVariables } from "./ToastVariables";
+import { Trash2 } from "lucide-react";
+import { SparePartBase } from "@/types/spare-part";
+import { StockTransferItem } from "@/types/stock-transfer";
+import { WarehouseBase } from "@/types/warehouse";
+
+/**
+ * Registro de una transferencia de repuestos entre dos ubicaciones
+ */
+export const StockTransferModal = ({
+  warehouses,
+  onClose,
+  onCreated,
+}: {
+  warehouses: WarehouseBase[];
+  onClose: () => void;
+  onCreated: () => void;
+}) => {
+  const [spareParts, setSpareParts] = useState<SparePartBase[]>([]);
+  const [sourceId, setSourceId] = useState("");
+  const [destinationId, setDestinationId] = useState("");
+  const [notes, setNotes] = useState("");
+  const [items, setItems] = useState<Omit<StockTransferItem, "spare_part">[]>(
+    []
+  );
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    const fetchSpareParts = async () => {
+      try {
+        const res = await fetch("/api/spare-parts?limit=1000");
+        const body = await res.json();
+        if (!res.ok) {
+          throw new Error(body.message || "Error al cargar los repuestos");
+        }
+
+        setSpareParts(body.data.data as SparePartBase[]);
+      } catch (error) {
+        console.error("Error fetching spare parts:", error);
+        toastVariables.error(
+          error instanceof Error
+            ? error.message
+            : "Error al cargar los repuestos."
+        );
+      }
+    };
+    fetchSpareParts();
+  }, []);
+
+  const addItem = (sparePartId: string) =>
+    setItems((prev) =>
+      prev.some((item) => item.spare_part_id === sparePartId)
+        ? prev
+        : [...prev, { spare_part_id: sparePartId, quantity: 1 }]
+    );
+
+  const setQuantity = (sparePartId: string, quantity: number) =>
+    setItems((prev) =>
+      prev.map((item) =>
+        item.spare_part_id === sparePartId ? { ...item, quantity } : item
+      )
+    );
+
+  const removeItem = (sparePartId: string) =>
+    setItems((prev) =>
+      prev.filter((item) => item.spare_part_id !== sparePartId)
+    );
+
+  const handleSave = async () => {
+    setLoading(true);
+    try {
+      const res = await fetch("/api/stock-transfers", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          source_warehouse_id: sourceId,
+          destination_warehouse_id: destinationId,
+          notes,
+          items,
+        }),
+      });
+      const body = await res.json();
+      if (!res.ok) {
+        throw new Error(body.message || "Error al registrar la transferencia");
+      }
+
+      toastVariables.success(body.message);
+      onCreated();
+      onClose();
+    } catch (error) {
+      console.error("Error creating stock transfer:", error);
+      toastVariables.error(
+        error instanceof Error
+          ? error.message
+          : "Error al registrar la transferencia."
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const available = spareParts.filter(
+    (sparePart) => !items.some((item) => item.spare_part_id === sparePart.id)
+  );
+
+  return (
+    <Modal onClose={onClose}>
+      <div className="p-4 w-[90vw] max-w-xl max-h-[80vh] overflow-y-auto space-y-4">
+        <h2 className="text-xl font-semibold">Nueva Transferencia</h2>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label>Origen</Label>
+            <Select value={sourceId} onValueChange={setSourceId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Seleccionar ubicación" />
+              </SelectTrigger>
+              <SelectContent className="z-[1000]">
+                {warehouses.map((warehouse) => (
+                  <SelectItem key={warehouse.id} value={warehouse.id}>
+                    {warehouse.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Destino</Label>
+            <Select value={destinationId} onValueChange={setDestinationId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Seleccionar ubicación" />
+              </SelectTrigger>
+              <SelectContent className="z-[1000]">
+                {warehouses
+                  .filter((warehouse) => warehouse.id !== sourceId)
+                  .map((warehouse) => (
+                    <SelectItem key={warehouse.id} value={warehouse.id}>
+                      {warehouse.name}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <Label>Agregar repuesto</Label>
+          <Select value="" onValueChange={addItem}>
+            <SelectTrigger>
+              <SelectValue placeholder="Seleccionar repuesto" />
+            </SelectTrigger>
+            <SelectContent className="z-[1000]">
+              {available.map((sparePart) => (
+                <SelectItem key={sparePart.id} value={sparePart.id}>
+                  {sparePart.factory_code} - {sparePart.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {items.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            Agrega los repuestos a transferir.
+          </p>
+        ) : (
+          <ul className="space-y-2">
+            {items.map((item) => (
+              <li
+                key={item.spare_part_id}
+                className="flex items-center justify-between gap-2 border rounded p-2"
+              >
+                <span className="text-sm truncate">
+                  {spareParts.find(
+                    (sparePart) => sparePart.id === item.spare_part_id
+                  )?.name || item.spare_part_id}
+                </span>
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="number"
+                    min={1}
+                    className="w-20"
+                    value={item.quantity}
+                    onChange={(e) =>
+                      setQuantity(item.spare_part_id, Number(e.target.value))
+                    }
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => removeItem(item.spare_part_id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="space-y-1">
+          <Label htmlFor="transfer_notes">Notas</Label>
+          <Input
+            id="transfer_notes"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+          />
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={onClose}>
+            Cancelar
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={
+              loading || !sourceId || !destinationId || items.length === 0
+            }
+          >
+            Transferir
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
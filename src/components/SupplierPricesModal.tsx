@@ -0,0 +1,252 @@
+"use client";
+import { useCallback, useEffect, useState } from "react";
+import { Trash2 } from "lucide-react";
+import { Modal } from "./Modal";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import { toastVariables } from "./ToastVariables";
+import { SparePartBase } from "@/types/spare-part";
+import { SupplierBase, SupplierSparePart } from "@/types/supplier";
+
+/**
+ * Catálogo de un proveedor: código y precio de cada repuesto que vende
+ */
+export const SupplierPricesModal = ({
+  supplier,
+  onClose,
+}: {
+  supplier: SupplierBase;
+  onClose: () => void;
+}) => {
+  const [prices, setPrices] = useState<SupplierSparePart[]>([]);
+  const [spareParts, setSpareParts] = useState<SparePartBase[]>([]);
+  const [sparePartId, setSparePartId] = useState("");
+  const [supplierCode, setSupplierCode] = useState("");
+  const [price, setPrice] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  const fetchPrices = useCallback(async () => {
+    try {
+      const res = await fetch(
+        `/api/suppliers/prices?supplier_id=${supplier.id}`
+      );
+      const body = await res.json();
+      if (!res.ok) {
+        throw new Error(body.message || "Error al cargar los precios");
+      }
+
+      setPrices(body.data as SupplierSparePart[]);
+    } catch (error) {
+      console.error("Error fetching supplier prices:", error);
+      toastVariables.error(
+        error instanceof Error ? error.message : "Error al cargar los precios."
+      );
+    }
+  }, [supplier.id]);
+
+  useEffect(() => {
+    fetchPrices();
+  }, [fetchPrices]);
+
+  useEffect(() => {
+    const fetchSpareParts = async () => {
+      try {
+        const res = await fetch("/api/spare-parts?limit=1000");
+        if (!res.ok) {
+          throw new Error("Failed to fetch spare parts");
+        }
+
+        setSpareParts((await res.json()).data.data as SparePartBase[]);
+      } catch (error) {
+        console.error("Error fetching spare parts:", error);
+      }
+    };
+    fetchSpareParts();
+  }, []);
+
+  const selectSparePart = (id: string) => {
+    const current = prices.find((item) => item.spare_part_id === id);
+    setSparePartId(id);
+    setSupplierCode(current?.supplier_code || "");
+    setPrice(current ? String(current.price) : "");
+  };
+
+  const handleSave = async () => {
+    setLoading(true);
+    try {
+      const res = await fetch("/api/suppliers/prices", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          supplier_id: supplier.id,
+          spare_part_id: sparePartId,
+          supplier_code: supplierCode,
+          price: Number(price),
+        }),
+      });
+      const body = await res.json();
+      if (!res.ok) {
+        throw new Error(body.message || "Error al guardar el precio");
+      }
+
+      toastVariables.success(body.message);
+      setSparePartId("");
+      setSupplierCode("");
+      setPrice("");
+      await fetchPrices();
+    } catch (error) {
+      console.error("Error saving supplier price:", error);
+      toastVariables.error(
+        error instanceof Error ? error.message : "Error al guardar el precio."
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    setLoading(true);
+    try {
+      const res = await fetch("/api/suppliers/prices", {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id }),
+      });
+      const body = await res.json();
+      if (!res.ok) {
+        throw new Error(body.message || "Error al eliminar el precio");
+      }
+
+      setPrices((prev) => prev.filter((item) => item.id !== id));
+      toastVariables.success(body.message);
+    } catch (error) {
+      console.error("Error deleting supplier price:", error);
+      toastVariables.error(
+        error instanceof Error ? error.message : "Error al eliminar el precio."
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Modal onClose={onClose}>
+      <div className="p-4 w-[90vw] max-w-3xl max-h-[80vh] overflow-y-auto space-y-4">
+        <div>
+          <h2 className="text-xl font-semibold">Precios del Proveedor</h2>
+          <p className="text-sm text-gray-600">{supplier.name}</p>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-6 gap-2 items-end">
+          <div className="space-y-1 sm:col-span-3">
+            <Label>Repuesto</Label>
+            <Select value={sparePartId} onValueChange={selectSparePart}>
+              <SelectTrigger>
+                <SelectValue placeholder="Seleccione un repuesto" />
+              </SelectTrigger>
+              <SelectContent className="z-[1000]">
+                {spareParts.map((sparePart) => (
+                  <SelectItem key={sparePart.id} value={sparePart.id}>
+                    {sparePart.factory_code} - {sparePart.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="supplier_code">Código</Label>
+            <Input
+              id="supplier_code"
+              value={supplierCode}
+              onChange={(e) => setSupplierCode(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="supplier_price">Precio</Label>
+            <Input
+              id="supplier_price"
+              type="number"
+              min={0}
+              step="0.01"
+              value={price}
+              onChange={(e) => setPrice(e.target.value)}
+            />
+          </div>
+          <Button
+            onClick={handleSave}
+            disabled={loading || !sparePartId || price === ""}
+          >
+            Guardar
+          </Button>
+        </div>
+
+        {prices.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            El proveedor no tiene precios registrados.
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-gray-600">
+                  <th className="py-2 pr-2">Repuesto</th>
+                  <th className="py-2 pr-2">Código Proveedor</th>
+                  <th className="py-2 pr-2 text-right">Precio</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {prices.map((item) => (
+                  <tr key={item.id} className="border-b">
+                    <td className="py-2 pr-2">
+                      <button
+                        type="button"
+                        className="text-left hover:underline"
+                        onClick={() => selectSparePart(item.spare_part_id)}
+                      >
+                        {item.spare_part?.name || item.spare_part_id}
+                      </button>
+                      {item.spare_part && (
+                        <span className="block text-xs text-gray-500">
+                          {item.spare_part.factory_code}
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-2 pr-2">{item.supplier_code}</td>
+                    <td className="py-2 pr-2 text-right">
+                      S/.{item.price.toFixed(2)}
+                    </td>
+                    <td className="py-2 text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={loading}
+                        onClick={() => handleDelete(item.id)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="flex justify-end">
+          <Button variant="outline" onClick={onClose}>
+            Cerrar
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
@@ -1,5 +1,5 @@
 "use client";
-import { CircleCheck, CircleX } from "lucide-react";
+import { AlertTriangle, CircleCheck, CircleX } from "lucide-react";
 import { toast } from "sonner";
 
 export const toastVariables = {
@@ -33,4 +33,19 @@ export const toastVariables = {
       }
     );
   },
+  warning: (msg?: string) => {
+    return toast.warning(
+      <h3 className="mx-2 font-sans text-base font-medium animate-noise-content">
+        {msg || "Revisa la información ingresada."}
+      </h3>,
+      {
+        style: {
+          backgroundColor: "white",
+          color: "darkorange",
+          borderColor: "darkorange",
+        },
+        icon: <AlertTriangle className="animate-circular-dash" />,
+      }
+    );
+  },
 };
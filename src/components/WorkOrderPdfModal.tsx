@@ -0,0 +1,145 @@
+"use client";
+import { useState } from "react";
+import { FileDown, Loader } from "lucide-react";
+import { Modal } from "./Modal";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import { toastVariables } from "./ToastVariables";
+import { MaintenanceWorkOrderDocument } from "@/types/maintenance-work-order";
+
+const documentOptions: {
+  value: MaintenanceWorkOrderDocument;
+  label: string;
+}[] = [
+  { value: "work_order", label: "Orden de trabajo" },
+  { value: "service_report", label: "Informe de servicio" },
+];
+
+/**
+ * Descargar el PDF de un registro o de un periodo
+ * @param params - `id` o `from` y `to`, y `document`
+ */
+export const downloadWorkOrderPdf = async (params: Record<string, string>) => {
+  const res = await fetch(
+    `/api/maintenance-records/pdf?${new URLSearchParams(params).toString()}`
+  );
+  if (!res.ok) {
+    const errorData = await res.json();
+    throw new Error(errorData.message || "Error al generar el PDF");
+  }
+
+  const fileName =
+    res.headers.get("Content-Disposition")?.match(/filename="(.+)"/)?.[1] ||
+    "orden_trabajo.pdf";
+  const blob = await res.blob();
+  const url = window.URL.createObjectURL(blob);
+  const anchor = document.createElement("a");
+  anchor.href = url;
+  anchor.download = fileName;
+  anchor.click();
+  window.URL.revokeObjectURL(url);
+};
+
+/**
+ * Impresión en lote de las órdenes de trabajo o informes de servicio de los
+ * registros iniciados en un rango de fechas
+ */
+export const WorkOrderPdfModal = ({ onClose }: { onClose: () => void }) => {
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [document, setDocument] =
+    useState<MaintenanceWorkOrderDocument>("work_order");
+  const [loading, setLoading] = useState(false);
+
+  const handleDownload = async () => {
+    setLoading(true);
+    try {
+      await downloadWorkOrderPdf({ from, to, document });
+      onClose();
+    } catch (error) {
+      console.error("Error downloading work orders:", error);
+      toastVariables.error(
+        error instanceof Error ? error.message : "Error al generar el PDF."
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Modal onClose={onClose}>
+      <div className="p-4 w-[90vw] max-w-md space-y-4">
+        <h2 className="text-xl font-semibold">Imprimir registros</h2>
+        <div className="space-y-1">
+          <Label>Documento</Label>
+          <Select
+            value={document}
+            onValueChange={(value) =>
+              setDocument(value as MaintenanceWorkOrderDocument)
+            }
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="z-[10000]">
+              {documentOptions.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="work_order_from">Desde</Label>
+            <Input
+              id="work_order_from"
+              type="date"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="work_order_to">Hasta</Label>
+            <Input
+              id="work_order_to"
+              type="date"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+            />
+          </div>
+        </div>
+        <p className="text-xs text-gray-500">
+          Incluye los registros iniciados en el periodo, excepto los anulados;
+          cada registro empieza en una página nueva.
+        </p>
+        <div className="flex gap-2">
+          <Button
+            className="flex-1"
+            onClick={handleDownload}
+            disabled={loading || !from || !to}
+          >
+            {loading ? (
+              <Loader className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <FileDown className="h-4 w-4 mr-2" />
+            )}
+            Descargar PDF
+          </Button>
+          <Button variant="outline" onClick={onClose}>
+            Cancelar
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
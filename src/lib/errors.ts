@@ -8,6 +8,12 @@ export enum MaintenanceRecordErrorCodes {
   MAINTENANCE_TYPE_NOT_FOUND = "MAINTENANCE_TYPE_NOT_FOUND",
   MILEAGE_RECORD_NOT_FOUND = "MILEAGE_RECORD_NOT_FOUND",
   INVALID_DATETIME_RANGE = "INVALID_DATETIME_RANGE",
+  INVALID_STATUS_TRANSITION = "MAINTENANCE_RECORD_INVALID_STATUS_TRANSITION",
+  PENDING_MANDATORY_ACTIVITIES = "MAINTENANCE_RECORD_PENDING_MANDATORY_ACTIVITIES",
+  NOT_EDITABLE = "MAINTENANCE_RECORD_NOT_EDITABLE",
+  INVALID_COST = "MAINTENANCE_RECORD_INVALID_COST",
+  INVALID_PERIOD = "MAINTENANCE_RECORD_INVALID_PERIOD",
+  BATCH_TOO_LARGE = "MAINTENANCE_RECORD_BATCH_TOO_LARGE",
   ACCESS_DENIED = "ACCESS_DENIED",
   DATABASE_ERROR = "DATABASE_ERROR",
 }
@@ -24,6 +30,25 @@ export enum MileageRecordErrorCodes {
   DATABASE_ERROR = "MILEAGE_DATABASE_ERROR",
   ACCESS_DENIED = "MILEAGE_ACCESS_DENIED",
   HAS_MAINTENANCE_RECORDS = "MILEAGE_HAS_MAINTENANCE_RECORDS",
+  KILOMETER_REGRESSION = "MILEAGE_KILOMETER_REGRESSION",
+  INVALID_IMPORT_FILE = "MILEAGE_INVALID_IMPORT_FILE",
+  INVALID_HOURS = "MILEAGE_INVALID_HOURS",
+  HOURS_REGRESSION = "MILEAGE_HOURS_REGRESSION",
+  MISSING_METER_READING = "MILEAGE_MISSING_METER_READING",
+}
+
+/**
+ * Códigos de error específicos para eventos del odómetro
+ */
+export enum OdometerEventErrorCodes {
+  NOT_FOUND = "ODOMETER_EVENT_NOT_FOUND",
+  EQUIPMENT_NOT_FOUND = "ODOMETER_EQUIPMENT_NOT_FOUND",
+  INVALID_TYPE = "ODOMETER_INVALID_TYPE",
+  INVALID_READING = "ODOMETER_INVALID_READING",
+  INVALID_DATE = "ODOMETER_INVALID_DATE",
+  DUPLICATE_DATE = "ODOMETER_DUPLICATE_DATE",
+  ACCESS_DENIED = "ODOMETER_ACCESS_DENIED",
+  DATABASE_ERROR = "ODOMETER_DATABASE_ERROR",
 }
 
 export enum MaintenanceStageErrorCodes {
@@ -34,5 +59,179 @@ export enum MaintenanceStageErrorCodes {
   INVALID_VALUE = "INVALID_VALUE",
   MAINTENANCE_TYPE_NOT_FOUND = "MAINTENANCE_TYPE_NOT_FOUND",
   HAS_MAINTENANCE_RECORDS = "HAS_MAINTENANCE_RECORDS",
+  PLAN_NOT_FOUND = "MAINTENANCE_STAGE_PLAN_NOT_FOUND",
+  INVALID_STAGE_ORDER = "INVALID_STAGE_ORDER",
+  CONCURRENT_MODIFICATION = "MAINTENANCE_STAGE_CONCURRENT_MODIFICATION",
   DATABASE_ERROR = "DATABASE_ERROR",
 }
+
+/**
+ * Códigos de error específicos para versiones de planes de mantenimiento
+ */
+export enum MaintenancePlanVersionErrorCodes {
+  NOT_FOUND = "PLAN_VERSION_NOT_FOUND",
+  PLAN_NOT_FOUND = "PLAN_VERSION_PLAN_NOT_FOUND",
+  EQUIPMENT_NOT_ON_PLAN = "PLAN_VERSION_EQUIPMENT_NOT_ON_PLAN",
+  ACCESS_DENIED = "PLAN_VERSION_ACCESS_DENIED",
+  DATABASE_ERROR = "PLAN_VERSION_DATABASE_ERROR",
+}
+
+/**
+ * Códigos de error específicos para listas de actividades por defecto
+ */
+export enum ActivityChecklistErrorCodes {
+  NOT_FOUND = "ACTIVITY_CHECKLIST_NOT_FOUND",
+  INVALID_OWNER = "ACTIVITY_CHECKLIST_INVALID_OWNER",
+  INVALID_ITEM = "ACTIVITY_CHECKLIST_INVALID_ITEM",
+  DUPLICATE_ACTIVITY = "ACTIVITY_CHECKLIST_DUPLICATE_ACTIVITY",
+  ACTIVITY_NOT_ALLOWED = "ACTIVITY_CHECKLIST_ACTIVITY_NOT_ALLOWED",
+  ACCESS_DENIED = "ACTIVITY_CHECKLIST_ACCESS_DENIED",
+  DATABASE_ERROR = "ACTIVITY_CHECKLIST_DATABASE_ERROR",
+}
+
+/**
+ * Códigos de error específicos para kits de repuestos
+ */
+export enum SparePartKitErrorCodes {
+  NOT_FOUND = "SPARE_PART_KIT_NOT_FOUND",
+  INVALID_OWNER = "SPARE_PART_KIT_INVALID_OWNER",
+  DUPLICATE_OWNER = "SPARE_PART_KIT_DUPLICATE_OWNER",
+  INVALID_NAME = "SPARE_PART_KIT_INVALID_NAME",
+  INVALID_ITEM = "SPARE_PART_KIT_INVALID_ITEM",
+  DUPLICATE_SPARE_PART = "SPARE_PART_KIT_DUPLICATE_SPARE_PART",
+  ACCESS_DENIED = "SPARE_PART_KIT_ACCESS_DENIED",
+  DATABASE_ERROR = "SPARE_PART_KIT_DATABASE_ERROR",
+}
+
+/**
+ * Códigos de error específicos para el inventario de repuestos
+ */
+export enum InventoryErrorCodes {
+  NOT_FOUND = "INVENTORY_NOT_FOUND",
+  INVALID_MOVEMENT_TYPE = "INVENTORY_INVALID_MOVEMENT_TYPE",
+  INVALID_QUANTITY = "INVENTORY_INVALID_QUANTITY",
+  INSUFFICIENT_STOCK = "INVENTORY_INSUFFICIENT_STOCK",
+  INVALID_REORDER_POLICY = "INVENTORY_INVALID_REORDER_POLICY",
+  INVALID_PERIOD = "INVENTORY_INVALID_PERIOD",
+  ACCESS_DENIED = "INVENTORY_ACCESS_DENIED",
+  DATABASE_ERROR = "INVENTORY_DATABASE_ERROR",
+}
+
+/**
+ * Códigos de error específicos para ubicaciones de almacenamiento
+ */
+export enum WarehouseErrorCodes {
+  NOT_FOUND = "WAREHOUSE_NOT_FOUND",
+  INVALID_NAME = "WAREHOUSE_INVALID_NAME",
+  DUPLICATE_NAME = "WAREHOUSE_DUPLICATE_NAME",
+  HAS_STOCK = "WAREHOUSE_HAS_STOCK",
+  DEFAULT_REQUIRED = "WAREHOUSE_DEFAULT_REQUIRED",
+  ACCESS_DENIED = "WAREHOUSE_ACCESS_DENIED",
+  DATABASE_ERROR = "WAREHOUSE_DATABASE_ERROR",
+}
+
+/**
+ * Códigos de error específicos para transferencias de stock
+ */
+export enum StockTransferErrorCodes {
+  NOT_FOUND = "STOCK_TRANSFER_NOT_FOUND",
+  SAME_WAREHOUSE = "STOCK_TRANSFER_SAME_WAREHOUSE",
+  INVALID_ITEM = "STOCK_TRANSFER_INVALID_ITEM",
+  DUPLICATE_SPARE_PART = "STOCK_TRANSFER_DUPLICATE_SPARE_PART",
+  ACCESS_DENIED = "STOCK_TRANSFER_ACCESS_DENIED",
+  DATABASE_ERROR = "STOCK_TRANSFER_DATABASE_ERROR",
+}
+
+/**
+ * Códigos de error específicos para proveedores
+ */
+export enum SupplierErrorCodes {
+  NOT_FOUND = "SUPPLIER_NOT_FOUND",
+  INVALID_NAME = "SUPPLIER_INVALID_NAME",
+  DUPLICATE_NAME = "SUPPLIER_DUPLICATE_NAME",
+  INVALID_PRICE = "SUPPLIER_INVALID_PRICE",
+  IN_USE = "SUPPLIER_IN_USE",
+  ACCESS_DENIED = "SUPPLIER_ACCESS_DENIED",
+  DATABASE_ERROR = "SUPPLIER_DATABASE_ERROR",
+}
+
+/**
+ * Códigos de error específicos para órdenes de compra
+ */
+export enum PurchaseOrderErrorCodes {
+  NOT_FOUND = "PURCHASE_ORDER_NOT_FOUND",
+  INVALID_LINE = "PURCHASE_ORDER_INVALID_LINE",
+  DUPLICATE_SPARE_PART = "PURCHASE_ORDER_DUPLICATE_SPARE_PART",
+  NOT_EDITABLE = "PURCHASE_ORDER_NOT_EDITABLE",
+  INVALID_STATUS_TRANSITION = "PURCHASE_ORDER_INVALID_STATUS_TRANSITION",
+  OVER_RECEIPT = "PURCHASE_ORDER_OVER_RECEIPT",
+  ACCESS_DENIED = "PURCHASE_ORDER_ACCESS_DENIED",
+  DATABASE_ERROR = "PURCHASE_ORDER_DATABASE_ERROR",
+}
+
+/**
+ * Códigos de error específicos para equivalencias entre repuestos
+ */
+export enum SparePartSubstituteErrorCodes {
+  NOT_FOUND = "SPARE_PART_SUBSTITUTE_NOT_FOUND",
+  SPARE_PART_NOT_FOUND = "SPARE_PART_SUBSTITUTE_SPARE_PART_NOT_FOUND",
+  SELF_SUBSTITUTE = "SPARE_PART_SUBSTITUTE_SELF_SUBSTITUTE",
+  ALREADY_EQUIVALENT = "SPARE_PART_SUBSTITUTE_ALREADY_EQUIVALENT",
+  ACCESS_DENIED = "SPARE_PART_SUBSTITUTE_ACCESS_DENIED",
+  DATABASE_ERROR = "SPARE_PART_SUBSTITUTE_DATABASE_ERROR",
+}
+
+/**
+ * Códigos de error para operaciones transaccionales (unidad de trabajo)
+ */
+export enum TransactionErrorCodes {
+  STEP_FAILED = "TRANSACTION_STEP_FAILED",
+  TRANSACTION_FAILED = "TRANSACTION_FAILED",
+}
+
+/**
+ * Códigos de error específicos para técnicos
+ */
+export enum TechnicianErrorCodes {
+  NOT_FOUND = "TECHNICIAN_NOT_FOUND",
+  INVALID_NAME = "TECHNICIAN_INVALID_NAME",
+  INVALID_RATE = "TECHNICIAN_INVALID_RATE",
+  DUPLICATE_NAME = "TECHNICIAN_DUPLICATE_NAME",
+  IN_USE = "TECHNICIAN_IN_USE",
+  ACCESS_DENIED = "TECHNICIAN_ACCESS_DENIED",
+  DATABASE_ERROR = "TECHNICIAN_DATABASE_ERROR",
+}
+
+/**
+ * Códigos de error específicos para la mano de obra de los mantenimientos
+ */
+export enum MaintenanceLaborErrorCodes {
+  NOT_FOUND = "MAINTENANCE_LABOR_NOT_FOUND",
+  RECORD_NOT_FOUND = "MAINTENANCE_LABOR_RECORD_NOT_FOUND",
+  ACTIVITY_NOT_FOUND = "MAINTENANCE_LABOR_ACTIVITY_NOT_FOUND",
+  TECHNICIAN_NOT_FOUND = "MAINTENANCE_LABOR_TECHNICIAN_NOT_FOUND",
+  INACTIVE_TECHNICIAN = "MAINTENANCE_LABOR_INACTIVE_TECHNICIAN",
+  ALREADY_ASSIGNED = "MAINTENANCE_LABOR_ALREADY_ASSIGNED",
+  NOT_ASSIGNED = "MAINTENANCE_LABOR_NOT_ASSIGNED",
+  ALREADY_CLOCKED_IN = "MAINTENANCE_LABOR_ALREADY_CLOCKED_IN",
+  ALREADY_CLOCKED_OUT = "MAINTENANCE_LABOR_ALREADY_CLOCKED_OUT",
+  INVALID_TIME_RANGE = "MAINTENANCE_LABOR_INVALID_TIME_RANGE",
+  RECORD_LOCKED = "MAINTENANCE_LABOR_RECORD_LOCKED",
+  ACCESS_DENIED = "MAINTENANCE_LABOR_ACCESS_DENIED",
+  DATABASE_ERROR = "MAINTENANCE_LABOR_DATABASE_ERROR",
+}
+
+/**
+ * Códigos de error específicos para los adjuntos de los mantenimientos
+ */
+export enum MaintenanceAttachmentErrorCodes {
+  NOT_FOUND = "MAINTENANCE_ATTACHMENT_NOT_FOUND",
+  RECORD_NOT_FOUND = "MAINTENANCE_ATTACHMENT_RECORD_NOT_FOUND",
+  RECORD_LOCKED = "MAINTENANCE_ATTACHMENT_RECORD_LOCKED",
+  INVALID_FILE = "MAINTENANCE_ATTACHMENT_INVALID_FILE",
+  FILE_TOO_LARGE = "MAINTENANCE_ATTACHMENT_FILE_TOO_LARGE",
+  UNSUPPORTED_TYPE = "MAINTENANCE_ATTACHMENT_UNSUPPORTED_TYPE",
+  STORAGE_ERROR = "MAINTENANCE_ATTACHMENT_STORAGE_ERROR",
+  ACCESS_DENIED = "MAINTENANCE_ATTACHMENT_ACCESS_DENIED",
+  DATABASE_ERROR = "MAINTENANCE_ATTACHMENT_DATABASE_ERROR",
+}
@@ -1,4 +1,5 @@
 "use client";
+import { PurchaseSuggestionReport } from "@/types/inventory";
 import { MaintenanceRecordWithDetails } from "@/types/maintenance-record";
 import ExcelJS from "exceljs";
 import { formatDate, getPriorityLabel, getStatusLabel } from "./utils";
@@ -52,6 +53,19 @@ interface EquipmentExcel {
   Creado: string;
 }
 
+interface PurchaseSuggestionExcel {
+  "Código Fábrica": string;
+  Repuesto: string;
+  Disponible: number;
+  Demanda: number;
+  Proyectado: number;
+  "Stock Mínimo": number;
+  "Lote de Compra": number;
+  "Cantidad Sugerida": number;
+  "Precio Unitario": number;
+  "Costo Estimado": number;
+}
+
 const createExcelTable = async (
   worksheet: ExcelJS.Worksheet,
   data: (
@@ -59,6 +73,7 @@ const createExcelTable = async (
     | MaintenanceActivityExcel
     | MaintenanceSparePartExcel
     | EquipmentExcel
+    | PurchaseSuggestionExcel
   )[],
   tableName: string,
   startRow: number = 1
@@ -204,6 +219,19 @@ const createExcelTable = async (
   });
 };
 
+const downloadWorkbook = async (workbook: ExcelJS.Workbook, name: string) => {
+  const buffer = await workbook.xlsx.writeBuffer();
+  const blob = new Blob([buffer], {
+    type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  });
+  const url = window.URL.createObjectURL(blob);
+  const anchor = document.createElement("a");
+  anchor.href = url;
+  anchor.download = `${name}_${new Date().toISOString().split("T")[0]}.xlsx`;
+  anchor.click();
+  window.URL.revokeObjectURL(url);
+};
+
 export const downloadMRExcel = async () => {
   const res = await fetch("/api/maintenance-records?limit=0");
   if (!res.ok) {
@@ -354,16 +382,44 @@ export const downloadMRExcel = async () => {
   }
 
   // Generar y descargar archivo
-  const buffer = await workbook.xlsx.writeBuffer();
-  const blob = new Blob([buffer], {
-    type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
-  });
-  const url = window.URL.createObjectURL(blob);
-  const anchor = document.createElement("a");
-  anchor.href = url;
-  anchor.download = `Mantenimientos_${
-    new Date().toISOString().split("T")[0]
-  }.xlsx`;
-  anchor.click();
-  window.URL.revokeObjectURL(url);
+  await downloadWorkbook(workbook, "Mantenimientos");
+};
+
+export const downloadPurchaseSuggestionsExcel = async (
+  report: PurchaseSuggestionReport
+) => {
+  if (report.lines.length === 0) {
+    alert("No hay datos para exportar");
+    return;
+  }
+
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = "Sistema de Mantenimiento";
+  workbook.created = new Date();
+
+  const suggestionsData: PurchaseSuggestionExcel[] = report.lines.map(
+    (line) => ({
+      "Código Fábrica": line.spare_part?.factory_code || "",
+      Repuesto: line.spare_part?.name || line.spare_part_id,
+      Disponible: line.on_hand,
+      Demanda: line.demand,
+      Proyectado: line.projected,
+      "Stock Mínimo": line.min_stock,
+      "Lote de Compra": line.reorder_quantity,
+      "Cantidad Sugerida": line.suggested_quantity,
+      "Precio Unitario": line.spare_part?.price || 0,
+      "Costo Estimado": line.estimated_cost,
+    })
+  );
+
+  const suggestionsSheet = workbook.addWorksheet(
+    `Compras ${report.horizon_days} días`
+  );
+  await createExcelTable(
+    suggestionsSheet,
+    suggestionsData,
+    "TablaSugerenciasCompra"
+  );
+
+  await downloadWorkbook(workbook, "Sugerencias_Compra");
 };
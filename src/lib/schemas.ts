@@ -5,6 +5,9 @@ export const equipmentSchema = z.object({
   license_plate: z.string().min(1, "License plate is required"),
   code: z.string().min(1, "Code is required"),
   maintenance_plan_id: z.string().min(1, "Maintenance plan is required"),
+  meter_types: z
+    .array(z.enum(["km", "hours"]))
+    .min(1, "At least one meter is required"),
 });
 
 export const activitySchema = z.object({
@@ -30,11 +33,14 @@ export const sparePartSchema = z.object({
   description: z.string().optional(),
   price: z.number().min(0, "Price must be 0 or greater"),
   image_url: z.string().url("Must be a valid URL").optional().or(z.literal("")),
+  compatible_equipment_types: z.array(z.string()).optional(),
+  discontinued: z.boolean().optional(),
 });
 
 export const mileageSchema = z.object({
   equipment_id: z.string().min(1, "Equipment is required"),
-  mileage: z.number().min(1, "Mileage value is required"),
+  mileage: z.number().min(1, "Mileage value is required").optional(),
+  hours: z.number().min(0, "Hours must be 0 or greater").optional(),
   record_date: z.date({
     required_error: "Record Date is required",
   }),
@@ -44,6 +50,7 @@ export const maintenanceSparePartSchema = z.object({
   spare_part_id: z.string().min(1, "Spare part is required"),
   quantity: z.number().min(1, "Quantity must be at least 1"),
   unit_price: z.number().positive().optional(),
+  warehouse_id: z.string().optional(),
   id: z.string().optional(),
 });
 
@@ -55,6 +62,7 @@ export const maintenanceActivitySchema = z.object({
   priority: z.enum(["no", "low", "medium", "high", "immediate"], {
     required_error: "Priority is required",
   }),
+  mandatory: z.boolean().optional(),
   observations: z.string().optional(),
   id: z.string().optional(),
 });
@@ -68,7 +76,17 @@ export const maintenanceRecordSchema = z
     end_datetime: z.date().optional(),
     maintenance_type_id: z.string().min(1, "Maintenance type is required"),
     observations: z.string().optional(),
-    mileage: z.number().min(0, "Mileage value is required"),
+    mileage: z.number().min(0, "Mileage value is required").optional(),
+    hours: z.number().min(0, "Hours must be 0 or greater").optional(),
+    external_service_cost: z
+      .number()
+      .min(0, "El costo debe ser mayor o igual a 0")
+      .optional(),
+    tax_rate: z
+      .number()
+      .min(0, "El impuesto debe estar entre 0 y 100")
+      .max(100, "El impuesto debe estar entre 0 y 100")
+      .optional(),
     spare_parts: z.array(maintenanceSparePartSchema),
     activities: z.array(maintenanceActivitySchema),
   })
@@ -90,6 +108,29 @@ export const maintenanceStageSchema = z.object({
   value: z.number().min(0, "El valor debe ser mayor o igual a 0"),
 });
 
+export const warehouseSchema = z.object({
+  name: z.string().min(1, "El nombre es requerido"),
+  address: z.string().optional(),
+  is_default: z.boolean(),
+});
+
+export const supplierSchema = z.object({
+  name: z.string().min(1, "El nombre es requerido"),
+  tax_id: z.string().optional(),
+  contact_name: z.string().optional(),
+  phone: z.string().optional(),
+  email: z.union([z.string().email("Correo inválido"), z.literal("")]),
+  address: z.string().optional(),
+});
+
+export const technicianSchema = z.object({
+  name: z.string().min(1, "El nombre es requerido"),
+  hourly_rate: z.number().min(0, "La tarifa debe ser mayor o igual a 0"),
+  specialty: z.string().optional(),
+  phone: z.string().optional(),
+  active: z.boolean(),
+});
+
 export type MaintenanceRecordFormData = z.infer<typeof maintenanceRecordSchema>;
 export type MaintenanceSparePartFormData = z.infer<
   typeof maintenanceSparePartSchema
@@ -103,3 +144,6 @@ export type MaintenanceTypeFormData = z.infer<typeof maintenanceTypeSchema>;
 export type SparePartFormData = z.infer<typeof sparePartSchema>;
 export type MileageFormData = z.infer<typeof mileageSchema>;
 export type MaintenanceStageFormData = z.infer<typeof maintenanceStageSchema>;
+export type WarehouseFormData = z.infer<typeof warehouseSchema>;
+export type SupplierFormData = z.infer<typeof supplierSchema>;
+export type TechnicianFormData = z.infer<typeof technicianSchema>;
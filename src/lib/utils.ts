@@ -1,5 +1,9 @@
 import { EquipmentWithMaintenanceCounts } from "@/types/equipment";
-import { MaintenanceRecordWithDetails } from "@/types/maintenance-record";
+import {
+  MaintenanceRecordStatus,
+  MaintenanceRecordWithDetails,
+} from "@/types/maintenance-record";
+import { SparePartBase } from "@/types/spare-part";
 import { clsx, type ClassValue } from "clsx";
 import { twMerge } from "tailwind-merge";
 
@@ -30,6 +34,21 @@ export const formatDate = (d: Date): string => {
   return `${day}/${month}/${year}`;
 };
 
+/**
+ * Un repuesto sin tipos de equipo declarados es compatible con todos
+ */
+export const isSparePartCompatible = (
+  sparePart: Pick<SparePartBase, "compatible_equipment_types">,
+  equipmentType?: string
+): boolean => {
+  const types = sparePart.compatible_equipment_types || [];
+  if (!equipmentType || types.length === 0) return true;
+
+  return types.some(
+    (type) => type.trim().toLowerCase() === equipmentType.trim().toLowerCase()
+  );
+};
+
 export const createLocalDate = (dateString: string): Date => {
   // Extraer la fecha
   const dateOnly = dateString.split("T")[0];
@@ -69,6 +88,59 @@ export const getPriorityLabel = (priority: string) => {
   return option ? option.label : priority;
 };
 
+/*
+  Estados de la orden de trabajo de un registro de mantenimiento
+*/
+
+export const recordStatusOptions: {
+  value: MaintenanceRecordStatus;
+  label: string;
+}[] = [
+  { value: "draft", label: "Borrador" },
+  { value: "scheduled", label: "Programado" },
+  { value: "in_progress", label: "En Progreso" },
+  { value: "on_hold", label: "En Pausa" },
+  { value: "completed", label: "Completado" },
+  { value: "closed", label: "Cerrado" },
+  { value: "cancelled", label: "Anulado" },
+];
+
+export const getRecordStatusLabel = (status: string) => {
+  const option = recordStatusOptions.find((opt) => opt.value === status);
+  return option ? option.label : status;
+};
+
+/*
+  Estados a los que se puede pasar desde cada estado; un registro completado
+  se puede reabrir mientras no se cierre
+*/
+export const recordStatusTransitions: Record<
+  MaintenanceRecordStatus,
+  MaintenanceRecordStatus[]
+> = {
+  draft: ["scheduled", "in_progress", "cancelled"],
+  scheduled: ["draft", "in_progress", "on_hold", "cancelled"],
+  in_progress: ["on_hold", "completed", "cancelled"],
+  on_hold: ["scheduled", "in_progress", "cancelled"],
+  completed: ["in_progress", "closed"],
+  closed: [],
+  cancelled: [],
+};
+
+// Estados en los que el registro ya no se puede modificar
+export const lockedRecordStatuses: MaintenanceRecordStatus[] = [
+  "closed",
+  "cancelled",
+];
+
+/*
+  Estado de un registro guardado antes de que existiera la orden de trabajo:
+  completado si tiene fecha de fin, en progreso si no
+*/
+export const getDefaultRecordStatus = (
+  endDatetime?: Date | string | null
+): MaintenanceRecordStatus => (endDatetime ? "completed" : "in_progress");
+
 /*
   Obtener el maintenance_count
 */
@@ -115,3 +187,20 @@ export const getMaintenanceCount = (
     },
   };
 };
+
+/*
+  Aplicar una función asíncrona a los elementos en lotes de `size`: cada lote
+  se procesa en paralelo y los lotes uno tras otro, para no saturar las
+  conexiones. Conserva el orden de los elementos
+*/
+export const mapInBatches = async <T, R>(
+  items: T[],
+  size: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> => {
+  const results: R[] = [];
+  for (let i = 0; i < items.length; i += size) {
+    results.push(...(await Promise.all(items.slice(i, i + size).map(fn))));
+  }
+  return results;
+};
@@ -0,0 +1,48 @@
+import { BaseModel } from "./base-model";
+import { MaintenanceActivityBase } from "./maintenance-activity";
+
+/**
+ * Actividad de una lista de verificación con su prioridad por defecto y si es
+ * obligatoria para completar el registro
+ */
+export interface ActivityChecklistItem {
+  activity_id: string;
+  priority: MaintenanceActivityBase["priority"];
+  mandatory?: boolean;
+  activity?: {
+    id: string;
+    name: string;
+    description?: string;
+  };
+}
+
+/**
+ * Lista de actividades por defecto de un tipo de mantenimiento o de una etapa
+ * del plan. Pertenece a uno solo de los dos; la de la etapa tiene prioridad
+ * sobre la del tipo de mantenimiento
+ */
+export interface ActivityChecklistBase extends BaseModel {
+  maintenance_type_id?: string;
+  maintenance_stage_id?: string;
+  items: ActivityChecklistItem[];
+}
+
+export interface ActivityChecklistSave {
+  maintenance_type_id?: string;
+  maintenance_stage_id?: string;
+  items: Omit<ActivityChecklistItem, "activity">[];
+  user_id: string;
+}
+
+/**
+ * Lista que aplica a un nuevo registro de mantenimiento
+ * - stage: definida en la etapa del plan del equipo
+ * - maintenance_type: definida en el tipo de mantenimiento
+ */
+export interface ResolvedActivityChecklist {
+  source?: "stage" | "maintenance_type";
+  checklist_id?: string;
+  maintenance_type_id: string;
+  maintenance_stage_id?: string;
+  items: ActivityChecklistItem[];
+}
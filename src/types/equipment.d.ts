@@ -5,11 +5,18 @@ import {
   MaintenanceRecordWithDetails,
 } from "./maintenance-record";
 
+/**
+ * Medidores de uso de un equipo: odómetro (km) u horómetro (horas)
+ */
+export type MeterType = "km" | "hours";
+
 export interface EquipmentBase extends BaseModel {
   type: string;
   license_plate: string;
   code: string;
   maintenance_plan_id: string;
+  maintenance_plan_version?: number; // Versión del plan que sigue el equipo
+  meter_types?: MeterType[];
   maintenance_plan?: {
     id: string;
     name: string;
@@ -28,6 +35,8 @@ export interface EquipmentUpdate {
   license_plate?: string;
   code?: string;
   maintenance_plan_id?: string;
+  maintenance_plan_version?: number;
+  meter_types?: MeterType[];
 }
 
 export interface MultiEquipment {
@@ -98,6 +107,13 @@ export interface EquipmentMileageRecord {
   avg_mileage: number;
   last_mileage_value?: number;
   last_mileage_record_date?: Date;
+  lifetime_mileage?: number;
+  meter_types?: MeterType[];
+  avg_hours?: number;
+  last_hours_value?: number;
+  last_hours_record_date?: Date;
+  maintenance_plan_id?: string;
+  maintenance_plan_version?: number;
   maintenance_plan_name?: string;
 }
 
@@ -107,12 +123,42 @@ export interface MaintenanceTypePlan {
   path: string;
 }
 
+/**
+ * Restricción que determina la fecha del próximo mantenimiento
+ * - days: se cumple primero el plazo en días de la etapa
+ * - km: se alcanza primero el kilometraje de la etapa
+ * - hours: se alcanzan primero las horas de la etapa
+ */
+export type ForecastTrigger = "days" | "km" | "hours";
+
+/**
+ * Nivel de confianza del pronóstico según la cantidad y regularidad de las
+ * lecturas recientes del equipo
+ */
+export type ForecastConfidence = "high" | "medium" | "low";
+
+/**
+ * Pronóstico de la fecha del próximo mantenimiento calculado en el servidor
+ */
+export interface MaintenanceForecast {
+  predicted_date?: Date;
+  days_until_due?: number; // Días desde hoy (negativo si está vencido)
+  trigger?: ForecastTrigger;
+  confidence: ForecastConfidence;
+  daily_mileage?: number; // Tendencia de km por día usada en el cálculo
+  daily_hours?: number; // Tendencia de horas por día usada en el cálculo
+  sample_size: number; // Intervalos entre lecturas considerados
+}
+
 export interface EquipmentMaintenancePlan {
   equipment: EquipmentMileageRecord;
   last_maintenance_type?: MaintenanceTypePlan;
   next_maintenance_type?: MaintenanceTypePlan;
   remaining_days?: number;
   remaining_mileage?: number;
+  remaining_hours?: number;
+  cycle?: number; // Vuelta del plan cíclico en la que está el equipo
+  forecast?: MaintenanceForecast;
 }
 
 export interface MultiEquipmentMaintenancePlan {
@@ -0,0 +1,152 @@
+/**
+ * Tipo de movimiento de stock
+ * - receipt: ingreso por compra o recepción
+ * - consumption: salida por uso en un registro de mantenimiento
+ * - adjustment: corrección manual del conteo (positiva o negativa)
+ * - return: devolución al almacén
+ * - transfer: salida o ingreso por una transferencia entre ubicaciones
+ */
+export type StockMovementType =
+  | "receipt"
+  | "consumption"
+  | "adjustment"
+  | "return"
+  | "transfer";
+
+/**
+ * Stock de un repuesto en una ubicación
+ */
+export interface SparePartLocationStock {
+  warehouse_id: string;
+  warehouse_name: string;
+  on_hand: number;
+}
+
+/**
+ * Stock disponible de un repuesto (total y por ubicación)
+ */
+export interface SparePartStock {
+  spare_part_id: string;
+  spare_part?: {
+    id: string;
+    factory_code: string;
+    name: string;
+    price: number;
+  };
+  on_hand: number;
+  locations: SparePartLocationStock[];
+  allow_negative: boolean; // Permite consumir más de lo disponible
+  min_stock: number; // Punto de reorden: stock mínimo deseado
+  reorder_quantity: number; // Lote de compra sugerido
+  updated_at?: Date;
+}
+
+/**
+ * Punto de reorden de un repuesto
+ */
+export interface SparePartReorderPolicy {
+  min_stock: number;
+  reorder_quantity: number;
+}
+
+export interface MultiSparePartStock {
+  total: number;
+  limit: number;
+  offset: number;
+  pages: number;
+  data: SparePartStock[];
+}
+
+/**
+ * Movimiento del libro de stock (solo se agregan, nunca se modifican)
+ */
+export interface StockMovementBase {
+  id: string;
+  spare_part_id: string;
+  warehouse_id: string;
+  warehouse_name?: string;
+  movement_type: StockMovementType;
+  quantity: number; // Positivo si ingresa, negativo si sale
+  balance: number; // Stock de la ubicación después del movimiento
+  unit_cost?: number;
+  transfer_id?: string;
+  purchase_order_id?: string;
+  maintenance_record_id?: string;
+  maintenance_spare_part_id?: string;
+  notes?: string;
+  created_at: Date;
+  user_id: string;
+}
+
+export interface StockMovementCreate
+  extends Omit<
+    StockMovementBase,
+    "id" | "warehouse_id" | "warehouse_name" | "balance" | "created_at"
+  > {
+  warehouse_id?: string; // Ubicación predeterminada si no se indica
+}
+
+export interface StockMovementFilters {
+  spare_part_id?: string;
+  warehouse_id?: string;
+  maintenance_record_id?: string;
+}
+
+/**
+ * Consumo de un repuesto en los mantenimientos de un periodo
+ */
+export interface SparePartConsumption {
+  spare_part_id: string;
+  quantity: number;
+  total_cost: number;
+}
+
+export interface MultiStockMovement {
+  total: number;
+  limit: number;
+  offset: number;
+  pages: number;
+  data: StockMovementBase[];
+}
+
+/**
+ * Cambio de cantidad de un repuesto en un registro de mantenimiento
+ */
+export interface MaintenanceConsumptionChange {
+  maintenance_record_id: string;
+  maintenance_spare_part_id: string;
+  spare_part_id: string;
+  previous_warehouse_id?: string;
+  warehouse_id?: string;
+  previous_quantity: number;
+  quantity: number;
+  unit_price?: number;
+  user_id: string;
+}
+
+/**
+ * Repuesto que se debe comprar según su stock y la demanda proyectada
+ */
+export interface PurchaseSuggestionLine {
+  spare_part_id: string;
+  spare_part?: SparePartStock["spare_part"];
+  on_hand: number;
+  min_stock: number;
+  reorder_quantity: number;
+  demand: number; // Requerido por los próximos mantenimientos
+  projected: number; // Stock después de la demanda
+  suggested_quantity: number;
+  estimated_cost: number;
+}
+
+/**
+ * Sugerencia de compra de repuestos
+ * Incluye los repuestos cuyo stock proyectado queda por debajo del mínimo
+ */
+export interface PurchaseSuggestionReport {
+  generated_at: Date;
+  horizon_days: number;
+  lines: PurchaseSuggestionLine[];
+  total_cost: number;
+  without_kit: number; // Mantenimientos del horizonte sin kit definido
+}
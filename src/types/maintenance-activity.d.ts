@@ -4,6 +4,7 @@ export interface MaintenanceActivityBase {
   activity_id: string;
   status: "completed" | "pending" | "in_progress";
   priority: "no" | "low" | "medium" | "high" | "immediate";
+  mandatory?: boolean; // El registro no se completa con la actividad pendiente
   observations?: string;
   created_at: Date;
   updated_at?: Date;
@@ -28,6 +29,7 @@ export interface MaintenanceActivityUpdate {
   activity_id?: string;
   status?: "completed" | "pending" | "in_progress";
   priority?: "no" | "low" | "medium" | "high" | "immediate";
+  mandatory?: boolean;
   observations?: string;
   user_id: string;
 }
@@ -44,6 +46,7 @@ export interface BulkMaintenanceActivityUpdate {
     activity_id: string;
     status?: "completed" | "pending" | "in_progress";
     priority?: "no" | "low" | "medium" | "high" | "immediate";
+    mandatory?: boolean;
     observations?: string;
   }>;
   user_id: string;
@@ -0,0 +1,53 @@
+/**
+ * Tipo de documento adjunto a un registro de mantenimiento
+ * - photo_before: foto antes del trabajo
+ * - photo_after: foto después del trabajo
+ * - invoice: factura o comprobante
+ * - diagnostic: reporte o impresión de diagnóstico
+ * - other: otro documento
+ */
+export type MaintenanceAttachmentKind =
+  | "photo_before"
+  | "photo_after"
+  | "invoice"
+  | "diagnostic"
+  | "other";
+
+/**
+ * Archivo adjunto a un registro de mantenimiento
+ * El contenido se guarda en el almacenamiento configurado; la base de datos
+ * solo conserva la clave del archivo y de su miniatura
+ */
+export interface MaintenanceAttachmentBase {
+  id: string;
+  maintenance_record_id: string;
+  kind: MaintenanceAttachmentKind;
+  file_name: string;
+  content_type: string;
+  size: number; // Bytes
+  storage_key: string;
+  thumbnail_key?: string; // Solo imágenes
+  description?: string;
+  created_at: Date;
+  user_id: string;
+}
+
+export type MaintenanceAttachmentCreate = Omit<
+  MaintenanceAttachmentBase,
+  "id" | "created_at"
+>;
+
+/**
+ * Archivo recibido para adjuntar a un registro
+ */
+export interface MaintenanceAttachmentUpload {
+  maintenance_record_id: string;
+  kind: MaintenanceAttachmentKind;
+  description?: string;
+  file_name: string;
+  content_type: string;
+  data: Buffer;
+  thumbnail?: Buffer; // Miniatura JPEG generada por el cliente
+  thumbnail_content_type?: string;
+  user_id: string;
+}
@@ -0,0 +1,87 @@
+import { MeterType } from "./equipment";
+import { MaintenanceType } from "./maintenance-plan";
+
+/**
+ * Clasificación de una etapa vencida del plan
+ * - on_time: se realizó dentro de la tolerancia
+ * - early: se realizó antes de la tolerancia por medidor y por días
+ * - late: se realizó después de la tolerancia por medidor o por días
+ * - missed: no se realizó y ya se superó la tolerancia
+ * - pending: no se realizó pero aún está dentro de la tolerancia
+ */
+export type MaintenanceComplianceStatus =
+  | "on_time"
+  | "early"
+  | "late"
+  | "missed"
+  | "pending";
+
+/**
+ * Etapa del plan que el equipo ya alcanzó y el mantenimiento que la cumplió
+ * Las desviaciones son positivas cuando el mantenimiento se hizo después del
+ * umbral y negativas cuando se hizo antes
+ */
+export interface MaintenanceComplianceEntry {
+  stage_id: string;
+  stage_index: number;
+  maintenance_type_id: string;
+  maintenance_type?: MaintenanceType;
+  cycle: number; // Vuelta del ciclo (0 en la primera pasada)
+  meter_type: MeterType;
+  due_reading: number; // Umbral acumulado en el medidor
+  due_date: Date; // Fecha límite según los días de la etapa
+  status: MaintenanceComplianceStatus;
+  late_by?: ("reading" | "days")[];
+  maintenance_record_id?: string;
+  performed_date?: Date;
+  performed_reading?: number;
+  reading_deviation?: number;
+  days_deviation?: number;
+}
+
+/**
+ * Conteo de etapas por clasificación y porcentajes de cumplimiento
+ * Los porcentajes se calculan sobre las etapas evaluadas (sin las pendientes)
+ */
+export interface MaintenanceComplianceSummary {
+  on_time: number;
+  early: number;
+  late: number;
+  missed: number;
+  pending: number;
+  evaluated: number;
+  compliance_pct?: number; // Realizadas a tiempo o antes
+  on_time_pct?: number;
+  early_pct?: number;
+  late_pct?: number;
+  missed_pct?: number;
+}
+
+/**
+ * Cumplimiento del plan de un equipo
+ */
+export interface EquipmentMaintenanceCompliance {
+  equipment: {
+    id: string;
+    code: string;
+    license_plate: string;
+    type: string;
+  };
+  maintenance_plan_id: string;
+  maintenance_plan_name?: string;
+  maintenance_plan_version?: number;
+  meter_type: MeterType;
+  current_reading?: number;
+  entries: MaintenanceComplianceEntry[];
+  summary: MaintenanceComplianceSummary;
+}
+
+/**
+ * Reporte de cumplimiento de la flota
+ */
+export interface MaintenanceComplianceReport {
+  generated_at: Date;
+  tolerance_pct: number;
+  summary: MaintenanceComplianceSummary;
+  equipment: EquipmentMaintenanceCompliance[];
+}
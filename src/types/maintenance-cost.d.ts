@@ -0,0 +1,59 @@
+/**
+ * Desglose del costo de un registro de mantenimiento
+ * El impuesto se aplica sobre el subtotal (repuestos, mano de obra y
+ * servicios externos)
+ */
+export interface MaintenanceCostBreakdown {
+  parts_cost: number; // Cantidad × precio unitario de cada repuesto
+  labor_cost: number; // Solo tiempos cerrados de los técnicos
+  external_service_cost: number;
+  subtotal: number;
+  tax: number;
+  total: number;
+}
+
+/**
+ * Costo de un registro de mantenimiento
+ */
+export interface MaintenanceRecordCost extends MaintenanceCostBreakdown {
+  maintenance_record_id: string;
+  equipment_id: string;
+  maintenance_type_id: string;
+  start_datetime: Date;
+  tax_rate: number;
+}
+
+/**
+ * Costos acumulados de un grupo de registros (equipo, tipo, plan o mes)
+ */
+export interface MaintenanceCostGroup extends MaintenanceCostBreakdown {
+  key: string;
+  label: string;
+  records: number;
+}
+
+/**
+ * Costos de un equipo con el costo por kilómetro recorrido en el periodo
+ */
+export interface EquipmentMaintenanceCost extends MaintenanceCostGroup {
+  kilometers?: number; // Kilómetros de vida útil recorridos en el periodo
+  cost_per_km?: number;
+}
+
+/**
+ * Reporte de costos de mantenimiento de la flota en un periodo
+ */
+export interface MaintenanceCostReport {
+  generated_at: Date;
+  from?: Date;
+  to?: Date;
+  summary: MaintenanceCostBreakdown & {
+    records: number;
+    kilometers: number;
+    cost_per_km?: number;
+  };
+  by_equipment: EquipmentMaintenanceCost[];
+  by_maintenance_type: MaintenanceCostGroup[];
+  by_plan: MaintenanceCostGroup[];
+  by_month: MaintenanceCostGroup[]; // Clave YYYY-MM, en orden cronológico
+}
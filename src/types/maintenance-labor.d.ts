@@ -0,0 +1,92 @@
+/**
+ * Técnico resumido en las asignaciones y registros de tiempo
+ */
+export interface LaborTechnician {
+  id: string;
+  name: string;
+  hourly_rate: number;
+}
+
+/**
+ * Técnico asignado a un registro de mantenimiento o a una de sus actividades
+ */
+export interface MaintenanceTechnicianAssignment {
+  id: string;
+  maintenance_record_id: string;
+  maintenance_activity_id?: string; // Sin actividad: todo el registro
+  technician_id: string;
+  technician?: LaborTechnician;
+  created_at: Date;
+  user_id: string;
+}
+
+export interface MaintenanceTechnicianAssignmentCreate {
+  maintenance_record_id: string;
+  maintenance_activity_id?: string;
+  technician_id: string;
+  user_id: string;
+}
+
+/**
+ * Registro de tiempo (entrada y salida) de un técnico en un mantenimiento
+ * La tarifa se copia del técnico al marcar la entrada para que el costo no
+ * cambie si luego se actualiza
+ */
+export interface LaborTimeEntry {
+  id: string;
+  maintenance_record_id: string;
+  maintenance_activity_id?: string;
+  technician_id: string;
+  technician?: LaborTechnician;
+  clock_in: Date;
+  clock_out?: Date; // Sin salida, el técnico sigue trabajando
+  hourly_rate: number;
+  hours?: number; // Calculadas al marcar la salida
+  cost?: number;
+  notes?: string;
+  created_at: Date;
+  user_id: string;
+}
+
+/**
+ * Marcar la entrada de un técnico; con `clock_out` se registra un tiempo ya
+ * trabajado
+ */
+export interface LaborClockIn {
+  maintenance_record_id: string;
+  maintenance_activity_id?: string;
+  technician_id: string;
+  clock_in?: Date;
+  clock_out?: Date;
+  notes?: string;
+  user_id: string;
+}
+
+export interface LaborClockOut {
+  id: string;
+  clock_out?: Date;
+  notes?: string;
+  user_id: string;
+}
+
+/**
+ * Horas y costo de mano de obra de un técnico en un registro
+ */
+export interface TechnicianLabor {
+  technician_id: string;
+  name: string;
+  hours: number;
+  cost: number;
+}
+
+/**
+ * Mano de obra de un registro de mantenimiento; solo se suman los tiempos
+ * cerrados
+ */
+export interface MaintenanceRecordLabor {
+  maintenance_record_id: string;
+  labor_hours: number;
+  labor_cost: number;
+  open_entries: number; // Técnicos con la entrada marcada y sin salida
+  technicians: TechnicianLabor[];
+}
@@ -0,0 +1,54 @@
+import { BaseModel } from "./base-model";
+import { MaintenancePlanCycleMode, MaintenanceType } from "./maintenance-plan";
+
+/**
+ * Etapa guardada en una plantilla de plan
+ */
+export interface MaintenancePlanTemplateStage {
+  maintenance_type_id: string;
+  stage_index: number;
+  kilometers: number;
+  days: number;
+  hours?: number;
+  maintenance_type?: MaintenanceType;
+}
+
+// Maintenance Plan Template interfaces
+export interface MaintenancePlanTemplateBase extends BaseModel {
+  name: string;
+  description?: string;
+  cycle_mode: MaintenancePlanCycleMode;
+  cycle_restart_index?: number;
+  stages: MaintenancePlanTemplateStage[];
+}
+
+export interface MaintenancePlanTemplateCreate {
+  name: string;
+  description?: string;
+  cycle_mode: MaintenancePlanCycleMode;
+  cycle_restart_index?: number;
+  stages: MaintenancePlanTemplateStage[];
+  user_id: string;
+}
+
+export interface MultiMaintenancePlanTemplate {
+  total: number;
+  limit: number;
+  offset: number;
+  pages: number;
+  data: MaintenancePlanTemplateBase[];
+}
+
+/**
+ * Datos para crear un plan a partir de una plantilla
+ * Los kilómetros y horas de las etapas se multiplican por kilometer_factor y
+ * los días por day_factor
+ */
+export interface MaintenancePlanTemplateInstantiate {
+  template_id: string;
+  name?: string;
+  description?: string;
+  kilometer_factor: number;
+  day_factor: number;
+  user_id: string;
+}
@@ -0,0 +1,69 @@
+import { MaintenancePlanCycleMode } from "./maintenance-plan";
+
+/**
+ * Tipo de mantenimiento exportado, identificado por su path en el árbol
+ */
+export interface MaintenancePlanExportType {
+  path: string;
+  type: string;
+  level: number;
+}
+
+/**
+ * Etapa exportada; el tipo de mantenimiento se referencia por su path
+ */
+export interface MaintenancePlanExportStage {
+  maintenance_type_path: string;
+  stage_index: number;
+  kilometers: number;
+  days: number;
+  hours?: number;
+}
+
+/**
+ * Plan de mantenimiento portable entre cuentas
+ */
+export interface MaintenancePlanExport {
+  format: "maintenance-plan";
+  format_version: number;
+  exported_at: string;
+  plan: {
+    name: string;
+    description?: string;
+    cycle_mode: MaintenancePlanCycleMode;
+    cycle_restart_index?: number;
+  };
+  maintenance_types: MaintenancePlanExportType[];
+  stages: MaintenancePlanExportStage[];
+}
+
+/**
+ * Qué hacer si ya existe un plan con el mismo nombre
+ * - fail: no importar y reportar el conflicto
+ * - rename: importar con un nombre disponible
+ */
+export type MaintenancePlanImportNameStrategy = "fail" | "rename";
+
+export interface MaintenancePlanImportOptions {
+  name?: string;
+  on_name_conflict: MaintenancePlanImportNameStrategy;
+  dry_run: boolean;
+  user_id: string;
+}
+
+export interface MaintenancePlanImportConflict {
+  type: "plan_name" | "maintenance_type" | "stage";
+  message: string;
+  path?: string;
+  stage_index?: number;
+}
+
+export interface MaintenancePlanImportResult {
+  imported: boolean;
+  dry_run: boolean;
+  plan_id?: string;
+  name: string;
+  created_maintenance_types: string[];
+  existing_maintenance_types: string[];
+  conflicts: MaintenancePlanImportConflict[];
+}
@@ -0,0 +1,82 @@
+import { BaseModel } from "./base-model";
+import { MaintenancePlanCycleMode, MaintenanceType } from "./maintenance-plan";
+
+/**
+ * Etapa guardada en una versión del plan
+ * Es una copia de la etapa al momento de publicar la versión
+ */
+export interface MaintenancePlanVersionStage {
+  stage_id: string;
+  maintenance_type_id: string;
+  stage_index: number;
+  kilometers: number;
+  days: number;
+  hours?: number;
+  maintenance_type?: MaintenanceType;
+}
+
+/**
+ * Versión de un plan de mantenimiento
+ * Cada edición de etapas o del ciclo publica una nueva versión; los equipos
+ * siguen la versión a la que fueron asignados hasta que se migran
+ */
+export interface MaintenancePlanVersionBase extends BaseModel {
+  maintenance_plan_id: string;
+  version_number: number;
+  cycle_mode: MaintenancePlanCycleMode;
+  cycle_restart_index?: number;
+  stages: MaintenancePlanVersionStage[];
+  equipment_count?: number;
+}
+
+export interface MaintenancePlanVersionCreate {
+  maintenance_plan_id: string;
+  cycle_mode: MaintenancePlanCycleMode;
+  cycle_restart_index?: number;
+  stages: MaintenancePlanVersionStage[];
+  user_id: string;
+}
+
+export interface MaintenancePlanVersionsResponse {
+  maintenance_plan_id: string;
+  current_version?: number;
+  data: MaintenancePlanVersionBase[];
+}
+
+/**
+ * Equipo asignado a un plan con la versión que sigue
+ */
+export interface MaintenancePlanVersionEquipment {
+  id: string;
+  code: string;
+  license_plate: string;
+  maintenance_plan_version?: number;
+}
+
+/**
+ * Cambio de una etapa entre dos versiones
+ * Las etapas se comparan por tipo de mantenimiento
+ */
+export interface MaintenancePlanStageChange {
+  maintenance_type_id: string;
+  maintenance_type?: MaintenanceType;
+  change: "added" | "removed" | "modified";
+  from?: MaintenancePlanVersionStage;
+  to?: MaintenancePlanVersionStage;
+  fields: ("stage_index" | "kilometers" | "days" | "hours")[];
+}
+
+export interface MaintenancePlanVersionDiff {
+  maintenance_plan_id: string;
+  from_version: number;
+  to_version: number;
+  cycle_changed: boolean;
+  stages: MaintenancePlanStageChange[];
+}
+
+export interface MaintenancePlanVersionMigration {
+  maintenance_plan_id: string;
+  version_number: number;
+  equipment_ids: string[];
+  user_id: string;
+}
@@ -1,4 +1,5 @@
 import { BaseModel } from "./base-model";
+import { MaintenanceStageBase } from "./maintenance-stage";
 
 export interface MaintenanceType {
   id: string;
@@ -8,10 +9,21 @@ export interface MaintenanceType {
   parent_id?: string;
 }
 
+/**
+ * Comportamiento del plan después de su última etapa
+ * - repeat: se repite el plan completo desde la primera etapa
+ * - repeat_from: se repite desde la etapa indicada en cycle_restart_index
+ * - terminate: el plan finaliza en la última etapa
+ */
+export type MaintenancePlanCycleMode = "repeat" | "repeat_from" | "terminate";
+
 // Maintenance Plan interfaces
 export interface MaintenancePlanBase extends BaseModel {
   name: string;
   description?: string;
+  cycle_mode?: MaintenancePlanCycleMode;
+  cycle_restart_index?: number; // stage_index desde el que se repite el plan
+  current_version?: number; // Última versión publicada del plan
   stage_count?: number;
   maintenance_type_count?: number;
 }
@@ -19,6 +31,8 @@ export interface MaintenancePlanBase extends BaseModel {
 export interface MaintenancePlanCreate {
   name: string;
   description?: string;
+  cycle_mode?: MaintenancePlanCycleMode;
+  cycle_restart_index?: number;
   user_id: string;
 }
 
@@ -26,6 +40,8 @@ export interface MaintenancePlanUpdate {
   id: string;
   name?: string;
   description?: string;
+  cycle_mode?: MaintenancePlanCycleMode;
+  cycle_restart_index?: number;
 }
 
 export interface MultiMaintenancePlan {
@@ -40,6 +56,19 @@ export interface MaintenancePlanWithStages extends MaintenancePlanBase {
   stages: MaintenanceStageBase[];
 }
 
+/**
+ * Etapa resuelta dentro del ciclo de un plan
+ * Los umbrales están desplazados por las vueltas completas del ciclo
+ */
+export interface MaintenanceCycleStage {
+  stage: MaintenanceStageBase;
+  previous_stage?: MaintenanceStageBase;
+  cycle: number; // Vueltas completas del ciclo (0 en la primera pasada)
+  threshold: number; // Umbral acumulado de la etapa en el medidor
+  threshold_days: number; // Días acumulados de la etapa
+  previous_threshold_days: number; // Días acumulados de la etapa anterior
+}
+
 export interface CanDeleteResult {
   id: string;
   name: string;
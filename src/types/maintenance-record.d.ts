@@ -1,11 +1,36 @@
 import { BaseModel } from "@/types/base-model";
-import { MaintenanceSparePartBase } from "./maintenance-spare-part";
-import { MaintenanceActivityBase } from "./maintenance-activity";
+import {
+  MaintenanceSparePartBase,
+  BulkMaintenanceSparePartUpdate,
+} from "./maintenance-spare-part";
+import {
+  MaintenanceActivityBase,
+  BulkMaintenanceActivityUpdate,
+} from "./maintenance-activity";
 import { MaintenanceTypeBase } from "./maintenance-type";
 import { EquipmentBase } from "./equipment";
 import { ActivityBase } from "./activity";
 import { SparePartBase } from "./spare-part";
 
+/**
+ * Ciclo de vida de la orden de trabajo
+ * - draft: en preparación
+ * - scheduled: programada para una fecha
+ * - in_progress: en ejecución
+ * - on_hold: en pausa (falta de repuestos, equipo no disponible, etc.)
+ * - completed: trabajo terminado, pendiente de revisión
+ * - closed: revisada y cerrada; ya no se modifica
+ * - cancelled: anulada
+ */
+export type MaintenanceRecordStatus =
+  | "draft"
+  | "scheduled"
+  | "in_progress"
+  | "on_hold"
+  | "completed"
+  | "closed"
+  | "cancelled";
+
 export interface MaintenanceRecordBase extends BaseModel {
   equipment_id: string;
   start_datetime: Date;
@@ -13,21 +38,51 @@ export interface MaintenanceRecordBase extends BaseModel {
   maintenance_type_id: string;
   observations?: string;
   mileage_record_id: string;
+  maintenance_plan_version?: number; // Versión del plan vigente al registrar
+  status: MaintenanceRecordStatus;
+  status_changed_at?: Date; // Fecha del último cambio de estado
+  status_changed_by?: string; // Usuario que hizo el último cambio de estado
+  external_service_cost?: number; // Servicios de terceros (taller, grúa, etc.)
+  tax_rate?: number; // Porcentaje de impuesto sobre el costo del registro
 }
 
 export interface MaintenanceRecordCreate
-  extends Omit<MaintenanceRecordBase, "id" | "created_at" | "updated_at"> {
+  extends Omit<
+    MaintenanceRecordBase,
+    | "id"
+    | "created_at"
+    | "updated_at"
+    | "status"
+    | "status_changed_at"
+    | "status_changed_by"
+  > {
+  status?: MaintenanceRecordStatus; // Por defecto in_progress
+  user_id: string;
+}
+
+/**
+ * Cambio de estado de un registro de mantenimiento
+ */
+export interface MaintenanceRecordStatusChange {
+  id: string;
+  maintenance_record_id: string;
+  from_status?: MaintenanceRecordStatus;
+  to_status: MaintenanceRecordStatus;
+  reason?: string;
+  changed_at: Date;
   user_id: string;
 }
 
 export interface MaintenanceRecordUpdate {
   id: string;
   equipment_id?: string;
-  start_datetime?: Date;
-  end_datetime?: Date;
+  start_datetime?: Date | string;
+  end_datetime?: Date | string;
   maintenance_type_id?: string;
   observations?: string;
   mileage_record_id?: string;
+  external_service_cost?: number;
+  tax_rate?: number;
 }
 
 export interface MultiMaintenanceRecord {
@@ -38,6 +93,17 @@ export interface MultiMaintenanceRecord {
   data: MaintenanceRecordBase[];
 }
 
+/**
+ * Filtros de registros por periodo (fecha de inicio) y equipo; los registros
+ * anulados se excluyen salvo que se pidan
+ */
+export interface MaintenanceRecordPeriodFilters {
+  from?: Date;
+  to?: Date;
+  equipment_id?: string;
+  include_cancelled?: boolean;
+}
+
 export interface DeleteMaintenanceRecord {
   id: string;
 }
@@ -50,8 +116,50 @@ export interface MaintenanceRecordWithDetails extends MaintenanceRecordBase {
   mileage_info?: {
     id: string;
     record_date: Date;
-    kilometers: number;
+    kilometers?: number;
+    hours?: number;
   };
   duration_hours?: number;
-  status?: "completed" | "in_progress";
+  labor_hours?: number; // Horas hombre registradas por los técnicos
+  labor_cost?: number;
+}
+
+/**
+ * Datos para crear un registro de mantenimiento junto con su kilometraje,
+ * repuestos y actividades en una sola transacción
+ */
+export interface MaintenanceRecordCreateWithDetails {
+  equipment_id: string;
+  maintenance_type_id: string;
+  start_datetime: string;
+  end_datetime?: string;
+  observations?: string;
+  status?: MaintenanceRecordStatus; // Estado inicial al crear
+  external_service_cost?: number;
+  tax_rate?: number;
+  mileage?: number;
+  hours?: number;
+  mileage_record?: {
+    id: string;
+    record_date: string;
+    kilometers?: number;
+    hours?: number;
+  };
+  mileage_record_id?: string;
+  spare_parts?: BulkMaintenanceSparePartUpdate["spare_parts"];
+  activities?: BulkMaintenanceActivityUpdate["activities"]; // Sin enviar se usa la lista por defecto
+  user_id: string;
+}
+
+/**
+ * Datos para actualizar un registro de mantenimiento junto con su kilometraje,
+ * repuestos y actividades en una sola transacción
+ */
+export interface MaintenanceRecordUpdateWithDetails
+  extends MaintenanceRecordCreateWithDetails {
+  id: string;
+  original_spare_parts?: MaintenanceSparePartBase[];
+  original_activities?: MaintenanceActivityBase[];
+  created_at?: Date;
+  updated_at?: Date;
 }
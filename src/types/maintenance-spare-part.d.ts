@@ -3,7 +3,8 @@ export interface MaintenanceSparePartBase {
   maintenance_record_id: string;
   spare_part_id: string;
   quantity: number;
-  unit_price?: number;
+  unit_price?: number; // Precio vigente al registrar la línea
+  warehouse_id?: string; // Ubicación de la que se consume el repuesto
   created_at: Date;
 }
 export interface MaintenanceSparePartCreate
@@ -14,6 +15,7 @@ export interface MaintenanceSparePartUpdate {
   id: string;
   quantity?: number;
   unit_price?: number;
+  warehouse_id?: string;
   user_id: string;
 }
 export interface MaintenanceSparePartWithDetails
@@ -39,6 +41,16 @@ export interface BulkMaintenanceSparePartUpdate {
     spare_part_id: string;
     quantity: number;
     unit_price?: number;
+    warehouse_id?: string;
   }>;
   user_id: string;
 }
+
+export interface MaintenanceSparePartCostSnapshot {
+  maintenance_spare_part_id: string;
+  maintenance_record_id: string;
+  equipment_license?: string;
+  quantity: number;
+  unit_price: number;
+  created_at: Date;
+}
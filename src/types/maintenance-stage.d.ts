@@ -7,6 +7,7 @@ export interface MaintenanceStageBase extends BaseModel {
   stage_index: number;
   kilometers: number;
   days: number;
+  hours?: number;
   maintenance_type?: MaintenanceType;
   maintenance_plan?: {
     id: string;
@@ -21,6 +22,7 @@ export interface MaintenanceStageCreate {
   stage_index: number;
   kilometers: number;
   days: number;
+  hours?: number;
   user_id: string;
 }
 
@@ -31,6 +33,7 @@ export interface MaintenanceStageUpdate {
   stage_index?: number;
   kilometers?: number;
   days?: number;
+  hours?: number;
 }
 
 export interface MultiMaintenanceStage {
@@ -42,3 +45,15 @@ export interface MultiMaintenanceStage {
   maintenance_plan_id?: string;
   data: MaintenanceStageBase[];
 }
+
+/**
+ * Resultado de crear, modificar, eliminar o reordenar etapas de un plan:
+ * la etapa afectada, el orden resultante y la versión publicada del plan
+ */
+export interface MaintenanceStagePlanChange {
+  id: string;
+  created_at?: Date;
+  stage_index?: number;
+  sorted_stages?: string[];
+  plan_version?: number;
+}
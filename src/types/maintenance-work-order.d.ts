@@ -0,0 +1,27 @@
+import { MaintenanceRecordWithDetails } from "./maintenance-record";
+import { MaintenanceRecordCost } from "./maintenance-cost";
+
+/**
+ * Documento imprimible de un registro de mantenimiento
+ * - work_order: orden de trabajo para el taller
+ * - service_report: informe de servicio para el cliente, con costos
+ */
+export type MaintenanceWorkOrderDocument = "work_order" | "service_report";
+
+/**
+ * Registro con el detalle y el costo necesarios para imprimirlo
+ */
+export interface MaintenanceWorkOrder {
+  record: MaintenanceRecordWithDetails;
+  cost: MaintenanceRecordCost;
+}
+
+/**
+ * Datos de la empresa para el encabezado de los documentos
+ */
+export interface CompanyHeader {
+  name: string;
+  tax_id?: string; // RUC
+  address?: string;
+  phone?: string;
+}
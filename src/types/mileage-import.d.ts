@@ -0,0 +1,38 @@
+/**
+ * Fila de un archivo de importación de kilometraje (CSV o XLSX)
+ */
+export interface MileageImportRow {
+  row_number: number; // Número de fila en el archivo (1 = encabezados)
+  equipment_code?: string;
+  license_plate?: string;
+  record_date?: Date;
+  kilometers?: number;
+  hours?: number;
+  equipment?: {
+    id: string;
+    type: string;
+    code: string;
+    license_plate: string;
+  };
+  action?: "create" | "update";
+  existing_record_id?: string;
+  errors: string[];
+}
+
+/**
+ * Vista previa (dry-run) de una importación de kilometraje
+ */
+export interface MileageImportPreview {
+  total_rows: number;
+  valid_rows: number;
+  invalid_rows: number;
+  rows: MileageImportRow[];
+}
+
+/**
+ * Resultado de una importación de kilometraje confirmada
+ */
+export interface MileageImportResult extends MileageImportPreview {
+  created: number;
+  updated: number;
+}
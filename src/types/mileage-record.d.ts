@@ -1,11 +1,14 @@
 /**
  * Interfaz base para registros de kilometraje
+ * Cada registro guarda la lectura de los medidores del equipo: `kilometers`
+ * (odómetro) y/o `hours` (horómetro)
  */
 export interface MileageRecordBase {
   id: string;
   equipment_id: string;
   record_date: Date;
-  kilometers: number;
+  kilometers?: number;
+  hours?: number;
   created_at: Date;
   updated_at?: Date;
 }
@@ -16,10 +19,41 @@ export interface MileageRecordBase {
 export interface MileageRecordCreate {
   equipment_id: string;
   record_date: Date;
-  kilometers: number;
+  kilometers?: number;
+  hours?: number;
   user_id: string;
 }
 
+/**
+ * Registro de kilometraje de una importación ya validada; con `id` se
+ * actualiza el registro existente para la fecha
+ */
+export interface MileageRecordImportItem
+  extends Omit<MileageRecordCreate, "user_id"> {
+  id?: string;
+}
+
+/**
+ * Resultado de validar un registro de kilometraje antes de crearlo
+ * - create: se crearía un registro nuevo
+ * - update: ya existe un registro para la fecha y se actualizaría
+ */
+export interface MileageRecordCreateCheck {
+  action: "create" | "update";
+  existing_record?: MileageRecordBase;
+}
+
+/**
+ * Lecturas de kilómetros que delimitan un periodo
+ * - baseline: última lectura anterior al periodo o, si no hay, la primera
+ *   dentro de él
+ * - current: última lectura hasta el fin del periodo
+ */
+export interface MileagePeriodBounds {
+  baseline: MileageRecordBase | null;
+  current: MileageRecordBase | null;
+}
+
 /**
  * Interfaz para actualizar un registro de kilometraje
  */
@@ -29,6 +63,7 @@ export interface MileageRecordUpdate {
   equipment_id?: string;
   record_date?: Date;
   kilometers?: number;
+  hours?: number;
 }
 
 /**
@@ -0,0 +1,61 @@
+import { BaseModel } from "@/types/base-model";
+import { MileageRecordBase } from "./mileage-record";
+
+/**
+ * Tipos de evento del odómetro
+ * - replacement: el odómetro fue reemplazado por uno nuevo
+ * - rollover: el odómetro llegó a su máximo y volvió a cero
+ */
+export type OdometerEventType = "replacement" | "rollover";
+
+/**
+ * Interfaz base para eventos del odómetro
+ * Un evento reinicia la línea base de lecturas del equipo sin perder los
+ * kilómetros acumulados durante su vida útil
+ */
+export interface OdometerEventBase extends BaseModel {
+  equipment_id: string;
+  event_type: OdometerEventType;
+  event_date: Date;
+  final_reading: number; // Lectura del odómetro antes del evento
+  initial_reading: number; // Lectura del odómetro después del evento
+  observations?: string;
+}
+
+/**
+ * Interfaz para crear un nuevo evento del odómetro
+ */
+export interface OdometerEventCreate
+  extends Omit<OdometerEventBase, "id" | "created_at" | "updated_at"> {
+  user_id: string;
+}
+
+/**
+ * Interfaz para respuesta de eventos del odómetro por equipo
+ */
+export interface OdometerEventsByEquipmentResponse {
+  equipment_id: string;
+  data: OdometerEventBase[];
+}
+
+/**
+ * Interfaz para una regresión detectada entre dos lecturas consecutivas
+ */
+export interface MileageConsistencyIssue {
+  record: MileageRecordBase;
+  previous_record: MileageRecordBase;
+  lifetime_kilometers: number;
+  previous_lifetime_kilometers: number;
+  difference: number;
+}
+
+/**
+ * Interfaz para el reporte de consistencia del odómetro de un equipo
+ */
+export interface MileageConsistencyReport {
+  equipment_id: string;
+  last_reading?: number;
+  lifetime_kilometers: number;
+  events: OdometerEventBase[];
+  issues: MileageConsistencyIssue[];
+}
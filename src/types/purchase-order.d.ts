@@ -0,0 +1,107 @@
+import { BaseModel } from "@/types/base-model";
+
+/**
+ * Estado de una orden de compra
+ * - draft: en preparación, se pueden modificar sus líneas
+ * - sent: enviada al proveedor
+ * - partially_received: se recibió parte de lo pedido
+ * - received: se recibió todo lo pedido
+ * - cancelled: anulada; lo recibido antes de anularla se mantiene
+ */
+export type PurchaseOrderStatus =
+  | "draft"
+  | "sent"
+  | "partially_received"
+  | "received"
+  | "cancelled";
+
+export interface PurchaseOrderLine {
+  id: string;
+  spare_part_id: string;
+  spare_part?: {
+    id: string;
+    factory_code: string;
+    name: string;
+  };
+  supplier_code?: string;
+  quantity: number;
+  received_quantity: number;
+  unit_price: number;
+}
+
+/**
+ * Orden de compra de repuestos a un proveedor
+ */
+export interface PurchaseOrderBase extends BaseModel {
+  number: number; // Correlativo por usuario
+  supplier_id: string;
+  supplier_name?: string;
+  warehouse_id?: string; // Ubicación que recibe los repuestos
+  warehouse_name?: string;
+  status: PurchaseOrderStatus;
+  expected_date?: Date;
+  notes?: string;
+  lines: PurchaseOrderLine[];
+  total: number;
+  sent_at?: Date;
+  received_at?: Date;
+  cancelled_at?: Date;
+}
+
+export interface PurchaseOrderLineInput {
+  spare_part_id: string;
+  quantity: number;
+  unit_price?: number; // Precio del proveedor si no se indica
+}
+
+/**
+ * Línea con el precio y el código del proveedor ya resueltos
+ */
+export interface PurchaseOrderLineSave {
+  spare_part_id: string;
+  quantity: number;
+  unit_price: number;
+  supplier_code?: string;
+}
+
+export interface PurchaseOrderCreate {
+  supplier_id: string;
+  warehouse_id?: string;
+  expected_date?: Date;
+  notes?: string;
+  lines: PurchaseOrderLineInput[];
+  user_id: string;
+}
+
+export interface PurchaseOrderUpdate {
+  id: string;
+  warehouse_id?: string;
+  expected_date?: Date;
+  notes?: string;
+  lines?: PurchaseOrderLineInput[];
+  user_id: string;
+}
+
+/**
+ * Recepción de una parte o de la totalidad de una orden de compra
+ */
+export interface PurchaseOrderReceipt {
+  purchase_order_id: string;
+  warehouse_id?: string; // Ubicación de la orden si no se indica
+  lines: { line_id: string; quantity: number }[];
+  notes?: string;
+  user_id: string;
+}
+
+export interface PurchaseOrderFilters {
+  supplier_id?: string;
+  status?: PurchaseOrderStatus;
+}
+
+export interface MultiPurchaseOrder {
+  total: number;
+  limit: number;
+  offset: number;
+  pages: number;
+  data: PurchaseOrderBase[];
+}
@@ -0,0 +1,92 @@
+import { BaseModel } from "./base-model";
+import { MaintenanceTypePlan } from "./equipment";
+
+/**
+ * Repuesto de un kit con la cantidad que se usa en cada mantenimiento
+ */
+export interface SparePartKitItem {
+  spare_part_id: string;
+  quantity: number;
+  spare_part?: {
+    id: string;
+    factory_code: string;
+    name: string;
+    price: number;
+  };
+}
+
+/**
+ * Kit de repuestos (lista de materiales) de un tipo de mantenimiento o de una
+ * etapa del plan. Pertenece a uno solo de los dos; el de la etapa tiene
+ * prioridad sobre el del tipo de mantenimiento
+ */
+export interface SparePartKitBase extends BaseModel {
+  name: string;
+  description?: string;
+  maintenance_type_id?: string;
+  maintenance_stage_id?: string;
+  items: SparePartKitItem[];
+}
+
+export interface SparePartKitCreate {
+  name: string;
+  description?: string;
+  maintenance_type_id?: string;
+  maintenance_stage_id?: string;
+  items: Omit<SparePartKitItem, "spare_part">[];
+  user_id: string;
+}
+
+export interface SparePartKitUpdate {
+  id: string;
+  name?: string;
+  description?: string;
+  items?: Omit<SparePartKitItem, "spare_part">[];
+  user_id: string;
+}
+
+export interface MultiSparePartKit {
+  total: number;
+  limit: number;
+  offset: number;
+  pages: number;
+  data: SparePartKitBase[];
+}
+
+/**
+ * Próximo mantenimiento de un equipo que consume un kit
+ */
+export interface SparePartDemandMaintenance {
+  equipment_id: string;
+  code: string;
+  license_plate: string;
+  maintenance_type?: MaintenanceTypePlan;
+  kit_id: string;
+  kit_name: string;
+  predicted_date?: Date;
+  days_until_due?: number;
+}
+
+/**
+ * Cantidad de un repuesto requerida por los próximos mantenimientos
+ */
+export interface SparePartDemandLine {
+  spare_part_id: string;
+  spare_part?: SparePartKitItem["spare_part"];
+  quantity: number;
+  estimated_cost: number;
+  maintenance_count: number;
+}
+
+/**
+ * Pronóstico de demanda de repuestos de la flota
+ * Considera el próximo mantenimiento de cada equipo que vence dentro del
+ * horizonte y que tiene un kit definido
+ */
+export interface SparePartDemandForecast {
+  generated_at: Date;
+  horizon_days: number;
+  lines: SparePartDemandLine[];
+  maintenances: SparePartDemandMaintenance[];
+  without_kit: number; // Mantenimientos del horizonte sin kit definido
+}
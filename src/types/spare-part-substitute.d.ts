@@ -0,0 +1,66 @@
+import { SparePartBase } from "./spare-part";
+
+/**
+ * Equivalencia entre dos repuestos intercambiables; vale en ambos sentidos y
+ * las equivalencias encadenadas forman un grupo de equivalencia
+ */
+export interface SparePartSubstituteBase {
+  id: string;
+  spare_part_id: string;
+  substitute_id: string;
+  notes?: string;
+  created_at: Date;
+  user_id: string;
+}
+
+export interface SparePartSubstituteCreate {
+  spare_part_id: string;
+  substitute_id: string;
+  notes?: string;
+  user_id: string;
+}
+
+/**
+ * Repuesto del mismo grupo de equivalencia que otro, con su stock
+ */
+export interface SparePartEquivalent {
+  spare_part: SparePartBase;
+  link_id?: string; // Equivalencia directa con el repuesto consultado
+  notes?: string;
+  on_hand: number;
+}
+
+/**
+ * Equivalentes propuestos cuando un repuesto no tiene stock o está
+ * descontinuado
+ */
+export interface SparePartSubstituteProposal {
+  spare_part_id: string;
+  on_hand: number;
+  discontinued: boolean;
+  needs_substitute: boolean;
+  equivalents: SparePartEquivalent[];
+}
+
+export interface EquivalenceGroupConsumptionLine {
+  spare_part_id: string;
+  spare_part?: SparePartBase;
+  quantity: number;
+  total_cost: number;
+}
+
+/**
+ * Consumo agregado de todos los repuestos de un grupo de equivalencia
+ */
+export interface EquivalenceGroupConsumption {
+  spare_part_ids: string[];
+  lines: EquivalenceGroupConsumptionLine[];
+  quantity: number;
+  total_cost: number;
+}
+
+export interface EquivalenceConsumptionReport {
+  from?: Date;
+  to?: Date;
+  groups: EquivalenceGroupConsumption[];
+}
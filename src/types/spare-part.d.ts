@@ -1,4 +1,5 @@
 import { BaseModel } from "@/types/base-model";
+import { MaintenanceSparePartCostSnapshot } from "@/types/maintenance-spare-part";
 
 export interface SparePartBase extends BaseModel {
   factory_code: string;
@@ -6,10 +7,22 @@ export interface SparePartBase extends BaseModel {
   description?: string;
   price: number;
   image_url?: string;
+  last_purchase_cost?: number; // Costo unitario de la última recepción
+  last_purchase_at?: Date;
+  compatible_equipment_types?: string[]; // Tipos de equipo; vacío = todos
+  discontinued?: boolean; // Ya no se fabrica o no se compra más
 }
 
 export interface SparePartCreate
-  extends Omit<SparePartBase, "id" | "created_at" | "updated_at"> {
+  extends Omit<
+    SparePartBase,
+    | "id"
+    | "created_at"
+    | "updated_at"
+    | "last_purchase_cost"
+    | "last_purchase_at"
+    | "discontinued"
+  > {
   user_id: string;
 }
 
@@ -20,6 +33,8 @@ export interface SparePartUpdate {
   description?: string;
   price?: number;
   image_url?: string;
+  compatible_equipment_types?: string[];
+  discontinued?: boolean;
 }
 
 export interface MultiSparePart {
@@ -33,3 +48,23 @@ export interface MultiSparePart {
 export interface DeleteSparePart {
   id: string;
 }
+
+export interface SparePartPriceChange {
+  id: string;
+  spare_part_id: string;
+  previous_price?: number;
+  price: number;
+  changed_at: Date;
+  user_id: string;
+}
+
+export interface SparePartPriceTrend {
+  spare_part_id: string;
+  current_price: number;
+  last_purchase_cost?: number;
+  min_price: number;
+  max_price: number;
+  change_percent: number; // Variación respecto al primer precio registrado
+  changes: SparePartPriceChange[];
+  snapshots: MaintenanceSparePartCostSnapshot[];
+}
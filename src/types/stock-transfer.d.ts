@@ -0,0 +1,39 @@
+import { BaseModel } from "@/types/base-model";
+
+export interface StockTransferItem {
+  spare_part_id: string;
+  quantity: number;
+  spare_part?: {
+    id: string;
+    factory_code: string;
+    name: string;
+  };
+}
+
+/**
+ * Documento de transferencia de repuestos entre dos ubicaciones
+ */
+export interface StockTransferBase extends BaseModel {
+  source_warehouse_id: string;
+  source_warehouse_name?: string;
+  destination_warehouse_id: string;
+  destination_warehouse_name?: string;
+  notes?: string;
+  items: StockTransferItem[];
+}
+
+export interface StockTransferCreate {
+  source_warehouse_id: string;
+  destination_warehouse_id: string;
+  notes?: string;
+  items: Omit<StockTransferItem, "spare_part">[];
+  user_id: string;
+}
+
+export interface MultiStockTransfer {
+  total: number;
+  limit: number;
+  offset: number;
+  pages: number;
+  data: StockTransferBase[];
+}
@@ -0,0 +1,68 @@
+import { BaseModel } from "@/types/base-model";
+
+/**
+ * Proveedor de repuestos
+ */
+export interface SupplierBase extends BaseModel {
+  name: string;
+  tax_id?: string; // RUC u otro identificador fiscal
+  contact_name?: string;
+  phone?: string;
+  email?: string;
+  address?: string;
+}
+
+export interface SupplierCreate
+  extends Omit<SupplierBase, "id" | "created_at" | "updated_at"> {
+  user_id: string;
+}
+
+export interface SupplierUpdate {
+  id: string;
+  name?: string;
+  tax_id?: string;
+  contact_name?: string;
+  phone?: string;
+  email?: string;
+  address?: string;
+  user_id: string;
+}
+
+export interface MultiSupplier {
+  total: number;
+  limit: number;
+  offset: number;
+  pages: number;
+  data: SupplierBase[];
+}
+
+/**
+ * Código y precio de un repuesto en un proveedor
+ */
+export interface SupplierSparePart {
+  id: string;
+  supplier_id: string;
+  supplier_name?: string;
+  spare_part_id: string;
+  spare_part?: {
+    id: string;
+    factory_code: string;
+    name: string;
+  };
+  supplier_code?: string; // Código del repuesto en el catálogo del proveedor
+  price: number;
+  updated_at?: Date;
+}
+
+export interface SupplierSparePartSave {
+  supplier_id: string;
+  spare_part_id: string;
+  supplier_code?: string;
+  price: number;
+  user_id: string;
+}
+
+export interface SupplierSparePartFilters {
+  supplier_id?: string;
+  spare_part_id?: string;
+}
@@ -0,0 +1,36 @@
+import { BaseModel } from "@/types/base-model";
+
+/**
+ * Técnico que ejecuta los mantenimientos
+ */
+export interface TechnicianBase extends BaseModel {
+  name: string;
+  hourly_rate: number; // Costo por hora de mano de obra
+  specialty?: string;
+  phone?: string;
+  active: boolean; // Los técnicos inactivos no se pueden asignar
+}
+
+export interface TechnicianCreate
+  extends Omit<TechnicianBase, "id" | "created_at" | "updated_at" | "active"> {
+  active?: boolean;
+  user_id: string;
+}
+
+export interface TechnicianUpdate {
+  id: string;
+  name?: string;
+  hourly_rate?: number;
+  specialty?: string;
+  phone?: string;
+  active?: boolean;
+  user_id: string;
+}
+
+export interface MultiTechnician {
+  total: number;
+  limit: number;
+  offset: number;
+  pages: number;
+  data: TechnicianBase[];
+}
@@ -0,0 +1,31 @@
+import { BaseModel } from "@/types/base-model";
+
+/**
+ * Ubicación donde se almacenan repuestos (taller, almacén)
+ */
+export interface WarehouseBase extends BaseModel {
+  name: string;
+  address?: string;
+  is_default: boolean; // Ubicación usada cuando no se indica otra
+}
+
+export interface WarehouseCreate
+  extends Omit<WarehouseBase, "id" | "created_at" | "updated_at"> {
+  user_id: string;
+}
+
+export interface WarehouseUpdate {
+  id: string;
+  name?: string;
+  address?: string;
+  is_default?: boolean;
+  user_id: string;
+}
+
+export interface MultiWarehouse {
+  total: number;
+  limit: number;
+  offset: number;
+  pages: number;
+  data: WarehouseBase[];
+}